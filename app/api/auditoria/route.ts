@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { consultarAuditoria } from '@/lib/auditoria-service';
+import { comPermissao } from '@/lib/api-auth';
+
+// Consulta da trilha de auditoria com filtros (entidade, ação, chave, usuário, período) e paginação
+export const GET = comPermissao('/api/auditoria', async (request: Request) => {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    const resultado = await consultarAuditoria({
+      entidade: searchParams.get('entidade'),
+      acao: searchParams.get('acao'),
+      chave: searchParams.get('chave'),
+      codLead: searchParams.get('codLead'),
+      codUsuario: searchParams.get('codUsuario') ? Number(searchParams.get('codUsuario')) : null,
+      dataInicio: searchParams.get('dataInicio'),
+      dataFim: searchParams.get('dataFim'),
+      pagina: Number(searchParams.get('pagina')) || 0
+    });
+
+    return NextResponse.json(resultado);
+  } catch (error: any) {
+    console.error('Erro ao consultar auditoria:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao consultar auditoria' },
+      { status: 500 }
+    );
+  }
+});
+
+export const dynamic = 'force-dynamic';
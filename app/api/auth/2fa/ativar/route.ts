@@ -0,0 +1,47 @@
+import { NextResponse } from 'next/server';
+import { criarSessao, aplicarCookieSessao } from '@/lib/session-service';
+import { resolverUsuarioCadastro, confirmarCadastro, encerrarDesafio } from '@/lib/dois-fatores-service';
+import { registrarSucessoLogin } from '@/lib/protecao-login';
+import { naoAutenticado } from '@/lib/permissoes';
+
+// Confirma o cadastro com o primeiro código do aplicativo e devolve os códigos de recuperação.
+// Quando vem do login (cadastro obrigatório), também cria a sessão.
+export async function POST(request: Request) {
+  try {
+    const { desafio, codigo } = await request.json();
+    const user = await resolverUsuarioCadastro(desafio);
+
+    if (!user) {
+      return naoAutenticado(desafio ? 'Sessão de login expirada. Entre novamente com email e senha.' : undefined);
+    }
+
+    const codigosRecuperacao = await confirmarCadastro(user.id, codigo);
+    if (!codigosRecuperacao) {
+      return NextResponse.json(
+        { error: 'Código inválido ou cadastro expirado. Confira o horário do celular ou gere um novo segredo.' },
+        { status: 400 }
+      );
+    }
+
+    if (!desafio) {
+      return NextResponse.json({ codigosRecuperacao });
+    }
+
+    await encerrarDesafio(desafio);
+    await registrarSucessoLogin(user.email);
+
+    const { token, expiraEm } = await criarSessao(user);
+    const response = NextResponse.json({ user, codigosRecuperacao });
+    aplicarCookieSessao(response, token, expiraEm);
+
+    return response;
+  } catch (error: any) {
+    console.error('Erro ao ativar dois fatores:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao ativar dois fatores' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { resolverUsuarioCadastro, iniciarCadastro } from '@/lib/dois-fatores-service';
+import { naoAutenticado } from '@/lib/permissoes';
+
+// Gera o segredo TOTP a ser cadastrado no aplicativo autenticador.
+// Aceita o desafio do login (cadastro obrigatório) ou a sessão do usuário (cadastro opcional pelo perfil).
+export async function POST(request: Request) {
+  try {
+    const { desafio } = await request.json().catch(() => ({}));
+    const user = await resolverUsuarioCadastro(desafio);
+
+    if (!user) {
+      return naoAutenticado(desafio ? 'Sessão de login expirada. Entre novamente com email e senha.' : undefined);
+    }
+
+    return NextResponse.json(await iniciarCadastro(user));
+  } catch (error: any) {
+    console.error('Erro ao iniciar cadastro de dois fatores:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao iniciar cadastro de dois fatores' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
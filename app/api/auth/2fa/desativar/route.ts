@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { usersService } from '@/lib/users-service';
+import { cryptoService } from '@/lib/crypto-service';
+import { desativarDoisFatores } from '@/lib/dois-fatores-service';
+import { comPermissao } from '@/lib/api-auth';
+import { acessoNegado, exigeDoisFatores } from '@/lib/permissoes';
+
+// Desativação pelo próprio usuário, confirmada com a senha; perfis com 2FA obrigatório não podem desativar
+export const POST = comPermissao('/api/auth/2fa/desativar', async (request: Request, { usuario, auditar }) => {
+  try {
+    if (exigeDoisFatores(usuario.role)) {
+      return acessoNegado('A autenticação em dois fatores é obrigatória para o seu perfil');
+    }
+
+    const { senha } = await request.json();
+    const user = await usersService.getById(usuario.id);
+
+    if (!user?.password || !senha || !(await cryptoService.comparePassword(senha, user.password))) {
+      return NextResponse.json({ error: 'Senha incorreta' }, { status: 400 });
+    }
+
+    await desativarDoisFatores(usuario.id);
+    await auditar({
+      acao: 'ATUALIZAR',
+      entidade: 'USUARIO',
+      chave: usuario.id,
+      antes: { TOTPATIVO: 'S' },
+      depois: { TOTPATIVO: 'N', TOTPSEGREDO: null }
+    });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Erro ao desativar dois fatores:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao desativar dois fatores' },
+      { status: 500 }
+    );
+  }
+});
+
+export const dynamic = 'force-dynamic';
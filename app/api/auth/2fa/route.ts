@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { statusDoisFatores } from '@/lib/dois-fatores-service';
+import { comPermissao } from '@/lib/api-auth';
+
+export const GET = comPermissao('/api/auth/2fa', async (request: Request, { usuario }) => {
+  try {
+    return NextResponse.json(await statusDoisFatores(usuario));
+  } catch (error: any) {
+    console.error('Erro ao consultar dois fatores:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao consultar dois fatores' },
+      { status: 500 }
+    );
+  }
+});
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,73 @@
+import { NextResponse } from 'next/server';
+import { usersService } from '@/lib/users-service';
+import { criarSessao, aplicarCookieSessao } from '@/lib/session-service';
+import {
+  obterDesafio,
+  verificarSegundoFator,
+  registrarTentativaDesafio,
+  encerrarDesafio
+} from '@/lib/dois-fatores-service';
+import { obterIp, registrarFalhaLogin, registrarSucessoLogin, contaBloqueada } from '@/lib/protecao-login';
+
+// Segunda etapa do login: código do aplicativo autenticador ou código de recuperação
+export async function POST(request: Request) {
+  try {
+    const { desafio: token, codigo } = await request.json();
+
+    const desafio = await obterDesafio(token, 'verificar');
+    if (!desafio) {
+      return NextResponse.json(
+        { error: 'Sessão de login expirada. Entre novamente com email e senha.', codigo: 'DESAFIO_EXPIRADO' },
+        { status: 401 }
+      );
+    }
+
+    const user = await usersService.getById(desafio.userId);
+    if (!user || user.status !== 'ativo') {
+      await encerrarDesafio(token);
+      return NextResponse.json({ error: 'Usuário não autorizado' }, { status: 401 });
+    }
+
+    const valido = await verificarSegundoFator(user.id, codigo);
+
+    if (!valido) {
+      const bloqueio = await registrarFalhaLogin({
+        email: user.email,
+        ip: obterIp(request),
+        motivo: 'CODIGO_2FA_INVALIDO',
+        codUsuario: user.id
+      });
+      if (bloqueio) {
+        await encerrarDesafio(token);
+        return contaBloqueada(bloqueio);
+      }
+
+      const podeTentar = await registrarTentativaDesafio(token, desafio);
+      return NextResponse.json(
+        podeTentar
+          ? { error: 'Código inválido' }
+          : { error: 'Muitas tentativas. Entre novamente com email e senha.', codigo: 'DESAFIO_EXPIRADO' },
+        { status: 401 }
+      );
+    }
+
+    await encerrarDesafio(token);
+    await registrarSucessoLogin(user.email);
+
+    const { password: _, ...userWithoutPassword } = user;
+
+    const { token: tokenSessao, expiraEm } = await criarSessao(userWithoutPassword);
+    const response = NextResponse.json({ user: userWithoutPassword });
+    aplicarCookieSessao(response, tokenSessao, expiraEm);
+
+    return response;
+  } catch (error: any) {
+    console.error('Erro na verificação de dois fatores:', error);
+    return NextResponse.json(
+      { error: 'Erro ao verificar o código. Tente novamente.' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
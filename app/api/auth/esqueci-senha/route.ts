@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { solicitarRedefinicaoSenha } from '@/lib/redefinicao-senha-service';
+import { obterIp, verificarLimiteIp, verificarLimiteEmail, limiteExcedido } from '@/lib/protecao-login';
+
+export async function POST(request: Request) {
+  try {
+    const esperaIp = verificarLimiteIp('recuperacao', obterIp(request));
+    if (esperaIp > 0) {
+      return limiteExcedido(esperaIp);
+    }
+
+    const { email } = await request.json();
+
+    if (!email) {
+      return NextResponse.json({ error: 'Email é obrigatório' }, { status: 400 });
+    }
+
+    const esperaEmail = verificarLimiteEmail('recuperacao', email);
+    if (esperaEmail > 0) {
+      return limiteExcedido(esperaEmail);
+    }
+
+    // O link nunca é montado a partir dos cabeçalhos da requisição: um Host forjado levaria o token
+    // para outro domínio. Sem URL configurada em produção nenhum email é enviado
+    const urlBase = process.env.NEXT_PUBLIC_APP_URL
+      || (process.env.NODE_ENV !== 'production' ? 'http://localhost:5000' : null);
+    if (!urlBase) {
+      throw new Error('NEXT_PUBLIC_APP_URL não configurada; link de redefinição não enviado');
+    }
+    await solicitarRedefinicaoSenha(email, urlBase);
+  } catch (error: any) {
+    // Falhas não são expostas para não revelar quais emails estão cadastrados
+    console.error('Erro ao solicitar redefinição de senha:', error);
+  }
+
+  return NextResponse.json({
+    message: 'Se o email estiver cadastrado, você receberá um link para redefinir a senha.'
+  });
+}
+
+export const dynamic = 'force-dynamic';
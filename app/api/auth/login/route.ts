@@ -2,10 +2,28 @@
 import { NextResponse } from 'next/server';
 import { usersService } from '@/lib/users-service';
 import { cryptoService } from '@/lib/crypto-service';
-import { SUPER_ADMIN } from '@/lib/auth-service';
+import { criarSessao, aplicarCookieSessao } from '@/lib/session-service';
+import { etapaDoisFatores, criarDesafio } from '@/lib/dois-fatores-service';
+import {
+  obterIp,
+  verificarLimiteIp,
+  verificarLimiteEmail,
+  verificarBloqueio,
+  registrarFalhaLogin,
+  registrarSucessoLogin,
+  limiteExcedido,
+  contaBloqueada
+} from '@/lib/protecao-login';
 
 export async function POST(request: Request) {
   try {
+    const ip = obterIp(request);
+    const esperaIp = verificarLimiteIp('login', ip);
+    if (esperaIp > 0) {
+      console.warn('⚠️ Limite de login por IP excedido:', ip);
+      return limiteExcedido(esperaIp);
+    }
+
     const { email, password } = await request.json();
 
     if (!email || !password) {
@@ -15,26 +33,25 @@ export async function POST(request: Request) {
       );
     }
 
-    // Verificar se é o super admin padrão do sistema
-    if (email === SUPER_ADMIN.email && password === SUPER_ADMIN.password) {
-      const { password: _, ...userWithoutPassword } = SUPER_ADMIN;
-      
-      const response = NextResponse.json({ user: userWithoutPassword });
-      response.cookies.set('user', JSON.stringify(userWithoutPassword), {
-        httpOnly: false,
-        secure: process.env.NODE_ENV === 'production',
-        sameSite: 'lax',
-        maxAge: 60 * 60 * 24 * 7,
-        path: '/'
-      });
-      
-      return response;
+    const esperaEmail = verificarLimiteEmail('login', email);
+    if (esperaEmail > 0) {
+      console.warn('⚠️ Limite de login por email excedido:', email);
+      return limiteExcedido(esperaEmail);
+    }
+
+    const bloqueadoAte = await verificarBloqueio(email);
+    if (bloqueadoAte) {
+      await registrarFalhaLogin({ email, ip, motivo: 'CONTA_BLOQUEADA' });
+      return contaBloqueada(bloqueadoAte);
     }
 
     // Buscar usuário por email - otimizado
     const users = await usersService.getByEmail(email);
     
     if (users.length === 0) {
+      const bloqueio = await registrarFalhaLogin({ email, ip, motivo: 'USUARIO_INEXISTENTE' });
+      if (bloqueio) return contaBloqueada(bloqueio);
+
       return NextResponse.json(
         { error: 'Email ou senha inválidos' },
         { status: 401 }
@@ -45,6 +62,9 @@ export async function POST(request: Request) {
     const user = users.find((u) => u.status === 'ativo');
     
     if (!user || !user.password) {
+      const bloqueio = await registrarFalhaLogin({ email, ip, motivo: 'USUARIO_INATIVO', codUsuario: users[0].id });
+      if (bloqueio) return contaBloqueada(bloqueio);
+
       return NextResponse.json(
         { error: 'Email ou senha inválidos, ou usuário não aprovado' },
         { status: 401 }
@@ -55,25 +75,33 @@ export async function POST(request: Request) {
     const isPasswordValid = await cryptoService.comparePassword(password, user.password);
 
     if (!isPasswordValid) {
+      const bloqueio = await registrarFalhaLogin({ email, ip, motivo: 'SENHA_INVALIDA', codUsuario: user.id });
+      if (bloqueio) return contaBloqueada(bloqueio);
+
       return NextResponse.json(
         { error: 'Email ou senha inválidos' },
         { status: 401 }
       );
     }
 
+    // Com 2FA (ativo ou obrigatório para o perfil) a sessão só é criada após a segunda etapa.
+    // O contador de falhas não é zerado aqui para que o segundo fator também fique limitado.
+    const modo2fa = await etapaDoisFatores(user);
+    if (modo2fa) {
+      const desafio = await criarDesafio(user.id, modo2fa);
+      return NextResponse.json({ requer2fa: true, modo: modo2fa, desafio });
+    }
+
+    await registrarSucessoLogin(email);
+
     // Remove password from response
     const { password: _, ...userWithoutPassword } = user;
     
-    // Criar resposta com cookie de sessão
+    // Criar sessão assinada e devolver apenas o cookie com o token
+    const { token, expiraEm } = await criarSessao(userWithoutPassword);
     const response = NextResponse.json({ user: userWithoutPassword });
-    response.cookies.set('user', JSON.stringify(userWithoutPassword), {
-      httpOnly: false,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'lax',
-      maxAge: 60 * 60 * 24 * 7,
-      path: '/'
-    });
-    
+    aplicarCookieSessao(response, token, expiraEm);
+
     return response;
 
   } catch (error: any) {
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { SESSION_COOKIE, encerrarSessao, limparCookieSessao } from '@/lib/session-service';
+
+export async function POST() {
+  try {
+    await encerrarSessao(cookies().get(SESSION_COOKIE)?.value);
+  } catch (error: any) {
+    console.error('Erro ao encerrar sessão:', error);
+  }
+
+  const response = NextResponse.json({ success: true });
+  limparCookieSessao(response);
+  return response;
+}
+
+export const dynamic = 'force-dynamic';
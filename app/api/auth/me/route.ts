@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser } from '@/lib/session-service';
+
+// Usuário da sessão atual (substitui a leitura do cookie no cliente)
+export async function GET() {
+  try {
+    const user = await getSessionUser();
+
+    if (!user) {
+      return NextResponse.json({ error: 'Não autenticado' }, { status: 401 });
+    }
+
+    return NextResponse.json({ user });
+  } catch (error: any) {
+    console.error('Erro ao consultar sessão:', error);
+    return NextResponse.json(
+      { error: 'Erro ao consultar sessão' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { redefinirSenhaComToken } from '@/lib/redefinicao-senha-service';
+
+export async function POST(request: Request) {
+  try {
+    const { token, novaSenha } = await request.json();
+    const erro = await redefinirSenhaComToken(token, novaSenha);
+
+    if (erro) {
+      return NextResponse.json({ error: erro }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Erro ao redefinir senha:', error);
+    return NextResponse.json(
+      { error: 'Erro ao redefinir senha. Tente novamente.' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
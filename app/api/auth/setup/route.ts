@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { setupDisponivel, concluirSetup, ErroSetup } from '@/lib/bootstrap-admin';
+
+// Configuração inicial: cadastra o primeiro administrador usando ADMIN_SETUP_TOKEN.
+// Fica indisponível assim que existe um administrador ativo.
+
+export async function GET() {
+  try {
+    return NextResponse.json({ disponivel: await setupDisponivel() });
+  } catch (error: any) {
+    console.error('Erro ao verificar configuração inicial:', error);
+    return NextResponse.json(
+      { error: 'Não foi possível verificar a configuração inicial' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: Request) {
+  try {
+    const { token, name, email, password } = await request.json();
+    const admin = await concluirSetup({ token, name, email, password });
+
+    const { password: _, ...adminSemSenha } = admin;
+    return NextResponse.json({ user: adminSemSenha });
+  } catch (error: any) {
+    if (error instanceof ErroSetup) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Erro na configuração inicial:', error);
+    return NextResponse.json(
+      { error: 'Erro ao concluir a configuração inicial' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { trocarSenha, ERRO_SENHA_ATUAL } from '@/lib/redefinicao-senha-service';
+import { SESSION_COOKIE } from '@/lib/session-service';
+import { comPermissao } from '@/lib/api-auth';
+import {
+  obterIp,
+  verificarLimiteIp,
+  verificarLimiteEmail,
+  limiteExcedido,
+  verificarBloqueio,
+  contaBloqueada,
+  registrarFalhaLogin
+} from '@/lib/protecao-login';
+
+export const POST = comPermissao('/api/auth/trocar-senha', async (request: Request, { usuario, auditar }) => {
+  try {
+    const ip = obterIp(request);
+    const esperaIp = verificarLimiteIp('trocaSenha', ip);
+    if (esperaIp > 0) return limiteExcedido(esperaIp);
+
+    const esperaEmail = verificarLimiteEmail('trocaSenha', usuario.email);
+    if (esperaEmail > 0) return limiteExcedido(esperaEmail);
+
+    // Senha atual errada conta no mesmo bloqueio progressivo do login
+    const bloqueadoAte = await verificarBloqueio(usuario.email);
+    if (bloqueadoAte) return contaBloqueada(bloqueadoAte);
+
+    const { senhaAtual, novaSenha } = await request.json();
+    const erro = await trocarSenha(usuario.id, senhaAtual, novaSenha, cookies().get(SESSION_COOKIE)?.value);
+
+    if (erro === ERRO_SENHA_ATUAL) {
+      const bloqueio = await registrarFalhaLogin({ email: usuario.email, ip, motivo: 'SENHA_INVALIDA', codUsuario: usuario.id });
+      if (bloqueio) return contaBloqueada(bloqueio);
+    }
+
+    if (erro) {
+      return NextResponse.json({ error: erro }, { status: 400 });
+    }
+
+    await auditar({ acao: 'ATUALIZAR', entidade: 'USUARIO', chave: usuario.id, depois: { senhaAlterada: true } });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Erro ao alterar senha:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao alterar senha' },
+      { status: 500 }
+    );
+  }
+});
+
+export const dynamic = 'force-dynamic';
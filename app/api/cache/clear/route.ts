@@ -1,8 +1,9 @@
 
 import { NextResponse } from 'next/server';
 import { redisCacheService } from '@/lib/redis-cache-service';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/cache/clear', async (request: Request) => {
   try {
     const { searchParams } = new URL(request.url);
     const pattern = searchParams.get('pattern');
@@ -27,9 +28,9 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function GET(request: Request) {
+export const GET = comPermissao('/api/cache/clear', async (request: Request) => {
   try {
     const stats = await redisCacheService.getStats();
     return NextResponse.json({ 
@@ -43,4 +44,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,9 +1,10 @@
 
 import { NextResponse } from 'next/server';
-import { deletarFunil } from '@/lib/funis-service';
+import { deletarFunil, consultarFunis } from '@/lib/funis-service';
 import { consultarLeads } from '@/lib/leads-service';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/funis/deletar', async (request: Request, { auditar }) => {
   try {
     const { codFunil } = await request.json();
     
@@ -23,7 +24,9 @@ export async function POST(request: Request) {
       }, { status: 400 });
     }
 
+    const funilAntes = (await consultarFunis(undefined, true)).find(f => f.CODFUNIL === codFunil) || null;
     await deletarFunil(codFunil);
+    await auditar({ acao: 'EXCLUIR', entidade: 'FUNIL', chave: codFunil, antes: funilAntes });
     
     return NextResponse.json({ success: true });
   } catch (error: any) {
@@ -33,7 +36,7 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 // Desabilitar cache para esta rota
 export const dynamic = 'force-dynamic';
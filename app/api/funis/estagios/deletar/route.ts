@@ -2,8 +2,9 @@
 import { NextResponse } from 'next/server';
 import { deletarEstagio } from '@/lib/funis-service';
 import { consultarLeads } from '@/lib/leads-service';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/funis/estagios/deletar', async (request: Request, { auditar }) => {
   try {
     const { codEstagio } = await request.json();
     
@@ -24,6 +25,7 @@ export async function POST(request: Request) {
     }
 
     await deletarEstagio(codEstagio);
+    await auditar({ acao: 'EXCLUIR', entidade: 'ESTAGIO', chave: codEstagio, antes: { CODESTAGIO: codEstagio, ATIVO: 'S' } });
     
     return NextResponse.json({ success: true });
   } catch (error: any) {
@@ -33,7 +35,7 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 // Desabilitar cache para esta rota
 export const dynamic = 'force-dynamic';
@@ -1,8 +1,9 @@
 
 import { NextResponse } from 'next/server';
 import { consultarEstagiosFunil } from '@/lib/funis-service';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function GET(request: Request) {
+export const GET = comPermissao('/api/funis/estagios', async (request: Request) => {
   try {
     const { searchParams } = new URL(request.url);
     const codFunil = searchParams.get('codFunil');
@@ -20,7 +21,7 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 // Desabilitar cache para esta rota
 export const dynamic = 'force-dynamic';
@@ -1,8 +1,9 @@
 
 import { NextResponse } from 'next/server';
-import { salvarEstagio } from '@/lib/funis-service';
+import { salvarEstagio, consultarEstagiosFunil } from '@/lib/funis-service';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/funis/estagios/salvar', async (request: Request, { auditar }) => {
   try {
     const data = await request.json();
     console.log('📥 API - Recebendo dados do estágio:', JSON.stringify(data, null, 2));
@@ -15,6 +16,10 @@ export async function POST(request: Request) {
       throw new Error('Nome do estágio é obrigatório');
     }
     
+    const estagioAntes = data.CODESTAGIO
+      ? (await consultarEstagiosFunil(String(data.CODFUNIL))).find(e => e.CODESTAGIO === data.CODESTAGIO) || null
+      : null;
+
     const estagio = await salvarEstagio(data);
     
     if (!estagio) {
@@ -22,6 +27,14 @@ export async function POST(request: Request) {
     }
     
     console.log('✅ API - Estágio salvo com sucesso:', JSON.stringify(estagio, null, 2));
+    await auditar({
+      acao: estagioAntes ? 'ATUALIZAR' : 'CRIAR',
+      entidade: 'ESTAGIO',
+      chave: estagio.CODESTAGIO,
+      antes: estagioAntes,
+      depois: estagio
+    });
+
     return NextResponse.json(estagio);
   } catch (error: any) {
     console.error('❌ API - Erro ao salvar estágio:', error.message);
@@ -31,7 +44,7 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 // Desabilitar cache para esta rota
 export const dynamic = 'force-dynamic';
@@ -0,0 +1,63 @@
+import { NextResponse } from 'next/server';
+import { consultarFunis } from '@/lib/funis-service';
+import { consultarLeads } from '@/lib/leads-service';
+import { usersService } from '@/lib/users-service';
+import { calcularMetricasFunil } from '@/lib/funil-metricas-service';
+import { comPermissao, filtrarPorAcesso, usuariosDaEquipe } from '@/lib/api-auth';
+import { acessoNegado } from '@/lib/permissoes';
+
+const DATA_ISO = /^\d{4}-\d{2}-\d{2}$/;
+
+// Métricas do funil: administrador vê todos os vendedores, gerente a equipe e os demais apenas os próprios leads
+export const GET = comPermissao('/api/funis/metricas', async (request: Request, { usuario }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const codFunil = searchParams.get('codFunil');
+    const codUsuario = searchParams.get('codUsuario');
+    const dataInicio = searchParams.get('dataInicio') || '';
+    const dataFim = searchParams.get('dataFim') || '';
+
+    if (!codFunil) {
+      return NextResponse.json({ error: 'codFunil é obrigatório' }, { status: 400 });
+    }
+
+    if (!DATA_ISO.test(dataInicio) || !DATA_ISO.test(dataFim) || dataInicio > dataFim) {
+      return NextResponse.json({ error: 'Informe um período válido' }, { status: 400 });
+    }
+
+    const isAdmin = usuario.role === 'Administrador';
+    const funis = await consultarFunis(isAdmin ? undefined : usuario.id, isAdmin);
+    if (!funis.some(f => String(f.CODFUNIL) === String(codFunil))) {
+      return acessoNegado('Você não tem acesso a este funil');
+    }
+
+    // Vendedores que o usuário pode filtrar
+    const usuarios = await usersService.getAll();
+    const idsPermitidos = isAdmin ? null : new Set(await usuariosDaEquipe(usuario));
+    const vendedores = usuarios
+      .filter(u => !idsPermitidos || idsPermitidos.has(u.id))
+      .map(u => ({ id: u.id, name: u.name }));
+
+    if (codUsuario && !vendedores.some(v => String(v.id) === codUsuario)) {
+      return acessoNegado('Você não tem acesso aos leads deste vendedor');
+    }
+
+    const todos = await filtrarPorAcesso(usuario, await consultarLeads(undefined, true), lead => lead.CODUSUARIO);
+    const leads = todos.filter(lead =>
+      String(lead.CODFUNIL) === String(codFunil) &&
+      (!codUsuario || String(lead.CODUSUARIO) === codUsuario)
+    );
+
+    const metricas = await calcularMetricasFunil(codFunil, leads, { dataInicio, dataFim });
+
+    return NextResponse.json({ ...metricas, vendedores });
+  } catch (error: any) {
+    console.error('❌ Erro ao calcular métricas do funil:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao calcular métricas do funil' },
+      { status: 500 }
+    );
+  }
+});
+
+export const dynamic = 'force-dynamic';
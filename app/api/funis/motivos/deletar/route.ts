@@ -0,0 +1,30 @@
+
+import { NextResponse } from 'next/server';
+import { deletarMotivo } from '@/lib/motivos-service';
+import { comPermissao } from '@/lib/api-auth';
+
+export const POST = comPermissao('/api/funis/motivos/deletar', async (request: Request, { auditar }) => {
+  try {
+    const { codMotivo } = await request.json();
+
+    if (!codMotivo) {
+      return NextResponse.json({ error: 'codMotivo é obrigatório' }, { status: 400 });
+    }
+
+    // Inativação: leads já concluídos com este motivo continuam aparecendo nos relatórios
+    await deletarMotivo(String(codMotivo));
+    await auditar({ acao: 'EXCLUIR', entidade: 'MOTIVO', chave: codMotivo, antes: { CODMOTIVO: codMotivo, ATIVO: 'S' } });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('❌ API - Erro ao deletar motivo:', error.message);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao deletar motivo' },
+      { status: 500 }
+    );
+  }
+});
+
+// Desabilitar cache para esta rota
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
@@ -0,0 +1,33 @@
+
+import { NextResponse } from 'next/server';
+import { consultarMotivos, type TipoMotivo } from '@/lib/motivos-service';
+import { comPermissao } from '@/lib/api-auth';
+
+export const GET = comPermissao('/api/funis/motivos', async (request: Request) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const codFunil = searchParams.get('codFunil');
+    const tipo = searchParams.get('tipo');
+
+    if (!codFunil) {
+      return NextResponse.json({ error: 'codFunil é obrigatório' }, { status: 400 });
+    }
+
+    if (tipo && tipo !== 'PERDA' && tipo !== 'GANHO') {
+      return NextResponse.json({ error: 'tipo deve ser PERDA ou GANHO' }, { status: 400 });
+    }
+
+    const motivos = await consultarMotivos(codFunil, tipo as TipoMotivo | null);
+    return NextResponse.json(motivos);
+  } catch (error: any) {
+    console.error('❌ API - Erro ao consultar motivos:', error.message);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao consultar motivos' },
+      { status: 500 }
+    );
+  }
+});
+
+// Desabilitar cache para esta rota
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
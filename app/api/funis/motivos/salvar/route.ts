@@ -0,0 +1,45 @@
+
+import { NextResponse } from 'next/server';
+import { salvarMotivo, consultarMotivos } from '@/lib/motivos-service';
+import { comPermissao } from '@/lib/api-auth';
+
+export const POST = comPermissao('/api/funis/motivos/salvar', async (request: Request, { auditar }) => {
+  try {
+    const data = await request.json();
+
+    if (!data.CODFUNIL) {
+      return NextResponse.json({ error: 'CODFUNIL é obrigatório' }, { status: 400 });
+    }
+
+    if (!data.DESCRICAO || data.DESCRICAO.trim() === '') {
+      return NextResponse.json({ error: 'Descrição do motivo é obrigatória' }, { status: 400 });
+    }
+
+    const motivoAntes = data.CODMOTIVO
+      ? (await consultarMotivos(String(data.CODFUNIL))).find(m => m.CODMOTIVO === String(data.CODMOTIVO)) || null
+      : null;
+
+    const motivo = await salvarMotivo({ ...data, DESCRICAO: data.DESCRICAO.trim() });
+
+    console.log('✅ API - Motivo salvo com sucesso:', motivo.CODMOTIVO);
+    await auditar({
+      acao: motivoAntes ? 'ATUALIZAR' : 'CRIAR',
+      entidade: 'MOTIVO',
+      chave: motivo.CODMOTIVO,
+      antes: motivoAntes,
+      depois: motivo
+    });
+
+    return NextResponse.json(motivo);
+  } catch (error: any) {
+    console.error('❌ API - Erro ao salvar motivo:', error.message);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao salvar motivo' },
+      { status: 500 }
+    );
+  }
+});
+
+// Desabilitar cache para esta rota
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
@@ -1,8 +1,9 @@
 import { NextResponse } from 'next/server';
 import { consultarFunis, consultarFunisUsuario, atribuirFunilUsuario, removerFunilUsuario } from '@/lib/funis-service';
+import { comPermissao } from '@/lib/api-auth';
 
 // GET: Retorna todos os funis ou os funis de um usuário específico
-export async function GET(request: Request) {
+export const GET = comPermissao('/api/funis/permissoes', async (request: Request) => {
   try {
     const { searchParams } = new URL(request.url);
     const codUsuario = searchParams.get('codUsuario');
@@ -23,10 +24,10 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 // POST: Atualizar permissões de funis de um usuário
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/funis/permissoes', async (request: Request, { auditar }) => {
   try {
     const { codUsuario, codigosFunis } = await request.json();
 
@@ -54,6 +55,14 @@ export async function POST(request: Request) {
       }
     }
 
+    await auditar({
+      acao: 'ATUALIZAR',
+      entidade: 'USUARIO',
+      chave: codUsuario,
+      antes: { FUNIS: [...funisAtuais].sort().join(', ') },
+      depois: { FUNIS: [...codigosFunis].sort().join(', ') }
+    });
+
     return NextResponse.json({ 
       success: true,
       message: 'Permissões atualizadas com sucesso'
@@ -65,7 +74,7 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
\ No newline at end of file
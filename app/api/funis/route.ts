@@ -1,37 +1,14 @@
 
 import { NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
 import { consultarFunis } from '@/lib/funis-service';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function GET(request: Request) {
+export const GET = comPermissao('/api/funis', async (request: Request, { usuario: currentUser }) => {
   try {
     console.log('📡 API - Iniciando consulta de funis...');
     
-    // Obter usuário autenticado do cookie
-    const cookieStore = await cookies();
-    const userCookie = cookieStore.get('user');
-    
-    if (!userCookie) {
-      console.error('❌ Cookie de usuário não encontrado');
-      return NextResponse.json({ error: 'Não autenticado' }, { status: 401 });
-    }
-
-    let currentUser;
-    try {
-      currentUser = JSON.parse(userCookie.value);
-      console.log('🍪 Cookie do usuário parseado:', JSON.stringify(currentUser, null, 2));
-    } catch (e) {
-      console.error('❌ Erro ao parsear cookie de usuário:', e);
-      return NextResponse.json({ error: 'Sessão inválida' }, { status: 401 });
-    }
-
-    // Verificar múltiplas variações de admin
-    const isAdmin = currentUser.role === 'Administrador' || 
-                    currentUser.role === 'Admin' || 
-                    currentUser.role === 'admin' ||
-                    currentUser.role === 'ADMINISTRADOR';
-    
-    const codUsuario = parseInt(currentUser.id) || currentUser.id;
+    const isAdmin = currentUser.role === 'Administrador';
+    const codUsuario = Number(currentUser.id);
 
     console.log(`👤 Usuário autenticado: ${currentUser.name || 'Sem nome'} (ID: ${codUsuario}, Role: ${currentUser.role}, Admin: ${isAdmin})`);
 
@@ -57,7 +34,7 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 // Desabilitar cache para esta rota
 export const dynamic = 'force-dynamic';
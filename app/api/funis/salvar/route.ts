@@ -1,10 +1,14 @@
 
 import { NextResponse } from 'next/server';
-import { salvarFunil } from '@/lib/funis-service';
+import { salvarFunil, consultarFunis } from '@/lib/funis-service';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/funis/salvar', async (request: Request, { auditar }) => {
   try {
     const data = await request.json();
+    const funilAntes = data.CODFUNIL
+      ? (await consultarFunis(undefined, true)).find(f => f.CODFUNIL === data.CODFUNIL) || null
+      : null;
     const funil = await salvarFunil(data);
     
     // Garantir que o objeto é serializável
@@ -18,6 +22,14 @@ export async function POST(request: Request) {
       DATA_ATUALIZACAO: funil.DATA_ATUALIZACAO
     };
     
+    await auditar({
+      acao: funilAntes ? 'ATUALIZAR' : 'CRIAR',
+      entidade: 'FUNIL',
+      chave: funil.CODFUNIL,
+      antes: funilAntes,
+      depois: funilSerializavel
+    });
+
     return NextResponse.json(funilSerializavel);
   } catch (error: any) {
     console.error('❌ API - Erro ao salvar funil:', error.message);
@@ -26,7 +38,7 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 // Desabilitar cache para esta rota
 export const dynamic = 'force-dynamic';
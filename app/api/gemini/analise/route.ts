@@ -1,8 +1,8 @@
 
 import { NextRequest } from 'next/server';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { cookies } from 'next/headers';
 import { buscarDadosAnalise, FiltroAnalise } from '@/lib/analise-service';
+import { comPermissao } from '@/lib/api-auth';
 
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
 
@@ -105,24 +105,12 @@ REGRAS IMPORTANTES:
 11. SEMPRE adicione metadados.formatoMonetario: true quando os valores forem monetários (vendas, receita, preço, etc)
 12. Valores em cards devem ser formatados como "R$ 150.000,00" quando forem monetários`;
 
-export async function POST(request: NextRequest) {
+export const POST = comPermissao('/api/gemini/analise', async (request: NextRequest, { usuario }) => {
   try {
     const { prompt, dataInicio, dataFim } = await request.json();
 
-    const cookieStore = await cookies();
-    const userCookie = cookieStore.get('user');
-    let userId = 0;
-    let isAdmin = false;
-    
-    if (userCookie) {
-      try {
-        const user = JSON.parse(userCookie.value);
-        userId = user.id;
-        isAdmin = user.role === 'ADMIN';
-      } catch (e) {
-        console.error('Erro ao parsear cookie:', e);
-      }
-    }
+    const userId = usuario.id;
+    const isAdmin = usuario.role === 'Administrador';
 
     // Definir período padrão (últimos 30 dias) se não fornecido
     const hoje = new Date();
@@ -149,6 +137,9 @@ ${JSON.stringify(dadosAnalise.funis, null, 2)}
 ESTÁGIOS DOS FUNIS (${dadosAnalise.estagiosFunis.length} total):
 ${JSON.stringify(dadosAnalise.estagiosFunis, null, 2)}
 
+MOTIVOS DE PERDA (leads perdidos agrupados pelo motivo do catálogo):
+${JSON.stringify(dadosAnalise.motivosPerda ?? [], null, 2)}
+
 ATIVIDADES (${dadosAnalise.atividades.length} total):
 ${JSON.stringify(dadosAnalise.atividades, null, 2)}
 
@@ -202,4 +193,4 @@ IMPORTANTE: Retorne APENAS o JSON estruturado com os widgets. Não adicione text
       headers: { 'Content-Type': 'application/json' },
     });
   }
-}
+});
@@ -1,7 +1,7 @@
 import { NextRequest } from 'next/server';
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { cookies } from 'next/headers';
 import { redisCacheService } from '@/lib/redis-cache-service';
+import { comPermissao } from '@/lib/api-auth';
 
 const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
 
@@ -75,6 +75,7 @@ async function analisarDadosDoSistema(userId: number, userName: string, isAdmin:
       financeiro: dadosCompletos.financeiro,
       funis: dadosCompletos.funis,
       estagiosFunis: dadosCompletos.estagiosFunis,
+      motivosPerda: dadosCompletos.motivosPerda ?? [],
       userName,
       filtro,
       // Métricas calculadas
@@ -101,6 +102,7 @@ async function analisarDadosDoSistema(userId: number, userName: string, isAdmin:
       financeiro: [],
       funis: [],
       estagiosFunis: [],
+      motivosPerda: [],
       userName,
       filtro: { dataInicio: '', dataFim: '' },
       totalLeads: 0,
@@ -138,6 +140,7 @@ Funil → Estágios → Leads → Atividades/Produtos
 
 VOCÊ TEM ACESSO A:
 - Leads e seus estágios dentro dos funis
+- Motivos de perda dos leads perdidos (catálogo de motivos por funil)
 - Atividades registradas (com status: AGUARDANDO, ATRASADO, REALIZADO)
 - Produtos vinculados aos leads (itens de interesse de cada lead)
 - Base completa de produtos cadastrados no sistema (catálogo)
@@ -178,27 +181,14 @@ REGRA CRÍTICA SOBRE PEDIDOS:
 
 Sempre forneça informações baseadas nos dados reais disponíveis no contexto.`;
 
-export async function POST(request: NextRequest) {
+export const POST = comPermissao('/api/gemini/chat', async (request: NextRequest, { usuario }) => {
   try {
     const { message, history, filtro } = await request.json();
 
-    // Obter usuário autenticado
-    const cookieStore = await cookies();
-    const userCookie = cookieStore.get('user');
-    let userId = 0;
-    let userName = 'Usuário';
-    let isAdmin = false;
-
-    if (userCookie) {
-      try {
-        const user = JSON.parse(userCookie.value);
-        userId = user.id;
-        userName = user.name || 'Usuário';
-        isAdmin = user.role === 'admin';
-      } catch (e) {
-        console.error('Erro ao parsear cookie:', e);
-      }
-    }
+    // Usuário autenticado
+    const userId = usuario.id;
+    const userName = usuario.name || 'Usuário';
+    const isAdmin = usuario.role === 'Administrador';
 
     const model = genAI.getGenerativeModel({
       model: 'gemini-2.5-flash',
@@ -267,6 +257,11 @@ ${dadosSistema.leads.map((l: any) => {
   ${produtos.length > 0 ? `Produtos: ${produtos.map((p: any) => p.DESCRPROD).join(', ')}` : ''}`;
 }).join('\n\n')}` : ''}
 
+${dadosSistema.motivosPerda.length > 0 ? `❌ MOTIVOS DE PERDA:
+${dadosSistema.motivosPerda.map((m: any) =>
+  `• ${m.motivo}: ${m.quantidade} leads (${m.percentual}%) - R$ ${(m.valor || 0).toLocaleString('pt-BR', { minimumFractionDigits: 2 })}`
+).join('\n')}` : ''}
+
 ${dadosSistema.totalAtividades > 0 ? `📋 ATIVIDADES (${dadosSistema.totalAtividades}):
 ${dadosSistema.atividades.map((a: any) => {
   const lead = dadosSistema.leads.find((l: any) => l.CODLEAD === a.CODLEAD);
@@ -433,4 +428,4 @@ ${message}`;
       headers: { 'Content-Type': 'application/json' },
     });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
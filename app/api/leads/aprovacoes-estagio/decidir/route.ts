@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { consultarAprovacao, decidirAprovacao } from '@/lib/aprovacoes-estagio-service';
+import { consultarLead } from '@/lib/leads-service';
+import { registrarMudancaEstagio } from '@/lib/historico-estagios-service';
+import { comPermissao, podeAcessarRegistro } from '@/lib/api-auth';
+import { acessoNegado } from '@/lib/permissoes';
+
+export const POST = comPermissao('/api/leads/aprovacoes-estagio/decidir', async (request: Request, { usuario, auditar }) => {
+  try {
+    const { codAprovacao, aprovar, observacao } = await request.json();
+
+    if (!codAprovacao || typeof aprovar !== 'boolean') {
+      return NextResponse.json({ error: 'codAprovacao e aprovar são obrigatórios' }, { status: 400 });
+    }
+
+    const aprovacao = await consultarAprovacao(String(codAprovacao));
+    if (!aprovacao) {
+      return NextResponse.json({ error: 'Solicitação não encontrada' }, { status: 404 });
+    }
+
+    const lead = await consultarLead(aprovacao.CODLEAD);
+    if (!lead) {
+      return NextResponse.json({ error: 'Lead não encontrado' }, { status: 404 });
+    }
+
+    if (!(await podeAcessarRegistro(usuario, lead.CODUSUARIO))) {
+      return acessoNegado('Você não tem acesso a este lead');
+    }
+
+    if (aprovacao.STATUS !== 'PENDENTE') {
+      return NextResponse.json({ error: 'Esta solicitação já foi decidida' }, { status: 409 });
+    }
+
+    const resultado = await decidirAprovacao(usuario, aprovacao, lead, aprovar, observacao);
+
+    if (resultado.status === 'PENDENTE') {
+      return NextResponse.json({ error: resultado.erro, codigo: 'TRANSICAO_INVALIDA' }, { status: 422 });
+    }
+
+    if (resultado.status === 'APROVADA') {
+      await registrarMudancaEstagio(usuario, {
+        codLead: lead.CODLEAD,
+        codFunil: lead.CODFUNIL,
+        origem: aprovacao.CODESTAGIO_ORIGEM,
+        destino: aprovacao.CODESTAGIO_DESTINO
+      });
+
+      await auditar({
+        acao: 'ATUALIZAR',
+        entidade: 'LEAD',
+        chave: lead.CODLEAD,
+        codLead: lead.CODLEAD,
+        antes: lead,
+        depois: { CODESTAGIO: aprovacao.CODESTAGIO_DESTINO }
+      });
+    }
+
+    return NextResponse.json(resultado);
+  } catch (error: any) {
+    console.error('Erro ao decidir aprovação de estágio:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao decidir aprovação' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { listarAprovacoesPendentes } from '@/lib/aprovacoes-estagio-service';
+import { comPermissao, podeAcessarRegistro } from '@/lib/api-auth';
+
+// Solicitações de mudança de estágio aguardando aprovação (gerente vê apenas as da equipe)
+export const GET = comPermissao('/api/leads/aprovacoes-estagio', async (_request: Request, { usuario }) => {
+  try {
+    const aprovacoes = await listarAprovacoesPendentes(lead => podeAcessarRegistro(usuario, lead.CODUSUARIO));
+    return NextResponse.json(aprovacoes);
+  } catch (error: any) {
+    console.error('Erro ao listar aprovações de estágio:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao listar aprovações' },
+      { status: 500 }
+    );
+  }
+});
+
+export const dynamic = 'force-dynamic';
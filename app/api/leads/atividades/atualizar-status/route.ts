@@ -1,42 +1,15 @@
 
 import { NextResponse } from 'next/server';
-import axios from 'axios';
+import { datasetSave } from '@/lib/sankhya-gateway';
+import { consultarAtividade, converterDataSankhyaParaISO } from '@/lib/lead-atividades-service';
+import { alterarOcorrencias } from '@/lib/recorrencia-service';
+import { ehOcorrencia, lerRegra } from '@/lib/recorrencia';
+import { comPermissao, verificarAcessoAtividade } from '@/lib/api-auth';
 
-const ENDPOINT_LOGIN = "https://api.sandbox.sankhya.com.br/login";
-const URL_SAVE_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=DatasetSP.save&outputType=json";
-
-const LOGIN_HEADERS = {
-  'token': process.env.SANKHYA_TOKEN || "",
-  'appkey': process.env.SANKHYA_APPKEY || "",
-  'username': process.env.SANKHYA_USERNAME || "",
-  'password': process.env.SANKHYA_PASSWORD || ""
-};
-
-let cachedToken: string | null = null;
-
-async function obterToken(): Promise<string> {
-  if (cachedToken) {
-    return cachedToken;
-  }
-
-  const resposta = await axios.post(ENDPOINT_LOGIN, {}, {
-    headers: LOGIN_HEADERS,
-    timeout: 10000
-  });
-
-  const token = resposta.data.bearerToken || resposta.data.token;
-  if (!token) {
-    throw new Error("Token não encontrado na resposta de login.");
-  }
-
-  cachedToken = token;
-  return token;
-}
-
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/leads/atividades/atualizar-status', async (request: Request, { usuario, auditar }) => {
   try {
     const body = await request.json();
-    const { CODATIVIDADE, STATUS } = body;
+    const { CODATIVIDADE, STATUS, DATA_OCORRENCIA } = body;
 
     if (!CODATIVIDADE || !STATUS) {
       return NextResponse.json(
@@ -45,7 +18,21 @@ export async function POST(request: Request) {
       );
     }
 
-    const token = await obterToken();
+    const negado = await verificarAcessoAtividade(usuario, CODATIVIDADE);
+    if (negado) return negado;
+
+    const atividadeAntes = await consultarAtividade(String(CODATIVIDADE));
+
+    // Status é de cada ocorrência: concluir uma ocorrência calculada cria a linha própria dela
+    const regra = lerRegra(atividadeAntes?.RECORRENCIA);
+    if (atividadeAntes && regra && DATA_OCORRENCIA) {
+      if (!ehOcorrencia(regra, new Date(converterDataSankhyaParaISO(atividadeAntes.DATA_INICIO)), String(DATA_OCORRENCIA))) {
+        return NextResponse.json({ error: 'A data informada não é uma ocorrência da série' }, { status: 400 });
+      }
+
+      await alterarOcorrencias(atividadeAntes, String(DATA_OCORRENCIA), 'OCORRENCIA', { STATUS }, auditar);
+      return NextResponse.json({ success: true });
+    }
 
     const PAYLOAD = {
       "serviceName": "DatasetSP.save",
@@ -62,11 +49,15 @@ export async function POST(request: Request) {
       }
     };
 
-    await axios.post(URL_SAVE_SERVICO, PAYLOAD, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      }
+    await datasetSave(PAYLOAD);
+
+    await auditar({
+      acao: 'ATUALIZAR',
+      entidade: 'ATIVIDADE',
+      chave: CODATIVIDADE,
+      codLead: atividadeAntes?.CODLEAD || null,
+      antes: atividadeAntes,
+      depois: { STATUS }
     });
     
     return NextResponse.json({ success: true });
@@ -77,4 +68,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,37 +1,10 @@
 
 import { NextResponse } from 'next/server';
-import axios from 'axios';
-
-const ENDPOINT_LOGIN = "https://api.sandbox.sankhya.com.br/login";
-const URL_SAVE_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=DatasetSP.save&outputType=json";
-
-const LOGIN_HEADERS = {
-  'token': process.env.SANKHYA_TOKEN || "",
-  'appkey': process.env.SANKHYA_APPKEY || "",
-  'username': process.env.SANKHYA_USERNAME || "",
-  'password': process.env.SANKHYA_PASSWORD || ""
-};
-
-let cachedToken: string | null = null;
-
-async function obterToken(): Promise<string> {
-  if (cachedToken) {
-    return cachedToken;
-  }
-
-  const resposta = await axios.post(ENDPOINT_LOGIN, {}, {
-    headers: LOGIN_HEADERS,
-    timeout: 10000
-  });
-
-  const token = resposta.data.bearerToken || resposta.data.token;
-  if (!token) {
-    throw new Error("Token não encontrado na resposta de login.");
-  }
-
-  cachedToken = token;
-  return token;
-}
+import { datasetSave } from '@/lib/sankhya-gateway';
+import { consultarAtividade, converterDataSankhyaParaISO } from '@/lib/lead-atividades-service';
+import { alterarOcorrencias } from '@/lib/recorrencia-service';
+import { ESCOPOS_RECORRENCIA, ehOcorrencia, lerRegra, normalizarRegra, validarRegra } from '@/lib/recorrencia';
+import { comPermissao, verificarAcessoAtividade } from '@/lib/api-auth';
 
 const formatarDataHoraParaSankhya = (dataHoraISO: string) => {
   if (!dataHoraISO) return "";
@@ -51,10 +24,10 @@ const formatarDataHoraParaSankhya = (dataHoraISO: string) => {
   }
 };
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/leads/atividades/atualizar', async (request: Request, { usuario, auditar }) => {
   try {
     const body = await request.json();
-    const { CODATIVIDADE, DATA_INICIO, DATA_FIM, ATIVO, TITULO, DESCRICAO, TIPO, COR } = body;
+    const { CODATIVIDADE, DATA_INICIO, DATA_FIM, ATIVO, TITULO, DESCRICAO, TIPO, COR, DATA_OCORRENCIA, ESCOPO, RECORRENCIA } = body;
 
     if (!CODATIVIDADE) {
       return NextResponse.json(
@@ -63,7 +36,50 @@ export async function POST(request: Request) {
       );
     }
 
-    const token = await obterToken();
+    const negado = await verificarAcessoAtividade(usuario, CODATIVIDADE);
+    if (negado) return negado;
+
+    if (ESCOPO && !ESCOPOS_RECORRENCIA.includes(ESCOPO)) {
+      return NextResponse.json({ error: 'Escopo inválido' }, { status: 400 });
+    }
+
+    if (RECORRENCIA) {
+      const erroRegra = validarRegra(RECORRENCIA);
+      if (erroRegra) return NextResponse.json({ error: erroRegra }, { status: 400 });
+    }
+
+    const atividadeAntes = await consultarAtividade(String(CODATIVIDADE));
+
+    // Alteração feita a partir de uma ocorrência de série recorrente: calculada (CODATIVIDADE da série
+    // + DATA_OCORRENCIA) ou já alterada individualmente, quando o escopo abrange outras ocorrências
+    const serie = atividadeAntes?.RECORRENCIA
+      ? atividadeAntes
+      : atividadeAntes?.CODATIVIDADE_PAI && ESCOPO && ESCOPO !== 'OCORRENCIA'
+        ? await consultarAtividade(String(atividadeAntes.CODATIVIDADE_PAI))
+        : null;
+    const regra = lerRegra(serie?.RECORRENCIA);
+    const dataOcorrencia = serie === atividadeAntes ? DATA_OCORRENCIA : atividadeAntes?.DATA_OCORRENCIA;
+
+    if (serie && regra && dataOcorrencia) {
+      if (!ehOcorrencia(regra, new Date(converterDataSankhyaParaISO(serie.DATA_INICIO)), String(dataOcorrencia))) {
+        return NextResponse.json({ error: 'A data informada não é uma ocorrência da série' }, { status: 400 });
+      }
+
+      await alterarOcorrencias(serie, String(dataOcorrencia), ESCOPO || 'OCORRENCIA', {
+        DESCRICAO: TITULO !== undefined ? (DESCRICAO !== undefined ? `${TITULO}|${DESCRICAO}` : TITULO) : DESCRICAO,
+        TIPO,
+        COR,
+        DATA_INICIO,
+        DATA_FIM,
+        ATIVO,
+        RECORRENCIA: RECORRENCIA ? normalizarRegra(RECORRENCIA) : undefined
+      }, auditar);
+
+      // Ocorrência já alterada individualmente também recebe a alteração abaixo
+      if (serie === atividadeAntes) {
+        return NextResponse.json({ success: true });
+      }
+    }
 
     const fields = [];
     const values: any = {};
@@ -126,11 +142,15 @@ export async function POST(request: Request) {
       }
     };
 
-    await axios.post(URL_SAVE_SERVICO, PAYLOAD, {
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      }
+    await datasetSave(PAYLOAD);
+
+    await auditar({
+      acao: 'ATUALIZAR',
+      entidade: 'ATIVIDADE',
+      chave: CODATIVIDADE,
+      codLead: atividadeAntes?.CODLEAD || null,
+      antes: atividadeAntes,
+      depois: Object.fromEntries(fields.map((campo, i) => [campo, values[String(i)]]))
     });
     
     return NextResponse.json({ success: true });
@@ -141,4 +161,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
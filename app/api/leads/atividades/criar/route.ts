@@ -1,11 +1,13 @@
 
 import { NextResponse } from 'next/server';
 import { criarAtividade } from '@/lib/lead-atividades-service';
+import { comPermissao, verificarAcessoLead } from '@/lib/api-auth';
+import { normalizarRegra, validarRegra } from '@/lib/recorrencia';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/leads/atividades/criar', async (request: Request, { usuario, auditar }) => {
   try {
     const body = await request.json();
-    const { CODLEAD, TIPO, DESCRICAO, DADOS_COMPLEMENTARES, COR, DATA_INICIO, DATA_FIM } = body;
+    const { CODLEAD, TIPO, DESCRICAO, DADOS_COMPLEMENTARES, COR, DATA_INICIO, DATA_FIM, RECORRENCIA } = body;
 
     if (!TIPO || !DESCRICAO) {
       return NextResponse.json(
@@ -14,8 +16,19 @@ export async function POST(request: Request) {
       );
     }
 
-    // Obter código do usuário (em produção, pegar do token/sessão)
-    const CODUSUARIO = 1;
+    // Série recorrente: uma única linha com a regra; as ocorrências são calculadas em /api/leads/eventos
+    if (RECORRENCIA) {
+      const erroRegra = validarRegra(RECORRENCIA);
+      if (erroRegra) return NextResponse.json({ error: erroRegra }, { status: 400 });
+    }
+
+    if (CODLEAD) {
+      const negado = await verificarAcessoLead(usuario, CODLEAD);
+      if (negado) return negado;
+    }
+
+    // Atividade pertence ao usuário da sessão
+    const CODUSUARIO = usuario.id;
 
     // Garantir que as datas sejam processadas corretamente
     const dataInicio = DATA_INICIO || new Date().toISOString()
@@ -29,7 +42,16 @@ export async function POST(request: Request) {
       CODUSUARIO,
       COR,
       DATA_INICIO: dataInicio,
-      DATA_FIM: dataFim
+      DATA_FIM: dataFim,
+      RECORRENCIA: RECORRENCIA ? JSON.stringify(normalizarRegra(RECORRENCIA)) : undefined
+    });
+
+    await auditar({
+      acao: 'CRIAR',
+      entidade: 'ATIVIDADE',
+      chave: atividadeCriada?.CODATIVIDADE || '',
+      codLead: CODLEAD || null,
+      depois: atividadeCriada
     });
 
     // Retornar apenas dados serializáveis
@@ -48,4 +70,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
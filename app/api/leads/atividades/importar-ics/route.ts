@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { comPermissao, verificarAcessoLead } from '@/lib/api-auth';
+import { importarEventosIcs, MAX_EVENTOS_IMPORTACAO_ICS } from '@/lib/calendario-ics-service';
+import { lerIcs } from '@/lib/icalendar';
+import type { LeadAtividade } from '@/lib/lead-atividades-service';
+
+export const dynamic = 'force-dynamic';
+
+const TIPOS_IMPORTACAO = ['REUNIAO', 'VISITA', 'LIGACAO', 'EMAIL', 'TAREFA'];
+
+// Cria atividades no lead escolhido a partir dos eventos de um arquivo .ics
+export const POST = comPermissao('/api/leads/atividades/importar-ics', async (request: Request, { usuario, auditar }) => {
+  try {
+    const formData = await request.formData();
+    const arquivo = formData.get('arquivo') as File | null;
+    const codLead = formData.get('codLead') as string | null;
+    const tipo = (formData.get('tipo') as string | null) || 'REUNIAO';
+
+    if (!arquivo) {
+      return NextResponse.json({ error: 'Nenhum arquivo enviado' }, { status: 400 });
+    }
+
+    if (arquivo.size > 1024 * 1024) {
+      return NextResponse.json({ error: 'Arquivo muito grande. Máximo 1MB' }, { status: 400 });
+    }
+
+    if (!TIPOS_IMPORTACAO.includes(tipo)) {
+      return NextResponse.json({ error: 'Tipo de atividade inválido' }, { status: 400 });
+    }
+
+    const negado = await verificarAcessoLead(usuario, codLead);
+    if (negado) return negado;
+
+    const eventos = lerIcs(await arquivo.text());
+
+    if (eventos.length === 0) {
+      return NextResponse.json({ error: 'Nenhum evento encontrado no arquivo' }, { status: 400 });
+    }
+
+    if (eventos.length > MAX_EVENTOS_IMPORTACAO_ICS) {
+      return NextResponse.json(
+        { error: `O arquivo tem ${eventos.length} eventos. Importe no máximo ${MAX_EVENTOS_IMPORTACAO_ICS} por vez` },
+        { status: 400 }
+      );
+    }
+
+    const resultado = await importarEventosIcs(usuario, String(codLead), tipo as LeadAtividade['TIPO'], eventos, auditar);
+
+    return NextResponse.json(resultado);
+  } catch (error: any) {
+    console.error('Erro ao importar .ics:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao importar .ics' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,17 +1,27 @@
 import { NextResponse } from 'next/server';
 import { consultarAtividades } from '@/lib/lead-atividades-service';
+import { comPermissao, usuariosVisiveis, verificarAcessoLead } from '@/lib/api-auth';
 
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
-export async function GET(request: Request) {
+export const GET = comPermissao('/api/leads/atividades', async (request: Request, { usuario }) => {
   try {
     const { searchParams } = new URL(request.url);
     const codLead = searchParams.get('codLead');
     const ativo = searchParams.get('ativo');
 
+    if (codLead) {
+      const negado = await verificarAcessoLead(usuario, codLead);
+      if (negado) return negado;
+    }
+
     console.log('📥 Consultando atividades para lead:', codLead);
-    const atividades = await consultarAtividades(codLead || '', ativo || 'S');
+    // Sem lead informado, listar apenas atividades visíveis ao usuário (ou à equipe, para gerentes),
+    // pelo dono do lead vinculado ou, sem lead, pelo dono da atividade
+    const atividades = await consultarAtividades(codLead || '', ativo || 'S', {
+      usuarios: codLead ? undefined : await usuariosVisiveis(usuario)
+    });
     console.log('📤 Retornando', atividades.length, 'atividades');
 
     return NextResponse.json(atividades, {
@@ -28,4 +38,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,14 +1,17 @@
 
 import { NextResponse } from 'next/server';
-import { atualizarEstagioLead, consultarLeads } from '@/lib/leads-service';
+import { atualizarEstagioLead, consultarLead } from '@/lib/leads-service';
+import { comPermissao, podeAcessarRegistro } from '@/lib/api-auth';
+import { acessoNegado } from '@/lib/permissoes';
+import { avaliarMudancaEstagio, solicitarAprovacao } from '@/lib/aprovacoes-estagio-service';
+import { registrarMudancaEstagio } from '@/lib/historico-estagios-service';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/leads/atualizar-estagio', async (request: Request, { usuario, auditar }) => {
   try {
     const { codLeed, novoEstagio } = await request.json();
     
     // Buscar o lead atual para verificar status
-    const leads = await consultarLeads();
-    const leadAtual = leads.find(l => l.CODLEAD === codLeed);
+    const leadAtual = await consultarLead(codLeed);
     
     if (!leadAtual) {
       return NextResponse.json(
@@ -16,6 +19,10 @@ export async function POST(request: Request) {
         { status: 404 }
       );
     }
+
+    if (!(await podeAcessarRegistro(usuario, leadAtual.CODUSUARIO))) {
+      return acessoNegado('Você não tem acesso a este lead');
+    }
     
     // Bloquear alteração se o lead estiver ganho ou perdido
     if (leadAtual.STATUS_LEAD === 'GANHO' || leadAtual.STATUS_LEAD === 'PERDIDO') {
@@ -25,7 +32,45 @@ export async function POST(request: Request) {
       );
     }
     
+    // Regras do funil: estágios permitidos, campos obrigatórios e aprovação do gerente
+    const avaliacao = await avaliarMudancaEstagio(usuario, leadAtual, String(novoEstagio));
+
+    if (avaliacao.tipo === 'bloqueada') {
+      return NextResponse.json(
+        { error: avaliacao.erro, codigo: 'TRANSICAO_INVALIDA' },
+        { status: 422 }
+      );
+    }
+
+    if (avaliacao.tipo === 'aprovacao') {
+      const aprovacao = await solicitarAprovacao(usuario, leadAtual, String(novoEstagio));
+      return NextResponse.json(
+        {
+          pendenteAprovacao: true,
+          aprovacao,
+          mensagem: `A entrada em "${avaliacao.destino.NOME}" depende de aprovação do gerente. A solicitação foi enviada.`
+        },
+        { status: 202 }
+      );
+    }
+
     const resultado = await atualizarEstagioLead(codLeed, novoEstagio);
+
+    await registrarMudancaEstagio(usuario, {
+      codLead: codLeed,
+      codFunil: leadAtual.CODFUNIL,
+      origem: leadAtual.CODESTAGIO,
+      destino: novoEstagio
+    });
+
+    await auditar({
+      acao: 'ATUALIZAR',
+      entidade: 'LEAD',
+      chave: codLeed,
+      codLead: codLeed,
+      antes: leadAtual,
+      depois: { CODESTAGIO: novoEstagio }
+    });
     
     return NextResponse.json(resultado);
   } catch (error: any) {
@@ -36,4 +81,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
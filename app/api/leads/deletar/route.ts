@@ -1,12 +1,20 @@
 
 import { NextResponse } from 'next/server';
-import { deletarLead } from '@/lib/leads-service';
+import { deletarLead, consultarLead } from '@/lib/leads-service';
+import { comPermissao, verificarAcessoLead } from '@/lib/api-auth';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/leads/deletar', async (request: Request, { usuario, auditar }) => {
   try {
     const { codLeed } = await request.json();
-    
+
+    const negado = await verificarAcessoLead(usuario, codLeed);
+    if (negado) return negado;
+
+    const leadAntes = await consultarLead(String(codLeed));
+
     await deletarLead(codLeed);
+
+    await auditar({ acao: 'EXCLUIR', entidade: 'LEAD', chave: codLeed, codLead: codLeed, antes: leadAntes });
     
     return NextResponse.json({ success: true });
   } catch (error: any) {
@@ -17,4 +25,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
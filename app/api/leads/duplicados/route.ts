@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { consultarLead } from '@/lib/leads-service';
+import { verificarLeadDuplicado } from '@/lib/duplicidade-service';
+import { comPermissao, filtrarPorAcesso, verificarAcessoLead } from '@/lib/api-auth';
+
+// Possíveis duplicados de um lead (mesmo parceiro ou título semelhante no funil) que o gestor pode mesclar
+export const GET = comPermissao('/api/leads/duplicados', async (request: Request, { usuario }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const codLead = searchParams.get('codLead');
+
+    const negado = await verificarAcessoLead(usuario, codLead);
+    if (negado) return negado;
+
+    const lead = await consultarLead(String(codLead));
+    const duplicados = lead ? await verificarLeadDuplicado(lead) : [];
+
+    return NextResponse.json(await filtrarPorAcesso(usuario, duplicados, d => d.CODUSUARIO));
+  } catch (error: any) {
+    console.error('❌ Erro ao buscar leads duplicados:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao buscar leads duplicados' },
+      { status: 500 }
+    );
+  }
+});
+
+export const dynamic = 'force-dynamic';
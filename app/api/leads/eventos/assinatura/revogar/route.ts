@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { revogarTokenAgenda } from '@/lib/calendario-ics-service';
+import { comPermissao } from '@/lib/api-auth';
+
+export const POST = comPermissao('/api/leads/eventos/assinatura/revogar', async (_request: Request, { usuario }) => {
+  try {
+    await revogarTokenAgenda(usuario.id);
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Erro ao revogar link da agenda:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao revogar link da agenda' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { assinaturaAtiva, gerarTokenAgenda } from '@/lib/calendario-ics-service';
+import { comPermissao } from '@/lib/api-auth';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = comPermissao('/api/leads/eventos/assinatura', async (_request: Request, { usuario }) => {
+  try {
+    return NextResponse.json({ ativa: await assinaturaAtiva(usuario.id) });
+  } catch (error: any) {
+    console.error('Erro ao consultar assinatura da agenda:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao consultar assinatura da agenda' },
+      { status: 500 }
+    );
+  }
+});
+
+// Gera um novo link de assinatura; o anterior deixa de funcionar
+export const POST = comPermissao('/api/leads/eventos/assinatura', async (request: Request, { usuario }) => {
+  try {
+    const token = await gerarTokenAgenda(usuario.id);
+    const urlBase = process.env.NEXT_PUBLIC_APP_URL || new URL(request.url).origin;
+
+    return NextResponse.json({ url: `${urlBase}/api/leads/eventos/feed?token=${token}` });
+  } catch (error: any) {
+    console.error('Erro ao gerar link da agenda:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao gerar link da agenda' },
+      { status: 500 }
+    );
+  }
+});
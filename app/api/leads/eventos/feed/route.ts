@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { eventosFeedUsuario, usuarioDoTokenAgenda } from '@/lib/calendario-ics-service';
+import { gerarIcs } from '@/lib/icalendar';
+
+// Desabilitar cache para esta rota
+export const dynamic = 'force-dynamic';
+export const revalidate = 0;
+
+// Feed iCalendar assinado por apps de calendário externos: sem sessão, autenticado pelo token da URL
+export async function GET(request: Request) {
+  try {
+    const token = new URL(request.url).searchParams.get('token');
+    const usuario = await usuarioDoTokenAgenda(token);
+
+    if (!usuario) {
+      return NextResponse.json({ error: 'Link de agenda inválido ou revogado' }, { status: 404 });
+    }
+
+    const ics = gerarIcs(await eventosFeedUsuario(usuario.id), `Agenda - ${usuario.name}`);
+
+    return new NextResponse(ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="agenda.ics"',
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error: any) {
+    console.error('Erro ao gerar feed da agenda:', error);
+    return NextResponse.json({ error: 'Erro ao gerar feed da agenda' }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { consultarAtividade, converterDataSankhyaParaISO } from '@/lib/lead-atividades-service';
+import { atividadeParaEventoIcs } from '@/lib/calendario-ics-service';
+import { gerarIcs } from '@/lib/icalendar';
+import { dataHoraLocal, ehOcorrencia, inicioDaOcorrencia, lerRegra } from '@/lib/recorrencia';
+import { comPermissao, verificarAcessoAtividade } from '@/lib/api-auth';
+
+export const dynamic = 'force-dynamic';
+
+// Download de um evento (.ics); em séries recorrentes, apenas a ocorrência informada
+export const GET = comPermissao('/api/leads/eventos/ics', async (request: Request, { usuario }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const codAtividade = searchParams.get('codAtividade');
+    const dataOcorrencia = searchParams.get('dataOcorrencia');
+
+    const negado = await verificarAcessoAtividade(usuario, codAtividade);
+    if (negado) return negado;
+
+    const registro = await consultarAtividade(String(codAtividade));
+    if (!registro) {
+      return NextResponse.json({ error: 'Atividade não encontrada' }, { status: 404 });
+    }
+
+    const atividade = {
+      ...registro,
+      DATA_INICIO: converterDataSankhyaParaISO(registro.DATA_INICIO || registro.DATA_HORA),
+      DATA_FIM: registro.DATA_FIM ? converterDataSankhyaParaISO(registro.DATA_FIM) : ''
+    };
+
+    const regra = lerRegra(atividade.RECORRENCIA);
+    if (regra && dataOcorrencia) {
+      const inicioSerie = new Date(atividade.DATA_INICIO);
+      if (!ehOcorrencia(regra, inicioSerie, dataOcorrencia)) {
+        return NextResponse.json({ error: 'A data informada não é uma ocorrência da série' }, { status: 400 });
+      }
+
+      const duracao = atividade.DATA_FIM ? Math.max(0, new Date(atividade.DATA_FIM).getTime() - inicioSerie.getTime()) : 0;
+      const inicio = inicioDaOcorrencia(inicioSerie, dataOcorrencia);
+      atividade.DATA_INICIO = dataHoraLocal(inicio);
+      atividade.DATA_FIM = dataHoraLocal(new Date(inicio.getTime() + duracao));
+    }
+
+    // Evento avulso: uid próprio, sem vínculo com a série no calendário de destino
+    const evento = {
+      ...atividadeParaEventoIcs({ ...atividade, CODATIVIDADE_PAI: undefined, DATA_OCORRENCIA: undefined }),
+      uid: `atividade-${atividade.CODATIVIDADE}${regra && dataOcorrencia ? `-${dataOcorrencia}` : ''}@sankhya-vendas`,
+      regra: dataOcorrencia ? null : regra
+    };
+
+    return new NextResponse(gerarIcs([evento]), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="atividade-${atividade.CODATIVIDADE}.ics"`
+      }
+    });
+  } catch (error: any) {
+    console.error('Erro ao gerar .ics da atividade:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao gerar .ics da atividade' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,40 +1,73 @@
 
 import { NextResponse } from 'next/server';
 import { consultarAtividades } from '@/lib/lead-atividades-service';
-import { cookies } from 'next/headers';
+import { expandirAtividades } from '@/lib/recorrencia-service';
+import { dataDeChave, somarDias } from '@/lib/recorrencia';
+import { comPermissao, usuariosVisiveis, verificarAcessoLead } from '@/lib/api-auth';
 
 // Desabilitar cache para esta rota
 export const dynamic = 'force-dynamic';
 export const revalidate = 0;
 
-export async function GET(request: Request) {
+const STATUS_EVENTO = ['AGUARDANDO', 'ATRASADO', 'REALIZADO', 'EM_ANDAMENTO'];
+
+// Lista separada por vírgulas (ex.: tipo=REUNIAO,VISITA)
+const lerLista = (valor: string | null) =>
+  (valor || '').split(',').map(v => v.trim().toUpperCase()).filter(Boolean);
+
+export const GET = comPermissao('/api/leads/eventos', async (request: Request, { usuario }) => {
   try {
     const { searchParams } = new URL(request.url);
     const codLead = searchParams.get('codLead');
 
-    const cookieStore = await cookies();
-    const userCookie = cookieStore.get('user');
-
-    if (!userCookie) {
-      return NextResponse.json({ error: 'Não autenticado' }, { status: 401 });
+    // Janela em que as séries recorrentes são expandidas (YYYY-MM-DD); padrão: 30 dias atrás a 90 à frente
+    const dataInicio = searchParams.get('dataInicio');
+    const dataFim = searchParams.get('dataFim');
+    const formatoData = /^\d{4}-\d{2}-\d{2}$/;
+    if ((dataInicio && !formatoData.test(dataInicio)) || (dataFim && !formatoData.test(dataFim))) {
+      return NextResponse.json({ error: 'Datas devem estar no formato AAAA-MM-DD' }, { status: 400 });
+    }
+    const hoje = new Date();
+    const janelaInicio = dataInicio ? dataDeChave(dataInicio) : somarDias(hoje, -30);
+    const janelaFim = dataFim ? dataDeChave(dataFim) : somarDias(hoje, 90);
+    if (janelaFim < janelaInicio) {
+      return NextResponse.json({ error: 'dataFim deve ser igual ou posterior a dataInicio' }, { status: 400 });
     }
 
-    const currentUser = JSON.parse(userCookie.value);
+    // Filtros opcionais: tipo da atividade e status do evento (listas separadas por vírgula)
+    const tipos = lerLista(searchParams.get('tipo'));
+    const status = lerLista(searchParams.get('status'));
+    if (tipos.some(t => !/^[A-Z_]+$/.test(t))) {
+      return NextResponse.json({ error: 'Tipo de atividade inválido' }, { status: 400 });
+    }
+    if (status.some(s => !STATUS_EVENTO.includes(s))) {
+      return NextResponse.json({ error: `Status inválido. Use: ${STATUS_EVENTO.join(', ')}` }, { status: 400 });
+    }
 
     // Buscar atividades ao invés de eventos
     let atividades = [];
     
     if (codLead) {
-      atividades = await consultarAtividades(codLead);
+      const negado = await verificarAcessoLead(usuario, codLead);
+      if (negado) return negado;
+
+      // No lead o histórico completo continua vindo, a menos que o período seja informado
+      atividades = await consultarAtividades(codLead, 'S', {
+        tipos,
+        periodo: dataInicio || dataFim ? { inicio: janelaInicio, fim: janelaFim } : undefined
+      });
     } else {
-      // Se não especificar lead, buscar todas atividades do usuário
-      // Adaptado para retornar no formato esperado pelo calendário
-      const todasAtividades = await consultarAtividades('');
-      atividades = todasAtividades;
+      // Sem lead: só o período pedido e as atividades visíveis ao usuário (próprias, da equipe ou todas),
+      // pelo dono do lead vinculado ou, sem lead, pelo dono da atividade
+      atividades = await consultarAtividades('', 'S', {
+        usuarios: await usuariosVisiveis(usuario),
+        tipos,
+        periodo: { inicio: janelaInicio, fim: janelaFim }
+      });
     }
 
     // Transformar atividades em formato de eventos para o calendário
-    const eventosFromAtividades = atividades.map(atividade => {
+    const eventosFromAtividades = expandirAtividades(atividades, janelaInicio, janelaFim).map(atividade => {
       // Usar STATUS direto do banco, se não existir calcular automaticamente
       let status = atividade.STATUS || 'AGUARDANDO';
       
@@ -53,20 +86,29 @@ export async function GET(request: Request) {
       }
 
       return {
-        CODEVENTO: atividade.CODATIVIDADE,
+        // Ocorrências calculadas de uma série compartilham o CODATIVIDADE da série
+        CODEVENTO: atividade.RECORRENCIA ? `${atividade.CODATIVIDADE}:${atividade.DATA_OCORRENCIA}` : atividade.CODATIVIDADE,
         CODATIVIDADE: atividade.CODATIVIDADE,
         CODLEAD: atividade.CODLEAD,
+        CODUSUARIO: atividade.CODUSUARIO,
         TIPO: atividade.TIPO,
         TITULO: atividade.DESCRICAO.substring(0, 100),
         DESCRICAO: atividade.DESCRICAO,
         DATA_INICIO: atividade.DATA_INICIO || atividade.DATA_HORA,
         DATA_FIM: atividade.DATA_FIM || atividade.DATA_INICIO || atividade.DATA_HORA,
         STATUS: status,
-        COR: atividade.COR
+        COR: atividade.COR,
+        DATA_OCORRENCIA: atividade.DATA_OCORRENCIA || null,
+        REGRA: atividade.REGRA || null
       };
     });
 
-    return NextResponse.json(eventosFromAtividades);
+    // O status dos eventos é calculado acima (ATRASADO), por isso o filtro vem depois da expansão
+    const eventos = status.length > 0
+      ? eventosFromAtividades.filter(evento => status.includes(evento.STATUS))
+      : eventosFromAtividades;
+
+    return NextResponse.json(eventos);
   } catch (error: any) {
     console.error('Erro ao consultar atividades:', error);
     return NextResponse.json(
@@ -74,4 +116,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
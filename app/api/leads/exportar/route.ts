@@ -0,0 +1,65 @@
+import { NextResponse } from 'next/server';
+import { consultarFunis } from '@/lib/funis-service';
+import { consultarLeads } from '@/lib/leads-service';
+import {
+  exportarLeads,
+  FORMATOS_EXPORTACAO,
+  type FormatoExportacao,
+  type StatusExportacao
+} from '@/lib/exportacao-leads-service';
+import { comPermissao, usuariosVisiveis } from '@/lib/api-auth';
+import { acessoNegado } from '@/lib/permissoes';
+
+const STATUS_VALIDOS: StatusExportacao[] = ['TODOS', 'EM_ANDAMENTO', 'GANHO', 'PERDIDO'];
+
+// Exporta a visão filtrada do kanban, respeitando o escopo de visibilidade do usuário
+export const GET = comPermissao('/api/leads/exportar', async (request: Request, { usuario }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const formato = (searchParams.get('formato') || 'csv') as FormatoExportacao;
+    const status = (searchParams.get('status') || 'TODOS') as StatusExportacao;
+    const codFunil = searchParams.get('codFunil');
+
+    if (!FORMATOS_EXPORTACAO.includes(formato)) {
+      return NextResponse.json({ error: 'Formato de exportação inválido' }, { status: 400 });
+    }
+    if (!STATUS_VALIDOS.includes(status)) {
+      return NextResponse.json({ error: 'Status inválido' }, { status: 400 });
+    }
+
+    const isAdmin = usuario.role === 'Administrador';
+    const funis = await consultarFunis(isAdmin ? undefined : usuario.id, isAdmin);
+    const codFunisPermitidos = new Set(funis.map(f => String(f.CODFUNIL)));
+
+    if (codFunil && !codFunisPermitidos.has(codFunil)) {
+      return acessoNegado('Você não tem acesso a este funil');
+    }
+
+    const visiveis = await usuariosVisiveis(usuario);
+    const leads = (await consultarLeads(visiveis ?? undefined, !visiveis))
+      .filter(lead => codFunisPermitidos.has(String(lead.CODFUNIL)));
+
+    const arquivo = await exportarLeads(leads, funis, formato, {
+      codFunil,
+      status,
+      codUsuario: searchParams.get('codUsuario'),
+      busca: searchParams.get('busca')
+    });
+
+    return new NextResponse(new Uint8Array(arquivo.conteudo), {
+      headers: {
+        'Content-Type': arquivo.contentType,
+        'Content-Disposition': `attachment; filename="${arquivo.nomeArquivo}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+  } catch (error: any) {
+    console.error('❌ Erro ao exportar leads:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao exportar leads' },
+      { status: 500 }
+    );
+  }
+});
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,37 @@
+import { NextResponse } from 'next/server';
+import { consultarLead } from '@/lib/leads-service';
+import { consultarEstagiosFunil } from '@/lib/funis-service';
+import { consultarHistoricoEstagios, montarLinhaDoTempo, lerDataHoraSankhya } from '@/lib/historico-estagios-service';
+import { comPermissao, verificarAcessoLead } from '@/lib/api-auth';
+
+// Linha do tempo dos estágios por onde o lead passou, com o tempo em cada um
+export const GET = comPermissao('/api/leads/historico-estagios', async (request: Request, { usuario }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const codLead = searchParams.get('codLead');
+
+    const negado = await verificarAcessoLead(usuario, codLead);
+    if (negado) return negado;
+
+    const lead = await consultarLead(String(codLead));
+    const historico = await consultarHistoricoEstagios(String(codLead));
+
+    // O lead pode ter trocado de funil: nomes vêm dos estágios de todos os funis do histórico
+    const codFunis = Array.from(new Set([lead?.CODFUNIL, ...historico.map(h => h.CODFUNIL)].filter(Boolean).map(String)));
+    const estagios = (await Promise.all(codFunis.map(cod => consultarEstagiosFunil(cod)))).flat();
+
+    // Ganhos e perdidos param de contar tempo na conclusão
+    const concluido = lead?.STATUS_LEAD === 'GANHO' || lead?.STATUS_LEAD === 'PERDIDO';
+    const fimAtual = (concluido && lerDataHoraSankhya(lead?.DATA_CONCLUSAO)) || new Date();
+
+    return NextResponse.json(montarLinhaDoTempo(historico, estagios, fimAtual));
+  } catch (error: any) {
+    console.error('Erro ao consultar histórico de estágios:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao consultar histórico de estágios' },
+      { status: 500 }
+    );
+  }
+});
+
+export const dynamic = 'force-dynamic';
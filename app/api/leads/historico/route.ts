@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { consultarAuditoria } from '@/lib/auditoria-service';
+import { consultarLead } from '@/lib/leads-service';
+import { consultarEstagiosFunil } from '@/lib/funis-service';
+import { comPermissao, verificarAcessoLead } from '@/lib/api-auth';
+
+// Histórico de alterações de um lead (inclui produtos e atividades vinculados)
+export const GET = comPermissao('/api/leads/historico', async (request: Request, { usuario }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const codLead = searchParams.get('codLead');
+
+    const negado = await verificarAcessoLead(usuario, codLead);
+    if (negado) return negado;
+
+    const resultado = await consultarAuditoria({
+      codLead,
+      pagina: Number(searchParams.get('pagina')) || 0
+    });
+
+    // Estágios aparecem pelo nome em vez do código
+    const lead = await consultarLead(String(codLead));
+    const estagios = lead?.CODFUNIL ? await consultarEstagiosFunil(lead.CODFUNIL) : [];
+    const nomeEstagio = (codigo: string | null) =>
+      codigo === null ? null : estagios.find(e => String(e.CODESTAGIO) === codigo)?.NOME || codigo;
+
+    resultado.registros.forEach(registro => {
+      registro.ALTERACOES = registro.ALTERACOES.map(alteracao =>
+        alteracao.campo === 'CODESTAGIO'
+          ? { ...alteracao, antes: nomeEstagio(alteracao.antes), depois: nomeEstagio(alteracao.depois) }
+          : alteracao
+      );
+    });
+
+    return NextResponse.json(resultado);
+  } catch (error: any) {
+    console.error('Erro ao consultar histórico do lead:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao consultar histórico' },
+      { status: 500 }
+    );
+  }
+});
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { comPermissao } from '@/lib/api-auth';
+import { analisarImportacao, importarLinhas } from '@/lib/importacao-leads-service';
+import { TAMANHO_LOTE_IMPORTACAO } from '@/lib/importacao-leads';
+
+export const dynamic = 'force-dynamic';
+
+// Grava um lote da importação. As linhas são validadas de novo no servidor
+// (inclusive contra os leads criados pelos lotes anteriores) antes de criar os leads.
+export const POST = comPermissao('/api/leads/importar/confirmar', async (request: Request, { usuario, auditar }) => {
+  try {
+    const { linhas, mapeamento, codFunil } = await request.json();
+
+    if (!Array.isArray(linhas) || linhas.length === 0 || !mapeamento) {
+      return NextResponse.json({ error: 'Informe as linhas e o mapeamento da importação' }, { status: 400 });
+    }
+
+    if (linhas.length > TAMANHO_LOTE_IMPORTACAO) {
+      return NextResponse.json({ error: `Envie no máximo ${TAMANHO_LOTE_IMPORTACAO} linhas por lote` }, { status: 400 });
+    }
+
+    const analisadas = await analisarImportacao(
+      usuario,
+      linhas.map((l: any) => ({ linha: Number(l.linha), valores: Array.isArray(l.valores) ? l.valores.map(String) : [] })),
+      mapeamento,
+      codFunil || null
+    );
+
+    const resultados = await importarLinhas(usuario, analisadas, auditar);
+    console.log(`✅ Lote importado: ${resultados.filter(r => r.status === 'CRIADO').length}/${resultados.length} lead(s) criados`);
+
+    return NextResponse.json({ resultados });
+  } catch (error: any) {
+    console.error('❌ Erro ao importar leads:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao importar leads' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,75 @@
+import { NextResponse } from 'next/server';
+import { comPermissao } from '@/lib/api-auth';
+import { lerPlanilha } from '@/lib/planilha-service';
+import { analisarImportacao } from '@/lib/importacao-leads-service';
+import { sugerirMapeamento, resumirImportacao, MAX_LINHAS_IMPORTACAO, type MapeamentoImportacao } from '@/lib/importacao-leads';
+
+export const dynamic = 'force-dynamic';
+
+// Prévia da importação (simulação): lê a planilha, aplica o mapeamento e valida cada linha sem gravar nada.
+// Sem mapeamento enviado, sugere um a partir dos nomes das colunas.
+export const POST = comPermissao('/api/leads/importar', async (request: Request, { usuario }) => {
+  try {
+    const formData = await request.formData();
+    const arquivo = formData.get('arquivo') as File | null;
+    const codFunil = (formData.get('codFunil') as string | null) || null;
+    const mapeamentoEnviado = formData.get('mapeamento') as string | null;
+
+    if (!arquivo) {
+      return NextResponse.json({ error: 'Nenhum arquivo enviado' }, { status: 400 });
+    }
+
+    if (arquivo.size > 5 * 1024 * 1024) {
+      return NextResponse.json({ error: 'Arquivo muito grande. Máximo 5MB' }, { status: 400 });
+    }
+
+    let planilha;
+    try {
+      planilha = lerPlanilha(arquivo.name, Buffer.from(await arquivo.arrayBuffer()));
+    } catch (erro: any) {
+      return NextResponse.json({ error: erro.message || 'Não foi possível ler a planilha' }, { status: 400 });
+    }
+
+    if (planilha.linhas.length === 0) {
+      return NextResponse.json({ error: 'A planilha não possui linhas de dados' }, { status: 400 });
+    }
+
+    if (planilha.linhas.length > MAX_LINHAS_IMPORTACAO) {
+      return NextResponse.json(
+        { error: `A planilha tem ${planilha.linhas.length} linhas. Importe no máximo ${MAX_LINHAS_IMPORTACAO} por vez` },
+        { status: 400 }
+      );
+    }
+
+    let mapeamento: MapeamentoImportacao = sugerirMapeamento(planilha.cabecalho);
+    if (mapeamentoEnviado) {
+      let enviado: unknown = null;
+      try {
+        enviado = JSON.parse(mapeamentoEnviado);
+      } catch {
+        // JSON malformado cai na validação abaixo
+      }
+      if (!enviado || typeof enviado !== 'object' || Array.isArray(enviado)) {
+        return NextResponse.json({ error: 'Mapeamento de colunas inválido' }, { status: 400 });
+      }
+      mapeamento = enviado as MapeamentoImportacao;
+    }
+
+    const linhas = await analisarImportacao(usuario, planilha.linhas, mapeamento, codFunil);
+
+    console.log(`📥 Prévia de importação (${arquivo.name}):`, resumirImportacao(linhas));
+
+    return NextResponse.json({
+      cabecalho: planilha.cabecalho,
+      mapeamento,
+      linhas,
+      resumo: resumirImportacao(linhas)
+    });
+  } catch (error: any) {
+    console.error('❌ Erro ao analisar importação:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao analisar importação' },
+      { status: 500 }
+    );
+  }
+});
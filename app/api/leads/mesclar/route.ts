@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { consultarLead, type Lead } from '@/lib/leads-service';
+import { mesclarLeads } from '@/lib/duplicidade-service';
+import { comPermissao, verificarAcessoLead } from '@/lib/api-auth';
+
+// Mescla leads duplicados no lead principal: atividades e produtos passam para o principal
+// e os duplicados são inativados (ver mesclarLeads)
+export const POST = comPermissao('/api/leads/mesclar', async (request: Request, { usuario, auditar }) => {
+  try {
+    const { codLeadPrincipal, codLeadsDuplicados } = await request.json();
+
+    const codigos: string[] = Array.isArray(codLeadsDuplicados)
+      ? Array.from(new Set(codLeadsDuplicados.map(String)))
+      : [];
+
+    if (!codLeadPrincipal || codigos.length === 0) {
+      return NextResponse.json({ error: 'Informe o lead principal e os leads a mesclar' }, { status: 400 });
+    }
+    if (codigos.includes(String(codLeadPrincipal))) {
+      return NextResponse.json({ error: 'O lead principal não pode ser mesclado nele mesmo' }, { status: 400 });
+    }
+
+    // Acesso a todos os leads envolvidos; inativos (já excluídos ou mesclados) não são encontrados
+    for (const codLead of [String(codLeadPrincipal), ...codigos]) {
+      const negado = await verificarAcessoLead(usuario, codLead);
+      if (negado) return negado;
+    }
+
+    const [principal, ...duplicados] = (await Promise.all(
+      [String(codLeadPrincipal), ...codigos].map(codLead => consultarLead(codLead))
+    )) as Lead[];
+
+    const resultado = await mesclarLeads(usuario, principal, duplicados, auditar);
+
+    return NextResponse.json({ success: true, ...resultado });
+  } catch (error: any) {
+    console.error('❌ Erro ao mesclar leads:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao mesclar leads' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,61 @@
+import { NextResponse } from 'next/server';
+import { consultarFunis } from '@/lib/funis-service';
+import { consultarLeads } from '@/lib/leads-service';
+import { usersService } from '@/lib/users-service';
+import { buscarPrevisao } from '@/lib/previsao-vendas-service';
+import { comPermissao, filtrarPorAcesso, usuariosDaEquipe } from '@/lib/api-auth';
+import { acessoNegado } from '@/lib/permissoes';
+
+const MES_ISO = /^\d{4}-\d{2}$/;
+
+// Previsão de vendas: administrador vê todos os vendedores, gerente a equipe e os demais apenas os próprios leads
+export const GET = comPermissao('/api/leads/previsao', async (request: Request, { usuario }) => {
+  try {
+    const { searchParams } = new URL(request.url);
+    const codFunil = searchParams.get('codFunil');
+    const codUsuario = searchParams.get('codUsuario');
+    const mesInicio = searchParams.get('mesInicio') || '';
+    const mesFim = searchParams.get('mesFim') || '';
+
+    if (!MES_ISO.test(mesInicio) || !MES_ISO.test(mesFim) || mesInicio > mesFim) {
+      return NextResponse.json({ error: 'Informe um período válido' }, { status: 400 });
+    }
+
+    const isAdmin = usuario.role === 'Administrador';
+    const funis = await consultarFunis(isAdmin ? undefined : usuario.id, isAdmin);
+    const codFunisPermitidos = new Set(funis.map(f => String(f.CODFUNIL)));
+
+    if (codFunil && !codFunisPermitidos.has(codFunil)) {
+      return acessoNegado('Você não tem acesso a este funil');
+    }
+
+    const usuarios = await usersService.getAll();
+    const idsPermitidos = isAdmin ? null : new Set(await usuariosDaEquipe(usuario));
+    const vendedores = usuarios
+      .filter(u => !idsPermitidos || idsPermitidos.has(u.id))
+      .map(u => ({ id: u.id, name: u.name }));
+
+    if (codUsuario && !vendedores.some(v => String(v.id) === codUsuario)) {
+      return acessoNegado('Você não tem acesso aos leads deste vendedor');
+    }
+
+    const todos = await filtrarPorAcesso(usuario, await consultarLeads(undefined, true), lead => lead.CODUSUARIO);
+    const leads = todos.filter(lead =>
+      codFunisPermitidos.has(String(lead.CODFUNIL)) &&
+      (!codFunil || String(lead.CODFUNIL) === codFunil) &&
+      (!codUsuario || String(lead.CODUSUARIO) === codUsuario)
+    );
+
+    const previsao = await buscarPrevisao(leads, funis, vendedores, { mesInicio, mesFim });
+
+    return NextResponse.json({ ...previsao, vendedoresDisponiveis: vendedores });
+  } catch (error: any) {
+    console.error('❌ Erro ao calcular previsão de vendas:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao calcular previsão de vendas' },
+      { status: 500 }
+    );
+  }
+});
+
+export const dynamic = 'force-dynamic';
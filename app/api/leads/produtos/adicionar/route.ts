@@ -1,58 +1,11 @@
 
 import { NextResponse } from 'next/server';
+import { loadRecords, datasetSave } from '@/lib/sankhya-gateway';
+import { montarCriteria, eq } from '@/lib/sankhya-criteria';
+import { consultarLead } from '@/lib/leads-service';
+import { comPermissao, verificarAcessoLead } from '@/lib/api-auth';
 
-const URL_SAVE_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=DatasetSP.save&outputType=json";
-const URL_CONSULTA = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=CRUDServiceProvider.loadRecords&outputType=json";
-const ENDPOINT_LOGIN = "https://api.sandbox.sankhya.com.br/login";
-
-const LOGIN_HEADERS = {
-  'token': process.env.SANKHYA_TOKEN || "",
-  'appkey': process.env.SANKHYA_APPKEY || "",
-  'username': process.env.SANKHYA_USERNAME || "",
-  'password': process.env.SANKHYA_PASSWORD || ""
-};
-
-let cachedToken: string | null = null;
-
-async function obterToken(): Promise<string> {
-  if (cachedToken) {
-    return cachedToken;
-  }
-
-  const axios = require('axios');
-  const resposta = await axios.post(ENDPOINT_LOGIN, {}, {
-    headers: LOGIN_HEADERS,
-    timeout: 10000
-  });
-
-  const token = resposta.data.bearerToken || resposta.data.token;
-  if (!token) {
-    throw new Error("Token não encontrado na resposta de login.");
-  }
-
-  cachedToken = token;
-  return token;
-}
-
-async function fazerRequisicaoAutenticada(fullUrl: string, method = 'POST', data = {}) {
-  const token = await obterToken();
-  const axios = require('axios');
-
-  const config = {
-    method: method.toLowerCase(),
-    url: fullUrl,
-    data: data,
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json'
-    }
-  };
-
-  const resposta = await axios(config);
-  return resposta.data;
-}
-
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/leads/produtos/adicionar', async (request: Request, { usuario, auditar }) => {
   try {
     const body = await request.json();
     console.log('📥 Dados recebidos para adicionar produto:', body);
@@ -67,6 +20,11 @@ export async function POST(request: Request) {
       );
     }
 
+    const negado = await verificarAcessoLead(usuario, CODLEAD);
+    if (negado) return negado;
+
+    const leadAntes = await consultarLead(String(CODLEAD));
+
     // Se não tem preço, buscar da API
     if (!VLRUNIT || VLRUNIT === 0) {
       const { buscarPrecoProduto } = await import('@/lib/produtos-service');
@@ -108,7 +66,7 @@ export async function POST(request: Request) {
     };
 
     console.log('📝 Adicionando produto:', JSON.stringify(PAYLOAD_PRODUTO, null, 2));
-    const respostaProduto = await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', PAYLOAD_PRODUTO);
+    const respostaProduto = await datasetSave(PAYLOAD_PRODUTO);
     console.log('✅ Produto adicionado:', respostaProduto);
 
     // 2. Recalcular valor total do lead
@@ -123,16 +81,12 @@ export async function POST(request: Request) {
               "list": "VLRTOTAL"
             }
           },
-          "criteria": {
-            "expression": {
-              "$": `CODLEAD = '${CODLEAD}' AND ATIVO = 'S'`
-            }
-          }
+          "criteria": montarCriteria(eq('CODLEAD', String(CODLEAD)), eq('ATIVO', 'S'))
         }
       }
     };
 
-    const responseProdutos = await fazerRequisicaoAutenticada(URL_CONSULTA, 'POST', PAYLOAD_CONSULTA);
+    const responseProdutos = await loadRecords(PAYLOAD_CONSULTA);
     
     let novoValorTotal = 0;
     if (responseProdutos?.responseBody?.entities?.entity) {
@@ -166,7 +120,7 @@ export async function POST(request: Request) {
     };
 
     console.log('📤 Payload para atualizar lead:', JSON.stringify(PAYLOAD_LEAD, null, 2));
-    const respostaLead = await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', PAYLOAD_LEAD);
+    const respostaLead = await datasetSave(PAYLOAD_LEAD);
     console.log('✅ Lead atualizado com novo valor total:', JSON.stringify(respostaLead, null, 2));
 
     // Verificar se houve erro na atualização
@@ -175,6 +129,22 @@ export async function POST(request: Request) {
       throw new Error(respostaLead.pendingPrinting?.message || 'Erro ao atualizar valor do lead');
     }
 
+    await auditar({
+      acao: 'CRIAR',
+      entidade: 'LEAD_PRODUTO',
+      chave: CODPROD,
+      codLead: CODLEAD,
+      depois: { CODPROD, DESCRPROD, QUANTIDADE, VLRUNIT, VLRTOTAL }
+    });
+    await auditar({
+      acao: 'ATUALIZAR',
+      entidade: 'LEAD',
+      chave: CODLEAD,
+      codLead: CODLEAD,
+      antes: leadAntes,
+      depois: { VALOR: novoValorTotal }
+    });
+
     return NextResponse.json({ 
       success: true,
       novoValorTotal: novoValorTotal,
@@ -187,4 +157,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,57 +1,12 @@
 
 import { NextResponse } from 'next/server';
+import { loadRecords, datasetSave } from '@/lib/sankhya-gateway';
+import { montarCriteria, eq } from '@/lib/sankhya-criteria';
+import { consultarLead } from '@/lib/leads-service';
+import { consultarProdutosLead } from '@/lib/lead-produtos-service';
+import { comPermissao, verificarAcessoLead } from '@/lib/api-auth';
 
-const URL_SAVE_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=DatasetSP.save&outputType=json";
-const ENDPOINT_LOGIN = "https://api.sandbox.sankhya.com.br/login";
-
-const LOGIN_HEADERS = {
-  'token': process.env.SANKHYA_TOKEN || "",
-  'appkey': process.env.SANKHYA_APPKEY || "",
-  'username': process.env.SANKHYA_USERNAME || "",
-  'password': process.env.SANKHYA_PASSWORD || ""
-};
-
-let cachedToken: string | null = null;
-
-async function obterToken(): Promise<string> {
-  if (cachedToken) {
-    return cachedToken;
-  }
-
-  const axios = require('axios');
-  const resposta = await axios.post(ENDPOINT_LOGIN, {}, {
-    headers: LOGIN_HEADERS,
-    timeout: 10000
-  });
-
-  const token = resposta.data.bearerToken || resposta.data.token;
-  if (!token) {
-    throw new Error("Token não encontrado na resposta de login.");
-  }
-
-  cachedToken = token;
-  return token;
-}
-
-async function fazerRequisicaoAutenticada(fullUrl: string, method = 'POST', data = {}) {
-  const token = await obterToken();
-  const axios = require('axios');
-
-  const config = {
-    method: method.toLowerCase(),
-    url: fullUrl,
-    data: data,
-    headers: {
-      'Authorization': `Bearer ${token}`,
-      'Content-Type': 'application/json'
-    }
-  };
-
-  const resposta = await axios(config);
-  return resposta.data;
-}
-
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/leads/produtos/atualizar', async (request: Request, { usuario, auditar }) => {
   try {
     const body = await request.json();
     console.log('📥 Dados recebidos na API atualizar:', body);
@@ -74,6 +29,14 @@ export async function POST(request: Request) {
       );
     }
 
+    const negado = await verificarAcessoLead(usuario, codLead);
+    if (negado) return negado;
+
+    // Estado anterior do item e do lead para a auditoria
+    const leadAntes = await consultarLead(String(codLead));
+    const produtosAntes = await consultarProdutosLead(String(codLead));
+    const produtoAntes = produtosAntes.find(p => String(p.CODITEM) === String(codItem)) || null;
+
     const vlrtotal = Number(quantidade) * Number(vlrunit);
     console.log('💰 Calculando total do produto:', { quantidade, vlrunit, vlrtotal });
 
@@ -96,7 +59,7 @@ export async function POST(request: Request) {
     };
 
     console.log('📝 Atualizando produto:', JSON.stringify(PAYLOAD_PRODUTO, null, 2));
-    const respostaProduto = await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', PAYLOAD_PRODUTO);
+    const respostaProduto = await datasetSave(PAYLOAD_PRODUTO);
     console.log('✅ Produto atualizado:', respostaProduto);
 
     // 2. Recalcular o valor total do lead
@@ -104,7 +67,6 @@ export async function POST(request: Request) {
     console.log('🔍 Recalculando valor total do lead:', codLead);
       
     // Consultar todos os produtos do lead
-    const URL_CONSULTA = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=CRUDServiceProvider.loadRecords&outputType=json";
     const PAYLOAD_CONSULTA = {
       "requestBody": {
         "dataSet": {
@@ -116,16 +78,12 @@ export async function POST(request: Request) {
               "list": "VLRTOTAL"
             }
           },
-          "criteria": {
-            "expression": {
-              "$": `CODLEAD = '${codLead}' AND ATIVO = 'S'`
-            }
-          }
+          "criteria": montarCriteria(eq('CODLEAD', String(codLead)), eq('ATIVO', 'S'))
         }
       }
     };
 
-    const responseProdutos = await fazerRequisicaoAutenticada(URL_CONSULTA, 'POST', PAYLOAD_CONSULTA);
+    const responseProdutos = await loadRecords(PAYLOAD_CONSULTA);
     console.log('📋 Resposta da consulta de produtos:', JSON.stringify(responseProdutos, null, 2));
     
     // Calcular o valor total
@@ -170,9 +128,26 @@ export async function POST(request: Request) {
     };
 
     console.log('📝 Payload para atualizar lead:', JSON.stringify(PAYLOAD_LEAD, null, 2));
-    const respostaLead = await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', PAYLOAD_LEAD);
+    const respostaLead = await datasetSave(PAYLOAD_LEAD);
     console.log('✅ Lead atualizado com novo valor total:', JSON.stringify(respostaLead, null, 2));
 
+    await auditar({
+      acao: 'ATUALIZAR',
+      entidade: 'LEAD_PRODUTO',
+      chave: codItem,
+      codLead,
+      antes: produtoAntes,
+      depois: { QUANTIDADE: quantidade, VLRUNIT: vlrunit, VLRTOTAL: vlrtotal }
+    });
+    await auditar({
+      acao: 'ATUALIZAR',
+      entidade: 'LEAD',
+      chave: codLead,
+      codLead,
+      antes: leadAntes,
+      depois: { VALOR: novoValorTotal }
+    });
+
     return NextResponse.json({ 
       success: true,
       novoValorTotal: novoValorTotal
@@ -184,4 +159,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
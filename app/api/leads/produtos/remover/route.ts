@@ -1,7 +1,9 @@
 import { NextResponse } from 'next/server';
-import { removerProdutoLead } from '@/lib/lead-produtos-service';
+import { removerProdutoLead, consultarProdutosLead } from '@/lib/lead-produtos-service';
+import { consultarLead } from '@/lib/leads-service';
+import { comPermissao, verificarAcessoLead } from '@/lib/api-auth';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/leads/produtos/remover', async (request: Request, { usuario, auditar }) => {
   try {
     const { codItem, codLead } = await request.json();
 
@@ -13,10 +15,27 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: 'CODLEAD é obrigatório' }, { status: 400 });
     }
 
+    const negado = await verificarAcessoLead(usuario, codLead);
+    if (negado) return negado;
+
+    const leadAntes = await consultarLead(String(codLead));
+    const produtosAntes = await consultarProdutosLead(String(codLead));
+    const produtoAntes = produtosAntes.find(p => String(p.CODITEM) === String(codItem)) || null;
+
     console.log('📥 Recebido pedido para remover produto:', { codItem, codLead });
 
     const { novoValorTotal } = await removerProdutoLead(codItem, codLead);
 
+    await auditar({ acao: 'EXCLUIR', entidade: 'LEAD_PRODUTO', chave: codItem, codLead, antes: produtoAntes });
+    await auditar({
+      acao: 'ATUALIZAR',
+      entidade: 'LEAD',
+      chave: codLead,
+      codLead,
+      antes: leadAntes,
+      depois: { VALOR: novoValorTotal }
+    });
+
     console.log('✅ Produto removido/inativado com sucesso. Novo valor total:', novoValorTotal);
 
     return NextResponse.json({ 
@@ -30,4 +49,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,8 +1,9 @@
 
 import { NextResponse } from 'next/server';
 import { consultarProdutosLead } from '@/lib/lead-produtos-service';
+import { comPermissao, verificarAcessoLead } from '@/lib/api-auth';
 
-export async function GET(request: Request) {
+export const GET = comPermissao('/api/leads/produtos', async (request: Request, { usuario }) => {
   try {
     const { searchParams } = new URL(request.url);
     const codLead = searchParams.get('codLead');
@@ -11,6 +12,9 @@ export async function GET(request: Request) {
       return NextResponse.json({ error: 'CODLEAD é obrigatório' }, { status: 400 });
     }
 
+    const negado = await verificarAcessoLead(usuario, codLead);
+    if (negado) return negado;
+
     const produtos = await consultarProdutosLead(codLead);
     // Filtrar apenas produtos ativos
     const produtosAtivos = produtos.filter(p => p.ATIVO === 'S');
@@ -22,4 +26,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
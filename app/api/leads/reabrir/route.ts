@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { consultarLead, reabrirLead } from '@/lib/leads-service';
+import { comPermissao, verificarAcessoLead, responsaveisPermitidos } from '@/lib/api-auth';
+import { podeReatribuirLeads, acessoNegado } from '@/lib/permissoes';
+
+// Reabre um lead ganho/perdido; gestores podem trocar o responsável na mesma operação
+export const POST = comPermissao('/api/leads/reabrir', async (request: Request, { usuario, auditar }) => {
+  try {
+    const { codLead, codUsuario } = await request.json();
+
+    const negado = await verificarAcessoLead(usuario, codLead);
+    if (negado) return negado;
+
+    const leadAntes = await consultarLead(String(codLead));
+    if (leadAntes?.STATUS_LEAD !== 'GANHO' && leadAntes?.STATUS_LEAD !== 'PERDIDO') {
+      return NextResponse.json({ error: 'Apenas leads ganhos ou perdidos podem ser reabertos' }, { status: 400 });
+    }
+
+    const novoResponsavel = codUsuario && Number(codUsuario) !== Number(leadAntes.CODUSUARIO) ? Number(codUsuario) : null;
+    if (novoResponsavel) {
+      if (!podeReatribuirLeads(usuario.role)) {
+        return acessoNegado('Apenas gestores podem trocar o responsável do lead');
+      }
+      const responsaveis = await responsaveisPermitidos(usuario);
+      if (!responsaveis.some(r => r.id === novoResponsavel && r.status === 'ativo')) {
+        return acessoNegado('Responsável fora da sua equipe ou inativo');
+      }
+    }
+
+    await reabrirLead(String(codLead), novoResponsavel);
+
+    await auditar({
+      acao: 'REABRIR',
+      entidade: 'LEAD',
+      chave: codLead,
+      codLead,
+      antes: leadAntes,
+      depois: {
+        STATUS_LEAD: 'EM_ANDAMENTO',
+        DATA_CONCLUSAO: null,
+        MOTIVO_PERDA: null,
+        CODMOTIVO: null,
+        ...(novoResponsavel ? { CODUSUARIO: novoResponsavel } : {})
+      }
+    });
+
+    return NextResponse.json(await consultarLead(String(codLead)));
+  } catch (error: any) {
+    console.error('❌ Erro ao reabrir lead:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao reabrir lead' },
+      { status: 500 }
+    );
+  }
+});
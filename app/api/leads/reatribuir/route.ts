@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { consultarLeads, reatribuirLeads } from '@/lib/leads-service';
+import { comPermissao, responsaveisPermitidos } from '@/lib/api-auth';
+import { acessoNegado } from '@/lib/permissoes';
+
+// Reatribuição em lote (ex.: vendedor saiu da equipe): move os leads de um responsável para outro.
+// Por padrão apenas leads em andamento; incluirConcluidos também transfere ganhos e perdidos.
+export const POST = comPermissao('/api/leads/reatribuir', async (request: Request, { usuario, auditar }) => {
+  try {
+    const { codUsuarioOrigem, codUsuarioDestino, codFunil, incluirConcluidos } = await request.json();
+
+    if (!codUsuarioOrigem || !codUsuarioDestino) {
+      return NextResponse.json({ error: 'Informe o responsável atual e o novo responsável' }, { status: 400 });
+    }
+
+    if (Number(codUsuarioOrigem) === Number(codUsuarioDestino)) {
+      return NextResponse.json({ error: 'O novo responsável deve ser diferente do atual' }, { status: 400 });
+    }
+
+    const responsaveis = await responsaveisPermitidos(usuario);
+    if (!responsaveis.some(r => r.id === Number(codUsuarioOrigem))) {
+      return acessoNegado('Você não tem acesso aos leads deste usuário');
+    }
+    if (!responsaveis.some(r => r.id === Number(codUsuarioDestino) && r.status === 'ativo')) {
+      return acessoNegado('Novo responsável fora da sua equipe ou inativo');
+    }
+
+    const leads = (await consultarLeads(undefined, true)).filter(lead =>
+      Number(lead.CODUSUARIO) === Number(codUsuarioOrigem) &&
+      (!codFunil || String(lead.CODFUNIL) === String(codFunil)) &&
+      (incluirConcluidos || !lead.STATUS_LEAD || lead.STATUS_LEAD === 'EM_ANDAMENTO')
+    );
+
+    await reatribuirLeads(leads.map(l => l.CODLEAD), Number(codUsuarioDestino));
+
+    for (const lead of leads) {
+      await auditar({
+        acao: 'ATUALIZAR',
+        entidade: 'LEAD',
+        chave: lead.CODLEAD,
+        codLead: lead.CODLEAD,
+        antes: lead,
+        depois: { CODUSUARIO: Number(codUsuarioDestino) }
+      });
+    }
+
+    return NextResponse.json({ success: true, quantidade: leads.length });
+  } catch (error: any) {
+    console.error('❌ Erro ao reatribuir leads:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao reatribuir leads' },
+      { status: 500 }
+    );
+  }
+});
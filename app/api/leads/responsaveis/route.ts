@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { comPermissao, responsaveisPermitidos } from '@/lib/api-auth';
+
+// Usuários que o gestor pode definir como responsável ao reabrir ou reatribuir leads
+export const GET = comPermissao('/api/leads/responsaveis', async (_request: Request, { usuario }) => {
+  try {
+    return NextResponse.json(await responsaveisPermitidos(usuario));
+  } catch (error: any) {
+    console.error('❌ Erro ao listar responsáveis:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao listar responsáveis' },
+      { status: 500 }
+    );
+  }
+});
+
+export const dynamic = 'force-dynamic';
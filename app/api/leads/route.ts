@@ -1,27 +1,14 @@
 import { NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
 import { consultarLeads } from '@/lib/leads-service';
+import { comPermissao, usuariosVisiveis } from '@/lib/api-auth';
 
-export async function GET(request: Request) {
+export const GET = comPermissao('/api/leads', async (request: Request, { usuario: user }) => {
   try {
-    const cookieStore = await cookies();
-    const userCookie = cookieStore.get('user');
+    // Escopo do perfil: administrador vê todos, gerente a equipe, demais apenas os próprios leads
+    const visiveis = await usuariosVisiveis(user);
+    console.log('👤 Usuário autenticado:', user.name, '(ID:', user.id, ', Role:', user.role, ', Escopo:', visiveis ? visiveis.length + ' usuário(s)' : 'todos', ')');
 
-    if (!userCookie) {
-      console.log('❌ Cookie de usuário não encontrado');
-      return NextResponse.json(
-        { error: 'Não autorizado' },
-        { status: 401 }
-      );
-    }
-
-    const user = JSON.parse(userCookie.value);
-    console.log('🍪 Cookie do usuário parseado:', user);
-
-    const isAdmin = user.role === "Administrador";
-    console.log('👤 Usuário autenticado:', user.name, '(ID:', user.id, ', Role:', user.role, ', Admin:', isAdmin, ')');
-
-    const leads = await consultarLeads(user.id, isAdmin);
+    const leads = await consultarLeads(visiveis ?? undefined, !visiveis);
 
     return NextResponse.json(leads, {
       headers: {
@@ -37,7 +24,7 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 // Desabilitar cache para esta rota
 export const dynamic = 'force-dynamic';
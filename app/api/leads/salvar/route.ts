@@ -1,31 +1,28 @@
 
 import { NextResponse } from 'next/server';
-import { salvarLead } from '@/lib/leads-service';
+import { salvarLead, consultarLead } from '@/lib/leads-service';
 import { usersService } from '@/lib/users-service';
-import { adicionarProdutoLead } from '@/lib/lead-produtos-service';
-import { cookies } from 'next/headers';
+import { adicionarProdutoLead, consultarProdutosLead } from '@/lib/lead-produtos-service';
+import { avaliarMudancaEstagio, solicitarAprovacao, validarEstagioInicial } from '@/lib/aprovacoes-estagio-service';
+import { registrarMudancaEstagio } from '@/lib/historico-estagios-service';
+import { verificarLeadDuplicado } from '@/lib/duplicidade-service';
+import { comPermissao, verificarAcessoLead } from '@/lib/api-auth';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/leads/salvar', async (request: Request, { usuario: currentUser, auditar }) => {
   try {
     const leadData = await request.json();
 
     console.log('📥 Dados recebidos na API /api/leads/salvar:', JSON.stringify(leadData, null, 2));
     console.log('🔑 CODPARC recebido:', leadData.CODPARC);
 
-    // Obter usuário autenticado do cookie
-    const cookieStore = await cookies();
-    const userCookie = cookieStore.get('user');
-    
-    if (!userCookie) {
-      return NextResponse.json({ error: 'Não autenticado' }, { status: 401 });
+    // Edição exige acesso ao lead existente
+    if (leadData.CODLEAD) {
+      const negado = await verificarAcessoLead(currentUser, leadData.CODLEAD);
+      if (negado) return negado;
     }
 
-    let currentUser;
-    try {
-      currentUser = JSON.parse(userCookie.value);
-    } catch (e) {
-      return NextResponse.json({ error: 'Sessão inválida' }, { status: 401 });
-    }
+    // Estado anterior para a auditoria
+    const leadAntes = leadData.CODLEAD ? await consultarLead(String(leadData.CODLEAD)) : null;
 
     // Passar o ID do usuário criador se for um novo lead
     const codUsuarioCriador = leadData.CODLEAD ? undefined : currentUser.id;
@@ -40,6 +37,55 @@ export async function POST(request: Request) {
       leadDataCompleto: leadData
     });
 
+    const produtosValidos = produtos.filter((p: any) => p.CODPROD && p.DESCRPROD).length;
+
+    // Criação com possível duplicado (mesmo parceiro ou título semelhante no funil) exige confirmação
+    const confirmarDuplicidade = !!leadData.confirmarDuplicidade;
+    delete leadData.confirmarDuplicidade;
+
+    if (!leadAntes && !confirmarDuplicidade) {
+      const duplicados = await verificarLeadDuplicado(leadData);
+      if (duplicados.length > 0) {
+        return NextResponse.json({
+          error: 'Já existe negócio em andamento semelhante neste funil',
+          codigo: 'LEAD_DUPLICADO',
+          duplicados
+        }, { status: 409 });
+      }
+    }
+
+    // Regras do estágio: na criação valem os campos obrigatórios do estágio inicial;
+    // na edição com troca de estágio vale a transição completa sobre os dados enviados
+    let estagioPendente: { codDestino: string; nome: string } | null = null;
+
+    if (!leadAntes) {
+      const erro = await validarEstagioInicial(leadData, produtosValidos);
+      if (erro) {
+        return NextResponse.json({ error: erro, codigo: 'TRANSICAO_INVALIDA' }, { status: 422 });
+      }
+    } else if (leadData.CODESTAGIO && String(leadData.CODESTAGIO) !== String(leadAntes.CODESTAGIO)) {
+      const produtosAtuais = await consultarProdutosLead(String(leadAntes.CODLEAD));
+      const avaliacao = await avaliarMudancaEstagio(
+        currentUser,
+        { ...leadAntes, CODFUNIL: leadData.CODFUNIL || leadAntes.CODFUNIL },
+        String(leadData.CODESTAGIO),
+        {
+          leadAtualizado: leadData,
+          qtdProdutos: produtosAtuais.filter(p => p.ATIVO !== 'N').length + produtosValidos
+        }
+      );
+
+      if (avaliacao.tipo === 'bloqueada') {
+        return NextResponse.json({ error: avaliacao.erro, codigo: 'TRANSICAO_INVALIDA' }, { status: 422 });
+      }
+
+      // Demais alterações são gravadas; o lead fica no estágio atual até a aprovação
+      if (avaliacao.tipo === 'aprovacao') {
+        estagioPendente = { codDestino: String(leadData.CODESTAGIO), nome: avaliacao.destino.NOME };
+        leadData.CODESTAGIO = leadAntes.CODESTAGIO;
+      }
+    }
+
     const leadSalvo = await salvarLead(leadData, codUsuarioCriador);
 
     console.log('✅ Lead salvo com sucesso:', {
@@ -64,6 +110,26 @@ export async function POST(request: Request) {
 
     console.log('🔑 CODLEAD para vinculação de produtos:', codLeadParaProdutos);
 
+    // Entrada no estágio inicial (criação) ou troca de estágio pela edição
+    const estagioFinal = leadSalvo.CODESTAGIO || leadData.CODESTAGIO;
+    if (codLeadParaProdutos && estagioFinal && String(estagioFinal) !== String(leadAntes?.CODESTAGIO ?? '')) {
+      await registrarMudancaEstagio(currentUser, {
+        codLead: codLeadParaProdutos,
+        codFunil: leadSalvo.CODFUNIL || leadData.CODFUNIL,
+        origem: leadAntes?.CODESTAGIO,
+        destino: estagioFinal
+      });
+    }
+
+    await auditar({
+      acao: leadAntes ? 'ATUALIZAR' : 'CRIAR',
+      entidade: 'LEAD',
+      chave: codLeadParaProdutos,
+      codLead: codLeadParaProdutos,
+      antes: leadAntes,
+      depois: leadSalvo
+    });
+
     // Salvar produtos vinculados ao lead
     if (produtos && produtos.length > 0 && codLeadParaProdutos) {
       console.log(`📦 Iniciando salvamento de ${produtos.length} produto(s)...`);
@@ -90,15 +156,24 @@ export async function POST(request: Request) {
         });
 
         try {
-          await adicionarProdutoLead({
+          const produtoLead = {
             CODLEAD: String(codLeadParaProdutos),
             CODPROD: produto.CODPROD,
             DESCRPROD: produto.DESCRPROD,
             QUANTIDADE: produto.QUANTIDADE || produto.QTDNEG || 1,
             VLRUNIT: produto.VLRUNIT || 0,
             VLRTOTAL: produto.VLRTOTAL || 0
-          });
+          };
+          await adicionarProdutoLead(produtoLead);
           console.log(`✅ Produto ${i + 1} salvo com sucesso`);
+
+          await auditar({
+            acao: 'CRIAR',
+            entidade: 'LEAD_PRODUTO',
+            chave: produto.CODPROD,
+            codLead: codLeadParaProdutos,
+            depois: produtoLead
+          });
           
           // Delay entre produtos para evitar sobrecarga
           await new Promise(resolve => setTimeout(resolve, 300));
@@ -117,6 +192,16 @@ export async function POST(request: Request) {
       });
     }
 
+    if (estagioPendente && leadAntes) {
+      await solicitarAprovacao(currentUser, leadAntes, estagioPendente.codDestino);
+      return NextResponse.json({
+        ...leadSalvo,
+        aprovacaoPendente: {
+          mensagem: `A entrada em "${estagioPendente.nome}" depende de aprovação do gerente. As demais alterações foram salvas.`
+        }
+      });
+    }
+
     return NextResponse.json(leadSalvo);
   } catch (error: any) {
     console.error('❌ Erro ao salvar lead:', error);
@@ -125,4 +210,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
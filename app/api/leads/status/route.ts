@@ -1,18 +1,66 @@
 
 import { NextResponse } from 'next/server';
 import { atualizarStatusLead } from '@/lib/lead-atividades-service';
+import { consultarLead } from '@/lib/leads-service';
+import { consultarMotivos } from '@/lib/motivos-service';
+import { comPermissao, verificarAcessoLead } from '@/lib/api-auth';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/leads/status', async (request: Request, { usuario, auditar }) => {
   try {
-    const { codLead, status, motivoPerda } = await request.json();
+    const { codLead, status, motivoPerda, codMotivo } = await request.json();
 
-    console.log('📥 Recebido pedido de atualização de status:', { codLead, status, motivoPerda });
+    console.log('📥 Recebido pedido de atualização de status:', { codLead, status, motivoPerda, codMotivo });
 
     if (!codLead || !status) {
       return NextResponse.json({ error: 'CODLEAD e STATUS são obrigatórios' }, { status: 400 });
     }
 
-    await atualizarStatusLead(codLead, status, motivoPerda);
+    // Esta rota só encerra leads; a reabertura passa por /api/leads/reabrir
+    if (status !== 'GANHO' && status !== 'PERDIDO') {
+      return NextResponse.json({ error: 'Status inválido: use GANHO ou PERDIDO' }, { status: 400 });
+    }
+
+    const negado = await verificarAcessoLead(usuario, codLead);
+    if (negado) return negado;
+
+    const leadAntes = await consultarLead(String(codLead));
+    if (!leadAntes) {
+      return NextResponse.json({ error: 'Lead não encontrado' }, { status: 404 });
+    }
+
+    if (leadAntes.STATUS_LEAD !== 'EM_ANDAMENTO') {
+      return NextResponse.json({ error: 'Apenas leads em andamento podem ser marcados como ganhos ou perdidos' }, { status: 409 });
+    }
+
+    // Perda exige um motivo do catálogo do funil; funis ainda sem catálogo aceitam o texto livre
+    if (status === 'PERDIDO' || (status === 'GANHO' && codMotivo)) {
+      const motivos = await consultarMotivos(leadAntes.CODFUNIL, status === 'PERDIDO' ? 'PERDA' : 'GANHO');
+
+      if (codMotivo && !motivos.some(m => m.CODMOTIVO === String(codMotivo))) {
+        return NextResponse.json({ error: 'Motivo inválido para o funil deste lead' }, { status: 400 });
+      }
+      if (status === 'PERDIDO' && !codMotivo && motivos.length > 0) {
+        return NextResponse.json({ error: 'Selecione o motivo da perda' }, { status: 400 });
+      }
+      if (status === 'PERDIDO' && motivos.length === 0 && !String(motivoPerda || '').trim()) {
+        return NextResponse.json({ error: 'Informe o motivo da perda' }, { status: 400 });
+      }
+    }
+
+    await atualizarStatusLead(codLead, status, motivoPerda, codMotivo);
+
+    await auditar({
+      acao: 'ATUALIZAR',
+      entidade: 'LEAD',
+      chave: codLead,
+      codLead,
+      antes: leadAntes,
+      depois: {
+        STATUS_LEAD: status,
+        ...(motivoPerda ? { MOTIVO_PERDA: motivoPerda } : {}),
+        ...(codMotivo ? { CODMOTIVO: String(codMotivo) } : {})
+      }
+    });
 
     console.log('✅ Status atualizado com sucesso');
 
@@ -24,4 +72,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
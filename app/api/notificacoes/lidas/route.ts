@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { marcarComoLidas } from '@/lib/notificacoes-service';
+import { comPermissao } from '@/lib/api-auth';
+
+export const dynamic = 'force-dynamic';
+
+// Marca as notificações informadas em `codigos` como lidas; sem `codigos`, todas as do usuário
+export const POST = comPermissao('/api/notificacoes/lidas', async (request: Request, { usuario }) => {
+  try {
+    const { codigos } = await request.json().catch(() => ({}));
+
+    if (codigos !== undefined && (!Array.isArray(codigos) || codigos.length === 0)) {
+      return NextResponse.json({ error: 'Informe as notificações a marcar como lidas' }, { status: 400 });
+    }
+
+    const marcadas = await marcarComoLidas(usuario.id, codigos?.map(String));
+    return NextResponse.json({ marcadas });
+  } catch (error: any) {
+    console.error('Erro ao marcar notificações como lidas:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao marcar notificações como lidas' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { canaisDisponiveis, obterPreferencias, salvarPreferencias } from '@/lib/notificacoes-service';
+import { validarPreferencias } from '@/lib/notificacoes';
+import { comPermissao } from '@/lib/api-auth';
+
+export const dynamic = 'force-dynamic';
+
+export const GET = comPermissao('/api/notificacoes/preferencias', async (_request: Request, { usuario }) => {
+  try {
+    return NextResponse.json({
+      preferencias: await obterPreferencias(usuario.id),
+      canais: canaisDisponiveis()
+    });
+  } catch (error: any) {
+    console.error('Erro ao consultar preferências de notificação:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao consultar preferências de notificação' },
+      { status: 500 }
+    );
+  }
+});
+
+export const POST = comPermissao('/api/notificacoes/preferencias', async (request: Request, { usuario }) => {
+  try {
+    const preferencias = await request.json();
+
+    const erro = validarPreferencias(preferencias);
+    if (erro) {
+      return NextResponse.json({ error: erro }, { status: 400 });
+    }
+
+    return NextResponse.json({ preferencias: await salvarPreferencias(usuario.id, preferencias) });
+  } catch (error: any) {
+    console.error('Erro ao salvar preferências de notificação:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao salvar preferências de notificação' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { consultarNotificacoes } from '@/lib/notificacoes-service';
+import { comPermissao } from '@/lib/api-auth';
+
+export const dynamic = 'force-dynamic';
+
+// Últimas notificações do usuário e total de não lidas (sino do cabeçalho)
+export const GET = comPermissao('/api/notificacoes', async (_request: Request, { usuario }) => {
+  try {
+    return NextResponse.json(await consultarNotificacoes(usuario.id));
+  } catch (error: any) {
+    console.error('Erro ao consultar notificações:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao consultar notificações' },
+      { status: 500 }
+    );
+  }
+});
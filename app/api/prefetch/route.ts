@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { redisCacheService } from '@/lib/redis-cache-service'
 import { consultarParceiros } from '@/lib/sankhya-api'
 import { consultarProdutos } from '@/lib/produtos-service'
+import { comPermissao } from '@/lib/api-auth';
 
-export async function POST(request: NextRequest) {
+export const POST = comPermissao('/api/prefetch', async (request: NextRequest) => {
   try {
     console.log('🔄 Iniciando prefetch de parceiros e produtos...')
 
@@ -51,7 +52,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+});
 
 // Prefetch de parceiros
 async function prefetchParceiros(): Promise<{ count: number, data: any[] }> {
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { resumirAmbienteSankhya } from '@/lib/sankhya-config';
+import { comPermissao } from '@/lib/api-auth';
+
+export const GET = comPermissao('/api/sankhya/ambiente', async () => {
+  try {
+    return NextResponse.json(resumirAmbienteSankhya());
+  } catch (error: any) {
+    console.error('Erro ao consultar ambiente Sankhya:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao consultar ambiente Sankhya' },
+      { status: 500 }
+    );
+  }
+});
+
+export const dynamic = 'force-dynamic';
@@ -1,10 +1,11 @@
 
 import { NextResponse } from 'next/server';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function GET(
+export const GET = comPermissao('/api/sankhya/boleto/[nroTitulo]', async (
   request: Request,
   { params }: { params: { nroTitulo: string } }
-) {
+) => {
   try {
     const { nroTitulo } = params;
     
@@ -31,4 +32,4 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
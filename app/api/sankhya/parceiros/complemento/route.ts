@@ -1,8 +1,9 @@
 
 import { NextResponse } from 'next/server';
 import { consultarComplementoParceiro } from '@/lib/sankhya-api';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function GET(request: Request) {
+export const GET = comPermissao('/api/sankhya/parceiros/complemento', async (request: Request) => {
   try {
     const { searchParams } = new URL(request.url);
     const codParc = searchParams.get('codParc');
@@ -27,4 +28,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
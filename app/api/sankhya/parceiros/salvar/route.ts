@@ -1,17 +1,63 @@
 import { NextResponse } from 'next/server';
-import { salvarParceiro } from '@/lib/sankhya-api';
+import { salvarParceiro, consultarParceiros } from '@/lib/sankhya-api';
 import cacheService from '@/lib/cacheService'; // Assumindo que cacheService está disponível aqui
+import { comPermissao } from '@/lib/api-auth';
+import { verificarParceiroDuplicado } from '@/lib/duplicidade-service';
+import { normalizarDocumento, normalizarNome } from '@/lib/duplicidade';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/sankhya/parceiros/salvar', async (request: Request, { auditar }) => {
   try {
     const body = await request.json();
 
+    // Estado anterior para a auditoria (apenas na edição)
+    const parceiroAntes = body.CODPARC
+      ? (await consultarParceiros(1, 1, '', String(body.CODPARC))).parceiros?.[0] || null
+      : null;
+
+    // Mesmo CPF/CNPJ bloqueia; nome semelhante exige confirmação. Na edição só quando nome ou documento mudam.
+    const confirmarDuplicidade = !!body.confirmarDuplicidade;
+    delete body.confirmarDuplicidade;
+
+    const identificacaoAlterada = !parceiroAntes ||
+      normalizarDocumento(parceiroAntes.CGC_CPF) !== normalizarDocumento(body.CGC_CPF) ||
+      normalizarNome(parceiroAntes.NOMEPARC) !== normalizarNome(body.NOMEPARC);
+
+    if (identificacaoAlterada) {
+      const duplicados = await verificarParceiroDuplicado(body);
+      const mesmoDocumento = duplicados.filter(d => d.motivo === 'DOCUMENTO');
+
+      if (mesmoDocumento.length > 0) {
+        return NextResponse.json({
+          error: `CPF/CNPJ já cadastrado para o parceiro ${mesmoDocumento[0].CODPARC} - ${mesmoDocumento[0].NOMEPARC}`,
+          codigo: 'PARCEIRO_DUPLICADO',
+          duplicados: mesmoDocumento
+        }, { status: 409 });
+      }
+
+      if (duplicados.length > 0 && !confirmarDuplicidade) {
+        return NextResponse.json({
+          error: 'Existem parceiros com nome semelhante',
+          codigo: 'PARCEIRO_SEMELHANTE',
+          duplicados
+        }, { status: 409 });
+      }
+    }
+
     console.log("🔄 API Route - Recebendo requisição para salvar parceiro:", body);
 
     const resultado = await salvarParceiro(body);
 
     // Invalidar cache de parceiros
     cacheService.invalidateParceiros();
+
+    // Parceiro novo não tem o código na resposta do save: identificado pelo CPF/CNPJ
+    await auditar({
+      acao: body.CODPARC ? 'ATUALIZAR' : 'CRIAR',
+      entidade: 'PARCEIRO',
+      chave: body.CODPARC || body.CGC_CPF,
+      antes: parceiroAntes,
+      depois: body
+    });
     console.log('✅ Cache de parceiros invalidado após salvar');
 
     return NextResponse.json(resultado, { status: 200 });
@@ -26,4 +72,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
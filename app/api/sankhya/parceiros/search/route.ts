@@ -2,11 +2,12 @@
 import { NextResponse } from 'next/server';
 import { consultarParceiros } from '@/lib/sankhya-api';
 import { cacheService } from '@/lib/cache-service';
-import { cookies } from 'next/headers';
+import { consultarVendedores } from '@/lib/vendedores-service';
+import { comPermissao } from '@/lib/api-auth';
 
 export const maxDuration = 30;
 
-export async function GET(request: Request) {
+export const GET = comPermissao('/api/sankhya/parceiros/search', async (request: Request, { usuario: user }) => {
   try {
     const { searchParams } = new URL(request.url);
     const query = searchParams.get('q') || '';
@@ -26,36 +27,22 @@ export async function GET(request: Request) {
     }
 
     // Obter filtros do usuário
-    const cookieStore = cookies();
-    const userCookie = cookieStore.get('user');
     let codVendedor: number | undefined;
     let codVendedoresEquipe: number[] | undefined;
 
-    if (userCookie) {
+    const userCodVend = user.codVendedor ? Number(user.codVendedor) : null;
+
+    if (user.role === 'Vendedor' && userCodVend) {
+      codVendedor = userCodVend;
+    }
+
+    if (user.role === 'Gerente' && userCodVend) {
       try {
-        const user = JSON.parse(userCookie.value);
-        const userCodVend = user.codVendedor ? parseInt(user.codVendedor) : null;
-        
-        if (user.role === 'Vendedor' && userCodVend) {
-          codVendedor = userCodVend;
-        }
-        
-        if (user.role === 'Gerente' && userCodVend) {
-          const vendedoresResponse = await fetch(
-            `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/vendedores?tipo=vendedores&codGerente=${userCodVend}`
-          );
-          
-          if (vendedoresResponse.ok) {
-            const vendedores = await vendedoresResponse.json();
-            if (vendedores && vendedores.length > 0) {
-              codVendedoresEquipe = vendedores.map((v: any) => parseInt(v.CODVEND));
-            } else {
-              codVendedoresEquipe = [];
-            }
-          }
-        }
+        const vendedores = await consultarVendedores(userCodVend);
+        codVendedoresEquipe = vendedores.map((v: any) => parseInt(v.CODVEND));
       } catch (e) {
-        console.error('Erro ao parsear cookie:', e);
+        console.error('Erro ao aplicar filtros do usuário:', e);
+        codVendedoresEquipe = [];
       }
     }
 
@@ -98,4 +85,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,71 +1,44 @@
 
 import { NextResponse } from 'next/server';
 import { listarPedidos, listarPedidosPorGerente } from '@/lib/pedidos-lista-service';
-import { usersService } from '@/lib/users-service';
-import { cookies } from 'next/headers';
+import { comPermissao } from '@/lib/api-auth';
+import { escopoVisibilidade } from '@/lib/permissoes';
 
 // Revalidar a cada 1 minuto
 export const revalidate = 60;
 
-export async function GET(request: Request) {
+export const GET = comPermissao('/api/sankhya/pedidos/listar', async (request: Request, { usuario }) => {
   try {
     const { searchParams } = new URL(request.url);
-    const userId = searchParams.get('userId');
     const dataInicio = searchParams.get('dataInicio') || undefined;
     const dataFim = searchParams.get('dataFim') || undefined;
     const numeroPedido = searchParams.get('numeroPedido') || undefined;
     const nomeCliente = searchParams.get('nomeCliente') || undefined;
 
-    console.log('📋 Buscando pedidos - userId:', userId, 'numeroPedido:', numeroPedido, 'nomeCliente:', nomeCliente);
+    console.log('📋 Buscando pedidos - numeroPedido:', numeroPedido, 'nomeCliente:', nomeCliente);
 
-    // Tentar obter usuário do cookie se userId não for fornecido
-    let usuario;
-    
-    if (userId) {
-      // Buscar usuário da API Sankhya
-      usuario = await usersService.getById(parseInt(userId));
-    } else {
-      // Tentar obter do cookie
-      const cookieStore = cookies();
-      const userCookie = cookieStore.get('user');
-      
-      if (userCookie?.value) {
-        try {
-          usuario = JSON.parse(userCookie.value);
-          console.log('✅ Usuário obtido do cookie:', { id: usuario.id, name: usuario.name });
-        } catch (e) {
-          console.error('Erro ao parsear cookie de usuário:', e);
-        }
-      }
-    }
-
-    if (!usuario) {
-      console.error('❌ Usuário não autenticado - userId:', userId);
-      return NextResponse.json(
-        { error: 'Usuário não autenticado' },
-        { status: 401 }
-      );
-    }
+    // Usuário sempre vem da sessão; não aceitar identificação pela query string
 
     let pedidos;
 
-    console.log('👤 Tipo de usuário:', usuario.tipo || usuario.role);
+    console.log('👤 Tipo de usuário:', usuario.role);
     console.log('🔢 Código vendedor:', usuario.codVendedor);
 
-    const tipoUsuario = usuario.tipo || usuario.role?.toLowerCase();
+    // Mesmo escopo de leads e atividades, aplicado pelo código de vendedor (CODVEND)
+    const escopo = escopoVisibilidade(usuario.role);
 
-    if (tipoUsuario === 'administrador') {
+    if (escopo === 'TODOS') {
       // Administrador vê todos os pedidos sem filtro de vendedor
       console.log('🔓 Administrador - Listando todos os pedidos');
       pedidos = await listarPedidos(undefined, dataInicio, dataFim, numeroPedido, nomeCliente);
     }
-    else if (tipoUsuario === 'gerente' && usuario.codVendedor) {
+    else if (escopo === 'EQUIPE' && usuario.codVendedor) {
       // Gerente vê pedidos de seus vendedores
       console.log('👔 Gerente - Listando pedidos da equipe');
       pedidos = await listarPedidosPorGerente(usuario.codVendedor.toString(), dataInicio, dataFim, numeroPedido, nomeCliente);
     }
-    else if (tipoUsuario === 'vendedor' && usuario.codVendedor) {
-      // Vendedor vê apenas seus pedidos
+    else if (usuario.codVendedor) {
+      // Escopo próprio: apenas pedidos do vendedor vinculado ao usuário
       console.log('💼 Vendedor - Listando pedidos próprios');
       pedidos = await listarPedidos(usuario.codVendedor.toString(), dataInicio, dataFim, numeroPedido, nomeCliente);
     }
@@ -78,7 +51,8 @@ export async function GET(request: Request) {
     
     return NextResponse.json(pedidos, {
       headers: {
-        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=30',
+        // Resposta depende do usuário da sessão: não compartilhar em caches públicos
+        'Cache-Control': 'private, max-age=60',
       }
     });
   } catch (error: any) {
@@ -88,4 +62,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,14 +1,26 @@
 
 import { NextResponse } from 'next/server';
 import { criarPedidoVenda } from '@/lib/pedidos-service';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/sankhya/pedidos', async (request: Request, { auditar }) => {
   try {
     const body = await request.json();
     
     console.log("🔄 API Route - Recebendo requisição para criar pedido:", body);
     
     const resultado = await criarPedidoVenda(body);
+
+    const { itens, ...cabecalho } = body;
+    await auditar({
+      acao: 'CRIAR',
+      entidade: 'PEDIDO',
+      chave: resultado.nunota || '',
+      depois: {
+        ...cabecalho,
+        ITENS: (itens || []).map((item: any) => `${item.CODPROD} x ${item.QTDNEG} @ ${item.VLRUNIT}`).join('; ')
+      }
+    });
     
     console.log("✅ API Route - Pedido criado com sucesso");
     
@@ -36,4 +48,4 @@ export async function POST(request: Request) {
       { status: errorResponse?.statusCode || 500 }
     );
   }
-}
+});
@@ -1,10 +1,11 @@
 
 import { NextResponse } from 'next/server';
 import { buscarPrecoProduto, consultarEstoqueProduto } from '@/lib/produtos-service';
+import { comPermissao } from '@/lib/api-auth';
 
 export const maxDuration = 30;
 
-export async function GET(request: Request) {
+export const GET = comPermissao('/api/sankhya/produtos/batch-info', async (request: Request) => {
   try {
     const { searchParams } = new URL(request.url);
     const codigosParam = searchParams.get('codigos');
@@ -71,4 +72,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,8 +1,9 @@
 
 import { NextResponse } from 'next/server';
 import { consultarEstoqueProduto } from '@/lib/produtos-service';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function GET(request: Request) {
+export const GET = comPermissao('/api/sankhya/produtos/estoque', async (request: Request) => {
   try {
     const { searchParams } = new URL(request.url);
     const codProd = searchParams.get('codProd');
@@ -24,4 +25,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,10 +1,11 @@
 
 import { NextResponse } from 'next/server';
 import { consultarProdutos } from '@/lib/produtos-service';
+import { comPermissao } from '@/lib/api-auth';
 
 export const maxDuration = 60;
 
-export async function GET(request: Request) {
+export const GET = comPermissao('/api/sankhya/produtos', async (request: Request) => {
   try {
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
@@ -28,4 +29,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
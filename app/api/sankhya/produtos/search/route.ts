@@ -2,10 +2,11 @@
 import { NextResponse } from 'next/server';
 import { consultarProdutos } from '@/lib/produtos-service';
 import { cacheService } from '@/lib/cache-service';
+import { comPermissao } from '@/lib/api-auth';
 
 export const maxDuration = 30;
 
-export async function GET(request: Request) {
+export const GET = comPermissao('/api/sankhya/produtos/search', async (request: Request) => {
   try {
     const { searchParams } = new URL(request.url);
     const query = searchParams.get('q') || searchParams.get('termo') || '';
@@ -64,4 +65,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
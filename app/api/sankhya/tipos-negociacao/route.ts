@@ -1,8 +1,9 @@
 
 import { NextResponse } from 'next/server';
 import { consultarTiposNegociacao, consultarTipVendaPorModelo, consultarTiposOperacao, consultarDadosModeloNota } from '@/lib/sankhya-api';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function GET(request: Request) {
+export const GET = comPermissao('/api/sankhya/tipos-negociacao', async (request: Request) => {
   try {
     const { searchParams } = new URL(request.url);
     const tipo = searchParams.get('tipo');
@@ -28,10 +29,10 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 // Novo endpoint para buscar por modelo
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/sankhya/tipos-negociacao', async (request: Request) => {
   try {
     const { codTipOper } = await request.json();
     
@@ -52,4 +53,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,81 +1,11 @@
 
 import { NextResponse } from 'next/server';
 import { redisCacheService } from '@/lib/redis-cache-service';
+import { loadRecords } from '@/lib/sankhya-gateway';
+import { montarCriteria, eq, entreDatas, inteiro, isNotNull, isNull, type Condicao } from '@/lib/sankhya-criteria';
+import { comPermissao } from '@/lib/api-auth';
 
-const SANKHYA_BASE_URL = "https://api.sandbox.sankhya.com.br";
-const LOGIN_ENDPOINT = `${SANKHYA_BASE_URL}/login`;
-const URL_LOADRECORDS_SERVICO = `${SANKHYA_BASE_URL}/gateway/v1/mge/service.sbr?serviceName=CRUDServiceProvider.loadRecords&outputType=json`;
-
-const LOGIN_HEADERS = {
-  'token': process.env.SANKHYA_TOKEN || "",
-  'appkey': process.env.SANKHYA_APPKEY || "",
-  'username': process.env.SANKHYA_USERNAME || "",
-  'password': process.env.SANKHYA_PASSWORD || ""
-};
-
-let cachedToken: string | null = null;
-
-async function obterToken(): Promise<string> {
-  if (cachedToken) {
-    return cachedToken;
-  }
-
-  try {
-    const resposta = await fetch(LOGIN_ENDPOINT, {
-      method: 'POST',
-      headers: LOGIN_HEADERS,
-      body: JSON.stringify({})
-    });
-
-    if (!resposta.ok) {
-      throw new Error('Erro ao autenticar no Sankhya');
-    }
-
-    const data = await resposta.json();
-    const token = data.bearerToken || data.token;
-
-    if (!token) {
-      throw new Error('Token não encontrado na resposta');
-    }
-
-    cachedToken = token;
-    return token;
-
-  } catch (erro: any) {
-    console.error('Erro no login Sankhya:', erro);
-    cachedToken = null;
-    throw erro;
-  }
-}
-
-async function fazerRequisicaoAutenticada(fullUrl: string, method = 'POST', data = {}) {
-  const token = await obterToken();
-
-  try {
-    const response = await fetch(fullUrl, {
-      method,
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify(data)
-    });
-
-    if (!response.ok) {
-      if (response.status === 401 || response.status === 403) {
-        cachedToken = null;
-        throw new Error("Sessão expirada. Tente novamente.");
-      }
-      throw new Error(`Erro HTTP ${response.status}`);
-    }
-
-    return await response.json();
-  } catch (erro: any) {
-    throw erro;
-  }
-}
-
-export async function GET(request: Request) {
+export const GET = comPermissao('/api/sankhya/titulos-receber', async (request: Request) => {
   try {
     const { searchParams } = new URL(request.url);
 
@@ -98,48 +28,54 @@ export async function GET(request: Request) {
     }
 
     // Construir critérios de busca
-    const criterios: string[] = [];
+    const codEmp = inteiro(codigoEmpresa);
+    const codParc = inteiro(codigoParceiro);
+
+    if (codEmp === null || (codigoParceiro && codParc === null)) {
+      return NextResponse.json(
+        { error: 'Código de empresa ou parceiro inválido' },
+        { status: 400 }
+      );
+    }
+
+    const criterios: Condicao[] = [];
 
     // Sempre buscar apenas RECEITAS (RECDESP = 1)
-    criterios.push("RECDESP = 1");
+    criterios.push(eq('RECDESP', 1));
 
     // Filtro por empresa
-    criterios.push(`CODEMP = ${codigoEmpresa}`);
+    criterios.push(eq('CODEMP', codEmp));
 
     // Filtro por parceiro (obrigatório)
-    if (codigoParceiro) {
-      criterios.push(`CODPARC = ${codigoParceiro}`);
+    if (codParc !== null) {
+      criterios.push(eq('CODPARC', codParc));
     }
 
     // Filtro por Status Financeiro (Real ou Provisão)
     if (statusFinanceiro === "1") {
       // Real
-      criterios.push("PROVISAO = 'N'");
+      criterios.push(eq('PROVISAO', 'N'));
     } else if (statusFinanceiro === "2") {
       // Provisão
-      criterios.push("PROVISAO = 'S'");
+      criterios.push(eq('PROVISAO', 'S'));
     }
     // statusFinanceiro === "3" busca todos (Real e Provisão)
 
     // Filtro por Tipo Financeiro (Baixado ou Pendente)
     if (tipoFinanceiro === "1") {
       // Pendente (não baixado)
-      criterios.push("DHBAIXA IS NULL");
+      criterios.push(isNull('DHBAIXA'));
     } else if (tipoFinanceiro === "2") {
       // Baixado
-      criterios.push("DHBAIXA IS NOT NULL");
+      criterios.push(isNotNull('DHBAIXA'));
     }
     // tipoFinanceiro === "3" busca todos (baixados e pendentes)
 
     // Filtro por data de negociação
-    if (dataNegociacaoInicio) {
-      criterios.push(`DTNEG >= TO_DATE('${dataNegociacaoInicio}', 'YYYY-MM-DD')`);
-    }
-    if (dataNegociacaoFinal) {
-      criterios.push(`DTNEG <= TO_DATE('${dataNegociacaoFinal}', 'YYYY-MM-DD')`);
-    }
-
-    const criterioExpression = criterios.join(' AND ');
+    const criteria = montarCriteria(
+      ...criterios,
+      entreDatas('DTNEG', dataNegociacaoInicio, dataNegociacaoFinal)
+    );
 
     // Payload para loadRecords
     const PAYLOAD = {
@@ -154,11 +90,7 @@ export async function GET(request: Request) {
               "list": "NUFIN, CODPARC, CODEMP, VLRDESDOB, DTVENC, DTNEG, PROVISAO, DHBAIXA, VLRBAIXA, RECDESP, NOSSONUM, CODCTABCOINT, HISTORICO, NUMNOTA"
             }
           },
-          "criteria": {
-            "expression": {
-              "$": criterioExpression
-            }
-          },
+          "criteria": criteria,
           "orderBy": {
             "expression": {
               "$": "NUFIN DESC"
@@ -169,13 +101,9 @@ export async function GET(request: Request) {
     };
 
     console.log('🔍 Buscando títulos a receber da tabela TGFFIN');
-    console.log('📋 Critérios:', criterioExpression);
+    console.log('📋 Critérios:', criteria);
 
-    const respostaCompleta = await fazerRequisicaoAutenticada(
-      URL_LOADRECORDS_SERVICO,
-      'POST',
-      PAYLOAD
-    );
+    const respostaCompleta = await loadRecords(PAYLOAD);
 
     const entities = respostaCompleta.responseBody?.entities;
 
@@ -304,4 +232,4 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,8 +1,9 @@
 
 import { NextResponse } from 'next/server';
 import { Client } from '@replit/object-storage';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/upload/avatar', async (request: Request) => {
   try {
     const formData = await request.formData();
     const file = formData.get('file') as File;
@@ -55,6 +56,6 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 export const dynamic = 'force-dynamic';
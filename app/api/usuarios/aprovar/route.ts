@@ -1,12 +1,16 @@
 
 import { NextResponse } from 'next/server';
 import { usersService } from '@/lib/users-service';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/usuarios/aprovar', async (request: Request, { auditar }) => {
   try {
     const { id } = await request.json();
+    const antes = await usersService.getById(Number(id));
     const resultado = await usersService.approve(id);
 
+    await auditar({ acao: 'ATUALIZAR', entidade: 'USUARIO', chave: id, antes, depois: { status: 'ativo' } });
+
     return NextResponse.json(resultado);
   } catch (error: any) {
     console.error('Erro ao aprovar usuário:', error);
@@ -15,4 +19,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,12 +1,18 @@
 
 import { NextResponse } from 'next/server';
 import { usersService } from '@/lib/users-service';
+import { encerrarSessoesUsuario } from '@/lib/session-service';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/usuarios/bloquear', async (request: Request, { auditar }) => {
   try {
     const { id } = await request.json();
+    const antes = await usersService.getById(Number(id));
     const resultado = await usersService.block(id);
 
+    await auditar({ acao: 'ATUALIZAR', entidade: 'USUARIO', chave: id, antes, depois: { status: 'bloqueado' } });
+    await encerrarSessoesUsuario(Number(id));
+
     return NextResponse.json(resultado);
   } catch (error: any) {
     console.error('Erro ao bloquear usuário:', error);
@@ -15,4 +21,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
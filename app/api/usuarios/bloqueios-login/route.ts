@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { listarBloqueiosLogin } from '@/lib/protecao-login';
+import { comPermissao } from '@/lib/api-auth';
+
+// Contas com login bloqueado temporariamente por excesso de tentativas
+export const GET = comPermissao('/api/usuarios/bloqueios-login', async () => {
+  try {
+    return NextResponse.json(await listarBloqueiosLogin());
+  } catch (error: any) {
+    console.error('Erro ao consultar bloqueios de login:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao consultar bloqueios de login' },
+      { status: 500 }
+    );
+  }
+});
+
+export const dynamic = 'force-dynamic';
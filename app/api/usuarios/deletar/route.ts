@@ -1,12 +1,21 @@
 
 import { NextResponse } from 'next/server';
 import { usersService } from '@/lib/users-service';
+import { encerrarSessoesUsuario } from '@/lib/session-service';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/usuarios/deletar', async (request: Request, { auditar }) => {
   try {
     const { id } = await request.json();
+    const antes = await usersService.getById(Number(id));
     const resultado = await usersService.delete(id);
 
+    if (resultado && antes) {
+      const { password: _, ...semSenha } = antes;
+      await auditar({ acao: 'EXCLUIR', entidade: 'USUARIO', chave: id, antes: semSenha });
+    }
+    await encerrarSessoesUsuario(Number(id));
+
     return NextResponse.json({ success: resultado });
   } catch (error: any) {
     console.error('Erro ao deletar usuário:', error);
@@ -15,4 +24,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { usersService } from '@/lib/users-service';
+import { desbloquearLogin } from '@/lib/protecao-login';
+import { comPermissao } from '@/lib/api-auth';
+
+export const POST = comPermissao('/api/usuarios/desbloquear-login', async (request: Request, { usuario, auditar }) => {
+  try {
+    const { id } = await request.json();
+    const alvo = await usersService.getById(Number(id));
+
+    if (!alvo) {
+      return NextResponse.json({ error: 'Usuário não encontrado' }, { status: 404 });
+    }
+
+    await desbloquearLogin(alvo.email);
+    await auditar({ acao: 'ATUALIZAR', entidade: 'USUARIO', chave: alvo.id, antes: { LOGIN_BLOQUEADO: 'S' }, depois: { LOGIN_BLOQUEADO: 'N' } });
+    console.log('🔓 Desbloqueio de login feito por administrador:', { codUsuario: alvo.id, por: usuario.id });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Erro ao desbloquear login:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao desbloquear login' },
+      { status: 500 }
+    );
+  }
+});
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,42 @@
+import { NextResponse } from 'next/server';
+import { consultarExpedientes, salvarExpediente } from '@/lib/agenda-service';
+import { validarExpediente } from '@/lib/agenda';
+import { comPermissao, usuariosVisiveis } from '@/lib/api-auth';
+
+export const dynamic = 'force-dynamic';
+
+// Expedientes dos usuários visíveis ao solicitante (próprio, equipe ou todos)
+export const GET = comPermissao('/api/usuarios/expediente', async (_request: Request, { usuario }) => {
+  try {
+    return NextResponse.json(await consultarExpedientes(await usuariosVisiveis(usuario)));
+  } catch (error: any) {
+    console.error('Erro ao consultar expedientes:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao consultar expedientes' },
+      { status: 500 }
+    );
+  }
+});
+
+// Cada usuário define apenas o próprio expediente
+export const POST = comPermissao('/api/usuarios/expediente', async (request: Request, { usuario, auditar }) => {
+  try {
+    const expediente = await request.json();
+
+    const erro = validarExpediente(expediente);
+    if (erro) {
+      return NextResponse.json({ error: erro }, { status: 400 });
+    }
+
+    const salvo = await salvarExpediente(usuario.id, expediente);
+    await auditar({ acao: 'ATUALIZAR', entidade: 'USUARIO', chave: usuario.id, depois: { EXPEDIENTE: JSON.stringify(salvo) } });
+
+    return NextResponse.json({ expediente: salvo });
+  } catch (error: any) {
+    console.error('Erro ao salvar expediente:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao salvar expediente' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { usersService } from '@/lib/users-service';
+import { desativarDoisFatores, statusDoisFatores } from '@/lib/dois-fatores-service';
+import { encerrarSessoesUsuario } from '@/lib/session-service';
+import { comPermissao } from '@/lib/api-auth';
+
+// Remove o 2FA de um usuário que perdeu o aplicativo e os códigos de recuperação.
+// Perfis com 2FA obrigatório cadastram de novo no próximo login.
+export const POST = comPermissao('/api/usuarios/redefinir-2fa', async (request: Request, { usuario, auditar }) => {
+  try {
+    const { id } = await request.json();
+    const alvo = await usersService.getById(Number(id));
+
+    if (!alvo) {
+      return NextResponse.json({ error: 'Usuário não encontrado' }, { status: 404 });
+    }
+
+    const { ativo } = await statusDoisFatores(alvo);
+    await desativarDoisFatores(alvo.id);
+    await auditar({
+      acao: 'ATUALIZAR',
+      entidade: 'USUARIO',
+      chave: alvo.id,
+      antes: { TOTPATIVO: ativo ? 'S' : 'N' },
+      depois: { TOTPATIVO: 'N', TOTPSEGREDO: null }
+    });
+    await encerrarSessoesUsuario(alvo.id);
+    console.log('🔐 2FA redefinido por administrador:', { codUsuario: alvo.id, por: usuario.id });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Erro ao redefinir dois fatores:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao redefinir dois fatores' },
+      { status: 500 }
+    );
+  }
+});
+
+export const dynamic = 'force-dynamic';
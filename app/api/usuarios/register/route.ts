@@ -1,10 +1,22 @@
 
 import { NextResponse } from 'next/server';
 import { usersService } from '@/lib/users-service';
+import { obterIp, verificarLimiteIp, verificarLimiteEmail, limiteExcedido } from '@/lib/protecao-login';
 
 export async function POST(request: Request) {
   try {
+    const esperaIp = verificarLimiteIp('cadastro', obterIp(request));
+    if (esperaIp > 0) {
+      return limiteExcedido(esperaIp);
+    }
+
     const body = await request.json();
+
+    const esperaEmail = verificarLimiteEmail('cadastro', body?.email);
+    if (esperaEmail > 0) {
+      return limiteExcedido(esperaEmail);
+    }
+
     const resultado = await usersService.register(body);
 
     return NextResponse.json(resultado);
@@ -1,7 +1,8 @@
 import { NextResponse } from 'next/server';
 import { usersService } from '@/lib/users-service';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function GET(request: Request) {
+export const GET = comPermissao('/api/usuarios', async (request: Request) => {
   try {
     const { searchParams } = new URL(request.url);
     const searchTerm = searchParams.get('search');
@@ -17,7 +18,8 @@ export async function GET(request: Request) {
       usuarios = await usersService.getAll();
     }
 
-    return NextResponse.json(usuarios);
+    // Hashes de senha não saem do servidor
+    return NextResponse.json(usuarios.map(({ password: _, ...usuario }) => usuario));
   } catch (error: any) {
     console.error('Erro ao consultar usuários:', error);
     return NextResponse.json(
@@ -25,6 +27,6 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 export const dynamic = 'force-dynamic';
\ No newline at end of file
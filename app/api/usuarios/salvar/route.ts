@@ -1,19 +1,69 @@
 
 import { NextResponse } from 'next/server';
 import { usersService } from '@/lib/users-service';
+import { atualizarUsuarioSessoes, encerrarSessoesUsuario } from '@/lib/session-service';
+import { validarNovaSenha } from '@/lib/crypto-service';
+import { comPermissao } from '@/lib/api-auth';
+import { acessoNegado } from '@/lib/permissoes';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/usuarios/salvar', async (request: Request, { usuario, auditar }) => {
   try {
-    const { userData, mode } = await request.json();
+    let { userData, mode } = await request.json();
+    const isAdmin = usuario.role === 'Administrador';
+
+    // Não administradores só podem editar o próprio perfil (nome, email, avatar)
+    if (!isAdmin) {
+      if (mode !== 'edit' || Number(userData?.id) !== usuario.id) {
+        return acessoNegado('Você só pode alterar o seu próprio perfil');
+      }
+      const { name, email, avatar } = userData;
+      userData = { id: usuario.id, name, email, avatar };
+    }
     
+    // O email identifica o usuário no login e na redefinição de senha
+    const editando = mode === 'edit' && 'id' in userData;
+    if (userData?.email && await usersService.isEmailTaken(userData.email, editando ? Number(userData.id) : undefined)) {
+      return NextResponse.json({ error: 'Este email já está em uso por outro usuário' }, { status: 409 });
+    }
+
     let user;
-    if (mode === 'edit' && 'id' in userData) {
+    if (editando) {
+      // Senha só muda por /api/usuarios/senha (ou pelo próprio usuário), que valida e encerra as sessões
+      const { password: _senha, ...dadosSemSenha } = userData;
+      userData = dadosSemSenha;
+
+      const antes = await usersService.getById(Number(userData.id));
       user = await usersService.update(userData.id, userData);
+      if (user) {
+        await auditar({ acao: 'ATUALIZAR', entidade: 'USUARIO', chave: user.id, antes, depois: userData });
+
+        // Usuário que deixou de estar ativo (bloqueado, pendente) perde as sessões, como em /api/usuarios/bloquear;
+        // nos demais casos as sessões abertas passam a refletir nome, perfil e vendedor atualizados
+        if (user.status !== 'ativo') {
+          await encerrarSessoesUsuario(user.id);
+        } else {
+          await atualizarUsuarioSessoes(user);
+        }
+      }
     } else {
+      const erroSenha = validarNovaSenha(userData?.password);
+      if (erroSenha) {
+        return NextResponse.json({ error: erroSenha }, { status: 400 });
+      }
+
       user = await usersService.create(userData);
+      if (user) {
+        await auditar({ acao: 'CRIAR', entidade: 'USUARIO', chave: user.id, depois: user });
+      }
     }
     
-    return NextResponse.json(user);
+    if (!user) {
+      return NextResponse.json(user);
+    }
+
+    // Hash da senha não é devolvido ao navegador
+    const { password: _, ...userSemSenha } = user;
+    return NextResponse.json(userSemSenha);
   } catch (error: any) {
     console.error('Erro ao salvar usuário:', error);
     return NextResponse.json(
@@ -21,6 +71,6 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 export const dynamic = 'force-dynamic';
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { usersService } from '@/lib/users-service';
+import { cryptoService, validarNovaSenha } from '@/lib/crypto-service';
+import { encerrarSessoesUsuario, SESSION_COOKIE } from '@/lib/session-service';
+import { comPermissao } from '@/lib/api-auth';
+
+// Redefinição de senha pelo administrador (inclusive a própria).
+// Todas as sessões do usuário são encerradas, exceto a sessão atual de quem fez a troca.
+export const POST = comPermissao('/api/usuarios/senha', async (request: Request, { usuario, auditar }) => {
+  try {
+    const { id, novaSenha } = await request.json();
+    const codUsuario = Number(id);
+
+    if (!Number.isInteger(codUsuario) || codUsuario <= 0) {
+      return NextResponse.json({ error: 'Usuário inválido' }, { status: 400 });
+    }
+
+    const erroSenha = validarNovaSenha(novaSenha);
+    if (erroSenha) {
+      return NextResponse.json({ error: erroSenha }, { status: 400 });
+    }
+
+    const alvo = await usersService.getById(codUsuario);
+    if (!alvo) {
+      return NextResponse.json({ error: 'Usuário não encontrado' }, { status: 404 });
+    }
+
+    const hash = await cryptoService.hashPassword(novaSenha);
+    await usersService.update(codUsuario, { password: hash });
+    await auditar({ acao: 'ATUALIZAR', entidade: 'USUARIO', chave: codUsuario, depois: { senhaAlterada: true } });
+    await encerrarSessoesUsuario(codUsuario, cookies().get(SESSION_COOKIE)?.value);
+
+    console.log('🔑 Senha redefinida:', { codUsuario, por: usuario.id });
+
+    return NextResponse.json({ success: true });
+  } catch (error: any) {
+    console.error('Erro ao redefinir senha:', error);
+    return NextResponse.json(
+      { error: error.message || 'Erro ao redefinir senha' },
+      { status: 500 }
+    );
+  }
+});
+
+export const dynamic = 'force-dynamic';
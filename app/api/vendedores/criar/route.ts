@@ -1,14 +1,16 @@
 
 import { NextResponse } from 'next/server';
 import { criarVendedor } from '@/lib/vendedores-service';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function POST(request: Request) {
+export const POST = comPermissao('/api/vendedores/criar', async (request: Request, { auditar }) => {
   try {
     const body = await request.json();
     
     console.log("🔄 API Route - Recebendo requisição para criar vendedor:", body);
     
     const resultado = await criarVendedor(body);
+    await auditar({ acao: 'CRIAR', entidade: 'VENDEDOR', chave: resultado.codVendedor, depois: body });
     
     console.log("✅ API Route - Vendedor criado com sucesso:", resultado);
     
@@ -24,4 +26,4 @@ export async function POST(request: Request) {
       { status: 500 }
     );
   }
-}
+});
@@ -1,8 +1,9 @@
 
 import { NextResponse } from 'next/server';
 import { consultarGerentes, consultarVendedores } from '@/lib/vendedores-service';
+import { comPermissao } from '@/lib/api-auth';
 
-export async function GET(request: Request) {
+export const GET = comPermissao('/api/vendedores', async (request: Request) => {
   try {
     const { searchParams } = new URL(request.url);
     const tipo = searchParams.get('tipo');
@@ -24,6 +25,6 @@ export async function GET(request: Request) {
       { status: 500 }
     );
   }
-}
+});
 
 export const dynamic = 'force-dynamic';
@@ -0,0 +1,133 @@
+"use client"
+
+import DashboardLayout from "@/components/dashboard-layout"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { authService } from "@/lib/auth-service"
+import type { ResumoAmbienteSankhya } from "@/lib/sankhya-config"
+import { useRouter } from "next/navigation"
+import { useEffect, useState } from "react"
+import { Server, Globe, KeyRound, AlertTriangle } from "lucide-react"
+
+export default function AmbienteSankhyaPage() {
+  const router = useRouter()
+  const [ambiente, setAmbiente] = useState<ResumoAmbienteSankhya | null>(null)
+  const [erro, setErro] = useState<string | null>(null)
+  const [isAuthorized, setIsAuthorized] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    const currentUser = authService.getCurrentUser()
+    if (!currentUser || currentUser.role !== "Administrador") {
+      router.push("/dashboard")
+    } else {
+      setIsAuthorized(true)
+      carregarAmbiente()
+    }
+  }, [router])
+
+  const carregarAmbiente = async () => {
+    try {
+      const response = await fetch("/api/sankhya/ambiente")
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || "Erro ao carregar ambiente")
+      setAmbiente(data)
+    } catch (error: any) {
+      console.error("Erro ao carregar ambiente Sankhya:", error)
+      setErro(error.message)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (!isAuthorized) {
+    return null
+  }
+
+  const isProducao = ambiente?.ambiente === "producao"
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Ambiente Sankhya</h1>
+          <p className="text-muted-foreground">Conexão ativa com a API Sankhya nesta implantação</p>
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : erro || !ambiente ? (
+          <Card>
+            <CardContent className="flex flex-col items-center justify-center py-12">
+              <AlertTriangle className="w-12 h-12 text-destructive mb-4" />
+              <p className="text-muted-foreground">{erro || "Configuração indisponível"}</p>
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center justify-between">
+                  <span className="flex items-center gap-2">
+                    <Server className="w-5 h-5 text-muted-foreground" />
+                    Ambiente
+                  </span>
+                  <Badge variant={isProducao ? "destructive" : "secondary"}>
+                    {isProducao ? "Produção" : "Sandbox"}
+                  </Badge>
+                </CardTitle>
+                <CardDescription>Definido por SANKHYA_AMBIENTE</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">URL base</span>
+                  <span className="font-mono">{ambiente.baseUrl}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Gateway</span>
+                  <span className="font-mono">{ambiente.gatewayPath}</span>
+                </div>
+                {ambiente.urlPersonalizada && (
+                  <p className="text-xs text-muted-foreground">URL sobrescrita por SANKHYA_BASE_URL</p>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <KeyRound className="w-5 h-5 text-muted-foreground" />
+                  Credenciais
+                </CardTitle>
+                <CardDescription>Token e senha nunca são exibidos</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">Usuário</span>
+                  <span className="font-mono">{ambiente.username}</span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-muted-foreground">App key</span>
+                  <span className="font-mono">{ambiente.appkey}</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            {!isProducao && (
+              <Card className="md:col-span-2">
+                <CardContent className="flex items-center gap-3 py-4 text-sm">
+                  <Globe className="w-5 h-5 text-muted-foreground" />
+                  <span className="text-muted-foreground">
+                    Os dados exibidos vêm do sandbox. Para produção, defina SANKHYA_AMBIENTE=producao e reinicie o servidor.
+                  </span>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  )
+}
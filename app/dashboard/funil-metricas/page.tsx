@@ -0,0 +1,10 @@
+import DashboardLayout from "@/components/dashboard-layout"
+import FunilMetricas from "@/components/funil-metricas"
+
+export default function FunilMetricasPage() {
+  return (
+    <DashboardLayout>
+      <FunilMetricas />
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,9 @@
+import EsqueciSenhaForm from "@/components/esqueci-senha-form"
+
+export default function EsqueciSenhaPage() {
+  return (
+    <div className="min-h-screen bg-secondary flex items-center justify-center p-4">
+      <EsqueciSenhaForm />
+    </div>
+  )
+}
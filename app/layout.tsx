@@ -9,6 +9,7 @@ import Script from 'next/script'
 import { Toaster } from "@/components/ui/sonner"
 import { Analytics } from '@vercel/analytics/next'
 import LoadingTransition from "@/components/loading-transition"
+import { resolverUrlBaseSankhya } from "@/lib/sankhya-config"
 
 export const metadata: Metadata = {
   title: 'Sankhya - Força de Vendas',
@@ -21,11 +22,13 @@ export default function RootLayout({
 }: Readonly<{
   children: React.ReactNode
 }>) {
+  const sankhyaUrl = resolverUrlBaseSankhya()
+
   return (
     <html lang="pt-BR" suppressHydrationWarning>
       <head>
-        <link rel="preconnect" href="https://api.sandbox.sankhya.com.br" />
-        <link rel="dns-prefetch" href="https://api.sandbox.sankhya.com.br" />
+        <link rel="preconnect" href={sankhyaUrl} />
+        <link rel="dns-prefetch" href={sankhyaUrl} />
         <link rel="preload" href="/anigif.gif" as="image" />
         <link rel="preload" href="/sankhya-logo-horizontal.png" as="image" />
       </head>
@@ -0,0 +1,12 @@
+import { Suspense } from "react"
+import RedefinirSenhaForm from "@/components/redefinir-senha-form"
+
+export default function RedefinirSenhaPage() {
+  return (
+    <div className="min-h-screen bg-secondary flex items-center justify-center p-4">
+      <Suspense>
+        <RedefinirSenhaForm />
+      </Suspense>
+    </div>
+  )
+}
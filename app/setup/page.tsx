@@ -0,0 +1,9 @@
+import SetupForm from "@/components/setup-form"
+
+export default function SetupPage() {
+  return (
+    <div className="min-h-screen bg-secondary flex items-center justify-center p-4">
+      <SetupForm />
+    </div>
+  )
+}
@@ -0,0 +1,343 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import { AlertTriangle, Moon, Repeat } from "lucide-react"
+import { dataHoraLocal } from "@/lib/recorrencia"
+import {
+  MINUTOS_PASSO,
+  detectarConflitos,
+  distribuirColunas,
+  ehDiaInteiro,
+  foraDoExpediente,
+  mesmoDia,
+  minutosDoDia,
+  minutosDoHorario,
+  type EventoAgenda,
+  type Expediente
+} from "@/lib/agenda"
+
+export interface EventoTimeline extends EventoAgenda {
+  TITULO: string
+  STATUS: string
+  COR?: string
+  REGRA?: unknown
+}
+
+interface AgendaTimelineProps<T extends EventoTimeline> {
+  // Um dia (visão de dia) ou sete (visão de semana)
+  dias: Date[]
+  eventos: T[]
+  // Expediente sombreado na grade (vendedor escolhido na barra da agenda)
+  expediente: Expediente
+  // Expediente de cada responsável, para sinalizar eventos fora do horário de quem vai atendê-los
+  expedientes: Map<number, Expediente>
+  onAbrirEvento: (evento: T) => void
+  onReagendar: (evento: T, inicio: Date, fim: Date) => void
+  onSelecionarDia?: (dia: Date) => void
+}
+
+interface Arrasto<T> {
+  evento: T
+  modo: 'mover' | 'redimensionar'
+  xInicial: number
+  yInicial: number
+  diaInicial: number
+  inicio: Date
+  fim: Date
+  novoInicio: Date
+  novoFim: Date
+  moveu: boolean
+}
+
+const ALTURA_HORA = 48
+const PX_POR_MINUTO = ALTURA_HORA / 60
+const MINUTOS_DIA = 24 * 60
+const HORAS = Array.from({ length: 24 }, (_, hora) => hora)
+
+const tituloCurto = (evento: EventoTimeline) => evento.TITULO.split('|')[0]
+
+const formatarHora = (data: Date) =>
+  data.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })
+
+// Grade de horários da semana ou do dia: arrastar move a atividade (inclusive para outro dia da semana),
+// a borda inferior redimensiona; o passo é de MINUTOS_PASSO minutos
+export default function AgendaTimeline<T extends EventoTimeline>({
+  dias,
+  eventos,
+  expediente,
+  expedientes,
+  onAbrirEvento,
+  onReagendar,
+  onSelecionarDia
+}: AgendaTimelineProps<T>) {
+  const [arrasto, setArrasto] = useState<Arrasto<T> | null>(null)
+  const arrastoRef = useRef<Arrasto<T> | null>(null)
+  const colunasRef = useRef<HTMLDivElement>(null)
+  const rolagemRef = useRef<HTMLDivElement>(null)
+  const arrastando = arrasto !== null
+  const agora = new Date()
+
+  const atualizarArrasto = (novo: Arrasto<T> | null) => {
+    arrastoRef.current = novo
+    setArrasto(novo)
+  }
+
+  // Abre a grade uma hora antes do início do expediente
+  useEffect(() => {
+    if (rolagemRef.current) {
+      rolagemRef.current.scrollTop = Math.max(0, minutosDoHorario(expediente.inicio) - 60) * PX_POR_MINUTO
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!arrastando) return
+
+    const mover = (e: PointerEvent) => {
+      const atual = arrastoRef.current
+      if (!atual) return
+
+      const deltaMinutos = Math.round((e.clientY - atual.yInicial) / PX_POR_MINUTO / MINUTOS_PASSO) * MINUTOS_PASSO
+
+      if (atual.modo === 'redimensionar') {
+        const diaSeguinte = new Date(atual.inicio.getFullYear(), atual.inicio.getMonth(), atual.inicio.getDate() + 1)
+        const fim = Math.min(
+          diaSeguinte.getTime(),
+          Math.max(atual.inicio.getTime() + MINUTOS_PASSO * 60000, atual.fim.getTime() + deltaMinutos * 60000)
+        )
+        atualizarArrasto({ ...atual, novoFim: new Date(fim), moveu: fim !== atual.fim.getTime() })
+        return
+      }
+
+      let coluna = atual.diaInicial
+      const area = colunasRef.current?.getBoundingClientRect()
+      if (area && dias.length > 1) {
+        const largura = area.width / dias.length
+        coluna = Math.min(dias.length - 1, Math.max(0, Math.floor((e.clientX - area.left) / largura)))
+      }
+
+      const duracao = atual.fim.getTime() - atual.inicio.getTime()
+      const minutos = Math.min(MINUTOS_DIA - MINUTOS_PASSO, Math.max(0, minutosDoDia(atual.inicio) + deltaMinutos))
+      const dia = dias[coluna]
+      const novoInicio = new Date(dia.getFullYear(), dia.getMonth(), dia.getDate(), 0, minutos)
+
+      atualizarArrasto({
+        ...atual,
+        novoInicio,
+        novoFim: new Date(novoInicio.getTime() + duracao),
+        moveu: novoInicio.getTime() !== atual.inicio.getTime()
+      })
+    }
+
+    const soltar = () => {
+      const atual = arrastoRef.current
+      atualizarArrasto(null)
+      if (!atual) return
+
+      // Sem deslocamento o gesto vale como clique
+      if (!atual.moveu) {
+        onAbrirEvento(atual.evento)
+        return
+      }
+      onReagendar(atual.evento, atual.novoInicio, atual.novoFim)
+    }
+
+    window.addEventListener('pointermove', mover)
+    window.addEventListener('pointerup', soltar)
+    return () => {
+      window.removeEventListener('pointermove', mover)
+      window.removeEventListener('pointerup', soltar)
+    }
+  }, [arrastando])
+
+  const iniciarArrasto = (e: React.PointerEvent, evento: T, modo: Arrasto<T>['modo'], diaInicial: number) => {
+    if (e.button !== 0) return
+    e.preventDefault()
+    e.stopPropagation()
+
+    const inicio = new Date(evento.DATA_INICIO)
+    const fim = new Date(evento.DATA_FIM || evento.DATA_INICIO)
+    atualizarArrasto({
+      evento,
+      modo,
+      xInicial: e.clientX,
+      yInicial: e.clientY,
+      diaInicial,
+      inicio,
+      fim,
+      novoInicio: inicio,
+      novoFim: fim,
+      moveu: false
+    })
+  }
+
+  // Evento arrastado aparece na posição de prévia
+  const exibidos = eventos.map(evento =>
+    arrasto && evento.CODEVENTO === arrasto.evento.CODEVENTO
+      ? { ...evento, DATA_INICIO: dataHoraLocal(arrasto.novoInicio), DATA_FIM: dataHoraLocal(arrasto.novoFim) }
+      : evento
+  )
+  const diaInteiro = exibidos.filter(ehDiaInteiro)
+  const comHorario = exibidos.filter(evento => !ehDiaInteiro(evento))
+  const conflitos = detectarConflitos(comHorario)
+
+  const colunasGrade = { gridTemplateColumns: `repeat(${dias.length}, minmax(0, 1fr))` }
+
+  return (
+    <div className={`flex-1 flex flex-col overflow-hidden min-h-0 ${arrastando ? 'select-none' : ''}`}>
+      {/* Cabeçalho dos dias */}
+      <div className="flex border-b flex-shrink-0">
+        <div className="w-14 flex-shrink-0" />
+        <div className="flex-1 grid" style={colunasGrade}>
+          {dias.map(dia => {
+            const hoje = mesmoDia(dia, agora)
+            return (
+              <button
+                key={dia.toDateString()}
+                onClick={() => onSelecionarDia?.(dia)}
+                disabled={!onSelecionarDia}
+                className="py-2 text-center border-l hover:bg-accent/30 disabled:hover:bg-transparent transition-colors"
+              >
+                <div className="text-xs font-medium text-muted-foreground">
+                  {dia.toLocaleDateString('pt-BR', { weekday: 'short' }).replace('.', '').toLowerCase()}
+                </div>
+                <div className={`text-sm font-semibold mx-auto ${hoje ? 'bg-primary text-primary-foreground rounded-full w-7 h-7 flex items-center justify-center' : ''}`}>
+                  {dia.getDate()}
+                </div>
+              </button>
+            )
+          })}
+        </div>
+      </div>
+
+      {/* Faixa de dia inteiro */}
+      {diaInteiro.length > 0 && (
+        <div className="flex border-b flex-shrink-0">
+          <div className="w-14 flex-shrink-0 text-[10px] text-muted-foreground text-right pr-2 pt-1">dia todo</div>
+          <div className="flex-1 grid" style={colunasGrade}>
+            {dias.map(dia => (
+              <div key={dia.toDateString()} className="border-l p-1 space-y-0.5 min-w-0">
+                {diaInteiro
+                  .filter(evento => {
+                    const inicio = new Date(evento.DATA_INICIO)
+                    const fim = new Date(evento.DATA_FIM || evento.DATA_INICIO)
+                    const diaInicio = new Date(dia.getFullYear(), dia.getMonth(), dia.getDate())
+                    return inicio < new Date(diaInicio.getTime() + 24 * 60 * 60 * 1000) && fim >= diaInicio
+                  })
+                  .map(evento => (
+                    <button
+                      key={evento.CODEVENTO}
+                      onClick={() => onAbrirEvento(evento as T)}
+                      className={`w-full text-left text-[10px] px-2 py-0.5 rounded-full text-white truncate font-medium ${evento.STATUS === 'REALIZADO' ? 'opacity-60 line-through' : ''}`}
+                      style={{ backgroundColor: evento.COR || '#22C55E' }}
+                      title={tituloCurto(evento)}
+                    >
+                      {tituloCurto(evento)}
+                    </button>
+                  ))}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Grade de horários */}
+      <div ref={rolagemRef} className="flex-1 overflow-y-auto min-h-0">
+        <div className="flex relative" style={{ height: MINUTOS_DIA * PX_POR_MINUTO }}>
+          <div className="w-14 flex-shrink-0 relative">
+            {HORAS.map(hora => (
+              <div
+                key={hora}
+                className="absolute right-2 -translate-y-1/2 text-[10px] text-muted-foreground"
+                style={{ top: hora * ALTURA_HORA }}
+              >
+                {hora > 0 && `${String(hora).padStart(2, '0')}:00`}
+              </div>
+            ))}
+          </div>
+
+          <div ref={colunasRef} className="flex-1 grid" style={colunasGrade}>
+            {dias.map((dia, indice) => {
+              const doDia = comHorario.filter(evento => mesmoDia(new Date(evento.DATA_INICIO), dia))
+              const posicoes = distribuirColunas(doDia)
+              const trabalhado = expediente.dias.includes(dia.getDay())
+
+              return (
+                <div key={dia.toDateString()} className="relative border-l">
+                  {/* Fora do expediente */}
+                  {trabalhado ? (
+                    <>
+                      <div className="absolute inset-x-0 top-0 bg-muted/60" style={{ height: minutosDoHorario(expediente.inicio) * PX_POR_MINUTO }} />
+                      <div className="absolute inset-x-0 bottom-0 bg-muted/60" style={{ top: minutosDoHorario(expediente.fim) * PX_POR_MINUTO }} />
+                    </>
+                  ) : (
+                    <div className="absolute inset-0 bg-muted/60" />
+                  )}
+
+                  {HORAS.map(hora => (
+                    <div key={hora} className="absolute inset-x-0 border-t border-border/60" style={{ top: hora * ALTURA_HORA }} />
+                  ))}
+
+                  {mesmoDia(dia, agora) && (
+                    <div className="absolute inset-x-0 z-20 border-t-2 border-red-500 pointer-events-none" style={{ top: minutosDoDia(agora) * PX_POR_MINUTO }} />
+                  )}
+
+                  {doDia.map(evento => {
+                    const inicio = new Date(evento.DATA_INICIO)
+                    const fim = new Date(evento.DATA_FIM || evento.DATA_INICIO)
+                    const fimMinutos = mesmoDia(inicio, fim) ? minutosDoDia(fim) : MINUTOS_DIA
+                    const altura = Math.max(fimMinutos - minutosDoDia(inicio), MINUTOS_PASSO) * PX_POR_MINUTO
+                    const { coluna, colunas } = posicoes.get(evento.CODEVENTO) || { coluna: 0, colunas: 1 }
+                    const emConflito = conflitos.get(evento.CODEVENTO)
+                    const expedienteDono = expedientes.get(Number(evento.CODUSUARIO))
+                    const foraDoHorario = !!expedienteDono && foraDoExpediente(expedienteDono, inicio, fim)
+                    const original = eventos.find(e => e.CODEVENTO === evento.CODEVENTO) as T
+                    const emArrasto = arrasto?.evento.CODEVENTO === evento.CODEVENTO
+
+                    return (
+                      <div
+                        key={evento.CODEVENTO}
+                        onPointerDown={(e) => iniciarArrasto(e, original, 'mover', indice)}
+                        className={`absolute z-10 rounded-md px-1.5 py-0.5 text-white overflow-hidden cursor-grab touch-none border
+                          ${emConflito ? 'border-red-600 ring-1 ring-red-600' : 'border-white/40'}
+                          ${emArrasto ? 'opacity-80 shadow-lg cursor-grabbing z-30' : ''}
+                          ${evento.STATUS === 'REALIZADO' ? 'opacity-60' : ''}`}
+                        style={{
+                          top: minutosDoDia(inicio) * PX_POR_MINUTO,
+                          height: altura,
+                          left: `calc(${(coluna / colunas) * 100}% + 2px)`,
+                          width: `calc(${100 / colunas}% - 4px)`,
+                          backgroundColor: evento.COR || '#22C55E'
+                        }}
+                        title={[
+                          tituloCurto(evento),
+                          emConflito && `Conflito com: ${emConflito.map(c => tituloCurto(c as EventoTimeline)).join(', ')}`,
+                          foraDoHorario && 'Fora do expediente do responsável'
+                        ].filter(Boolean).join('\n')}
+                      >
+                        <div className="flex items-center gap-1 text-[10px] font-semibold leading-tight">
+                          {emConflito && <AlertTriangle className="w-3 h-3 flex-shrink-0" />}
+                          {foraDoHorario && <Moon className="w-3 h-3 flex-shrink-0" />}
+                          {evento.REGRA ? <Repeat className="w-3 h-3 flex-shrink-0" /> : null}
+                          <span className={`truncate ${evento.STATUS === 'REALIZADO' ? 'line-through' : ''}`}>{tituloCurto(evento)}</span>
+                        </div>
+                        {altura >= 30 && (
+                          <div className="text-[10px] opacity-90 leading-tight">
+                            {formatarHora(inicio)} – {formatarHora(fim)}
+                          </div>
+                        )}
+                        <div
+                          onPointerDown={(e) => iniciarArrasto(e, original, 'redimensionar', indice)}
+                          className="absolute inset-x-0 bottom-0 h-1.5 cursor-ns-resize"
+                        />
+                      </div>
+                    )
+                  })}
+                </div>
+              )
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
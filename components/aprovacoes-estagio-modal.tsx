@@ -0,0 +1,153 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Check, X } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { useToast } from "@/hooks/use-toast"
+import type { AprovacaoEstagioDetalhada } from "@/lib/aprovacoes-estagio-service"
+
+interface AprovacoesEstagioModalProps {
+  isOpen: boolean
+  onClose: () => void
+  // Chamado após uma aprovação para o kanban recarregar os leads
+  onDecidido: () => void
+}
+
+export default function AprovacoesEstagioModal({ isOpen, onClose, onDecidido }: AprovacoesEstagioModalProps) {
+  const [aprovacoes, setAprovacoes] = useState<AprovacaoEstagioDetalhada[]>([])
+  const [observacoes, setObservacoes] = useState<Record<string, string>>({})
+  const [isLoading, setIsLoading] = useState(false)
+  const [decidindo, setDecidindo] = useState<string | null>(null)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (isOpen) {
+      setObservacoes({})
+      loadAprovacoes()
+    }
+  }, [isOpen])
+
+  const loadAprovacoes = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/leads/aprovacoes-estagio')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Erro ao carregar aprovações')
+      setAprovacoes(data)
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleDecidir = async (aprovacao: AprovacaoEstagioDetalhada, aprovar: boolean) => {
+    setDecidindo(aprovacao.CODAPROVACAO)
+    try {
+      const response = await fetch('/api/leads/aprovacoes-estagio/decidir', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          codAprovacao: aprovacao.CODAPROVACAO,
+          aprovar,
+          observacao: observacoes[aprovacao.CODAPROVACAO] || ""
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Erro ao decidir aprovação')
+
+      if (data.status === 'CANCELADA') {
+        toast({ title: "Solicitação cancelada", description: data.erro })
+      } else {
+        toast({
+          title: aprovar ? "Aprovado" : "Rejeitado",
+          description: aprovar
+            ? `${aprovacao.NOMELEAD} movido para ${aprovacao.NOME_DESTINO}`
+            : `${aprovacao.NOMELEAD} permanece em ${aprovacao.NOME_ORIGEM}`,
+        })
+      }
+
+      setAprovacoes(prev => prev.filter(a => a.CODAPROVACAO !== aprovacao.CODAPROVACAO))
+      if (data.status === 'APROVADA') onDecidido()
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setDecidindo(null)
+    }
+  }
+
+  const formatCurrency = (value: number) =>
+    new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(Number(value) || 0)
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Aprovações de Estágio</DialogTitle>
+          <DialogDescription>Negócios aguardando aprovação para entrar em um estágio</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : aprovacoes.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">Nenhuma solicitação pendente</p>
+        ) : (
+          <div className="space-y-3">
+            {aprovacoes.map((aprovacao) => (
+              <div key={aprovacao.CODAPROVACAO} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-foreground truncate">{aprovacao.NOMELEAD}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {aprovacao.NOME_ORIGEM} → <span className="font-medium text-foreground">{aprovacao.NOME_DESTINO}</span>
+                    </p>
+                    <p className="text-[11px] text-muted-foreground">Solicitado em {aprovacao.DATA_SOLICITACAO}</p>
+                  </div>
+                  <span className="text-sm font-semibold text-foreground whitespace-nowrap">{formatCurrency(aprovacao.VALOR)}</span>
+                </div>
+                <Input
+                  value={observacoes[aprovacao.CODAPROVACAO] || ""}
+                  onChange={(e) => setObservacoes(prev => ({ ...prev, [aprovacao.CODAPROVACAO]: e.target.value }))}
+                  placeholder="Observação (opcional)"
+                  className="h-8 text-sm"
+                />
+                <div className="flex justify-end gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDecidir(aprovacao, false)}
+                    disabled={decidindo !== null}
+                    className="text-destructive"
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Rejeitar
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => handleDecidir(aprovacao, true)}
+                    disabled={decidindo !== null}
+                  >
+                    <Check className="w-4 h-4 mr-1" />
+                    {decidindo === aprovacao.CODAPROVACAO ? "Salvando..." : "Aprovar"}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
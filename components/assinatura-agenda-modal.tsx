@@ -0,0 +1,156 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Copy } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { useToast } from "@/hooks/use-toast"
+
+interface AssinaturaAgendaModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+// Link iCalendar pessoal para assinar a agenda no Google Agenda, Outlook ou no celular.
+// O servidor guarda apenas o hash do token, então o link só aparece logo após ser gerado.
+export default function AssinaturaAgendaModal({ isOpen, onClose }: AssinaturaAgendaModalProps) {
+  const [ativa, setAtiva] = useState(false)
+  const [url, setUrl] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (isOpen) {
+      setUrl("")
+      loadStatus()
+    }
+  }, [isOpen])
+
+  const loadStatus = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/leads/eventos/assinatura')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Erro ao consultar assinatura')
+      setAtiva(data.ativa)
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleGerar = async () => {
+    if (ativa && !confirm('O link atual deixará de funcionar nos calendários em que foi assinado. Gerar um novo link?')) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/leads/eventos/assinatura', { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Erro ao gerar link')
+      setUrl(data.url)
+      setAtiva(true)
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleRevogar = async () => {
+    if (!confirm('Revogar o link? Os calendários que assinaram a agenda deixarão de receber atualizações.')) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/leads/eventos/assinatura/revogar', { method: 'POST' })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Erro ao revogar link')
+      setUrl("")
+      setAtiva(false)
+      toast({ title: "Link revogado" })
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const handleCopiar = async () => {
+    try {
+      await navigator.clipboard.writeText(url)
+      toast({ title: "Link copiado" })
+    } catch {
+      toast({
+        title: "Erro",
+        description: "Não foi possível copiar. Selecione o link e copie manualmente",
+        variant: "destructive",
+      })
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Assinar Agenda</DialogTitle>
+          <DialogDescription>
+            Adicione o link como calendário por URL no Google Agenda, Outlook ou no celular para ver suas tarefas fora do sistema
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            {url ? (
+              <div className="space-y-2">
+                <div className="flex gap-2">
+                  <Input value={url} readOnly className="text-xs" onFocus={(e) => e.target.select()} />
+                  <Button variant="outline" size="icon" onClick={handleCopiar} title="Copiar link">
+                    <Copy className="w-4 h-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Guarde o link agora: por segurança ele não é exibido novamente. Quem tiver o link vê suas tarefas.
+                </p>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                {ativa
+                  ? 'Você já possui um link ativo. Gere um novo se precisar vê-lo outra vez; o anterior será desativado.'
+                  : 'Você ainda não possui um link de assinatura.'}
+              </p>
+            )}
+
+            <div className="flex justify-end gap-2 pt-2">
+              {ativa && (
+                <Button variant="outline" onClick={handleRevogar} disabled={isSaving}>
+                  Revogar
+                </Button>
+              )}
+              <Button onClick={handleGerar} disabled={isSaving}>
+                {isSaving ? "Aguarde..." : ativa ? "Gerar novo link" : "Gerar link"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
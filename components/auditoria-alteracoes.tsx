@@ -0,0 +1,100 @@
+"use client"
+
+import { Badge } from "@/components/ui/badge"
+import type { AcaoAuditoria, AlteracaoCampo, EntidadeAuditoria } from "@/lib/auditoria-service"
+
+export const ROTULOS_ENTIDADES: Record<EntidadeAuditoria, string> = {
+  LEAD: "Negócio",
+  LEAD_PRODUTO: "Produto do negócio",
+  ATIVIDADE: "Atividade",
+  PARCEIRO: "Cliente",
+  PEDIDO: "Pedido de venda",
+  USUARIO: "Usuário",
+  FUNIL: "Funil",
+  ESTAGIO: "Estágio",
+  VENDEDOR: "Vendedor",
+  MOTIVO: "Motivo de ganho/perda",
+}
+
+export const ROTULOS_ACOES: Record<AcaoAuditoria, string> = {
+  CRIAR: "Criação",
+  ATUALIZAR: "Alteração",
+  EXCLUIR: "Exclusão",
+  REABRIR: "Reabertura",
+  MESCLAR: "Mesclagem",
+}
+
+// Nomes amigáveis dos campos mais comuns; os demais aparecem com o nome da coluna
+const ROTULOS_CAMPOS: Record<string, string> = {
+  NOME: "Nome",
+  DESCRICAO: "Descrição",
+  VALOR: "Valor",
+  CODESTAGIO: "Estágio",
+  CODFUNIL: "Funil",
+  DATA_VENCIMENTO: "Previsão de fechamento",
+  TIPO_TAG: "Tag",
+  COR_TAG: "Cor da tag",
+  CODPARC: "Cliente",
+  CODUSUARIO: "Responsável",
+  STATUS_LEAD: "Status",
+  MOTIVO_PERDA: "Comentário da perda",
+  CODMOTIVO: "Motivo",
+  DATA_CONCLUSAO: "Data de conclusão",
+  CODPROD: "Produto",
+  DESCRPROD: "Descrição do produto",
+  QUANTIDADE: "Quantidade",
+  VLRUNIT: "Valor unitário",
+  VLRTOTAL: "Valor total",
+  TIPO: "Tipo",
+  STATUS: "Status",
+  DATA_INICIO: "Início",
+  DATA_FIM: "Fim",
+  ATIVO: "Ativo",
+  name: "Nome",
+  email: "Email",
+  role: "Função",
+  status: "Status",
+  codVendedor: "Vendedor",
+  password: "Senha",
+  TOTPATIVO: "2FA ativo",
+  LOGIN_BLOQUEADO: "Login bloqueado",
+  FUNIS: "Funis permitidos",
+  LEADS_MESCLADOS: "Leads mesclados",
+  MESCLADO_EM: "Mesclado no lead",
+}
+
+export function getAcaoBadge(acao: AcaoAuditoria) {
+  switch (acao) {
+    case "CRIAR":
+      return <Badge className="bg-green-500 hover:bg-green-600">{ROTULOS_ACOES[acao]}</Badge>
+    case "EXCLUIR":
+      return <Badge className="bg-red-500 hover:bg-red-600">{ROTULOS_ACOES[acao]}</Badge>
+    case "REABRIR":
+      return <Badge className="bg-blue-500 hover:bg-blue-600">{ROTULOS_ACOES[acao]}</Badge>
+    case "MESCLAR":
+      return <Badge className="bg-purple-500 hover:bg-purple-600">{ROTULOS_ACOES[acao]}</Badge>
+    default:
+      return <Badge variant="secondary">{ROTULOS_ACOES[acao] || acao}</Badge>
+  }
+}
+
+export default function AuditoriaAlteracoes({ alteracoes }: { alteracoes: AlteracaoCampo[] }) {
+  if (alteracoes.length === 0) {
+    return <p className="text-xs text-muted-foreground">Sem detalhes de campos</p>
+  }
+
+  return (
+    <ul className="space-y-1">
+      {alteracoes.map((alteracao) => (
+        <li key={alteracao.campo} className="text-xs text-foreground break-words">
+          <span className="font-medium">{ROTULOS_CAMPOS[alteracao.campo] || alteracao.campo}:</span>{" "}
+          {alteracao.antes !== null && (
+            <span className="text-muted-foreground line-through">{alteracao.antes}</span>
+          )}
+          {alteracao.antes !== null && alteracao.depois !== null && " → "}
+          {alteracao.depois !== null && <span>{alteracao.depois}</span>}
+        </li>
+      ))}
+    </ul>
+  )
+}
@@ -0,0 +1,246 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Search, ChevronLeft, ChevronRight } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import type { User } from "@/lib/types"
+import type { RegistroAuditoria } from "@/lib/auditoria-service"
+import AuditoriaAlteracoes, { ROTULOS_ENTIDADES, ROTULOS_ACOES, getAcaoBadge } from "./auditoria-alteracoes"
+
+const TODOS = "TODOS"
+
+export default function AuditoriaTable() {
+  const [registros, setRegistros] = useState<RegistroAuditoria[]>([])
+  const [usuarios, setUsuarios] = useState<User[]>([])
+  const [entidade, setEntidade] = useState(TODOS)
+  const [acao, setAcao] = useState(TODOS)
+  const [codUsuario, setCodUsuario] = useState(TODOS)
+  const [chave, setChave] = useState("")
+  const [dataInicio, setDataInicio] = useState("")
+  const [dataFim, setDataFim] = useState("")
+  const [pagina, setPagina] = useState(0)
+  const [temMais, setTemMais] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+
+  useEffect(() => {
+    loadUsuarios()
+    loadRegistros(0)
+  }, [])
+
+  const loadUsuarios = async () => {
+    try {
+      const response = await fetch('/api/usuarios')
+      if (!response.ok) throw new Error('Erro ao carregar usuários')
+      setUsuarios(await response.json())
+    } catch (error) {
+      console.error("Error loading users:", error)
+    }
+  }
+
+  const loadRegistros = async (novaPagina: number) => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ pagina: String(novaPagina) })
+      if (entidade !== TODOS) params.set('entidade', entidade)
+      if (acao !== TODOS) params.set('acao', acao)
+      if (codUsuario !== TODOS) params.set('codUsuario', codUsuario)
+      if (chave.trim()) params.set('chave', chave.trim())
+      if (dataInicio) params.set('dataInicio', dataInicio)
+      if (dataFim) params.set('dataFim', dataFim)
+
+      const response = await fetch(`/api/auditoria?${params.toString()}`)
+      if (!response.ok) throw new Error('Erro ao carregar auditoria')
+      const data = await response.json()
+
+      setRegistros(data.registros)
+      setTemMais(data.temMais)
+      setPagina(novaPagina)
+    } catch (error) {
+      console.error("Error loading audit log:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleFiltrar = (e: React.FormEvent) => {
+    e.preventDefault()
+    loadRegistros(0)
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">Auditoria</h1>
+          <p className="text-sm text-muted-foreground">Registro de todas as alterações feitas no sistema</p>
+        </div>
+      </div>
+
+      {/* Filtros */}
+      <form onSubmit={handleFiltrar} className="bg-card rounded-lg shadow p-4 grid gap-4 md:grid-cols-3 lg:grid-cols-6 items-end">
+        <div className="space-y-2">
+          <Label>Entidade</Label>
+          <Select value={entidade} onValueChange={setEntidade}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={TODOS}>Todas</SelectItem>
+              {Object.entries(ROTULOS_ENTIDADES).map(([valor, rotulo]) => (
+                <SelectItem key={valor} value={valor}>{rotulo}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Ação</Label>
+          <Select value={acao} onValueChange={setAcao}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={TODOS}>Todas</SelectItem>
+              {Object.entries(ROTULOS_ACOES).map(([valor, rotulo]) => (
+                <SelectItem key={valor} value={valor}>{rotulo}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Usuário</Label>
+          <Select value={codUsuario} onValueChange={setCodUsuario}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={TODOS}>Todos</SelectItem>
+              {usuarios.map((usuario) => (
+                <SelectItem key={usuario.id} value={String(usuario.id)}>{usuario.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="chave">Código do registro</Label>
+          <Input id="chave" value={chave} onChange={(e) => setChave(e.target.value)} placeholder="Ex.: 123" />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="dataInicio">De</Label>
+          <Input id="dataInicio" type="date" value={dataInicio} onChange={(e) => setDataInicio(e.target.value)} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="dataFim">Até</Label>
+          <div className="flex gap-2">
+            <Input id="dataFim" type="date" value={dataFim} onChange={(e) => setDataFim(e.target.value)} />
+            <Button type="submit" size="icon" className="shrink-0" title="Filtrar">
+              <Search className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </form>
+
+      {/* Table */}
+      <div className="bg-card rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="sticky top-0 z-10" style={{ backgroundColor: 'rgb(35, 55, 79)' }}>
+              <tr>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-white uppercase tracking-wider">
+                  Data
+                </th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-white uppercase tracking-wider">
+                  Usuário
+                </th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-white uppercase tracking-wider">
+                  Ação
+                </th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-white uppercase tracking-wider">
+                  Entidade
+                </th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-white uppercase tracking-wider">
+                  Código
+                </th>
+                <th className="px-6 py-4 text-left text-sm font-semibold text-white uppercase tracking-wider">
+                  Alterações
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {isLoading ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-muted-foreground">
+                    Carregando...
+                  </td>
+                </tr>
+              ) : registros.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-muted-foreground">
+                    Nenhum registro encontrado
+                  </td>
+                </tr>
+              ) : (
+                registros.map((registro) => (
+                  <tr key={registro.CODAUDITORIA} className="hover:bg-muted/50 transition-colors align-top">
+                    <td className="px-6 py-4 text-sm text-foreground whitespace-nowrap">{registro.DTREGISTRO}</td>
+                    <td className="px-6 py-4 text-sm text-foreground">{registro.NOMEUSUARIO}</td>
+                    <td className="px-6 py-4 text-sm">{getAcaoBadge(registro.ACAO)}</td>
+                    <td className="px-6 py-4 text-sm text-foreground">
+                      {ROTULOS_ENTIDADES[registro.ENTIDADE] || registro.ENTIDADE}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-foreground">
+                      {registro.CHAVE}
+                      {registro.CODLEAD && registro.ENTIDADE !== 'LEAD' && (
+                        <span className="block text-xs text-muted-foreground">Negócio {registro.CODLEAD}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 max-w-md">
+                      <AuditoriaAlteracoes alteracoes={registro.ALTERACOES} />
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Paginação */}
+      <div className="flex items-center justify-end gap-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => loadRegistros(pagina - 1)}
+          disabled={isLoading || pagina === 0}
+        >
+          <ChevronLeft className="w-4 h-4" />
+          Anterior
+        </Button>
+        <span className="text-sm text-muted-foreground">Página {pagina + 1}</span>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => loadRegistros(pagina + 1)}
+          disabled={isLoading || !temMais}
+        >
+          Próxima
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  )
+}
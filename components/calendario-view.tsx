@@ -1,7 +1,7 @@
 "use client"
 
 import React, { useState, useEffect } from 'react'
-import { ChevronLeft, ChevronRight, Plus, List, Calendar, Clock, AlertCircle, CheckCircle2, Archive } from 'lucide-react'
+import { ChevronLeft, ChevronRight, Plus, List, Calendar, Clock, AlertCircle, CheckCircle2, Archive, Repeat, Download, Upload, Link2, CalendarRange, CalendarClock, Settings } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { useToast } from '@/hooks/use-toast'
 import {
@@ -31,6 +31,23 @@ import {
   SelectValue,
 } from "@/components/ui/select"
 import { Badge } from "@/components/ui/badge"
+import RecorrenciaCampos from "@/components/recorrencia-campos"
+import AssinaturaAgendaModal from "@/components/assinatura-agenda-modal"
+import ImportarIcsModal from "@/components/importar-ics-modal"
+import AgendaTimeline from "@/components/agenda-timeline"
+import ExpedienteModal from "@/components/expediente-modal"
+import { authService } from "@/lib/auth-service"
+import { EXPEDIENTE_PADRAO, detectarConflitos, foraDoExpediente, type Expediente } from "@/lib/agenda"
+import {
+  ESCOPOS_RECORRENCIA,
+  ROTULOS_ESCOPO,
+  chaveData,
+  dataHoraLocal,
+  descreverRegra,
+  validarRegra,
+  type EscopoRecorrencia,
+  type RegraRecorrencia
+} from "@/lib/recorrencia"
 import axios from 'axios' // Import axios
 
 interface CalendarioEvento {
@@ -45,6 +62,10 @@ interface CalendarioEvento {
   STATUS: 'ATRASADO' | 'EM_ANDAMENTO' | 'REALIZADO' | 'AGUARDANDO'
   COR?: string
   ATIVO?: string
+  CODUSUARIO?: number
+  // Preenchidos nas ocorrências de séries recorrentes
+  DATA_OCORRENCIA?: string | null
+  REGRA?: RegraRecorrencia | null
 }
 
 interface NovaAtividade {
@@ -56,6 +77,7 @@ interface NovaAtividade {
   STATUS: 'ATRASADO' | 'EM_ANDAMENTO' | 'REALIZADO' | 'AGUARDANDO'
   COR: string
   CODLEAD?: string
+  RECORRENCIA: RegraRecorrencia | null
 }
 
 interface EventoItemProps {
@@ -77,15 +99,19 @@ function EventoItem({ evento, onUpdate, onUpdateLocal, onClose }: EventoItemProp
   const [concluindo, setConcluindo] = useState(false)
   const [mostrarAlertaInativar, setMostrarAlertaInativar] = useState(false)
   const [inativando, setInativando] = useState(false) // Added state for inactivate loading
+  const [escopo, setEscopo] = useState<EscopoRecorrencia>('OCORRENCIA')
+  const [regra, setRegra] = useState<RegraRecorrencia | null>(evento.REGRA || null)
   const { toast } = useToast()
 
+  const recorrente = !!evento.DATA_OCORRENCIA
+
   const marcarRealizado = async () => {
     try {
       setConcluindo(true)
       const response = await fetch('/api/leads/atividades/atualizar-status', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ CODATIVIDADE: evento.CODATIVIDADE, STATUS: 'REALIZADO' })
+        body: JSON.stringify({ CODATIVIDADE: evento.CODATIVIDADE, STATUS: 'REALIZADO', DATA_OCORRENCIA: evento.DATA_OCORRENCIA })
       })
 
       if (!response.ok) throw new Error('Erro ao marcar como concluído')
@@ -113,13 +139,45 @@ function EventoItem({ evento, onUpdate, onUpdateLocal, onClose }: EventoItemProp
     }
   }
 
+  const baixarIcs = async () => {
+    try {
+      const params = new URLSearchParams({ codAtividade: String(evento.CODATIVIDADE) })
+      if (evento.DATA_OCORRENCIA) params.set('dataOcorrencia', evento.DATA_OCORRENCIA)
+
+      const response = await fetch(`/api/leads/eventos/ics?${params.toString()}`)
+      if (!response.ok) {
+        const erro = await response.json().catch(() => ({}))
+        throw new Error(erro.error || 'Erro ao gerar arquivo .ics')
+      }
+
+      const disposicao = response.headers.get('Content-Disposition') || ''
+      const nomeArquivo = disposicao.match(/filename="?([^";]+)"?/)?.[1] || `atividade-${evento.CODATIVIDADE}.ics`
+
+      const blob = await response.blob()
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = nomeArquivo
+      document.body.appendChild(link)
+      link.click()
+      link.remove()
+      URL.revokeObjectURL(url)
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  }
+
   const marcarAguardando = async () => {
     try {
       setConcluindo(true)
       const response = await fetch('/api/leads/atividades/atualizar-status', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ CODATIVIDADE: evento.CODATIVIDADE, STATUS: 'AGUARDANDO' })
+        body: JSON.stringify({ CODATIVIDADE: evento.CODATIVIDADE, STATUS: 'AGUARDANDO', DATA_OCORRENCIA: evento.DATA_OCORRENCIA })
       })
 
       if (!response.ok) throw new Error('Erro ao alterar status')
@@ -148,6 +206,18 @@ function EventoItem({ evento, onUpdate, onUpdateLocal, onClose }: EventoItemProp
   }
 
   const salvarEdicao = async () => {
+    // A regra só é enviada quando alterada, para não reiniciar a contagem de ocorrências da série
+    const regraAlterada = recorrente && escopo !== 'OCORRENCIA' && JSON.stringify(regra) !== JSON.stringify(evento.REGRA || null)
+    const erroRegra = regraAlterada ? validarRegra(regra) : null
+    if (erroRegra) {
+      toast({
+        title: "Erro",
+        description: erroRegra,
+        variant: "destructive",
+      })
+      return
+    }
+
     try {
       setSalvando(true)
 
@@ -166,11 +236,16 @@ function EventoItem({ evento, onUpdate, onUpdateLocal, onClose }: EventoItemProp
           TIPO: tipo,
           COR: cor,
           DATA_INICIO: dataInicioCompleta,
-          DATA_FIM: dataFimCompleta
+          DATA_FIM: dataFimCompleta,
+          ...(recorrente && {
+            DATA_OCORRENCIA: evento.DATA_OCORRENCIA,
+            ESCOPO: escopo,
+            RECORRENCIA: regraAlterada ? regra : undefined
+          })
         })
       })
 
-      if (!response.ok) throw new Error('Erro ao atualizar')
+      if (!response.ok) throw new Error((await response.json().catch(() => null))?.error || 'Erro ao atualizar')
 
       // Atualizar o evento localmente com os novos dados
       const eventoAtualizado = {
@@ -220,7 +295,8 @@ function EventoItem({ evento, onUpdate, onUpdateLocal, onClose }: EventoItemProp
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           CODATIVIDADE: evento.CODATIVIDADE,
-          ATIVO: 'N'
+          ATIVO: 'N',
+          ...(recorrente && { DATA_OCORRENCIA: evento.DATA_OCORRENCIA, ESCOPO: escopo })
         })
       })
 
@@ -251,6 +327,22 @@ function EventoItem({ evento, onUpdate, onUpdateLocal, onClose }: EventoItemProp
 
   const estaRealizado = evento.STATUS === 'REALIZADO'
 
+  const seletorEscopo = (
+    <div>
+      <Label className="text-xs">Aplicar a</Label>
+      <Select value={escopo} onValueChange={(valor) => setEscopo(valor as EscopoRecorrencia)} disabled={salvando || inativando}>
+        <SelectTrigger className="text-xs">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {ESCOPOS_RECORRENCIA.map(opcao => (
+            <SelectItem key={opcao} value={opcao}>{ROTULOS_ESCOPO[opcao]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+
   return (
     <>
       <div className="relative pl-6 sm:pl-12">
@@ -343,6 +435,10 @@ function EventoItem({ evento, onUpdate, onUpdateLocal, onClose }: EventoItemProp
                   />
                 </div>
               </div>
+              {recorrente && seletorEscopo}
+              {recorrente && escopo !== 'OCORRENCIA' && regra && (
+                <RecorrenciaCampos regra={regra} onChange={setRegra} obrigatoria disabled={salvando} />
+              )}
               <div className="flex gap-2">
                 <Button size="sm" onClick={salvarEdicao} disabled={salvando}>
                   {salvando ? (
@@ -369,6 +465,11 @@ function EventoItem({ evento, onUpdate, onUpdateLocal, onClose }: EventoItemProp
                   <span className="font-medium">Data:</span>{' '}
                   {new Date(evento.DATA_INICIO).toLocaleDateString('pt-BR')}
                 </span>
+                {evento.REGRA && (
+                  <span className="flex items-center gap-1">
+                    <Repeat className="w-3 h-3" /> {descreverRegra(evento.REGRA)}
+                  </span>
+                )}
               </div>
               <div className="flex gap-1 sm:gap-2 w-full sm:w-auto flex-wrap">
                 {estaRealizado ? (
@@ -412,6 +513,10 @@ function EventoItem({ evento, onUpdate, onUpdateLocal, onClose }: EventoItemProp
                     <Button size="sm" variant="outline" onClick={() => setEditando(true)} disabled={concluindo} className="text-xs">
                       Editar
                     </Button>
+                    <Button size="sm" variant="outline" onClick={baixarIcs} disabled={concluindo} className="text-xs" title="Baixar .ics">
+                      <Download className="w-3 h-3 sm:mr-1" />
+                      <span className="hidden sm:inline">.ics</span>
+                    </Button>
                     <Button size="sm" variant="destructive" onClick={() => setMostrarAlertaInativar(true)} disabled={concluindo || inativando} className="text-xs">
                       {inativando ? (
                         <>
@@ -437,8 +542,10 @@ function EventoItem({ evento, onUpdate, onUpdateLocal, onClose }: EventoItemProp
             <AlertDialogTitle>Tem certeza que deseja inativar?</AlertDialogTitle>
             <AlertDialogDescription>
               Esta ação irá inativar a tarefa "{evento.TITULO}". Você poderá reativá-la posteriormente através da lista de tarefas inativas.
+              {recorrente && ' Ocorrências removidas individualmente não voltam pela lista de inativas.'}
             </AlertDialogDescription>
           </AlertDialogHeader>
+          {recorrente && seletorEscopo}
           <AlertDialogFooter>
             <AlertDialogCancel>Cancelar</AlertDialogCancel>
             <AlertDialogAction onClick={() => {
@@ -464,7 +571,7 @@ export default function CalendarioView() {
   const [eventosDoDia, setEventosDoDia] = useState<CalendarioEvento[]>([])
   const [eventosInativos, setEventosInativos] = useState<CalendarioEvento[]>([])
   const [dataSelecionada, setDataSelecionada] = useState<Date | null>(null)
-  const [visualizacao, setVisualizacao] = useState<'calendario' | 'lista'>('calendario')
+  const [visualizacao, setVisualizacao] = useState<'calendario' | 'semana' | 'dia' | 'lista'>('calendario')
   const [novaAtividade, setNovaAtividade] = useState<NovaAtividade>({
     TIPO: 'TAREFA',
     TITULO: '',
@@ -472,9 +579,17 @@ export default function CalendarioView() {
     DATA_INICIO: '',
     DATA_FIM: '',
     STATUS: 'AGUARDANDO',
-    COR: '#22C55E'
+    COR: '#22C55E',
+    RECORRENCIA: null
   })
   const [salvandoAtividade, setSalvandoAtividade] = useState(false)
+  const [filtroTipo, setFiltroTipo] = useState('TODOS')
+  const [filtroStatus, setFiltroStatus] = useState('TODOS')
+  const [modalAssinaturaAberto, setModalAssinaturaAberto] = useState(false)
+  const [modalImportarIcsAberto, setModalImportarIcsAberto] = useState(false)
+  const [modalExpedienteAberto, setModalExpedienteAberto] = useState(false)
+  const [expedientes, setExpedientes] = useState<{ id: number; name: string; expediente: Expediente }[]>([])
+  const [vendedorExpediente, setVendedorExpediente] = useState<string>('')
   const { toast } = useToast()
 
   const diasSemana = ['DOM', 'SEG', 'TER', 'QUA', 'QUI', 'SEX', 'SÁB']
@@ -483,12 +598,34 @@ export default function CalendarioView() {
     'Julho', 'Agosto', 'Setembro', 'Outubro', 'Novembro', 'Dezembro'
   ]
 
-  const loadEventos = async () => {
+  // Dias exibidos na semana (domingo a sábado) ou no dia em foco
+  const getDiasTimeline = (date: Date) => {
+    if (visualizacao === 'dia') return [new Date(date.getFullYear(), date.getMonth(), date.getDate())]
+    const domingo = date.getDate() - date.getDay()
+    return Array.from({ length: 7 }, (_, i) => new Date(date.getFullYear(), date.getMonth(), domingo + i))
+  }
+
+  // Calendário e lista compartilham a grade do mês; semana e dia buscam só o próprio período
+  const escalaPeriodo = visualizacao === 'semana' || visualizacao === 'dia' ? visualizacao : 'mes'
+
+  // Silencioso recarrega sem trocar a tela pelo indicador de carregamento (usado após arrastar na agenda)
+  const loadEventos = async (silencioso = false) => {
     try {
-      setLoading(true)
+      if (!silencioso) setLoading(true)
       // Adicionar timestamp para evitar cache
       const timestamp = new Date().getTime()
-      const response = await fetch(`/api/leads/eventos?t=${timestamp}`, {
+      // Séries recorrentes são expandidas apenas no período exibido (grade do mês, semana ou dia)
+      const periodo = escalaPeriodo !== 'mes'
+        ? getDiasTimeline(currentDate)
+        : getDaysInMonth(currentDate).map(d => d.date)
+      const params = new URLSearchParams({
+        dataInicio: chaveData(periodo[0]),
+        dataFim: chaveData(periodo[periodo.length - 1]),
+        t: String(timestamp)
+      })
+      if (filtroTipo !== 'TODOS') params.set('tipo', filtroTipo)
+      if (filtroStatus !== 'TODOS') params.set('status', filtroStatus)
+      const response = await fetch(`/api/leads/eventos?${params.toString()}`, {
         cache: 'no-store',
         headers: {
           'Cache-Control': 'no-cache'
@@ -559,7 +696,29 @@ export default function CalendarioView() {
   useEffect(() => {
     loadEventos()
     carregarEventosInativos() // Load inactive events on mount
-  }, [currentDate]) // Rerun apenas quando currentDate mudar
+  }, [currentDate, filtroTipo, filtroStatus, escalaPeriodo]) // Rerun quando o período ou os filtros mudarem
+
+  // Expedientes carregados ao abrir a semana ou o dia
+  useEffect(() => {
+    if ((visualizacao === 'semana' || visualizacao === 'dia') && expedientes.length === 0) {
+      carregarExpedientes()
+    }
+  }, [visualizacao])
+
+  const carregarExpedientes = async () => {
+    try {
+      const response = await fetch('/api/usuarios/expediente')
+      if (!response.ok) throw new Error('Erro ao carregar expedientes')
+      const data = await response.json()
+      setExpedientes(data)
+      if (!vendedorExpediente) {
+        const atual = authService.getCurrentUser()
+        setVendedorExpediente(String(atual?.id ?? data[0]?.id ?? ''))
+      }
+    } catch (error) {
+      console.error('Erro ao carregar expedientes:', error)
+    }
+  }
 
   const reativarAtividade = async (codAtividade: string) => {
     try {
@@ -640,12 +799,29 @@ export default function CalendarioView() {
     })
   }
 
-  const previousMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() - 1))
+  // Avança ou volta um mês, uma semana ou um dia conforme a visão
+  const navegar = (direcao: 1 | -1) => {
+    if (visualizacao === 'semana' || visualizacao === 'dia') {
+      const passo = visualizacao === 'semana' ? 7 : 1
+      setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth(), currentDate.getDate() + direcao * passo))
+      return
+    }
+    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + direcao))
   }
 
-  const nextMonth = () => {
-    setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth() + 1))
+  const tituloPeriodo = () => {
+    if (visualizacao === 'dia') {
+      return currentDate.toLocaleDateString('pt-BR', { weekday: 'long', day: 'numeric', month: 'long', year: 'numeric' })
+    }
+    if (visualizacao === 'semana') {
+      const dias = getDiasTimeline(currentDate)
+      const inicio = dias[0]
+      const fim = dias[dias.length - 1]
+      return inicio.getMonth() === fim.getMonth()
+        ? `${inicio.getDate()} – ${fim.getDate()} de ${meses[fim.getMonth()]} ${fim.getFullYear()}`
+        : `${inicio.getDate()} ${meses[inicio.getMonth()].substring(0, 3)} – ${fim.getDate()} ${meses[fim.getMonth()].substring(0, 3)} ${fim.getFullYear()}`
+    }
+    return `${meses[currentDate.getMonth()]} ${currentDate.getFullYear()}`
   }
 
   const today = () => {
@@ -668,6 +844,59 @@ export default function CalendarioView() {
     setModalDiaAberto(true)
   }
 
+  const abrirEventoTimeline = (evento: CalendarioEvento) => {
+    setEventosDoDia([evento])
+    setDataSelecionada(new Date(evento.DATA_INICIO))
+    setModalDiaAberto(true)
+  }
+
+  const expedientesPorUsuario = new Map(expedientes.map(e => [Number(e.id), e.expediente]))
+
+  // Novo horário vindo do arrastar ou redimensionar; ocorrência de série altera apenas aquela data
+  const reagendarEvento = async (evento: CalendarioEvento, inicio: Date, fim: Date) => {
+    const novo = { ...evento, DATA_INICIO: dataHoraLocal(inicio), DATA_FIM: dataHoraLocal(fim) }
+
+    const conflitos = detectarConflitos([novo, ...eventos.filter(ev => ev.CODEVENTO !== evento.CODEVENTO)])
+      .get(evento.CODEVENTO)
+    const expedienteDono = expedientesPorUsuario.get(Number(evento.CODUSUARIO))
+    const avisos = [
+      conflitos && `Conflita com: ${conflitos.map(c => (c as CalendarioEvento).TITULO.split('|')[0]).join(', ')}.`,
+      expedienteDono && foraDoExpediente(expedienteDono, inicio, fim) && 'Fica fora do expediente do responsável.'
+    ].filter(Boolean)
+    if (avisos.length > 0 && !confirm(`${avisos.join('\n')}\n\nReagendar mesmo assim?`)) return
+
+    const anteriores = eventos
+    setEventos(eventos.map(ev => ev.CODEVENTO === evento.CODEVENTO ? novo : ev))
+
+    try {
+      const response = await fetch('/api/leads/atividades/atualizar', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          CODATIVIDADE: evento.CODATIVIDADE,
+          DATA_INICIO: novo.DATA_INICIO,
+          DATA_FIM: novo.DATA_FIM,
+          ...(evento.DATA_OCORRENCIA && { DATA_OCORRENCIA: evento.DATA_OCORRENCIA, ESCOPO: 'OCORRENCIA' })
+        })
+      })
+      if (!response.ok) throw new Error((await response.json().catch(() => null))?.error || 'Erro ao reagendar tarefa')
+
+      toast({
+        title: "Tarefa reagendada",
+        description: `${inicio.toLocaleDateString('pt-BR')} ${inicio.toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}`,
+      })
+      // Ocorrência reagendada vira uma atividade própria; recarregar traz o novo código
+      loadEventos(true)
+    } catch (error: any) {
+      setEventos(anteriores)
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      })
+    }
+  }
+
   const abrirModalNovaAtividade = () => {
     const hoje = new Date()
     const dataFormatada = hoje.toISOString().split('T')[0]
@@ -678,7 +907,8 @@ export default function CalendarioView() {
       DATA_INICIO: dataFormatada,
       DATA_FIM: dataFormatada,
       STATUS: 'AGUARDANDO',
-      COR: '#22C55E'
+      COR: '#22C55E',
+      RECORRENCIA: null
     })
     setModalNovaAtividadeAberto(true)
   }
@@ -694,6 +924,16 @@ export default function CalendarioView() {
         return
       }
 
+      const erroRegra = novaAtividade.RECORRENCIA ? validarRegra(novaAtividade.RECORRENCIA) : null
+      if (erroRegra) {
+        toast({
+          title: "Erro",
+          description: erroRegra,
+          variant: "destructive",
+        })
+        return
+      }
+
       setSalvandoAtividade(true)
 
       // Converter data sem alterar o fuso horário
@@ -710,11 +950,12 @@ export default function CalendarioView() {
           DATA_INICIO: dataInicio,
           DATA_FIM: dataFim,
           COR: novaAtividade.COR,
-          DADOS_COMPLEMENTARES: JSON.stringify({ STATUS: novaAtividade.STATUS })
+          DADOS_COMPLEMENTARES: JSON.stringify({ STATUS: novaAtividade.STATUS }),
+          RECORRENCIA: novaAtividade.RECORRENCIA
         })
       })
 
-      if (!response.ok) throw new Error('Erro ao criar atividade')
+      if (!response.ok) throw new Error((await response.json().catch(() => null))?.error || 'Erro ao criar atividade')
 
       toast({
         title: "Sucesso",
@@ -848,30 +1089,41 @@ export default function CalendarioView() {
             >
               <Calendar className="w-5 h-5" />
             </Button>
+            <Button
+              variant={visualizacao === 'dia' ? 'default' : 'ghost'}
+              size="icon"
+              className="h-9 w-9"
+              onClick={() => setVisualizacao('dia')}
+            >
+              <CalendarClock className="w-5 h-5" />
+            </Button>
             <Button variant="ghost" size="icon" className="h-9 w-9" onClick={() => setModalInativosAberto(true)}>
               <Archive className="w-5 h-5" />
             </Button>
+            <Button variant="ghost" size="icon" className="h-9 w-9" onClick={() => setModalAssinaturaAberto(true)}>
+              <Link2 className="w-5 h-5" />
+            </Button>
           </div>
         </div>
 
         {/* Header Desktop */}
         <div className="border-b p-4 hidden md:flex items-center justify-between flex-shrink-0">
           <div className="flex items-center gap-4">
-            {visualizacao === 'calendario' && (
+            {visualizacao !== 'lista' && (
               <>
                 <Button variant="outline" size="sm" onClick={today}>
                   Hoje
                 </Button>
                 <div className="flex items-center gap-2">
-                  <Button variant="ghost" size="icon" onClick={previousMonth}>
+                  <Button variant="ghost" size="icon" onClick={() => navegar(-1)}>
                     <ChevronLeft className="w-4 h-4" />
                   </Button>
-                  <Button variant="ghost" size="icon" onClick={nextMonth}>
+                  <Button variant="ghost" size="icon" onClick={() => navegar(1)}>
                     <ChevronRight className="w-4 h-4" />
                   </Button>
                 </div>
-                <h2 className="text-xl font-semibold">
-                  {meses[currentDate.getMonth()]} {currentDate.getFullYear()}
+                <h2 className="text-xl font-semibold first-letter:uppercase">
+                  {tituloPeriodo()}
                 </h2>
               </>
             )}
@@ -880,6 +1132,30 @@ export default function CalendarioView() {
             )}
           </div>
           <div className="flex items-center gap-2">
+            <Select value={filtroTipo} onValueChange={setFiltroTipo}>
+              <SelectTrigger className="h-9 w-[130px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="TODOS">Todos os tipos</SelectItem>
+                <SelectItem value="TAREFA">Tarefa</SelectItem>
+                <SelectItem value="REUNIAO">Reunião</SelectItem>
+                <SelectItem value="LIGACAO">Ligação</SelectItem>
+                <SelectItem value="EMAIL">E-mail</SelectItem>
+                <SelectItem value="VISITA">Visita</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={filtroStatus} onValueChange={setFiltroStatus}>
+              <SelectTrigger className="h-9 w-[140px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="TODOS">Todos os status</SelectItem>
+                <SelectItem value="AGUARDANDO">Aguardando</SelectItem>
+                <SelectItem value="ATRASADO">Atrasado</SelectItem>
+                <SelectItem value="REALIZADO">Concluído</SelectItem>
+              </SelectContent>
+            </Select>
             <Button
               variant={visualizacao === 'calendario' ? 'default' : 'outline'}
               size="sm"
@@ -888,6 +1164,22 @@ export default function CalendarioView() {
               <Calendar className="w-4 h-4 mr-2" />
               Calendário
             </Button>
+            <Button
+              variant={visualizacao === 'semana' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setVisualizacao('semana')}
+            >
+              <CalendarRange className="w-4 h-4 mr-2" />
+              Semana
+            </Button>
+            <Button
+              variant={visualizacao === 'dia' ? 'default' : 'outline'}
+              size="sm"
+              onClick={() => setVisualizacao('dia')}
+            >
+              <CalendarClock className="w-4 h-4 mr-2" />
+              Dia
+            </Button>
             <Button
               variant={visualizacao === 'lista' ? 'default' : 'outline'}
               size="sm"
@@ -904,6 +1196,22 @@ export default function CalendarioView() {
               <Archive className="w-4 h-4 mr-1" />
               Inativos ({eventosInativos.length})
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setModalImportarIcsAberto(true)}
+            >
+              <Upload className="w-4 h-4 mr-1" />
+              Importar .ics
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setModalAssinaturaAberto(true)}
+            >
+              <Link2 className="w-4 h-4 mr-1" />
+              Assinar Agenda
+            </Button>
             <Button onClick={abrirModalNovaAtividade} size="sm">
               <Plus className="w-4 h-4 mr-2" />
               Adicionar Tarefa
@@ -952,7 +1260,7 @@ export default function CalendarioView() {
                     <div className="space-y-0.5 overflow-hidden">
                       {eventosDay.slice(0, 3).map((evento) => (
                         <div
-                          key={evento.CODATIVIDADE}
+                          key={evento.CODEVENTO}
                           className="text-[10px] px-2 py-0.5 rounded-full text-white truncate font-medium"
                           style={{ backgroundColor: evento.COR || '#22C55E' }}
                           title={evento.TITULO}
@@ -971,6 +1279,55 @@ export default function CalendarioView() {
               })}
             </div>
           </div>
+        ) : visualizacao === 'semana' || visualizacao === 'dia' ? (
+          <div className="flex-1 flex flex-col overflow-hidden min-h-0">
+            {/* Barra da agenda: navegação no celular e expediente exibido */}
+            <div className="border-b px-4 py-2 flex items-center justify-between gap-2 flex-shrink-0">
+              <div className="flex items-center gap-1 md:hidden">
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => navegar(-1)}>
+                  <ChevronLeft className="w-4 h-4" />
+                </Button>
+                <Button variant="outline" size="sm" className="h-8" onClick={today}>
+                  Hoje
+                </Button>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => navegar(1)}>
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+                <span className="text-sm font-semibold ml-1">{currentDate.toLocaleDateString('pt-BR')}</span>
+              </div>
+              <div className="flex items-center gap-2 ml-auto">
+                {expedientes.length > 1 && (
+                  <Select value={vendedorExpediente} onValueChange={setVendedorExpediente}>
+                    <SelectTrigger className="h-8 w-[200px] text-xs">
+                      <SelectValue placeholder="Expediente de..." />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {expedientes.map(e => (
+                        <SelectItem key={e.id} value={String(e.id)}>Expediente de {e.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <Button variant="outline" size="sm" className="h-8" onClick={() => setModalExpedienteAberto(true)}>
+                  <Settings className="w-4 h-4 mr-1" />
+                  Meu expediente
+                </Button>
+              </div>
+            </div>
+
+            <AgendaTimeline
+              dias={getDiasTimeline(currentDate)}
+              eventos={eventos}
+              expediente={expedientesPorUsuario.get(Number(vendedorExpediente)) || EXPEDIENTE_PADRAO}
+              expedientes={expedientesPorUsuario}
+              onAbrirEvento={abrirEventoTimeline}
+              onReagendar={reagendarEvento}
+              onSelecionarDia={visualizacao === 'semana' ? (dia) => {
+                setCurrentDate(dia)
+                setVisualizacao('dia')
+              } : undefined}
+            />
+          </div>
         ) : (
           <div className="flex-1 p-2 sm:p-4 overflow-y-auto">
             <div className="space-y-2 sm:space-y-4">
@@ -981,12 +1338,12 @@ export default function CalendarioView() {
               ) : (
                 eventos.map((evento) => (
                   <EventoItem
-                    key={evento.CODATIVIDADE}
+                    key={evento.CODEVENTO}
                     evento={evento}
                     onUpdate={loadEventos}
                     onUpdateLocal={(updated) => {
                       setEventos(prevEventos => prevEventos.map(ev =>
-                        ev.CODATIVIDADE === updated.CODATIVIDADE ? updated : ev
+                        ev.CODEVENTO === updated.CODEVENTO ? updated : ev
                       ))
                     }}
                   />
@@ -1022,7 +1379,7 @@ export default function CalendarioView() {
                 <div className="space-y-6">
                   {eventosDoDia.map((evento, index) => (
                     <EventoItem
-                      key={evento.CODATIVIDADE}
+                      key={evento.CODEVENTO}
                       evento={evento}
                       onUpdate={async () => {
                         // Recarregar todos os eventos
@@ -1040,13 +1397,13 @@ export default function CalendarioView() {
                       onUpdateLocal={(updated) => {
                         // Atualizar o evento localmente no modal
                         const novosEventos = eventosDoDia.map(ev =>
-                          ev.CODATIVIDADE === updated.CODATIVIDADE ? updated : ev
+                          ev.CODEVENTO === updated.CODEVENTO ? updated : ev
                         )
                         setEventosDoDia(novosEventos)
 
                         // Atualizar também na lista principal
                         setEventos(prevEventos => prevEventos.map(ev =>
-                          ev.CODATIVIDADE === updated.CODATIVIDADE ? updated : ev
+                          ev.CODEVENTO === updated.CODEVENTO ? updated : ev
                         ))
                       }}
                       onClose={() => setModalDiaAberto(false)}
@@ -1182,6 +1539,13 @@ export default function CalendarioView() {
               </div>
             </div>
 
+            <RecorrenciaCampos
+              regra={novaAtividade.RECORRENCIA}
+              onChange={(regra) => setNovaAtividade({ ...novaAtividade, RECORRENCIA: regra })}
+              diaSemanaInicial={novaAtividade.DATA_INICIO ? new Date(novaAtividade.DATA_INICIO + 'T00:00:00').getDay() : undefined}
+              disabled={salvandoAtividade}
+            />
+
             <div>
               <Label htmlFor="cor">Cor</Label>
               <Input
@@ -1215,6 +1579,27 @@ export default function CalendarioView() {
         </DialogContent>
       </Dialog>
 
+      <AssinaturaAgendaModal
+        isOpen={modalAssinaturaAberto}
+        onClose={() => setModalAssinaturaAberto(false)}
+      />
+
+      <ImportarIcsModal
+        isOpen={modalImportarIcsAberto}
+        onClose={() => setModalImportarIcsAberto(false)}
+        onImportado={loadEventos}
+      />
+
+      <ExpedienteModal
+        isOpen={modalExpedienteAberto}
+        onClose={() => setModalExpedienteAberto(false)}
+        expediente={expedientesPorUsuario.get(Number(authService.getCurrentUser()?.id)) || EXPEDIENTE_PADRAO}
+        onSalvo={(expediente) => {
+          const id = Number(authService.getCurrentUser()?.id)
+          setExpedientes(expedientes.map(e => Number(e.id) === id ? { ...e, expediente } : e))
+        }}
+      />
+
       <style jsx global>{`
         .scrollbar-hide::-webkit-scrollbar {
           display: none;
@@ -0,0 +1,153 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { authService } from "@/lib/auth-service"
+import type { User } from "@/lib/types"
+import { Copy, Check } from "lucide-react"
+
+interface DoisFatoresCadastroProps {
+  // Desafio do login quando o cadastro é obrigatório; sem ele usa a sessão atual
+  desafio?: string
+  onConcluido: (user?: User) => void
+  onCancelar?: () => void
+}
+
+export default function DoisFatoresCadastro({ desafio, onConcluido, onCancelar }: DoisFatoresCadastroProps) {
+  const [segredo, setSegredo] = useState("")
+  const [uri, setUri] = useState("")
+  const [codigo, setCodigo] = useState("")
+  const [codigosRecuperacao, setCodigosRecuperacao] = useState<string[] | null>(null)
+  const [user, setUser] = useState<User | undefined>(undefined)
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(true)
+  const [copiado, setCopiado] = useState(false)
+
+  const gerarSegredo = async () => {
+    setIsLoading(true)
+    setError("")
+    try {
+      const resultado = await authService.startTwoFactorEnrollment(desafio)
+      setSegredo(resultado.segredo)
+      setUri(resultado.uri)
+    } catch (err: any) {
+      setError(err.message || "Erro ao gerar o segredo")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    gerarSegredo()
+  }, [desafio])
+
+  const handleConfirmar = async () => {
+    if (codigo.length !== 6) return
+
+    setIsLoading(true)
+    setError("")
+    try {
+      const resultado = await authService.activateTwoFactor(codigo, desafio)
+      setUser(resultado.user)
+      setCodigosRecuperacao(resultado.codigosRecuperacao)
+    } catch (err: any) {
+      setError(err.message || "Código inválido")
+      setCodigo("")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleCopiar = async () => {
+    if (!codigosRecuperacao) return
+    try {
+      await navigator.clipboard.writeText(codigosRecuperacao.join("\n"))
+      setCopiado(true)
+      setTimeout(() => setCopiado(false), 2000)
+    } catch (err) {
+      console.error("Erro ao copiar códigos:", err)
+    }
+  }
+
+  if (codigosRecuperacao) {
+    return (
+      <div className="space-y-4">
+        <div>
+          <p className="text-sm font-medium text-foreground">Autenticação em dois fatores ativada</p>
+          <p className="text-sm text-muted-foreground">
+            Guarde os códigos de recuperação em local seguro. Cada código pode ser usado uma única vez caso você perca o acesso ao aplicativo. Eles não serão exibidos novamente.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/50 p-3 font-mono text-sm">
+          {codigosRecuperacao.map((c) => (
+            <span key={c}>{c}</span>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="outline" onClick={handleCopiar} className="flex items-center gap-1">
+            {copiado ? <Check className="w-4 h-4" /> : <Copy className="w-4 h-4" />}
+            {copiado ? "Copiado" : "Copiar"}
+          </Button>
+          <Button type="button" onClick={() => onConcluido(user)}>
+            Continuar
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1 text-sm text-muted-foreground">
+        <p>1. Abra o aplicativo autenticador (Google Authenticator, Microsoft Authenticator, Authy...).</p>
+        <p>2. Adicione uma conta informando a chave abaixo ou, no celular, toque em "Abrir no aplicativo".</p>
+        <p>3. Digite o código de 6 dígitos gerado pelo aplicativo.</p>
+      </div>
+
+      {segredo && (
+        <div className="space-y-2">
+          <div className="rounded-md border bg-muted/50 p-3 text-center font-mono text-sm tracking-wider break-all">
+            {segredo.match(/.{1,4}/g)?.join(" ")}
+          </div>
+          <div className="text-center">
+            <a href={uri} className="text-sm text-primary hover:underline">
+              Abrir no aplicativo
+            </a>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-center">
+        <InputOTP maxLength={6} value={codigo} onChange={setCodigo} disabled={isLoading || !segredo}>
+          <InputOTPGroup>
+            {[0, 1, 2, 3, 4, 5].map((i) => (
+              <InputOTPSlot key={i} index={i} />
+            ))}
+          </InputOTPGroup>
+        </InputOTP>
+      </div>
+
+      {error && <p className="text-sm text-destructive text-center">{error}</p>}
+
+      <div className="flex justify-end gap-3">
+        {onCancelar && (
+          <Button type="button" variant="outline" onClick={onCancelar}>
+            Cancelar
+          </Button>
+        )}
+        {!segredo && !isLoading ? (
+          <Button type="button" onClick={gerarSegredo}>
+            Tentar novamente
+          </Button>
+        ) : (
+          <Button type="button" onClick={handleConfirmar} disabled={isLoading || codigo.length !== 6}>
+            {isLoading ? "Verificando..." : "Ativar"}
+          </Button>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,120 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { toast } from "@/components/ui/use-toast"
+import { authService } from "@/lib/auth-service"
+import DoisFatoresCadastro from "./dois-fatores-cadastro"
+
+// Seção do perfil para ativar/desativar a autenticação em dois fatores
+export default function DoisFatoresConfig() {
+  const [status, setStatus] = useState<{ ativo: boolean; obrigatorio: boolean; codigosRestantes: number } | null>(null)
+  const [etapa, setEtapa] = useState<"resumo" | "cadastro" | "desativar">("resumo")
+  const [senha, setSenha] = useState("")
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  const carregarStatus = async () => {
+    setStatus(await authService.getTwoFactorStatus())
+  }
+
+  useEffect(() => {
+    carregarStatus()
+  }, [])
+
+  const handleDesativar = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsLoading(true)
+    setError("")
+    try {
+      await authService.disableTwoFactor(senha)
+      toast({ title: "Autenticação em dois fatores desativada" })
+      setSenha("")
+      setEtapa("resumo")
+      await carregarStatus()
+    } catch (err: any) {
+      setError(err.message || "Erro ao desativar")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  if (!status) return null
+
+  if (etapa === "cadastro") {
+    return (
+      <DoisFatoresCadastro
+        onConcluido={async () => {
+          setEtapa("resumo")
+          await carregarStatus()
+        }}
+        onCancelar={() => setEtapa("resumo")}
+      />
+    )
+  }
+
+  if (etapa === "desativar") {
+    return (
+      <form onSubmit={handleDesativar} className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="senha2fa">Confirme com a sua senha</Label>
+          <Input
+            id="senha2fa"
+            type="password"
+            value={senha}
+            onChange={(e) => setSenha(e.target.value)}
+            autoComplete="current-password"
+            required
+          />
+        </div>
+
+        {error && <p className="text-sm text-destructive">{error}</p>}
+
+        <div className="flex justify-end gap-3">
+          <Button type="button" variant="outline" onClick={() => setEtapa("resumo")}>
+            Cancelar
+          </Button>
+          <Button type="submit" variant="destructive" disabled={isLoading}>
+            {isLoading ? "Desativando..." : "Desativar"}
+          </Button>
+        </div>
+      </form>
+    )
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <span className="text-sm font-medium text-foreground">Autenticação em dois fatores</span>
+          {status.ativo ? (
+            <Badge className="bg-green-500 hover:bg-green-600">Ativa</Badge>
+          ) : (
+            <Badge variant="secondary">Inativa</Badge>
+          )}
+        </div>
+        {status.ativo && (
+          <p className="text-xs text-muted-foreground">
+            {status.codigosRestantes} código(s) de recuperação disponível(is)
+          </p>
+        )}
+        {status.obrigatorio && (
+          <p className="text-xs text-muted-foreground">Obrigatória para o seu perfil</p>
+        )}
+      </div>
+
+      {!status.ativo ? (
+        <Button type="button" variant="outline" onClick={() => setEtapa("cadastro")}>
+          Ativar
+        </Button>
+      ) : !status.obrigatorio ? (
+        <Button type="button" variant="outline" onClick={() => setEtapa("desativar")}>
+          Desativar
+        </Button>
+      ) : null}
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import Link from "next/link"
+import Image from "next/image"
+
+export default function EsqueciSenhaForm() {
+  const [email, setEmail] = useState("")
+  const [mensagem, setMensagem] = useState("")
+  const [error, setError] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch('/api/auth/esqueci-senha', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ email }),
+      })
+
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || 'Erro ao solicitar redefinição de senha')
+      }
+
+      setMensagem(data.message)
+    } catch (err: any) {
+      setError(err.message || "Erro ao solicitar redefinição de senha. Tente novamente.")
+      console.error(err)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="w-full max-w-md bg-card rounded-lg shadow-xl p-8">
+      <div className="flex flex-col items-center mb-8">
+        <div className="mb-4">
+          <Image
+            src="/sankhya-logo-horizontal.png"
+            alt="Sankhya Logo"
+            width={240}
+            height={80}
+            className="object-contain"
+          />
+        </div>
+        <h1 className="text-lg font-semibold text-foreground">Esqueci minha senha</h1>
+        <p className="text-sm text-muted-foreground text-center">
+          Informe o email cadastrado para receber um link de redefinição.
+        </p>
+      </div>
+
+      {mensagem ? (
+        <p className="text-sm text-center text-foreground">{mensagem}</p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="email" className="text-sm text-muted-foreground">
+              E-mail
+            </Label>
+            <Input
+              id="email"
+              name="email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              className="bg-background border-input"
+              required
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <Button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-primary hover:bg-primary/90 text-primary-foreground font-medium uppercase tracking-wide"
+          >
+            {isSubmitting ? "Enviando..." : "Enviar link"}
+          </Button>
+        </form>
+      )}
+
+      <div className="mt-6 text-center">
+        <Link href="/" className="text-sm text-primary hover:text-primary/90 font-medium">
+          Voltar para o login
+        </Link>
+      </div>
+    </div>
+  )
+}
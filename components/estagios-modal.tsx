@@ -2,11 +2,14 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { X, Plus, Trash2, GripVertical } from "lucide-react"
+import { X, Plus, Trash2, GripVertical, ChevronDown, ChevronUp } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { Switch } from "@/components/ui/switch"
 import type { Funil, EstagioFunil } from "@/lib/funis-service"
+import { CAMPOS_EXIGIVEIS, lerLista, montarLista } from "@/lib/regras-estagio"
 import { useToast } from "@/hooks/use-toast"
 
 interface EstagiosModalProps {
@@ -26,6 +29,7 @@ export function EstagiosModal({ isOpen, onClose, funil, onSave }: EstagiosModalP
   const [isLoading, setIsLoading] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null)
+  const [regrasAbertas, setRegrasAbertas] = useState<string | null>(null)
   const { toast } = useToast()
 
   useEffect(() => {
@@ -68,7 +72,10 @@ export function EstagiosModal({ isOpen, onClose, funil, onSave }: EstagiosModalP
       NOME: "",
       ORDEM: estagios.length + 1,
       COR: CORES_PREDEFINIDAS[estagios.length % CORES_PREDEFINIDAS.length],
-      ATIVO: "S"
+      ATIVO: "S",
+      ESTAGIOS_PERMITIDOS: "",
+      CAMPOS_OBRIGATORIOS: "",
+      EXIGE_APROVACAO: "N"
     }
     setEstagios([...estagios, novoEstagio as EstagioFunil])
   }
@@ -79,6 +86,13 @@ export function EstagiosModal({ isOpen, onClose, funil, onSave }: EstagiosModalP
     setEstagios(updated)
   }
 
+  // Marca/desmarca um código em uma das listas de regras do estágio
+  const handleToggleLista = (index: number, field: 'ESTAGIOS_PERMITIDOS' | 'CAMPOS_OBRIGATORIOS', codigo: string, marcado: boolean) => {
+    const atual = lerLista(estagios[index][field])
+    const nova = marcado ? [...atual, codigo] : atual.filter(c => c !== codigo)
+    handleUpdateEstagio(index, field, montarLista(nova))
+  }
+
   const handleRemoveEstagio = async (index: number) => {
     const estagio = estagios[index]
     
@@ -175,7 +189,11 @@ export function EstagiosModal({ isOpen, onClose, funil, onSave }: EstagiosModalP
             CODFUNIL: funil.CODFUNIL,
             NOME: estagio.NOME,
             ORDEM: estagio.ORDEM,
-            COR: estagio.COR
+            COR: estagio.COR,
+            ESTAGIOS_PERMITIDOS: estagio.ESTAGIOS_PERMITIDOS || "",
+            CAMPOS_OBRIGATORIOS: estagio.CAMPOS_OBRIGATORIOS || "",
+            EXIGE_APROVACAO: estagio.EXIGE_APROVACAO === "S" ? "S" : "N",
+            PROBABILIDADE: estagio.PROBABILIDADE ?? null
           })
         })
       }
@@ -241,6 +259,16 @@ export function EstagiosModal({ isOpen, onClose, funil, onSave }: EstagiosModalP
                   placeholder="Nome do estágio"
                   className="flex-1"
                 />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => setRegrasAbertas(regrasAbertas === estagio.CODESTAGIO ? null : estagio.CODESTAGIO)}
+                  className="flex-shrink-0 h-9 px-2 text-xs"
+                  title="Regras do estágio"
+                >
+                  Regras
+                  {regrasAbertas === estagio.CODESTAGIO ? <ChevronUp className="w-4 h-4 ml-1" /> : <ChevronDown className="w-4 h-4 ml-1" />}
+                </Button>
                 <Button
                   size="sm"
                   variant="ghost"
@@ -266,6 +294,71 @@ export function EstagiosModal({ isOpen, onClose, funil, onSave }: EstagiosModalP
                   />
                 ))}
               </div>
+
+              {/* Linha 3: Regras de transição */}
+              {regrasAbertas === estagio.CODESTAGIO && (
+                <div className="space-y-4 border-t pt-3">
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label htmlFor={`probabilidade-${estagio.CODESTAGIO}`} className="text-xs font-semibold">Probabilidade de ganho (%)</Label>
+                      <p className="text-xs text-muted-foreground">Usada na previsão de vendas. Vazio: calculada pela posição do estágio.</p>
+                    </div>
+                    <Input
+                      id={`probabilidade-${estagio.CODESTAGIO}`}
+                      type="number"
+                      min={0}
+                      max={100}
+                      value={estagio.PROBABILIDADE ?? ""}
+                      onChange={(e) => handleUpdateEstagio(index, 'PROBABILIDADE', e.target.value === "" ? null : Number(e.target.value))}
+                      className="w-24"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-xs font-semibold">Pode avançar para</Label>
+                    <p className="text-xs text-muted-foreground">Nenhum marcado: o lead pode ir para qualquer estágio.</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      {estagios
+                        .filter(outro => outro.CODESTAGIO !== estagio.CODESTAGIO && !outro.CODESTAGIO.startsWith('temp-'))
+                        .map(outro => (
+                          <label key={outro.CODESTAGIO} className="flex items-center gap-2 text-sm">
+                            <Checkbox
+                              checked={lerLista(estagio.ESTAGIOS_PERMITIDOS).includes(outro.CODESTAGIO)}
+                              onCheckedChange={(checked) => handleToggleLista(index, 'ESTAGIOS_PERMITIDOS', outro.CODESTAGIO, checked === true)}
+                            />
+                            {outro.NOME || "Sem nome"}
+                          </label>
+                        ))}
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label className="text-xs font-semibold">Obrigatório para entrar neste estágio</Label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {CAMPOS_EXIGIVEIS.map(({ campo, rotulo }) => (
+                        <label key={campo} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={lerLista(estagio.CAMPOS_OBRIGATORIOS).includes(campo)}
+                            onCheckedChange={(checked) => handleToggleLista(index, 'CAMPOS_OBRIGATORIOS', campo, checked === true)}
+                          />
+                          {rotulo}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+
+                  <div className="flex items-center justify-between gap-4">
+                    <div>
+                      <Label className="text-xs font-semibold">Exige aprovação do gerente</Label>
+                      <p className="text-xs text-muted-foreground">Vendedores solicitam a entrada e o lead só muda após a aprovação.</p>
+                    </div>
+                    <Switch
+                      checked={estagio.EXIGE_APROVACAO === "S"}
+                      onCheckedChange={(checked) => handleUpdateEstagio(index, 'EXIGE_APROVACAO', checked ? "S" : "N")}
+                    />
+                  </div>
+                </div>
+              )}
             </div>
           ))}
         </div>
@@ -0,0 +1,127 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { useToast } from "@/hooks/use-toast"
+import { DIAS_SEMANA_ABREVIADOS } from "@/lib/recorrencia"
+import { validarExpediente, type Expediente } from "@/lib/agenda"
+
+interface ExpedienteModalProps {
+  isOpen: boolean
+  onClose: () => void
+  expediente: Expediente
+  onSalvo: (expediente: Expediente) => void
+}
+
+// Dias e horário de trabalho do próprio usuário, sombreados fora do expediente na semana e no dia
+export default function ExpedienteModal({ isOpen, onClose, expediente, onSalvo }: ExpedienteModalProps) {
+  const [dias, setDias] = useState<number[]>(expediente.dias)
+  const [inicio, setInicio] = useState(expediente.inicio)
+  const [fim, setFim] = useState(expediente.fim)
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (isOpen) {
+      setDias(expediente.dias)
+      setInicio(expediente.inicio)
+      setFim(expediente.fim)
+    }
+  }, [isOpen, expediente])
+
+  const alternarDia = (dia: number) => {
+    setDias(dias.includes(dia) ? dias.filter(d => d !== dia) : [...dias, dia].sort((a, b) => a - b))
+  }
+
+  const handleSalvar = async () => {
+    const novo = { dias, inicio, fim }
+    const erro = validarExpediente(novo)
+    if (erro) {
+      toast({
+        title: "Erro",
+        description: erro,
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/usuarios/expediente', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(novo)
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Erro ao salvar expediente')
+
+      toast({ title: "Expediente salvo" })
+      onSalvo(data.expediente)
+      onClose()
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Meu Expediente</DialogTitle>
+          <DialogDescription>
+            Horário em que você atende; atividades fora dele são sinalizadas na agenda
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Dias de trabalho</Label>
+            <div className="flex flex-wrap gap-1 mt-2">
+              {DIAS_SEMANA_ABREVIADOS.map((nome, dia) => (
+                <Button
+                  key={nome}
+                  type="button"
+                  size="sm"
+                  variant={dias.includes(dia) ? 'default' : 'outline'}
+                  className="h-7 px-2 text-xs"
+                  onClick={() => alternarDia(dia)}
+                >
+                  {nome}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Início</Label>
+              <Input type="time" value={inicio} onChange={(e) => setInicio(e.target.value)} />
+            </div>
+            <div>
+              <Label>Término</Label>
+              <Input type="time" value={fim} onChange={(e) => setFim(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancelar
+            </Button>
+            <Button onClick={handleSalvar} disabled={isSaving}>
+              {isSaving ? "Salvando..." : "Salvar"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,331 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Search, TrendingUp, TrendingDown } from "lucide-react"
+import { BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import type { Funil } from "@/lib/funis-service"
+import type { MetricasFunil, ResumoPeriodo } from "@/lib/funil-metricas-service"
+import { formatarDuracao } from "./lead-linha-do-tempo"
+
+const TODOS = "TODOS"
+
+type RespostaMetricas = MetricasFunil & { vendedores: { id: number; name: string }[] }
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(Number(value) || 0)
+
+const formatarDataBr = (dataISO: string) => dataISO.split('-').reverse().join('/')
+
+const dataIso = (data: Date) =>
+  `${data.getFullYear()}-${String(data.getMonth() + 1).padStart(2, '0')}-${String(data.getDate()).padStart(2, '0')}`
+
+// Variação percentual entre o período atual e o anterior
+function variacao(atual: number | null, anterior: number | null): number | null {
+  if (atual === null || anterior === null || anterior === 0) return null
+  return Math.round(((atual - anterior) / anterior) * 1000) / 10
+}
+
+interface IndicadorProps {
+  titulo: string
+  valor: string
+  atual: number | null
+  anterior: number | null
+  anteriorFormatado: string
+  // Para o ciclo de venda, cair é bom
+  menorMelhor?: boolean
+}
+
+function Indicador({ titulo, valor, atual, anterior, anteriorFormatado, menorMelhor }: IndicadorProps) {
+  const delta = variacao(atual, anterior)
+  const positivo = delta !== null && (menorMelhor ? delta < 0 : delta > 0)
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm font-medium text-muted-foreground">{titulo}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="text-2xl font-bold">{valor}</div>
+        <p className="text-xs flex items-center gap-1 mt-1 text-muted-foreground">
+          {delta !== null && delta !== 0 && (
+            <>
+              {delta > 0 ? (
+                <TrendingUp className={`h-4 w-4 ${positivo ? "text-green-600" : "text-red-600"}`} />
+              ) : (
+                <TrendingDown className={`h-4 w-4 ${positivo ? "text-green-600" : "text-red-600"}`} />
+              )}
+              <span className={positivo ? "text-green-600" : "text-red-600"}>
+                {delta > 0 ? "+" : ""}{delta}%
+              </span>
+            </>
+          )}
+          <span>Anterior: {anteriorFormatado}</span>
+        </p>
+      </CardContent>
+    </Card>
+  )
+}
+
+export default function FunilMetricas() {
+  const hoje = new Date()
+  const [funis, setFunis] = useState<Funil[]>([])
+  const [codFunil, setCodFunil] = useState("")
+  const [codUsuario, setCodUsuario] = useState(TODOS)
+  const [dataInicio, setDataInicio] = useState(dataIso(new Date(hoje.getFullYear(), hoje.getMonth(), 1)))
+  const [dataFim, setDataFim] = useState(dataIso(hoje))
+  const [metricas, setMetricas] = useState<RespostaMetricas | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    loadFunis()
+  }, [])
+
+  useEffect(() => {
+    if (codFunil) loadMetricas()
+  }, [codFunil])
+
+  const loadFunis = async () => {
+    try {
+      const response = await fetch('/api/funis')
+      if (!response.ok) throw new Error('Erro ao carregar funis')
+      const data: Funil[] = await response.json()
+      setFunis(data)
+      if (data.length > 0) setCodFunil(String(data[0].CODFUNIL))
+    } catch (error: any) {
+      toast({ title: "Erro", description: error.message, variant: "destructive" })
+    }
+  }
+
+  const loadMetricas = async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ codFunil, dataInicio, dataFim })
+      if (codUsuario !== TODOS) params.set('codUsuario', codUsuario)
+
+      const response = await fetch(`/api/funis/metricas?${params.toString()}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Erro ao carregar métricas')
+      setMetricas(data)
+    } catch (error: any) {
+      toast({ title: "Erro", description: error.message, variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleFiltrar = (e: React.FormEvent) => {
+    e.preventDefault()
+    loadMetricas()
+  }
+
+  const percentual = (valor: number | null) => (valor === null ? "—" : `${valor}%`)
+  const dias = (valor: number | null) => (valor === null ? "—" : `${valor} dias`)
+
+  const indicadores = (atual: ResumoPeriodo, anterior: ResumoPeriodo): IndicadorProps[] => [
+    { titulo: "Novos negócios", valor: String(atual.novosLeads), atual: atual.novosLeads, anterior: anterior.novosLeads, anteriorFormatado: String(anterior.novosLeads) },
+    { titulo: "Valor ganho", valor: formatCurrency(atual.valorGanho), atual: atual.valorGanho, anterior: anterior.valorGanho, anteriorFormatado: formatCurrency(anterior.valorGanho) },
+    { titulo: "Taxa de conversão", valor: percentual(atual.taxaConversao), atual: atual.taxaConversao, anterior: anterior.taxaConversao, anteriorFormatado: percentual(anterior.taxaConversao) },
+    { titulo: "Ciclo médio de venda", valor: dias(atual.cicloMedioDias), atual: atual.cicloMedioDias, anterior: anterior.cicloMedioDias, anteriorFormatado: dias(anterior.cicloMedioDias), menorMelhor: true },
+  ]
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-foreground">Métricas do Funil</h1>
+        <p className="text-sm text-muted-foreground">Pipeline, conversão e velocidade calculados a partir dos negócios</p>
+      </div>
+
+      {/* Filtros */}
+      <form onSubmit={handleFiltrar} className="bg-card rounded-lg shadow p-4 grid gap-4 md:grid-cols-2 lg:grid-cols-4 items-end">
+        <div className="space-y-2">
+          <Label>Funil</Label>
+          <Select value={codFunil} onValueChange={setCodFunil}>
+            <SelectTrigger>
+              <SelectValue placeholder="Selecione" />
+            </SelectTrigger>
+            <SelectContent>
+              {funis.map((funil) => (
+                <SelectItem key={funil.CODFUNIL} value={String(funil.CODFUNIL)}>{funil.NOME}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Vendedor</Label>
+          <Select value={codUsuario} onValueChange={setCodUsuario}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={TODOS}>Todos</SelectItem>
+              {(metricas?.vendedores || []).map((vendedor) => (
+                <SelectItem key={vendedor.id} value={String(vendedor.id)}>{vendedor.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="dataInicio">De</Label>
+          <Input id="dataInicio" type="date" value={dataInicio} onChange={(e) => setDataInicio(e.target.value)} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="dataFim">Até</Label>
+          <div className="flex gap-2">
+            <Input id="dataFim" type="date" value={dataFim} onChange={(e) => setDataFim(e.target.value)} />
+            <Button type="submit" size="icon" className="shrink-0" title="Filtrar" disabled={!codFunil || isLoading}>
+              <Search className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </form>
+
+      {isLoading && !metricas ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : !metricas ? (
+        <p className="text-sm text-muted-foreground text-center py-16">Selecione um funil para ver as métricas</p>
+      ) : (
+        <div className={`space-y-6 ${isLoading ? "opacity-60" : ""}`}>
+          {/* Indicadores do período */}
+          <div>
+            <p className="text-xs text-muted-foreground mb-2">
+              {formatarDataBr(metricas.periodo.dataInicio)} a {formatarDataBr(metricas.periodo.dataFim)} comparado a{" "}
+              {formatarDataBr(metricas.periodoAnterior.dataInicio)} a {formatarDataBr(metricas.periodoAnterior.dataFim)}
+            </p>
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+              {indicadores(metricas.atual, metricas.anterior).map((indicador) => (
+                <Indicador key={indicador.titulo} {...indicador} />
+              ))}
+            </div>
+          </div>
+
+          {/* Pipeline por estágio */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Pipeline atual por estágio</CardTitle>
+              <p className="text-sm text-muted-foreground">
+                Total {formatCurrency(metricas.pipelineTotal)} · Ponderado {formatCurrency(metricas.pipelinePonderado)}
+              </p>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <ResponsiveContainer width="100%" height={260}>
+                <BarChart data={metricas.estagios}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="NOME" />
+                  <YAxis />
+                  <Tooltip formatter={(value: any) => formatCurrency(value)} />
+                  <Bar dataKey="valor" name="Valor">
+                    {metricas.estagios.map((estagio) => (
+                      <Cell key={estagio.CODESTAGIO} fill={estagio.COR || "#3b82f6"} />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2 pr-4 font-medium">Estágio</th>
+                      <th className="py-2 pr-4 font-medium text-right">Negócios</th>
+                      <th className="py-2 pr-4 font-medium text-right">Valor</th>
+                      <th className="py-2 pr-4 font-medium text-right">Peso</th>
+                      <th className="py-2 pr-4 font-medium text-right">Ponderado</th>
+                      <th className="py-2 pr-4 font-medium text-right">Tempo médio</th>
+                      <th className="py-2 font-medium text-right">Avançam</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {metricas.estagios.map((estagio) => (
+                      <tr key={estagio.CODESTAGIO}>
+                        <td className="py-2 pr-4">
+                          <span className="inline-flex items-center gap-2">
+                            <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: estagio.COR }} />
+                            {estagio.NOME}
+                          </span>
+                        </td>
+                        <td className="py-2 pr-4 text-right">{estagio.quantidade}</td>
+                        <td className="py-2 pr-4 text-right">{formatCurrency(estagio.valor)}</td>
+                        <td className="py-2 pr-4 text-right">{estagio.peso}%</td>
+                        <td className="py-2 pr-4 text-right">{formatCurrency(estagio.valorPonderado)}</td>
+                        <td className="py-2 pr-4 text-right">
+                          {estagio.tempoMedioMs === null ? "—" : formatarDuracao(estagio.tempoMedioMs)}
+                        </td>
+                        <td className="py-2 text-right">{percentual(estagio.taxaConversao)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Ganhos e perdas */}
+          <div className="grid gap-4 lg:grid-cols-2">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Ganhos e perdas no período</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Ganhos</span>
+                  <span className="font-medium text-green-600">{metricas.atual.ganhos} · {formatCurrency(metricas.atual.valorGanho)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Perdidos</span>
+                  <span className="font-medium text-red-600">{metricas.atual.perdidos} · {formatCurrency(metricas.atual.valorPerdido)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Taxa de conversão</span>
+                  <span className="font-medium">{percentual(metricas.atual.taxaConversao)}</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Motivos de perda</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {metricas.motivosPerda.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Nenhum negócio perdido no período</p>
+                ) : (
+                  <table className="w-full text-sm">
+                    <tbody className="divide-y divide-border">
+                      {metricas.motivosPerda.map((motivo) => (
+                        <tr key={motivo.motivo}>
+                          <td className="py-2 pr-4">{motivo.motivo}</td>
+                          <td className="py-2 pr-4 text-right">{motivo.quantidade}</td>
+                          <td className="py-2 pr-4 text-right">{motivo.percentual}%</td>
+                          <td className="py-2 text-right">{formatCurrency(motivo.valor)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
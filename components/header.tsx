@@ -7,6 +7,7 @@ import { useState, useEffect } from "react"
 import { authService } from "@/lib/auth-service"
 import type { User } from "@/lib/users-service"
 import ProfileModal from "./profile-modal"
+import NotificacoesMenu from "./notificacoes-menu"
 import { Bell, Calendar } from "lucide-react"
 
 interface HeaderProps {
@@ -59,19 +60,23 @@ export default function Header({ onMenuClick }: HeaderProps) {
           />
         </div>
 
-        <button
-          onClick={() => setIsProfileOpen(true)}
-          className="flex items-center gap-3 hover:opacity-80 transition-opacity"
-        >
-          <div className="text-right hidden sm:block">
-            <p className="text-sm font-medium text-white">{user.name}</p>
-            <p className="text-xs text-white/70">{user.email}</p>
-          </div>
-          <Avatar className="w-10 h-10 border-2 border-primary">
-            <AvatarImage src={user.avatar || "/placeholder-user.png"} alt={user.name} />
-            <AvatarFallback className="bg-primary text-primary-foreground font-semibold">{initials}</AvatarFallback>
-          </Avatar>
-        </button>
+        <div className="flex items-center gap-3">
+          <NotificacoesMenu />
+
+          <button
+            onClick={() => setIsProfileOpen(true)}
+            className="flex items-center gap-3 hover:opacity-80 transition-opacity"
+          >
+            <div className="text-right hidden sm:block">
+              <p className="text-sm font-medium text-white">{user.name}</p>
+              <p className="text-xs text-white/70">{user.email}</p>
+            </div>
+            <Avatar className="w-10 h-10 border-2 border-primary">
+              <AvatarImage src={user.avatar || "/placeholder-user.png"} alt={user.name} />
+              <AvatarFallback className="bg-primary text-primary-foreground font-semibold">{initials}</AvatarFallback>
+            </Avatar>
+          </button>
+        </div>
       </header>
 
       <ProfileModal
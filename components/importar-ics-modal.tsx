@@ -0,0 +1,159 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import type { Lead } from "@/lib/leads-service"
+
+interface ImportarIcsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  // Chamado após a importação para o calendário recarregar os eventos
+  onImportado: () => void
+}
+
+// Cria atividades em um lead a partir de um arquivo .ics (convites e exportações de outros calendários)
+export default function ImportarIcsModal({ isOpen, onClose, onImportado }: ImportarIcsModalProps) {
+  const [leads, setLeads] = useState<Lead[]>([])
+  const [codLead, setCodLead] = useState("")
+  const [tipo, setTipo] = useState("REUNIAO")
+  const [arquivo, setArquivo] = useState<File | null>(null)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (isOpen) {
+      setCodLead("")
+      setTipo("REUNIAO")
+      setArquivo(null)
+      loadLeads()
+    }
+  }, [isOpen])
+
+  const loadLeads = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/leads')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Erro ao carregar leads')
+      setLeads((data as Lead[]).sort((a, b) => (a.NOME || '').localeCompare(b.NOME || '')))
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleImportar = async () => {
+    if (!arquivo || !codLead) return
+
+    setIsSaving(true)
+    try {
+      const formData = new FormData()
+      formData.append('arquivo', arquivo)
+      formData.append('codLead', codLead)
+      formData.append('tipo', tipo)
+
+      const response = await fetch('/api/leads/atividades/importar-ics', { method: 'POST', body: formData })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Erro ao importar arquivo')
+
+      toast({
+        title: "Importação concluída",
+        description: `${data.criadas} atividade(s) criada(s)${data.recorrentes ? `, ${data.recorrentes} recorrente(s)` : ''}${data.ignoradas ? `; ${data.ignoradas} evento(s) sem título ignorado(s)` : ''}`,
+      })
+
+      onImportado()
+      onClose()
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Importar .ics</DialogTitle>
+          <DialogDescription>
+            Os eventos do arquivo viram atividades do lead escolhido; repetições compatíveis viram séries recorrentes
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Lead *</Label>
+            <Select value={codLead} onValueChange={setCodLead} disabled={isLoading || isSaving}>
+              <SelectTrigger>
+                <SelectValue placeholder={isLoading ? "Carregando..." : "Selecione o lead"} />
+              </SelectTrigger>
+              <SelectContent>
+                {leads.map(lead => (
+                  <SelectItem key={lead.CODLEAD} value={String(lead.CODLEAD)}>
+                    #{lead.CODLEAD} {lead.NOME}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label>Tipo das atividades</Label>
+            <Select value={tipo} onValueChange={setTipo} disabled={isSaving}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="REUNIAO">Reunião</SelectItem>
+                <SelectItem value="VISITA">Visita</SelectItem>
+                <SelectItem value="LIGACAO">Ligação</SelectItem>
+                <SelectItem value="EMAIL">E-mail</SelectItem>
+                <SelectItem value="TAREFA">Tarefa</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label>Arquivo *</Label>
+            <Input
+              type="file"
+              accept=".ics,text/calendar"
+              onChange={(e) => setArquivo(e.target.files?.[0] || null)}
+              disabled={isSaving}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <Button variant="outline" onClick={onClose} disabled={isSaving}>
+              Cancelar
+            </Button>
+            <Button onClick={handleImportar} disabled={isSaving || !arquivo || !codLead}>
+              {isSaving ? "Importando..." : "Importar"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,387 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Upload, Download, FileSpreadsheet } from "lucide-react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Progress } from "@/components/ui/progress"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import type { Funil } from "@/lib/funis-service"
+import {
+  CAMPOS_IMPORTACAO,
+  TAMANHO_LOTE_IMPORTACAO,
+  type CampoImportacao,
+  type LinhaImportacao,
+  type MapeamentoImportacao,
+} from "@/lib/importacao-leads"
+import type { ResultadoLinhaImportacao } from "@/lib/importacao-leads-service"
+
+interface ImportarLeadsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  funis: Funil[]
+  funilAtual: Funil | null
+  // Chamado após a importação para o kanban recarregar os leads
+  onImportado: () => void
+}
+
+type Etapa = 'arquivo' | 'revisao' | 'importando' | 'concluido'
+
+const NAO_IMPORTAR = "-"
+
+const STATUS_LINHA: Record<string, { rotulo: string; classe: string }> = {
+  VALIDO: { rotulo: "Válido", classe: "bg-green-100 text-green-700" },
+  CRIADO: { rotulo: "Criado", classe: "bg-green-100 text-green-700" },
+  DUPLICADO: { rotulo: "Duplicado", classe: "bg-yellow-100 text-yellow-700" },
+  ERRO: { rotulo: "Erro", classe: "bg-red-100 text-red-700" },
+}
+
+// Linhas exibidas na prévia; o relatório de erros sempre traz todas
+const LIMITE_PREVIA = 100
+
+// Assistente de importação de leads: arquivo -> mapeamento e simulação -> gravação em lotes
+export default function ImportarLeadsModal({ isOpen, onClose, funis, funilAtual, onImportado }: ImportarLeadsModalProps) {
+  const [etapa, setEtapa] = useState<Etapa>('arquivo')
+  const [arquivo, setArquivo] = useState<File | null>(null)
+  const [codFunil, setCodFunil] = useState("")
+  const [cabecalho, setCabecalho] = useState<string[]>([])
+  const [mapeamento, setMapeamento] = useState<MapeamentoImportacao>({})
+  const [linhas, setLinhas] = useState<LinhaImportacao[]>([])
+  const [resultados, setResultados] = useState<ResultadoLinhaImportacao[]>([])
+  const [progresso, setProgresso] = useState(0)
+  const [isAnalisando, setIsAnalisando] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (isOpen) {
+      setEtapa('arquivo')
+      setArquivo(null)
+      setCodFunil(funilAtual?.CODFUNIL ? String(funilAtual.CODFUNIL) : "")
+      setCabecalho([])
+      setMapeamento({})
+      setLinhas([])
+      setResultados([])
+      setProgresso(0)
+    }
+  }, [isOpen])
+
+  const validos = linhas.filter(l => l.status === 'VALIDO')
+  const duplicados = linhas.filter(l => l.status === 'DUPLICADO').length
+  const comErro = linhas.filter(l => l.status === 'ERRO').length
+
+  // Simulação no servidor: sem mapeamento, o servidor sugere um pelo nome das colunas
+  const analisar = async (mapeamentoAtual?: MapeamentoImportacao) => {
+    if (!arquivo) return
+
+    setIsAnalisando(true)
+    try {
+      const formData = new FormData()
+      formData.append('arquivo', arquivo)
+      if (codFunil) formData.append('codFunil', codFunil)
+      if (mapeamentoAtual) formData.append('mapeamento', JSON.stringify(mapeamentoAtual))
+
+      const response = await fetch('/api/leads/importar', { method: 'POST', body: formData })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Erro ao analisar planilha')
+
+      setCabecalho(data.cabecalho)
+      setMapeamento(data.mapeamento)
+      setLinhas(data.linhas)
+      setEtapa('revisao')
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsAnalisando(false)
+    }
+  }
+
+  const alterarMapeamento = (campo: CampoImportacao, coluna: string) => {
+    const novo = { ...mapeamento }
+    if (coluna === NAO_IMPORTAR) {
+      delete novo[campo]
+    } else {
+      novo[campo] = Number(coluna)
+    }
+    setMapeamento(novo)
+  }
+
+  // Envia apenas as linhas válidas, em lotes; o servidor valida cada lote de novo antes de gravar
+  const importar = async () => {
+    setEtapa('importando')
+    setProgresso(0)
+
+    const acumulados: ResultadoLinhaImportacao[] = linhas
+      .filter(l => l.status !== 'VALIDO')
+      .map(l => ({ linha: l.linha, status: l.status === 'DUPLICADO' ? 'DUPLICADO' as const : 'ERRO' as const, erros: l.erros }))
+
+    for (let i = 0; i < validos.length; i += TAMANHO_LOTE_IMPORTACAO) {
+      const lote = validos.slice(i, i + TAMANHO_LOTE_IMPORTACAO)
+      try {
+        const response = await fetch('/api/leads/importar/confirmar', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            mapeamento,
+            codFunil: codFunil || null,
+            linhas: lote.map(l => ({ linha: l.linha, valores: l.valores }))
+          })
+        })
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Erro ao importar lote')
+        acumulados.push(...data.resultados)
+      } catch (error: any) {
+        // Lote com falha não interrompe a importação: as linhas vão para o relatório de erros
+        acumulados.push(...lote.map(l => ({ linha: l.linha, status: 'ERRO' as const, erros: [error.message] })))
+      }
+      setProgresso(Math.min(100, Math.round(((i + lote.length) / validos.length) * 100)))
+    }
+
+    const ordenados = acumulados.sort((a, b) => a.linha - b.linha)
+    setResultados(ordenados)
+    setEtapa('concluido')
+
+    const criados = ordenados.filter(r => r.status === 'CRIADO').length
+    toast({
+      title: "Importação concluída",
+      description: `${criados} lead(s) criado(s)`,
+    })
+    if (criados > 0) onImportado()
+  }
+
+  // Relatório em CSV (";" e BOM para abrir direto no Excel) com as linhas originais e o motivo
+  const baixarRelatorio = () => {
+    const falhas = etapa === 'concluido'
+      ? resultados.filter(r => r.status !== 'CRIADO')
+      : linhas.filter(l => l.status !== 'VALIDO')
+    const valoresPorLinha = new Map(linhas.map(l => [l.linha, l.valores]))
+
+    const escapar = (valor: string) => /[";\n\r]/.test(valor) ? `"${valor.replace(/"/g, '""')}"` : valor
+    const conteudo = [
+      ['Linha', 'Situação', 'Motivo', ...cabecalho],
+      ...falhas.map(f => [
+        String(f.linha),
+        STATUS_LINHA[f.status]?.rotulo || f.status,
+        f.erros.join(' | '),
+        ...(valoresPorLinha.get(f.linha) || [])
+      ])
+    ].map(linha => linha.map(valor => escapar(String(valor ?? ''))).join(';')).join('\r\n')
+
+    const blob = new Blob(['\uFEFF' + conteudo], { type: 'text/csv;charset=utf-8' })
+    const url = window.URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `importacao_leads_erros.csv`
+    document.body.appendChild(a)
+    a.click()
+    window.URL.revokeObjectURL(url)
+    document.body.removeChild(a)
+  }
+
+  const fechar = () => {
+    if (etapa === 'importando') return
+    onClose()
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={fechar}>
+      <DialogContent className="sm:max-w-[860px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar Leads</DialogTitle>
+          <DialogDescription>Crie leads em lote a partir de uma planilha CSV ou XLSX</DialogDescription>
+        </DialogHeader>
+
+        {etapa === 'arquivo' && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Planilha</Label>
+              <Input
+                type="file"
+                accept=".csv,.xlsx"
+                onChange={(e) => setArquivo(e.target.files?.[0] || null)}
+                disabled={isAnalisando}
+              />
+              <p className="text-xs text-muted-foreground">
+                A primeira linha deve conter os nomes das colunas. Máximo de 5MB.
+              </p>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Funil padrão</Label>
+              <Select value={codFunil} onValueChange={setCodFunil} disabled={isAnalisando}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  {funis.map((f) => (
+                    <SelectItem key={f.CODFUNIL} value={String(f.CODFUNIL)}>{f.NOME}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                Usado nas linhas sem a coluna de funil preenchida.
+              </p>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={fechar} disabled={isAnalisando}>
+                Cancelar
+              </Button>
+              <Button onClick={() => analisar()} disabled={!arquivo || isAnalisando}>
+                <FileSpreadsheet className="w-4 h-4 mr-2" />
+                {isAnalisando ? "Analisando..." : "Analisar planilha"}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {etapa === 'revisao' && (
+          <div className="space-y-4">
+            <div>
+              <h3 className="text-sm font-semibold mb-2">Colunas da planilha</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                {CAMPOS_IMPORTACAO.map(({ campo, rotulo, obrigatorio }) => (
+                  <div key={campo} className="space-y-1">
+                    <Label className="text-xs">{rotulo}{obrigatorio ? ' *' : ''}</Label>
+                    <Select
+                      value={mapeamento[campo] !== undefined ? String(mapeamento[campo]) : NAO_IMPORTAR}
+                      onValueChange={(coluna) => alterarMapeamento(campo, coluna)}
+                      disabled={isAnalisando}
+                    >
+                      <SelectTrigger className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NAO_IMPORTAR}>Não importar</SelectItem>
+                        {cabecalho.map((coluna, i) => (
+                          <SelectItem key={i} value={String(i)}>{coluna || `Coluna ${i + 1}`}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end mt-3">
+                <Button variant="outline" size="sm" onClick={() => analisar(mapeamento)} disabled={isAnalisando}>
+                  {isAnalisando ? "Validando..." : "Validar novamente"}
+                </Button>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Prontos para importar</p>
+                <p className="text-xl font-bold text-green-600">{validos.length}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Duplicados (ignorados)</p>
+                <p className="text-xl font-bold text-yellow-600">{duplicados}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Com erro</p>
+                <p className="text-xl font-bold text-red-600">{comErro}</p>
+              </div>
+            </div>
+
+            <div className="rounded-lg border overflow-x-auto max-h-[300px]">
+              <table className="w-full text-sm">
+                <thead className="bg-muted/50 border-b sticky top-0">
+                  <tr>
+                    <th className="px-3 py-2 text-left font-medium text-muted-foreground">Linha</th>
+                    <th className="px-3 py-2 text-left font-medium text-muted-foreground">Título</th>
+                    <th className="px-3 py-2 text-left font-medium text-muted-foreground">Situação</th>
+                    <th className="px-3 py-2 text-left font-medium text-muted-foreground">Observação</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {linhas.slice(0, LIMITE_PREVIA).map((l) => (
+                    <tr key={l.linha} className="border-b last:border-0">
+                      <td className="px-3 py-2 text-muted-foreground">{l.linha}</td>
+                      <td className="px-3 py-2">{l.lead?.NOME || (mapeamento.NOME !== undefined ? l.valores[mapeamento.NOME] : '') || '-'}</td>
+                      <td className="px-3 py-2">
+                        <span className={`text-xs px-2 py-0.5 rounded-md font-medium ${STATUS_LINHA[l.status].classe}`}>
+                          {STATUS_LINHA[l.status].rotulo}
+                        </span>
+                      </td>
+                      <td className="px-3 py-2 text-xs text-muted-foreground">{l.erros.join('; ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            {linhas.length > LIMITE_PREVIA && (
+              <p className="text-xs text-muted-foreground">
+                Exibindo as primeiras {LIMITE_PREVIA} de {linhas.length} linhas.
+              </p>
+            )}
+
+            <div className="flex flex-col-reverse sm:flex-row sm:justify-between gap-2 pt-2">
+              <Button variant="outline" onClick={baixarRelatorio} disabled={duplicados + comErro === 0}>
+                <Download className="w-4 h-4 mr-2" />
+                Relatório de erros
+              </Button>
+              <div className="flex gap-2 justify-end">
+                <Button variant="outline" onClick={() => setEtapa('arquivo')} disabled={isAnalisando}>
+                  Voltar
+                </Button>
+                <Button onClick={importar} disabled={isAnalisando || validos.length === 0}>
+                  <Upload className="w-4 h-4 mr-2" />
+                  Importar {validos.length} lead(s)
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {etapa === 'importando' && (
+          <div className="space-y-4 py-6">
+            <p className="text-sm text-center text-muted-foreground">Importando leads... não feche esta janela.</p>
+            <Progress value={progresso} />
+            <p className="text-sm text-center font-medium">{progresso}%</p>
+          </div>
+        )}
+
+        {etapa === 'concluido' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Criados</p>
+                <p className="text-xl font-bold text-green-600">{resultados.filter(r => r.status === 'CRIADO').length}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Duplicados</p>
+                <p className="text-xl font-bold text-yellow-600">{resultados.filter(r => r.status === 'DUPLICADO').length}</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">Com erro</p>
+                <p className="text-xl font-bold text-red-600">{resultados.filter(r => r.status === 'ERRO').length}</p>
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              {resultados.some(r => r.status !== 'CRIADO') && (
+                <Button variant="outline" onClick={baixarRelatorio}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Relatório de erros
+                </Button>
+              )}
+              <Button onClick={fechar}>Fechar</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -20,6 +20,7 @@ import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog"
 import { Card, CardContent } from "@/components/ui/card"
 import { ProdutoSelectorModal } from "@/components/produto-selector-modal"
+import { ROTULOS_DUPLICIDADE, type LeadDuplicado } from "@/lib/duplicidade"
 
 interface LeadCreateModalProps {
   isOpen: boolean
@@ -257,12 +258,28 @@ export function LeadCreateModal({ isOpen, onClose, onSave, funilSelecionado }: L
 
       console.log('🚀 Enviando requisição para salvar lead...')
 
-      const response = await fetch('/api/leads/salvar', {
+      const enviar = (confirmarDuplicidade: boolean) => fetch('/api/leads/salvar', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(dataToSave)
+        body: JSON.stringify({ ...dataToSave, confirmarDuplicidade })
       })
 
+      let response = await enviar(false)
+
+      // Negócio em andamento do mesmo parceiro ou com título semelhante no funil: confirmar antes de criar
+      if (response.status === 409) {
+        const aviso = await response.json()
+        if (aviso.codigo !== 'LEAD_DUPLICADO') throw new Error(aviso.error)
+
+        const lista = aviso.duplicados
+          .map((d: LeadDuplicado & { NOMEUSUARIO: string }) =>
+            `- #${d.CODLEAD} ${d.NOME}${d.NOMEUSUARIO ? ` (${d.NOMEUSUARIO})` : ''}: ${ROTULOS_DUPLICIDADE[d.motivo]}`)
+          .join('\n')
+        if (!confirm(`Possível negócio duplicado neste funil:\n${lista}\n\nDeseja criar mesmo assim?`)) return
+
+        response = await enviar(true)
+      }
+
       if (!response.ok) {
         const errorData = await response.json()
         throw new Error(errorData.error || 'Falha ao criar negócio')
@@ -0,0 +1,96 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import type { RegistroAuditoria } from "@/lib/auditoria-service"
+import AuditoriaAlteracoes, { ROTULOS_ENTIDADES, getAcaoBadge } from "./auditoria-alteracoes"
+
+interface LeadHistoricoProps {
+  codLead: string
+}
+
+// Histórico de alterações do lead vindo da trilha de auditoria
+export default function LeadHistorico({ codLead }: LeadHistoricoProps) {
+  const [registros, setRegistros] = useState<RegistroAuditoria[]>([])
+  const [pagina, setPagina] = useState(0)
+  const [temMais, setTemMais] = useState(false)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState("")
+
+  const carregar = async (novaPagina: number) => {
+    setIsLoading(true)
+    setError("")
+    try {
+      const response = await fetch(`/api/leads/historico?codLead=${encodeURIComponent(codLead)}&pagina=${novaPagina}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Erro ao carregar histórico')
+
+      setRegistros(prev => novaPagina === 0 ? data.registros : [...prev, ...data.registros])
+      setTemMais(data.temMais)
+      setPagina(novaPagina)
+    } catch (err: any) {
+      setError(err.message || 'Erro ao carregar histórico')
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    carregar(0)
+  }, [codLead])
+
+  if (isLoading && registros.length === 0) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive text-center py-4">{error}</p>
+  }
+
+  if (registros.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-sm font-medium text-foreground">Nenhuma alteração registrada</p>
+        <p className="text-xs text-muted-foreground mt-1">
+          As alterações feitas neste negócio aparecerão aqui.
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {registros.map((registro) => (
+        <div key={registro.CODAUDITORIA} className="border-l-2 border-primary/40 pl-3 py-1 space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            {getAcaoBadge(registro.ACAO)}
+            <span className="text-xs font-medium text-foreground">
+              {ROTULOS_ENTIDADES[registro.ENTIDADE] || registro.ENTIDADE}
+              {registro.ENTIDADE !== 'LEAD' && ` #${registro.CHAVE}`}
+            </span>
+          </div>
+          <p className="text-[11px] text-muted-foreground">
+            {registro.DTREGISTRO} · {registro.NOMEUSUARIO}
+          </p>
+          <AuditoriaAlteracoes alteracoes={registro.ALTERACOES} />
+        </div>
+      ))}
+
+      {temMais && (
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => carregar(pagina + 1)}
+          disabled={isLoading}
+        >
+          {isLoading ? "Carregando..." : "Carregar mais"}
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,98 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Badge } from "@/components/ui/badge"
+import type { EtapaLinhaDoTempo } from "@/lib/historico-estagios-service"
+
+interface LeadLinhaDoTempoProps {
+  codLead: string
+  // Muda quando o lead troca de estágio, para recarregar a linha do tempo
+  codEstagio?: string
+}
+
+export function formatarDuracao(ms: number): string {
+  const minutos = Math.floor(ms / 60000)
+  if (minutos < 60) return `${minutos} min`
+
+  const horas = Math.floor(minutos / 60)
+  if (horas < 24) return `${horas}h ${minutos % 60}min`
+
+  const dias = Math.floor(horas / 24)
+  return `${dias}d ${horas % 24}h`
+}
+
+// Estágios por onde o lead passou, com o tempo em cada um
+export default function LeadLinhaDoTempo({ codLead, codEstagio }: LeadLinhaDoTempoProps) {
+  const [etapas, setEtapas] = useState<EtapaLinhaDoTempo[]>([])
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState("")
+
+  useEffect(() => {
+    const carregar = async () => {
+      setIsLoading(true)
+      setError("")
+      try {
+        const response = await fetch(`/api/leads/historico-estagios?codLead=${encodeURIComponent(codLead)}`)
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Erro ao carregar estágios')
+        setEtapas(data)
+      } catch (err: any) {
+        setError(err.message || 'Erro ao carregar estágios')
+      } finally {
+        setIsLoading(false)
+      }
+    }
+
+    carregar()
+  }, [codLead, codEstagio])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+      </div>
+    )
+  }
+
+  if (error) {
+    return <p className="text-sm text-destructive text-center py-4">{error}</p>
+  }
+
+  if (etapas.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-sm font-medium text-foreground">Nenhuma mudança de estágio registrada</p>
+        <p className="text-xs text-muted-foreground mt-1">
+          As movimentações deste negócio no funil aparecerão aqui.
+        </p>
+      </div>
+    )
+  }
+
+  // Mais recente primeiro
+  return (
+    <div className="space-y-3">
+      {[...etapas].reverse().map((etapa) => (
+        <div
+          key={etapa.CODHIST}
+          className={`border-l-2 pl-3 py-1 space-y-1 ${etapa.ATUAL ? 'border-primary' : 'border-primary/40'}`}
+        >
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs font-medium text-foreground">
+              {etapa.NOME_ORIGEM ? `${etapa.NOME_ORIGEM} → ${etapa.NOME_DESTINO}` : `Criado em ${etapa.NOME_DESTINO}`}
+            </span>
+            {etapa.RETROCESSO && <Badge variant="outline" className="text-[10px] text-amber-600 border-amber-300">Retrocesso</Badge>}
+            {etapa.ATUAL && <Badge variant="secondary" className="text-[10px]">Atual</Badge>}
+          </div>
+          <p className="text-[11px] text-muted-foreground">
+            {etapa.DATA_MUDANCA} · {etapa.NOMEUSUARIO}
+          </p>
+          <p className="text-xs text-foreground">
+            {etapa.ATUAL ? 'Neste estágio há ' : 'Permaneceu '}
+            <span className="font-medium">{formatarDuracao(etapa.DURACAO_MS)}</span>
+          </p>
+        </div>
+      ))}
+    </div>
+  )
+}
@@ -33,6 +33,7 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useIsMobile } from "@/hooks/use-mobile"
 import { atualizarStatusLead } from "@/lib/lead-atividades-service"
+import { authService } from "@/lib/auth-service"
 import PedidoVendaFromLead from "@/components/pedido-venda-from-lead"
 import { useLeadContext, formatLeadContextForAI } from "@/hooks/use-lead-context"
 import {
@@ -43,6 +44,12 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
 import { ProdutoSelectorModal } from "@/components/produto-selector-modal"
+import LeadHistorico from "@/components/lead-historico"
+import LeadLinhaDoTempo from "@/components/lead-linha-do-tempo"
+import { probabilidadeDoEstagio } from "@/lib/probabilidade-estagio"
+import type { MotivoLead } from "@/lib/motivos-service"
+import { podeReatribuirLeads, podeMesclarLeads } from "@/lib/permissoes"
+import MesclarLeadsModal from "@/components/mesclar-leads-modal"
 
 // Placeholder for the EstoqueModal component.
 // This component needs to be defined elsewhere or imported.
@@ -446,11 +453,18 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
   const [novoTitulo, setNovoTitulo] = useState("")
   const [showPerdidoModal, setShowPerdidoModal] = useState(false)
   const [motivoPerda, setMotivoPerda] = useState("")
+  const [codMotivoPerda, setCodMotivoPerda] = useState("")
+  const [motivosPerdaCatalogo, setMotivosPerdaCatalogo] = useState<MotivoLead[]>([])
+  const [isLoadingMotivos, setIsLoadingMotivos] = useState(false)
+  const [mostrarDialogoReabrir, setMostrarDialogoReabrir] = useState(false)
+  const [responsaveis, setResponsaveis] = useState<{ id: number; name: string; status: string }[]>([])
+  const [novoResponsavel, setNovoResponsavel] = useState("")
   const [showPedidoVendaModal, setShowPedidoVendaModal] = useState(false)
   const [dadosPedidoVenda, setDadosPedidoVenda] = useState<any>(null)
   const [isConfirmingPerdido, setIsConfirmingPerdido] = useState(false)
   const [mostrarDialogoStatus, setMostrarDialogoStatus] = useState(false)
   const [mostrarDialogoPerda, setMostrarDialogoPerda] = useState(false)
+  const [mostrarMesclar, setMostrarMesclar] = useState(false)
   const [mostrarConfirmacaoExclusao, setMostrarConfirmacaoExclusao] = useState(false)
   const [mostrarPedidoVenda, setMostrarPedidoVenda] = useState(false) // Adicionado para controlar a visibilidade do modal de pedido de venda
   const [showConfirmacaoGanho, setShowConfirmacaoGanho] = useState(false) // Estado para confirmação de ganho
@@ -459,6 +473,8 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
   const [showProdutoModal, setShowProdutoModal] = useState(false); // Estado para controlar a visibilidade do modal de produto
 
   const isLeadPerdido = lead?.STATUS_LEAD === 'PERDIDO' || lead?.STATUS_LEAD === 'GANHO' // Define a condição para desabilitar botões
+  // Probabilidade que vale quando o campo do lead fica vazio
+  const probabilidadeEstagioAtual = probabilidadeDoEstagio(estagios.find(e => e.CODESTAGIO === formData.CODESTAGIO), estagios)
 
   // Hook para coletar contexto completo do lead para IA
   const { context: leadContext, isLoading: isLoadingContext } = useLeadContext(
@@ -501,6 +517,7 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
           COR_TAG: lead.COR_TAG || "#3b82f6",
           CODPARC: lead.CODPARC || undefined,
           CODFUNIL: lead.CODFUNIL || undefined,
+          PROBABILIDADE: lead.PROBABILIDADE ?? null,
         })
 
         // Se existe CODPARC, carregar parceiros e buscar o nome
@@ -536,6 +553,7 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
           COR_TAG: "#3b82f6",
           CODPARC: undefined,
           CODFUNIL: undefined,
+          PROBABILIDADE: null,
         })
         setAtividades([])
         setEventos([])
@@ -951,16 +969,9 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
       // Obter vendedor do usuário logado
       let codVendUsuario = "0"
       try {
-        const userStr = document.cookie
-          .split('; ')
-          .find(row => row.startsWith('user='))
-          ?.split('=')[1]
-
-        if (userStr) {
-          const user = JSON.parse(decodeURIComponent(userStr))
-          if (user.codVendedor) {
-            codVendUsuario = String(user.codVendedor)
-          }
+        const user = await authService.getSessionUser()
+        if (user?.codVendedor) {
+          codVendUsuario = String(user.codVendedor)
         }
       } catch (error) {
         console.error('Erro ao carregar vendedor do usuário:', error)
@@ -1030,11 +1041,37 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
     }
   }
 
+  // Carrega o catálogo de motivos de perda do funil ao abrir o diálogo de perda
+  useEffect(() => {
+    if (!mostrarDialogoPerda || !lead?.CODFUNIL) return
+
+    setIsLoadingMotivos(true)
+    fetch(`/api/funis/motivos?codFunil=${lead.CODFUNIL}&tipo=PERDA`)
+      .then(async (response) => {
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Erro ao carregar motivos de perda')
+        setMotivosPerdaCatalogo(data)
+      })
+      .catch((error: any) => {
+        console.error('❌ Erro ao carregar motivos de perda:', error)
+        setMotivosPerdaCatalogo([])
+      })
+      .finally(() => setIsLoadingMotivos(false))
+  }, [mostrarDialogoPerda, lead?.CODFUNIL])
+
+  const fecharDialogoPerda = () => {
+    setMostrarDialogoPerda(false)
+    setMotivoPerda("")
+    setCodMotivoPerda("")
+  }
+
   const confirmarPerdido = async () => {
-    if (!lead || !motivoPerda.trim()) {
+    // Com catálogo cadastrado o motivo é obrigatório e o texto vira comentário opcional
+    const usaCatalogo = motivosPerdaCatalogo.length > 0
+    if (!lead || (usaCatalogo ? !codMotivoPerda : !motivoPerda.trim())) {
       toast({
         title: "Atenção",
-        description: "Informe o motivo da perda",
+        description: usaCatalogo ? "Selecione o motivo da perda" : "Informe o motivo da perda",
         variant: "destructive",
       })
       return
@@ -1052,7 +1089,8 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
         body: JSON.stringify({
           codLead: lead.CODLEAD,
           status: 'PERDIDO',
-          motivoPerda: motivoPerda
+          motivoPerda: motivoPerda.trim(),
+          codMotivo: usaCatalogo ? codMotivoPerda : undefined
         })
       })
 
@@ -1069,8 +1107,7 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
       })
 
       // Fechar modal de perda
-      setMostrarDialogoPerda(false)
-      setMotivoPerda("")
+      fecharDialogoPerda()
 
       // Recarregar dados do kanban
       await onSave()
@@ -1132,7 +1169,8 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
         CODFUNIL: formData.CODFUNIL || funilSelecionado?.CODFUNIL,
         DATA_VENCIMENTO: formData.DATA_VENCIMENTO,
         TIPO_TAG: formData.TIPO_TAG,
-        COR_TAG: formData.COR_TAG
+        COR_TAG: formData.COR_TAG,
+        PROBABILIDADE: formData.PROBABILIDADE ?? null
       }
 
       // Incluir CODLEAD se for atualização
@@ -1174,10 +1212,18 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
       const resultado = await response.json()
       console.log('✅ Lead salvo com sucesso:', resultado)
 
-      toast({
-        title: "Sucesso",
-        description: lead ? "Lead atualizado com sucesso!" : "Lead criado com sucesso!",
-      })
+      // Troca para estágio com aprovação: o restante foi salvo e o estágio aguarda o gerente
+      if (resultado.aprovacaoPendente) {
+        toast({
+          title: "Aguardando aprovação",
+          description: resultado.aprovacaoPendente.mensagem,
+        })
+      } else {
+        toast({
+          title: "Sucesso",
+          description: lead ? "Lead atualizado com sucesso!" : "Lead criado com sucesso!",
+        })
+      }
 
       await onSave()
       onClose()
@@ -1216,7 +1262,7 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
     }
   }
 
-  const [activeTab, setActiveTab] = useState<'atividades' | 'valor' | 'dados'>('atividades')
+  const [activeTab, setActiveTab] = useState<'atividades' | 'valor' | 'dados' | 'historico'>('atividades')
 
   if (!isOpen) return null
 
@@ -1237,54 +1283,70 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
   const currentUser = lead ? { name: 'Usuário Atual' } : null
 
   // Função para reativar o lead
-  const handleReativarLead = async () => {
+  // Gestores podem trocar o responsável ao reabrir um lead ganho/perdido
+  const podeTrocarResponsavel = podeReatribuirLeads(authService.getCurrentUser()?.role || 'Usuário')
+  const podeMesclar = podeMesclarLeads(authService.getCurrentUser()?.role || 'Usuário')
+
+  const abrirDialogoReabrir = async () => {
+    if (!lead) return
+    setNovoResponsavel(lead.CODUSUARIO ? String(lead.CODUSUARIO) : "")
+    setMostrarDialogoReabrir(true)
+
+    if (podeTrocarResponsavel && responsaveis.length === 0) {
+      try {
+        const response = await fetch('/api/leads/responsaveis')
+        const data = await response.json()
+        if (!response.ok) throw new Error(data.error || 'Erro ao carregar responsáveis')
+        setResponsaveis(data)
+      } catch (error: any) {
+        console.error('❌ Erro ao carregar responsáveis:', error)
+      }
+    }
+  }
+
+  const handleReabrirLead = async () => {
     if (!lead) return
 
     setIsSaving(true)
-    setLoadingMessage("Reativando lead...")
+    setLoadingMessage("Reabrindo lead...")
 
     try {
-      console.log('🔄 Reativando lead - CODLEAD:', lead.CODLEAD)
+      console.log('🔄 Reabrindo lead - CODLEAD:', lead.CODLEAD)
 
-      // Usar a rota de status existente
-      const response = await fetch('/api/leads/status', {
+      const response = await fetch('/api/leads/reabrir', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           codLead: lead.CODLEAD,
-          status: 'EM_ANDAMENTO'
+          codUsuario: podeTrocarResponsavel && novoResponsavel ? Number(novoResponsavel) : undefined
         })
       })
 
       if (!response.ok) {
         const errorData = await response.json()
-        throw new Error(errorData.error || 'Erro ao reativar lead')
+        throw new Error(errorData.error || 'Erro ao reabrir lead')
       }
 
-      console.log('✅ Lead reativado com sucesso')
+      console.log('✅ Lead reaberto com sucesso')
 
       toast({
         title: "Sucesso",
-        description: "Lead reativado para Em Andamento",
+        description: "Lead reaberto e de volta Em Andamento",
       })
 
-      // Aguardar para garantir que o backend processou
-      await new Promise(resolve => setTimeout(resolve, 500))
+      setMostrarDialogoReabrir(false)
 
       // Recarregar dados
       await onSave()
 
-      // Aguardar renderização
-      await new Promise(resolve => setTimeout(resolve, 300))
-
       // Fechar modal para forçar reabertura com dados atualizados
       onClose()
 
     } catch (error: any) {
-      console.error('❌ Erro ao reativar lead:', error)
+      console.error('❌ Erro ao reabrir lead:', error)
       toast({
         title: "Erro",
-        description: error.message || 'Erro ao reativar lead',
+        description: error.message || 'Erro ao reabrir lead',
         variant: "destructive",
       })
     } finally {
@@ -1419,6 +1481,7 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
 
     // Limpa outros estados
     setMotivoPerda("")
+    setCodMotivoPerda("")
     setDadosPedidoVenda(null)
     setPartnerSearch("")
     setAtividades([])
@@ -1615,16 +1678,29 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
           {/* Container: Opções do Cabeçalho - Estilo Pills (Desktop apenas) */}
           {lead && (
             <div className="hidden md:flex items-center gap-2 flex-wrap mt-3 md:mt-0">
-              {/* Botão ATIVAR - apenas para leads perdidos, não para GANHO */}
-              {lead.STATUS_LEAD === 'PERDIDO' && (
+              {/* Mesclar duplicados (gestores): atividades e produtos vêm para este lead */}
+              {podeMesclar && (
                 <button
-                  onClick={handleReativarLead}
+                  onClick={() => setMostrarMesclar(true)}
+                  className="flex items-center gap-1 md:gap-1.5 px-2 md:px-3 py-1 md:py-1.5 rounded-md transition-all duration-200 bg-white border border-purple-200 text-purple-700 hover:bg-purple-500 hover:text-white hover:border-purple-500"
+                >
+                  <svg className="w-3 h-3 md:w-4 md:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7v8a2 2 0 002 2h6M8 7V5a2 2 0 012-2h4.586a1 1 0 01.707.293l4.414 4.414a1 1 0 01.293.707V15a2 2 0 01-2 2h-2M8 7H6a2 2 0 00-2 2v10a2 2 0 002 2h8a2 2 0 002-2v-2" />
+                  </svg>
+                  <span className="text-xs md:text-sm font-medium">Mesclar</span>
+                </button>
+              )}
+
+              {/* Botão REABRIR - leads ganhos ou perdidos voltam para Em Andamento */}
+              {(lead.STATUS_LEAD === 'PERDIDO' || lead.STATUS_LEAD === 'GANHO') && (
+                <button
+                  onClick={abrirDialogoReabrir}
                   className="flex items-center gap-1 md:gap-1.5 px-2 md:px-3 py-1 md:py-1.5 rounded-md transition-all duration-200 bg-blue-500 border-blue-500 text-white hover:bg-blue-600 hover:border-blue-600"
                 >
                   <svg className="w-3 h-3 md:w-4 md:h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
                   </svg>
-                 <span className="text-xs md:text-sm font-medium">ATIVAR</span>
+                 <span className="text-xs md:text-sm font-medium">REABRIR</span>
                 </button>
               )}
 
@@ -1701,10 +1777,11 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
             {lead && (
               <div className="md:hidden">
                 <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as any)} className="w-full">
-                  <TabsList className="grid w-full grid-cols-3 mb-4">
+                  <TabsList className="grid w-full grid-cols-4 mb-4">
                     <TabsTrigger value="atividades" className="text-xs">Atividades</TabsTrigger>
                     <TabsTrigger value="valor" className="text-xs">Valor</TabsTrigger>
                     <TabsTrigger value="dados" className="text-xs">Dados</TabsTrigger>
+                    <TabsTrigger value="historico" className="text-xs">Histórico</TabsTrigger>
                   </TabsList>
 
                   <TabsContent value="atividades" className="space-y-4">
@@ -1971,6 +2048,21 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
                           />
                         </div>
 
+                        <div className="space-y-2">
+                          <Label htmlFor="PROBABILIDADE_MOBILE" className="text-xs">Probabilidade de ganho (%)</Label>
+                          <Input
+                            id="PROBABILIDADE_MOBILE"
+                            type="number"
+                            min={0}
+                            max={100}
+                            value={formData.PROBABILIDADE ?? ""}
+                            onChange={(e) => setFormData({ ...formData, PROBABILIDADE: e.target.value === "" ? null : Number(e.target.value) })}
+                            placeholder={`Do estágio: ${probabilidadeEstagioAtual}%`}
+                            disabled={isLeadPerdido}
+                            className="h-8 text-sm"
+                          />
+                        </div>
+
                         <div className="space-y-2">
                           <Label htmlFor="DESCRICAO_MOBILE" className="text-xs">Descrição</Label>
                           <Textarea
@@ -2087,6 +2179,20 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
                       </Button>
                     </div>
                   </TabsContent>
+
+                  <TabsContent value="historico" className="space-y-4">
+                    {/* Linha do tempo dos estágios */}
+                    <div className="bg-white rounded-lg shadow-sm border p-3">
+                      <h3 className="text-xs font-semibold text-foreground mb-2">Estágios</h3>
+                      <LeadLinhaDoTempo codLead={lead.CODLEAD} codEstagio={lead.CODESTAGIO} />
+                    </div>
+
+                    {/* Histórico de Alterações */}
+                    <div className="bg-white rounded-lg shadow-sm border p-3">
+                      <h3 className="text-xs font-semibold text-foreground mb-2">Histórico de Alterações</h3>
+                      <LeadHistorico codLead={lead.CODLEAD} />
+                    </div>
+                  </TabsContent>
                 </Tabs>
               </div>
             )}
@@ -2242,40 +2348,57 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
               </div>
             )}
 
-            {/* Container: Histórico de Atividades - Desktop */}
+            {/* Container: Histórico de Atividades, de Alterações e Linha do Tempo - Desktop */}
             {lead && (
               <div className="bg-white rounded-lg shadow-sm border p-4">
-                <h3 className="text-sm font-semibold text-foreground mb-3">Histórico de Atividades</h3>
-                {isLoadingAtividades ? (
-                  <div className="flex items-center justify-center py-8">
-                    <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
-                  </div>
-                ) : atividades.length === 0 ? (
-                  <div className="text-center py-8">
-                    <div className="w-16 h-16 mx-auto mb-3 opacity-50">
-                      <svg viewBox="0 0 200 200" fill="none" xmlns="http://www.w3.org/2000/svg">
-                        <circle cx="100" cy="100" r="80" fill="#E5E7EB"/>
-                        <path d="M60 120L80 140L140 80" stroke="white" strokeWidth="8" strokeLinecap="round"/>
-                      </svg>
-                    </div>
-                    <p className="text-sm font-medium text-foreground">Nenhuma atividade registrada</p>
-                    <p className="text-xs text-muted-foreground mt-1">
-                      Que tal agendar uma ligação para evoluir este negócio?
-                    </p>
-                  </div>
-                ) : (
-                  <div className="space-y-3">
-                    {atividades.map((atividade, index) => (
-                      <AtividadeItem
-                        key={atividade.CODATIVIDADE || index}
-                        atividade={atividade}
-                        codLead={lead!.CODLEAD}
-                        onReload={() => loadAtividades(lead!.CODLEAD)}
-                        isLeadPerdido={isLeadPerdido}
-                      />
-                    ))}
-                  </div>
-                )}
+                <Tabs defaultValue="atividades" className="w-full">
+                  <TabsList className="mb-3">
+                    <TabsTrigger value="atividades" className="text-sm">Histórico de Atividades</TabsTrigger>
+                    <TabsTrigger value="alteracoes" className="text-sm">Histórico de Alterações</TabsTrigger>
+                    <TabsTrigger value="estagios" className="text-sm">Linha do Tempo</TabsTrigger>
+                  </TabsList>
+
+                  <TabsContent value="atividades">
+                    {isLoadingAtividades ? (
+                      <div className="flex items-center justify-center py-8">
+                        <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+                      </div>
+                    ) : atividades.length === 0 ? (
+                      <div className="text-center py-8">
+                        <div className="w-16 h-16 mx-auto mb-3 opacity-50">
+                          <svg viewBox="0 0 200 200" fill="none" xmlns="http://www.w3.org/2000/svg">
+                            <circle cx="100" cy="100" r="80" fill="#E5E7EB"/>
+                            <path d="M60 120L80 140L140 80" stroke="white" strokeWidth="8" strokeLinecap="round"/>
+                          </svg>
+                        </div>
+                        <p className="text-sm font-medium text-foreground">Nenhuma atividade registrada</p>
+                        <p className="text-xs text-muted-foreground mt-1">
+                          Que tal agendar uma ligação para evoluir este negócio?
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="space-y-3">
+                        {atividades.map((atividade, index) => (
+                          <AtividadeItem
+                            key={atividade.CODATIVIDADE || index}
+                            atividade={atividade}
+                            codLead={lead!.CODLEAD}
+                            onReload={() => loadAtividades(lead!.CODLEAD)}
+                            isLeadPerdido={isLeadPerdido}
+                          />
+                        ))}
+                      </div>
+                    )}
+                  </TabsContent>
+
+                  <TabsContent value="alteracoes">
+                    <LeadHistorico codLead={lead.CODLEAD} />
+                  </TabsContent>
+
+                  <TabsContent value="estagios">
+                    <LeadLinhaDoTempo codLead={lead.CODLEAD} codEstagio={lead.CODESTAGIO} />
+                  </TabsContent>
+                </Tabs>
               </div>
             )}
             </div>
@@ -2432,6 +2555,20 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label htmlFor="PROBABILIDADE" className="text-xs">Probabilidade de ganho (%)</Label>
+                  <Input
+                    id="PROBABILIDADE"
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={formData.PROBABILIDADE ?? ""}
+                    onChange={(e) => setFormData({ ...formData, PROBABILIDADE: e.target.value === "" ? null : Number(e.target.value) })}
+                    placeholder={`Do estágio: ${probabilidadeEstagioAtual}%`}
+                    disabled={isLeadPerdido}
+                  />
+                </div>
+
                 <div className="space-y-2">
                   <Label htmlFor="DESCRICAO" className="text-xs">Descrição</Label>
                   <Textarea
@@ -2829,7 +2966,10 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
                       })
                     })
 
-                    if (!response.ok) throw new Error('Erro ao atualizar título')
+                    if (!response.ok) {
+                      const errorData = await response.json().catch(() => ({}))
+                      throw new Error(errorData.error || 'Erro ao atualizar título')
+                    }
 
                     toast({
                       title: "Sucesso",
@@ -2869,29 +3009,49 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
       </Dialog>
 
       {/* Modal de Lead Perdido */}
-      <Dialog open={mostrarDialogoPerda} onOpenChange={setMostrarDialogoPerda}>
+      <Dialog open={mostrarDialogoPerda} onOpenChange={(open) => open ? setMostrarDialogoPerda(true) : fecharDialogoPerda()}>
         <DialogContent className="max-w-md">
           <DialogHeader>
             <DialogTitle>Marcar Lead como Perdido</DialogTitle>
           </DialogHeader>
           <div className="space-y-4">
+            {motivosPerdaCatalogo.length > 0 && (
+              <div className="space-y-2">
+                <Label className="text-sm">Motivo da Perda *</Label>
+                <Select
+                  value={codMotivoPerda}
+                  onValueChange={setCodMotivoPerda}
+                  disabled={isConfirmingPerdido}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Selecione o motivo" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {motivosPerdaCatalogo.map((motivo) => (
+                      <SelectItem key={motivo.CODMOTIVO} value={motivo.CODMOTIVO}>
+                        {motivo.DESCRICAO}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <div className="space-y-2">
-              <Label className="text-sm">Motivo da Perda *</Label>
+              <Label className="text-sm">
+                {motivosPerdaCatalogo.length > 0 ? "Comentário" : "Motivo da Perda *"}
+              </Label>
               <Textarea
                 value={motivoPerda}
                 onChange={(e) => setMotivoPerda(e.target.value)}
-                placeholder="Descreva o motivo da perda..."
+                placeholder={motivosPerdaCatalogo.length > 0 ? "Detalhes adicionais (opcional)..." : "Descreva o motivo da perda..."}
                 rows={4}
-                disabled={isConfirmingPerdido}
+                disabled={isConfirmingPerdido || isLoadingMotivos}
               />
             </div>
             <div className="flex gap-2 justify-end">
               <Button
                 variant="outline"
-                onClick={() => {
-                  setMostrarDialogoPerda(false)
-                  setMotivoPerda("")
-                }}
+                onClick={fecharDialogoPerda}
                 disabled={isConfirmingPerdido}
               >
                 Cancelar
@@ -2899,7 +3059,7 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
               <Button
                 onClick={confirmarPerdido}
                 className="bg-red-600 hover:bg-red-700"
-                disabled={isConfirmingPerdido}
+                disabled={isConfirmingPerdido || isLoadingMotivos}
               >
                 {isConfirmingPerdido ? (
                   <>
@@ -3013,14 +3173,23 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
                       })
                     })
 
+                    const data = await response.json().catch(() => ({}))
                     if (!response.ok) {
-                      throw new Error('Erro ao atualizar estágio')
+                      throw new Error(data.error || 'Erro ao atualizar estágio')
                     }
 
-                    toast({
-                      title: "Sucesso",
-                      description: "Estágio atualizado com sucesso!",
-                    })
+                    if (data.pendenteAprovacao) {
+                      setFormData({ ...formData, CODESTAGIO: lead.CODESTAGIO })
+                      toast({
+                        title: "Aguardando aprovação",
+                        description: data.mensagem,
+                      })
+                    } else {
+                      toast({
+                        title: "Sucesso",
+                        description: "Estágio atualizado com sucesso!",
+                      })
+                    }
 
                     setShowAlterarEstagioModal(false)
                     onSave()
@@ -3089,6 +3258,73 @@ export function LeadModal({ isOpen, onClose, lead, onSave, funilSelecionado, onL
         </DialogContent>
       </Dialog>
 
+      {/* Modal de Reabertura de Lead Ganho/Perdido */}
+      <MesclarLeadsModal
+        isOpen={mostrarMesclar}
+        onClose={() => setMostrarMesclar(false)}
+        lead={lead}
+        onMesclado={async () => {
+          if (!lead) return
+          await Promise.all([loadAtividades(lead.CODLEAD), loadProdutosLead(lead.CODLEAD)])
+          if (onLeadUpdated) onLeadUpdated()
+          await onSave()
+        }}
+      />
+
+      <Dialog open={mostrarDialogoReabrir} onOpenChange={setMostrarDialogoReabrir}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Reabrir Lead</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-600">
+              O lead volta para Em Andamento e a data de conclusão é apagada. O resultado anterior
+              ({lead?.STATUS_LEAD === 'GANHO' ? 'ganho' : 'perdido'}) continua registrado no histórico.
+            </p>
+            {podeTrocarResponsavel && (
+              <div className="space-y-2">
+                <Label className="text-sm">Responsável</Label>
+                <Select value={novoResponsavel} onValueChange={setNovoResponsavel} disabled={isSaving}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Manter responsável atual" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {responsaveis
+                      .filter((r) => r.status === 'ativo' || String(r.id) === String(lead?.CODUSUARIO))
+                      .map((r) => (
+                        <SelectItem key={r.id} value={String(r.id)}>{r.name}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="flex gap-2 justify-end">
+              <Button
+                variant="outline"
+                onClick={() => setMostrarDialogoReabrir(false)}
+                disabled={isSaving}
+              >
+                Cancelar
+              </Button>
+              <Button
+                onClick={handleReabrirLead}
+                className="bg-blue-600 hover:bg-blue-700"
+                disabled={isSaving}
+              >
+                {isSaving ? (
+                  <>
+                    <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin mr-2" />
+                    Processando...
+                  </>
+                ) : (
+                  'Reabrir'
+                )}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
       {/* Modal de Status (Ganho/Perdido) - Botões Separados para Ganho/Perdido */}
       <Dialog open={mostrarDialogoStatus} onOpenChange={setMostrarDialogoStatus}>
         <DialogContent className="max-w-md">
@@ -1,18 +1,37 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { Search, Plus, MoreHorizontal, Calendar, DollarSign, ChevronRight, Settings, User } from "lucide-react"
+import { Search, Plus, MoreHorizontal, Calendar, DollarSign, ChevronRight, Settings, User, ClipboardCheck, TrendingUp, ListX, ArrowRightLeft, Upload, Download } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu"
 import { LeadModal } from "@/components/lead-modal"
 import { LeadCreateModal } from "./lead-create-modal"
 import { FunilModal } from "@/components/funil-modal"
 import { EstagiosModal } from "@/components/estagios-modal"
+import { MotivosModal } from "@/components/motivos-modal"
+import AprovacoesEstagioModal from "@/components/aprovacoes-estagio-modal"
+import ReatribuirLeadsModal from "@/components/reatribuir-leads-modal"
+import ImportarLeadsModal from "@/components/importar-leads-modal"
+import PrevisaoVendas from "@/components/previsao-vendas"
 import { useToast } from "@/hooks/use-toast"
 import { consultarLeads, atualizarEstagioLead, type Lead } from "@/lib/leads-service"
 import type { Funil, EstagioFunil } from "@/lib/funis-service"
 import type { User } from "@/lib/auth-service"
 import { authService } from "@/lib/auth-service"
+import { podeAprovarEstagio, podeReatribuirLeads, podeImportarLeads } from "@/lib/permissoes"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useIsMobile } from "@/hooks/use-mobile"
 
@@ -32,6 +51,10 @@ export default function LeadsKanban() {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false)
   const [isFunilModalOpen, setIsFunilModalOpen] = useState(false)
   const [isEstagiosModalOpen, setIsEstagiosModalOpen] = useState(false)
+  const [isMotivosModalOpen, setIsMotivosModalOpen] = useState(false)
+  const [isAprovacoesModalOpen, setIsAprovacoesModalOpen] = useState(false)
+  const [isReatribuirModalOpen, setIsReatribuirModalOpen] = useState(false)
+  const [isImportarModalOpen, setIsImportarModalOpen] = useState(false)
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null)
   const [selectedFunilForEdit, setSelectedFunilForEdit] = useState<Funil | null>(null)
   const [leads, setLeads] = useState<Lead[]>([])
@@ -42,8 +65,12 @@ export default function LeadsKanban() {
   const [estagios, setEstagios] = useState<EstagioFunil[]>([])
   const [selectedEstagioTab, setSelectedEstagioTab] = useState<string>("")
   const [currentUser, setCurrentUser] = useState<User | null>(null)
-  const [viewMode, setViewMode] = useState<'kanban' | 'lista'>('kanban')
+  const [viewMode, setViewMode] = useState<'kanban' | 'lista' | 'previsao'>('kanban')
   const [statusFilter, setStatusFilter] = useState<'TODOS' | 'EM_ANDAMENTO' | 'GANHO' | 'PERDIDO'>('EM_ANDAMENTO')
+  // Gestores veem leads da equipe (ou de todos) e podem filtrar por responsável
+  const [responsaveis, setResponsaveis] = useState<{ id: number; name: string; status: string }[]>([])
+  const [responsavelFilter, setResponsavelFilter] = useState<string>('TODOS')
+  const [isExportando, setIsExportando] = useState(false)
   const { toast } = useToast()
   const isMobile = useIsMobile()
 
@@ -51,6 +78,9 @@ export default function LeadsKanban() {
     const user = authService.getCurrentUser()
     setCurrentUser(user)
     loadFunis()
+    if (user && podeReatribuirLeads(user.role)) {
+      loadResponsaveis()
+    }
   }, [])
 
   useEffect(() => {
@@ -96,6 +126,24 @@ export default function LeadsKanban() {
     }
   }
 
+  const loadResponsaveis = async () => {
+    try {
+      const response = await fetch('/api/leads/responsaveis')
+      if (!response.ok) throw new Error('Falha ao carregar responsáveis')
+      setResponsaveis(await response.json())
+    } catch (error) {
+      console.error("❌ Erro ao carregar responsáveis:", error)
+    }
+  }
+
+  const matchesResponsavel = (lead: Lead) =>
+    responsavelFilter === 'TODOS' || String(lead.CODUSUARIO) === responsavelFilter
+
+  const nomeResponsavel = (lead: Lead) =>
+    Number(lead.CODUSUARIO) === currentUser?.id
+      ? currentUser.name
+      : responsaveis.find(r => r.id === Number(lead.CODUSUARIO))?.name || 'N/A'
+
   const loadEstagios = async () => {
     if (!selectedFunil) return
     try {
@@ -162,6 +210,49 @@ export default function LeadsKanban() {
     }
   };
 
+  // Exportação gerada no servidor com os mesmos filtros da visão atual
+  const handleExportar = async (formato: 'csv' | 'xlsx' | 'pdf') => {
+    if (!selectedFunil) return
+
+    setIsExportando(true)
+    try {
+      const params = new URLSearchParams({
+        formato,
+        codFunil: String(selectedFunil.CODFUNIL),
+        status: statusFilter
+      })
+      if (responsavelFilter !== 'TODOS') params.set('codUsuario', responsavelFilter)
+      if (searchTerm.trim()) params.set('busca', searchTerm.trim())
+
+      const response = await fetch(`/api/leads/exportar?${params.toString()}`)
+      if (!response.ok) {
+        const erro = await response.json().catch(() => ({}))
+        throw new Error(erro.error || 'Falha ao exportar leads')
+      }
+
+      const nomeArquivo = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1]
+        || `leads.${formato}`
+      const blob = await response.blob()
+      const url = window.URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = nomeArquivo
+      document.body.appendChild(a)
+      a.click()
+      window.URL.revokeObjectURL(url)
+      document.body.removeChild(a)
+    } catch (error: any) {
+      console.error("❌ Erro ao exportar leads:", error)
+      toast({
+        title: "Erro",
+        description: error.message || "Falha ao exportar leads",
+        variant: "destructive",
+      })
+    } finally {
+      setIsExportando(false)
+    }
+  }
+
   const handleCreate = () => {
     setSelectedLead(null)
     setIsCreateModalOpen(true)
@@ -278,7 +369,22 @@ export default function LeadsKanban() {
         body: JSON.stringify({ codLeed: leadOriginal.CODLEAD, novoEstagio: codEstagio })
       })
 
-      if (!response.ok) throw new Error('Falha ao atualizar estágio')
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(data.error || 'Falha ao atualizar estágio')
+
+      // Estágio com aprovação: o lead só muda depois do aval do gerente
+      if (data.pendenteAprovacao) {
+        setLeads(prev => prev.map(l => 
+          l.CODLEAD === leadOriginal.CODLEAD 
+            ? leadOriginal
+            : l
+        ))
+        toast({
+          title: "Aguardando aprovação",
+          description: data.mensagem,
+        })
+        return
+      }
 
       toast({
         title: "Sucesso",
@@ -307,7 +413,7 @@ export default function LeadsKanban() {
       const matchesStatus = statusFilter === 'TODOS' || 
                            (statusFilter === 'EM_ANDAMENTO' && (!lead.STATUS_LEAD || lead.STATUS_LEAD === 'EM_ANDAMENTO')) ||
                            lead.STATUS_LEAD === statusFilter
-      return lead.CODESTAGIO === codEstagio && matchesSearch && matchesFunil && matchesStatus
+      return lead.CODESTAGIO === codEstagio && matchesSearch && matchesFunil && matchesStatus && matchesResponsavel(lead)
     })
   }
 
@@ -464,6 +570,57 @@ export default function LeadsKanban() {
           </div>
         </div>
         <div className="flex items-center gap-2">
+          {currentUser && podeAprovarEstagio(currentUser.role) && (
+            <Button
+              onClick={() => setIsAprovacoesModalOpen(true)}
+              variant="outline"
+              size={isMobile ? "sm" : "default"}
+              className="flex items-center gap-2"
+            >
+              <ClipboardCheck className="w-4 h-4" />
+              {!isMobile && <span>Aprovações</span>}
+            </Button>
+          )}
+          {currentUser && podeReatribuirLeads(currentUser.role) && (
+            <Button
+              onClick={() => setIsReatribuirModalOpen(true)}
+              variant="outline"
+              size={isMobile ? "sm" : "default"}
+              className="flex items-center gap-2"
+            >
+              <ArrowRightLeft className="w-4 h-4" />
+              {!isMobile && <span>Transferir</span>}
+            </Button>
+          )}
+          {currentUser && podeImportarLeads(currentUser.role) && (
+            <Button
+              onClick={() => setIsImportarModalOpen(true)}
+              variant="outline"
+              size={isMobile ? "sm" : "default"}
+              className="flex items-center gap-2"
+            >
+              <Upload className="w-4 h-4" />
+              {!isMobile && <span>Importar</span>}
+            </Button>
+          )}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="outline"
+                size={isMobile ? "sm" : "default"}
+                className="flex items-center gap-2"
+                disabled={isExportando}
+              >
+                <Download className="w-4 h-4" />
+                {!isMobile && <span>{isExportando ? "Exportando..." : "Exportar"}</span>}
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExportar('csv')}>CSV</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExportar('xlsx')}>Excel (XLSX)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExportar('pdf')}>Relatório do pipeline (PDF)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
           {currentUser?.role === "Administrador" && (
             <Button
               onClick={() => {
@@ -478,6 +635,20 @@ export default function LeadsKanban() {
               {!isMobile && <span>Configurar Estágios</span>}
             </Button>
           )}
+          {currentUser?.role === "Administrador" && (
+            <Button
+              onClick={() => {
+                setSelectedFunilForEdit(selectedFunil)
+                setIsMotivosModalOpen(true)
+              }}
+              variant="outline"
+              size={isMobile ? "sm" : "default"}
+              className="flex items-center gap-2"
+            >
+              <ListX className="w-4 h-4" />
+              {!isMobile && <span>Motivos</span>}
+            </Button>
+          )}
           <Button
             onClick={handleCreate}
             size={isMobile ? "sm" : "default"}
@@ -524,10 +695,20 @@ export default function LeadsKanban() {
             </svg>
             Funil
           </Button>
+          <Button
+            variant={viewMode === 'previsao' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setViewMode('previsao')}
+            className="flex items-center gap-2"
+          >
+            <TrendingUp className="w-4 h-4" />
+            Previsão
+          </Button>
         </div>
       </div>
 
       {/* Filtros de Status */}
+      {viewMode !== 'previsao' && (
       <div className="flex flex-col sm:flex-row sm:items-center gap-2">
         <span className="text-sm text-muted-foreground whitespace-nowrap">Filtrar por:</span>
         <div className="flex flex-wrap items-center gap-2">
@@ -573,11 +754,29 @@ export default function LeadsKanban() {
           >
             Todos
           </Button>
+          {responsaveis.length > 1 && (
+            <Select value={responsavelFilter} onValueChange={setResponsavelFilter}>
+              <SelectTrigger className="h-9 w-full sm:w-[200px] text-xs sm:text-sm">
+                <SelectValue placeholder="Responsável" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="TODOS">Todos os vendedores</SelectItem>
+                {responsaveis.map((r) => (
+                  <SelectItem key={r.id} value={String(r.id)}>
+                    {r.name}{r.status !== 'ativo' ? ` (${r.status})` : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </div>
       </div>
+      )}
 
-      {/* Visualização Lista */}
-      {viewMode === 'lista' ? (
+      {/* Previsão de Vendas */}
+      {viewMode === 'previsao' ? (
+        <PrevisaoVendas codFunil={selectedFunil.CODFUNIL} />
+      ) : viewMode === 'lista' ? (
         <div className="bg-card rounded-lg border overflow-hidden">
           <div className="overflow-x-auto">
             <table className="w-full min-w-max">
@@ -599,7 +798,7 @@ export default function LeadsKanban() {
                   const matchesStatus = statusFilter === 'TODOS' || 
                                        (statusFilter === 'EM_ANDAMENTO' && (!lead.STATUS_LEAD || lead.STATUS_LEAD === 'EM_ANDAMENTO')) ||
                                        lead.STATUS_LEAD === statusFilter
-                  return matchesSearch && matchesFunil && matchesStatus
+                  return matchesSearch && matchesFunil && matchesStatus && matchesResponsavel(lead)
                 }).length === 0 ? (
                   <tr>
                     <td colSpan={6} className="px-4 py-12 text-center text-sm text-muted-foreground">
@@ -614,7 +813,7 @@ export default function LeadsKanban() {
                     const matchesStatus = statusFilter === 'TODOS' || 
                                          (statusFilter === 'EM_ANDAMENTO' && (!lead.STATUS_LEAD || lead.STATUS_LEAD === 'EM_ANDAMENTO')) ||
                                          lead.STATUS_LEAD === statusFilter
-                    return matchesSearch && matchesFunil && matchesStatus
+                    return matchesSearch && matchesFunil && matchesStatus && matchesResponsavel(lead)
                   }).map((lead) => {
                     const estagio = estagios.find(e => e.CODESTAGIO === lead.CODESTAGIO)
                     const parceiro = lead.CODPARC || 'N/A'
@@ -639,7 +838,7 @@ export default function LeadsKanban() {
                             <div className="w-6 h-6 rounded-full bg-muted flex items-center justify-center flex-shrink-0">
                               <User className="w-3 h-3" />
                             </div>
-                            <span className="text-sm">{currentUser?.name || 'Você'}</span>
+                            <span className="text-sm">{nomeResponsavel(lead)}</span>
                           </div>
                         </td>
                         <td className="px-4 py-3 whitespace-nowrap">
@@ -687,13 +886,13 @@ export default function LeadsKanban() {
                 const matchesStatus = statusFilter === 'TODOS' || 
                                      (statusFilter === 'EM_ANDAMENTO' && (!lead.STATUS_LEAD || lead.STATUS_LEAD === 'EM_ANDAMENTO')) ||
                                      lead.STATUS_LEAD === statusFilter
-                return matchesSearch && matchesFunil && matchesStatus
+                return matchesSearch && matchesFunil && matchesStatus && matchesResponsavel(lead)
               }).length} de {leads.filter(lead => {
                 const matchesFunil = lead.CODFUNIL === selectedFunil.CODFUNIL
                 const matchesStatus = statusFilter === 'TODOS' || 
                                      (statusFilter === 'EM_ANDAMENTO' && (!lead.STATUS_LEAD || lead.STATUS_LEAD === 'EM_ANDAMENTO')) ||
                                      lead.STATUS_LEAD === statusFilter
-                return matchesFunil && matchesStatus
+                return matchesFunil && matchesStatus && matchesResponsavel(lead)
               }).length} negócio(s)
             </p>
           </div>
@@ -1057,6 +1256,30 @@ export default function LeadsKanban() {
         funil={selectedFunilForEdit}
         onSave={handleEstagiosSaved}
       />
+      <MotivosModal
+        isOpen={isMotivosModalOpen}
+        onClose={() => setIsMotivosModalOpen(false)}
+        funil={selectedFunilForEdit}
+      />
+      <AprovacoesEstagioModal
+        isOpen={isAprovacoesModalOpen}
+        onClose={() => setIsAprovacoesModalOpen(false)}
+        onDecidido={loadLeads}
+      />
+      <ReatribuirLeadsModal
+        isOpen={isReatribuirModalOpen}
+        onClose={() => setIsReatribuirModalOpen(false)}
+        funil={selectedFunil}
+        onReatribuido={loadLeads}
+      />
+
+      <ImportarLeadsModal
+        isOpen={isImportarModalOpen}
+        onClose={() => setIsImportarModalOpen(false)}
+        funis={funis}
+        funilAtual={selectedFunil}
+        onImportado={loadLeads}
+      />
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,103 @@
+"use client"
+
+import { useState } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp"
+import { authService } from "@/lib/auth-service"
+import type { User } from "@/lib/types"
+
+interface LoginDoisFatoresProps {
+  desafio: string
+  onSucesso: (user: User) => void
+  onCancelar: () => void
+}
+
+export default function LoginDoisFatores({ desafio, onSucesso, onCancelar }: LoginDoisFatoresProps) {
+  const [codigo, setCodigo] = useState("")
+  const [usarRecuperacao, setUsarRecuperacao] = useState(false)
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  const verificar = async (valor: string) => {
+    setIsLoading(true)
+    setError("")
+    try {
+      const user = await authService.verifyTwoFactor(desafio, valor)
+      onSucesso(user)
+    } catch (err: any) {
+      setError(err.message || "Código inválido")
+      setCodigo("")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (codigo.trim()) {
+      verificar(codigo.trim())
+    }
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-muted-foreground text-center">
+        {usarRecuperacao
+          ? "Informe um dos códigos de recuperação gerados na ativação."
+          : "Digite o código de 6 dígitos do seu aplicativo autenticador."}
+      </p>
+
+      {usarRecuperacao ? (
+        <Input
+          value={codigo}
+          onChange={(e) => setCodigo(e.target.value)}
+          placeholder="XXXXX-XXXXX"
+          autoComplete="one-time-code"
+          className="text-center font-mono uppercase"
+          autoFocus
+        />
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP
+            maxLength={6}
+            value={codigo}
+            onChange={setCodigo}
+            onComplete={verificar}
+            disabled={isLoading}
+            autoFocus
+          >
+            <InputOTPGroup>
+              {[0, 1, 2, 3, 4, 5].map((i) => (
+                <InputOTPSlot key={i} index={i} />
+              ))}
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive text-center">{error}</p>}
+
+      <Button type="submit" className="w-full" disabled={isLoading || !codigo.trim()}>
+        {isLoading ? "Verificando..." : "Verificar"}
+      </Button>
+
+      <div className="flex justify-between text-sm">
+        <button type="button" onClick={onCancelar} className="text-muted-foreground hover:underline">
+          Voltar
+        </button>
+        <button
+          type="button"
+          onClick={() => {
+            setUsarRecuperacao(!usarRecuperacao)
+            setCodigo("")
+            setError("")
+          }}
+          className="text-primary hover:underline"
+        >
+          {usarRecuperacao ? "Usar código do aplicativo" : "Usar código de recuperação"}
+        </button>
+      </div>
+    </form>
+  )
+}
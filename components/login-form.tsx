@@ -1,19 +1,22 @@
 
 "use client"
 
-import { useState } from "react"
+import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { authService } from "@/lib/auth-service"
+import { authService, type DesafioDoisFatores } from "@/lib/auth-service"
+import type { User } from "@/lib/types"
 import { toast } from "@/components/ui/use-toast"
 import { Eye, EyeOff } from "lucide-react"
 import Link from "next/link"
 import Image from "next/image"
 import { prefetchLoginData } from "@/lib/prefetch-login-service"
 import { SplashScreen } from "@/components/splash-screen"
+import LoginDoisFatores from "@/components/login-dois-fatores"
+import DoisFatoresCadastro from "@/components/dois-fatores-cadastro"
 
 export default function LoginForm() {
   const [email, setEmail] = useState("")
@@ -22,32 +25,53 @@ export default function LoginForm() {
   const [isLoading, setIsLoading] = useState(false)
   const [showPrefetchSplash, setShowPrefetchSplash] = useState(false)
   const [isPrefetching, setIsPrefetching] = useState(false)
+  const [setupDisponivel, setSetupDisponivel] = useState(false)
+  // Segunda etapa do login (código do 2FA ou cadastro obrigatório)
+  const [desafio2fa, setDesafio2fa] = useState<DesafioDoisFatores | null>(null)
   const router = useRouter()
 
+  // Sem administrador cadastrado e com ADMIN_SETUP_TOKEN configurado, oferecer a configuração inicial
+  useEffect(() => {
+    fetch('/api/auth/setup')
+      .then((res) => (res.ok ? res.json() : { disponivel: false }))
+      .then((data) => setSetupDisponivel(!!data.disponivel))
+      .catch(() => setSetupDisponivel(false))
+  }, [])
+
+  const concluirLogin = async (user: User) => {
+    toast({
+      title: "Login realizado com sucesso!",
+      description: `Bem-vindo(a), ${user.name}!`,
+    })
+
+    // Mostrar splash de prefetch
+    setShowPrefetchSplash(true)
+    setIsPrefetching(true)
+
+    // Iniciar prefetch de dados
+    console.log('🚀 Iniciando prefetch de dados após login...')
+    await prefetchLoginData()
+    console.log('✅ Prefetch concluído')
+    
+    setIsPrefetching(false)
+  }
+
+  const cancelarDoisFatores = () => {
+    setDesafio2fa(null)
+    setPassword("")
+  }
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setIsLoading(true)
 
     try {
-      const user = await authService.login(email, password)
-
-      if (user) {
-        toast({
-          title: "Login realizado com sucesso!",
-          description: `Bem-vindo(a), ${user.name}!`,
-        })
-
-        // Mostrar splash de prefetch
-        setShowPrefetchSplash(true)
-        setIsPrefetching(true)
-
-        // Iniciar prefetch de dados
-        console.log('🚀 Iniciando prefetch de dados após login...')
-        await prefetchLoginData()
-        console.log('✅ Prefetch concluído')
-        
-        setIsPrefetching(false)
+      const resultado = await authService.login(email, password)
 
+      if (resultado && "requer2fa" in resultado) {
+        setDesafio2fa(resultado)
+      } else if (resultado) {
+        await concluirLogin(resultado)
       } else {
         toast({
           title: "Erro no login",
@@ -58,7 +82,7 @@ export default function LoginForm() {
     } catch (error) {
       toast({
         title: "Erro no login",
-        description: "Ocorreu um erro ao tentar fazer login.",
+        description: error instanceof Error && error.message ? error.message : "Ocorreu um erro ao tentar fazer login.",
         variant: "destructive",
       })
     } finally {
@@ -103,52 +127,85 @@ export default function LoginForm() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
-              <Input
-                id="email"
-                type="email"
-                placeholder="seu@email.com"
-                value={email}
-                onChange={(e) => setEmail(e.target.value)}
-                required
+          {desafio2fa?.modo === "verificar" ? (
+            <LoginDoisFatores
+              desafio={desafio2fa.desafio}
+              onSucesso={concluirLogin}
+              onCancelar={cancelarDoisFatores}
+            />
+          ) : desafio2fa?.modo === "cadastro" ? (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                O seu perfil exige autenticação em dois fatores. Configure o aplicativo autenticador para concluir o login.
+              </p>
+              <DoisFatoresCadastro
+                desafio={desafio2fa.desafio}
+                onConcluido={(user) => user && concluirLogin(user)}
+                onCancelar={cancelarDoisFatores}
               />
             </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">Senha</Label>
-              <div className="relative">
-                <Input
-                  id="password"
-                  type={showPassword ? "text" : "password"}
-                  placeholder="••••••••"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
-                >
-                  {showPassword ? (
-                    <EyeOff className="h-4 w-4" />
-                  ) : (
-                    <Eye className="h-4 w-4" />
-                  )}
-                </button>
+          ) : (
+            <>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="seu@email.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Senha</Label>
+                  <div className="relative">
+                    <Input
+                      id="password"
+                      type={showPassword ? "text" : "password"}
+                      placeholder="••••••••"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                    />
+                    <button
+                      type="button"
+                      onClick={() => setShowPassword(!showPassword)}
+                      className="absolute right-3 top-1/2 -translate-y-1/2 text-gray-500 hover:text-gray-700"
+                    >
+                      {showPassword ? (
+                        <EyeOff className="h-4 w-4" />
+                      ) : (
+                        <Eye className="h-4 w-4" />
+                      )}
+                    </button>
+                  </div>
+                </div>
+                <Button type="submit" className="w-full" disabled={isLoading}>
+                  {isLoading ? "Entrando..." : "Entrar"}
+                </Button>
+              </form>
+              <div className="mt-3 text-center text-sm">
+                <Link href="/esqueci-senha" className="text-primary hover:underline">
+                  Esqueci minha senha
+                </Link>
               </div>
-            </div>
-            <Button type="submit" className="w-full" disabled={isLoading}>
-              {isLoading ? "Entrando..." : "Entrar"}
-            </Button>
-          </form>
-          <div className="mt-4 text-center text-sm">
-            <span className="text-muted-foreground">Não tem uma conta? </span>
-            <Link href="/register" className="text-primary hover:underline">
-              Cadastre-se aqui
-            </Link>
-          </div>
+              <div className="mt-4 text-center text-sm">
+                <span className="text-muted-foreground">Não tem uma conta? </span>
+                <Link href="/register" className="text-primary hover:underline">
+                  Cadastre-se aqui
+                </Link>
+              </div>
+              {setupDisponivel && (
+                <div className="mt-2 text-center text-sm">
+                  <Link href="/setup" className="text-primary hover:underline">
+                    Configuração inicial do administrador
+                  </Link>
+                </div>
+              )}
+            </>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,144 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Checkbox } from "@/components/ui/checkbox"
+import { useToast } from "@/hooks/use-toast"
+import type { Lead } from "@/lib/leads-service"
+import { ROTULOS_DUPLICIDADE, type LeadDuplicado } from "@/lib/duplicidade"
+
+interface MesclarLeadsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  lead: Lead | null
+  // Chamado após a mesclagem para recarregar o lead e o kanban
+  onMesclado: () => void
+}
+
+type Duplicado = LeadDuplicado & { NOMEUSUARIO: string }
+
+const formatarMoeda = (valor: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(valor || 0)
+
+// Mescla duplicados no lead aberto: atividades e produtos vêm para este lead e os demais são inativados
+export default function MesclarLeadsModal({ isOpen, onClose, lead, onMesclado }: MesclarLeadsModalProps) {
+  const [duplicados, setDuplicados] = useState<Duplicado[]>([])
+  const [selecionados, setSelecionados] = useState<string[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (isOpen && lead) {
+      setSelecionados([])
+      loadDuplicados(lead.CODLEAD)
+    }
+  }, [isOpen, lead?.CODLEAD])
+
+  const loadDuplicados = async (codLead: string) => {
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/leads/duplicados?codLead=${codLead}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Erro ao buscar duplicados')
+      setDuplicados(data)
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const alternar = (codLead: string, marcado: boolean) => {
+    setSelecionados(prev => marcado ? [...prev, codLead] : prev.filter(c => c !== codLead))
+  }
+
+  const handleMesclar = async () => {
+    if (!lead || selecionados.length === 0) return
+
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/leads/mesclar', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ codLeadPrincipal: lead.CODLEAD, codLeadsDuplicados: selecionados })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Erro ao mesclar leads')
+
+      toast({
+        title: "Leads mesclados",
+        description: `${data.leadsMesclados.length} lead(s) mesclado(s): ${data.atividades} atividade(s) e ${data.produtos} produto(s) incorporados`,
+      })
+
+      onMesclado()
+      onClose()
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[560px]">
+        <DialogHeader>
+          <DialogTitle>Mesclar Duplicados</DialogTitle>
+          <DialogDescription>
+            Atividades e produtos dos leads selecionados passam para "{lead?.NOME}" e eles são inativados
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : duplicados.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">Nenhum possível duplicado encontrado neste funil</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="max-h-[320px] overflow-y-auto space-y-2">
+              {duplicados.map((d) => (
+                <label key={d.CODLEAD} className="flex items-start gap-3 rounded-md border p-3 text-sm cursor-pointer hover:bg-muted/50">
+                  <Checkbox
+                    checked={selecionados.includes(d.CODLEAD)}
+                    onCheckedChange={(checked) => alternar(d.CODLEAD, checked === true)}
+                    disabled={isSaving}
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-medium truncate">#{d.CODLEAD} {d.NOME}</span>
+                      <span className="text-muted-foreground whitespace-nowrap">{formatarMoeda(d.VALOR)}</span>
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {ROTULOS_DUPLICIDADE[d.motivo]}{d.NOMEUSUARIO ? ` · ${d.NOMEUSUARIO}` : ''}
+                    </div>
+                  </div>
+                </label>
+              ))}
+            </div>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={onClose} disabled={isSaving}>
+                Cancelar
+              </Button>
+              <Button onClick={handleMesclar} disabled={isSaving || selecionados.length === 0}>
+                {isSaving ? "Mesclando..." : `Mesclar ${selecionados.length || ''}`.trim()}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
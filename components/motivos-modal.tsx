@@ -0,0 +1,247 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { X, Plus, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import type { Funil } from "@/lib/funis-service"
+import type { MotivoLead, TipoMotivo } from "@/lib/motivos-service"
+import { useToast } from "@/hooks/use-toast"
+
+interface MotivosModalProps {
+  isOpen: boolean
+  onClose: () => void
+  funil: Funil | null
+}
+
+// Catálogo de motivos de perda/ganho do funil, mantido pelo administrador
+export function MotivosModal({ isOpen, onClose, funil }: MotivosModalProps) {
+  const [motivos, setMotivos] = useState<MotivoLead[]>([])
+  const [tipo, setTipo] = useState<TipoMotivo>('PERDA')
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (funil && isOpen) {
+      loadMotivos()
+    } else if (!isOpen) {
+      setMotivos([])
+      setTipo('PERDA')
+    }
+  }, [funil, isOpen])
+
+  const loadMotivos = async () => {
+    if (!funil) return
+    setIsLoading(true)
+    try {
+      const response = await fetch(`/api/funis/motivos?codFunil=${funil.CODFUNIL}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Falha ao carregar motivos')
+      setMotivos(data)
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const motivosDoTipo = motivos.filter(m => m.TIPO === tipo)
+
+  const handleAddMotivo = () => {
+    setMotivos([...motivos, {
+      CODMOTIVO: `temp-${Date.now()}`,
+      CODFUNIL: funil?.CODFUNIL || "",
+      TIPO: tipo,
+      DESCRICAO: "",
+      ORDEM: motivosDoTipo.length + 1,
+      ATIVO: "S"
+    }])
+  }
+
+  const handleUpdateMotivo = (codMotivo: string, descricao: string) => {
+    setMotivos(motivos.map(m => m.CODMOTIVO === codMotivo ? { ...m, DESCRICAO: descricao } : m))
+  }
+
+  const handleRemoveMotivo = async (motivo: MotivoLead) => {
+    if (motivo.CODMOTIVO.startsWith('temp-')) {
+      setMotivos(motivos.filter(m => m.CODMOTIVO !== motivo.CODMOTIVO))
+      return
+    }
+
+    if (!confirm(`Tem certeza que deseja inativar o motivo "${motivo.DESCRICAO}"?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch('/api/funis/motivos/deletar', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ codMotivo: motivo.CODMOTIVO })
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Falha ao inativar motivo')
+      }
+
+      setMotivos(motivos.filter(m => m.CODMOTIVO !== motivo.CODMOTIVO))
+      toast({
+        title: "Sucesso",
+        description: "Motivo inativado com sucesso!",
+      })
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message || "Falha ao inativar motivo",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleSave = async () => {
+    if (!funil) return
+
+    if (motivos.some(m => !m.DESCRICAO.trim())) {
+      toast({
+        title: "Atenção",
+        description: "Preencha a descrição de todos os motivos",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      for (const tipoMotivo of ['PERDA', 'GANHO'] as TipoMotivo[]) {
+        const lista = motivos.filter(m => m.TIPO === tipoMotivo)
+        for (const [index, motivo] of lista.entries()) {
+          const isTemp = motivo.CODMOTIVO.startsWith('temp-')
+          const response = await fetch('/api/funis/motivos/salvar', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+              ...(isTemp ? {} : { CODMOTIVO: motivo.CODMOTIVO }),
+              CODFUNIL: funil.CODFUNIL,
+              TIPO: motivo.TIPO,
+              DESCRICAO: motivo.DESCRICAO,
+              ORDEM: index + 1
+            })
+          })
+
+          if (!response.ok) {
+            const error = await response.json()
+            throw new Error(error.error || 'Falha ao salvar motivo')
+          }
+        }
+      }
+
+      toast({
+        title: "Sucesso",
+        description: "Motivos salvos com sucesso!",
+      })
+      onClose()
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message || "Falha ao salvar motivos",
+        variant: "destructive",
+      })
+      loadMotivos()
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  if (!isOpen || !funil) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {(isLoading || isSaving) && (
+        <div className="absolute inset-0 z-[60] flex items-center justify-center bg-background/80 backdrop-blur-sm">
+          <div className="flex flex-col items-center gap-4 p-6 bg-card rounded-lg shadow-lg border">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+            <p className="text-sm font-medium text-foreground">
+              {isLoading ? "Carregando motivos..." : "Salvando..."}
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="absolute inset-0 bg-black/50 backdrop-blur-sm" onClick={!isLoading && !isSaving ? onClose : undefined} />
+      <div className="relative bg-card rounded-lg shadow-xl w-full max-w-lg mx-4 p-6 space-y-6 max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-bold text-foreground">Motivos de Perda e Ganho</h2>
+            <p className="text-sm text-muted-foreground">{funil.NOME}</p>
+          </div>
+          <button onClick={onClose} className="text-muted-foreground hover:text-foreground" disabled={isLoading || isSaving}>
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <Tabs value={tipo} onValueChange={(valor) => setTipo(valor as TipoMotivo)}>
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="PERDA">Perda</TabsTrigger>
+            <TabsTrigger value="GANHO">Ganho</TabsTrigger>
+          </TabsList>
+        </Tabs>
+
+        <p className="text-xs text-muted-foreground">
+          {tipo === 'PERDA'
+            ? "Com motivos cadastrados, marcar um lead como perdido exige escolher um deles."
+            : "Motivos de ganho são opcionais e ficam disponíveis para relatórios."}
+        </p>
+
+        <div className="space-y-2">
+          {motivosDoTipo.length === 0 && (
+            <p className="text-sm text-center text-muted-foreground py-4">Nenhum motivo cadastrado</p>
+          )}
+          {motivosDoTipo.map((motivo) => (
+            <div key={motivo.CODMOTIVO} className="flex items-center gap-2">
+              <Input
+                value={motivo.DESCRICAO}
+                onChange={(e) => handleUpdateMotivo(motivo.CODMOTIVO, e.target.value)}
+                placeholder="Descrição do motivo"
+                className="flex-1"
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleRemoveMotivo(motivo)}
+                className="text-destructive flex-shrink-0 h-9 w-9 p-0"
+                title="Inativar Motivo"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <Button
+          variant="outline"
+          onClick={handleAddMotivo}
+          className="w-full"
+          disabled={isLoading || isSaving}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Adicionar Motivo
+        </Button>
+
+        <div className="flex gap-3 pt-4 border-t">
+          <Button type="button" variant="outline" onClick={onClose} className="flex-1" disabled={isLoading || isSaving}>
+            Cancelar
+          </Button>
+          <Button onClick={handleSave} className="flex-1" disabled={isLoading || isSaving}>
+            {isSaving ? "Salvando..." : "Salvar Motivos"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
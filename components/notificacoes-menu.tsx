@@ -0,0 +1,151 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { Bell, AlarmClock, AlertCircle, Settings } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import PreferenciasNotificacoesModal from "./preferencias-notificacoes-modal"
+import type { Notificacao } from "@/lib/notificacoes"
+
+// Intervalo de atualização do contador de não lidas
+const INTERVALO_ATUALIZACAO = 60 * 1000
+
+function tempoDecorrido(dataISO: string): string {
+  const minutos = Math.floor((Date.now() - new Date(dataISO).getTime()) / 60000)
+  if (minutos < 1) return 'agora'
+  if (minutos < 60) return `há ${minutos} min`
+  if (minutos < 1440) return `há ${Math.floor(minutos / 60)} h`
+  return new Date(dataISO).toLocaleDateString('pt-BR')
+}
+
+// Sino do cabeçalho: lembretes de atividades e resumos de atrasadas, com lida/não lida
+export default function NotificacoesMenu() {
+  const [notificacoes, setNotificacoes] = useState<Notificacao[]>([])
+  const [naoLidas, setNaoLidas] = useState(0)
+  const [aberto, setAberto] = useState(false)
+  const [isPreferenciasOpen, setIsPreferenciasOpen] = useState(false)
+  const router = useRouter()
+
+  const loadNotificacoes = async () => {
+    try {
+      const response = await fetch('/api/notificacoes')
+      if (!response.ok) return
+      const data = await response.json()
+      setNotificacoes(data.notificacoes)
+      setNaoLidas(data.naoLidas)
+    } catch (error) {
+      console.error('Erro ao carregar notificações:', error)
+    }
+  }
+
+  useEffect(() => {
+    loadNotificacoes()
+    const intervalo = setInterval(loadNotificacoes, INTERVALO_ATUALIZACAO)
+    return () => clearInterval(intervalo)
+  }, [])
+
+  useEffect(() => {
+    if (aberto) loadNotificacoes()
+  }, [aberto])
+
+  const marcarLidas = async (codigos?: string[]) => {
+    // Atualiza a lista antes da resposta para o sino reagir ao clique
+    const afetadas = notificacoes.filter(n => n.LIDA === 'N' && (!codigos || codigos.includes(n.CODNOTIFICACAO)))
+    setNotificacoes(notificacoes.map(n => afetadas.includes(n) ? { ...n, LIDA: 'S' } : n))
+    setNaoLidas(codigos ? Math.max(0, naoLidas - afetadas.length) : 0)
+
+    try {
+      await fetch('/api/notificacoes/lidas', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(codigos ? { codigos } : {})
+      })
+    } catch (error) {
+      console.error('Erro ao marcar notificações como lidas:', error)
+      loadNotificacoes()
+    }
+  }
+
+  const abrirNotificacao = (notificacao: Notificacao) => {
+    if (notificacao.LIDA === 'N') marcarLidas([notificacao.CODNOTIFICACAO])
+    if (notificacao.LINK) {
+      setAberto(false)
+      router.push(notificacao.LINK)
+    }
+  }
+
+  return (
+    <>
+      <Popover open={aberto} onOpenChange={setAberto}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="icon" className="relative text-white hover:bg-white/10" title="Notificações">
+            <Bell className="w-5 h-5" />
+            {naoLidas > 0 && (
+              <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold flex items-center justify-center">
+                {naoLidas > 99 ? '99+' : naoLidas}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-[340px] p-0">
+          <div className="flex items-center justify-between px-4 py-3 border-b">
+            <p className="text-sm font-semibold">Notificações</p>
+            <div className="flex items-center gap-1">
+              {naoLidas > 0 && (
+                <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => marcarLidas()}>
+                  Marcar todas como lidas
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7"
+                title="Preferências"
+                onClick={() => {
+                  setAberto(false)
+                  setIsPreferenciasOpen(true)
+                }}
+              >
+                <Settings className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+
+          {notificacoes.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">Nenhuma notificação</p>
+          ) : (
+            <div className="max-h-[400px] overflow-y-auto">
+              {notificacoes.map(notificacao => (
+                <button
+                  key={notificacao.CODNOTIFICACAO}
+                  onClick={() => abrirNotificacao(notificacao)}
+                  className={`w-full text-left px-4 py-3 border-b last:border-b-0 flex gap-3 hover:bg-muted/50 transition-colors ${notificacao.LIDA === 'N' ? 'bg-primary/5' : ''}`}
+                >
+                  {notificacao.TIPO === 'ATRASADAS' ? (
+                    <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-red-500" />
+                  ) : (
+                    <AlarmClock className="w-4 h-4 mt-0.5 flex-shrink-0 text-primary" />
+                  )}
+                  <div className="min-w-0 flex-1">
+                    <div className="flex items-start justify-between gap-2">
+                      <p className={`text-sm truncate ${notificacao.LIDA === 'N' ? 'font-semibold' : ''}`}>{notificacao.TITULO}</p>
+                      {notificacao.LIDA === 'N' && <span className="w-2 h-2 mt-1.5 rounded-full bg-primary flex-shrink-0" />}
+                    </div>
+                    <p className="text-xs text-muted-foreground whitespace-pre-line line-clamp-3">{notificacao.MENSAGEM}</p>
+                    <p className="text-[10px] text-muted-foreground mt-1">{tempoDecorrido(notificacao.DTCRIACAO)}</p>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      <PreferenciasNotificacoesModal
+        isOpen={isPreferenciasOpen}
+        onClose={() => setIsPreferenciasOpen(false)}
+      />
+    </>
+  )
+}
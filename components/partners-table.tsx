@@ -220,14 +220,29 @@ export default function PartnersTable() {
         partnerData.CODVEND = currentUser.codVendedor;
       }
 
-      const response = await fetch('/api/sankhya/parceiros/salvar', {
+      const enviar = (confirmarDuplicidade: boolean) => fetch('/api/sankhya/parceiros/salvar', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify(partnerData),
+        body: JSON.stringify({ ...partnerData, confirmarDuplicidade }),
       })
 
+      let response = await enviar(false)
+
+      // Nome semelhante a parceiros já cadastrados: o usuário decide se cadastra mesmo assim
+      if (response.status === 409) {
+        const aviso = await response.json()
+        if (aviso.codigo !== 'PARCEIRO_SEMELHANTE') throw new Error(aviso.error)
+
+        const lista = aviso.duplicados
+          .map((d: { CODPARC: string; NOMEPARC: string; CGC_CPF: string }) => `- ${d.CODPARC} - ${d.NOMEPARC}${d.CGC_CPF ? ` (${d.CGC_CPF})` : ''}`)
+          .join('\n')
+        if (!confirm(`Já existem parceiros com nome semelhante:\n${lista}\n\nDeseja salvar mesmo assim?`)) return
+
+        response = await enviar(true)
+      }
+
       if (!response.ok) {
         const errorData = await response.json();
         console.error("Frontend - Erro na resposta da API:", errorData);
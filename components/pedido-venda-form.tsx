@@ -14,6 +14,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { EstoqueModal } from "@/components/estoque-modal"
 import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from "@/components/ui/accordion"
 import { ProdutoSelectorModal } from "@/components/produto-selector-modal"
+import { authService } from "@/lib/auth-service"
 
 interface ItemPedido {
   CODPROD: string
@@ -111,17 +112,10 @@ export default function PedidoVendaForm() {
 
   const carregarVendedorUsuario = async () => {
     try {
-      const userStr = document.cookie
-        .split('; ')
-        .find(row => row.startsWith('user='))
-        ?.split('=')[1]
+      const user = await authService.getSessionUser()
 
-      if (userStr) {
-        const user = JSON.parse(decodeURIComponent(userStr))
-
-        if (user.codVendedor) {
-          setPedido(prev => ({ ...prev, CODVEND: String(user.codVendedor) }))
-        }
+      if (user?.codVendedor) {
+        setPedido(prev => ({ ...prev, CODVEND: String(user.codVendedor) }))
       }
     } catch (error) {
       console.error('Erro ao carregar vendedor do usuário:', error)
@@ -817,19 +811,12 @@ export default function PedidoVendaForm() {
                   <Button
                     type="button"
                     variant="outline"
-                    onClick={() => {
+                    onClick={async () => {
                       // Verificar se o usuário tem vendedor vinculado
-                      const userStr = document.cookie
-                        .split('; ')
-                        .find(row => row.startsWith('user='))
-                        ?.split('=')[1]
-
-                      if (userStr) {
-                        const user = JSON.parse(decodeURIComponent(userStr))
-                        if (user.codVendedor) {
-                          toast.error("Você tem um vendedor vinculado e não pode alterá-lo")
-                          return
-                        }
+                      const user = await authService.getSessionUser()
+                      if (user?.codVendedor) {
+                        toast.error("Você tem um vendedor vinculado e não pode alterá-lo")
+                        return
                       }
 
                       setShowVendedorModal(true)
@@ -13,6 +13,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { EstoqueModal } from "@/components/estoque-modal"
 import { ProdutoSelectorModal } from "@/components/produto-selector-modal"
+import { authService } from "@/lib/auth-service"
 import {
   Accordion,
   AccordionContent,
@@ -174,17 +175,10 @@ export default function PedidoVendaFromLead({ dadosIniciais, onSuccess, onCancel
 
   const carregarVendedorUsuario = async () => {
     try {
-      const userStr = document.cookie
-        .split('; ')
-        .find(row => row.startsWith('user='))
-        ?.split('=')[1]
+      const user = await authService.getSessionUser()
 
-      if (userStr) {
-        const user = JSON.parse(decodeURIComponent(userStr))
-
-        if (user.codVendedor) {
-          setPedido(prev => ({ ...prev, CODVEND: String(user.codVendedor) }))
-        }
+      if (user?.codVendedor) {
+        setPedido(prev => ({ ...prev, CODVEND: String(user.codVendedor) }))
       }
     } catch (error) {
       console.error('Erro ao carregar vendedor do usuário:', error)
@@ -774,19 +768,12 @@ export default function PedidoVendaFromLead({ dadosIniciais, onSuccess, onCancel
                     type="button"
                     variant="outline"
                     size="icon"
-                    onClick={() => {
+                    onClick={async () => {
                       // Verificar se o usuário tem vendedor vinculado
-                      const userStr = document.cookie
-                        .split('; ')
-                        .find(row => row.startsWith('user='))
-                        ?.split('=')[1]
-
-                      if (userStr) {
-                        const user = JSON.parse(decodeURIComponent(userStr))
-                        if (user.codVendedor) {
-                          toast.error("Você tem um vendedor vinculado e não pode alterá-lo")
-                          return
-                        }
+                      const user = await authService.getSessionUser()
+                      if (user?.codVendedor) {
+                        toast.error("Você tem um vendedor vinculado e não pode alterá-lo")
+                        return
                       }
 
                       setShowVendedorModal(true)
@@ -3,6 +3,7 @@
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
 import PedidoVendaFromLead from "@/components/pedido-venda-from-lead"
 import { toast } from "sonner"
+import { authService } from "@/lib/auth-service"
 import { useState, useEffect } from "react"
 
 interface PedidoVendaRapidoProps {
@@ -20,19 +21,12 @@ export default function PedidoVendaRapido({ isOpen, onClose }: PedidoVendaRapido
     }
   }, [isOpen])
 
-  const carregarVendedorUsuario = () => {
+  const carregarVendedorUsuario = async () => {
     try {
-      const userStr = document.cookie
-        .split('; ')
-        .find(row => row.startsWith('user='))
-        ?.split('=')[1]
+      const user = await authService.getSessionUser()
 
-      if (userStr) {
-        const user = JSON.parse(decodeURIComponent(userStr))
-
-        if (user.codVendedor) {
-          setCodVendUsuario(String(user.codVendedor))
-        }
+      if (user?.codVendedor) {
+        setCodVendUsuario(String(user.codVendedor))
       }
     } catch (error) {
       console.error('Erro ao carregar vendedor do usuário:', error)
@@ -52,7 +52,6 @@ export default function PedidosTable() {
       }
 
       const params = new URLSearchParams({
-        userId: user.id.toString(),
         ...(filtroDataInicio && { dataInicio: filtroDataInicio }),
         ...(filtroDataFim && { dataFim: filtroDataFim }),
         ...(filtroNumeroPedido && { numeroPedido: filtroNumeroPedido }),
@@ -0,0 +1,171 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { useToast } from "@/hooks/use-toast"
+import {
+  ANTECEDENCIAS_LEMBRETE,
+  MAX_LEMBRETES,
+  PREFERENCIAS_PADRAO,
+  descreverAntecedencia,
+  type PreferenciasNotificacao
+} from "@/lib/notificacoes"
+
+interface PreferenciasNotificacoesModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+// Antecedência dos lembretes, resumo diário de atrasadas e canais extras (o aviso no sistema é sempre enviado)
+export default function PreferenciasNotificacoesModal({ isOpen, onClose }: PreferenciasNotificacoesModalProps) {
+  const [preferencias, setPreferencias] = useState<PreferenciasNotificacao>(PREFERENCIAS_PADRAO)
+  const [canais, setCanais] = useState<{ nome: string; rotulo: string }[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (isOpen) loadPreferencias()
+  }, [isOpen])
+
+  const loadPreferencias = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/notificacoes/preferencias')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Erro ao carregar preferências')
+      setPreferencias(data.preferencias)
+      setCanais(data.canais)
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const alternarLembrete = (minutos: number) => {
+    const lembretes = preferencias.lembretes.includes(minutos)
+      ? preferencias.lembretes.filter(m => m !== minutos)
+      : [...preferencias.lembretes, minutos]
+    if (lembretes.length > MAX_LEMBRETES) {
+      toast({ title: "Atenção", description: `Escolha no máximo ${MAX_LEMBRETES} lembretes` })
+      return
+    }
+    setPreferencias({ ...preferencias, lembretes })
+  }
+
+  const alternarCanal = (nome: string, ativo: boolean) => {
+    setPreferencias({
+      ...preferencias,
+      canais: ativo ? [...preferencias.canais, nome] : preferencias.canais.filter(c => c !== nome)
+    })
+  }
+
+  const handleSalvar = async () => {
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/notificacoes/preferencias', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(preferencias)
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Erro ao salvar preferências')
+
+      toast({ title: "Preferências salvas" })
+      onClose()
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Preferências de Notificação</DialogTitle>
+          <DialogDescription>
+            Os avisos aparecem sempre no sino; escolha também quando ser lembrado e por quais outros canais
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-5">
+            <div>
+              <Label>Lembrar antes do início da atividade</Label>
+              <div className="flex flex-wrap gap-1 mt-2">
+                {ANTECEDENCIAS_LEMBRETE.map(minutos => (
+                  <Button
+                    key={minutos}
+                    type="button"
+                    size="sm"
+                    variant={preferencias.lembretes.includes(minutos) ? 'default' : 'outline'}
+                    className="h-7 px-2 text-xs"
+                    onClick={() => alternarLembrete(minutos)}
+                  >
+                    {descreverAntecedencia(minutos).replace(' antes', '')}
+                  </Button>
+                ))}
+              </div>
+              {preferencias.lembretes.length === 0 && (
+                <p className="text-xs text-muted-foreground mt-1">Nenhum lembrete será enviado</p>
+              )}
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label>Resumo diário de atrasadas</Label>
+                <p className="text-xs text-muted-foreground">Atividades aguardando cujo horário já passou</p>
+              </div>
+              <Switch
+                checked={preferencias.resumoAtrasadas}
+                onCheckedChange={(resumoAtrasadas) => setPreferencias({ ...preferencias, resumoAtrasadas })}
+              />
+            </div>
+
+            {canais.length > 0 && (
+              <div className="space-y-3">
+                <Label>Enviar também por</Label>
+                {canais.map(canal => (
+                  <div key={canal.nome} className="flex items-center justify-between">
+                    <span className="text-sm">{canal.rotulo}</span>
+                    <Switch
+                      checked={preferencias.canais.includes(canal.nome)}
+                      onCheckedChange={(ativo) => alternarCanal(canal.nome, ativo)}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={onClose} disabled={isSaving}>
+                Cancelar
+              </Button>
+              <Button onClick={handleSalvar} disabled={isSaving}>
+                {isSaving ? "Salvando..." : "Salvar"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,242 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import type { PrevisaoVendas as DadosPrevisao, LinhaPrevisao } from "@/lib/previsao-vendas-service"
+import { ROTULOS_CATEGORIAS, LIMITE_COMMIT, LIMITE_MELHOR_CENARIO, type CategoriaPrevisao } from "@/lib/probabilidade-estagio"
+
+const TODOS = "TODOS"
+const CATEGORIAS: CategoriaPrevisao[] = ['COMMIT', 'MELHOR_CENARIO', 'PIPELINE']
+
+type RespostaPrevisao = DadosPrevisao & { vendedoresDisponiveis: { id: number; name: string }[] }
+
+interface PrevisaoVendasProps {
+  codFunil: string
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(Number(value) || 0)
+
+const mesIso = (data: Date) => `${data.getFullYear()}-${String(data.getMonth() + 1).padStart(2, '0')}`
+
+function TabelaPrevisao({ titulo, linhas, totais }: { titulo: string; linhas: LinhaPrevisao[]; totais?: LinhaPrevisao }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">{titulo}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-muted-foreground">
+                <th className="py-2 pr-4 font-medium"></th>
+                {CATEGORIAS.map((categoria) => (
+                  <th key={categoria} className="py-2 pr-4 font-medium text-right">{ROTULOS_CATEGORIAS[categoria]}</th>
+                ))}
+                <th className="py-2 pr-4 font-medium text-right">Ponderado</th>
+                <th className="py-2 font-medium text-right">Realizado</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {linhas.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="py-4 text-center text-muted-foreground">Nenhum negócio previsto no período</td>
+                </tr>
+              ) : (
+                [...linhas, ...(totais ? [totais] : [])].map((linha) => (
+                  <tr key={linha.chave} className={linha === totais ? "font-semibold" : ""}>
+                    <td className="py-2 pr-4">{linha.rotulo}</td>
+                    {CATEGORIAS.map((categoria) => (
+                      <td key={categoria} className="py-2 pr-4 text-right whitespace-nowrap">
+                        {formatCurrency(linha.categorias[categoria].valor)}
+                        <span className="block text-[11px] text-muted-foreground">
+                          {linha.categorias[categoria].quantidade} negócio(s)
+                        </span>
+                      </td>
+                    ))}
+                    <td className="py-2 pr-4 text-right whitespace-nowrap">{formatCurrency(linha.total.valorPonderado)}</td>
+                    <td className="py-2 text-right whitespace-nowrap text-green-600">{formatCurrency(linha.realizado)}</td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Previsão de receita do funil pelo mês previsto de fechamento, exibida ao lado do kanban
+export default function PrevisaoVendas({ codFunil }: PrevisaoVendasProps) {
+  const hoje = new Date()
+  const [mesInicio, setMesInicio] = useState(mesIso(hoje))
+  const [mesFim, setMesFim] = useState(mesIso(new Date(hoje.getFullYear(), hoje.getMonth() + 2, 1)))
+  const [codUsuario, setCodUsuario] = useState(TODOS)
+  const [previsao, setPrevisao] = useState<RespostaPrevisao | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    loadPrevisao()
+  }, [codFunil, codUsuario])
+
+  const loadPrevisao = async () => {
+    setIsLoading(true)
+    try {
+      const params = new URLSearchParams({ codFunil, mesInicio, mesFim })
+      if (codUsuario !== TODOS) params.set('codUsuario', codUsuario)
+
+      const response = await fetch(`/api/leads/previsao?${params.toString()}`)
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Erro ao carregar previsão')
+      setPrevisao(data)
+    } catch (error: any) {
+      toast({ title: "Erro", description: error.message, variant: "destructive" })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleFiltrar = (e: React.FormEvent) => {
+    e.preventDefault()
+    loadPrevisao()
+  }
+
+  // Categorias acumuladas: melhor cenário inclui o commit e pipeline inclui tudo
+  const acumulado = (ate: CategoriaPrevisao) => {
+    if (!previsao) return 0
+    const indice = CATEGORIAS.indexOf(ate)
+    return CATEGORIAS.slice(0, indice + 1).reduce((soma, c) => soma + previsao.totais.categorias[c].valor, 0)
+  }
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleFiltrar} className="bg-card rounded-lg border p-4 grid gap-4 md:grid-cols-4 items-end">
+        <div className="space-y-2">
+          <Label htmlFor="mesInicio">De</Label>
+          <Input id="mesInicio" type="month" value={mesInicio} onChange={(e) => setMesInicio(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="mesFim">Até</Label>
+          <Input id="mesFim" type="month" value={mesFim} onChange={(e) => setMesFim(e.target.value)} />
+        </div>
+        <div className="space-y-2">
+          <Label>Vendedor</Label>
+          <Select value={codUsuario} onValueChange={setCodUsuario}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={TODOS}>Todos</SelectItem>
+              {(previsao?.vendedoresDisponiveis || []).map((vendedor) => (
+                <SelectItem key={vendedor.id} value={String(vendedor.id)}>{vendedor.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button type="submit" disabled={isLoading}>
+          {isLoading ? "Calculando..." : "Atualizar"}
+        </Button>
+      </form>
+
+      {isLoading && !previsao ? (
+        <div className="flex items-center justify-center py-16">
+          <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : previsao && (
+        <div className={`space-y-4 ${isLoading ? "opacity-60" : ""}`}>
+          <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Commit</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatCurrency(acumulado('COMMIT'))}</div>
+                <p className="text-xs text-muted-foreground mt-1">Probabilidade a partir de {LIMITE_COMMIT}%</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Melhor cenário</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatCurrency(acumulado('MELHOR_CENARIO'))}</div>
+                <p className="text-xs text-muted-foreground mt-1">Commit + probabilidade a partir de {LIMITE_MELHOR_CENARIO}%</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Pipeline</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{formatCurrency(acumulado('PIPELINE'))}</div>
+                <p className="text-xs text-muted-foreground mt-1">Ponderado: {formatCurrency(previsao.totais.total.valorPonderado)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">Fora do período</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{previsao.atrasados.quantidade + previsao.semData.quantidade}</div>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {previsao.atrasados.quantidade} com fechamento vencido · {previsao.semData.quantidade} sem data
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <TabelaPrevisao titulo="Por mês de fechamento" linhas={previsao.meses} totais={previsao.totais} />
+          <TabelaPrevisao titulo="Por vendedor" linhas={previsao.vendedores} />
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Negócios previstos</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2 pr-4 font-medium">Negócio</th>
+                      <th className="py-2 pr-4 font-medium">Mês</th>
+                      <th className="py-2 pr-4 font-medium">Categoria</th>
+                      <th className="py-2 pr-4 font-medium text-right">Probabilidade</th>
+                      <th className="py-2 pr-4 font-medium text-right">Valor</th>
+                      <th className="py-2 font-medium text-right">Ponderado</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-border">
+                    {previsao.leads.map((lead) => (
+                      <tr key={lead.CODLEAD}>
+                        <td className="py-2 pr-4">{lead.NOME}</td>
+                        <td className="py-2 pr-4">{previsao.meses.find((m) => m.chave === lead.mes)?.rotulo || lead.mes}</td>
+                        <td className="py-2 pr-4">{ROTULOS_CATEGORIAS[lead.categoria]}</td>
+                        <td className="py-2 pr-4 text-right">{lead.probabilidade}%</td>
+                        <td className="py-2 pr-4 text-right whitespace-nowrap">{formatCurrency(lead.VALOR)}</td>
+                        <td className="py-2 text-right whitespace-nowrap">{formatCurrency(lead.valorPonderado)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -9,7 +9,9 @@ import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar"
 import { Camera } from "lucide-react"
+import { toast } from "@/components/ui/use-toast"
 import { authService } from "@/lib/auth-service"
+import DoisFatoresConfig from "./dois-fatores-config"
 import type { User } from "@/lib/users-service"
 
 interface ProfileModalProps {
@@ -26,6 +28,14 @@ export default function ProfileModal({ isOpen, onClose, user, onUpdate }: Profil
     avatar: user.avatar || "",
   })
   const [isLoading, setIsLoading] = useState(false)
+  const [isChangingPassword, setIsChangingPassword] = useState(false)
+  const [passwordData, setPasswordData] = useState({
+    senhaAtual: "",
+    novaSenha: "",
+    confirmacao: "",
+  })
+  const [passwordError, setPasswordError] = useState("")
+  const [isSavingPassword, setIsSavingPassword] = useState(false)
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -44,6 +54,34 @@ export default function ProfileModal({ isOpen, onClose, user, onUpdate }: Profil
     }
   }
 
+  const handlePasswordSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setPasswordError("")
+
+    if (passwordData.novaSenha !== passwordData.confirmacao) {
+      setPasswordError("As senhas não coincidem")
+      return
+    }
+
+    setIsSavingPassword(true)
+    try {
+      const erro = await authService.changePassword(passwordData.senhaAtual, passwordData.novaSenha)
+      if (erro) {
+        setPasswordError(erro)
+        return
+      }
+
+      toast({
+        title: "Senha alterada",
+        description: "As demais sessões abertas foram encerradas.",
+      })
+      setPasswordData({ senhaAtual: "", novaSenha: "", confirmacao: "" })
+      setIsChangingPassword(false)
+    } finally {
+      setIsSavingPassword(false)
+    }
+  }
+
   const initials = formData.name
     .split(" ")
     .map((n) => n[0])
@@ -53,7 +91,7 @@ export default function ProfileModal({ isOpen, onClose, user, onUpdate }: Profil
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[500px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Editar Perfil</DialogTitle>
         </DialogHeader>
@@ -121,6 +159,76 @@ export default function ProfileModal({ isOpen, onClose, user, onUpdate }: Profil
             </Button>
           </div>
         </form>
+
+        {/* Alterar Senha */}
+        <div className="border-t pt-4">
+          {!isChangingPassword ? (
+            <Button type="button" variant="outline" className="w-full" onClick={() => setIsChangingPassword(true)}>
+              Alterar senha
+            </Button>
+          ) : (
+            <form onSubmit={handlePasswordSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="senhaAtual">Senha atual</Label>
+                <Input
+                  id="senhaAtual"
+                  type="password"
+                  value={passwordData.senhaAtual}
+                  onChange={(e) => setPasswordData({ ...passwordData, senhaAtual: e.target.value })}
+                  autoComplete="current-password"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="novaSenha">Nova senha</Label>
+                <Input
+                  id="novaSenha"
+                  type="password"
+                  value={passwordData.novaSenha}
+                  onChange={(e) => setPasswordData({ ...passwordData, novaSenha: e.target.value })}
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="confirmacaoNovaSenha">Confirmar nova senha</Label>
+                <Input
+                  id="confirmacaoNovaSenha"
+                  type="password"
+                  value={passwordData.confirmacao}
+                  onChange={(e) => setPasswordData({ ...passwordData, confirmacao: e.target.value })}
+                  autoComplete="new-password"
+                  required
+                />
+              </div>
+
+              {passwordError && <p className="text-sm text-destructive">{passwordError}</p>}
+
+              <div className="flex justify-end gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setIsChangingPassword(false)
+                    setPasswordError("")
+                  }}
+                >
+                  Cancelar
+                </Button>
+                <Button type="submit" disabled={isSavingPassword}>
+                  {isSavingPassword ? "Salvando..." : "Salvar senha"}
+                </Button>
+              </div>
+            </form>
+          )}
+        </div>
+
+        {/* Autenticação em Dois Fatores */}
+        <div className="border-t pt-4">
+          <DoisFatoresConfig />
+        </div>
       </DialogContent>
     </Dialog>
   )
@@ -0,0 +1,186 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { useToast } from "@/hooks/use-toast"
+import type { Funil } from "@/lib/funis-service"
+
+interface Responsavel {
+  id: number
+  name: string
+  status: string
+}
+
+interface ReatribuirLeadsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  funil: Funil | null
+  // Chamado após a transferência para o kanban recarregar os leads
+  onReatribuido: () => void
+}
+
+// Transferência em lote dos leads de um responsável (ex.: vendedor que saiu da equipe)
+export default function ReatribuirLeadsModal({ isOpen, onClose, funil, onReatribuido }: ReatribuirLeadsModalProps) {
+  const [responsaveis, setResponsaveis] = useState<Responsavel[]>([])
+  const [origem, setOrigem] = useState("")
+  const [destino, setDestino] = useState("")
+  const [apenasFunil, setApenasFunil] = useState(true)
+  const [incluirConcluidos, setIncluirConcluidos] = useState(false)
+  const [isLoading, setIsLoading] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const { toast } = useToast()
+
+  useEffect(() => {
+    if (isOpen) {
+      setOrigem("")
+      setDestino("")
+      setApenasFunil(true)
+      setIncluirConcluidos(false)
+      loadResponsaveis()
+    }
+  }, [isOpen])
+
+  const loadResponsaveis = async () => {
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/leads/responsaveis')
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Erro ao carregar responsáveis')
+      setResponsaveis(data)
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const handleTransferir = async () => {
+    if (!origem || !destino) {
+      toast({
+        title: "Atenção",
+        description: "Selecione o responsável atual e o novo responsável",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setIsSaving(true)
+    try {
+      const response = await fetch('/api/leads/reatribuir', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          codUsuarioOrigem: Number(origem),
+          codUsuarioDestino: Number(destino),
+          codFunil: apenasFunil ? funil?.CODFUNIL : undefined,
+          incluirConcluidos
+        })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.error || 'Erro ao transferir leads')
+
+      toast({
+        title: "Leads transferidos",
+        description: data.quantidade === 0
+          ? "Nenhum lead encontrado para este responsável"
+          : `${data.quantidade} lead(s) transferido(s)`,
+      })
+
+      if (data.quantidade > 0) onReatribuido()
+      onClose()
+    } catch (error: any) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[460px]">
+        <DialogHeader>
+          <DialogTitle>Transferir Leads</DialogTitle>
+          <DialogDescription>Move os leads de um responsável para outro usuário da equipe</DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="w-8 h-8 border-4 border-primary border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Responsável atual</Label>
+              <Select value={origem} onValueChange={setOrigem} disabled={isSaving}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  {responsaveis.map((r) => (
+                    <SelectItem key={r.id} value={String(r.id)}>
+                      {r.name}{r.status !== 'ativo' ? ` (${r.status})` : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Novo responsável</Label>
+              <Select value={destino} onValueChange={setDestino} disabled={isSaving}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Selecione" />
+                </SelectTrigger>
+                <SelectContent>
+                  {responsaveis
+                    .filter((r) => r.status === 'ativo' && String(r.id) !== origem)
+                    .map((r) => (
+                      <SelectItem key={r.id} value={String(r.id)}>{r.name}</SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {funil && (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox checked={apenasFunil} onCheckedChange={(checked) => setApenasFunil(checked === true)} />
+                Somente leads do funil {funil.NOME}
+              </label>
+            )}
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox checked={incluirConcluidos} onCheckedChange={(checked) => setIncluirConcluidos(checked === true)} />
+              Incluir leads ganhos e perdidos
+            </label>
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button variant="outline" onClick={onClose} disabled={isSaving}>
+                Cancelar
+              </Button>
+              <Button onClick={handleTransferir} disabled={isSaving || !origem || !destino}>
+                {isSaving ? "Transferindo..." : "Transferir"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,180 @@
+"use client"
+
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Button } from "@/components/ui/button"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import {
+  DIAS_SEMANA_ABREVIADOS,
+  FREQUENCIAS,
+  MAX_OCORRENCIAS,
+  ROTULOS_FREQUENCIA,
+  type FrequenciaRecorrencia,
+  type RegraRecorrencia
+} from "@/lib/recorrencia"
+
+interface RecorrenciaCamposProps {
+  regra: RegraRecorrencia | null
+  onChange: (regra: RegraRecorrencia | null) => void
+  // Dia da semana usado ao ativar a repetição semanal (0 = domingo)
+  diaSemanaInicial?: number
+  // Ao editar uma série a opção "Não repete" não é oferecida
+  obrigatoria?: boolean
+  disabled?: boolean
+}
+
+type Termino = 'NUNCA' | 'DATA' | 'QUANTIDADE'
+
+const UNIDADES: Record<FrequenciaRecorrencia, string> = {
+  DIARIA: 'dia(s)',
+  SEMANAL: 'semana(s)',
+  MENSAL: 'mês(es)'
+}
+
+// Campos da regra de repetição de uma atividade (frequência, intervalo, dias da semana e término)
+export default function RecorrenciaCampos({ regra, onChange, diaSemanaInicial = 1, obrigatoria, disabled }: RecorrenciaCamposProps) {
+  const termino: Termino = typeof regra?.ate === 'string' ? 'DATA' : regra?.quantidade ? 'QUANTIDADE' : 'NUNCA'
+
+  const alterarFrequencia = (valor: string) => {
+    if (valor === 'NAO_REPETE') {
+      onChange(null)
+      return
+    }
+    const frequencia = valor as FrequenciaRecorrencia
+    onChange({
+      ...regra,
+      frequencia,
+      intervalo: regra?.intervalo || 1,
+      diasSemana: frequencia === 'SEMANAL' ? (regra?.diasSemana?.length ? regra.diasSemana : [diaSemanaInicial]) : undefined
+    })
+  }
+
+  const alterarTermino = (valor: string) => {
+    if (!regra) return
+    onChange({
+      ...regra,
+      ate: valor === 'DATA' ? (regra.ate || '') : null,
+      quantidade: valor === 'QUANTIDADE' ? (regra.quantidade || 10) : null
+    })
+  }
+
+  const alternarDia = (dia: number) => {
+    if (!regra) return
+    const dias = regra.diasSemana || []
+    const novos = dias.includes(dia) ? dias.filter(d => d !== dia) : [...dias, dia].sort((a, b) => a - b)
+    // Pelo menos um dia fica marcado
+    if (novos.length > 0) onChange({ ...regra, diasSemana: novos })
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label className="text-xs">Repetir</Label>
+          <Select value={regra?.frequencia || 'NAO_REPETE'} onValueChange={alterarFrequencia} disabled={disabled}>
+            <SelectTrigger className="text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {!obrigatoria && <SelectItem value="NAO_REPETE">Não repete</SelectItem>}
+              {FREQUENCIAS.map(frequencia => (
+                <SelectItem key={frequencia} value={frequencia}>{ROTULOS_FREQUENCIA[frequencia]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {regra && (
+          <div>
+            <Label className="text-xs">A cada</Label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="number"
+                min={1}
+                max={99}
+                value={regra.intervalo}
+                onChange={(e) => onChange({ ...regra, intervalo: Math.max(1, parseInt(e.target.value) || 1) })}
+                className="text-xs w-20"
+                disabled={disabled}
+              />
+              <span className="text-xs text-muted-foreground">{UNIDADES[regra.frequencia]}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {regra?.frequencia === 'SEMANAL' && (
+        <div>
+          <Label className="text-xs">Dias da semana</Label>
+          <div className="flex flex-wrap gap-1 mt-1">
+            {DIAS_SEMANA_ABREVIADOS.map((nome, dia) => (
+              <Button
+                key={nome}
+                type="button"
+                size="sm"
+                variant={regra.diasSemana?.includes(dia) ? 'default' : 'outline'}
+                className="h-7 px-2 text-xs"
+                onClick={() => alternarDia(dia)}
+                disabled={disabled}
+              >
+                {nome}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {regra && (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label className="text-xs">Termina</Label>
+            <Select value={termino} onValueChange={alterarTermino} disabled={disabled}>
+              <SelectTrigger className="text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="NUNCA">Nunca</SelectItem>
+                <SelectItem value="DATA">Em uma data</SelectItem>
+                <SelectItem value="QUANTIDADE">Após N ocorrências</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {termino === 'DATA' && (
+            <div>
+              <Label className="text-xs">Até</Label>
+              <Input
+                type="date"
+                value={regra.ate || ''}
+                onChange={(e) => onChange({ ...regra, ate: e.target.value })}
+                className="text-xs"
+                disabled={disabled}
+              />
+            </div>
+          )}
+
+          {termino === 'QUANTIDADE' && (
+            <div>
+              <Label className="text-xs">Ocorrências</Label>
+              <Input
+                type="number"
+                min={1}
+                max={MAX_OCORRENCIAS}
+                value={regra.quantidade || ''}
+                onChange={(e) => onChange({ ...regra, quantidade: Math.max(1, parseInt(e.target.value) || 1) })}
+                className="text-xs"
+                disabled={disabled}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
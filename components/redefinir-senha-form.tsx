@@ -0,0 +1,148 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { useRouter, useSearchParams } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import Link from "next/link"
+import Image from "next/image"
+
+export default function RedefinirSenhaForm() {
+  const router = useRouter()
+  const searchParams = useSearchParams()
+  const token = searchParams.get("token") || ""
+  const [formData, setFormData] = useState({
+    password: "",
+    confirmPassword: "",
+  })
+  const [error, setError] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData({
+      ...formData,
+      [e.target.name]: e.target.value,
+    })
+    setError("")
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+
+    if (formData.password !== formData.confirmPassword) {
+      setError("As senhas não coincidem")
+      return
+    }
+
+    if (formData.password.length < 8) {
+      setError("A senha deve ter pelo menos 8 caracteres")
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch('/api/auth/redefinir-senha', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ token, novaSenha: formData.password }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Erro ao redefinir senha')
+      }
+
+      alert("Senha redefinida com sucesso! Faça login com a nova senha.")
+      router.push("/")
+    } catch (err: any) {
+      setError(err.message || "Erro ao redefinir senha. Tente novamente.")
+      console.error(err)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="w-full max-w-md bg-card rounded-lg shadow-xl p-8">
+      <div className="flex flex-col items-center mb-8">
+        <div className="mb-4">
+          <Image
+            src="/sankhya-logo-horizontal.png"
+            alt="Sankhya Logo"
+            width={240}
+            height={80}
+            className="object-contain"
+          />
+        </div>
+        <h1 className="text-lg font-semibold text-foreground">Redefinir senha</h1>
+      </div>
+
+      {!token ? (
+        <p className="text-sm text-center text-muted-foreground">
+          Link de redefinição inválido. Solicite um novo link em{" "}
+          <Link href="/esqueci-senha" className="text-primary hover:underline">
+            Esqueci minha senha
+          </Link>
+          .
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="password" className="text-sm text-muted-foreground">
+              Nova senha
+            </Label>
+            <Input
+              id="password"
+              name="password"
+              type="password"
+              value={formData.password}
+              onChange={handleChange}
+              className="bg-background border-input"
+              autoComplete="new-password"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="confirmPassword" className="text-sm text-muted-foreground">
+              Confirmar nova senha
+            </Label>
+            <Input
+              id="confirmPassword"
+              name="confirmPassword"
+              type="password"
+              value={formData.confirmPassword}
+              onChange={handleChange}
+              className="bg-background border-input"
+              autoComplete="new-password"
+              required
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <Button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-primary hover:bg-primary/90 text-primary-foreground font-medium uppercase tracking-wide"
+          >
+            {isSubmitting ? "Salvando..." : "Redefinir senha"}
+          </Button>
+        </form>
+      )}
+
+      <div className="mt-6 text-center">
+        <Link href="/" className="text-sm text-primary hover:text-primary/90 font-medium">
+          Voltar para o login
+        </Link>
+      </div>
+    </div>
+  )
+}
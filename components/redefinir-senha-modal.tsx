@@ -0,0 +1,119 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { toast } from "@/components/ui/use-toast"
+import type { User } from "@/lib/types"
+
+interface RedefinirSenhaModalProps {
+  isOpen: boolean
+  onClose: () => void
+  user: User | null
+}
+
+export default function RedefinirSenhaModal({ isOpen, onClose, user }: RedefinirSenhaModalProps) {
+  const [novaSenha, setNovaSenha] = useState("")
+  const [confirmacao, setConfirmacao] = useState("")
+  const [error, setError] = useState("")
+  const [isLoading, setIsLoading] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      setNovaSenha("")
+      setConfirmacao("")
+      setError("")
+    }
+  }, [isOpen])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user) return
+
+    if (novaSenha !== confirmacao) {
+      setError("As senhas não coincidem")
+      return
+    }
+
+    if (novaSenha.length < 8) {
+      setError("A senha deve ter pelo menos 8 caracteres")
+      return
+    }
+
+    setIsLoading(true)
+    try {
+      const response = await fetch('/api/usuarios/senha', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: user.id, novaSenha })
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Erro ao redefinir senha')
+      }
+
+      toast({
+        title: "Senha redefinida",
+        description: `As sessões abertas de ${user.name} foram encerradas.`,
+      })
+      onClose()
+    } catch (err: any) {
+      setError(err.message || "Erro ao redefinir senha")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle>Redefinir Senha</DialogTitle>
+          <DialogDescription>{user ? `${user.name} (${user.email})` : ""}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="novaSenha">Nova senha</Label>
+            <Input
+              id="novaSenha"
+              type="password"
+              value={novaSenha}
+              onChange={(e) => { setNovaSenha(e.target.value); setError("") }}
+              autoComplete="new-password"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="confirmacaoSenha">Confirmar nova senha</Label>
+            <Input
+              id="confirmacaoSenha"
+              type="password"
+              value={confirmacao}
+              onChange={(e) => { setConfirmacao(e.target.value); setError("") }}
+              autoComplete="new-password"
+              required
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <div className="flex justify-end gap-3">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button type="submit" disabled={isLoading}>
+              {isLoading ? "Salvando..." : "Redefinir"}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,207 @@
+"use client"
+
+import type React from "react"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import Link from "next/link"
+import Image from "next/image"
+
+export default function SetupForm() {
+  const router = useRouter()
+  const [formData, setFormData] = useState({
+    token: "",
+    name: "",
+    email: "",
+    password: "",
+    confirmPassword: "",
+  })
+  const [disponivel, setDisponivel] = useState<boolean | null>(null)
+  const [error, setError] = useState("")
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  useEffect(() => {
+    fetch('/api/auth/setup')
+      .then((res) => (res.ok ? res.json() : { disponivel: false }))
+      .then((data) => setDisponivel(!!data.disponivel))
+      .catch(() => setDisponivel(false))
+  }, [])
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData({
+      ...formData,
+      [e.target.name]: e.target.value,
+    })
+    setError("")
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError("")
+
+    if (formData.password !== formData.confirmPassword) {
+      setError("As senhas não coincidem")
+      return
+    }
+
+    if (formData.password.length < 8) {
+      setError("A senha deve ter pelo menos 8 caracteres")
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch('/api/auth/setup', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          token: formData.token,
+          name: formData.name,
+          email: formData.email,
+          password: formData.password,
+        }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Erro ao concluir a configuração inicial')
+      }
+
+      alert("Administrador criado com sucesso! Faça login para continuar.")
+      router.push("/")
+    } catch (err: any) {
+      setError(err.message || "Erro ao concluir a configuração inicial. Tente novamente.")
+      console.error(err)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="w-full max-w-md bg-card rounded-lg shadow-xl p-8">
+      <div className="flex flex-col items-center mb-8">
+        <div className="mb-4">
+          <Image
+            src="/sankhya-logo-horizontal.png"
+            alt="Sankhya Logo"
+            width={240}
+            height={80}
+            className="object-contain"
+          />
+        </div>
+        <h1 className="text-lg font-semibold text-foreground">Configuração inicial</h1>
+        <p className="text-sm text-muted-foreground text-center">
+          Cadastre o primeiro administrador usando o token de configuração do servidor.
+        </p>
+      </div>
+
+      {disponivel === null ? (
+        <p className="text-sm text-center text-muted-foreground">Verificando...</p>
+      ) : !disponivel ? (
+        <p className="text-sm text-center text-muted-foreground">
+          A configuração inicial não está disponível: já existe um administrador cadastrado ou o token de configuração não foi definido.
+        </p>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="token" className="text-sm text-muted-foreground">
+              Token de configuração
+            </Label>
+            <Input
+              id="token"
+              name="token"
+              type="password"
+              value={formData.token}
+              onChange={handleChange}
+              className="bg-background border-input"
+              autoComplete="off"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="name" className="text-sm text-muted-foreground">
+              Nome Completo
+            </Label>
+            <Input
+              id="name"
+              name="name"
+              type="text"
+              value={formData.name}
+              onChange={handleChange}
+              className="bg-background border-input"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="email" className="text-sm text-muted-foreground">
+              E-mail
+            </Label>
+            <Input
+              id="email"
+              name="email"
+              type="email"
+              value={formData.email}
+              onChange={handleChange}
+              className="bg-background border-input"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="password" className="text-sm text-muted-foreground">
+              Senha
+            </Label>
+            <Input
+              id="password"
+              name="password"
+              type="password"
+              value={formData.password}
+              onChange={handleChange}
+              className="bg-background border-input"
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="confirmPassword" className="text-sm text-muted-foreground">
+              Confirmar Senha
+            </Label>
+            <Input
+              id="confirmPassword"
+              name="confirmPassword"
+              type="password"
+              value={formData.confirmPassword}
+              onChange={handleChange}
+              className="bg-background border-input"
+              required
+            />
+          </div>
+
+          {error && <p className="text-sm text-destructive">{error}</p>}
+
+          <Button
+            type="submit"
+            disabled={isSubmitting}
+            className="w-full bg-primary hover:bg-primary/90 text-primary-foreground font-medium uppercase tracking-wide"
+          >
+            {isSubmitting ? "Criando..." : "Criar administrador"}
+          </Button>
+        </form>
+      )}
+
+      <div className="mt-6 text-center">
+        <Link href="/" className="text-sm text-primary hover:text-primary/90 font-medium">
+          Voltar para o login
+        </Link>
+      </div>
+    </div>
+  )
+}
@@ -2,7 +2,7 @@
 
 import Link from "next/link"
 import { usePathname, useRouter } from "next/navigation"
-import { Home, Users, ChevronLeft, ChevronRight, LogOut, UserCircle, LayoutGrid, Package, ShoppingCart, Calendar, DollarSign } from "lucide-react"
+import { Home, Users, ChevronLeft, ChevronRight, LogOut, UserCircle, LayoutGrid, Package, ShoppingCart, Calendar, DollarSign, Server, History, BarChart3 } from "lucide-react"
 import { cn } from "@/lib/utils"
 import { Button } from "@/components/ui/button"
 import Image from "next/image"
@@ -29,13 +29,18 @@ export default function Sidebar({ isOpen, onClose, isCollapsed, onToggleCollapse
   const menuItems = [
     { href: "/dashboard", label: "Início", icon: Home },
     { href: "/dashboard/leads", label: "Negócios", icon: LayoutGrid },
+    { href: "/dashboard/funil-metricas", label: "Métricas do Funil", icon: BarChart3 },
     { href: "/dashboard/calendario", label: "Tarefas", icon: Calendar },
     { href: "/dashboard/pedidos", label: "Pedidos de Vendas", icon: ShoppingCart },
     { href: "/dashboard/financeiro", label: "Financeiro", icon: DollarSign },
     { href: "/dashboard/parceiros", label: "Clientes", icon: Users },
     { href: "/dashboard/produtos", label: "Produtos", icon: Package },
     ...(currentUser?.role === "Administrador"
-      ? [{ href: "/dashboard/usuarios", label: "Usuários", icon: UserCircle }]
+      ? [
+          { href: "/dashboard/usuarios", label: "Usuários", icon: UserCircle },
+          { href: "/dashboard/ambiente", label: "Ambiente Sankhya", icon: Server },
+          { href: "/dashboard/auditoria", label: "Auditoria", icon: History },
+        ]
       : []),
     ...(currentUser?.role === "Gerente"
       ? [{ href: "/dashboard/equipe", label: "Equipe Comercial", icon: Users }]
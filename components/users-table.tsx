@@ -1,11 +1,12 @@
 "use client"
 
 import { useState, useEffect } from "react"
-import { Search, Pencil, Trash2, Check, X } from "lucide-react"
+import { Search, Pencil, Trash2, Check, X, KeyRound, LockOpen, ShieldOff } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import type { User } from "@/lib/types"
 import UserModal from "./user-modal"
+import RedefinirSenhaModal from "./redefinir-senha-modal"
 import { Badge } from "@/components/ui/badge"
 
 export default function UsersTable() {
@@ -18,6 +19,9 @@ export default function UsersTable() {
   const [isLoading, setIsLoading] = useState(true)
   const [currentUserRole, setCurrentUserRole] = useState<string>("Administrador")
   const [vendedoresMap, setVendedoresMap] = useState<Record<number, string>>({})
+  const [usuarioSenha, setUsuarioSenha] = useState<User | null>(null)
+  // Emails (minúsculos) com login bloqueado por tentativas -> fim do bloqueio
+  const [bloqueiosLogin, setBloqueiosLogin] = useState<Record<string, number>>({})
 
   useEffect(() => {
     loadUsers()
@@ -50,8 +54,8 @@ export default function UsersTable() {
       setUsers(data)
       setFilteredUsers(data)
       
-      // Carregar nomes de vendedores/gerentes
-      await loadVendedoresNomes(data)
+      // Carregar nomes de vendedores/gerentes e bloqueios de login
+      await Promise.all([loadVendedoresNomes(data), loadBloqueiosLogin()])
     } catch (error) {
       console.error("Error loading users:", error)
     } finally {
@@ -83,6 +87,53 @@ export default function UsersTable() {
     }
   }
 
+  const loadBloqueiosLogin = async () => {
+    try {
+      const response = await fetch('/api/usuarios/bloqueios-login')
+      if (!response.ok) return
+      const bloqueios: Array<{ email: string; bloqueadoAte: number }> = await response.json()
+
+      const map: Record<string, number> = {}
+      bloqueios.forEach(b => {
+        map[b.email] = b.bloqueadoAte
+      })
+      setBloqueiosLogin(map)
+    } catch (error) {
+      console.error("Error loading login lockouts:", error)
+    }
+  }
+
+  const handleUnlockLogin = async (id: number) => {
+    try {
+      const response = await fetch('/api/usuarios/desbloquear-login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id })
+      })
+      if (!response.ok) throw new Error('Erro ao desbloquear login')
+      await loadBloqueiosLogin()
+    } catch (error) {
+      console.error("Error unlocking login:", error)
+    }
+  }
+
+  const handleResetTwoFactor = async (user: User) => {
+    if (!confirm(`Remover a autenticação em dois fatores de ${user.name}? O usuário precisará cadastrá-la novamente.`)) return
+
+    try {
+      const response = await fetch('/api/usuarios/redefinir-2fa', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: user.id })
+      })
+      if (!response.ok) throw new Error('Erro ao redefinir 2FA')
+    } catch (error) {
+      console.error("Error resetting two-factor:", error)
+    }
+  }
+
+  const getBloqueioLogin = (user: User) => bloqueiosLogin[user.email.trim().toLowerCase()]
+
   const handleCreate = () => {
     setSelectedUser(null)
     setModalMode("create")
@@ -310,7 +361,20 @@ export default function UsersTable() {
                         ? vendedoresMap[user.codVendedor] 
                         : '-'}
                     </td>
-                    <td className="px-6 py-4 text-sm">{getStatusBadge(user.status)}</td>
+                    <td className="px-6 py-4 text-sm">
+                      <div className="flex flex-wrap items-center gap-1">
+                        {getStatusBadge(user.status)}
+                        {getBloqueioLogin(user) && (
+                          <Badge
+                            variant="outline"
+                            className="border-orange-500 text-orange-600"
+                            title={`Bloqueado até ${new Date(getBloqueioLogin(user)).toLocaleString('pt-BR')}`}
+                          >
+                            Login bloqueado
+                          </Badge>
+                        )}
+                      </div>
+                    </td>
                     {isAdmin && (
                       <td className="px-6 py-4">
                         <div className="flex gap-2">
@@ -343,6 +407,37 @@ export default function UsersTable() {
                                 <Pencil className="w-3 h-3" />
                                 Editar
                               </Button>
+                              {getBloqueioLogin(user) && (
+                                <Button
+                                  size="sm"
+                                  onClick={() => handleUnlockLogin(user.id)}
+                                  className="bg-orange-500 hover:bg-orange-600 text-white font-medium uppercase text-xs flex items-center gap-1"
+                                  title="Desbloquear Login"
+                                >
+                                  <LockOpen className="w-3 h-3" />
+                                  Desbloquear
+                                </Button>
+                              )}
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => setUsuarioSenha(user)}
+                                className="font-medium uppercase text-xs flex items-center gap-1"
+                                title="Redefinir Senha"
+                              >
+                                <KeyRound className="w-3 h-3" />
+                                Senha
+                              </Button>
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                onClick={() => handleResetTwoFactor(user)}
+                                className="font-medium uppercase text-xs flex items-center gap-1"
+                                title="Redefinir Autenticação em Dois Fatores"
+                              >
+                                <ShieldOff className="w-3 h-3" />
+                                2FA
+                              </Button>
                               {user.status === "ativo" && (
                                 <Button
                                   size="sm"
@@ -386,6 +481,14 @@ export default function UsersTable() {
           mode={modalMode}
         />
       )}
+
+      {isAdmin && (
+        <RedefinirSenhaModal
+          isOpen={usuarioSenha !== null}
+          onClose={() => setUsuarioSenha(null)}
+          user={usuarioSenha}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,24 @@
+// Executado uma vez na inicialização do servidor Next.js
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { validarConfigSankhya } = await import('./lib/sankhya-config')
+    validarConfigSankhya()
+
+    const { validarConfigSessao } = await import('./lib/session-service')
+    validarConfigSessao()
+
+    const { validarConfigDoisFatores } = await import('./lib/dois-fatores-service')
+    validarConfigDoisFatores()
+
+    const { validarConfigEmail } = await import('./lib/email-service')
+    validarConfigEmail()
+
+    // Primeiro administrador a partir de ADMIN_BOOTSTRAP_* (ignorado se já existir administrador ativo)
+    const { bootstrapAdminPorAmbiente } = await import('./lib/bootstrap-admin')
+    await bootstrapAdminPorAmbiente()
+
+    // Lembretes de atividades e resumo diário de atrasadas
+    const { iniciarAgendadorNotificacoes } = await import('./lib/lembretes-service')
+    iniciarAgendadorNotificacoes()
+  }
+}
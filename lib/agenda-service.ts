@@ -0,0 +1,66 @@
+import { loadRecords, datasetSave, mapearEntidades } from './sankhya-gateway';
+import { montarCriteria, inList } from './sankhya-criteria';
+import { usersService } from './users-service';
+import { lerExpediente, normalizarExpediente, type Expediente } from './agenda';
+
+// Expediente de cada vendedor, exibido nas visões de semana e dia do calendário.
+// Fica em AD_USUARIOSVENDAS.EXPEDIENTE como JSON; sem valor gravado vale EXPEDIENTE_PADRAO.
+
+export interface ExpedienteUsuario {
+  id: number
+  name: string
+  expediente: Expediente
+}
+
+// `userIds` null: todos os usuários ativos
+export async function consultarExpedientes(userIds: number[] | null): Promise<ExpedienteUsuario[]> {
+  const permitidos = userIds ? new Set(userIds) : null;
+  const usuarios = (await usersService.getAll())
+    .filter(u => u.status === 'ativo' && (!permitidos || permitidos.has(u.id)));
+  if (usuarios.length === 0) return [];
+
+  const PAYLOAD = {
+    "requestBody": {
+      "dataSet": {
+        "rootEntity": "AD_USUARIOSVENDAS",
+        "includePresentationFields": "N",
+        "offsetPage": "0",
+        "entity": {
+          "fieldset": {
+            "list": "CODUSUARIO, EXPEDIENTE"
+          }
+        },
+        "criteria": montarCriteria(inList('CODUSUARIO', usuarios.map(u => u.id)))
+      }
+    }
+  };
+
+  const resposta = await loadRecords(PAYLOAD);
+  const registros = new Map<number, string | undefined>(
+    mapearEntidades(resposta?.responseBody?.entities).map((r: any) => [Number(r.CODUSUARIO), r.EXPEDIENTE])
+  );
+
+  return usuarios
+    .map(u => ({ id: u.id, name: u.name, expediente: lerExpediente(registros.get(u.id)) }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function salvarExpediente(userId: number, expediente: Expediente): Promise<Expediente> {
+  const normalizado = normalizarExpediente(expediente);
+
+  await datasetSave({
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_USUARIOSVENDAS",
+      "standAlone": false,
+      "fields": ["EXPEDIENTE"],
+      "records": [{
+        "pk": { "CODUSUARIO": String(userId) },
+        "values": { "0": JSON.stringify(normalizado) }
+      }]
+    }
+  });
+
+  console.log(`🕘 Expediente atualizado para o usuário ${userId}`);
+  return normalizado;
+}
@@ -0,0 +1,152 @@
+// Regras das visões de semana e dia do calendário, compartilhadas entre servidor e cliente:
+// expediente de cada vendedor, eventos de dia inteiro, colunas de eventos sobrepostos e conflitos de horário
+
+export interface Expediente {
+  // Dias da semana trabalhados (0 = domingo)
+  dias: number[]
+  // HH:mm
+  inicio: string
+  fim: string
+}
+
+export interface EventoAgenda {
+  CODEVENTO: string
+  DATA_INICIO: string
+  DATA_FIM: string
+  CODUSUARIO?: number | string | null
+}
+
+export const EXPEDIENTE_PADRAO: Expediente = { dias: [1, 2, 3, 4, 5], inicio: '08:00', fim: '18:00' };
+
+// Passo do arrastar e redimensionar, em minutos
+export const MINUTOS_PASSO = 15;
+
+const FORMATO_HORARIO = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export const minutosDoHorario = (horario: string) => {
+  const [hora, min] = horario.split(':').map(Number);
+  return hora * 60 + min;
+};
+
+export const minutosDoDia = (data: Date) => data.getHours() * 60 + data.getMinutes();
+
+export const mesmoDia = (a: Date, b: Date) =>
+  a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
+
+// Retorna a mensagem do primeiro problema encontrado ou null
+export function validarExpediente(expediente: any): string | null {
+  if (!expediente || typeof expediente !== 'object') return 'Expediente inválido';
+
+  const { dias, inicio, fim } = expediente;
+  if (!Array.isArray(dias) || dias.some(d => !Number.isInteger(d) || d < 0 || d > 6)) return 'Dias da semana inválidos';
+  if (typeof inicio !== 'string' || !FORMATO_HORARIO.test(inicio)) return 'Horário de início inválido';
+  if (typeof fim !== 'string' || !FORMATO_HORARIO.test(fim)) return 'Horário de término inválido';
+  if (minutosDoHorario(fim) <= minutosDoHorario(inicio)) return 'O término do expediente deve ser depois do início';
+
+  return null;
+}
+
+// Expediente gravado como JSON; valor ausente ou inválido volta ao padrão
+export function lerExpediente(texto?: string | null): Expediente {
+  if (!texto) return EXPEDIENTE_PADRAO;
+  try {
+    const expediente = JSON.parse(texto);
+    return validarExpediente(expediente) ? EXPEDIENTE_PADRAO : normalizarExpediente(expediente);
+  } catch {
+    return EXPEDIENTE_PADRAO;
+  }
+}
+
+export function normalizarExpediente(expediente: Expediente): Expediente {
+  return {
+    dias: Array.from(new Set(expediente.dias)).sort((a, b) => a - b),
+    inicio: expediente.inicio,
+    fim: expediente.fim
+  };
+}
+
+// Evento com horário que começa ou termina fora do expediente (dia não trabalhado incluído)
+export function foraDoExpediente(expediente: Expediente, inicio: Date, fim: Date): boolean {
+  if (!expediente.dias.includes(inicio.getDay())) return true;
+  if (!mesmoDia(inicio, fim) && minutosDoDia(fim) !== 0) return true;
+
+  const fimMinutos = mesmoDia(inicio, fim) ? minutosDoDia(fim) : 24 * 60;
+  return minutosDoDia(inicio) < minutosDoHorario(expediente.inicio) || fimMinutos > minutosDoHorario(expediente.fim);
+}
+
+// Atividades criadas sem horário ocupam o dia todo (00:00 a 23:59:59) e vão para a faixa de dia inteiro
+export function ehDiaInteiro(evento: EventoAgenda): boolean {
+  const inicio = new Date(evento.DATA_INICIO);
+  const fim = new Date(evento.DATA_FIM || evento.DATA_INICIO);
+  return (minutosDoDia(inicio) === 0 && fim.getHours() === 23 && fim.getMinutes() === 59)
+    || fim.getTime() - inicio.getTime() >= 24 * 60 * 60 * 1000;
+}
+
+const intervalo = (evento: EventoAgenda) => {
+  const inicio = new Date(evento.DATA_INICIO).getTime();
+  // Evento sem duração ocupa um passo, para aparecer e entrar na detecção de conflito
+  const fim = Math.max(new Date(evento.DATA_FIM || evento.DATA_INICIO).getTime(), inicio + MINUTOS_PASSO * 60000);
+  return { inicio, fim };
+};
+
+const sobrepoem = (a: EventoAgenda, b: EventoAgenda) => {
+  const ia = intervalo(a);
+  const ib = intervalo(b);
+  return ia.inicio < ib.fim && ib.inicio < ia.fim;
+};
+
+// Coluna de cada evento dentro do seu grupo de sobrepostos, para exibi-los lado a lado
+export function distribuirColunas(eventos: EventoAgenda[]): Map<string, { coluna: number; colunas: number }> {
+  const ordenados = [...eventos].sort((a, b) => intervalo(a).inicio - intervalo(b).inicio || intervalo(b).fim - intervalo(a).fim);
+  const posicoes = new Map<string, { coluna: number; colunas: number }>();
+
+  let grupo: EventoAgenda[] = [];
+  let fimGrupo = -Infinity;
+  let finsColunas: number[] = [];
+
+  const fecharGrupo = () => {
+    grupo.forEach(evento => {
+      posicoes.set(evento.CODEVENTO, { coluna: posicoes.get(evento.CODEVENTO)!.coluna, colunas: finsColunas.length });
+    });
+    grupo = [];
+    finsColunas = [];
+  };
+
+  for (const evento of ordenados) {
+    const { inicio, fim } = intervalo(evento);
+    if (inicio >= fimGrupo) fecharGrupo();
+
+    let coluna = finsColunas.findIndex(fimColuna => fimColuna <= inicio);
+    if (coluna === -1) {
+      coluna = finsColunas.length;
+      finsColunas.push(fim);
+    } else {
+      finsColunas[coluna] = fim;
+    }
+
+    posicoes.set(evento.CODEVENTO, { coluna, colunas: 0 });
+    grupo.push(evento);
+    fimGrupo = grupo.length === 1 ? fim : Math.max(fimGrupo, fim);
+  }
+  fecharGrupo();
+
+  return posicoes;
+}
+
+// Eventos que se sobrepõem a outro do mesmo responsável
+export function detectarConflitos(eventos: EventoAgenda[]): Map<string, EventoAgenda[]> {
+  const conflitos = new Map<string, EventoAgenda[]>();
+
+  for (let i = 0; i < eventos.length; i++) {
+    for (let j = i + 1; j < eventos.length; j++) {
+      const a = eventos[i];
+      const b = eventos[j];
+      if (String(a.CODUSUARIO ?? '') !== String(b.CODUSUARIO ?? '') || !sobrepoem(a, b)) continue;
+
+      conflitos.set(a.CODEVENTO, [...(conflitos.get(a.CODEVENTO) || []), b]);
+      conflitos.set(b.CODEVENTO, [...(conflitos.get(b.CODEVENTO) || []), a]);
+    }
+  }
+
+  return conflitos;
+}
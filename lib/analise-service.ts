@@ -1,4 +1,10 @@
 import { redisCacheService } from './redis-cache-service';
+import { loadRecords, mapearEntidades, type LoadRecordsPayload } from './sankhya-gateway';
+import { montarCriteria, eq, entreDatas, inList, isNull, or } from './sankhya-criteria';
+import { consultarEstagiosFunil, type EstagioFunil } from './funis-service';
+import { consultarHistoricoFunil, agruparPorLead, lerDataHoraSankhya, type MudancaEstagio } from './historico-estagios-service';
+import { consultarMotivos, type MotivoLead } from './motivos-service';
+import type { Lead } from './leads-service';
 
 export interface FiltroAnalise {
   dataInicio: string; // YYYY-MM-DD
@@ -15,124 +21,52 @@ export interface DadosAnalise {
   produtos: any[];
   clientes: any[];
   financeiro: any[];
+  motivosPerda: MotivoPerda[];
   filtro: FiltroAnalise;
   timestamp: string;
 }
 
-const LOGIN_HEADERS = {
-  'token': process.env.SANKHYA_TOKEN || "",
-  'appkey': process.env.SANKHYA_APPKEY || "",
-  'username': process.env.SANKHYA_USERNAME || "",
-  'password': process.env.SANKHYA_PASSWORD || ""
-};
-
-const ENDPOINT_LOGIN = "https://api.sandbox.sankhya.com.br/login";
-const URL_CONSULTA_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=CRUDServiceProvider.loadRecords&outputType=json";
-
-let cachedToken: string | null = null;
-let tokenPromise: Promise<string> | null = null;
-
-async function obterToken(retryCount = 0): Promise<string> {
-  // Se já tem token em cache, retornar imediatamente
-  if (cachedToken) {
-    return cachedToken;
-  }
-
-  // Se já está buscando token, aguardar a requisição em andamento
-  if (tokenPromise) {
-    return tokenPromise;
-  }
-
-  const MAX_RETRIES = 3;
-  const RETRY_DELAY = 2000;
-
-  // Criar promise para evitar requisições duplicadas
-  tokenPromise = (async () => {
-    try {
-      console.log("🔐 Solicitando novo token de autenticação (analise-service)...");
-      const axios = (await import('axios')).default;
-      const resposta = await axios.post(ENDPOINT_LOGIN, {}, {
-        headers: LOGIN_HEADERS,
-        timeout: 30000 // Aumentado para 30s
-      });
-
-      const token = resposta.data.bearerToken || resposta.data.token;
-      if (!token) {
-        throw new Error("Token não encontrado na resposta de login.");
-      }
-
-      cachedToken = token;
-      console.log("✅ Token obtido com sucesso (analise-service)");
-      return token;
-    } catch (erro: any) {
-      // Retry para erros de timeout ou 500
-      if ((erro.code === 'ECONNABORTED' || erro.response?.status === 500) && retryCount < MAX_RETRIES) {
-        console.log(`🔄 Retry autenticação (${retryCount + 1}/${MAX_RETRIES})...`);
-        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * (retryCount + 1)));
-        tokenPromise = null;
-        return obterToken(retryCount + 1);
-      }
-
-      cachedToken = null;
-      tokenPromise = null;
-      
-      const errorMsg = erro.code === 'ECONNABORTED' 
-        ? 'Timeout ao conectar com Sankhya' 
-        : erro.message;
-      
-      throw new Error(`Falha na autenticação Sankhya: ${errorMsg}`);
-    } finally {
-      tokenPromise = null;
-    }
-  })();
-
-  return tokenPromise;
+export interface MetricaEstagio {
+  CODESTAGIO: string
+  NOME: string
+  ORDEM: number
+  // Vezes em que leads entraram no estágio no período
+  entradas: number
+  // Passagens encerradas (o lead já saiu do estágio), base do tempo médio
+  saidas: number
+  tempoMedioMs: number | null
+  // Saídas para um estágio anterior do funil
+  retrocessos: number
+  // % dos leads que entraram no estágio e depois chegaram a um estágio posterior
+  taxaConversao: number | null
 }
 
-async function fazerRequisicaoAutenticada(fullUrl: string, data: any = {}, retryCount = 0) {
-  const axios = (await import('axios')).default;
-  const MAX_RETRIES = 2;
-  const RETRY_DELAY = 1000;
+export interface MetricasEstagiosFunil {
+  CODFUNIL: string
+  estagios: MetricaEstagio[]
+  totalLeads: number
+}
 
-  try {
-    const token = await obterToken();
-
-    const config = {
-      method: 'post',
-      url: fullUrl,
-      data: data,
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      },
-      timeout: 30000 // Aumentado para 30s
-    };
+export interface FiltroMetricasEstagios {
+  // Restringe aos leads informados (escopo do usuário); ausente = todos os leads do funil
+  codLeads?: Array<string | number>
+  dataInicio?: string | null // YYYY-MM-DD
+  dataFim?: string | null // YYYY-MM-DD
+}
 
-    const resposta = await axios(config);
-    return resposta.data;
-  } catch (erro: any) {
-    // Token expirado - limpar cache e tentar novamente
-    if (erro.response && (erro.response.status === 401 || erro.response.status === 403)) {
-      cachedToken = null;
-      
-      if (retryCount < 1) {
-        console.log("🔄 Token expirado, obtendo novo...");
-        await new Promise(resolve => setTimeout(resolve, 500));
-        return fazerRequisicaoAutenticada(fullUrl, data, retryCount + 1);
-      }
-      
-      throw new Error("Sessão expirada. Tente novamente.");
-    }
+export interface MotivoPerda {
+  CODMOTIVO: string | null
+  motivo: string
+  quantidade: number
+  valor: number
+  percentual: number
+}
 
-    // Retry para timeout ou erros de rede
-    if ((erro.code === 'ECONNABORTED' || erro.response?.status >= 500) && retryCount < MAX_RETRIES) {
-      console.log(`🔄 Retry requisição (${retryCount + 1}/${MAX_RETRIES})...`);
-      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * (retryCount + 1)));
-      return fazerRequisicaoAutenticada(fullUrl, data, retryCount + 1);
-    }
+const SEM_MOTIVO = 'Não informado';
 
-    throw erro;
-  }
+// Consultas de análise trazem volumes maiores, então usam timeout estendido
+function consultarRegistros(payload: LoadRecordsPayload) {
+  return loadRecords(payload, { timeout: 30000 });
 }
 
 function formatarDataParaSankhya(dataISO: string): string {
@@ -140,29 +74,6 @@ function formatarDataParaSankhya(dataISO: string): string {
   return `${dia}/${mes}/${ano}`;
 }
 
-function mapearEntidades(entities: any): any[] {
-  if (!entities || !entities.entity) {
-    return [];
-  }
-
-  const fieldNames = entities.metadata.fields.field.map((f: any) => f.name);
-  const entityArray = Array.isArray(entities.entity) ? entities.entity : [entities.entity];
-
-  return entityArray.map((rawEntity: any) => {
-    const cleanObject: any = {};
-
-    for (let i = 0; i < fieldNames.length; i++) {
-      const fieldKey = `f${i}`;
-      const fieldName = fieldNames[i];
-      if (rawEntity[fieldKey]) {
-        cleanObject[fieldName] = rawEntity[fieldKey].$;
-      }
-    }
-
-    return cleanObject;
-  });
-}
-
 export async function buscarDadosAnalise(
   filtro: FiltroAnalise,
   userId: number,
@@ -185,10 +96,11 @@ export async function buscarDadosAnalise(
 
   try {
     // 1. Buscar Leads (filtrado por data de criação)
-    let criteriaLeads = `DATA_CRIACAO BETWEEN '${dataInicioSankhya}' AND '${dataFimSankhya}' AND ATIVO = 'S'`;
-    if (!isAdmin) {
-      criteriaLeads += ` AND CODUSUARIO = ${userId}`;
-    }
+    const criteriaLeads = montarCriteria(
+      entreDatas('DATA_CRIACAO', dataInicioSankhya, dataFimSankhya),
+      eq('ATIVO', 'S'),
+      !isAdmin && eq('CODUSUARIO', Number(userId))
+    );
 
     const leadsPayload = {
       requestBody: {
@@ -199,12 +111,10 @@ export async function buscarDadosAnalise(
           disableRowsLimit: true,
           entity: {
             fieldset: {
-              list: "CODLEAD, NOME, DESCRICAO, VALOR, CODESTAGIO, DATA_VENCIMENTO, TIPO_TAG, COR_TAG, CODPARC, CODFUNIL, CODUSUARIO, ATIVO, DATA_CRIACAO, DATA_ATUALIZACAO, STATUS_LEAD, MOTIVO_PERDA, DATA_CONCLUSAO"
+              list: "CODLEAD, NOME, DESCRICAO, VALOR, CODESTAGIO, DATA_VENCIMENTO, TIPO_TAG, COR_TAG, CODPARC, CODFUNIL, CODUSUARIO, ATIVO, DATA_CRIACAO, DATA_ATUALIZACAO, STATUS_LEAD, MOTIVO_PERDA, CODMOTIVO, DATA_CONCLUSAO"
             }
           },
-          criteria: {
-            expression: { $: criteriaLeads }
-          }
+          criteria: criteriaLeads
         }
       }
     };
@@ -222,11 +132,10 @@ export async function buscarDadosAnalise(
               list: "CODATIVIDADE, CODLEAD, TIPO, DESCRICAO, DATA_HORA, DATA_INICIO, DATA_FIM, CODUSUARIO, DADOS_COMPLEMENTARES, COR, ORDEM, ATIVO, STATUS"
             }
           },
-          criteria: {
-            expression: {
-              $: `ATIVO = 'S' AND (DATA_HORA BETWEEN '${dataInicioSankhya}' AND '${dataFimSankhya}' OR DATA_HORA IS NULL)`
-            }
-          }
+          criteria: montarCriteria(
+            eq('ATIVO', 'S'),
+            or(entreDatas('DATA_HORA', dataInicioSankhya, dataFimSankhya), isNull('DATA_HORA'))
+          )
         }
       }
     };
@@ -273,25 +182,25 @@ export async function buscarDadosAnalise(
 
     // Buscar dados SEQUENCIALMENTE para evitar sobrecarga na API
     console.log('📥 Buscando leads...');
-    const leadsRes = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, leadsPayload).catch(err => {
+    const leadsRes = await consultarRegistros(leadsPayload).catch(err => {
       console.error('❌ Erro ao buscar leads:', err.message);
       return null;
     });
 
     console.log('📥 Buscando atividades...');
-    const atividadesRes = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, atividadesPayload).catch(err => {
+    const atividadesRes = await consultarRegistros(atividadesPayload).catch(err => {
       console.error('❌ Erro ao buscar atividades:', err.message);
       return null;
     });
 
     console.log('📥 Buscando funis...');
-    const funisRes = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, funisPayload).catch(err => {
+    const funisRes = await consultarRegistros(funisPayload).catch(err => {
       console.error('❌ Erro ao buscar funis:', err.message);
       return null;
     });
 
     console.log('📥 Buscando estágios...');
-    const estagiosRes = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, estagiosPayload).catch(err => {
+    const estagiosRes = await consultarRegistros(estagiosPayload).catch(err => {
       console.error('❌ Erro ao buscar estágios:', err.message);
       return null;
     });
@@ -309,11 +218,10 @@ export async function buscarDadosAnalise(
               list: "NUNOTA, CODPARC, CODVEND, VLRNOTA, DTNEG"
             }
           },
-          criteria: {
-            expression: {
-              $: `TIPMOV = 'P' AND DTNEG BETWEEN TO_DATE('${dataInicioSankhya}', 'DD/MM/YYYY') AND TO_DATE('${dataFimSankhya}', 'DD/MM/YYYY')`
-            }
-          },
+          criteria: montarCriteria(
+            eq('TIPMOV', 'P'),
+            entreDatas('DTNEG', dataInicioSankhya, dataFimSankhya)
+          ),
           ordering: {
             expression: {
               $: "DTNEG DESC, NUNOTA DESC"
@@ -325,13 +233,13 @@ export async function buscarDadosAnalise(
 
     console.log('📤 Payload de pedidos:', JSON.stringify(pedidosPayload, null, 2));
     
-    const pedidosRes = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, pedidosPayload).catch(err => {
+    const pedidosRes = await consultarRegistros(pedidosPayload).catch(err => {
       console.error('❌ Erro ao buscar pedidos:', err.message);
       return null;
     });
 
     console.log('📥 Buscando produtos...');
-    const produtosRes = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, {
+    const produtosRes = await consultarRegistros({
         requestBody: {
           dataSet: {
             rootEntity: "Produto",
@@ -354,7 +262,7 @@ export async function buscarDadosAnalise(
       });
 
     console.log('📥 Buscando clientes...');
-    const clientesRes = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, {
+    const clientesRes = await consultarRegistros({
         requestBody: {
           dataSet: {
             rootEntity: "Parceiro",
@@ -429,10 +337,13 @@ export async function buscarDadosAnalise(
       clientes: clientes.length
     });
 
+    console.log('📥 Buscando motivos de perda...');
+    const motivos = await consultarMotivos(null, 'PERDA', true);
+    const motivosPerda = calcularMotivosPerda(leads, motivos);
+
     // 5. Buscar Produtos dos Leads encontrados
     let produtosLeads: any[] = [];
     if (leads.length > 0) {
-      const codLeadsStr = leads.map(l => l.CODLEAD).join(',');
       const produtosLeadsPayload = {
         requestBody: {
           dataSet: {
@@ -445,20 +356,21 @@ export async function buscarDadosAnalise(
                 list: "CODITEM, CODLEAD, CODPROD, DESCRPROD, QUANTIDADE, VLRUNIT, VLRTOTAL, ATIVO, DATA_INCLUSAO"
               }
             },
-            criteria: {
-              expression: { $: `CODLEAD IN (${codLeadsStr}) AND ATIVO = 'S'` }
-            }
+            criteria: montarCriteria(
+              inList('CODLEAD', leads.map(l => Number(l.CODLEAD))),
+              eq('ATIVO', 'S')
+            )
           }
         }
       };
 
-      const produtosLeadsRes = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, produtosLeadsPayload);
+      const produtosLeadsRes = await consultarRegistros(produtosLeadsPayload);
       produtosLeads = produtosLeadsRes?.responseBody?.entities ? mapearEntidades(produtosLeadsRes.responseBody.entities) : [];
     }
 
     // 6. Buscar Títulos a Receber (financeiro, filtrado por data de vencimento) - Removido conforme solicitado
     // const financeiroPayload = { ... };
-    // const financeiroRes = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, financeiroPayload).catch(err => { ... });
+    // const financeiroRes = await consultarRegistros(financeiroPayload).catch(err => { ... });
     // const financeiro = financeiroRes?.responseBody?.entities ? mapearEntidades(financeiroRes.responseBody.entities) : [];
 
     const resultado: DadosAnalise = {
@@ -471,6 +383,7 @@ export async function buscarDadosAnalise(
       produtos,
       clientes,
       financeiro: [], // Financeiro não é mais buscado
+      motivosPerda,
       filtro,
       timestamp: new Date().toISOString()
     };
@@ -505,6 +418,7 @@ export async function buscarDadosAnalise(
       financeiro: [], // Financeiro não é mais buscado
       funis: resultado.funis,
       estagiosFunis: resultado.estagiosFunis,
+      motivosPerda: resultado.motivosPerda,
       timestamp: new Date().toISOString(),
       filtro,
       // Métricas calculadas
@@ -523,4 +437,102 @@ export async function buscarDadosAnalise(
     console.error('❌ Erro ao buscar dados de análise:', erro);
     throw erro;
   }
-}
\ No newline at end of file
+}
+
+// Leads perdidos agrupados pelo motivo do catálogo; perdas anteriores ao catálogo agrupam pelo texto livre
+export function calcularMotivosPerda(leads: Partial<Lead>[], motivos: MotivoLead[]): MotivoPerda[] {
+  const perdidos = leads.filter(l => l.STATUS_LEAD === 'PERDIDO');
+  const grupos = new Map<string, MotivoPerda>();
+
+  for (const lead of perdidos) {
+    const codMotivo = lead.CODMOTIVO ? String(lead.CODMOTIVO) : null;
+    const descricao = codMotivo
+      ? motivos.find(m => String(m.CODMOTIVO) === codMotivo)?.DESCRICAO || `Motivo ${codMotivo}`
+      : String(lead.MOTIVO_PERDA || '').trim() || SEM_MOTIVO;
+    const chave = codMotivo ? `COD:${codMotivo}` : `TXT:${descricao}`;
+
+    const grupo = grupos.get(chave) || { CODMOTIVO: codMotivo, motivo: descricao, quantidade: 0, valor: 0, percentual: 0 };
+    grupo.quantidade++;
+    grupo.valor += Number(lead.VALOR) || 0;
+    grupos.set(chave, grupo);
+  }
+
+  return Array.from(grupos.values())
+    .map(grupo => ({ ...grupo, percentual: Math.round((grupo.quantidade / perdidos.length) * 1000) / 10 }))
+    .sort((a, b) => b.quantidade - a.quantidade);
+}
+
+// Tempo médio por estágio e conversão entre estágios a partir do histórico de mudanças
+export function calcularMetricasPorEstagio(mudancas: MudancaEstagio[], estagios: EstagioFunil[]): MetricaEstagio[] {
+  const ordem = new Map(estagios.map(e => [String(e.CODESTAGIO), Number(e.ORDEM)]));
+  const acumulado = new Map<string, { entradas: number; saidas: number; tempoTotal: number; retrocessos: number; leads: Set<string>; convertidos: Set<string> }>();
+
+  for (const estagio of estagios) {
+    acumulado.set(String(estagio.CODESTAGIO), { entradas: 0, saidas: 0, tempoTotal: 0, retrocessos: 0, leads: new Set(), convertidos: new Set() });
+  }
+
+  agruparPorLead(mudancas).forEach((passagens, codLead) => {
+    passagens.forEach((passagem, indice) => {
+      const dados = acumulado.get(String(passagem.CODESTAGIO_DESTINO));
+      if (!dados) return;
+
+      dados.entradas++;
+      dados.leads.add(codLead);
+
+      const proxima = passagens[indice + 1];
+      if (proxima) {
+        const inicio = lerDataHoraSankhya(passagem.DATA_MUDANCA);
+        const fim = lerDataHoraSankhya(proxima.DATA_MUDANCA);
+        if (inicio && fim) {
+          dados.saidas++;
+          dados.tempoTotal += Math.max(0, fim.getTime() - inicio.getTime());
+        }
+        if ((ordem.get(String(proxima.CODESTAGIO_DESTINO)) ?? Infinity) < (ordem.get(String(passagem.CODESTAGIO_DESTINO)) ?? 0)) {
+          dados.retrocessos++;
+        }
+      }
+
+      // Convertido: alguma entrada posterior em estágio mais avançado
+      const ordemAtual = ordem.get(String(passagem.CODESTAGIO_DESTINO)) ?? 0;
+      if (passagens.slice(indice + 1).some(p => (ordem.get(String(p.CODESTAGIO_DESTINO)) ?? -Infinity) > ordemAtual)) {
+        dados.convertidos.add(codLead);
+      }
+    });
+  });
+
+  return [...estagios]
+    .sort((a, b) => Number(a.ORDEM) - Number(b.ORDEM))
+    .map(estagio => {
+      const dados = acumulado.get(String(estagio.CODESTAGIO))!;
+      return {
+        CODESTAGIO: String(estagio.CODESTAGIO),
+        NOME: estagio.NOME,
+        ORDEM: Number(estagio.ORDEM),
+        entradas: dados.entradas,
+        saidas: dados.saidas,
+        tempoMedioMs: dados.saidas > 0 ? Math.round(dados.tempoTotal / dados.saidas) : null,
+        retrocessos: dados.retrocessos,
+        taxaConversao: dados.leads.size > 0 ? Math.round((dados.convertidos.size / dados.leads.size) * 1000) / 10 : null
+      };
+    });
+}
+
+export async function buscarMetricasEstagios(codFunil: string, filtro: FiltroMetricasEstagios = {}): Promise<MetricasEstagiosFunil> {
+  // Data final inclusiva: considera o dia inteiro
+  let dataFim: Date | null = null;
+  if (filtro.dataFim) {
+    const [ano, mes, dia] = filtro.dataFim.split('-').map(Number);
+    dataFim = new Date(ano, mes - 1, dia + 1);
+  }
+
+  const [estagios, mudancas] = await Promise.all([
+    consultarEstagiosFunil(codFunil),
+    consultarHistoricoFunil(codFunil, { codLeads: filtro.codLeads, dataInicio: filtro.dataInicio, dataFim })
+  ]);
+
+  return {
+    CODFUNIL: codFunil,
+    estagios: calcularMetricasPorEstagio(mudancas, estagios),
+    totalLeads: agruparPorLead(mudancas).size
+  };
+}
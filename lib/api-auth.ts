@@ -0,0 +1,154 @@
+import { NextResponse } from 'next/server';
+import { getSessionUser, type SessionUser } from './session-service';
+import { perfisPermitidos, naoAutenticado, acessoNegado, escopoVisibilidade } from './permissoes';
+import { redisCacheService } from './redis-cache-service';
+import { usersService } from './users-service';
+import { consultarVendedores } from './vendedores-service';
+import { consultarLead } from './leads-service';
+import { consultarAtividade } from './lead-atividades-service';
+import { registrarAuditoria, type EventoAuditoria } from './auditoria-service';
+
+// Wrappers de autorização para rotas de API, baseados no mapa de ./permissoes
+
+export interface ContextoAutorizado {
+  params: any
+  usuario: SessionUser
+  // Registra a operação na trilha de auditoria em nome do usuário da sessão
+  auditar: (evento: EventoAuditoria) => Promise<void>
+}
+
+type HandlerAutorizado<R extends Request> = (request: R, contexto: ContextoAutorizado) => Promise<Response> | Response;
+
+// Envolve o handler: exige sessão e perfil permitido para a rota/método da requisição
+export function comPermissao<R extends Request = Request>(rota: string, handler: HandlerAutorizado<R>) {
+  return async (request: R, contexto: { params?: any } = {}): Promise<Response> => {
+    const usuario = await getSessionUser();
+
+    if (!usuario) {
+      return naoAutenticado();
+    }
+
+    const perfis = perfisPermitidos(rota, request.method);
+
+    if (!perfis.includes(usuario.role)) {
+      console.warn(`🚫 Acesso negado: ${usuario.email} (${usuario.role}) em ${request.method} ${rota}`);
+      return acessoNegado('Seu perfil não tem permissão para esta operação');
+    }
+
+    const auditar = (evento: EventoAuditoria) => registrarAuditoria(usuario, rota, evento);
+
+    return handler(request, { params: contexto.params, usuario, auditar });
+  };
+}
+
+// IDs dos usuários cujo vendedor pertence à equipe do gerente (inclui o próprio gerente)
+export async function usuariosDaEquipe(gerente: SessionUser): Promise<number[]> {
+  if (escopoVisibilidade(gerente.role) !== 'EQUIPE' || !gerente.codVendedor) {
+    return [gerente.id];
+  }
+
+  const cacheKey = `equipe:usuarios:${gerente.id}`;
+  const cached = await redisCacheService.get<number[]>(cacheKey);
+  if (cached) return cached;
+
+  const vendedores = await consultarVendedores(Number(gerente.codVendedor));
+  const codVendedores = new Set<number>([
+    Number(gerente.codVendedor),
+    ...vendedores.map((v: any) => Number(v.CODVEND))
+  ]);
+
+  const usuarios = await usersService.getAll();
+  const ids = usuarios
+    .filter(u => u.codVendedor && codVendedores.has(Number(u.codVendedor)))
+    .map(u => u.id);
+
+  const resultado = Array.from(new Set([gerente.id, ...ids]));
+  await redisCacheService.set(cacheKey, resultado, 5 * 60 * 1000);
+  return resultado;
+}
+
+// IDs dos donos de registros visíveis ao usuário conforme o escopo do perfil; null quando vê todos
+export async function usuariosVisiveis(usuario: SessionUser): Promise<number[] | null> {
+  switch (escopoVisibilidade(usuario.role)) {
+    case 'TODOS':
+      return null;
+    case 'EQUIPE':
+      return usuariosDaEquipe(usuario);
+    default:
+      return [usuario.id];
+  }
+}
+
+// Administrador acessa tudo; dono acessa o próprio registro; gerente acessa registros da equipe
+export async function podeAcessarRegistro(usuario: SessionUser, codUsuarioDono?: number | string | null): Promise<boolean> {
+  const visiveis = await usuariosVisiveis(usuario);
+  if (!visiveis) return true;
+  if (codUsuarioDono === undefined || codUsuarioDono === null || codUsuarioDono === '') return false;
+
+  return visiveis.includes(Number(codUsuarioDono));
+}
+
+// Retorna a resposta de negação (404/403) ou null quando o usuário pode operar no lead
+export async function verificarAcessoLead(usuario: SessionUser, codLead: string | number | null | undefined): Promise<Response | null> {
+  if (!codLead) {
+    return NextResponse.json({ error: 'CODLEAD é obrigatório' }, { status: 400 });
+  }
+
+  const lead = await consultarLead(String(codLead));
+
+  if (!lead) {
+    return NextResponse.json({ error: 'Lead não encontrado' }, { status: 404 });
+  }
+
+  if (!(await podeAcessarRegistro(usuario, lead.CODUSUARIO))) {
+    return acessoNegado('Você não tem acesso a este lead');
+  }
+
+  return null;
+}
+
+// Mesma regra de verificarAcessoLead para atividades: pelo lead vinculado ou, sem lead, pelo dono
+export async function verificarAcessoAtividade(usuario: SessionUser, codAtividade: string | number | null | undefined): Promise<Response | null> {
+  if (!codAtividade) {
+    return NextResponse.json({ error: 'CODATIVIDADE é obrigatório' }, { status: 400 });
+  }
+
+  const atividade = await consultarAtividade(String(codAtividade));
+
+  if (!atividade) {
+    return NextResponse.json({ error: 'Atividade não encontrada' }, { status: 404 });
+  }
+
+  if (atividade.CODLEAD) {
+    return verificarAcessoLead(usuario, atividade.CODLEAD);
+  }
+
+  if (!(await podeAcessarRegistro(usuario, atividade.CODUSUARIO))) {
+    return acessoNegado('Você não tem acesso a esta atividade');
+  }
+
+  return null;
+}
+
+// Filtra uma lista mantendo apenas registros que o usuário pode acessar
+export async function filtrarPorAcesso<T>(usuario: SessionUser, registros: T[], dono: (registro: T) => number | string | null | undefined): Promise<T[]> {
+  const visiveis = await usuariosVisiveis(usuario);
+  if (!visiveis) return registros;
+
+  const permitidos = new Set(visiveis);
+  return registros.filter(registro => {
+    const codDono = dono(registro);
+    return codDono !== null && codDono !== undefined && codDono !== '' && permitidos.has(Number(codDono));
+  });
+}
+
+// Usuários que podem receber leads do gestor: administrador escolhe qualquer um, gerente apenas a equipe
+export async function responsaveisPermitidos(usuario: SessionUser): Promise<{ id: number; name: string; status: string }[]> {
+  const usuarios = await usersService.getAll();
+  const visiveis = await usuariosVisiveis(usuario);
+  const equipe = visiveis ? new Set(visiveis) : null;
+
+  return usuarios
+    .filter(u => !equipe || equipe.has(u.id))
+    .map(u => ({ id: u.id, name: u.name, status: u.status }));
+}
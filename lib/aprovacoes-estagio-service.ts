@@ -0,0 +1,256 @@
+import { loadRecords, datasetSave, mapearEntidades, formatarDataHoraParaSankhya } from './sankhya-gateway';
+import { montarCriteria, eq } from './sankhya-criteria';
+import { consultarEstagiosFunil, type EstagioFunil } from './funis-service';
+import { consultarLead, atualizarEstagioLead, type Lead } from './leads-service';
+import { consultarProdutosLead } from './lead-produtos-service';
+import { podeAprovarEstagio } from './permissoes';
+import { validarTransicao, exigeAprovacao } from './regras-estagio';
+import type { SessionUser } from './session-service';
+
+// Aplicação das regras de estágio no servidor e fila de aprovações (AD_APROVACOESESTAGIO)
+// para estágios que exigem o aval do gerente antes de receber o lead.
+
+export type StatusAprovacao = 'PENDENTE' | 'APROVADA' | 'REJEITADA' | 'CANCELADA';
+
+export interface AprovacaoEstagio {
+  CODAPROVACAO: string
+  CODLEAD: string
+  CODESTAGIO_ORIGEM: string
+  CODESTAGIO_DESTINO: string
+  CODUSUARIO_SOLICITANTE: number
+  DATA_SOLICITACAO: string
+  STATUS: StatusAprovacao
+  CODUSUARIO_APROVADOR?: number
+  DATA_DECISAO?: string
+  OBSERVACAO?: string
+}
+
+// Dados extras para a listagem de aprovações pendentes
+export interface AprovacaoEstagioDetalhada extends AprovacaoEstagio {
+  NOMELEAD: string
+  VALOR: number
+  NOME_ORIGEM: string
+  NOME_DESTINO: string
+}
+
+export type ResultadoTransicao =
+  | { tipo: 'permitida' }
+  | { tipo: 'bloqueada'; erro: string }
+  | { tipo: 'aprovacao'; destino: EstagioFunil };
+
+interface OpcoesAvaliacao {
+  // Lead com as alterações ainda não gravadas (edição pelo modal)
+  leadAtualizado?: Partial<Lead>
+  qtdProdutos?: number
+}
+
+async function contarProdutosAtivos(codLead: string): Promise<number> {
+  const produtos = await consultarProdutosLead(codLead);
+  return produtos.filter(p => p.ATIVO !== 'N').length;
+}
+
+// Verifica se o lead pode entrar no estágio de destino.
+// Aprovadores (gerente/administrador) não passam pela fila: a própria mudança vale como aprovação.
+export async function avaliarMudancaEstagio(
+  usuario: SessionUser,
+  lead: Lead,
+  codDestino: string,
+  opcoes: OpcoesAvaliacao = {}
+): Promise<ResultadoTransicao> {
+  if (String(lead.CODESTAGIO) === String(codDestino)) {
+    return { tipo: 'permitida' };
+  }
+
+  const estagios = await consultarEstagiosFunil(String(lead.CODFUNIL));
+  const destino = estagios.find(e => String(e.CODESTAGIO) === String(codDestino));
+
+  if (!destino) {
+    return { tipo: 'bloqueada', erro: 'O estágio de destino não pertence ao funil do lead' };
+  }
+
+  const origem = estagios.find(e => String(e.CODESTAGIO) === String(lead.CODESTAGIO));
+  const qtdProdutos = opcoes.qtdProdutos ?? await contarProdutosAtivos(lead.CODLEAD);
+
+  const erro = validarTransicao(origem, destino, { ...lead, ...opcoes.leadAtualizado }, qtdProdutos);
+  if (erro) {
+    return { tipo: 'bloqueada', erro };
+  }
+
+  if (exigeAprovacao(destino) && !podeAprovarEstagio(usuario.role)) {
+    return { tipo: 'aprovacao', destino };
+  }
+
+  return { tipo: 'permitida' };
+}
+
+// Campos obrigatórios do estágio inicial na criação do lead
+export async function validarEstagioInicial(lead: Partial<Lead>, qtdProdutos: number): Promise<string | null> {
+  if (!lead.CODFUNIL || !lead.CODESTAGIO) return null;
+
+  const estagios = await consultarEstagiosFunil(String(lead.CODFUNIL));
+  const destino = estagios.find(e => String(e.CODESTAGIO) === String(lead.CODESTAGIO));
+
+  return destino ? validarTransicao(null, destino, lead, qtdProdutos) : null;
+}
+
+async function consultarAprovacoes(...condicoes: Parameters<typeof montarCriteria>): Promise<AprovacaoEstagio[]> {
+  const PAYLOAD = {
+    "requestBody": {
+      "dataSet": {
+        "rootEntity": "AD_APROVACOESESTAGIO",
+        "includePresentationFields": "N",
+        "offsetPage": "0",
+        "entity": {
+          "fieldset": {
+            "list": "CODLEAD, CODESTAGIO_ORIGEM, CODESTAGIO_DESTINO, CODUSUARIO_SOLICITANTE, DATA_SOLICITACAO, STATUS, CODUSUARIO_APROVADOR, DATA_DECISAO, OBSERVACAO"
+          }
+        },
+        "criteria": montarCriteria(...condicoes),
+        "orderBy": {
+          "CODAPROVACAO": "ASC"
+        }
+      }
+    }
+  };
+
+  const resposta = await loadRecords(PAYLOAD);
+  return mapearEntidades(resposta?.responseBody?.entities, 'CODAPROVACAO').map((registro: any) => ({
+    ...registro,
+    CODUSUARIO_SOLICITANTE: Number(registro.CODUSUARIO_SOLICITANTE),
+    CODUSUARIO_APROVADOR: registro.CODUSUARIO_APROVADOR ? Number(registro.CODUSUARIO_APROVADOR) : undefined
+  })) as AprovacaoEstagio[];
+}
+
+export async function consultarAprovacao(codAprovacao: string): Promise<AprovacaoEstagio | null> {
+  const aprovacoes = await consultarAprovacoes(eq('CODAPROVACAO', Number(codAprovacao)));
+  return aprovacoes[0] || null;
+}
+
+// Registra o pedido de aprovação; um pedido pendente igual é reaproveitado
+export async function solicitarAprovacao(usuario: SessionUser, lead: Lead, codDestino: string): Promise<AprovacaoEstagio> {
+  const pendentes = await consultarAprovacoes(eq('CODLEAD', Number(lead.CODLEAD)), eq('STATUS', 'PENDENTE'));
+  const existente = pendentes.find(a => String(a.CODESTAGIO_DESTINO) === String(codDestino));
+  if (existente) return existente;
+
+  // Um lead tem no máximo um pedido pendente: pedidos para outro destino são substituídos
+  for (const anterior of pendentes) {
+    await gravarDecisao(anterior.CODAPROVACAO, 'CANCELADA', usuario.id, 'Substituído por nova solicitação');
+  }
+
+  await datasetSave({
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_APROVACOESESTAGIO",
+      "standAlone": false,
+      "fields": ["CODLEAD", "CODESTAGIO_ORIGEM", "CODESTAGIO_DESTINO", "CODUSUARIO_SOLICITANTE", "DATA_SOLICITACAO", "STATUS"],
+      "records": [{
+        "values": {
+          "0": String(lead.CODLEAD),
+          "1": String(lead.CODESTAGIO),
+          "2": String(codDestino),
+          "3": String(usuario.id),
+          "4": formatarDataHoraParaSankhya(new Date()),
+          "5": "PENDENTE"
+        }
+      }]
+    }
+  });
+
+  console.log('🕒 Aprovação de estágio solicitada:', { lead: lead.CODLEAD, destino: codDestino, usuario: usuario.email });
+
+  const criadas = await consultarAprovacoes(eq('CODLEAD', Number(lead.CODLEAD)), eq('STATUS', 'PENDENTE'));
+  const criada = criadas.find(a => String(a.CODESTAGIO_DESTINO) === String(codDestino));
+  if (!criada) {
+    throw new Error('Falha ao registrar a solicitação de aprovação');
+  }
+  return criada;
+}
+
+async function gravarDecisao(codAprovacao: string, status: StatusAprovacao, codAprovador: number, observacao?: string): Promise<void> {
+  await datasetSave({
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_APROVACOESESTAGIO",
+      "standAlone": false,
+      "fields": ["STATUS", "CODUSUARIO_APROVADOR", "DATA_DECISAO", "OBSERVACAO"],
+      "records": [{
+        "pk": { "CODAPROVACAO": String(codAprovacao) },
+        "values": {
+          "0": status,
+          "1": String(codAprovador),
+          "2": formatarDataHoraParaSankhya(new Date()),
+          "3": observacao || ""
+        }
+      }]
+    }
+  });
+}
+
+// Pedidos pendentes dos leads que o aprovador enxerga (acesso conferido pela rota)
+export async function listarAprovacoesPendentes(podeAcessar: (lead: Lead) => Promise<boolean>): Promise<AprovacaoEstagioDetalhada[]> {
+  const pendentes = await consultarAprovacoes(eq('STATUS', 'PENDENTE'));
+  const estagiosPorFunil = new Map<string, EstagioFunil[]>();
+  const resultado: AprovacaoEstagioDetalhada[] = [];
+
+  for (const aprovacao of pendentes) {
+    const lead = await consultarLead(aprovacao.CODLEAD);
+    if (!lead || !(await podeAcessar(lead))) continue;
+
+    if (!estagiosPorFunil.has(lead.CODFUNIL)) {
+      estagiosPorFunil.set(lead.CODFUNIL, await consultarEstagiosFunil(lead.CODFUNIL));
+    }
+    const estagios = estagiosPorFunil.get(lead.CODFUNIL) || [];
+    const nomeEstagio = (cod: string) => estagios.find(e => String(e.CODESTAGIO) === String(cod))?.NOME || cod;
+
+    resultado.push({
+      ...aprovacao,
+      NOMELEAD: lead.NOME,
+      VALOR: Number(lead.VALOR) || 0,
+      NOME_ORIGEM: nomeEstagio(aprovacao.CODESTAGIO_ORIGEM),
+      NOME_DESTINO: nomeEstagio(aprovacao.CODESTAGIO_DESTINO)
+    });
+  }
+
+  return resultado;
+}
+
+// Aprova (movendo o lead) ou rejeita o pedido. Se o lead já saiu do estágio de origem
+// ou foi concluído, o pedido perde o sentido e é cancelado.
+export async function decidirAprovacao(
+  usuario: SessionUser,
+  aprovacao: AprovacaoEstagio,
+  lead: Lead,
+  aprovar: boolean,
+  observacao?: string
+): Promise<{ status: StatusAprovacao; lead?: Lead; erro?: string }> {
+  if (aprovacao.STATUS !== 'PENDENTE') {
+    throw new Error('Esta solicitação já foi decidida');
+  }
+
+  const desatualizada = String(lead.CODESTAGIO) !== String(aprovacao.CODESTAGIO_ORIGEM)
+    || lead.STATUS_LEAD === 'GANHO'
+    || lead.STATUS_LEAD === 'PERDIDO';
+
+  if (desatualizada) {
+    await gravarDecisao(aprovacao.CODAPROVACAO, 'CANCELADA', usuario.id, 'O lead mudou de estágio antes da decisão');
+    return { status: 'CANCELADA', erro: 'O lead mudou de estágio desde a solicitação; o pedido foi cancelado' };
+  }
+
+  if (!aprovar) {
+    await gravarDecisao(aprovacao.CODAPROVACAO, 'REJEITADA', usuario.id, observacao);
+    return { status: 'REJEITADA' };
+  }
+
+  // As regras de transição e campos obrigatórios continuam valendo na aprovação
+  const avaliacao = await avaliarMudancaEstagio(usuario, lead, aprovacao.CODESTAGIO_DESTINO);
+  if (avaliacao.tipo === 'bloqueada') {
+    return { status: 'PENDENTE', erro: avaliacao.erro };
+  }
+
+  const leadAtualizado = await atualizarEstagioLead(lead.CODLEAD, aprovacao.CODESTAGIO_DESTINO);
+  await gravarDecisao(aprovacao.CODAPROVACAO, 'APROVADA', usuario.id, observacao);
+
+  console.log('✅ Aprovação de estágio concedida:', { lead: lead.CODLEAD, destino: aprovacao.CODESTAGIO_DESTINO, aprovador: usuario.email });
+
+  return { status: 'APROVADA', lead: leadAtualizado };
+}
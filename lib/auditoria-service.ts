@@ -0,0 +1,203 @@
+import { loadRecords, datasetSave, mapearEntidades, formatarDataHoraParaSankhya } from './sankhya-gateway';
+import { montarCriteria, eq, entreDatas } from './sankhya-criteria';
+import type { SessionUser } from './session-service';
+
+// Trilha de auditoria das operações de escrita, gravada em AD_AUDITORIA.
+// Cada registro guarda quem, quando, a entidade/chave afetada e os campos alterados (antes/depois).
+
+export type AcaoAuditoria = 'CRIAR' | 'ATUALIZAR' | 'EXCLUIR' | 'REABRIR' | 'MESCLAR';
+
+export type EntidadeAuditoria =
+  | 'LEAD'
+  | 'LEAD_PRODUTO'
+  | 'ATIVIDADE'
+  | 'PARCEIRO'
+  | 'PEDIDO'
+  | 'USUARIO'
+  | 'FUNIL'
+  | 'ESTAGIO'
+  | 'VENDEDOR'
+  | 'MOTIVO';
+
+export const ACOES_AUDITORIA: AcaoAuditoria[] = ['CRIAR', 'ATUALIZAR', 'EXCLUIR', 'REABRIR', 'MESCLAR'];
+export const ENTIDADES_AUDITORIA: EntidadeAuditoria[] = ['LEAD', 'LEAD_PRODUTO', 'ATIVIDADE', 'PARCEIRO', 'PEDIDO', 'USUARIO', 'FUNIL', 'ESTAGIO', 'VENDEDOR', 'MOTIVO'];
+
+export interface AlteracaoCampo {
+  campo: string
+  antes: string | null
+  depois: string | null
+}
+
+export interface EventoAuditoria {
+  acao: AcaoAuditoria
+  entidade: EntidadeAuditoria
+  chave: string | number
+  // Lead ao qual o registro pertence (produtos e atividades aparecem no histórico do lead)
+  codLead?: string | number | null
+  antes?: Record<string, any> | null
+  depois?: Record<string, any> | null
+}
+
+export interface RegistroAuditoria {
+  CODAUDITORIA: string
+  DTREGISTRO: string
+  CODUSUARIO: number
+  NOMEUSUARIO: string
+  ACAO: AcaoAuditoria
+  ENTIDADE: EntidadeAuditoria
+  CHAVE: string
+  CODLEAD?: string
+  ROTA: string
+  ALTERACOES: AlteracaoCampo[]
+}
+
+export interface FiltrosAuditoria {
+  entidade?: string | null
+  acao?: string | null
+  chave?: string | null
+  codLead?: string | number | null
+  codUsuario?: number | null
+  dataInicio?: string | null
+  dataFim?: string | null
+  pagina?: number
+}
+
+// Valores nunca gravados na trilha: só se registra que mudaram
+const CAMPOS_SENSIVEIS = new Set(['password', 'SENHA', 'TOTPSEGREDO', 'TOTPRECUPERACAO']);
+// Carimbos de data preenchidos pelo próprio save não são alterações do usuário
+const CAMPOS_IGNORADOS = new Set(['DATA_ATUALIZACAO']);
+const VALOR_OCULTO = '••••••';
+const TAMANHO_MAXIMO_VALOR = 500;
+
+function normalizarValor(valor: any): string | null {
+  if (valor === undefined || valor === null || valor === '') return null;
+  const texto = typeof valor === 'object' ? JSON.stringify(valor) : String(valor);
+  return texto.length > TAMANHO_MAXIMO_VALOR ? `${texto.slice(0, TAMANHO_MAXIMO_VALOR)}…` : texto;
+}
+
+// Criação registra os campos gravados, exclusão os campos que existiam e
+// atualização apenas os campos enviados cujo valor mudou
+export function compararCampos(acao: AcaoAuditoria, antes?: Record<string, any> | null, depois?: Record<string, any> | null): AlteracaoCampo[] {
+  const campos = acao === 'EXCLUIR' ? Object.keys(antes || {}) : Object.keys(depois || {});
+  const alteracoes: AlteracaoCampo[] = [];
+
+  for (const campo of campos) {
+    if (CAMPOS_IGNORADOS.has(campo)) continue;
+
+    const valorAntes = acao === 'CRIAR' ? null : normalizarValor(antes?.[campo]);
+    const valorDepois = acao === 'EXCLUIR' ? null : normalizarValor(depois?.[campo]);
+
+    // Hashes e segredos não são comparáveis por valor: campo sensível enviado conta como alterado
+    if (CAMPOS_SENSIVEIS.has(campo)) {
+      if (valorAntes !== null || valorDepois !== null) {
+        alteracoes.push({ campo, antes: valorAntes && VALOR_OCULTO, depois: valorDepois && VALOR_OCULTO });
+      }
+      continue;
+    }
+
+    if (valorAntes !== valorDepois) {
+      alteracoes.push({ campo, antes: valorAntes, depois: valorDepois });
+    }
+  }
+
+  return alteracoes;
+}
+
+// Falha na gravação da auditoria é registrada no log, mas não desfaz nem bloqueia a operação
+export async function registrarAuditoria(usuario: SessionUser, rota: string, evento: EventoAuditoria): Promise<void> {
+  const alteracoes = compararCampos(evento.acao, evento.antes, evento.depois);
+
+  // Atualização que não mudou nada não gera registro
+  if (evento.acao === 'ATUALIZAR' && alteracoes.length === 0) return;
+
+  try {
+    await datasetSave({
+      "serviceName": "DatasetSP.save",
+      "requestBody": {
+        "entityName": "AD_AUDITORIA",
+        "standAlone": false,
+        "fields": ["DTREGISTRO", "CODUSUARIO", "NOMEUSUARIO", "ACAO", "ENTIDADE", "CHAVE", "CODLEAD", "ROTA", "ALTERACOES"],
+        "records": [{
+          "values": {
+            "0": formatarDataHoraParaSankhya(new Date()),
+            "1": String(usuario.id),
+            "2": usuario.name,
+            "3": evento.acao,
+            "4": evento.entidade,
+            "5": String(evento.chave ?? ''),
+            "6": evento.codLead ? String(evento.codLead) : null,
+            "7": rota,
+            "8": JSON.stringify(alteracoes)
+          }
+        }]
+      }
+    });
+
+    console.log('📝 Auditoria:', { usuario: usuario.email, acao: evento.acao, entidade: evento.entidade, chave: evento.chave });
+  } catch (erro) {
+    console.error('❌ Erro ao registrar auditoria:', { evento: `${evento.acao} ${evento.entidade} ${evento.chave}`, erro });
+  }
+}
+
+export async function consultarAuditoria(filtros: FiltrosAuditoria = {}): Promise<{ registros: RegistroAuditoria[]; total: number; temMais: boolean }> {
+  const codLead = filtros.codLead ? Number(filtros.codLead) : null;
+
+  // Data final inclusiva: considera o dia inteiro
+  let dataFim: Date | null = null;
+  if (filtros.dataFim) {
+    const [ano, mes, dia] = filtros.dataFim.split('-').map(Number);
+    dataFim = new Date(ano, mes - 1, dia + 1);
+  }
+
+  const criteria = montarCriteria(
+    !!filtros.entidade && eq('ENTIDADE', filtros.entidade),
+    !!filtros.acao && eq('ACAO', filtros.acao),
+    !!filtros.chave && eq('CHAVE', String(filtros.chave).trim()),
+    codLead !== null && Number.isInteger(codLead) && eq('CODLEAD', codLead),
+    !!filtros.codUsuario && eq('CODUSUARIO', Number(filtros.codUsuario)),
+    entreDatas('DTREGISTRO', filtros.dataInicio, dataFim)
+  );
+
+  const PAYLOAD = {
+    "requestBody": {
+      "dataSet": {
+        "rootEntity": "AD_AUDITORIA",
+        "includePresentationFields": "N",
+        "offsetPage": String(Math.max(0, filtros.pagina || 0)),
+        "entity": {
+          "fieldset": {
+            "list": "DTREGISTRO, CODUSUARIO, NOMEUSUARIO, ACAO, ENTIDADE, CHAVE, CODLEAD, ROTA, ALTERACOES"
+          }
+        },
+        "criteria": criteria,
+        "orderBy": {
+          "CODAUDITORIA": "DESC"
+        }
+      }
+    }
+  };
+
+  const resposta = await loadRecords(PAYLOAD);
+  const entities = resposta?.responseBody?.entities;
+
+  const registros = mapearEntidades(entities, 'CODAUDITORIA').map((registro: any) => {
+    let alteracoes: AlteracaoCampo[] = [];
+    try {
+      alteracoes = registro.ALTERACOES ? JSON.parse(registro.ALTERACOES) : [];
+    } catch {
+      alteracoes = [];
+    }
+
+    return {
+      ...registro,
+      CODUSUARIO: Number(registro.CODUSUARIO),
+      ALTERACOES: alteracoes
+    } as RegistroAuditoria;
+  });
+
+  return {
+    registros,
+    total: entities?.total ? parseInt(entities.total) : registros.length,
+    temMais: entities?.hasMoreResult === 'true' || entities?.hasMoreResult === true
+  };
+}
@@ -3,42 +3,78 @@ import type { User } from "./types"
 // Simulate current logged-in user
 let currentUser: User | null = null
 
-// Super Admin padrão do sistema (não depende da API)
-export const SUPER_ADMIN: User = {
-  id: 0,
-  name: "Super Admin",
-  email: "sup@sankhya.com.br",
-  password: "SUP321", // Senha em texto plano apenas para validação
-  role: "Administrador",
-  status: "ativo",
-  avatar: ""
+// Requisição em andamento para /api/auth/me (evita chamadas duplicadas)
+let sessionPromise: Promise<User | null> | null = null
+
+// Login que depende da segunda etapa (verificação do código ou cadastro obrigatório do 2FA)
+export interface DesafioDoisFatores {
+  requer2fa: true
+  modo: 'verificar' | 'cadastro'
+  desafio: string
+}
+
+function guardarUsuario(user: User) {
+  currentUser = user
+  if (typeof window !== "undefined") {
+    localStorage.setItem("currentUser", JSON.stringify(user))
+  }
+}
+
+async function postarJson(url: string, corpo: unknown) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(corpo),
+  });
+  const data = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Erro na requisição');
+  }
+  return data;
 }
 
 export const authService = {
   // Login user
-  async login(email: string, password: string): Promise<User | null> {
-    try {
-      const response = await fetch('/api/auth/login', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ email, password }),
-      });
+  // Lança erro com a mensagem do servidor quando o login está limitado ou a conta bloqueada (429)
+  async login(email: string, password: string): Promise<User | DesafioDoisFatores | null> {
+    const response = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ email, password }),
+    }).catch((error) => {
+      console.error('Login error:', error);
+      return null;
+    });
 
+    if (!response) {
+      return null;
+    }
+
+    if (response.status === 429) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || 'Muitas tentativas de login. Tente novamente mais tarde.');
+    }
+
+    try {
       if (!response.ok) {
         return null;
       }
 
-      const { user } = await response.json();
+      const data = await response.json();
 
-      if (user) {
-        currentUser = user;
+      if (data.requer2fa) {
+        return data as DesafioDoisFatores;
+      }
+
+      if (data.user) {
         // Store in localStorage for persistence
-        if (typeof window !== "undefined") {
-          localStorage.setItem("currentUser", JSON.stringify(user));
-        }
-        return user;
+        guardarUsuario(data.user);
+        return data.user;
       }
       return null;
     } catch (error) {
@@ -47,6 +83,42 @@ export const authService = {
     }
   },
 
+  // Segunda etapa do login: código do aplicativo ou código de recuperação
+  async verifyTwoFactor(desafio: string, codigo: string): Promise<User> {
+    const { user } = await postarJson('/api/auth/2fa/verificar', { desafio, codigo });
+    guardarUsuario(user);
+    return user;
+  },
+
+  // Gera o segredo para o aplicativo autenticador (desafio do login ou usuário já autenticado)
+  async startTwoFactorEnrollment(desafio?: string): Promise<{ segredo: string; uri: string }> {
+    return postarJson('/api/auth/2fa/cadastro', { desafio });
+  },
+
+  // Confirma o cadastro; no login obrigatório também devolve o usuário com a sessão criada
+  async activateTwoFactor(codigo: string, desafio?: string): Promise<{ user?: User; codigosRecuperacao: string[] }> {
+    const resultado = await postarJson('/api/auth/2fa/ativar', { desafio, codigo });
+    if (resultado.user) {
+      guardarUsuario(resultado.user);
+    }
+    return resultado;
+  },
+
+  async getTwoFactorStatus(): Promise<{ ativo: boolean; obrigatorio: boolean; codigosRestantes: number } | null> {
+    try {
+      const response = await fetch('/api/auth/2fa', { cache: 'no-store' });
+      if (!response.ok) return null;
+      return await response.json();
+    } catch (error) {
+      console.error('Erro ao consultar dois fatores:', error);
+      return null;
+    }
+  },
+
+  async disableTwoFactor(senha: string): Promise<void> {
+    await postarJson('/api/auth/2fa/desativar', { senha });
+  },
+
   // Get current logged-in user
   getCurrentUser(): User | null {
     if (!currentUser && typeof window !== "undefined") {
@@ -58,11 +130,40 @@ export const authService = {
     return currentUser
   },
 
+  // Usuário validado pelo servidor a partir do cookie de sessão (httpOnly)
+  async getSessionUser(): Promise<User | null> {
+    if (!sessionPromise) {
+      sessionPromise = (async () => {
+        try {
+          const response = await fetch('/api/auth/me', { cache: 'no-store' });
+
+          if (!response.ok) {
+            return null;
+          }
+
+          const { user } = await response.json();
+          currentUser = user;
+          if (typeof window !== "undefined") {
+            localStorage.setItem("currentUser", JSON.stringify(user));
+          }
+          return user;
+        } catch (error) {
+          console.error('Erro ao consultar sessão:', error);
+          return null;
+        } finally {
+          sessionPromise = null;
+        }
+      })();
+    }
+
+    return sessionPromise;
+  },
+
   // Update current user profile
   async updateProfile(profileData: { name: string; email: string; avatar: string }) {
     try {
-      const currentUser = this.getCurrentUser();
-      if (!currentUser) {
+      const usuario = this.getCurrentUser();
+      if (!usuario) {
         throw new Error("Usuário não autenticado");
       }
 
@@ -73,11 +174,10 @@ export const authService = {
         },
         body: JSON.stringify({
           userData: {
-            id: currentUser.id,
+            id: usuario.id,
             ...profileData,
-            role: currentUser.role,
-            status: currentUser.status,
-            password: currentUser.password // Manter a senha atual
+            role: usuario.role,
+            status: usuario.status
           },
           mode: 'edit' // Especificar que é uma edição
         }),
@@ -91,12 +191,8 @@ export const authService = {
       const updatedUser = await response.json();
 
       // Atualizar usuário no localStorage
-      const users = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
-      const userIndex = users.findIndex((u: User) => u.id === updatedUser.id);
-      if (userIndex !== -1) {
-        users[userIndex] = updatedUser;
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(users));
-      }
+      currentUser = updatedUser;
+      localStorage.setItem("currentUser", JSON.stringify(updatedUser));
 
       return updatedUser;
     } catch (error) {
@@ -105,13 +201,36 @@ export const authService = {
     }
   },
 
+  // Alterar a própria senha (exige a senha atual); retorna a mensagem de erro ou null
+  async changePassword(senhaAtual: string, novaSenha: string): Promise<string | null> {
+    try {
+      const response = await fetch('/api/auth/trocar-senha', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ senhaAtual, novaSenha }),
+      });
+
+      if (!response.ok) {
+        const error = await response.json();
+        return error.error || 'Erro ao alterar senha';
+      }
+
+      return null;
+    } catch (error) {
+      console.error('Erro ao alterar senha:', error);
+      return 'Erro ao alterar senha';
+    }
+  },
+
   // Logout user
   logout(): void {
     currentUser = null
     if (typeof window !== "undefined") {
       localStorage.removeItem("currentUser")
-      // Remover cookie também
-      document.cookie = 'user=; path=/; max-age=0';
+      // Encerrar a sessão no servidor (o cookie é httpOnly)
+      fetch('/api/auth/logout', { method: 'POST', keepalive: true }).catch(() => {});
     }
   },
 }
\ No newline at end of file
@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import { usersService } from './users-service';
+import { cryptoService, validarNovaSenha } from './crypto-service';
+import type { User } from './types';
+
+// Criação do primeiro administrador, sem conta embutida no código.
+// Duas formas, usadas apenas enquanto não existir administrador ativo em AD_USUARIOSVENDAS:
+//  - ADMIN_BOOTSTRAP_EMAIL + ADMIN_BOOTSTRAP_SENHA_HASH (hash bcrypt): criado na inicialização do servidor
+//  - ADMIN_SETUP_TOKEN: libera a tela /setup para cadastrar o administrador uma única vez
+
+export class ErroSetup extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = 'ErroSetup';
+  }
+}
+
+// Evita criações duplicadas quando há requisições simultâneas no mesmo processo
+let bootstrapEmAndamento: Promise<unknown> | null = null;
+
+function exclusivo<T>(tarefa: () => Promise<T>): Promise<T> {
+  const anterior = bootstrapEmAndamento || Promise.resolve();
+  const atual = anterior.catch(() => undefined).then(tarefa);
+  bootstrapEmAndamento = atual;
+  return atual;
+}
+
+function ehHashBcrypt(valor: string): boolean {
+  return /^\$2[aby]\$\d{2}\$[./A-Za-z0-9]{53}$/.test(valor);
+}
+
+function tokenConfere(recebido: string, esperado: string): boolean {
+  const a = crypto.createHash('sha256').update(recebido).digest();
+  const b = crypto.createHash('sha256').update(esperado).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+// Chamado em instrumentation.ts
+export async function bootstrapAdminPorAmbiente() {
+  const email = process.env.ADMIN_BOOTSTRAP_EMAIL?.trim();
+  const hash = process.env.ADMIN_BOOTSTRAP_SENHA_HASH?.trim();
+
+  if (!email && !hash) return;
+
+  if (!email || !hash) {
+    console.warn('⚠️ ADMIN_BOOTSTRAP_EMAIL e ADMIN_BOOTSTRAP_SENHA_HASH devem ser informados juntos');
+    return;
+  }
+
+  if (!ehHashBcrypt(hash)) {
+    console.error('❌ ADMIN_BOOTSTRAP_SENHA_HASH não é um hash bcrypt válido; administrador inicial não criado');
+    return;
+  }
+
+  try {
+    await exclusivo(async () => {
+      if (await usersService.hasActiveAdmin()) {
+        console.log('ℹ️ Administrador já cadastrado, bootstrap por variável de ambiente ignorado');
+        return;
+      }
+
+      await usersService.create({
+        name: process.env.ADMIN_BOOTSTRAP_NOME?.trim() || 'Administrador',
+        email,
+        password: hash,
+        role: 'Administrador',
+        status: 'ativo',
+        avatar: ''
+      });
+
+      console.log('✅ Administrador inicial criado a partir das variáveis de ambiente:', email);
+    });
+  } catch (error) {
+    console.error('❌ Erro ao criar administrador inicial:', error);
+  }
+}
+
+export async function setupDisponivel(): Promise<boolean> {
+  if (!process.env.ADMIN_SETUP_TOKEN?.trim()) return false;
+  return !(await usersService.hasActiveAdmin());
+}
+
+export async function concluirSetup(dados: {
+  token: string
+  name: string
+  email: string
+  password: string
+}): Promise<User> {
+  const esperado = process.env.ADMIN_SETUP_TOKEN?.trim();
+
+  if (!esperado || !dados.token || !tokenConfere(String(dados.token), esperado)) {
+    throw new ErroSetup('Token de configuração inválido', 403);
+  }
+
+  const erroSenha = validarNovaSenha(dados.password);
+  if (erroSenha) {
+    throw new ErroSetup(erroSenha, 400);
+  }
+
+  if (!dados.name?.trim() || !dados.email?.trim()) {
+    throw new ErroSetup('Nome e email são obrigatórios', 400);
+  }
+
+  return exclusivo(async () => {
+    if (await usersService.hasActiveAdmin()) {
+      throw new ErroSetup('Configuração inicial já concluída', 409);
+    }
+
+    const existentes = await usersService.getByEmail(dados.email.trim());
+    if (existentes.length > 0) {
+      throw new ErroSetup('Email já cadastrado', 409);
+    }
+
+    const admin = await usersService.create({
+      name: dados.name.trim(),
+      email: dados.email.trim(),
+      // Hash explícito: create() não refaz o hash de valores que já começam com "$2"
+      password: await cryptoService.hashPassword(dados.password),
+      role: 'Administrador',
+      status: 'ativo',
+      avatar: ''
+    });
+
+    console.log('✅ Administrador inicial criado pela tela de configuração:', admin.email);
+    return admin;
+  });
+}
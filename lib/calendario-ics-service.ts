@@ -0,0 +1,237 @@
+import crypto from 'crypto';
+import { loadRecords, datasetSave, mapearEntidades } from './sankhya-gateway';
+import { montarCriteria, eq } from './sankhya-criteria';
+import type { EventoAuditoria } from './auditoria-service';
+import { usersService } from './users-service';
+import type { User } from './types';
+import { consultarAtividades, criarAtividade, type LeadAtividade } from './lead-atividades-service';
+import { chaveData, lerRegra, normalizarRegra, somarDias, validarRegra, type RegraRecorrencia } from './recorrencia';
+import type { EventoIcs, EventoIcsLido } from './icalendar';
+
+// Agenda em iCalendar: feed de assinatura por usuário, evento avulso para download e importação de .ics.
+// O token do feed fica em AD_USUARIOSVENDAS.TOKENAGENDA apenas como hash SHA-256; gerar outro revoga o anterior.
+
+// Atividades avulsas que terminaram há mais tempo que isso ficam fora do feed
+const DIAS_HISTORICO_FEED = 180;
+
+export const MAX_EVENTOS_IMPORTACAO_ICS = 200;
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const uidAtividade = (codAtividade: string | number) => `atividade-${codAtividade}@sankhya-vendas`;
+
+async function salvarHashToken(userId: number, hash: string | null) {
+  await datasetSave({
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_USUARIOSVENDAS",
+      "standAlone": false,
+      "fields": ["TOKENAGENDA"],
+      "records": [{
+        "pk": { "CODUSUARIO": String(userId) },
+        "values": { "0": hash }
+      }]
+    }
+  });
+}
+
+async function consultarHashToken(...condicoes: Parameters<typeof montarCriteria>): Promise<{ CODUSUARIO: string; TOKENAGENDA: string }[]> {
+  const PAYLOAD = {
+    "requestBody": {
+      "dataSet": {
+        "rootEntity": "AD_USUARIOSVENDAS",
+        "includePresentationFields": "N",
+        "offsetPage": "0",
+        "limit": "1",
+        "entity": {
+          "fieldset": {
+            "list": "CODUSUARIO, TOKENAGENDA"
+          }
+        },
+        "criteria": montarCriteria(...condicoes)
+      }
+    }
+  };
+
+  const resposta = await loadRecords(PAYLOAD);
+  return mapearEntidades(resposta?.responseBody?.entities);
+}
+
+export async function assinaturaAtiva(userId: number): Promise<boolean> {
+  const [registro] = await consultarHashToken(eq('CODUSUARIO', Number(userId)));
+  return !!registro?.TOKENAGENDA;
+}
+
+// O token só é exibido na geração
+export async function gerarTokenAgenda(userId: number): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  await salvarHashToken(userId, hashToken(token));
+  console.log(`📅 Link de assinatura da agenda gerado para o usuário ${userId}`);
+  return token;
+}
+
+export async function revogarTokenAgenda(userId: number): Promise<void> {
+  await salvarHashToken(userId, null);
+  console.log(`📅 Link de assinatura da agenda revogado para o usuário ${userId}`);
+}
+
+// Usuário ativo dono do token; null para token inválido, revogado ou usuário bloqueado
+export async function usuarioDoTokenAgenda(token: string | null): Promise<User | null> {
+  if (!token) return null;
+
+  const [registro] = await consultarHashToken(eq('TOKENAGENDA', hashToken(token)));
+  if (!registro) return null;
+
+  const usuario = await usersService.getById(Number(registro.CODUSUARIO));
+  return usuario && usuario.status === 'ativo' ? usuario : null;
+}
+
+// DESCRICAO das atividades do calendário vem como "TITULO|DESCRICAO"
+function separarDescricao(descricao: string): { titulo: string; detalhes: string } {
+  const [titulo, ...resto] = String(descricao || '').split('|');
+  return { titulo: titulo.trim(), detalhes: resto.join('|').trim() };
+}
+
+const ehDiaInteiro = (atividade: LeadAtividade) =>
+  (atividade.DATA_INICIO || '').endsWith('T00:00:00') && (atividade.DATA_FIM || '').endsWith('T23:59:59');
+
+// `atividade` com datas em ISO (consultarAtividades). Ocorrências alteradas apontam para a série
+// pelo uid e, com a `serie` informada, pelo início original (RECURRENCE-ID)
+export function atividadeParaEventoIcs(atividade: LeadAtividade, regra?: RegraRecorrencia | null, serie?: LeadAtividade): EventoIcs {
+  const { titulo, detalhes } = separarDescricao(atividade.DESCRICAO);
+  const detalhesLead = atividade.CODLEAD ? `Lead #${atividade.CODLEAD}` : '';
+  const ocorrencia = serie && atividade.DATA_OCORRENCIA
+    ? `${atividade.DATA_OCORRENCIA}T${(serie.DATA_INICIO || '').slice(11, 19) || '00:00:00'}`
+    : undefined;
+
+  return {
+    uid: uidAtividade(atividade.CODATIVIDADE_PAI || atividade.CODATIVIDADE),
+    titulo,
+    descricao: [detalhes, detalhesLead].filter(Boolean).join('\n'),
+    categoria: atividade.TIPO,
+    inicio: atividade.DATA_INICIO || atividade.DATA_HORA,
+    fim: atividade.DATA_FIM || atividade.DATA_INICIO || atividade.DATA_HORA,
+    regra: regra || null,
+    ocorrencia,
+    ocorrenciaDiaInteiro: serie ? ehDiaInteiro(serie) : undefined
+  };
+}
+
+// Atividades do próprio usuário: séries inteiras (RRULE) e avulsas a partir de DIAS_HISTORICO_FEED atrás
+export async function eventosFeedUsuario(userId: number): Promise<EventoIcs[]> {
+  const atividades = (await consultarAtividades('', 'S', { usuarios: [Number(userId)] }))
+    .filter(a => a.DATA_INICIO || a.DATA_HORA);
+
+  const series = new Map<string, RegraRecorrencia>();
+  const atividadesPorCodigo = new Map<string, LeadAtividade>();
+  atividades.forEach(a => {
+    const regra = lerRegra(a.RECORRENCIA);
+    if (regra) series.set(String(a.CODATIVIDADE), regra);
+    atividadesPorCodigo.set(String(a.CODATIVIDADE), a);
+  });
+
+  // Datas com linha própria saem como RECURRENCE-ID; as demais exceções, como EXDATE
+  const alteradas = new Map<string, Set<string>>();
+  atividades.forEach(a => {
+    if (a.CODATIVIDADE_PAI && a.DATA_OCORRENCIA && series.has(String(a.CODATIVIDADE_PAI))) {
+      const datas = alteradas.get(String(a.CODATIVIDADE_PAI)) || new Set<string>();
+      datas.add(a.DATA_OCORRENCIA);
+      alteradas.set(String(a.CODATIVIDADE_PAI), datas);
+    }
+  });
+
+  const limite = chaveData(somarDias(new Date(), -DIAS_HISTORICO_FEED));
+  const eventos: EventoIcs[] = [];
+
+  for (const atividade of atividades) {
+    const codigo = String(atividade.CODATIVIDADE);
+    const regra = series.get(codigo);
+
+    if (regra) {
+      const substituidas = alteradas.get(codigo) || new Set<string>();
+      eventos.push(atividadeParaEventoIcs(atividade, {
+        ...regra,
+        excecoes: (regra.excecoes || []).filter(e => !substituidas.has(e))
+      }));
+      continue;
+    }
+
+    const fim = (atividade.DATA_FIM || atividade.DATA_INICIO || atividade.DATA_HORA).slice(0, 10);
+    const daSerie = !!atividade.CODATIVIDADE_PAI && series.has(String(atividade.CODATIVIDADE_PAI));
+    if (!daSerie && fim < limite) continue;
+
+    eventos.push(daSerie
+      ? atividadeParaEventoIcs(atividade, null, atividadesPorCodigo.get(String(atividade.CODATIVIDADE_PAI)))
+      : atividadeParaEventoIcs({ ...atividade, CODATIVIDADE_PAI: undefined, DATA_OCORRENCIA: undefined }));
+  }
+
+  return eventos;
+}
+
+export interface ResultadoImportacaoIcs {
+  criadas: number
+  recorrentes: number
+  ignoradas: number
+}
+
+// Cria as atividades do arquivo no lead. Eventos que substituem uma ocorrência (RECURRENCE-ID)
+// viram atividades avulsas e a data sai da série importada do mesmo uid.
+export async function importarEventosIcs(
+  usuario: { id: number },
+  codLead: string,
+  tipo: LeadAtividade['TIPO'],
+  eventos: EventoIcsLido[],
+  auditar: (evento: EventoAuditoria) => Promise<void>
+): Promise<ResultadoImportacaoIcs> {
+  const substituidas = new Map<string, string[]>();
+  eventos.forEach(e => {
+    if (e.ocorrencia && e.uid) substituidas.set(e.uid, [...(substituidas.get(e.uid) || []), e.ocorrencia]);
+  });
+
+  let criadas = 0;
+  let recorrentes = 0;
+  let ignoradas = 0;
+
+  for (const evento of eventos) {
+    if (!evento.titulo && !evento.descricao) {
+      ignoradas++;
+      continue;
+    }
+
+    let regra: RegraRecorrencia | null = null;
+    if (evento.regra && !evento.ocorrencia) {
+      const candidata = {
+        ...evento.regra,
+        excecoes: Array.from(new Set([...(evento.regra.excecoes || []), ...(substituidas.get(evento.uid) || [])]))
+      };
+      regra = validarRegra(candidata) ? null : normalizarRegra(candidata);
+    }
+
+    const detalhes = [evento.descricao, evento.local && `Local: ${evento.local}`].filter(Boolean).join('\n');
+
+    const criada = await criarAtividade({
+      CODLEAD: codLead,
+      TIPO: tipo,
+      // Barra vertical separa título e descrição no calendário
+      DESCRICAO: `${(evento.titulo || 'Evento importado').replace(/\|/g, '/')}|${detalhes}`,
+      CODUSUARIO: usuario.id,
+      DATA_INICIO: evento.inicio,
+      DATA_FIM: evento.fim,
+      RECORRENCIA: regra ? JSON.stringify(regra) : undefined
+    });
+
+    await auditar({
+      acao: 'CRIAR',
+      entidade: 'ATIVIDADE',
+      chave: criada?.CODATIVIDADE || '',
+      codLead,
+      depois: criada
+    });
+
+    criadas++;
+    if (regra) recorrentes++;
+  }
+
+  console.log(`📥 ${criadas} atividade(s) importada(s) de .ics no lead ${codLead}`);
+  return { criadas, recorrentes, ignoradas };
+}
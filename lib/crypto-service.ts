@@ -2,6 +2,7 @@
 import bcrypt from 'bcrypt';
 
 const SALT_ROUNDS = 10;
+const SENHA_MINIMA = 8;
 
 export const cryptoService = {
   async hashPassword(password: string): Promise<string> {
@@ -12,3 +13,11 @@ export const cryptoService = {
     return await bcrypt.compare(password, hash);
   }
 };
+
+// Regra mínima para senhas novas (troca, redefinição e configuração inicial)
+export function validarNovaSenha(senha: unknown): string | null {
+  if (typeof senha !== 'string' || senha.length < SENHA_MINIMA) {
+    return `A senha deve ter pelo menos ${SENHA_MINIMA} caracteres`;
+  }
+  return null;
+}
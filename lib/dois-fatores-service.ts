@@ -0,0 +1,272 @@
+import crypto from 'crypto';
+import { loadRecords, datasetSave, mapearEntidades } from './sankhya-gateway';
+import { montarCriteria, eq } from './sankhya-criteria';
+import { redisCacheService } from './redis-cache-service';
+import { getSessionUser, type SessionUser } from './session-service';
+import { usersService } from './users-service';
+import { gerarSegredoTotp, verificarCodigoTotp, montarUriTotp } from './totp';
+import { exigeDoisFatores } from './permissoes';
+
+// Autenticação em dois fatores (TOTP) por usuário.
+// Os dados ficam em AD_USUARIOSVENDAS (TOTPATIVO, TOTPSEGREDO, TOTPRECUPERACAO, TOTPULTIMOPASSO), fora do
+// usersService para não circularem junto com o usuário. O segredo é cifrado com AES-256-GCM (TOTP_CHAVE)
+// e os códigos de recuperação são guardados apenas como hash.
+
+export type ModoDesafio = 'verificar' | 'cadastro';
+
+interface DadosDoisFatores {
+  ativo: boolean
+  segredo: string | null
+  codigosRecuperacao: string[]
+  ultimoPasso: number
+}
+
+interface Desafio {
+  userId: number
+  modo: ModoDesafio
+  tentativas: number
+}
+
+const EMISSOR = 'Sankhya Vendas';
+const DESAFIO_VALIDADE = 10 * 60 * 1000;   // 10 minutos entre a senha e o segundo fator
+const CADASTRO_VALIDADE = 15 * 60 * 1000;  // segredo gerado aguardando confirmação
+const MAX_TENTATIVAS = 5;
+const QTD_CODIGOS_RECUPERACAO = 10;
+
+const chaveDesafio = (token: string) => `2fa:desafio:${token}`;
+const chaveSegredoPendente = (userId: number) => `2fa:pendente:${userId}`;
+
+let chaveTemporaria: Buffer | null = null;
+
+function obterChaveCifra(): Buffer {
+  const chave = process.env.TOTP_CHAVE?.trim();
+  if (chave) {
+    return crypto.createHash('sha256').update(chave).digest();
+  }
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('TOTP_CHAVE não configurado');
+  }
+
+  // Desenvolvimento: chave fixa para que os cadastros sobrevivam a reinícios
+  if (!chaveTemporaria) {
+    chaveTemporaria = crypto.createHash('sha256').update('totp-desenvolvimento').digest();
+    console.warn('⚠️ TOTP_CHAVE ausente, usando chave de desenvolvimento para os segredos de 2FA');
+  }
+  return chaveTemporaria;
+}
+
+// Checagem de inicialização chamada em instrumentation.ts
+export function validarConfigDoisFatores() {
+  obterChaveCifra();
+}
+
+function cifrar(texto: string): string {
+  const iv = crypto.randomBytes(12);
+  const cifra = crypto.createCipheriv('aes-256-gcm', obterChaveCifra(), iv);
+  const dados = Buffer.concat([cifra.update(texto, 'utf8'), cifra.final()]);
+  return [iv, cifra.getAuthTag(), dados].map(b => b.toString('base64url')).join('.');
+}
+
+function decifrar(valor: string): string {
+  const [iv, tag, dados] = valor.split('.').map(p => Buffer.from(p, 'base64url'));
+  const decifra = crypto.createDecipheriv('aes-256-gcm', obterChaveCifra(), iv);
+  decifra.setAuthTag(tag);
+  return Buffer.concat([decifra.update(dados), decifra.final()]).toString('utf8');
+}
+
+const hashCodigo = (codigo: string) =>
+  crypto.createHash('sha256').update(codigo.replace(/[\s-]/g, '').toUpperCase()).digest('hex');
+
+function gerarCodigosRecuperacao(): string[] {
+  return Array.from({ length: QTD_CODIGOS_RECUPERACAO }, () => {
+    const codigo = crypto.randomBytes(5).toString('hex').toUpperCase();
+    return `${codigo.slice(0, 5)}-${codigo.slice(5)}`;
+  });
+}
+
+async function consultarDados(userId: number): Promise<DadosDoisFatores> {
+  const PAYLOAD = {
+    "requestBody": {
+      "dataSet": {
+        "rootEntity": "AD_USUARIOSVENDAS",
+        "includePresentationFields": "N",
+        "offsetPage": "0",
+        "limit": "1",
+        "entity": {
+          "fieldset": {
+            "list": "CODUSUARIO, TOTPATIVO, TOTPSEGREDO, TOTPRECUPERACAO, TOTPULTIMOPASSO"
+          }
+        },
+        "criteria": montarCriteria(eq('CODUSUARIO', Number(userId)))
+      }
+    }
+  };
+
+  const resposta = await loadRecords(PAYLOAD);
+  const [registro] = mapearEntidades(resposta?.responseBody?.entities);
+
+  let codigosRecuperacao: string[] = [];
+  try {
+    codigosRecuperacao = registro?.TOTPRECUPERACAO ? JSON.parse(registro.TOTPRECUPERACAO) : [];
+  } catch {
+    codigosRecuperacao = [];
+  }
+
+  return {
+    ativo: registro?.TOTPATIVO === 'S' && !!registro?.TOTPSEGREDO,
+    segredo: registro?.TOTPSEGREDO ? decifrar(registro.TOTPSEGREDO) : null,
+    codigosRecuperacao,
+    ultimoPasso: Number(registro?.TOTPULTIMOPASSO) || 0
+  };
+}
+
+async function salvarDados(userId: number, valores: Partial<Record<'TOTPATIVO' | 'TOTPSEGREDO' | 'TOTPRECUPERACAO' | 'TOTPULTIMOPASSO', string | null>>) {
+  const fields = Object.keys(valores);
+  const values: Record<string, string | null> = {};
+  fields.forEach((campo, i) => {
+    values[String(i)] = valores[campo as keyof typeof valores] ?? null;
+  });
+
+  await datasetSave({
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_USUARIOSVENDAS",
+      "standAlone": false,
+      "fields": fields,
+      "records": [{
+        "pk": { "CODUSUARIO": String(userId) },
+        "values": values
+      }]
+    }
+  });
+}
+
+export async function statusDoisFatores(user: { id: number; role: SessionUser['role'] }) {
+  const dados = await consultarDados(user.id);
+  return {
+    ativo: dados.ativo,
+    obrigatorio: exigeDoisFatores(user.role),
+    codigosRestantes: dados.codigosRecuperacao.length
+  };
+}
+
+// Usado no login: define se a senha basta ou se há uma segunda etapa (verificação ou cadastro obrigatório)
+export async function etapaDoisFatores(user: { id: number; role: SessionUser['role'] }): Promise<ModoDesafio | null> {
+  const dados = await consultarDados(user.id);
+  if (dados.ativo) return 'verificar';
+  if (exigeDoisFatores(user.role)) return 'cadastro';
+  return null;
+}
+
+export async function criarDesafio(userId: number, modo: ModoDesafio): Promise<string> {
+  const token = crypto.randomBytes(32).toString('base64url');
+  await redisCacheService.set<Desafio>(chaveDesafio(token), { userId, modo, tentativas: 0 }, DESAFIO_VALIDADE);
+  return token;
+}
+
+export async function obterDesafio(token: string | undefined, modo: ModoDesafio): Promise<Desafio | null> {
+  if (!token) return null;
+  const desafio = await redisCacheService.get<Desafio>(chaveDesafio(String(token)));
+  return desafio && desafio.modo === modo ? desafio : null;
+}
+
+// Conta uma tentativa errada; ao atingir o máximo o desafio é descartado e a senha deve ser informada de novo
+export async function registrarTentativaDesafio(token: string, desafio: Desafio): Promise<boolean> {
+  const tentativas = desafio.tentativas + 1;
+  if (tentativas >= MAX_TENTATIVAS) {
+    await encerrarDesafio(token);
+    return false;
+  }
+  await redisCacheService.set<Desafio>(chaveDesafio(token), { ...desafio, tentativas }, DESAFIO_VALIDADE);
+  return true;
+}
+
+export async function encerrarDesafio(token: string) {
+  await redisCacheService.delete(chaveDesafio(token));
+}
+
+// Usuário de quem está cadastrando o 2FA: pelo desafio do login (cadastro obrigatório) ou pela sessão
+export async function resolverUsuarioCadastro(token?: string): Promise<SessionUser | null> {
+  if (token) {
+    const desafio = await obterDesafio(token, 'cadastro');
+    if (!desafio) return null;
+
+    const user = await usersService.getById(desafio.userId);
+    if (!user || user.status !== 'ativo') return null;
+
+    const { password: _, ...semSenha } = user;
+    return semSenha;
+  }
+
+  return getSessionUser();
+}
+
+export async function iniciarCadastro(user: SessionUser): Promise<{ segredo: string; uri: string }> {
+  const dados = await consultarDados(user.id);
+  if (dados.ativo) {
+    throw new Error('Autenticação em dois fatores já está ativa');
+  }
+
+  const segredo = gerarSegredoTotp();
+  await redisCacheService.set(chaveSegredoPendente(user.id), segredo, CADASTRO_VALIDADE);
+
+  return { segredo, uri: montarUriTotp(segredo, user.email, EMISSOR) };
+}
+
+// Confirma o cadastro com o primeiro código do aplicativo. Retorna os códigos de recuperação (exibidos uma única vez)
+export async function confirmarCadastro(userId: number, codigo: string): Promise<string[] | null> {
+  const segredo = await redisCacheService.get<string>(chaveSegredoPendente(userId));
+  if (!segredo) return null;
+
+  const passo = verificarCodigoTotp(segredo, codigo);
+  if (passo === null) return null;
+
+  const codigos = gerarCodigosRecuperacao();
+  await salvarDados(userId, {
+    TOTPATIVO: 'S',
+    TOTPSEGREDO: cifrar(segredo),
+    TOTPRECUPERACAO: JSON.stringify(codigos.map(hashCodigo)),
+    TOTPULTIMOPASSO: String(passo)
+  });
+  await redisCacheService.delete(chaveSegredoPendente(userId));
+
+  console.log('🔐 2FA ativado para o usuário:', userId);
+  return codigos;
+}
+
+// Aceita código do aplicativo (6 dígitos) ou código de recuperação (uso único)
+export async function verificarSegundoFator(userId: number, codigo: string): Promise<boolean> {
+  const dados = await consultarDados(userId);
+  if (!dados.ativo || !dados.segredo) return false;
+
+  const valor = String(codigo || '').trim();
+
+  if (/^\d{6}$/.test(valor)) {
+    const passo = verificarCodigoTotp(dados.segredo, valor);
+    // Código já usado (mesmo passo ou anterior) não vale de novo
+    if (passo === null || passo <= dados.ultimoPasso) return false;
+
+    await salvarDados(userId, { TOTPULTIMOPASSO: String(passo) });
+    return true;
+  }
+
+  const hash = hashCodigo(valor);
+  if (!dados.codigosRecuperacao.includes(hash)) return false;
+
+  const restantes = dados.codigosRecuperacao.filter(h => h !== hash);
+  await salvarDados(userId, { TOTPRECUPERACAO: JSON.stringify(restantes) });
+  console.log('🔐 Código de recuperação usado:', { userId, restantes: restantes.length });
+  return true;
+}
+
+export async function desativarDoisFatores(userId: number) {
+  await salvarDados(userId, {
+    TOTPATIVO: 'N',
+    TOTPSEGREDO: null,
+    TOTPRECUPERACAO: null,
+    TOTPULTIMOPASSO: null
+  });
+  await redisCacheService.delete(chaveSegredoPendente(userId));
+  console.log('🔓 2FA desativado para o usuário:', userId);
+}
@@ -0,0 +1,122 @@
+import type { SessionUser } from './session-service';
+import type { EventoAuditoria } from './auditoria-service';
+import { consultarLeads, deletarLead, type Lead } from './leads-service';
+import { consultarAtividades, criarAtividade, transferirAtividades } from './lead-atividades-service';
+import { consultarProdutosLead, recalcularValorLead, transferirProdutosLead } from './lead-produtos-service';
+import { consultarParceirosPorDocumento, consultarParceirosSemelhantes } from './sankhya-api';
+import { usersService } from './users-service';
+import {
+  encontrarLeadsDuplicados,
+  encontrarParceirosDuplicados,
+  normalizarDocumento,
+  normalizarNome,
+  type LeadDuplicado,
+  type ParceiroComparavel,
+  type ParceiroDuplicado
+} from './duplicidade';
+
+// Etapas de servidor da detecção de duplicados (candidatos vindos do Sankhya) e mesclagem de leads
+
+export interface ResultadoMesclagem {
+  CODLEAD: string
+  leadsMesclados: string[]
+  atividades: number
+  produtos: number
+  VALOR: number
+}
+
+export async function verificarParceiroDuplicado(parceiro: ParceiroComparavel): Promise<ParceiroDuplicado[]> {
+  const documento = normalizarDocumento(parceiro.CGC_CPF);
+  // O termo mais longo do nome restringe a busca; a similaridade é calculada em memória
+  const termo = normalizarNome(parceiro.NOMEPARC).split(' ').sort((a, b) => b.length - a.length)[0] || '';
+
+  const [porDocumento, porNome] = await Promise.all([
+    documento ? consultarParceirosPorDocumento([documento]) : Promise.resolve([]),
+    consultarParceirosSemelhantes(termo)
+  ]);
+
+  return encontrarParceirosDuplicados(parceiro, [...porDocumento, ...porNome]);
+}
+
+// Compara com todos os leads ativos: o duplicado pode pertencer a outro vendedor.
+// O nome do responsável acompanha o resultado para quem não enxerga o lead existente.
+export async function verificarLeadDuplicado(lead: Partial<Lead>): Promise<(LeadDuplicado & { NOMEUSUARIO: string })[]> {
+  const duplicados = encontrarLeadsDuplicados(lead, await consultarLeads(undefined, true));
+  if (duplicados.length === 0) return [];
+
+  const usuarios = await usersService.getAll();
+  return duplicados.map(duplicado => ({
+    ...duplicado,
+    NOMEUSUARIO: usuarios.find(u => u.id === Number(duplicado.CODUSUARIO))?.name || ''
+  }));
+}
+
+// Move atividades e produtos ativos dos duplicados para o lead principal, recalcula o valor,
+// inativa os duplicados e deixa uma nota no principal; cada lead recebe um registro MESCLAR na auditoria
+export async function mesclarLeads(
+  usuario: SessionUser,
+  principal: Lead,
+  duplicados: Lead[],
+  auditar: (evento: EventoAuditoria) => Promise<void>
+): Promise<ResultadoMesclagem> {
+  let atividades = 0;
+  let produtos = 0;
+
+  for (const duplicado of duplicados) {
+    const [atividadesDuplicado, produtosDuplicado] = await Promise.all([
+      consultarAtividades(duplicado.CODLEAD),
+      consultarProdutosLead(duplicado.CODLEAD)
+    ]);
+    const produtosAtivos = produtosDuplicado.filter(p => p.ATIVO !== 'N' && p.CODITEM);
+
+    await transferirAtividades(atividadesDuplicado.map(a => String(a.CODATIVIDADE)), principal.CODLEAD);
+    await transferirProdutosLead(produtosAtivos.map(p => String(p.CODITEM)), principal.CODLEAD);
+    await deletarLead(duplicado.CODLEAD);
+
+    atividades += atividadesDuplicado.length;
+    produtos += produtosAtivos.length;
+
+    await auditar({
+      acao: 'MESCLAR',
+      entidade: 'LEAD',
+      chave: duplicado.CODLEAD,
+      codLead: duplicado.CODLEAD,
+      antes: { ATIVO: 'S', MESCLADO_EM: null },
+      depois: { ATIVO: 'N', MESCLADO_EM: principal.CODLEAD }
+    });
+  }
+
+  // Sem produtos transferidos o valor informado no principal é mantido
+  const valor = produtos > 0 ? await recalcularValorLead(principal.CODLEAD) : Number(principal.VALOR) || 0;
+  const mesclados = duplicados.map(d => `#${d.CODLEAD} ${d.NOME}`).join(', ');
+
+  try {
+    await criarAtividade({
+      CODLEAD: principal.CODLEAD,
+      TIPO: 'NOTA',
+      DESCRICAO: `Lead mesclado com ${mesclados}: ${atividades} atividade(s) e ${produtos} produto(s) incorporados.`,
+      CODUSUARIO: usuario.id
+    });
+  } catch (erro) {
+    console.error('⚠️ Mesclagem concluída, mas a nota no lead principal não foi criada:', erro);
+  }
+
+  await auditar({
+    acao: 'MESCLAR',
+    entidade: 'LEAD',
+    chave: principal.CODLEAD,
+    codLead: principal.CODLEAD,
+    antes: { VALOR: principal.VALOR, LEADS_MESCLADOS: null },
+    depois: { VALOR: valor, LEADS_MESCLADOS: mesclados }
+  });
+
+  console.log(`🔗 ${duplicados.length} lead(s) mesclado(s) no lead ${principal.CODLEAD}`);
+
+  return {
+    CODLEAD: principal.CODLEAD,
+    leadsMesclados: duplicados.map(d => d.CODLEAD),
+    atividades,
+    produtos,
+    VALOR: valor
+  };
+}
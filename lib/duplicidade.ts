@@ -0,0 +1,154 @@
+import type { Lead } from './leads-service';
+
+// Detecção de leads e parceiros duplicados (sem dependências de servidor, usada também no cliente).
+// Parceiro: mesmo CPF/CNPJ ou nome semelhante. Lead: mesmo parceiro com lead em andamento
+// no mesmo funil, ou título semelhante no mesmo funil.
+
+// Similaridade mínima (coeficiente de Dice sobre pares de letras) para considerar nomes semelhantes
+export const LIMIAR_NOME_SEMELHANTE = 0.85;
+
+export type MotivoDuplicidade = 'DOCUMENTO' | 'MESMO_PARCEIRO' | 'NOME_SEMELHANTE';
+
+export const ROTULOS_DUPLICIDADE: Record<MotivoDuplicidade, string> = {
+  DOCUMENTO: 'Mesmo CPF/CNPJ',
+  MESMO_PARCEIRO: 'Mesmo parceiro com negócio em andamento',
+  NOME_SEMELHANTE: 'Nome semelhante'
+};
+
+export interface ParceiroComparavel {
+  CODPARC?: string | number
+  NOMEPARC: string
+  CGC_CPF?: string
+}
+
+export interface ParceiroDuplicado {
+  CODPARC: string
+  NOMEPARC: string
+  CGC_CPF: string
+  motivo: 'DOCUMENTO' | 'NOME_SEMELHANTE'
+  similaridade: number
+}
+
+export interface LeadDuplicado {
+  CODLEAD: string
+  NOME: string
+  CODFUNIL: string
+  CODESTAGIO: string
+  CODPARC?: string
+  CODUSUARIO?: number
+  VALOR: number
+  motivo: 'MESMO_PARCEIRO' | 'NOME_SEMELHANTE'
+  similaridade: number
+}
+
+// Termos que não distinguem empresas (natureza jurídica, preposições)
+const TERMOS_IGNORADOS = new Set([
+  'ltda', 'me', 'epp', 'eireli', 'sa', 'mei', 'cia', 'slu', 'ss',
+  'de', 'da', 'do', 'das', 'dos', 'e'
+]);
+
+export function normalizarDocumento(documento?: string | null): string {
+  return String(documento || '').replace(/\D/g, '');
+}
+
+export function normalizarNome(nome?: string | null): string {
+  return String(nome || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\bs\s*\/\s*a\b/g, 'sa')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(termo => termo && !TERMOS_IGNORADOS.has(termo))
+    .join(' ');
+}
+
+function paresDeLetras(texto: string): Map<string, number> {
+  const pares = new Map<string, number>();
+  for (let i = 0; i < texto.length - 1; i++) {
+    const par = texto.slice(i, i + 2);
+    pares.set(par, (pares.get(par) || 0) + 1);
+  }
+  return pares;
+}
+
+// 0 a 1; compara os nomes normalizados sem espaços (ex.: "Mercado Bom Preço Ltda" x "MERCADO BOMPRECO")
+export function similaridadeNomes(a?: string | null, b?: string | null): number {
+  const x = normalizarNome(a).replace(/ /g, '');
+  const y = normalizarNome(b).replace(/ /g, '');
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+  if (x.length < 2 || y.length < 2) return 0;
+
+  const paresX = paresDeLetras(x);
+  const paresY = paresDeLetras(y);
+  let comuns = 0;
+  paresX.forEach((quantidade, par) => {
+    comuns += Math.min(quantidade, paresY.get(par) || 0);
+  });
+
+  return (2 * comuns) / (x.length - 1 + y.length - 1);
+}
+
+export function encontrarParceirosDuplicados(
+  parceiro: ParceiroComparavel,
+  candidatos: ParceiroComparavel[]
+): ParceiroDuplicado[] {
+  const documento = normalizarDocumento(parceiro.CGC_CPF);
+  const encontrados = new Map<string, ParceiroDuplicado>();
+
+  for (const candidato of candidatos) {
+    const codParc = String(candidato.CODPARC ?? '');
+    if (!codParc || codParc === String(parceiro.CODPARC ?? '') || encontrados.has(codParc)) continue;
+
+    const similaridade = similaridadeNomes(parceiro.NOMEPARC, candidato.NOMEPARC);
+    const mesmoDocumento = !!documento && normalizarDocumento(candidato.CGC_CPF) === documento;
+
+    if (mesmoDocumento || similaridade >= LIMIAR_NOME_SEMELHANTE) {
+      encontrados.set(codParc, {
+        CODPARC: codParc,
+        NOMEPARC: candidato.NOMEPARC,
+        CGC_CPF: candidato.CGC_CPF || '',
+        motivo: mesmoDocumento ? 'DOCUMENTO' : 'NOME_SEMELHANTE',
+        similaridade
+      });
+    }
+  }
+
+  return Array.from(encontrados.values()).sort((a, b) =>
+    Number(b.motivo === 'DOCUMENTO') - Number(a.motivo === 'DOCUMENTO') || b.similaridade - a.similaridade
+  );
+}
+
+// Apenas leads ativos e em andamento do mesmo funil contam como duplicados
+export function encontrarLeadsDuplicados(lead: Partial<Lead>, existentes: Lead[]): LeadDuplicado[] {
+  const duplicados: LeadDuplicado[] = [];
+
+  for (const existente of existentes) {
+    if (lead.CODLEAD && String(existente.CODLEAD) === String(lead.CODLEAD)) continue;
+    if (existente.ATIVO === 'N') continue;
+    if (existente.STATUS_LEAD && existente.STATUS_LEAD !== 'EM_ANDAMENTO') continue;
+    if (String(existente.CODFUNIL) !== String(lead.CODFUNIL ?? '')) continue;
+
+    const mesmoParceiro = !!lead.CODPARC && String(existente.CODPARC || '') === String(lead.CODPARC);
+    const similaridade = similaridadeNomes(lead.NOME, existente.NOME);
+
+    if (mesmoParceiro || similaridade >= LIMIAR_NOME_SEMELHANTE) {
+      duplicados.push({
+        CODLEAD: existente.CODLEAD,
+        NOME: existente.NOME,
+        CODFUNIL: existente.CODFUNIL,
+        CODESTAGIO: existente.CODESTAGIO,
+        CODPARC: existente.CODPARC,
+        CODUSUARIO: existente.CODUSUARIO,
+        VALOR: Number(existente.VALOR) || 0,
+        motivo: mesmoParceiro ? 'MESMO_PARCEIRO' : 'NOME_SEMELHANTE',
+        similaridade
+      });
+    }
+  }
+
+  return duplicados.sort((a, b) =>
+    Number(b.motivo === 'MESMO_PARCEIRO') - Number(a.motivo === 'MESMO_PARCEIRO') || b.similaridade - a.similaridade
+  );
+}
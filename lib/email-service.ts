@@ -0,0 +1,97 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+// Envio de emails com transporte plugável.
+// EMAIL_TRANSPORT escolhe o transporte registrado: "console" (padrão) ou "arquivo" (grava .eml em EMAIL_ARQUIVO_DIR).
+// Um provedor real (SMTP, API) é registrado com registrarTransporteEmail(nome, transporte).
+// Em produção o console não é aceito: ele gravaria nos logs os links de redefinição de senha com o token.
+
+export interface MensagemEmail {
+  para: string
+  assunto: string
+  texto: string
+  html?: string
+}
+
+export interface TransporteEmail {
+  enviar(mensagem: MensagemEmail & { de: string }): Promise<void>
+}
+
+const transporteConsole: TransporteEmail = {
+  async enviar(mensagem) {
+    console.log('📧 Email (console):', {
+      de: mensagem.de,
+      para: mensagem.para,
+      assunto: mensagem.assunto
+    });
+    console.log(mensagem.texto);
+  }
+};
+
+const transporteArquivo: TransporteEmail = {
+  async enviar(mensagem) {
+    const diretorio = path.resolve(process.env.EMAIL_ARQUIVO_DIR || '.emails');
+    await fs.mkdir(diretorio, { recursive: true });
+
+    const nome = `${new Date().toISOString().replace(/[:.]/g, '-')}-${mensagem.para.replace(/[^a-zA-Z0-9@._-]/g, '_')}.eml`;
+    const conteudo = [
+      `From: ${mensagem.de}`,
+      `To: ${mensagem.para}`,
+      `Subject: ${mensagem.assunto}`,
+      `Date: ${new Date().toUTCString()}`,
+      'Content-Type: text/plain; charset=utf-8',
+      '',
+      mensagem.texto
+    ].join('\r\n');
+
+    await fs.writeFile(path.join(diretorio, nome), conteudo, 'utf-8');
+    console.log('📧 Email gravado em arquivo:', path.join(diretorio, nome));
+  }
+};
+
+const transportes: Record<string, TransporteEmail> = {
+  console: transporteConsole,
+  arquivo: transporteArquivo
+};
+
+export function registrarTransporteEmail(nome: string, transporte: TransporteEmail) {
+  transportes[nome] = transporte;
+}
+
+// Nome do transporte configurado, ou null em produção sem transporte real
+function nomeTransporte(): string | null {
+  const nome = (process.env.EMAIL_TRANSPORT || '').trim().toLowerCase();
+
+  if (process.env.NODE_ENV === 'production') {
+    return nome && nome !== 'console' ? nome : null;
+  }
+
+  return nome || 'console';
+}
+
+// Chamado na inicialização: avisa que emails (recuperação de senha, notificações) não serão enviados
+export function validarConfigEmail() {
+  if (!nomeTransporte()) {
+    console.warn('⚠️ EMAIL_TRANSPORT não configurado para produção: emails não serão enviados');
+  }
+}
+
+function obterTransporte(): TransporteEmail {
+  const nome = nomeTransporte();
+  if (!nome) {
+    throw new Error('Nenhum transporte de email configurado para produção (EMAIL_TRANSPORT)');
+  }
+
+  const transporte = transportes[nome];
+
+  if (!transporte) {
+    throw new Error(`Transporte de email desconhecido: ${nome}`);
+  }
+
+  return transporte;
+}
+
+export async function enviarEmail(mensagem: MensagemEmail): Promise<void> {
+  const de = process.env.EMAIL_REMETENTE || 'nao-responda@sankhya.local';
+  await obterTransporte().enviar({ ...mensagem, de });
+}
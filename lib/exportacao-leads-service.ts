@@ -0,0 +1,260 @@
+import type { Lead } from './leads-service';
+import { consultarEstagiosFunil, type EstagioFunil, type Funil } from './funis-service';
+import { consultarProdutosLeads } from './lead-produtos-service';
+import { consultarMotivos } from './motivos-service';
+import { consultarParceirosPorCodigo } from './sankhya-api';
+import { usersService } from './users-service';
+import { gerarCsv, gerarXlsx, type CelulaPlanilha } from './planilha-service';
+import { gerarPdf, type ColunaPdf } from './relatorio-pdf-service';
+
+// Exportação da visão filtrada do kanban em CSV, XLSX ou relatório PDF do pipeline
+
+export type FormatoExportacao = 'csv' | 'xlsx' | 'pdf';
+export type StatusExportacao = 'TODOS' | 'EM_ANDAMENTO' | 'GANHO' | 'PERDIDO';
+
+export const FORMATOS_EXPORTACAO: FormatoExportacao[] = ['csv', 'xlsx', 'pdf'];
+
+export interface FiltrosExportacao {
+  codFunil?: string | null
+  status: StatusExportacao
+  codUsuario?: string | null
+  busca?: string | null
+}
+
+export interface ArquivoExportacao {
+  conteudo: Buffer
+  contentType: string
+  nomeArquivo: string
+}
+
+interface LinhaExportacao {
+  lead: Lead
+  funil: string
+  estagio: string
+  ordemEstagio: number
+  responsavel: string
+  parceiro: string
+  status: string
+  motivo: string
+  produtos: string
+}
+
+const CONTENT_TYPES: Record<FormatoExportacao, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  pdf: 'application/pdf'
+};
+
+const ROTULOS_STATUS: Record<string, string> = {
+  EM_ANDAMENTO: 'Em andamento',
+  GANHO: 'Ganho',
+  PERDIDO: 'Perdido'
+};
+
+const CABECALHO = [
+  'Código', 'Título', 'Descrição', 'Funil', 'Estágio', 'Responsável', 'Parceiro', 'Valor', 'Status',
+  'Previsão de fechamento', 'Criação', 'Atualização', 'Conclusão', 'Motivo', 'Produtos'
+];
+
+// Mesmos critérios dos filtros do kanban (status vazio conta como em andamento)
+export function filtrarLeadsExportacao(leads: Lead[], filtros: FiltrosExportacao): Lead[] {
+  const busca = (filtros.busca || '').trim().toLowerCase();
+
+  return leads.filter(lead => {
+    const status = lead.STATUS_LEAD || 'EM_ANDAMENTO';
+    return (!filtros.codFunil || String(lead.CODFUNIL) === filtros.codFunil) &&
+      (filtros.status === 'TODOS' || status === filtros.status) &&
+      (!filtros.codUsuario || String(lead.CODUSUARIO) === filtros.codUsuario) &&
+      (!busca || (lead.NOME || '').toLowerCase().includes(busca) || (lead.DESCRICAO || '').toLowerCase().includes(busca));
+  });
+}
+
+// Datas do Sankhya (DD/MM/YYYY [HH:mm:ss]) ou ISO (YYYY-MM-DD) exibidas como DD/MM/YYYY
+function formatarData(texto?: string | null): string {
+  const valor = String(texto || '').trim();
+  const br = valor.match(/^(\d{2}\/\d{2}\/\d{4})/);
+  if (br) return br[1];
+
+  const iso = valor.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  return iso ? `${iso[3]}/${iso[2]}/${iso[1]}` : '';
+}
+
+function formatarMoeda(valor: number): string {
+  return new Intl.NumberFormat('pt-BR', { style: 'currency', currency: 'BRL' }).format(valor || 0);
+}
+
+function formatarQuantidade(valor: number): string {
+  return new Intl.NumberFormat('pt-BR', { maximumFractionDigits: 3 }).format(valor || 0);
+}
+
+function paraNomeArquivo(texto: string): string {
+  return texto
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .toLowerCase();
+}
+
+async function montarLinhas(leads: Lead[], funis: Funil[]): Promise<LinhaExportacao[]> {
+  const codFunis = Array.from(new Set(leads.map(l => String(l.CODFUNIL)).filter(Boolean)));
+  const codParceiros = Array.from(new Set(leads.map(l => String(l.CODPARC || '')).filter(Boolean)));
+
+  const [estagios, usuarios, parceiros, produtos, motivos] = await Promise.all([
+    Promise.all(codFunis.map(cod => consultarEstagiosFunil(cod))),
+    usersService.getAll(),
+    consultarParceirosPorCodigo(codParceiros),
+    consultarProdutosLeads(leads.map(l => l.CODLEAD)),
+    consultarMotivos(null, null, true)
+  ]);
+
+  const nomesFunis = new Map(funis.map(f => [String(f.CODFUNIL), f.NOME]));
+  const estagiosPorCodigo = new Map<string, EstagioFunil>();
+  estagios.flat().forEach(e => estagiosPorCodigo.set(String(e.CODESTAGIO), e));
+  const nomesUsuarios = new Map(usuarios.map(u => [String(u.id), u.name]));
+  const nomesParceiros = new Map<string, string>(parceiros.map((p: any) => [String(p.CODPARC), p.NOMEPARC]));
+  const nomesMotivos = new Map(motivos.map(m => [String(m.CODMOTIVO), m.DESCRICAO]));
+
+  return leads.map(lead => {
+    const estagio = estagiosPorCodigo.get(String(lead.CODESTAGIO));
+    const motivo = [lead.CODMOTIVO ? nomesMotivos.get(String(lead.CODMOTIVO)) : '', lead.MOTIVO_PERDA]
+      .filter(Boolean)
+      .join(' - ');
+
+    return {
+      lead,
+      funil: nomesFunis.get(String(lead.CODFUNIL)) || '',
+      estagio: estagio?.NOME || '',
+      ordemEstagio: estagio?.ORDEM ?? Number.MAX_SAFE_INTEGER,
+      responsavel: lead.CODUSUARIO ? nomesUsuarios.get(String(lead.CODUSUARIO)) || `Usuário ${lead.CODUSUARIO}` : '',
+      parceiro: lead.CODPARC ? nomesParceiros.get(String(lead.CODPARC)) || `Parceiro ${lead.CODPARC}` : '',
+      status: ROTULOS_STATUS[lead.STATUS_LEAD || 'EM_ANDAMENTO'] || String(lead.STATUS_LEAD),
+      motivo,
+      produtos: (produtos[lead.CODLEAD] || [])
+        .map(p => `${formatarQuantidade(p.QUANTIDADE)} x ${p.DESCRPROD}`)
+        .join('; ')
+    };
+  });
+}
+
+function celulasPlanilha(linha: LinhaExportacao): CelulaPlanilha[] {
+  const { lead } = linha;
+  return [
+    Number(lead.CODLEAD) || lead.CODLEAD,
+    lead.NOME,
+    lead.DESCRICAO,
+    linha.funil,
+    linha.estagio,
+    linha.responsavel,
+    linha.parceiro,
+    Number(lead.VALOR) || 0,
+    linha.status,
+    formatarData(lead.DATA_VENCIMENTO),
+    formatarData(lead.DATA_CRIACAO),
+    formatarData(lead.DATA_ATUALIZACAO),
+    formatarData(lead.DATA_CONCLUSAO),
+    linha.motivo,
+    linha.produtos
+  ];
+}
+
+function relatorioPipeline(linhas: LinhaExportacao[], titulo: string, filtros: FiltrosExportacao): Buffer {
+  const valorTotal = linhas.reduce((soma, l) => soma + (Number(l.lead.VALOR) || 0), 0);
+  const contar = (status: string) => linhas.filter(l => (l.lead.STATUS_LEAD || 'EM_ANDAMENTO') === status).length;
+
+  // Resumo por estágio na ordem do funil
+  const resumo = new Map<string, { funil: string; estagio: string; ordem: number; quantidade: number; valor: number }>();
+  linhas.forEach(l => {
+    const chave = `${l.funil}|${l.estagio}`;
+    const item = resumo.get(chave) || { funil: l.funil, estagio: l.estagio || 'Sem estágio', ordem: l.ordemEstagio, quantidade: 0, valor: 0 };
+    item.quantidade++;
+    item.valor += Number(l.lead.VALOR) || 0;
+    resumo.set(chave, item);
+  });
+  const estagios = Array.from(resumo.values())
+    .sort((a, b) => a.funil.localeCompare(b.funil) || a.ordem - b.ordem);
+
+  const ordenadas = [...linhas].sort((a, b) =>
+    a.funil.localeCompare(b.funil) || a.ordemEstagio - b.ordemEstagio || (a.lead.NOME || '').localeCompare(b.lead.NOME || '')
+  );
+
+  const colunasLeads: ColunaPdf[] = [
+    { titulo: 'Código', largura: 5 },
+    { titulo: 'Título', largura: 16 },
+    { titulo: 'Estágio', largura: 10 },
+    { titulo: 'Responsável', largura: 11 },
+    { titulo: 'Parceiro', largura: 14 },
+    { titulo: 'Valor', largura: 9, alinhamento: 'direita' },
+    { titulo: 'Status', largura: 7 },
+    { titulo: 'Previsão', largura: 7 },
+    { titulo: 'Produtos', largura: 21 }
+  ];
+
+  return gerarPdf({
+    titulo,
+    subtitulo: `Gerado em ${new Date().toLocaleString('pt-BR')} - Status: ${filtros.status === 'TODOS' ? 'Todos' : ROTULOS_STATUS[filtros.status]}` +
+      (filtros.busca ? ` - Busca: "${filtros.busca}"` : ''),
+    indicadores: [
+      { rotulo: 'Leads', valor: String(linhas.length) },
+      { rotulo: 'Valor total', valor: formatarMoeda(valorTotal) },
+      { rotulo: 'Em andamento', valor: String(contar('EM_ANDAMENTO')) },
+      { rotulo: 'Ganhos', valor: String(contar('GANHO')) },
+      { rotulo: 'Perdidos', valor: String(contar('PERDIDO')) }
+    ],
+    tabelas: [
+      {
+        titulo: 'Resumo por estágio',
+        colunas: [
+          { titulo: 'Funil', largura: 3 },
+          { titulo: 'Estágio', largura: 3 },
+          { titulo: 'Leads', largura: 1, alinhamento: 'direita' },
+          { titulo: 'Valor', largura: 2, alinhamento: 'direita' }
+        ],
+        linhas: estagios.map(e => [e.funil, e.estagio, String(e.quantidade), formatarMoeda(e.valor)]),
+        totais: ['Total', '', String(linhas.length), formatarMoeda(valorTotal)]
+      },
+      {
+        titulo: 'Leads',
+        colunas: colunasLeads,
+        linhas: ordenadas.map(l => [
+          l.lead.CODLEAD,
+          l.lead.NOME,
+          l.estagio,
+          l.responsavel,
+          l.parceiro,
+          formatarMoeda(Number(l.lead.VALOR) || 0),
+          l.status,
+          formatarData(l.lead.DATA_VENCIMENTO),
+          l.produtos
+        ])
+      }
+    ]
+  });
+}
+
+// leads: já restritos ao escopo de visibilidade do usuário e aos funis com acesso
+export async function exportarLeads(
+  leads: Lead[],
+  funis: Funil[],
+  formato: FormatoExportacao,
+  filtros: FiltrosExportacao
+): Promise<ArquivoExportacao> {
+  const linhas = await montarLinhas(filtrarLeadsExportacao(leads, filtros), funis);
+
+  const nomeFunil = filtros.codFunil ? funis.find(f => String(f.CODFUNIL) === filtros.codFunil)?.NOME : null;
+  const hoje = new Date();
+  const data = `${hoje.getFullYear()}-${String(hoje.getMonth() + 1).padStart(2, '0')}-${String(hoje.getDate()).padStart(2, '0')}`;
+  const nomeArquivo = `leads_${paraNomeArquivo(nomeFunil || 'todos-os-funis') || 'funil'}_${data}.${formato}`;
+
+  let conteudo: Buffer;
+  if (formato === 'pdf') {
+    conteudo = relatorioPipeline(linhas, nomeFunil ? `Pipeline - ${nomeFunil}` : 'Pipeline de leads', filtros);
+  } else if (formato === 'xlsx') {
+    conteudo = gerarXlsx(CABECALHO, linhas.map(celulasPlanilha), 'Leads');
+  } else {
+    conteudo = gerarCsv(CABECALHO, linhas.map(celulasPlanilha));
+  }
+
+  console.log(`📤 Exportação de leads (${formato}): ${linhas.length} registros`);
+  return { conteudo, contentType: CONTENT_TYPES[formato], nomeArquivo };
+}
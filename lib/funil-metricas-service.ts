@@ -0,0 +1,173 @@
+import { consultarEstagiosFunil, type EstagioFunil } from './funis-service';
+import { buscarMetricasEstagios, calcularMotivosPerda, type MetricaEstagio, type MotivoPerda } from './analise-service';
+import { consultarMotivos, type MotivoLead } from './motivos-service';
+import { lerDataHoraSankhya } from './historico-estagios-service';
+import { probabilidadeDoEstagio, probabilidadeDoLead } from './probabilidade-estagio';
+import type { Lead } from './leads-service';
+
+// Métricas de velocidade e conversão do funil calculadas a partir dos leads (sem IA).
+// O pipeline por estágio é a fotografia atual dos leads em andamento; novos leads, ganhos,
+// perdas e ciclo de venda consideram o período filtrado e o período anterior de mesma duração.
+
+export interface PeriodoMetricas {
+  dataInicio: string // YYYY-MM-DD
+  dataFim: string // YYYY-MM-DD
+}
+
+export interface ResumoPeriodo {
+  novosLeads: number
+  valorNovos: number
+  ganhos: number
+  valorGanho: number
+  perdidos: number
+  valorPerdido: number
+  // Ganhos sobre concluídos (ganhos + perdidos), em %
+  taxaConversao: number | null
+  // Dias entre criação e conclusão dos leads ganhos
+  cicloMedioDias: number | null
+}
+
+export interface EstagioPipeline {
+  CODESTAGIO: string
+  NOME: string
+  COR: string
+  ORDEM: number
+  quantidade: number
+  valor: number
+  // Probabilidade de ganho do estágio; o valor ponderado respeita a probabilidade informada em cada lead
+  peso: number
+  valorPonderado: number
+  tempoMedioMs: number | null
+  taxaConversao: number | null
+}
+
+export type { MotivoPerda };
+
+export interface MetricasFunil {
+  periodo: PeriodoMetricas
+  periodoAnterior: PeriodoMetricas
+  estagios: EstagioPipeline[]
+  pipelineTotal: number
+  pipelinePonderado: number
+  motivosPerda: MotivoPerda[]
+  atual: ResumoPeriodo
+  anterior: ResumoPeriodo
+}
+
+const MS_POR_DIA = 24 * 60 * 60 * 1000;
+
+function lerDataIso(dataISO: string): Date {
+  const [ano, mes, dia] = dataISO.split('-').map(Number);
+  return new Date(ano, mes - 1, dia);
+}
+
+function formatarDataIso(data: Date): string {
+  const mes = String(data.getMonth() + 1).padStart(2, '0');
+  const dia = String(data.getDate()).padStart(2, '0');
+  return `${data.getFullYear()}-${mes}-${dia}`;
+}
+
+// Período imediatamente anterior, com o mesmo número de dias
+export function periodoAnterior(periodo: PeriodoMetricas): PeriodoMetricas {
+  const inicio = lerDataIso(periodo.dataInicio);
+  const dias = Math.round((lerDataIso(periodo.dataFim).getTime() - inicio.getTime()) / MS_POR_DIA) + 1;
+
+  return {
+    dataInicio: formatarDataIso(new Date(inicio.getFullYear(), inicio.getMonth(), inicio.getDate() - dias)),
+    dataFim: formatarDataIso(new Date(inicio.getFullYear(), inicio.getMonth(), inicio.getDate() - 1))
+  };
+}
+
+function noPeriodo(data: Date | null, periodo: PeriodoMetricas): boolean {
+  if (!data) return false;
+  const inicio = lerDataIso(periodo.dataInicio);
+  const fimExclusivo = lerDataIso(periodo.dataFim);
+  fimExclusivo.setDate(fimExclusivo.getDate() + 1);
+  return data >= inicio && data < fimExclusivo;
+}
+
+const emAndamento = (lead: Lead) => !lead.STATUS_LEAD || lead.STATUS_LEAD === 'EM_ANDAMENTO';
+const somarValor = (leads: Lead[]) => leads.reduce((soma, lead) => soma + (Number(lead.VALOR) || 0), 0);
+
+export function resumirPeriodo(leads: Lead[], periodo: PeriodoMetricas): ResumoPeriodo {
+  const novos = leads.filter(l => noPeriodo(lerDataHoraSankhya(l.DATA_CRIACAO), periodo));
+  const concluidos = leads.filter(l => noPeriodo(lerDataHoraSankhya(l.DATA_CONCLUSAO), periodo));
+  const ganhos = concluidos.filter(l => l.STATUS_LEAD === 'GANHO');
+  const perdidos = concluidos.filter(l => l.STATUS_LEAD === 'PERDIDO');
+
+  const ciclos = ganhos
+    .map(l => {
+      const criacao = lerDataHoraSankhya(l.DATA_CRIACAO);
+      const conclusao = lerDataHoraSankhya(l.DATA_CONCLUSAO);
+      return criacao && conclusao ? Math.max(0, (conclusao.getTime() - criacao.getTime()) / MS_POR_DIA) : null;
+    })
+    .filter((dias): dias is number => dias !== null);
+
+  return {
+    novosLeads: novos.length,
+    valorNovos: somarValor(novos),
+    ganhos: ganhos.length,
+    valorGanho: somarValor(ganhos),
+    perdidos: perdidos.length,
+    valorPerdido: somarValor(perdidos),
+    taxaConversao: concluidos.length > 0 ? Math.round((ganhos.length / (ganhos.length + perdidos.length)) * 1000) / 10 : null,
+    cicloMedioDias: ciclos.length > 0 ? Math.round((ciclos.reduce((a, b) => a + b, 0) / ciclos.length) * 10) / 10 : null
+  };
+}
+
+export function agruparMotivosPerda(leads: Lead[], periodo: PeriodoMetricas, motivos: MotivoLead[] = []): MotivoPerda[] {
+  return calcularMotivosPerda(leads.filter(l => noPeriodo(lerDataHoraSankhya(l.DATA_CONCLUSAO), periodo)), motivos);
+}
+
+export function montarPipeline(leads: Lead[], estagios: EstagioFunil[], historico: MetricaEstagio[] = []): EstagioPipeline[] {
+  const ordenados = [...estagios].sort((a, b) => Number(a.ORDEM) - Number(b.ORDEM));
+  const abertos = leads.filter(emAndamento);
+
+  return ordenados.map(estagio => {
+    const doEstagio = abertos.filter(l => String(l.CODESTAGIO) === String(estagio.CODESTAGIO));
+    const valor = somarValor(doEstagio);
+    const valorPonderado = doEstagio.reduce((soma, lead) => soma + (Number(lead.VALOR) || 0) * probabilidadeDoLead(lead, estagios), 0) / 100;
+    const metricaHistorico = historico.find(m => m.CODESTAGIO === String(estagio.CODESTAGIO));
+
+    return {
+      CODESTAGIO: String(estagio.CODESTAGIO),
+      NOME: estagio.NOME,
+      COR: estagio.COR,
+      ORDEM: Number(estagio.ORDEM),
+      quantidade: doEstagio.length,
+      valor,
+      peso: probabilidadeDoEstagio(estagio, estagios),
+      valorPonderado: Math.round(valorPonderado * 100) / 100,
+      tempoMedioMs: metricaHistorico?.tempoMedioMs ?? null,
+      taxaConversao: metricaHistorico?.taxaConversao ?? null
+    };
+  });
+}
+
+// leads: já restritos ao funil, ao vendedor e ao escopo de acesso do usuário
+export async function calcularMetricasFunil(codFunil: string, leads: Lead[], periodo: PeriodoMetricas): Promise<MetricasFunil> {
+  const anterior = periodoAnterior(periodo);
+
+  const [estagios, historico, motivos] = await Promise.all([
+    consultarEstagiosFunil(codFunil),
+    buscarMetricasEstagios(codFunil, {
+      codLeads: leads.map(l => l.CODLEAD),
+      dataInicio: periodo.dataInicio,
+      dataFim: periodo.dataFim
+    }),
+    consultarMotivos(codFunil, 'PERDA', true)
+  ]);
+
+  const estagiosPipeline = montarPipeline(leads, estagios, historico.estagios);
+
+  return {
+    periodo,
+    periodoAnterior: anterior,
+    estagios: estagiosPipeline,
+    pipelineTotal: estagiosPipeline.reduce((soma, e) => soma + e.valor, 0),
+    pipelinePonderado: Math.round(estagiosPipeline.reduce((soma, e) => soma + e.valorPonderado, 0) * 100) / 100,
+    motivosPerda: agruparMotivosPerda(leads, periodo, motivos),
+    atual: resumirPeriodo(leads, periodo),
+    anterior: resumirPeriodo(leads, anterior)
+  };
+}
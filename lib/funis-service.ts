@@ -1,4 +1,5 @@
-import axios from 'axios';
+import { loadRecords, datasetSave, mapearEntidades } from './sankhya-gateway';
+import { montarCriteria, eq, inList } from './sankhya-criteria';
 
 // Serviço de gerenciamento de funis
 export interface Funil {
@@ -18,132 +19,10 @@ export interface EstagioFunil {
   ORDEM: number
   COR: string
   ATIVO: string
-}
-
-const ENDPOINT_LOGIN = "https://api.sandbox.sankhya.com.br/login";
-const URL_CONSULTA_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=CRUDServiceProvider.loadRecords&outputType=json";
-const URL_SAVE_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=DatasetSP.save&outputType=json";
-
-const LOGIN_HEADERS = {
-  'token': process.env.SANKHYA_TOKEN || "",
-  'appkey': process.env.SANKHYA_APPKEY || "",
-  'username': process.env.SANKHYA_USERNAME || "",
-  'password': process.env.SANKHYA_PASSWORD || ""
-};
-
-let cachedToken: string | null = null;
-let tokenExpiration: number | null = null;
-const TOKEN_DURATION = 55 * 60 * 1000; // 55 minutos em ms
-
-async function obterToken(retry = 0): Promise<string> {
-  // Verificar se o token em cache ainda é válido
-  if (cachedToken && tokenExpiration && Date.now() < tokenExpiration) {
-    return cachedToken;
-  }
-
-  const maxRetries = 3;
-  const timeout = 15000; // 15 segundos
-
-  try {
-    console.log(`🔐 Obtendo novo token (tentativa ${retry + 1}/${maxRetries + 1})...`);
-
-    const resposta = await axios.post(ENDPOINT_LOGIN, {}, {
-      headers: LOGIN_HEADERS,
-      timeout: timeout
-    });
-
-    const token = resposta.data.bearerToken || resposta.data.token;
-
-    if (!token) {
-      throw new Error("Token não encontrado na resposta de login.");
-    }
-
-    cachedToken = token;
-    tokenExpiration = Date.now() + TOKEN_DURATION;
-    console.log("✅ Token obtido com sucesso");
-
-    return token;
-
-  } catch (erro: any) {
-    console.error(`❌ Erro ao obter token (tentativa ${retry + 1}):`, erro.message);
-
-    if (retry < maxRetries) {
-      // Esperar antes de tentar novamente (exponential backoff)
-      const waitTime = Math.min(1000 * Math.pow(2, retry), 5000);
-      console.log(`⏳ Aguardando ${waitTime}ms antes de tentar novamente...`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-      return obterToken(retry + 1);
-    }
-
-    cachedToken = null;
-    tokenExpiration = null;
-    throw new Error(`Falha na autenticação Sankhya após ${maxRetries + 1} tentativas: ${erro.message}`);
-  }
-}
-
-async function fazerRequisicaoAutenticada(fullUrl: string, method = 'POST', data = {}, retry = 0) {
-  const maxRetries = 2;
-
-  try {
-    const token = await obterToken();
-
-    const config = {
-      method: method.toLowerCase(),
-      url: fullUrl,
-      data: data,
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      },
-      timeout: 15000
-    };
-
-    const resposta = await axios(config);
-    return resposta.data;
-
-  } catch (erro: any) {
-    if (erro.response && (erro.response.status === 401 || erro.response.status === 403)) {
-      console.log("🔄 Token expirado, invalidando cache...");
-      cachedToken = null;
-      tokenExpiration = null;
-
-      // Tentar novamente com novo token
-      if (retry < maxRetries) {
-        return fazerRequisicaoAutenticada(fullUrl, method, data, retry + 1);
-      }
-    }
-
-    const errorDetails = erro.response?.data || erro.message;
-    throw new Error(`Falha na comunicação com a API Sankhya: ${JSON.stringify(errorDetails)}`);
-  }
-}
-
-function mapearEntidades(entities: any, primaryKey: string): any[] {
-  if (!entities || !entities.entity) {
-    return [];
-  }
-
-  const fieldNames = entities.metadata.fields.field.map((f: any) => f.name);
-  const entityArray = Array.isArray(entities.entity) ? entities.entity : [entities.entity];
-
-  return entityArray.map((rawEntity: any) => {
-    const cleanObject: any = {};
-
-    if (rawEntity.$) {
-      cleanObject[primaryKey] = rawEntity.$[primaryKey] || "";
-    }
-
-    for (let i = 0; i < fieldNames.length; i++) {
-      const fieldKey = `f${i}`;
-      const fieldName = fieldNames[i];
-
-      if (rawEntity[fieldKey]) {
-        cleanObject[fieldName] = rawEntity[fieldKey].$;
-      }
-    }
-
-    return cleanObject;
-  });
+  ESTAGIOS_PERMITIDOS?: string // Regras de transição (ver ./regras-estagio)
+  CAMPOS_OBRIGATORIOS?: string
+  EXIGE_APROVACAO?: 'S' | 'N'
+  PROBABILIDADE?: number | null // % de ganho do estágio (ver ./probabilidade-estagio)
 }
 
 // CONSULTAR FUNIS (Admin vê todos, usuários normais veem apenas os permitidos)
@@ -174,7 +53,7 @@ export async function consultarFunis(codUsuario?: number | undefined, isAdmin: b
     };
 
     try {
-      const resposta = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, 'POST', PAYLOAD);
+      const resposta = await loadRecords(PAYLOAD);
       console.log('📥 Resposta da busca de funis (Admin):', JSON.stringify(resposta, null, 2));
 
       if (!resposta?.responseBody?.entities || !resposta.responseBody.entities.entity) {
@@ -208,11 +87,7 @@ export async function consultarFunis(codUsuario?: number | undefined, isAdmin: b
             "list": "CODFUNIL"
           }
         },
-        "criteria": {
-          "expression": {
-            "$": `CODUSUARIO = ${codUsuario} AND ATIVO = 'S'`
-          }
-        }
+        "criteria": montarCriteria(eq('CODUSUARIO', Number(codUsuario)), eq('ATIVO', 'S'))
       }
     }
   };
@@ -221,7 +96,7 @@ export async function consultarFunis(codUsuario?: number | undefined, isAdmin: b
   console.log('📤 Payload:', JSON.stringify(PAYLOAD, null, 2));
 
   try {
-    const resposta = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, 'POST', PAYLOAD);
+    const resposta = await loadRecords(PAYLOAD);
     
     console.log('📥 Resposta de funis permitidos:', JSON.stringify(resposta, null, 2));
 
@@ -253,11 +128,7 @@ export async function consultarFunis(codUsuario?: number | undefined, isAdmin: b
               "list": "NOME, DESCRICAO, COR, ATIVO, DATA_CRIACAO, DATA_ATUALIZACAO"
             }
           },
-          "criteria": {
-            "expression": {
-              "$": `CODFUNIL IN (${codFunis.join(',')}) AND ATIVO = 'S'`
-            }
-          }
+          "criteria": montarCriteria(inList('CODFUNIL', codFunis.map(Number)), eq('ATIVO', 'S'))
         }
       }
     };
@@ -265,7 +136,7 @@ export async function consultarFunis(codUsuario?: number | undefined, isAdmin: b
     console.log('🔍 Buscando detalhes dos funis:', codFunis);
     console.log('📤 Payload de funis:', JSON.stringify(FUNIS_PAYLOAD, null, 2));
 
-    const respostaFunis = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, 'POST', FUNIS_PAYLOAD);
+    const respostaFunis = await loadRecords(FUNIS_PAYLOAD);
     
     console.log('📥 Resposta de detalhes dos funis:', JSON.stringify(respostaFunis, null, 2));
 
@@ -294,14 +165,10 @@ export async function consultarEstagiosFunil(codFunil: string): Promise<EstagioF
         "offsetPage": "0",
         "entity": {
           "fieldset": {
-            "list": "CODFUNIL, NOME, ORDEM, COR, ATIVO"
-          }
-        },
-        "criteria": {
-          "expression": {
-            "$": `CODFUNIL = ${codFunil} AND ATIVO = 'S'`
+            "list": "CODFUNIL, NOME, ORDEM, COR, ATIVO, ESTAGIOS_PERMITIDOS, CAMPOS_OBRIGATORIOS, EXIGE_APROVACAO, PROBABILIDADE"
           }
         },
+        "criteria": montarCriteria(eq('CODFUNIL', Number(codFunil)), eq('ATIVO', 'S')),
         "orderBy": {
           "ORDEM": "ASC"
         }
@@ -310,7 +177,7 @@ export async function consultarEstagiosFunil(codFunil: string): Promise<EstagioF
   };
 
   try {
-    const resposta = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, 'POST', PAYLOAD);
+    const resposta = await loadRecords(PAYLOAD);
 
     if (!resposta?.responseBody?.entities) {
       return [];
@@ -371,11 +238,18 @@ export async function salvarFunil(funil: Partial<Funil>): Promise<Funil> {
     }
   };
 
-  const resposta = await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', PAYLOAD);
+  const resposta = await datasetSave(PAYLOAD);
   const funis = await consultarFunis();
   return isUpdate ? funis.find(f => f.CODFUNIL === funil.CODFUNIL)! : funis[funis.length - 1];
 }
 
+// Probabilidade vazia grava nulo (o estágio passa a usar o padrão pela posição)
+function formatarProbabilidade(valor: unknown): string | null {
+  if (valor === undefined || valor === null || valor === '') return null;
+  const numero = Number(valor);
+  return Number.isFinite(numero) ? String(Math.min(100, Math.max(0, Math.round(numero)))) : null;
+}
+
 // SALVAR ESTÁGIO
 export async function salvarEstagio(estagio: Partial<EstagioFunil>): Promise<EstagioFunil> {
   const isUpdate = !!estagio.CODESTAGIO;
@@ -385,24 +259,32 @@ export async function salvarEstagio(estagio: Partial<EstagioFunil>): Promise<Est
   let record: any;
 
   if (isUpdate) {
-    fields = ["NOME", "ORDEM", "COR"];
+    fields = ["NOME", "ORDEM", "COR", "ESTAGIOS_PERMITIDOS", "CAMPOS_OBRIGATORIOS", "EXIGE_APROVACAO", "PROBABILIDADE"];
     values = {
       "0": estagio.NOME || "",
       "1": String(estagio.ORDEM || 0),
-      "2": estagio.COR || "#3b82f6"
+      "2": estagio.COR || "#3b82f6",
+      "3": estagio.ESTAGIOS_PERMITIDOS || "",
+      "4": estagio.CAMPOS_OBRIGATORIOS || "",
+      "5": estagio.EXIGE_APROVACAO === 'S' ? 'S' : 'N',
+      "6": formatarProbabilidade(estagio.PROBABILIDADE)
     };
     record = {
       pk: { CODESTAGIO: String(estagio.CODESTAGIO) },
       values: values
     };
   } else {
-    fields = ["CODFUNIL", "NOME", "ORDEM", "COR", "ATIVO"];
+    fields = ["CODFUNIL", "NOME", "ORDEM", "COR", "ATIVO", "ESTAGIOS_PERMITIDOS", "CAMPOS_OBRIGATORIOS", "EXIGE_APROVACAO", "PROBABILIDADE"];
     values = {
       "0": String(estagio.CODFUNIL || ""),
       "1": estagio.NOME || "",
       "2": String(estagio.ORDEM || 0),
       "3": estagio.COR || "#3b82f6",
-      "4": "S"
+      "4": "S",
+      "5": estagio.ESTAGIOS_PERMITIDOS || "",
+      "6": estagio.CAMPOS_OBRIGATORIOS || "",
+      "7": estagio.EXIGE_APROVACAO === 'S' ? 'S' : 'N',
+      "8": formatarProbabilidade(estagio.PROBABILIDADE)
     };
     record = { values: values };
   }
@@ -419,7 +301,7 @@ export async function salvarEstagio(estagio: Partial<EstagioFunil>): Promise<Est
 
   console.log('📤 Salvando estágio com payload:', JSON.stringify(PAYLOAD, null, 2));
 
-  const resposta = await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', PAYLOAD);
+  const resposta = await datasetSave(PAYLOAD);
   console.log('📥 Resposta do save:', JSON.stringify(resposta, null, 2));
 
   // Aguardar um pouco para garantir que o registro foi processado
@@ -474,7 +356,7 @@ export async function deletarFunil(codFunil: string): Promise<void> {
     }
   };
 
-  await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', PAYLOAD);
+  await datasetSave(PAYLOAD);
 }
 
 // DELETAR ESTÁGIO (soft delete)
@@ -492,7 +374,7 @@ export async function deletarEstagio(codEstagio: string): Promise<void> {
     }
   };
 
-  await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', PAYLOAD);
+  await datasetSave(PAYLOAD);
 }
 
 // GERENCIAR PERMISSÕES DE FUNIS POR USUÁRIO
@@ -509,17 +391,13 @@ export async function consultarFunisUsuario(codUsuario: number): Promise<string[
             "list": "CODFUNIL"
           }
         },
-        "criteria": {
-          "expression": {
-            "$": `CODUSUARIO = ${codUsuario} AND ATIVO = 'S'`
-          }
-        }
+        "criteria": montarCriteria(eq('CODUSUARIO', Number(codUsuario)), eq('ATIVO', 'S'))
       }
     }
   };
 
   try {
-    const resposta = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, 'POST', PAYLOAD);
+    const resposta = await loadRecords(PAYLOAD);
 
     if (!resposta?.responseBody?.entities) {
       return [];
@@ -550,7 +428,7 @@ export async function atribuirFunilUsuario(codFunil: string, codUsuario: number)
     }
   };
 
-  await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', PAYLOAD);
+  await datasetSave(PAYLOAD);
 }
 
 export async function removerFunilUsuario(codFunil: string, codUsuario: number): Promise<void> {
@@ -566,17 +444,17 @@ export async function removerFunilUsuario(codFunil: string, codUsuario: number):
             "list": "CODFUNILUSUARIO, CODFUNIL, CODUSUARIO"
           }
         },
-        "criteria": {
-          "expression": {
-            "$": `CODFUNIL = ${codFunil} AND CODUSUARIO = ${codUsuario} AND ATIVO = 'S'`
-          }
-        }
+        "criteria": montarCriteria(
+          eq('CODFUNIL', Number(codFunil)),
+          eq('CODUSUARIO', Number(codUsuario)),
+          eq('ATIVO', 'S')
+        )
       }
     }
   };
 
   try {
-    const resposta = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, 'POST', BUSCA_PAYLOAD);
+    const resposta = await loadRecords(BUSCA_PAYLOAD);
 
     if (!resposta?.responseBody?.entities?.entity) {
       console.log(`ℹ️ Nenhum registro ativo encontrado para CODFUNIL=${codFunil} e CODUSUARIO=${codUsuario}`);
@@ -600,7 +478,7 @@ export async function removerFunilUsuario(codFunil: string, codUsuario: number):
         }
       };
 
-      await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', INATIVAR_PAYLOAD);
+      await datasetSave(INATIVAR_PAYLOAD);
       console.log(`✅ Permissão de funil inativada: CODFUNILUSUARIO=${entidade.CODFUNILUSUARIO}`);
     }
   } catch (erro) {
@@ -0,0 +1,156 @@
+import { loadRecords, datasetSave, mapearEntidades, formatarDataHoraParaSankhya } from './sankhya-gateway';
+import { montarCriteria, eq, inList, entreDatas } from './sankhya-criteria';
+import type { EstagioFunil } from './funis-service';
+import type { SessionUser } from './session-service';
+
+// Histórico de mudanças de estágio dos leads, gravado em AD_LEADSHISTESTAGIO.
+// Cada registro marca a entrada do lead em um estágio; o tempo no estágio é a distância até a entrada seguinte.
+// A criação do lead gera o primeiro registro, sem estágio de origem.
+
+export interface MudancaEstagio {
+  CODHIST: string
+  CODLEAD: string
+  CODFUNIL: string
+  CODESTAGIO_ORIGEM?: string
+  CODESTAGIO_DESTINO: string
+  DATA_MUDANCA: string
+  CODUSUARIO: number
+  NOMEUSUARIO: string
+}
+
+// Item da linha do tempo exibida no lead
+export interface EtapaLinhaDoTempo extends MudancaEstagio {
+  NOME_ORIGEM: string | null
+  NOME_DESTINO: string
+  // Milissegundos no estágio de destino (até a próxima mudança ou, no estágio atual, até fimAtual)
+  DURACAO_MS: number
+  ATUAL: boolean
+  // Movimento para um estágio anterior do funil
+  RETROCESSO: boolean
+}
+
+interface NovaMudanca {
+  codLead: string | number
+  codFunil: string | number
+  origem?: string | number | null
+  destino: string | number
+}
+
+// "DD/MM/YYYY HH:mm:ss" (ou só a data) vindo do Sankhya
+export function lerDataHoraSankhya(texto?: string | null): Date | null {
+  const partes = String(texto || '').match(/^(\d{2})\/(\d{2})\/(\d{4})(?:\s+(\d{2}):(\d{2})(?::(\d{2}))?)?/);
+  if (!partes) return null;
+
+  const [, dia, mes, ano, hora = '0', min = '0', seg = '0'] = partes;
+  return new Date(Number(ano), Number(mes) - 1, Number(dia), Number(hora), Number(min), Number(seg));
+}
+
+// Falha na gravação do histórico é registrada no log, mas não desfaz a mudança de estágio
+export async function registrarMudancaEstagio(usuario: SessionUser, mudanca: NovaMudanca): Promise<void> {
+  if (mudanca.origem && String(mudanca.origem) === String(mudanca.destino)) return;
+
+  try {
+    await datasetSave({
+      "serviceName": "DatasetSP.save",
+      "requestBody": {
+        "entityName": "AD_LEADSHISTESTAGIO",
+        "standAlone": false,
+        "fields": ["CODLEAD", "CODFUNIL", "CODESTAGIO_ORIGEM", "CODESTAGIO_DESTINO", "DATA_MUDANCA", "CODUSUARIO", "NOMEUSUARIO"],
+        "records": [{
+          "values": {
+            "0": String(mudanca.codLead),
+            "1": String(mudanca.codFunil),
+            "2": mudanca.origem ? String(mudanca.origem) : null,
+            "3": String(mudanca.destino),
+            "4": formatarDataHoraParaSankhya(new Date()),
+            "5": String(usuario.id),
+            "6": usuario.name
+          }
+        }]
+      }
+    });
+
+    console.log('🔀 Mudança de estágio registrada:', { lead: mudanca.codLead, origem: mudanca.origem || null, destino: mudanca.destino });
+  } catch (erro) {
+    console.error('❌ Erro ao registrar histórico de estágio:', { lead: mudanca.codLead, erro });
+  }
+}
+
+async function consultarMudancas(...condicoes: Parameters<typeof montarCriteria>): Promise<MudancaEstagio[]> {
+  const PAYLOAD = {
+    "requestBody": {
+      "dataSet": {
+        "rootEntity": "AD_LEADSHISTESTAGIO",
+        "includePresentationFields": "N",
+        "offsetPage": null,
+        "disableRowsLimit": true,
+        "entity": {
+          "fieldset": {
+            "list": "CODLEAD, CODFUNIL, CODESTAGIO_ORIGEM, CODESTAGIO_DESTINO, DATA_MUDANCA, CODUSUARIO, NOMEUSUARIO"
+          }
+        },
+        "criteria": montarCriteria(...condicoes),
+        "orderBy": {
+          "CODHIST": "ASC"
+        }
+      }
+    }
+  };
+
+  const resposta = await loadRecords(PAYLOAD, { timeout: 30000 });
+  return mapearEntidades(resposta?.responseBody?.entities, 'CODHIST').map((registro: any) => ({
+    ...registro,
+    CODUSUARIO: Number(registro.CODUSUARIO)
+  })) as MudancaEstagio[];
+}
+
+export async function consultarHistoricoEstagios(codLead: string): Promise<MudancaEstagio[]> {
+  return consultarMudancas(eq('CODLEAD', Number(codLead)));
+}
+
+// Mudanças de um funil (ou dos leads informados), opcionalmente limitadas ao período
+export async function consultarHistoricoFunil(
+  codFunil: string,
+  filtros: { codLeads?: Array<string | number>; dataInicio?: string | Date | null; dataFim?: string | Date | null } = {}
+): Promise<MudancaEstagio[]> {
+  if (filtros.codLeads && filtros.codLeads.length === 0) return [];
+
+  return consultarMudancas(
+    eq('CODFUNIL', Number(codFunil)),
+    !!filtros.codLeads && inList('CODLEAD', filtros.codLeads.map(Number)),
+    entreDatas('DATA_MUDANCA', filtros.dataInicio, filtros.dataFim)
+  );
+}
+
+// Agrupa as mudanças por lead, na ordem em que aconteceram
+export function agruparPorLead(mudancas: MudancaEstagio[]): Map<string, MudancaEstagio[]> {
+  const porLead = new Map<string, MudancaEstagio[]>();
+  for (const mudanca of mudancas) {
+    const lista = porLead.get(String(mudanca.CODLEAD)) || [];
+    lista.push(mudanca);
+    porLead.set(String(mudanca.CODLEAD), lista);
+  }
+  return porLead;
+}
+
+// fimAtual: agora para leads em andamento, a data de conclusão para ganhos/perdidos
+export function montarLinhaDoTempo(mudancas: MudancaEstagio[], estagios: EstagioFunil[], fimAtual: Date = new Date()): EtapaLinhaDoTempo[] {
+  const estagio = (cod?: string) => estagios.find(e => String(e.CODESTAGIO) === String(cod));
+
+  return mudancas.map((mudanca, indice) => {
+    const inicio = lerDataHoraSankhya(mudanca.DATA_MUDANCA);
+    const proxima = mudancas[indice + 1];
+    const fim = proxima ? lerDataHoraSankhya(proxima.DATA_MUDANCA) : fimAtual;
+    const origem = estagio(mudanca.CODESTAGIO_ORIGEM);
+    const destino = estagio(mudanca.CODESTAGIO_DESTINO);
+
+    return {
+      ...mudanca,
+      NOME_ORIGEM: mudanca.CODESTAGIO_ORIGEM ? origem?.NOME || mudanca.CODESTAGIO_ORIGEM : null,
+      NOME_DESTINO: destino?.NOME || mudanca.CODESTAGIO_DESTINO,
+      DURACAO_MS: inicio && fim ? Math.max(0, fim.getTime() - inicio.getTime()) : 0,
+      ATUAL: !proxima,
+      RETROCESSO: !!origem && !!destino && Number(destino.ORDEM) < Number(origem.ORDEM)
+    };
+  });
+}
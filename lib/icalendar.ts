@@ -0,0 +1,369 @@
+import {
+  MAX_OCORRENCIAS,
+  chaveData,
+  dataDeChave,
+  dataHoraLocal,
+  somarDias,
+  type FrequenciaRecorrencia,
+  type RegraRecorrencia
+} from './recorrencia';
+
+// Geração e leitura de iCalendar (RFC 5545) sem dependências externas, usada no feed de assinatura,
+// no download de um evento e na importação de .ics. Horários das atividades não têm fuso e saem
+// como hora local "flutuante"; atividades de 00:00:00 a 23:59:59 saem como eventos de dia inteiro.
+
+export interface EventoIcs {
+  uid: string
+  titulo: string
+  descricao?: string
+  categoria?: string
+  // Data e hora local sem fuso (YYYY-MM-DDTHH:mm:ss)
+  inicio: string
+  fim?: string
+  regra?: RegraRecorrencia | null
+  // Início original (mesmo formato) quando o evento substitui uma ocorrência da série de mesmo uid
+  ocorrencia?: string
+  // Formato da série substituída, que o RECURRENCE-ID deve seguir
+  ocorrenciaDiaInteiro?: boolean
+}
+
+export interface EventoIcsLido {
+  uid: string
+  titulo: string
+  descricao: string
+  local: string
+  inicio: string
+  fim: string
+  diaInteiro: boolean
+  regra: RegraRecorrencia | null
+  ocorrencia?: string
+}
+
+const CODIGOS_DIA = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const FREQUENCIAS_ICS: Record<FrequenciaRecorrencia, string> = {
+  DIARIA: 'DAILY',
+  SEMANAL: 'WEEKLY',
+  MENSAL: 'MONTHLY'
+};
+
+// ---------- Geração ----------
+
+function escaparTexto(texto: string): string {
+  return texto
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+const codificador = new TextEncoder();
+
+// Linhas com mais de 75 octetos continuam na seguinte, iniciada por espaço
+function dobrarLinha(linha: string): string {
+  const partes: string[] = [];
+  let atual = '';
+  let octetos = 0;
+
+  for (const caractere of linha) {
+    const tamanho = codificador.encode(caractere).length;
+    if (octetos + tamanho > (partes.length === 0 ? 75 : 74)) {
+      partes.push(atual);
+      atual = '';
+      octetos = 0;
+    }
+    atual += caractere;
+    octetos += tamanho;
+  }
+  partes.push(atual);
+
+  return partes.join('\r\n ');
+}
+
+const compactarData = (iso: string) => iso.slice(0, 10).replace(/-/g, '');
+const compactarDataHora = (iso: string) => iso.slice(0, 19).replace(/[-:]/g, '');
+
+function carimboUtc(data: Date): string {
+  return data.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function ehDiaInteiro(inicio: string, fim: string): boolean {
+  return inicio.slice(11, 19) === '00:00:00' && fim.slice(11, 19) === '23:59:59';
+}
+
+function montarRegra(regra: RegraRecorrencia, inicio: Date, diaInteiro: boolean): string {
+  const partes = [`FREQ=${FREQUENCIAS_ICS[regra.frequencia]}`];
+  if (regra.intervalo > 1) partes.push(`INTERVAL=${regra.intervalo}`);
+
+  if (regra.frequencia === 'SEMANAL') {
+    const dias = regra.diasSemana && regra.diasSemana.length > 0 ? regra.diasSemana : [inicio.getDay()];
+    partes.push(`BYDAY=${dias.map(d => CODIGOS_DIA[d]).join(',')}`);
+  }
+
+  // Dias 29 a 31 caem no último dia dos meses mais curtos, como em gerarOcorrencias
+  if (regra.frequencia === 'MENSAL' && inicio.getDate() > 28) {
+    const dias = Array.from({ length: inicio.getDate() - 27 }, (_, i) => 28 + i);
+    partes.push(`BYMONTHDAY=${dias.join(',')}`, 'BYSETPOS=-1');
+  }
+
+  if (regra.ate) {
+    partes.push(`UNTIL=${regra.ate.replace(/-/g, '')}${diaInteiro ? '' : 'T235959'}`);
+  } else if (regra.quantidade) {
+    partes.push(`COUNT=${regra.quantidade}`);
+  }
+
+  return partes.join(';');
+}
+
+function linhasDoEvento(evento: EventoIcs, carimbo: string): string[] {
+  const fim = evento.fim || evento.inicio;
+  const diaInteiro = ehDiaInteiro(evento.inicio, fim);
+  const inicioData = new Date(evento.inicio);
+
+  const data = (iso: string) => diaInteiro ? `;VALUE=DATE:${compactarData(iso)}` : `:${compactarDataHora(iso)}`;
+  // No dia inteiro o fim é exclusivo: dia seguinte ao último
+  const fimIcs = diaInteiro ? chaveData(somarDias(dataDeChave(fim.slice(0, 10)), 1)) : fim;
+
+  const linhas = [
+    'BEGIN:VEVENT',
+    `UID:${evento.uid}`,
+    `DTSTAMP:${carimbo}`,
+    `DTSTART${data(evento.inicio)}`,
+    `DTEND${data(fimIcs)}`,
+    `SUMMARY:${escaparTexto(evento.titulo || 'Atividade')}`
+  ];
+
+  if (evento.descricao) linhas.push(`DESCRIPTION:${escaparTexto(evento.descricao)}`);
+  if (evento.categoria) linhas.push(`CATEGORIES:${escaparTexto(evento.categoria)}`);
+
+  if (evento.ocorrencia) {
+    linhas.push(evento.ocorrenciaDiaInteiro
+      ? `RECURRENCE-ID;VALUE=DATE:${compactarData(evento.ocorrencia)}`
+      : `RECURRENCE-ID:${compactarDataHora(evento.ocorrencia)}`);
+  }
+
+  if (evento.regra) {
+    linhas.push(`RRULE:${montarRegra(evento.regra, inicioData, diaInteiro)}`);
+    for (const excecao of evento.regra.excecoes || []) {
+      linhas.push(`EXDATE${data(`${excecao}T${evento.inicio.slice(11, 19)}`)}`);
+    }
+  }
+
+  linhas.push('END:VEVENT');
+
+  return linhas;
+}
+
+export function gerarIcs(eventos: EventoIcs[], nomeCalendario?: string): string {
+  const carimbo = carimboUtc(new Date());
+  const linhas = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Sankhya Vendas//Agenda//PT-BR',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH'
+  ];
+
+  if (nomeCalendario) linhas.push(`X-WR-CALNAME:${escaparTexto(nomeCalendario)}`);
+  eventos.forEach(evento => linhas.push(...linhasDoEvento(evento, carimbo)));
+  linhas.push('END:VCALENDAR');
+
+  return linhas.map(dobrarLinha).join('\r\n') + '\r\n';
+}
+
+// ---------- Leitura ----------
+
+interface Propriedade {
+  nome: string
+  parametros: Record<string, string>
+  valor: string
+}
+
+function desescaparTexto(texto: string): string {
+  return texto.replace(/\\([\\;,nN])/g, (_, c) => (c === 'n' || c === 'N') ? '\n' : c);
+}
+
+function lerPropriedade(linha: string): Propriedade | null {
+  // Dois-pontos dentro de parâmetros entre aspas não separam o valor
+  let aspas = false;
+  let separador = -1;
+  for (let i = 0; i < linha.length; i++) {
+    if (linha[i] === '"') aspas = !aspas;
+    else if (linha[i] === ':' && !aspas) {
+      separador = i;
+      break;
+    }
+  }
+  if (separador < 0) return null;
+
+  const [nome, ...parametros] = linha.slice(0, separador).split(';');
+  return {
+    nome: nome.toUpperCase(),
+    parametros: Object.fromEntries(parametros.map(p => {
+      const [chave, ...valor] = p.split('=');
+      return [chave.toUpperCase(), valor.join('=').replace(/^"|"$/g, '')];
+    })),
+    valor: linha.slice(separador + 1)
+  };
+}
+
+// Diferença em ms entre o relógio do fuso e UTC no instante informado
+function deslocamentoFuso(fuso: string, instante: Date): number {
+  const partes = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone: fuso,
+      hourCycle: 'h23',
+      year: 'numeric', month: '2-digit', day: '2-digit',
+      hour: '2-digit', minute: '2-digit', second: '2-digit'
+    }).formatToParts(instante).map(p => [p.type, p.value])
+  );
+  const relogio = Date.UTC(Number(partes.year), Number(partes.month) - 1, Number(partes.day),
+    Number(partes.hour), Number(partes.minute), Number(partes.second));
+  return relogio - instante.getTime();
+}
+
+// Valor DATE ou DATE-TIME convertido para hora local; null se inválido
+function lerData(propriedade: Propriedade): { data: Date; diaInteiro: boolean } | null {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(propriedade.valor.trim());
+  if (!match) return null;
+
+  const [, ano, mes, dia, hora, min, seg, utc] = match;
+  if (hora === undefined) {
+    return { data: new Date(Number(ano), Number(mes) - 1, Number(dia)), diaInteiro: true };
+  }
+
+  const relogio = Date.UTC(Number(ano), Number(mes) - 1, Number(dia), Number(hora), Number(min), Number(seg));
+  if (utc) return { data: new Date(relogio), diaInteiro: false };
+
+  const fuso = propriedade.parametros.TZID;
+  if (fuso) {
+    try {
+      return { data: new Date(relogio - deslocamentoFuso(fuso, new Date(relogio))), diaInteiro: false };
+    } catch {
+      // Fuso desconhecido (ex.: nomes do Windows): tratado como hora local
+    }
+  }
+
+  return {
+    data: new Date(Number(ano), Number(mes) - 1, Number(dia), Number(hora), Number(min), Number(seg)),
+    diaInteiro: false
+  };
+}
+
+// Apenas durações simples (P1D, PT1H30M, P1W)
+function lerDuracao(valor: string): number | null {
+  const match = /^P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(valor.trim());
+  if (!match) return null;
+  const [, semanas = '0', dias = '0', horas = '0', minutos = '0', segundos = '0'] = match;
+  return ((((Number(semanas) * 7 + Number(dias)) * 24 + Number(horas)) * 60 + Number(minutos)) * 60 + Number(segundos)) * 1000;
+}
+
+// RRULE convertida para a regra das atividades; null quando usa recursos sem equivalente
+function lerRegra(valor: string, excecoes: string[]): RegraRecorrencia | null {
+  const partes = Object.fromEntries(valor.split(';').map(p => {
+    const [chave, ...resto] = p.split('=');
+    return [chave.toUpperCase(), resto.join('=')];
+  }));
+
+  const frequencia = (Object.keys(FREQUENCIAS_ICS) as FrequenciaRecorrencia[])
+    .find(f => FREQUENCIAS_ICS[f] === partes.FREQ);
+  if (!frequencia) return null;
+
+  const suportadas = ['FREQ', 'INTERVAL', 'BYDAY', 'UNTIL', 'COUNT', 'WKST'];
+  if (Object.keys(partes).some(chave => !suportadas.includes(chave))) return null;
+
+  const regra: RegraRecorrencia = { frequencia, intervalo: Math.min(99, Math.max(1, Number(partes.INTERVAL) || 1)) };
+
+  if (partes.BYDAY) {
+    if (frequencia !== 'SEMANAL') return null;
+    const dias = partes.BYDAY.split(',').map((d: string) => CODIGOS_DIA.indexOf(d.trim().toUpperCase()));
+    if (dias.some((d: number) => d < 0)) return null;
+    regra.diasSemana = Array.from(new Set<number>(dias)).sort((a, b) => a - b);
+  }
+
+  if (partes.UNTIL) {
+    const ate = lerData({ nome: 'UNTIL', parametros: {}, valor: partes.UNTIL });
+    if (!ate) return null;
+    regra.ate = chaveData(ate.data);
+  } else if (partes.COUNT) {
+    regra.quantidade = Math.min(MAX_OCORRENCIAS, Math.max(1, Number(partes.COUNT) || 1));
+  }
+
+  if (excecoes.length > 0) regra.excecoes = excecoes;
+  return regra;
+}
+
+// Lê os VEVENT do arquivo; eventos sem início válido são ignorados
+export function lerIcs(conteudo: string): EventoIcsLido[] {
+  const linhas = conteudo.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const eventos: EventoIcsLido[] = [];
+  let atual: Propriedade[] | null = null;
+  // Componentes aninhados no evento (alarmes) são ignorados
+  let aninhados = 0;
+
+  for (const linha of linhas) {
+    const maiuscula = linha.trim().toUpperCase();
+    if (maiuscula === 'BEGIN:VEVENT') {
+      atual = [];
+      aninhados = 0;
+    } else if (maiuscula === 'END:VEVENT' && atual) {
+      const evento = montarEvento(atual);
+      if (evento) eventos.push(evento);
+      atual = null;
+    } else if (atual) {
+      if (maiuscula.startsWith('BEGIN:')) aninhados++;
+      else if (maiuscula.startsWith('END:')) aninhados = Math.max(0, aninhados - 1);
+      else if (aninhados === 0) {
+        const propriedade = lerPropriedade(linha);
+        if (propriedade) atual.push(propriedade);
+      }
+    }
+  }
+
+  return eventos;
+}
+
+function montarEvento(proprias: Propriedade[]): EventoIcsLido | null {
+  const obter = (nome: string) => proprias.find(p => p.nome === nome);
+
+  const dtStart = obter('DTSTART');
+  const inicio = dtStart ? lerData(dtStart) : null;
+  if (!inicio) return null;
+
+  let fim: Date;
+  const dtEnd = obter('DTEND');
+  const lidoFim = dtEnd ? lerData(dtEnd) : null;
+  const duracao = obter('DURATION') ? lerDuracao(obter('DURATION')!.valor) : null;
+
+  if (inicio.diaInteiro) {
+    // Fim exclusivo no dia inteiro: termina às 23:59:59 do dia anterior
+    const ultimoDia = lidoFim ? somarDias(lidoFim.data, -1) : duracao ? new Date(inicio.data.getTime() + duracao - 1000) : inicio.data;
+    fim = new Date(Math.max(inicio.data.getTime(), ultimoDia.getTime()));
+    fim.setHours(23, 59, 59, 0);
+  } else {
+    fim = lidoFim ? lidoFim.data : duracao !== null ? new Date(inicio.data.getTime() + duracao) : inicio.data;
+    if (fim < inicio.data) fim = inicio.data;
+  }
+
+  const excecoes = proprias
+    .filter(p => p.nome === 'EXDATE')
+    .flatMap(p => p.valor.split(',').map(valor => lerData({ ...p, valor })))
+    .filter((d): d is { data: Date; diaInteiro: boolean } => !!d)
+    .map(d => chaveData(d.data));
+
+  const rrule = obter('RRULE');
+  const recurrenceId = obter('RECURRENCE-ID');
+  const ocorrencia = recurrenceId ? lerData(recurrenceId) : null;
+
+  return {
+    uid: obter('UID')?.valor.trim() || '',
+    titulo: desescaparTexto(obter('SUMMARY')?.valor || '').trim(),
+    descricao: desescaparTexto(obter('DESCRIPTION')?.valor || '').trim(),
+    local: desescaparTexto(obter('LOCATION')?.valor || '').trim(),
+    inicio: dataHoraLocal(inicio.data),
+    fim: dataHoraLocal(fim),
+    diaInteiro: inicio.diaInteiro,
+    regra: rrule ? lerRegra(rrule.valor, Array.from(new Set(excecoes))) : null,
+    ocorrencia: ocorrencia ? chaveData(ocorrencia.data) : undefined
+  };
+}
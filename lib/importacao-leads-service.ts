@@ -0,0 +1,94 @@
+import type { SessionUser } from './session-service';
+import type { EventoAuditoria } from './auditoria-service';
+import { consultarLeads, salvarLead } from './leads-service';
+import { consultarFunis, consultarEstagiosFunil, type EstagioFunil } from './funis-service';
+import { consultarParceirosPorDocumento } from './sankhya-api';
+import { registrarMudancaEstagio } from './historico-estagios-service';
+import { validarImportacao, type LinhaImportacao, type MapeamentoImportacao } from './importacao-leads';
+
+// Etapas de servidor da importação de leads: monta o contexto (funis com acesso, estágios,
+// leads existentes e parceiros pelo CPF/CNPJ) e grava as linhas válidas de um lote
+
+export interface ResultadoLinhaImportacao {
+  linha: number
+  status: 'CRIADO' | 'ERRO' | 'DUPLICADO'
+  erros: string[]
+  CODLEAD?: string
+}
+
+export async function analisarImportacao(
+  usuario: SessionUser,
+  linhas: { linha: number; valores: string[] }[],
+  mapeamento: MapeamentoImportacao,
+  codFunilPadrao?: string | null
+): Promise<LinhaImportacao[]> {
+  const funis = await consultarFunis(usuario.id, usuario.role === 'Administrador');
+
+  const estagios = await Promise.all(funis.map(f => consultarEstagiosFunil(String(f.CODFUNIL))));
+  const estagiosPorFunil: Record<string, EstagioFunil[]> = {};
+  funis.forEach((funil, i) => {
+    estagiosPorFunil[String(funil.CODFUNIL)] = estagios[i];
+  });
+
+  // Duplicidade é verificada contra todos os leads ativos, não só os visíveis ao usuário
+  const leadsExistentes = await consultarLeads(undefined, true);
+
+  const colunaDocumento = mapeamento.CGC_CPF;
+  const parceiros = colunaDocumento !== undefined
+    ? await consultarParceirosPorDocumento(linhas.map(l => l.valores[colunaDocumento] || ''))
+    : [];
+
+  return validarImportacao(linhas, mapeamento, {
+    funis,
+    estagiosPorFunil,
+    leadsExistentes,
+    parceiros,
+    codFunilPadrao
+  });
+}
+
+// Grava as linhas válidas uma a uma: salvarLead identifica o lead criado pelo último registro,
+// então as gravações não podem ser paralelas
+export async function importarLinhas(
+  usuario: SessionUser,
+  linhas: LinhaImportacao[],
+  auditar: (evento: EventoAuditoria) => Promise<void>
+): Promise<ResultadoLinhaImportacao[]> {
+  const resultados: ResultadoLinhaImportacao[] = [];
+
+  for (const linha of linhas) {
+    if (linha.status !== 'VALIDO' || !linha.lead) {
+      resultados.push({ linha: linha.linha, status: linha.status === 'DUPLICADO' ? 'DUPLICADO' : 'ERRO', erros: linha.erros });
+      continue;
+    }
+
+    try {
+      const leadSalvo = await salvarLead(linha.lead, usuario.id);
+      const codLead = leadSalvo?.CODLEAD || '';
+
+      if (codLead && linha.lead.CODFUNIL && linha.lead.CODESTAGIO) {
+        await registrarMudancaEstagio(usuario, {
+          codLead,
+          codFunil: linha.lead.CODFUNIL,
+          origem: null,
+          destino: linha.lead.CODESTAGIO
+        });
+      }
+
+      await auditar({
+        acao: 'CRIAR',
+        entidade: 'LEAD',
+        chave: codLead,
+        codLead,
+        depois: leadSalvo
+      });
+
+      resultados.push({ linha: linha.linha, status: 'CRIADO', erros: [], CODLEAD: codLead });
+    } catch (erro: any) {
+      console.error(`❌ Erro ao importar linha ${linha.linha}:`, erro);
+      resultados.push({ linha: linha.linha, status: 'ERRO', erros: [erro.message || 'Erro ao salvar lead'] });
+    }
+  }
+
+  return resultados;
+}
@@ -0,0 +1,252 @@
+import type { Lead } from './leads-service';
+import type { Funil, EstagioFunil } from './funis-service';
+import { validarTransicao } from './regras-estagio';
+
+// Importação de leads em lote a partir de planilha (ver ./planilha-service e ./importacao-leads-service).
+// Sem dependências de servidor: a validação roda tanto na prévia (simulação) quanto na confirmação de cada lote.
+
+export type CampoImportacao = 'NOME' | 'DESCRICAO' | 'VALOR' | 'FUNIL' | 'ESTAGIO' | 'DATA_VENCIMENTO' | 'TIPO_TAG' | 'CGC_CPF';
+
+export const CAMPOS_IMPORTACAO: { campo: CampoImportacao; rotulo: string; obrigatorio: boolean; sinonimos: string[] }[] = [
+  { campo: 'NOME', rotulo: 'Título do negócio', obrigatorio: true, sinonimos: ['nome', 'titulo', 'negocio', 'lead'] },
+  { campo: 'DESCRICAO', rotulo: 'Descrição', obrigatorio: false, sinonimos: ['descricao', 'observacao', 'detalhes'] },
+  { campo: 'VALOR', rotulo: 'Valor', obrigatorio: false, sinonimos: ['valor', 'vlr', 'montante'] },
+  { campo: 'FUNIL', rotulo: 'Funil', obrigatorio: false, sinonimos: ['funil', 'pipeline'] },
+  { campo: 'ESTAGIO', rotulo: 'Estágio', obrigatorio: false, sinonimos: ['estagio', 'etapa', 'fase'] },
+  { campo: 'DATA_VENCIMENTO', rotulo: 'Previsão de fechamento', obrigatorio: false, sinonimos: ['data', 'vencimento', 'previsao', 'fechamento'] },
+  { campo: 'TIPO_TAG', rotulo: 'Tag', obrigatorio: false, sinonimos: ['tag', 'etiqueta', 'tipo'] },
+  { campo: 'CGC_CPF', rotulo: 'CPF/CNPJ do parceiro', obrigatorio: false, sinonimos: ['cpf', 'cnpj', 'cgc', 'documento', 'parceiro'] },
+];
+
+// Índice da coluna da planilha para cada campo do lead
+export type MapeamentoImportacao = Partial<Record<CampoImportacao, number>>;
+
+export type StatusLinhaImportacao = 'VALIDO' | 'ERRO' | 'DUPLICADO';
+
+export interface LinhaImportacao {
+  linha: number // número da linha na planilha, para o relatório de erros
+  valores: string[]
+  status: StatusLinhaImportacao
+  erros: string[]
+  lead?: Partial<Lead>
+}
+
+export interface ParceiroImportacao {
+  CODPARC: string
+  NOMEPARC: string
+  CGC_CPF: string
+}
+
+export interface ContextoImportacao {
+  funis: Funil[]
+  estagiosPorFunil: Record<string, EstagioFunil[]>
+  leadsExistentes: Lead[]
+  parceiros: ParceiroImportacao[]
+  codFunilPadrao?: string | null
+}
+
+export const MAX_LINHAS_IMPORTACAO = 2000;
+export const TAMANHO_LOTE_IMPORTACAO = 25;
+
+function normalizar(texto: string | null | undefined): string {
+  return String(texto ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, ' ');
+}
+
+export function apenasDigitos(texto: string | null | undefined): string {
+  return String(texto ?? '').replace(/\D/g, '');
+}
+
+// Sugere o mapeamento pelo nome das colunas; cada coluna é usada por no máximo um campo
+export function sugerirMapeamento(cabecalho: string[]): MapeamentoImportacao {
+  const mapeamento: MapeamentoImportacao = {};
+  const usadas = new Set<number>();
+  const colunas = cabecalho.map(normalizar);
+
+  for (const { campo, sinonimos } of CAMPOS_IMPORTACAO) {
+    const exata = colunas.findIndex((coluna, i) => !usadas.has(i) && (coluna === normalizar(campo) || sinonimos.includes(coluna)));
+    const parcial = exata >= 0 ? exata : colunas.findIndex((coluna, i) => !usadas.has(i) && sinonimos.some(s => coluna.includes(s)));
+
+    if (parcial >= 0) {
+      mapeamento[campo] = parcial;
+      usadas.add(parcial);
+    }
+  }
+
+  return mapeamento;
+}
+
+// Aceita "1.234,56", "1234.56" e "R$ 1.000"
+function lerValor(texto: string): number | null {
+  const limpo = texto.replace(/[R$\s]/g, '');
+  if (!limpo) return 0;
+
+  const normalizado = limpo.includes(',')
+    ? limpo.replace(/\./g, '').replace(',', '.')
+    : limpo;
+
+  const valor = Number(normalizado);
+  return Number.isFinite(valor) && valor >= 0 ? valor : null;
+}
+
+// Aceita DD/MM/AAAA, AAAA-MM-DD e o número serial de datas do Excel; retorna AAAA-MM-DD
+function lerData(texto: string): string | null {
+  const valor = texto.trim();
+  let ano: number, mes: number, dia: number;
+
+  const br = valor.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  const iso = valor.match(/^(\d{4})-(\d{2})-(\d{2})/);
+
+  if (br) {
+    [dia, mes, ano] = [Number(br[1]), Number(br[2]), Number(br[3])];
+  } else if (iso) {
+    [ano, mes, dia] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (/^\d+(\.\d+)?$/.test(valor)) {
+    // Serial do Excel: dias desde 30/12/1899
+    const data = new Date(Date.UTC(1899, 11, 30) + Math.floor(Number(valor)) * 86400000);
+    [ano, mes, dia] = [data.getUTCFullYear(), data.getUTCMonth() + 1, data.getUTCDate()];
+  } else {
+    return null;
+  }
+
+  const data = new Date(Date.UTC(ano, mes - 1, dia));
+  if (data.getUTCFullYear() !== ano || data.getUTCMonth() !== mes - 1 || data.getUTCDate() !== dia) {
+    return null;
+  }
+
+  return `${ano}-${String(mes).padStart(2, '0')}-${String(dia).padStart(2, '0')}`;
+}
+
+// Mesmo negócio: mesmo título no mesmo funil, ou o mesmo parceiro com outro negócio em andamento no funil
+function chavesDuplicidade(lead: Partial<Lead>): string[] {
+  const chaves = [`nome:${lead.CODFUNIL}:${normalizar(lead.NOME)}`];
+  if (lead.CODPARC && (!lead.STATUS_LEAD || lead.STATUS_LEAD === 'EM_ANDAMENTO')) {
+    chaves.push(`parceiro:${lead.CODFUNIL}:${lead.CODPARC}`);
+  }
+  return chaves;
+}
+
+export function validarImportacao(
+  linhas: { linha: number; valores: string[] }[],
+  mapeamento: MapeamentoImportacao,
+  contexto: ContextoImportacao
+): LinhaImportacao[] {
+  const existentes = new Map<string, Lead>();
+  for (const lead of contexto.leadsExistentes) {
+    for (const chave of chavesDuplicidade(lead)) existentes.set(chave, lead);
+  }
+
+  const parceirosPorDocumento = new Map(contexto.parceiros.map(p => [apenasDigitos(p.CGC_CPF), p]));
+  const vistasNoArquivo = new Map<string, number>();
+
+  return linhas.map(({ linha, valores }) => {
+    const celula = (campo: CampoImportacao) => {
+      const indice = mapeamento[campo];
+      return indice === undefined ? '' : String(valores[indice] ?? '').trim();
+    };
+
+    const erros: string[] = [];
+    const lead: Partial<Lead> = {
+      NOME: celula('NOME'),
+      DESCRICAO: celula('DESCRICAO'),
+      TIPO_TAG: celula('TIPO_TAG')
+    };
+
+    if (!lead.NOME) {
+      erros.push('Título do negócio não informado');
+    }
+
+    const valor = lerValor(celula('VALOR'));
+    if (valor === null) {
+      erros.push(`Valor inválido: "${celula('VALOR')}"`);
+    } else {
+      lead.VALOR = valor;
+    }
+
+    const textoData = celula('DATA_VENCIMENTO');
+    if (textoData) {
+      const data = lerData(textoData);
+      if (data) {
+        lead.DATA_VENCIMENTO = data;
+      } else {
+        erros.push(`Data inválida: "${textoData}" (use DD/MM/AAAA)`);
+      }
+    }
+
+    // Funil pelo nome ou código; sem coluna (ou célula vazia) vale o funil escolhido na importação
+    const textoFunil = celula('FUNIL');
+    const funil = textoFunil
+      ? contexto.funis.find(f => String(f.CODFUNIL) === textoFunil || normalizar(f.NOME) === normalizar(textoFunil))
+      : contexto.funis.find(f => String(f.CODFUNIL) === String(contexto.codFunilPadrao ?? ''));
+
+    let estagio: EstagioFunil | undefined;
+    if (!funil) {
+      erros.push(textoFunil ? `Funil não encontrado ou sem acesso: "${textoFunil}"` : 'Funil não informado');
+    } else {
+      lead.CODFUNIL = String(funil.CODFUNIL);
+
+      // Estágio pelo nome ou código dentro do funil; vazio entra no primeiro estágio
+      const estagios = [...(contexto.estagiosPorFunil[String(funil.CODFUNIL)] || [])].sort((a, b) => a.ORDEM - b.ORDEM);
+      const textoEstagio = celula('ESTAGIO');
+      estagio = textoEstagio
+        ? estagios.find(e => String(e.CODESTAGIO) === textoEstagio || normalizar(e.NOME) === normalizar(textoEstagio))
+        : estagios[0];
+
+      if (!estagio) {
+        erros.push(textoEstagio ? `Estágio "${textoEstagio}" não existe no funil ${funil.NOME}` : `Funil ${funil.NOME} não possui estágios`);
+      } else {
+        lead.CODESTAGIO = String(estagio.CODESTAGIO);
+      }
+    }
+
+    const documento = apenasDigitos(celula('CGC_CPF'));
+    if (celula('CGC_CPF')) {
+      const parceiro = parceirosPorDocumento.get(documento);
+      if (!parceiro) {
+        erros.push(`Parceiro com CPF/CNPJ ${celula('CGC_CPF')} não encontrado`);
+      } else {
+        lead.CODPARC = String(parceiro.CODPARC);
+      }
+    }
+
+    // Campos obrigatórios do estágio de entrada (produtos não são importados)
+    const bloqueio = estagio && erros.length === 0 ? validarTransicao(null, estagio, lead, 0) : null;
+    if (bloqueio) {
+      erros.push(bloqueio);
+    }
+
+    if (erros.length > 0) {
+      return { linha, valores, status: 'ERRO', erros };
+    }
+
+    const chaves = chavesDuplicidade(lead);
+    const existente = chaves.map(chave => existentes.get(chave)).find(Boolean);
+    if (existente) {
+      return {
+        linha, valores, lead, status: 'DUPLICADO',
+        erros: [`Já existe o negócio "${existente.NOME}" (código ${existente.CODLEAD}) neste funil`]
+      };
+    }
+
+    const linhaAnterior = chaves.map(chave => vistasNoArquivo.get(chave)).find(Boolean);
+    if (linhaAnterior) {
+      return { linha, valores, lead, status: 'DUPLICADO', erros: [`Repetido na planilha (linha ${linhaAnterior})`] };
+    }
+
+    for (const chave of chaves) vistasNoArquivo.set(chave, linha);
+    return { linha, valores, lead, status: 'VALIDO', erros: [] };
+  });
+}
+
+export function resumirImportacao(linhas: LinhaImportacao[]) {
+  return {
+    total: linhas.length,
+    validos: linhas.filter(l => l.status === 'VALIDO').length,
+    duplicados: linhas.filter(l => l.status === 'DUPLICADO').length,
+    erros: linhas.filter(l => l.status === 'ERRO').length
+  };
+}
@@ -1,4 +1,5 @@
-import axios from 'axios';
+import { loadRecords, datasetSave, mapearEntidades } from './sankhya-gateway';
+import { montarCriteria, eq, inteiro, inList, isNull, isNotNull, expressao, and, or } from './sankhya-criteria';
 
 export interface LeadAtividade {
   CODATIVIDADE: string
@@ -15,110 +16,14 @@ export interface LeadAtividade {
   ORDEM?: number
   ATIVO?: string
   STATUS?: 'AGUARDANDO' | 'ATRASADO' | 'REALIZADO'
+  // Série recorrente: regra em JSON (ver ./recorrencia)
+  RECORRENCIA?: string
+  // Ocorrência alterada individualmente: série de origem e dia original (YYYY-MM-DD)
+  CODATIVIDADE_PAI?: string
+  DATA_OCORRENCIA?: string
 }
 
-const ENDPOINT_LOGIN = "https://api.sandbox.sankhya.com.br/login";
-const URL_CONSULTA_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=CRUDServiceProvider.loadRecords&outputType=json";
-const URL_SAVE_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=DatasetSP.save&outputType=json";
-const URL_LEADS = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=DatasetSP.save&outputType=json"; // Adicionado para ser usado em atualizarStatusLead
-
-const LOGIN_HEADERS = {
-  'token': process.env.SANKHYA_TOKEN || "",
-  'appkey': process.env.SANKHYA_APPKEY || "",
-  'username': process.env.SANKHYA_USERNAME || "",
-  'password': process.env.SANKHYA_PASSWORD || ""
-};
-
-let cachedToken: string | null = null;
-
-async function obterToken(): Promise<string> {
-  if (cachedToken) {
-    return cachedToken;
-  }
-
-  try {
-    const resposta = await axios.post(ENDPOINT_LOGIN, {}, {
-      headers: LOGIN_HEADERS,
-      timeout: 10000
-    });
-
-    const token = resposta.data.bearerToken || resposta.data.token;
-    if (!token) {
-      throw new Error("Token não encontrado na resposta de login.");
-    }
-
-    cachedToken = token;
-    return token;
-  } catch (erro: any) {
-    cachedToken = null;
-    throw new Error(`Falha na autenticação Sankhya: ${erro.message}`);
-  }
-}
-
-async function fazerRequisicaoAutenticada(fullUrl: string, method: string = 'POST', data: any = {}) {
-  const token = await obterToken();
-
-  try {
-    const config: any = {
-      method: method.toUpperCase(),
-      url: fullUrl,
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      }
-    };
-
-    // Adicionar data apenas para métodos que suportam body
-    if (['POST', 'PUT', 'PATCH'].includes(method.toUpperCase())) {
-      config.data = data;
-    }
-
-    const resposta = await axios(config);
-    return resposta.data;
-  } catch (erro: any) {
-    if (erro.response && (erro.response.status === 401 || erro.response.status === 403)) {
-      cachedToken = null;
-      throw new Error("Sessão expirada. Tente novamente.");
-    }
-
-    const errorDetails = erro.response?.data || erro.message;
-    console.error("❌ Erro na requisição Sankhya:", {
-      url: fullUrl,
-      method,
-      error: errorDetails
-    });
-
-    throw new Error(`Falha na comunicação com a API Sankhya: ${JSON.stringify(errorDetails)}`);
-  }
-}
-
-function mapearEntidades(entities: any, primaryKey: string): any[] {
-  if (!entities || !entities.entity) {
-    return [];
-  }
-
-  const fieldNames = entities.metadata.fields.field.map((f: any) => f.name);
-  const entityArray = Array.isArray(entities.entity) ? entities.entity : [entities.entity];
-
-  return entityArray.map((rawEntity: any) => {
-    const cleanObject: any = {};
-
-    if (rawEntity.$) {
-      cleanObject[primaryKey] = rawEntity.$[primaryKey] || "";
-    }
-
-    for (let i = 0; i < fieldNames.length; i++) {
-      const fieldKey = `f${i}`;
-      const fieldName = fieldNames[i];
-
-      if (rawEntity[fieldKey]) {
-        cleanObject[fieldName] = rawEntity[fieldKey].$;
-      }
-    }
-
-    return cleanObject;
-  });
-}
+const CAMPOS_ATIVIDADE = "CODLEAD, TIPO, DESCRICAO, DATA_HORA, DATA_INICIO, DATA_FIM, CODUSUARIO, DADOS_COMPLEMENTARES, COR, ORDEM, ATIVO, STATUS, RECORRENCIA, CODATIVIDADE_PAI, DATA_OCORRENCIA";
 
 const formatarDataParaSankhya = (dataISO: string) => {
   if (!dataISO) return "";
@@ -146,7 +51,7 @@ const formatarDataHoraParaSankhya = (dataHoraISO: string) => {
   }
 };
 
-const converterDataSankhyaParaISO = (dataSankhya: string) => {
+export const converterDataSankhyaParaISO = (dataSankhya: string) => {
   if (!dataSankhya) return "";
   try {
     const partes = dataSankhya.split(' ');
@@ -174,12 +79,48 @@ const converterDataSankhyaParaISO = (dataSankhya: string) => {
   }
 };
 
-export async function consultarAtividades(codLead: string, ativo: string = 'S'): Promise<LeadAtividade[]> {
-  let criteriaExpression = `ATIVO = '${ativo}'`;
+export interface FiltrosAtividades {
+  // Usuários cujos registros são visíveis (escopo de visibilidade); ausente não restringe
+  usuarios?: number[] | null
+  tipos?: string[]
+  // Dias inteiros: avulsas que cruzam o período e séries recorrentes iniciadas até o fim dele
+  periodo?: { inicio: Date; fim: Date }
+}
+
+// Mesma regra de verificarAcessoAtividade: atividade de lead segue o dono do lead; sem lead, o dono da atividade
+function condicaoDonos(usuarios: number[]) {
+  if (usuarios.length === 0) return inList('CODUSUARIO', []);
+
+  return or(
+    and(isNull('CODLEAD'), inList('CODUSUARIO', usuarios)),
+    expressao(
+      `CODLEAD IN (SELECT CODLEAD FROM AD_LEADS WHERE CODUSUARIO IN (${usuarios.map(() => '?').join(', ')}))`,
+      ...usuarios.map(Number)
+    )
+  );
+}
 
-  if (codLead) {
-    criteriaExpression += ` AND CODLEAD = ${codLead}`;
-  }
+function condicaoPeriodo({ inicio, fim }: NonNullable<FiltrosAtividades['periodo']>) {
+  const inicioDoDia = new Date(inicio.getFullYear(), inicio.getMonth(), inicio.getDate());
+  const diaSeguinteAoFim = new Date(fim.getFullYear(), fim.getMonth(), fim.getDate() + 1);
+
+  return and(
+    expressao('COALESCE(DATA_INICIO, DATA_HORA) < ?', diaSeguinteAoFim),
+    or(
+      isNotNull('RECORRENCIA'),
+      expressao('COALESCE(DATA_FIM, DATA_INICIO, DATA_HORA) >= ?', inicioDoDia)
+    )
+  );
+}
+
+export async function consultarAtividades(codLead: string, ativo: string = 'S', filtros: FiltrosAtividades = {}): Promise<LeadAtividade[]> {
+  const criteria = montarCriteria(
+    eq('ATIVO', ativo),
+    !!codLead && eq('CODLEAD', Number(codLead)),
+    !!filtros.usuarios && condicaoDonos(filtros.usuarios),
+    !!filtros.tipos?.length && inList('TIPO', filtros.tipos),
+    !!filtros.periodo && condicaoPeriodo(filtros.periodo)
+  );
 
   const PAYLOAD = {
     "requestBody": {
@@ -189,14 +130,10 @@ export async function consultarAtividades(codLead: string, ativo: string = 'S'):
         "offsetPage": "0",
         "entity": {
           "fieldset": {
-            "list": "CODLEAD, TIPO, DESCRICAO, DATA_HORA, DATA_INICIO, DATA_FIM, CODUSUARIO, DADOS_COMPLEMENTARES, COR, ORDEM, ATIVO, STATUS"
-          }
-        },
-        "criteria": {
-          "expression": {
-            "$": criteriaExpression
+            "list": CAMPOS_ATIVIDADE
           }
         },
+        "criteria": criteria,
         "orderBy": {
           "ORDEM": "DESC"
         }
@@ -205,7 +142,7 @@ export async function consultarAtividades(codLead: string, ativo: string = 'S'):
   };
 
   try {
-    const resposta = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, 'POST', PAYLOAD);
+    const resposta = await loadRecords(PAYLOAD);
 
     if (!resposta?.responseBody?.entities) {
       return [];
@@ -225,6 +162,129 @@ export async function consultarAtividades(codLead: string, ativo: string = 'S'):
   }
 }
 
+// Consultar uma atividade pelo código (usado nas checagens de acesso)
+export async function consultarAtividade(codAtividade: string): Promise<LeadAtividade | null> {
+  const codigo = inteiro(codAtividade);
+  if (codigo === null) return null;
+
+  const PAYLOAD = {
+    "requestBody": {
+      "dataSet": {
+        "rootEntity": "AD_ADLEADSATIVIDADES",
+        "includePresentationFields": "S",
+        "offsetPage": "0",
+        "entity": {
+          "fieldset": {
+            "list": CAMPOS_ATIVIDADE
+          }
+        },
+        "criteria": montarCriteria(eq('CODATIVIDADE', codigo))
+      }
+    }
+  };
+
+  try {
+    const resposta = await loadRecords(PAYLOAD);
+    const atividades = mapearEntidades(resposta?.responseBody?.entities, 'CODATIVIDADE') as LeadAtividade[];
+    return atividades[0] || null;
+  } catch (erro) {
+    console.error("❌ Erro ao consultar atividade:", erro);
+    return null;
+  }
+}
+
+// Move atividades para outro lead (mesclagem de duplicados)
+export async function transferirAtividades(codAtividades: string[], codLead: string): Promise<void> {
+  if (codAtividades.length === 0) return;
+
+  const PAYLOAD = {
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_ADLEADSATIVIDADES",
+      "standAlone": false,
+      "fields": ["CODLEAD"],
+      "records": codAtividades.map(codAtividade => ({
+        "pk": { CODATIVIDADE: String(codAtividade) },
+        "values": { "0": String(codLead) }
+      }))
+    }
+  };
+
+  try {
+    await datasetSave(PAYLOAD);
+    console.log(`🔀 ${codAtividades.length} atividade(s) transferida(s) para o lead ${codLead}`);
+  } catch (erro: any) {
+    console.error('❌ Erro ao transferir atividades:', erro.message);
+    throw erro;
+  }
+}
+
+// Ocorrências de uma série recorrente que viraram linhas próprias (ativas e inativas)
+export async function consultarOcorrenciasAlteradas(codAtividadePai: string): Promise<LeadAtividade[]> {
+  const codigo = inteiro(codAtividadePai);
+  if (codigo === null) return [];
+
+  const PAYLOAD = {
+    "requestBody": {
+      "dataSet": {
+        "rootEntity": "AD_ADLEADSATIVIDADES",
+        "includePresentationFields": "S",
+        "offsetPage": "0",
+        "entity": {
+          "fieldset": {
+            "list": CAMPOS_ATIVIDADE
+          }
+        },
+        "criteria": montarCriteria(eq('CODATIVIDADE_PAI', codigo))
+      }
+    }
+  };
+
+  try {
+    const resposta = await loadRecords(PAYLOAD);
+    const atividades = mapearEntidades(resposta?.responseBody?.entities, 'CODATIVIDADE') as LeadAtividade[];
+    return atividades.map(atividade => ({
+      ...atividade,
+      DATA_INICIO: atividade.DATA_INICIO ? converterDataSankhyaParaISO(atividade.DATA_INICIO) : '',
+      DATA_FIM: atividade.DATA_FIM ? converterDataSankhyaParaISO(atividade.DATA_FIM) : ''
+    }));
+  } catch (erro) {
+    console.error("❌ Erro ao consultar ocorrências alteradas:", erro);
+    return [];
+  }
+}
+
+// Grava campos de uma atividade; DATA_INICIO e DATA_FIM chegam em ISO e são convertidas para o Sankhya
+export async function atualizarCamposAtividade(codAtividade: string, campos: Record<string, string>): Promise<void> {
+  const fields = Object.keys(campos);
+  if (fields.length === 0) return;
+
+  const values = Object.fromEntries(fields.map((campo, i) => [
+    String(i),
+    campo === 'DATA_INICIO' || campo === 'DATA_FIM' ? formatarDataHoraParaSankhya(campos[campo]) : campos[campo]
+  ]));
+
+  const PAYLOAD = {
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_ADLEADSATIVIDADES",
+      "standAlone": false,
+      "fields": fields,
+      "records": [{
+        "pk": { CODATIVIDADE: String(codAtividade) },
+        "values": values
+      }]
+    }
+  };
+
+  try {
+    await datasetSave(PAYLOAD);
+  } catch (erro: any) {
+    console.error('❌ Erro ao atualizar atividade:', erro.message);
+    throw erro;
+  }
+}
+
 export async function criarAtividade(atividade: Partial<LeadAtividade> & { COR?: string }): Promise<LeadAtividade & { CODATIVIDADE: string }> {
   const dataHoraCriacao = formatarDataHoraParaSankhya(new Date().toISOString());
   const dataInicio = formatarDataHoraParaSankhya(atividade.DATA_INICIO || new Date().toISOString());
@@ -245,14 +305,14 @@ export async function criarAtividade(atividade: Partial<LeadAtividade> & { COR?:
   hoje.setHours(0, 0, 0, 0);
   dataInicioDate.setHours(0, 0, 0, 0);
 
-  const statusInicial = dataInicioDate < hoje ? 'ATRASADO' : 'AGUARDANDO';
+  const statusInicial = atividade.STATUS || (dataInicioDate < hoje ? 'ATRASADO' : 'AGUARDANDO');
 
   const PAYLOAD = {
     "serviceName": "DatasetSP.save",
     "requestBody": {
       "entityName": "AD_ADLEADSATIVIDADES",
       "standAlone": false,
-      "fields": ["CODLEAD", "TIPO", "DESCRICAO", "DATA_HORA", "DATA_INICIO", "DATA_FIM", "CODUSUARIO", "DADOS_COMPLEMENTARES", "COR", "ORDEM", "ATIVO", "STATUS"],
+      "fields": ["CODLEAD", "TIPO", "DESCRICAO", "DATA_HORA", "DATA_INICIO", "DATA_FIM", "CODUSUARIO", "DADOS_COMPLEMENTARES", "COR", "ORDEM", "ATIVO", "STATUS", "RECORRENCIA", "CODATIVIDADE_PAI", "DATA_OCORRENCIA"],
       "records": [{
         "values": {
           "0": atividade.CODLEAD ? String(atividade.CODLEAD) : "",
@@ -266,14 +326,17 @@ export async function criarAtividade(atividade: Partial<LeadAtividade> & { COR?:
           "8": atividade.COR || "",
           "9": String(novaOrdem),
           "10": "S",
-          "11": statusInicial
+          "11": statusInicial,
+          "12": atividade.RECORRENCIA || "",
+          "13": atividade.CODATIVIDADE_PAI ? String(atividade.CODATIVIDADE_PAI) : "",
+          "14": atividade.DATA_OCORRENCIA || ""
         }
       }]
     }
   };
 
   try {
-    const response = await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', PAYLOAD);
+    const response = await datasetSave(PAYLOAD);
     console.log('✅ Atividade criada com sucesso:', response);
 
     // Buscar atividade criada (com ou sem CODLEAD)
@@ -294,10 +357,11 @@ export async function criarAtividade(atividade: Partial<LeadAtividade> & { COR?:
 export async function atualizarStatusLead(
   codLead: string,
   status: string,
-  motivoPerda?: string
+  motivoPerda?: string,
+  codMotivo?: string | null
 ): Promise<{ success: boolean; message: string }> {
   try {
-    console.log('🔄 [atualizarStatusLead] Iniciando atualização:', { codLead, status, motivoPerda });
+    console.log('🔄 [atualizarStatusLead] Iniciando atualização:', { codLead, status, motivoPerda, codMotivo });
 
     // Formatar data no padrão DD/MM/YYYY
     const dataAtual = new Date();
@@ -320,14 +384,20 @@ export async function atualizarStatusLead(
       console.log('📅 [atualizarStatusLead] Adicionando data de conclusão:', dataFormatada);
     }
 
-    // Adicionar motivo da perda se fornecido
+    // Adicionar comentário da perda se fornecido
     if (motivoPerda) {
-      const motivoIndex = status === 'GANHO' || status === 'PERDIDO' ? "3" : "2";
+      values[String(fields.length)] = motivoPerda;
       fields.push("MOTIVO_PERDA");
-      values[motivoIndex] = motivoPerda;
       console.log('📝 [atualizarStatusLead] Adicionando motivo da perda:', motivoPerda);
     }
 
+    // Motivo do catálogo (ver ./motivos-service)
+    if (codMotivo) {
+      values[String(fields.length)] = String(codMotivo);
+      fields.push("CODMOTIVO");
+      console.log('📝 [atualizarStatusLead] Adicionando motivo do catálogo:', codMotivo);
+    }
+
     const payload = {
       serviceName: "DatasetSP.save",
       requestBody: {
@@ -343,11 +413,7 @@ export async function atualizarStatusLead(
 
     console.log('📤 [atualizarStatusLead] Payload enviado:', JSON.stringify(payload, null, 2));
 
-    const resultado = await fazerRequisicaoAutenticada(
-      URL_SAVE_SERVICO,
-      'POST',
-      payload
-    );
+    const resultado = await datasetSave(payload);
 
     console.log('✅ [atualizarStatusLead] Status atualizado com sucesso:', resultado);
 
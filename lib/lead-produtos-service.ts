@@ -1,81 +1,6 @@
-
-import axios from 'axios';
-
-const URL_CONSULTA_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=CRUDServiceProvider.loadRecords&outputType=json";
-const URL_SAVE_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=DatasetSP.save&outputType=json";
-
-const ENDPOINT_LOGIN = "https://api.sandbox.sankhya.com.br/login";
-
-const LOGIN_HEADERS = {
-  'token': process.env.SANKHYA_TOKEN || "",
-  'appkey': process.env.SANKHYA_APPKEY || "",
-  'username': process.env.SANKHYA_USERNAME || "",
-  'password': process.env.SANKHYA_PASSWORD || ""
-};
-
-let cachedToken: string | null = null;
-
-async function obterToken(): Promise<string> {
-  if (cachedToken) {
-    return cachedToken;
-  }
-
-  try {
-    const resposta = await axios.post(ENDPOINT_LOGIN, {}, {
-      headers: LOGIN_HEADERS,
-      timeout: 10000
-    });
-
-    const token = resposta.data.bearerToken || resposta.data.token;
-
-    if (!token) {
-      throw new Error("Token não encontrado na resposta de login.");
-    }
-
-    cachedToken = token;
-    return token;
-
-  } catch (erro: any) {
-    cachedToken = null;
-    throw new Error(`Falha na autenticação Sankhya: ${erro.message}`);
-  }
-}
-
-async function fazerRequisicaoAutenticada(fullUrl: string, method = 'POST', data = {}) {
-  const token = await obterToken();
-
-  try {
-    const config = {
-      method: method.toLowerCase(),
-      url: fullUrl,
-      data: data,
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      }
-    };
-
-    const resposta = await axios(config);
-    return resposta.data;
-
-  } catch (erro: any) {
-    if (erro.response && (erro.response.status === 401 || erro.response.status === 403)) {
-      cachedToken = null;
-      throw new Error("Sessão expirada. Tente novamente.");
-    }
-
-    const errorDetails = erro.response?.data || erro.message;
-    console.error("❌ Erro na requisição Sankhya:", {
-      url: fullUrl,
-      method,
-      error: errorDetails
-    });
-
-    throw new Error(`Falha na comunicação com a API Sankhya: ${JSON.stringify(errorDetails)}`);
-  }
-}
-
+import { loadRecords, datasetSave } from './sankhya-gateway';
 import { buscarPrecoProduto } from './produtos-service';
+import { montarCriteria, eq, inList } from './sankhya-criteria';
 
 export interface LeadProduto {
   CODITEM?: string
@@ -89,6 +14,23 @@ export interface LeadProduto {
   DATA_INCLUSAO?: string
 }
 
+// Mapear resposta para array de produtos (campos na ordem do fieldset)
+function mapearProdutos(entity: any): LeadProduto[] {
+  const entities = Array.isArray(entity) ? entity : [entity];
+
+  return entities.map((e: any) => ({
+    CODITEM: e.f0?.$,
+    CODLEAD: e.f1?.$,
+    CODPROD: Number(e.f2?.$),
+    DESCRPROD: e.f3?.$,
+    QUANTIDADE: Number(e.f4?.$),
+    VLRUNIT: Number(e.f5?.$),
+    VLRTOTAL: Number(e.f6?.$),
+    ATIVO: e.f7?.$,
+    DATA_INCLUSAO: e.f8?.$
+  }));
+}
+
 export async function consultarProdutosLead(codLead: string): Promise<LeadProduto[]> {
   const PAYLOAD = {
     "requestBody": {
@@ -101,17 +43,13 @@ export async function consultarProdutosLead(codLead: string): Promise<LeadProdut
             "list": "CODITEM, CODLEAD, CODPROD, DESCRPROD, QUANTIDADE, VLRUNIT, VLRTOTAL, ATIVO, DATA_INCLUSAO"
           }
         },
-        "criteria": {
-          "expression": {
-            "$": `CODLEAD = '${codLead}'`
-          }
-        }
+        "criteria": montarCriteria(eq('CODLEAD', String(codLead)))
       }
     }
   };
 
   try {
-    const resposta = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, 'POST', PAYLOAD);
+    const resposta = await loadRecords(PAYLOAD);
     
     console.log('📦 Resposta da consulta de produtos:', JSON.stringify(resposta, null, 2));
     
@@ -119,22 +57,7 @@ export async function consultarProdutosLead(codLead: string): Promise<LeadProdut
       return [];
     }
 
-    // Mapear resposta para array de produtos
-    const entities = Array.isArray(resposta.responseBody.entities.entity) 
-      ? resposta.responseBody.entities.entity 
-      : [resposta.responseBody.entities.entity];
-
-    const produtos = entities.map((e: any) => ({
-      CODITEM: e.f0?.$,
-      CODLEAD: e.f1?.$,
-      CODPROD: Number(e.f2?.$),
-      DESCRPROD: e.f3?.$,
-      QUANTIDADE: Number(e.f4?.$),
-      VLRUNIT: Number(e.f5?.$),
-      VLRTOTAL: Number(e.f6?.$),
-      ATIVO: e.f7?.$,
-      DATA_INCLUSAO: e.f8?.$
-    }));
+    const produtos = mapearProdutos(resposta.responseBody.entities.entity);
     
     console.log('📋 Produtos mapeados:', produtos);
     return produtos;
@@ -144,6 +67,40 @@ export async function consultarProdutosLead(codLead: string): Promise<LeadProdut
   }
 }
 
+// Produtos ativos de vários leads de uma vez (ex.: exportação), agrupados por CODLEAD
+export async function consultarProdutosLeads(codLeads: string[]): Promise<Record<string, LeadProduto[]>> {
+  const porLead: Record<string, LeadProduto[]> = {};
+  const unicos = Array.from(new Set(codLeads.map(String).filter(Boolean)));
+
+  for (let i = 0; i < unicos.length; i += 200) {
+    const PAYLOAD = {
+      "requestBody": {
+        "dataSet": {
+          "rootEntity": "AD_ADLEADSPRODUTOS",
+          "includePresentationFields": "S",
+          "offsetPage": "0",
+          "entity": {
+            "fieldset": {
+              "list": "CODITEM, CODLEAD, CODPROD, DESCRPROD, QUANTIDADE, VLRUNIT, VLRTOTAL, ATIVO, DATA_INCLUSAO"
+            }
+          },
+          "criteria": montarCriteria(inList('CODLEAD', unicos.slice(i, i + 200)))
+        }
+      }
+    };
+
+    const resposta = await loadRecords(PAYLOAD);
+    if (!resposta?.responseBody?.entities?.entity) continue;
+
+    for (const produto of mapearProdutos(resposta.responseBody.entities.entity)) {
+      if (produto.ATIVO === 'N') continue;
+      (porLead[String(produto.CODLEAD)] ||= []).push(produto);
+    }
+  }
+
+  return porLead;
+}
+
 // Função para buscar e retornar preço do produto
 export async function obterPrecoProdutoParaLead(codProd: number): Promise<number> {
   try {
@@ -214,7 +171,7 @@ export async function adicionarProdutoLead(produto: Omit<LeadProduto, 'CODITEM'
   console.log('📤 [adicionarProdutoLead] Payload enviado para Sankhya:', JSON.stringify(PAYLOAD, null, 2));
 
   try {
-    const resposta = await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', PAYLOAD);
+    const resposta = await datasetSave(PAYLOAD);
     console.log('✅ [adicionarProdutoLead] Produto adicionado com sucesso. Resposta:', JSON.stringify(resposta, null, 2));
     
     // Verificar se houve erro na resposta
@@ -231,6 +188,105 @@ export async function adicionarProdutoLead(produto: Omit<LeadProduto, 'CODITEM'
   }
 }
 
+// Recalcula o VALOR do lead pela soma dos produtos ativos
+export async function recalcularValorLead(codLead: string): Promise<number> {
+  let novoValorTotal = 0;
+  console.log('🔍 Recalculando valor total do lead:', codLead);
+
+  // Consultar todos os produtos ativos do lead
+  const PAYLOAD_CONSULTA = {
+    "requestBody": {
+      "dataSet": {
+        "rootEntity": "AD_ADLEADSPRODUTOS",
+        "includePresentationFields": "S",
+        "offsetPage": "0",
+        "entity": {
+          "fieldset": {
+            "list": "VLRTOTAL"
+          }
+        },
+        "criteria": montarCriteria(eq('CODLEAD', String(codLead)), eq('ATIVO', 'S'))
+      }
+    }
+  };
+
+  const responseProdutos = await loadRecords(PAYLOAD_CONSULTA);
+  console.log('📋 Resposta da consulta de produtos:', JSON.stringify(responseProdutos, null, 2));
+  
+  // Calcular o valor total
+  if (responseProdutos?.responseBody?.entities?.entity) {
+    const entities = Array.isArray(responseProdutos.responseBody.entities.entity) 
+      ? responseProdutos.responseBody.entities.entity 
+      : [responseProdutos.responseBody.entities.entity];
+    
+    novoValorTotal = entities.reduce((sum: number, e: any) => {
+      const vlr = Number(e.f0?.$ || 0);
+      console.log('➕ Somando produto:', vlr);
+      return sum + vlr;
+    }, 0);
+
+    console.log('💰 Valor total calculado:', novoValorTotal);
+  } else {
+    console.log('⚠️ Nenhum produto ativo encontrado para o lead');
+  }
+
+  // Formatar data no padrão DD/MM/YYYY
+  const dataAtual = new Date();
+  const dia = String(dataAtual.getDate()).padStart(2, '0');
+  const mes = String(dataAtual.getMonth() + 1).padStart(2, '0');
+  const ano = dataAtual.getFullYear();
+  const dataFormatada = `${dia}/${mes}/${ano}`;
+
+  // Atualizar o valor total do lead na tabela AD_LEADS
+  const PAYLOAD_LEAD = {
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_LEADS",
+      "standAlone": false,
+      "fields": ["VALOR", "DATA_ATUALIZACAO"],
+      "records": [{
+        "pk": { CODLEAD: String(codLead) },
+        "values": {
+          "0": String(novoValorTotal),
+          "1": dataFormatada
+        }
+      }]
+    }
+  };
+
+  console.log('📝 Payload para atualizar lead:', JSON.stringify(PAYLOAD_LEAD, null, 2));
+  const respostaLead = await datasetSave(PAYLOAD_LEAD);
+  console.log('✅ Lead atualizado com novo valor total:', JSON.stringify(respostaLead, null, 2));
+
+  return novoValorTotal;
+}
+
+// Move itens para outro lead (mesclagem de duplicados); o VALOR deve ser recalculado em seguida
+export async function transferirProdutosLead(codItens: string[], codLead: string): Promise<void> {
+  if (codItens.length === 0) return;
+
+  const PAYLOAD = {
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_ADLEADSPRODUTOS",
+      "standAlone": false,
+      "fields": ["CODLEAD"],
+      "records": codItens.map(codItem => ({
+        "pk": { CODITEM: String(codItem) },
+        "values": { "0": String(codLead) }
+      }))
+    }
+  };
+
+  try {
+    await datasetSave(PAYLOAD);
+    console.log(`🔀 ${codItens.length} produto(s) transferido(s) para o lead ${codLead}`);
+  } catch (erro: any) {
+    console.error('❌ Erro ao transferir produtos:', erro.message);
+    throw erro;
+  }
+}
+
 export async function removerProdutoLead(codItem: string, codLead: string): Promise<{ novoValorTotal: number }> {
   console.log('🗑️ [removerProdutoLead] Inativando produto:', codItem);
 
@@ -253,81 +309,11 @@ export async function removerProdutoLead(codItem: string, codLead: string): Prom
   console.log('📤 [removerProdutoLead] Payload enviado:', JSON.stringify(PAYLOAD, null, 2));
 
   try {
-    const resposta = await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', PAYLOAD);
+    const resposta = await datasetSave(PAYLOAD);
     console.log('✅ [removerProdutoLead] Produto inativado com sucesso. Resposta:', JSON.stringify(resposta, null, 2));
 
     // 2. Recalcular o valor total do lead
-    let novoValorTotal = 0;
-    console.log('🔍 Recalculando valor total do lead:', codLead);
-      
-    // Consultar todos os produtos ativos do lead
-    const PAYLOAD_CONSULTA = {
-      "requestBody": {
-        "dataSet": {
-          "rootEntity": "AD_ADLEADSPRODUTOS",
-          "includePresentationFields": "S",
-          "offsetPage": "0",
-          "entity": {
-            "fieldset": {
-              "list": "VLRTOTAL"
-            }
-          },
-          "criteria": {
-            "expression": {
-              "$": `CODLEAD = '${codLead}' AND ATIVO = 'S'`
-            }
-          }
-        }
-      }
-    };
-
-    const responseProdutos = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, 'POST', PAYLOAD_CONSULTA);
-    console.log('📋 Resposta da consulta de produtos:', JSON.stringify(responseProdutos, null, 2));
-    
-    // Calcular o valor total
-    if (responseProdutos?.responseBody?.entities?.entity) {
-      const entities = Array.isArray(responseProdutos.responseBody.entities.entity) 
-        ? responseProdutos.responseBody.entities.entity 
-        : [responseProdutos.responseBody.entities.entity];
-      
-      novoValorTotal = entities.reduce((sum: number, e: any) => {
-        const vlr = Number(e.f0?.$ || 0);
-        console.log('➕ Somando produto:', vlr);
-        return sum + vlr;
-      }, 0);
-
-      console.log('💰 Valor total calculado:', novoValorTotal);
-    } else {
-      console.log('⚠️ Nenhum produto ativo encontrado para o lead');
-    }
-
-    // 3. Formatar data no padrão DD/MM/YYYY
-    const dataAtual = new Date();
-    const dia = String(dataAtual.getDate()).padStart(2, '0');
-    const mes = String(dataAtual.getMonth() + 1).padStart(2, '0');
-    const ano = dataAtual.getFullYear();
-    const dataFormatada = `${dia}/${mes}/${ano}`;
-
-    // 4. Atualizar o valor total do lead na tabela AD_LEADS
-    const PAYLOAD_LEAD = {
-      "serviceName": "DatasetSP.save",
-      "requestBody": {
-        "entityName": "AD_LEADS",
-        "standAlone": false,
-        "fields": ["VALOR", "DATA_ATUALIZACAO"],
-        "records": [{
-          "pk": { CODLEAD: String(codLead) },
-          "values": {
-            "0": String(novoValorTotal),
-            "1": dataFormatada
-          }
-        }]
-      }
-    };
-
-    console.log('📝 Payload para atualizar lead:', JSON.stringify(PAYLOAD_LEAD, null, 2));
-    const respostaLead = await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', PAYLOAD_LEAD);
-    console.log('✅ Lead atualizado com novo valor total:', JSON.stringify(respostaLead, null, 2));
+    const novoValorTotal = await recalcularValorLead(codLead);
 
     return { novoValorTotal };
   } catch (erro: any) {
@@ -1,4 +1,5 @@
-import axios from 'axios';
+import { loadRecords, datasetSave } from './sankhya-gateway';
+import { montarCriteria, eq, inList, inteiro } from './sankhya-criteria';
 
 // Serviço de gerenciamento de leads integrado com Sankhya
 export interface Lead {
@@ -18,81 +19,10 @@ export interface Lead {
   DATA_CRIACAO: string
   DATA_ATUALIZACAO: string
   STATUS_LEAD?: 'EM_ANDAMENTO' | 'GANHO' | 'PERDIDO' // Status do lead
-  MOTIVO_PERDA?: string // Motivo caso seja perdido
+  MOTIVO_PERDA?: string // Comentário sobre a perda
+  CODMOTIVO?: string | null // Motivo do catálogo (ver ./motivos-service)
   DATA_CONCLUSAO?: string // Data de conclusão
-}
-
-const ENDPOINT_LOGIN = "https://api.sandbox.sankhya.com.br/login";
-const URL_CONSULTA_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=CRUDServiceProvider.loadRecords&outputType=json";
-const URL_SAVE_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=DatasetSP.save&outputType=json";
-
-const LOGIN_HEADERS = {
-  'token': process.env.SANKHYA_TOKEN || "",
-  'appkey': process.env.SANKHYA_APPKEY || "",
-  'username': process.env.SANKHYA_USERNAME || "",
-  'password': process.env.SANKHYA_PASSWORD || ""
-};
-
-let cachedToken: string | null = null;
-
-async function obterToken(): Promise<string> {
-  if (cachedToken) {
-    return cachedToken;
-  }
-
-  try {
-    const resposta = await axios.post(ENDPOINT_LOGIN, {}, {
-      headers: LOGIN_HEADERS,
-      timeout: 10000
-    });
-
-    const token = resposta.data.bearerToken || resposta.data.token;
-
-    if (!token) {
-      throw new Error("Token não encontrado na resposta de login.");
-    }
-
-    cachedToken = token;
-    return token;
-
-  } catch (erro: any) {
-    cachedToken = null;
-    throw new Error(`Falha na autenticação Sankhya: ${erro.message}`);
-  }
-}
-
-async function fazerRequisicaoAutenticada(fullUrl: string, method = 'POST', data = {}) {
-  const token = await obterToken();
-
-  try {
-    const config = {
-      method: method.toLowerCase(),
-      url: fullUrl,
-      data: data,
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      }
-    };
-
-    const resposta = await axios(config);
-    return resposta.data;
-
-  } catch (erro: any) {
-    if (erro.response && (erro.response.status === 401 || erro.response.status === 403)) {
-      cachedToken = null;
-      throw new Error("Sessão expirada. Tente novamente.");
-    }
-
-    const errorDetails = erro.response?.data || erro.message;
-    console.error("❌ Erro na requisição Sankhya:", {
-      url: fullUrl,
-      method,
-      error: errorDetails
-    });
-
-    throw new Error(`Falha na comunicação com a API Sankhya: ${JSON.stringify(errorDetails)}`);
-  }
+  PROBABILIDADE?: number | null // % de ganho informado no lead; vazio usa o do estágio
 }
 
 function mapearLeeds(entities: any): Lead[] {
@@ -127,18 +57,17 @@ function mapearLeeds(entities: any): Lead[] {
   });
 }
 
-export async function consultarLeads(codUsuario?: number, isAdmin: boolean = false): Promise<Lead[]> {
-  // Construir a expressão de filtro baseada nas permissões
-  let criteriaExpression = "ATIVO = 'S'";
-  
+export async function consultarLeads(codUsuario?: number | number[], isAdmin: boolean = false): Promise<Lead[]> {
   console.log('🔍 Consultando leads - isAdmin:', isAdmin, 'codUsuario:', codUsuario);
-  
-  // Se não for admin, filtrar apenas leads do próprio usuário
-  if (!isAdmin && codUsuario) {
-    criteriaExpression += ` AND CODUSUARIO = ${codUsuario}`;
-  }
 
-  console.log('📋 Critério de busca:', criteriaExpression);
+  // Construir o filtro baseado nas permissões: se não for admin, apenas leads do usuário (ou da lista de usuários visíveis)
+  const criteria = montarCriteria(
+    eq('ATIVO', 'S'),
+    !isAdmin && Array.isArray(codUsuario) && inList('CODUSUARIO', codUsuario),
+    !isAdmin && typeof codUsuario === 'number' && !!codUsuario && eq('CODUSUARIO', codUsuario)
+  );
+
+  console.log('📋 Critério de busca:', criteria);
 
   const LEADS_PAYLOAD = {
     "requestBody": {
@@ -148,24 +77,16 @@ export async function consultarLeads(codUsuario?: number, isAdmin: boolean = fal
         "offsetPage": "0",
         "entity": {
           "fieldset": {
-            "list": "NOME, DESCRICAO, VALOR, CODESTAGIO, DATA_VENCIMENTO, TIPO_TAG, COR_TAG, CODPARC, CODFUNIL, CODUSUARIO, ATIVO, DATA_CRIACAO, DATA_ATUALIZACAO, STATUS_LEAD, MOTIVO_PERDA, DATA_CONCLUSAO"
+            "list": "NOME, DESCRICAO, VALOR, CODESTAGIO, DATA_VENCIMENTO, TIPO_TAG, COR_TAG, CODPARC, CODFUNIL, CODUSUARIO, ATIVO, DATA_CRIACAO, DATA_ATUALIZACAO, STATUS_LEAD, MOTIVO_PERDA, CODMOTIVO, DATA_CONCLUSAO, PROBABILIDADE"
           }
         },
-        "criteria": {
-          "expression": {
-            "$": criteriaExpression
-          }
-        }
+        "criteria": criteria
       }
     }
   };
 
   try {
-    const respostaCompleta = await fazerRequisicaoAutenticada(
-      URL_CONSULTA_SERVICO,
-      'POST',
-      LEADS_PAYLOAD
-    );
+    const respostaCompleta = await loadRecords(LEADS_PAYLOAD);
 
     console.log('📦 Resposta completa recebida:', JSON.stringify(respostaCompleta, null, 2));
 
@@ -203,6 +124,43 @@ export async function consultarLeads(codUsuario?: number, isAdmin: boolean = fal
   }
 }
 
+// Consultar um único lead pelo código (usado nas checagens de acesso)
+export async function consultarLead(codLead: string): Promise<Lead | null> {
+  const codigo = inteiro(codLead);
+  if (codigo === null) return null;
+
+  const PAYLOAD = {
+    "requestBody": {
+      "dataSet": {
+        "rootEntity": "AD_LEADS",
+        "includePresentationFields": "S",
+        "offsetPage": "0",
+        "entity": {
+          "fieldset": {
+            "list": "NOME, DESCRICAO, VALOR, CODESTAGIO, DATA_VENCIMENTO, TIPO_TAG, COR_TAG, CODPARC, CODFUNIL, CODUSUARIO, ATIVO, DATA_CRIACAO, DATA_ATUALIZACAO, STATUS_LEAD, MOTIVO_PERDA, CODMOTIVO, DATA_CONCLUSAO, PROBABILIDADE"
+          }
+        },
+        "criteria": montarCriteria(eq('CODLEAD', codigo), eq('ATIVO', 'S'))
+      }
+    }
+  };
+
+  try {
+    const resposta = await loadRecords(PAYLOAD);
+    const leads = mapearLeeds(resposta?.responseBody?.entities);
+    return leads[0] || null;
+  } catch (erro) {
+    console.error("❌ Erro ao consultar lead:", erro);
+    return null;
+  }
+}
+
+function formatarProbabilidade(valor: unknown): string | null {
+  if (valor === undefined || valor === null || valor === '') return null;
+  const numero = Number(valor);
+  return Number.isFinite(numero) ? String(Math.min(100, Math.max(0, Math.round(numero)))) : null;
+}
+
 export async function salvarLead(lead: Partial<Lead>, codUsuarioCriador?: number): Promise<Lead> {
   const isUpdate = !!lead.CODLEAD;
 
@@ -253,6 +211,12 @@ export async function salvarLead(lead: Partial<Lead>, codUsuarioCriador?: number
       "9": currentDate
     };
     
+    // Probabilidade só é gravada quando enviada: edições parciais (ex.: título) não apagam o valor informado
+    if ('PROBABILIDADE' in lead) {
+      fields.push("PROBABILIDADE");
+      values[String(fields.length - 1)] = formatarProbabilidade(lead.PROBABILIDADE);
+    }
+    
     console.log('📋 Valores a serem enviados:', values);
     
     record = {
@@ -278,6 +242,10 @@ export async function salvarLead(lead: Partial<Lead>, codUsuarioCriador?: number
       "12": currentDate,
       "13": "EM_ANDAMENTO"
     };
+    if ('PROBABILIDADE' in lead) {
+      fields.push("PROBABILIDADE");
+      values["14"] = formatarProbabilidade(lead.PROBABILIDADE);
+    }
     record = { values: values };
   }
 
@@ -292,11 +260,7 @@ export async function salvarLead(lead: Partial<Lead>, codUsuarioCriador?: number
   };
 
   try {
-    const resposta = await fazerRequisicaoAutenticada(
-      URL_SAVE_SERVICO,
-      'POST',
-      SAVE_PAYLOAD
-    );
+    const resposta = await datasetSave(SAVE_PAYLOAD);
 
     console.log('📥 Resposta do salvamento:', JSON.stringify(resposta, null, 2));
 
@@ -350,11 +314,7 @@ export async function atualizarEstagioLead(codLeed: string, novoEstagio: string)
   };
 
   try {
-    await fazerRequisicaoAutenticada(
-      URL_SAVE_SERVICO,
-      'POST',
-      PAYLOAD
-    );
+    await datasetSave(PAYLOAD);
 
     // Recarregar o lead atualizado
     const leads = await consultarLeads();
@@ -371,6 +331,80 @@ export async function atualizarEstagioLead(codLeed: string, novoEstagio: string)
   }
 }
 
+// REABRIR LEAD GANHO/PERDIDO: volta para EM_ANDAMENTO e limpa a conclusão.
+// O resultado anterior fica registrado na auditoria do lead (ação REABRIR).
+export async function reabrirLead(codLead: string, codUsuario?: number | null): Promise<void> {
+  const hoje = new Date();
+  const currentDate = `${String(hoje.getDate()).padStart(2, '0')}/${String(hoje.getMonth() + 1).padStart(2, '0')}/${hoje.getFullYear()}`;
+
+  const fields = ["STATUS_LEAD", "DATA_CONCLUSAO", "MOTIVO_PERDA", "CODMOTIVO", "DATA_ATUALIZACAO"];
+  const values: Record<string, any> = {
+    "0": "EM_ANDAMENTO",
+    "1": null,
+    "2": null,
+    "3": null,
+    "4": currentDate
+  };
+
+  if (codUsuario) {
+    fields.push("CODUSUARIO");
+    values["5"] = String(codUsuario);
+  }
+
+  const PAYLOAD = {
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_LEADS",
+      "standAlone": false,
+      "fields": fields,
+      "records": [{
+        pk: { CODLEAD: String(codLead) },
+        values: values
+      }]
+    }
+  };
+
+  try {
+    await datasetSave(PAYLOAD);
+    console.log('♻️ Lead reaberto:', codLead);
+  } catch (erro: any) {
+    console.error("❌ Erro ao reabrir lead:", {
+      message: erro.message,
+      payload: PAYLOAD
+    });
+    throw erro;
+  }
+}
+
+// REATRIBUIR LEADS em lote para outro responsável
+export async function reatribuirLeads(codLeads: string[], codUsuario: number): Promise<void> {
+  if (codLeads.length === 0) return;
+
+  const hoje = new Date();
+  const currentDate = `${String(hoje.getDate()).padStart(2, '0')}/${String(hoje.getMonth() + 1).padStart(2, '0')}/${hoje.getFullYear()}`;
+
+  const PAYLOAD = {
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_LEADS",
+      "standAlone": false,
+      "fields": ["CODUSUARIO", "DATA_ATUALIZACAO"],
+      "records": codLeads.map(codLead => ({
+        pk: { CODLEAD: String(codLead) },
+        values: { "0": String(codUsuario), "1": currentDate }
+      }))
+    }
+  };
+
+  try {
+    await datasetSave(PAYLOAD);
+    console.log(`🔀 ${codLeads.length} lead(s) reatribuído(s) para o usuário ${codUsuario}`);
+  } catch (erro: any) {
+    console.error("❌ Erro ao reatribuir leads:", erro.message);
+    throw erro;
+  }
+}
+
 export async function deletarLead(codLeed: string): Promise<void> {
   const formatarDataParaSankhya = (dataISO: string | undefined) => {
     if (!dataISO) return "";
@@ -410,11 +444,7 @@ export async function deletarLead(codLeed: string): Promise<void> {
   };
 
   try {
-    await fazerRequisicaoAutenticada(
-      URL_SAVE_SERVICO,
-      'POST',
-      DELETE_PAYLOAD
-    );
+    await datasetSave(DELETE_PAYLOAD);
 
   } catch (erro: any) {
     console.error("Erro ao deletar lead:", erro);
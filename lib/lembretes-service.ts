@@ -0,0 +1,165 @@
+import { consultarAtividades, type LeadAtividade } from './lead-atividades-service';
+import { expandirAtividades, type AtividadeExpandida } from './recorrencia-service';
+import { chaveData, descreverRegra, somarDias } from './recorrencia';
+import { usersService } from './users-service';
+import { descreverAntecedencia } from './notificacoes';
+import { chavesNotificadas, notificar, obterPreferenciasUsuarios } from './notificacoes-service';
+
+// Agendador das notificações de atividades, iniciado pelo instrumentation.ts.
+// A cada ciclo (NOTIFICACOES_INTERVALO_MINUTOS, padrão 5) envia os lembretes que venceram antes de DATA_INICIO
+// e, a partir de NOTIFICACOES_HORA_RESUMO (padrão 8h), um resumo diário das atividades atrasadas de cada usuário.
+// As chaves gravadas em AD_NOTIFICACOES evitam repetir um aviso já enviado.
+
+const LINK_CALENDARIO = '/dashboard/calendario';
+// Atividades (e ocorrências de séries) atrasadas há mais tempo não entram no resumo
+const DIAS_ATRASO_RESUMO = 30;
+// Maior antecedência oferecida é de 1 dia; a janela dos lembretes vai até 2 dias à frente
+const DIAS_LEMBRETE = 2;
+const MAX_ITENS_RESUMO = 10;
+
+let emExecucao = false;
+let agendador: ReturnType<typeof setInterval> | null = null;
+
+const pendente = (atividade: LeadAtividade) => !atividade.STATUS || atividade.STATUS === 'AGUARDANDO';
+
+const tituloAtividade = (atividade: LeadAtividade) =>
+  String(atividade.DESCRICAO || '').split('|')[0].trim() || atividade.TIPO;
+
+const inicioAtividade = (atividade: LeadAtividade) => new Date(atividade.DATA_INICIO || atividade.DATA_HORA);
+
+const fimAtividade = (atividade: LeadAtividade) =>
+  new Date(atividade.DATA_FIM || atividade.DATA_INICIO || atividade.DATA_HORA);
+
+const formatarDataHora = (data: Date) =>
+  data.toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+// Ocorrência alterada individualmente mantém a chave da série, para não repetir o lembrete ao virar linha própria
+const chaveOcorrencia = (atividade: AtividadeExpandida) =>
+  atividade.DATA_OCORRENCIA
+    ? `${atividade.CODATIVIDADE_PAI || atividade.CODATIVIDADE}:${atividade.DATA_OCORRENCIA}`
+    : String(atividade.CODATIVIDADE);
+
+// Cada antecedência vale até a próxima menor (ou o início): um lembrete perdido com o servidor parado
+// não é enviado atrasado junto com o seguinte
+function lembreteDevido(inicio: Date, antecedencias: number[], agora: Date): number | null {
+  const ordenadas = [...antecedencias].sort((a, b) => b - a);
+  for (let i = 0; i < ordenadas.length; i++) {
+    const abre = inicio.getTime() - ordenadas[i] * 60000;
+    const fecha = inicio.getTime() - (ordenadas[i + 1] || 0) * 60000;
+    if (agora.getTime() >= abre && agora.getTime() < fecha) return ordenadas[i];
+  }
+  return null;
+}
+
+export async function processarNotificacoes(agora: Date = new Date()): Promise<{ lembretes: number; resumos: number }> {
+  const usuarios = await usersService.getActiveSummary();
+  if (usuarios.length === 0) return { lembretes: 0, resumos: 0 };
+
+  const preferencias = await obterPreferenciasUsuarios(usuarios.map(u => u.id));
+  const enviadas = await chavesNotificadas(somarDias(agora, -2));
+  // Só o período usado pelo resumo e pelos lembretes (séries recorrentes sempre vêm, para serem expandidas)
+  const atividades = (await consultarAtividades('', 'S', {
+    periodo: { inicio: somarDias(agora, -DIAS_ATRASO_RESUMO), fim: somarDias(agora, DIAS_LEMBRETE) }
+  })).filter(a => a.CODUSUARIO && (a.DATA_INICIO || a.DATA_HORA));
+
+  let lembretes = 0;
+  let resumos = 0;
+
+  // Lembretes: ocorrências que começam até 1 dia à frente (maior antecedência oferecida)
+  const proximas = expandirAtividades(atividades, somarDias(agora, -1), somarDias(agora, DIAS_LEMBRETE))
+    .filter(a => pendente(a) && inicioAtividade(a) > agora);
+
+  for (const atividade of proximas) {
+    const usuario = usuarios.find(u => u.id === Number(atividade.CODUSUARIO));
+    const prefs = usuario && preferencias.get(usuario.id);
+    if (!usuario || !prefs || prefs.lembretes.length === 0) continue;
+
+    const inicio = inicioAtividade(atividade);
+    const antecedencia = lembreteDevido(inicio, prefs.lembretes, agora);
+    if (antecedencia === null) continue;
+
+    const chave = `LEMBRETE:${chaveOcorrencia(atividade)}:${antecedencia}`;
+    if (enviadas.has(chave)) continue;
+
+    await notificar(usuario, prefs, {
+      tipo: 'LEMBRETE',
+      titulo: `Lembrete: ${tituloAtividade(atividade)}`,
+      mensagem: [
+        `${atividade.TIPO} em ${formatarDataHora(inicio)} (${descreverAntecedencia(antecedencia)})`,
+        atividade.CODLEAD ? `Lead #${atividade.CODLEAD}` : '',
+        atividade.REGRA ? descreverRegra(atividade.REGRA) : ''
+      ].filter(Boolean).join('\n'),
+      link: LINK_CALENDARIO,
+      chave
+    });
+    enviadas.add(chave);
+    lembretes++;
+  }
+
+  // Resumo diário das atividades aguardando cujo término já passou
+  const horaResumo = Number(process.env.NOTIFICACOES_HORA_RESUMO ?? 8);
+  if (agora.getHours() >= horaResumo) {
+    const atrasadas = expandirAtividades(atividades, somarDias(agora, -DIAS_ATRASO_RESUMO), agora)
+      .filter(a => pendente(a) && fimAtividade(a) < agora);
+
+    for (const usuario of usuarios) {
+      const prefs = preferencias.get(usuario.id);
+      if (!prefs?.resumoAtrasadas) continue;
+
+      const chave = `ATRASADAS:${usuario.id}:${chaveData(agora)}`;
+      if (enviadas.has(chave)) continue;
+
+      const doUsuario = atrasadas
+        .filter(a => Number(a.CODUSUARIO) === usuario.id)
+        .sort((a, b) => inicioAtividade(a).getTime() - inicioAtividade(b).getTime());
+      if (doUsuario.length === 0) continue;
+
+      const itens = doUsuario.slice(0, MAX_ITENS_RESUMO).map(a =>
+        `• ${formatarDataHora(inicioAtividade(a))} - ${tituloAtividade(a)}${a.CODLEAD ? ` (Lead #${a.CODLEAD})` : ''}`
+      );
+      if (doUsuario.length > MAX_ITENS_RESUMO) itens.push(`... e mais ${doUsuario.length - MAX_ITENS_RESUMO}`);
+
+      await notificar(usuario, prefs, {
+        tipo: 'ATRASADAS',
+        titulo: `${doUsuario.length} atividade(s) atrasada(s)`,
+        mensagem: itens.join('\n'),
+        link: LINK_CALENDARIO,
+        chave
+      });
+      enviadas.add(chave);
+      resumos++;
+    }
+  }
+
+  return { lembretes, resumos };
+}
+
+// Um ciclo por vez: se o anterior ainda não terminou, o seguinte é pulado
+async function executarCiclo() {
+  if (emExecucao) return;
+  emExecucao = true;
+  try {
+    const { lembretes, resumos } = await processarNotificacoes();
+    if (lembretes || resumos) {
+      console.log(`🔔 Notificações enviadas: ${lembretes} lembrete(s), ${resumos} resumo(s) de atrasadas`);
+    }
+  } catch (erro) {
+    console.error('❌ Erro ao processar notificações:', erro);
+  } finally {
+    emExecucao = false;
+  }
+}
+
+// NOTIFICACOES_INTERVALO_MINUTOS=0 desliga o agendador (ex.: instâncias extras do servidor)
+export function iniciarAgendadorNotificacoes() {
+  if (agendador) return;
+
+  const minutos = Number(process.env.NOTIFICACOES_INTERVALO_MINUTOS ?? 5);
+  if (!Number.isFinite(minutos) || minutos <= 0) {
+    console.log('ℹ️ Agendador de notificações desativado');
+    return;
+  }
+
+  agendador = setInterval(executarCiclo, minutos * 60 * 1000);
+  console.log(`🔔 Agendador de notificações iniciado (a cada ${minutos} min)`);
+}
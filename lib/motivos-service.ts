@@ -0,0 +1,126 @@
+import { loadRecords, datasetSave, mapearEntidades } from './sankhya-gateway';
+import { montarCriteria, eq } from './sankhya-criteria';
+
+// Catálogo de motivos de perda (e, opcionalmente, de ganho) mantido pelo administrador por funil.
+// O lead guarda o código do motivo em CODMOTIVO; MOTIVO_PERDA passa a ser o comentário livre.
+
+export type TipoMotivo = 'PERDA' | 'GANHO';
+
+export interface MotivoLead {
+  CODMOTIVO: string
+  CODFUNIL: string
+  TIPO: TipoMotivo
+  DESCRICAO: string
+  ORDEM: number
+  ATIVO: string
+}
+
+// incluirInativos: relatórios precisam do nome de motivos já inativados
+export async function consultarMotivos(
+  codFunil?: string | null,
+  tipo?: TipoMotivo | null,
+  incluirInativos: boolean = false
+): Promise<MotivoLead[]> {
+  const PAYLOAD = {
+    "requestBody": {
+      "dataSet": {
+        "rootEntity": "AD_MOTIVOSLEAD",
+        "includePresentationFields": "N",
+        "offsetPage": null,
+        "disableRowsLimit": true,
+        "entity": {
+          "fieldset": {
+            "list": "CODFUNIL, TIPO, DESCRICAO, ORDEM, ATIVO"
+          }
+        },
+        "criteria": montarCriteria(
+          !incluirInativos && eq('ATIVO', 'S'),
+          !!codFunil && eq('CODFUNIL', Number(codFunil)),
+          !!tipo && eq('TIPO', tipo)
+        ),
+        "orderBy": {
+          "ORDEM": "ASC"
+        }
+      }
+    }
+  };
+
+  try {
+    const resposta = await loadRecords(PAYLOAD);
+
+    if (!resposta?.responseBody?.entities) {
+      return [];
+    }
+
+    return (mapearEntidades(resposta.responseBody.entities, 'CODMOTIVO') as MotivoLead[])
+      .sort((a, b) => Number(a.ORDEM) - Number(b.ORDEM));
+  } catch (erro) {
+    console.error("❌ Erro ao consultar motivos:", erro);
+    return [];
+  }
+}
+
+export async function salvarMotivo(motivo: Partial<MotivoLead>): Promise<MotivoLead> {
+  const isUpdate = !!motivo.CODMOTIVO;
+
+  const record = isUpdate
+    ? {
+        pk: { CODMOTIVO: String(motivo.CODMOTIVO) },
+        values: {
+          "0": motivo.DESCRICAO || "",
+          "1": String(motivo.ORDEM || 0)
+        }
+      }
+    : {
+        values: {
+          "0": motivo.DESCRICAO || "",
+          "1": String(motivo.ORDEM || 0),
+          "2": String(motivo.CODFUNIL || ""),
+          "3": motivo.TIPO === 'GANHO' ? 'GANHO' : 'PERDA',
+          "4": "S"
+        }
+      };
+
+  const PAYLOAD = {
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_MOTIVOSLEAD",
+      "standAlone": false,
+      "fields": isUpdate
+        ? ["DESCRICAO", "ORDEM"]
+        : ["DESCRICAO", "ORDEM", "CODFUNIL", "TIPO", "ATIVO"],
+      "records": [record]
+    }
+  };
+
+  console.log('📤 Salvando motivo:', JSON.stringify(PAYLOAD, null, 2));
+  const resposta = await datasetSave(PAYLOAD);
+
+  const motivos = await consultarMotivos(String(motivo.CODFUNIL));
+  const codMotivo = isUpdate ? String(motivo.CODMOTIVO) : String(resposta?.responseBody?.pk?.CODMOTIVO || '');
+  const salvo = motivos.find(m => m.CODMOTIVO === codMotivo)
+    || (!isUpdate ? motivos.filter(m => m.DESCRICAO === motivo.DESCRICAO).pop() : undefined);
+
+  if (!salvo) {
+    throw new Error('Motivo não encontrado após salvar');
+  }
+  return salvo;
+}
+
+// DELETAR MOTIVO (soft delete, leads já concluídos mantêm o código)
+export async function deletarMotivo(codMotivo: string): Promise<void> {
+  const PAYLOAD = {
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_MOTIVOSLEAD",
+      "standAlone": false,
+      "fields": ["ATIVO"],
+      "records": [{
+        pk: { CODMOTIVO: String(codMotivo) },
+        values: { "0": "N" }
+      }]
+    }
+  };
+
+  await datasetSave(PAYLOAD);
+}
@@ -0,0 +1,317 @@
+import crypto from 'crypto';
+import { loadRecords, datasetSave, mapearEntidades, formatarDataHoraParaSankhya } from './sankhya-gateway';
+import { montarCriteria, eq, gte, inList } from './sankhya-criteria';
+import { enviarEmail } from './email-service';
+import { converterDataSankhyaParaISO } from './lead-atividades-service';
+import {
+  lerPreferencias,
+  normalizarPreferencias,
+  ROTULOS_CANAL,
+  type Notificacao,
+  type PreferenciasNotificacao,
+  type TipoNotificacao
+} from './notificacoes';
+
+// Central de notificações com canais plugáveis.
+// Todo aviso é gravado em AD_NOTIFICACOES (sino do cabeçalho, com lida/não lida) e também segue pelos
+// canais escolhidos pelo usuário: "EMAIL" (email-service) e "WEBHOOK" (POST JSON em NOTIFICACOES_WEBHOOK_URL).
+// Outros canais são registrados com registrarCanalNotificacao(nome, canal).
+// As preferências ficam em AD_USUARIOSVENDAS.PREFNOTIFICACOES como JSON.
+
+export interface DestinatarioNotificacao {
+  id: number
+  name: string
+  email: string
+}
+
+export interface NovaNotificacao {
+  tipo: TipoNotificacao
+  titulo: string
+  mensagem: string
+  link?: string
+  chave: string
+}
+
+export interface CanalNotificacao {
+  // Canal que depende de configuração fica fora das opções enquanto não estiver configurado
+  disponivel?(): boolean
+  enviar(notificacao: NovaNotificacao, destinatario: DestinatarioNotificacao): Promise<void>
+}
+
+const LIMITE_LISTA = 30;
+const TEMPO_LIMITE_WEBHOOK = 10000;
+
+const urlAbsoluta = (link?: string) =>
+  link && process.env.NEXT_PUBLIC_APP_URL ? `${process.env.NEXT_PUBLIC_APP_URL.replace(/\/$/, '')}${link}` : link;
+
+const canalEmail: CanalNotificacao = {
+  async enviar(notificacao, destinatario) {
+    if (!destinatario.email) return;
+    const link = urlAbsoluta(notificacao.link);
+
+    await enviarEmail({
+      para: destinatario.email,
+      assunto: notificacao.titulo,
+      texto: [
+        `Olá, ${destinatario.name}.`,
+        '',
+        notificacao.mensagem,
+        ...(link ? ['', link] : [])
+      ].join('\n')
+    });
+  }
+};
+
+// Corpo assinado com HMAC-SHA256 (cabeçalho X-Assinatura) quando NOTIFICACOES_WEBHOOK_SEGREDO está definido
+const canalWebhook: CanalNotificacao = {
+  disponivel: () => !!process.env.NOTIFICACOES_WEBHOOK_URL,
+  async enviar(notificacao, destinatario) {
+    const url = process.env.NOTIFICACOES_WEBHOOK_URL;
+    if (!url) return;
+
+    const corpo = JSON.stringify({
+      tipo: notificacao.tipo,
+      titulo: notificacao.titulo,
+      mensagem: notificacao.mensagem,
+      link: urlAbsoluta(notificacao.link) || null,
+      chave: notificacao.chave,
+      usuario: { id: destinatario.id, nome: destinatario.name, email: destinatario.email },
+      enviadaEm: new Date().toISOString()
+    });
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    const segredo = process.env.NOTIFICACOES_WEBHOOK_SEGREDO;
+    if (segredo) {
+      headers['X-Assinatura'] = `sha256=${crypto.createHmac('sha256', segredo).update(corpo).digest('hex')}`;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), TEMPO_LIMITE_WEBHOOK);
+    try {
+      const response = await fetch(url, { method: 'POST', headers, body: corpo, signal: controller.signal });
+      if (!response.ok) throw new Error(`Webhook respondeu ${response.status}`);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+};
+
+const canais: Record<string, CanalNotificacao> = {
+  EMAIL: canalEmail,
+  WEBHOOK: canalWebhook
+};
+
+export function registrarCanalNotificacao(nome: string, canal: CanalNotificacao) {
+  canais[nome.trim().toUpperCase()] = canal;
+}
+
+export function canaisDisponiveis(): { nome: string; rotulo: string }[] {
+  return Object.entries(canais)
+    .filter(([, canal]) => !canal.disponivel || canal.disponivel())
+    .map(([nome]) => ({ nome, rotulo: ROTULOS_CANAL[nome] || nome }));
+}
+
+async function consultarRegistrosPreferencias(...condicoes: Parameters<typeof montarCriteria>): Promise<{ CODUSUARIO: string; PREFNOTIFICACOES?: string }[]> {
+  const PAYLOAD = {
+    "requestBody": {
+      "dataSet": {
+        "rootEntity": "AD_USUARIOSVENDAS",
+        "includePresentationFields": "N",
+        "offsetPage": "0",
+        "entity": {
+          "fieldset": {
+            "list": "CODUSUARIO, PREFNOTIFICACOES"
+          }
+        },
+        "criteria": montarCriteria(...condicoes)
+      }
+    }
+  };
+
+  const resposta = await loadRecords(PAYLOAD);
+  return mapearEntidades(resposta?.responseBody?.entities);
+}
+
+export async function obterPreferencias(userId: number): Promise<PreferenciasNotificacao> {
+  const [registro] = await consultarRegistrosPreferencias(eq('CODUSUARIO', Number(userId)));
+  return lerPreferencias(registro?.PREFNOTIFICACOES);
+}
+
+// Preferências de vários usuários em uma consulta (usuários sem registro ficam com o padrão)
+export async function obterPreferenciasUsuarios(userIds: number[]): Promise<Map<number, PreferenciasNotificacao>> {
+  const registros = await consultarRegistrosPreferencias(inList('CODUSUARIO', userIds));
+  const preferencias = new Map<number, PreferenciasNotificacao>();
+  userIds.forEach(id => preferencias.set(id, lerPreferencias(null)));
+  registros.forEach(r => preferencias.set(Number(r.CODUSUARIO), lerPreferencias(r.PREFNOTIFICACOES)));
+  return preferencias;
+}
+
+export async function salvarPreferencias(userId: number, preferencias: PreferenciasNotificacao): Promise<PreferenciasNotificacao> {
+  const disponiveis = new Set(canaisDisponiveis().map(c => c.nome));
+  const normalizadas = normalizarPreferencias({
+    ...preferencias,
+    canais: preferencias.canais.filter(c => disponiveis.has(c))
+  });
+
+  await datasetSave({
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_USUARIOSVENDAS",
+      "standAlone": false,
+      "fields": ["PREFNOTIFICACOES"],
+      "records": [{
+        "pk": { "CODUSUARIO": String(userId) },
+        "values": { "0": JSON.stringify(normalizadas) }
+      }]
+    }
+  });
+
+  return normalizadas;
+}
+
+// Grava o aviso no sistema e repassa aos demais canais escolhidos.
+// Falha de um canal externo é registrada no log e não impede os outros.
+export async function notificar(
+  destinatario: DestinatarioNotificacao,
+  preferencias: PreferenciasNotificacao,
+  notificacao: NovaNotificacao
+): Promise<void> {
+  await datasetSave({
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_NOTIFICACOES",
+      "standAlone": false,
+      "fields": ["CODUSUARIO", "TIPO", "TITULO", "MENSAGEM", "LINK", "CHAVE", "DTCRIACAO", "LIDA"],
+      "records": [{
+        "values": {
+          "0": String(destinatario.id),
+          "1": notificacao.tipo,
+          "2": notificacao.titulo.slice(0, 200),
+          "3": notificacao.mensagem.slice(0, 4000),
+          "4": notificacao.link || null,
+          "5": notificacao.chave,
+          "6": formatarDataHoraParaSankhya(new Date()),
+          "7": "N"
+        }
+      }]
+    }
+  });
+
+  for (const nome of preferencias.canais) {
+    const canal = canais[nome];
+    if (!canal || (canal.disponivel && !canal.disponivel())) continue;
+
+    try {
+      await canal.enviar(notificacao, destinatario);
+    } catch (erro) {
+      console.error(`❌ Erro ao enviar notificação pelo canal ${nome}:`, { chave: notificacao.chave, erro });
+    }
+  }
+
+  console.log('🔔 Notificação:', { usuario: destinatario.id, tipo: notificacao.tipo, chave: notificacao.chave });
+}
+
+// Chaves já notificadas desde a data informada, para o agendador não repetir avisos
+export async function chavesNotificadas(desde: Date): Promise<Set<string>> {
+  const PAYLOAD = {
+    "requestBody": {
+      "dataSet": {
+        "rootEntity": "AD_NOTIFICACOES",
+        "includePresentationFields": "N",
+        "offsetPage": "0",
+        "entity": {
+          "fieldset": {
+            "list": "CHAVE"
+          }
+        },
+        "criteria": montarCriteria(gte('DTCRIACAO', desde))
+      }
+    }
+  };
+
+  const resposta = await loadRecords(PAYLOAD);
+  return new Set(mapearEntidades(resposta?.responseBody?.entities).map((r: any) => r.CHAVE));
+}
+
+export async function consultarNotificacoes(userId: number): Promise<{ notificacoes: Notificacao[]; naoLidas: number }> {
+  const consultar = async (...condicoes: Parameters<typeof montarCriteria>) => {
+    const PAYLOAD = {
+      "requestBody": {
+        "dataSet": {
+          "rootEntity": "AD_NOTIFICACOES",
+          "includePresentationFields": "N",
+          "offsetPage": "0",
+          "limit": String(LIMITE_LISTA),
+          "entity": {
+            "fieldset": {
+              "list": "CODUSUARIO, TIPO, TITULO, MENSAGEM, LINK, CHAVE, DTCRIACAO, LIDA"
+            }
+          },
+          "criteria": montarCriteria(...condicoes),
+          "orderBy": {
+            "CODNOTIFICACAO": "DESC"
+          }
+        }
+      }
+    };
+    const resposta = await loadRecords(PAYLOAD);
+    const entities = resposta?.responseBody?.entities;
+    return { registros: mapearEntidades(entities, 'CODNOTIFICACAO'), total: entities?.total ? parseInt(entities.total) : null };
+  };
+
+  const [lista, naoLidas] = await Promise.all([
+    consultar(eq('CODUSUARIO', Number(userId))),
+    consultar(eq('CODUSUARIO', Number(userId)), eq('LIDA', 'N'))
+  ]);
+
+  return {
+    notificacoes: lista.registros.map((registro: any) => ({
+      ...registro,
+      CODUSUARIO: Number(registro.CODUSUARIO),
+      DTCRIACAO: converterDataSankhyaParaISO(registro.DTCRIACAO)
+    })),
+    naoLidas: naoLidas.total ?? naoLidas.registros.length
+  };
+}
+
+// Sem códigos marca todas as não lidas do usuário; códigos de outro usuário são ignorados
+export async function marcarComoLidas(userId: number, codigos?: string[]): Promise<number> {
+  const PAYLOAD = {
+    "requestBody": {
+      "dataSet": {
+        "rootEntity": "AD_NOTIFICACOES",
+        "includePresentationFields": "N",
+        "offsetPage": "0",
+        "entity": {
+          "fieldset": {
+            "list": "CODUSUARIO"
+          }
+        },
+        "criteria": montarCriteria(
+          eq('CODUSUARIO', Number(userId)),
+          eq('LIDA', 'N'),
+          !!codigos && inList('CODNOTIFICACAO', codigos.map(Number).filter(Number.isInteger))
+        )
+      }
+    }
+  };
+
+  const resposta = await loadRecords(PAYLOAD);
+  const pendentes = mapearEntidades(resposta?.responseBody?.entities, 'CODNOTIFICACAO');
+  if (pendentes.length === 0) return 0;
+
+  await datasetSave({
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_NOTIFICACOES",
+      "standAlone": false,
+      "fields": ["LIDA"],
+      "records": pendentes.map((p: any) => ({
+        "pk": { "CODNOTIFICACAO": String(p.CODNOTIFICACAO) },
+        "values": { "0": "S" }
+      }))
+    }
+  });
+
+  return pendentes.length;
+}
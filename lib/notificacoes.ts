@@ -0,0 +1,82 @@
+// Regras das notificações compartilhadas entre servidor e cliente:
+// tipos, canais, antecedências de lembrete e preferências de cada usuário
+
+export type TipoNotificacao = 'LEMBRETE' | 'ATRASADAS';
+
+// Canais além do aviso no sistema (sempre ativo); novos canais são registrados no servidor
+export type CanalNotificacaoNome = 'EMAIL' | 'WEBHOOK' | (string & {});
+
+export interface Notificacao {
+  CODNOTIFICACAO: string
+  CODUSUARIO: number
+  TIPO: TipoNotificacao
+  TITULO: string
+  MENSAGEM: string
+  LINK?: string
+  // Identifica o aviso (atividade, ocorrência, antecedência ou dia do resumo) para não repetir o envio
+  CHAVE: string
+  DTCRIACAO: string
+  LIDA: 'S' | 'N'
+}
+
+export interface PreferenciasNotificacao {
+  // Minutos antes de DATA_INICIO
+  lembretes: number[]
+  resumoAtrasadas: boolean
+  canais: CanalNotificacaoNome[]
+}
+
+export const ANTECEDENCIAS_LEMBRETE = [5, 10, 15, 30, 60, 120, 1440];
+export const MAX_LEMBRETES = 3;
+
+export const PREFERENCIAS_PADRAO: PreferenciasNotificacao = {
+  lembretes: [15],
+  resumoAtrasadas: true,
+  canais: []
+};
+
+export const ROTULOS_CANAL: Record<string, string> = {
+  EMAIL: 'Email',
+  WEBHOOK: 'Webhook'
+};
+
+export function descreverAntecedencia(minutos: number): string {
+  if (minutos % 1440 === 0) return minutos === 1440 ? '1 dia antes' : `${minutos / 1440} dias antes`;
+  if (minutos % 60 === 0) return minutos === 60 ? '1 hora antes' : `${minutos / 60} horas antes`;
+  return `${minutos} minutos antes`;
+}
+
+// Retorna a mensagem do primeiro problema encontrado ou null
+export function validarPreferencias(preferencias: any): string | null {
+  if (!preferencias || typeof preferencias !== 'object') return 'Preferências inválidas';
+
+  const { lembretes, resumoAtrasadas, canais } = preferencias;
+  if (!Array.isArray(lembretes) || lembretes.some(m => !ANTECEDENCIAS_LEMBRETE.includes(m))) {
+    return 'Antecedência de lembrete inválida';
+  }
+  if (lembretes.length > MAX_LEMBRETES) return `Escolha no máximo ${MAX_LEMBRETES} lembretes`;
+  if (typeof resumoAtrasadas !== 'boolean') return 'Opção de resumo inválida';
+  if (!Array.isArray(canais) || canais.some(c => typeof c !== 'string' || !c)) return 'Canal inválido';
+
+  return null;
+}
+
+// Preferências gravadas como JSON; valor ausente ou inválido volta ao padrão
+export function lerPreferencias(texto?: string | null): PreferenciasNotificacao {
+  if (!texto) return PREFERENCIAS_PADRAO;
+  try {
+    const preferencias = JSON.parse(texto);
+    if (validarPreferencias(preferencias)) return PREFERENCIAS_PADRAO;
+    return normalizarPreferencias(preferencias);
+  } catch {
+    return PREFERENCIAS_PADRAO;
+  }
+}
+
+export function normalizarPreferencias(preferencias: PreferenciasNotificacao): PreferenciasNotificacao {
+  return {
+    lembretes: Array.from(new Set(preferencias.lembretes)).sort((a, b) => b - a),
+    resumoAtrasadas: preferencias.resumoAtrasadas,
+    canais: Array.from(new Set(preferencias.canais))
+  };
+}
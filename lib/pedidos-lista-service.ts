@@ -1,106 +1,6 @@
-import axios from 'axios';
 import { redisCacheService } from './redis-cache-service';
-
-const ENDPOINT_LOGIN = "https://api.sandbox.sankhya.com.br/login";
-const URL_LOADRECORDS_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=CRUDServiceProvider.loadRecords&outputType=json";
-
-const LOGIN_HEADERS = {
-  'token': process.env.SANKHYA_TOKEN || "",
-  'appkey': process.env.SANKHYA_APPKEY || "",
-  'username': process.env.SANKHYA_USERNAME || "",
-  'password': process.env.SANKHYA_PASSWORD || ""
-};
-
-let cachedToken: string | null = null;
-
-async function obterToken(retryCount = 0): Promise<string> {
-  if (cachedToken) {
-    return cachedToken;
-  }
-
-  const MAX_RETRIES = 3;
-  const RETRY_DELAY = 1000;
-
-  try {
-    const resposta = await axios.post(ENDPOINT_LOGIN, {}, {
-      headers: LOGIN_HEADERS,
-      timeout: 10000
-    });
-
-    const token = resposta.data.bearerToken || resposta.data.token;
-
-    if (!token) {
-      throw new Error("Token não encontrado na resposta de login.");
-    }
-
-    cachedToken = token;
-    return token;
-
-  } catch (erro: any) {
-    if (erro.response?.status === 500 && retryCount < MAX_RETRIES) {
-      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * (retryCount + 1)));
-      return obterToken(retryCount + 1);
-    }
-
-    cachedToken = null;
-
-    if (erro.response?.status === 500) {
-      throw new Error("Serviço Sankhya temporariamente indisponível.");
-    }
-
-    throw new Error(`Falha na autenticação Sankhya: ${erro.response?.data?.error || erro.message}`);
-  }
-}
-
-async function fazerRequisicaoAutenticada(fullUrl: string, method = 'POST', data = {}, retryCount = 0) {
-  const MAX_RETRIES = 2;
-  const RETRY_DELAY = 1000;
-
-  try {
-    const token = await obterToken();
-
-    const config = {
-      method: method.toLowerCase(),
-      url: fullUrl,
-      data: data,
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      },
-      timeout: 15000
-    };
-
-    const resposta = await axios(config);
-    return resposta.data;
-
-  } catch (erro: any) {
-    if (erro.response && (erro.response.status === 401 || erro.response.status === 403)) {
-      cachedToken = null;
-
-      if (retryCount < 1) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-        return fazerRequisicaoAutenticada(fullUrl, method, data, retryCount + 1);
-      }
-
-      throw new Error("Sessão expirada. Tente novamente.");
-    }
-
-    if ((erro.code === 'ECONNABORTED' || erro.code === 'ENOTFOUND' || erro.response?.status >= 500) && retryCount < MAX_RETRIES) {
-      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * (retryCount + 1)));
-      return fazerRequisicaoAutenticada(fullUrl, method, data, retryCount + 1);
-    }
-
-    const errorDetails = erro.response?.data || erro.message;
-    console.error("❌ Erro na requisição Sankhya:", {
-      url: fullUrl,
-      method,
-      error: errorDetails
-    });
-
-    throw new Error(erro.response?.data?.statusMessage || erro.message || "Erro na comunicação com o servidor");
-  }
-}
+import { loadRecords } from './sankhya-gateway';
+import { montarCriteria, eq, or, entreDatas, expressao, inteiro, like, type Condicao } from './sankhya-criteria';
 
 function mapearEntidades(entities: any[]): any[] {
   if (!entities || !Array.isArray(entities) || entities.length === 0) {
@@ -133,6 +33,30 @@ export interface PedidoListagem {
 }
 
 // Listar pedidos com filtro opcional por vendedor usando loadRecords
+// Filtros comuns das listagens; retorna null quando o número do pedido não é numérico
+function filtrosPedidos(
+  dataInicio?: string,
+  dataFim?: string,
+  numeroPedido?: string,
+  nomeCliente?: string
+): (Condicao | null)[] | null {
+  const filtros: (Condicao | null)[] = [entreDatas('DTNEG', dataInicio, dataFim)];
+
+  // Busca otimizada por número do pedido (exata/numérica)
+  if (numeroPedido && numeroPedido.trim()) {
+    const nunota = inteiro(numeroPedido);
+    if (nunota === null) return null;
+    filtros.push(eq('NUNOTA', nunota));
+  }
+
+  // Busca otimizada por nome do cliente (texto)
+  if (nomeCliente && nomeCliente.trim()) {
+    filtros.push(like('NOMEPARC', nomeCliente.trim(), 'comeca'));
+  }
+
+  return filtros;
+}
+
 export async function listarPedidos(
   codVend?: string,
   dataInicio?: string,
@@ -150,32 +74,18 @@ export async function listarPedidos(
 
   try {
     console.log('🔍 Buscando pedidos...');
-    const criterios: string[] = ["TIPMOV = 'P'"];
+    const criterios: (Condicao | null)[] = [eq('TIPMOV', 'P')];
 
     if (codVend) {
-      criterios.push(`CODVEND = ${codVend}`);
-    }
-
-    if (dataInicio) {
-      criterios.push(`DTNEG >= TO_DATE('${dataInicio}', 'YYYY-MM-DD')`);
-    }
-
-    if (dataFim) {
-      criterios.push(`DTNEG <= TO_DATE('${dataFim}', 'YYYY-MM-DD')`);
-    }
-
-    // Busca otimizada por número do pedido (exata/numérica)
-    if (numeroPedido && numeroPedido.trim()) {
-      criterios.push(`NUNOTA = ${numeroPedido.trim()}`);
+      criterios.push(eq('CODVEND', Number(codVend)));
     }
 
-    // Busca otimizada por nome do cliente (texto)
-    if (nomeCliente && nomeCliente.trim()) {
-      const nomeUpper = nomeCliente.trim().toUpperCase();
-      criterios.push(`UPPER(NOMEPARC) LIKE '${nomeUpper}%'`);
+    const filtros = filtrosPedidos(dataInicio, dataFim, numeroPedido, nomeCliente);
+    if (!filtros) {
+      return [];
     }
 
-    const criterioFinal = criterios.join(' AND ');
+    const criteria = montarCriteria(...criterios, ...filtros);
 
     const PAYLOAD = {
       "serviceName": "CRUDServiceProvider.loadRecords",
@@ -190,11 +100,7 @@ export async function listarPedidos(
               "list": "NUNOTA, CODPARC, CODVEND, VLRNOTA, DTNEG"
             }
           },
-          "criteria": {
-            "expression": {
-              "$": criterioFinal
-            }
-          },
+          "criteria": criteria,
           "ordering": {
             "expression": {
               "$": "DTNEG DESC, NUNOTA DESC"
@@ -204,7 +110,7 @@ export async function listarPedidos(
       }
     };
 
-    const resposta = await fazerRequisicaoAutenticada(URL_LOADRECORDS_SERVICO, 'POST', PAYLOAD);
+    const resposta = await loadRecords(PAYLOAD);
 
     console.log('📦 Resposta Sankhya (listarPedidos):', JSON.stringify(resposta, null, 2));
 
@@ -254,7 +160,7 @@ export async function listarPedidos(
   }
 }
 
-// Listar pedidos por gerente (vendedores da equipe)
+// Listar pedidos por gerente (vendedores da equipe e o próprio gerente)
 export async function listarPedidosPorGerente(
   codGerente: string,
   dataInicio?: string,
@@ -272,31 +178,20 @@ export async function listarPedidosPorGerente(
 
   try {
     console.log(`🔍 Buscando pedidos da equipe do gerente ${codGerente}...`);
-    const criterios: string[] = [
-      "TIPMOV = 'P'",
-      `CODVEND IN (SELECT CODVEND FROM TGFVEN WHERE CODGER = ${codGerente})`
+    const criterios: (Condicao | null)[] = [
+      eq('TIPMOV', 'P'),
+      or(
+        eq('CODVEND', Number(codGerente)),
+        expressao('CODVEND IN (SELECT CODVEND FROM TGFVEN WHERE CODGER = ?)', Number(codGerente))
+      )
     ];
 
-    if (dataInicio) {
-      criterios.push(`DTNEG >= TO_DATE('${dataInicio}', 'YYYY-MM-DD')`);
-    }
-
-    if (dataFim) {
-      criterios.push(`DTNEG <= TO_DATE('${dataFim}', 'YYYY-MM-DD')`);
-    }
-
-    // Busca otimizada por número do pedido (exata/numérica)
-    if (numeroPedido && numeroPedido.trim()) {
-      criterios.push(`NUNOTA = ${numeroPedido.trim()}`);
-    }
-
-    // Busca otimizada por nome do cliente (texto)
-    if (nomeCliente && nomeCliente.trim()) {
-      const nomeUpper = nomeCliente.trim().toUpperCase();
-      criterios.push(`UPPER(NOMEPARC) LIKE '${nomeUpper}%'`);
+    const filtros = filtrosPedidos(dataInicio, dataFim, numeroPedido, nomeCliente);
+    if (!filtros) {
+      return [];
     }
 
-    const criterioFinal = criterios.join(' AND ');
+    const criteria = montarCriteria(...criterios, ...filtros);
 
     const PAYLOAD = {
       "serviceName": "CRUDServiceProvider.loadRecords",
@@ -311,11 +206,7 @@ export async function listarPedidosPorGerente(
               "list": "NUNOTA, CODPARC, CODVEND, VLRNOTA, DTNEG"
             }
           },
-          "criteria": {
-            "expression": {
-              "$": criterioFinal
-            }
-          },
+          "criteria": criteria,
           "ordering": {
             "expression": {
               "$": "DTNEG DESC, NUNOTA DESC"
@@ -325,7 +216,7 @@ export async function listarPedidosPorGerente(
       }
     };
 
-    const resposta = await fazerRequisicaoAutenticada(URL_LOADRECORDS_SERVICO, 'POST', PAYLOAD);
+    const resposta = await loadRecords(PAYLOAD);
 
     if (!resposta.responseBody?.entities?.entity) {
       return [];
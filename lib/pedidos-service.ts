@@ -1,4 +1,4 @@
-import axios from 'axios';
+import { fazerRequisicaoAutenticada, urlApi } from './sankhya-gateway';
 import { buscarPrecoProduto } from './produtos-service';
 
 // Serviço de gerenciamento de pedidos de venda
@@ -50,107 +50,6 @@ export interface ItemPedido {
   IDALIQICMS?: string
 }
 
-const ENDPOINT_LOGIN = "https://api.sandbox.sankhya.com.br/login";
-const URL_PEDIDOS_VENDA = "https://api.sandbox.sankhya.com.br/v1/vendas/pedidos";
-
-const LOGIN_HEADERS = {
-  'token': process.env.SANKHYA_TOKEN || "",
-  'appkey': process.env.SANKHYA_APPKEY || "",
-  'username': process.env.SANKHYA_USERNAME || "",
-  'password': process.env.SANKHYA_PASSWORD || ""
-};
-
-let cachedToken: string | null = null;
-
-async function obterToken(retryCount = 0): Promise<string> {
-  if (cachedToken) {
-    return cachedToken;
-  }
-
-  const MAX_RETRIES = 3;
-  const RETRY_DELAY = 1000;
-
-  try {
-    const resposta = await axios.post(ENDPOINT_LOGIN, {}, {
-      headers: LOGIN_HEADERS,
-      timeout: 10000
-    });
-
-    const token = resposta.data.bearerToken || resposta.data.token;
-
-    if (!token) {
-      throw new Error("Token não encontrado na resposta de login.");
-    }
-
-    cachedToken = token;
-    return token;
-
-  } catch (erro: any) {
-    if (erro.response?.status === 500 && retryCount < MAX_RETRIES) {
-      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * (retryCount + 1)));
-      return obterToken(retryCount + 1);
-    }
-
-    cachedToken = null;
-
-    if (erro.response?.status === 500) {
-      throw new Error("Serviço Sankhya temporariamente indisponível.");
-    }
-
-    throw new Error(`Falha na autenticação Sankhya: ${erro.response?.data?.error || erro.message}`);
-  }
-}
-
-async function fazerRequisicaoAutenticada(fullUrl: string, method = 'POST', data = {}, retryCount = 0) {
-  const MAX_RETRIES = 2;
-  const RETRY_DELAY = 1000;
-
-  try {
-    const token = await obterToken();
-
-    const config = {
-      method: method.toLowerCase(),
-      url: fullUrl,
-      data: data,
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json',
-        'Accept': 'application/json'
-      },
-      timeout: 15000
-    };
-
-    const resposta = await axios(config);
-    return resposta.data;
-
-  } catch (erro: any) {
-    if (erro.response && (erro.response.status === 401 || erro.response.status === 403)) {
-      cachedToken = null;
-
-      if (retryCount < 1) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-        return fazerRequisicaoAutenticada(fullUrl, method, data, retryCount + 1);
-      }
-
-      throw new Error("Sessão expirada. Tente novamente.");
-    }
-
-    if ((erro.code === 'ECONNABORTED' || erro.code === 'ENOTFOUND' || erro.response?.status >= 500) && retryCount < MAX_RETRIES) {
-      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * (retryCount + 1)));
-      return fazerRequisicaoAutenticada(fullUrl, method, data, retryCount + 1);
-    }
-
-    const errorDetails = erro.response?.data || erro.message;
-    console.error("❌ Erro na requisição Sankhya:", {
-      url: fullUrl,
-      method,
-      error: errorDetails
-    });
-
-    throw new Error(erro.response?.data?.statusMessage || erro.message || "Erro na comunicação com o servidor");
-  }
-}
-
 // Criar Pedido de Venda usando a nova API
 export async function criarPedidoVenda(pedido: PedidoVenda) {
   try {
@@ -233,7 +132,7 @@ export async function criarPedidoVenda(pedido: PedidoVenda) {
     console.log(JSON.stringify(PEDIDO_PAYLOAD, null, 2));
 
     const resposta = await fazerRequisicaoAutenticada(
-      URL_PEDIDOS_VENDA,
+      urlApi("/v1/vendas/pedidos"),
       'POST',
       PEDIDO_PAYLOAD
     );
@@ -0,0 +1,183 @@
+import { NextResponse } from 'next/server';
+import type { User } from './types';
+
+// Mapa declarativo de permissões das rotas de API: rota -> método -> perfis permitidos.
+// Sem dependências de Node para poder ser usado também no middleware (edge).
+
+export type Perfil = User['role'];
+export type MetodoHttp = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+export const PERFIS: Perfil[] = ['Administrador', 'Gerente', 'Vendedor', 'Usuário'];
+
+const TODOS = PERFIS;
+const ADMIN: Perfil[] = ['Administrador'];
+
+// Perfis que só entram com autenticação em dois fatores (cadastro exigido no próximo login)
+export const PERFIS_2FA_OBRIGATORIO: Perfil[] = ['Administrador', 'Gerente'];
+
+export function exigeDoisFatores(perfil: Perfil): boolean {
+  return PERFIS_2FA_OBRIGATORIO.includes(perfil);
+}
+
+// Perfis que aprovam a entrada de leads em estágios com aprovação obrigatória (gerente: apenas da equipe)
+export const PERFIS_APROVADORES_ESTAGIO: Perfil[] = ['Administrador', 'Gerente'];
+
+export function podeAprovarEstagio(perfil: Perfil): boolean {
+  return PERFIS_APROVADORES_ESTAGIO.includes(perfil);
+}
+
+// Perfis que reatribuem leads a outro responsável (gerente: apenas dentro da equipe)
+export const PERFIS_GESTORES_LEADS: Perfil[] = ['Administrador', 'Gerente'];
+
+export function podeReatribuirLeads(perfil: Perfil): boolean {
+  return PERFIS_GESTORES_LEADS.includes(perfil);
+}
+
+// Importação em lote segue o mesmo grupo de gestores
+export function podeImportarLeads(perfil: Perfil): boolean {
+  return PERFIS_GESTORES_LEADS.includes(perfil);
+}
+
+// Mesclagem de leads duplicados também fica com os gestores
+export function podeMesclarLeads(perfil: Perfil): boolean {
+  return PERFIS_GESTORES_LEADS.includes(perfil);
+}
+
+// Escopo de visibilidade de leads, atividades, eventos e pedidos:
+// próprio registro, equipe do gerente (Vendedor.CODGER) ou todos
+export type EscopoVisibilidade = 'PROPRIO' | 'EQUIPE' | 'TODOS';
+
+export function escopoVisibilidade(perfil: Perfil): EscopoVisibilidade {
+  if (perfil === 'Administrador') return 'TODOS';
+  if (perfil === 'Gerente') return 'EQUIPE';
+  return 'PROPRIO';
+}
+
+// Rotas acessíveis sem sessão
+export const ROTAS_PUBLICAS = [
+  '/api/auth/login',
+  '/api/auth/logout',
+  '/api/auth/me',
+  '/api/auth/setup',
+  '/api/auth/esqueci-senha',
+  '/api/auth/redefinir-senha',
+  // Segunda etapa do login; cadastro e ativação também aceitam usuário já autenticado
+  '/api/auth/2fa/verificar',
+  '/api/auth/2fa/cadastro',
+  '/api/auth/2fa/ativar',
+  '/api/usuarios/register',
+  // Feed de agenda assinado por apps externos; autenticado pelo token na URL
+  '/api/leads/eventos/feed'
+];
+
+// Rotas com registros de dono (leads, atividades, usuários) também validam propriedade no handler
+export const PERMISSOES_ROTAS: Record<string, Partial<Record<MetodoHttp, Perfil[]>>> = {
+  '/api/auth/trocar-senha': { POST: TODOS },
+  '/api/auth/2fa': { GET: TODOS },
+  '/api/auth/2fa/desativar': { POST: TODOS },
+
+  '/api/auditoria': { GET: ADMIN },
+
+  '/api/cache/clear': { GET: ADMIN, POST: ADMIN },
+  '/api/prefetch': { POST: TODOS },
+
+  '/api/notificacoes': { GET: TODOS },
+  '/api/notificacoes/lidas': { POST: TODOS },
+  '/api/notificacoes/preferencias': { GET: TODOS, POST: TODOS },
+
+  '/api/funis': { GET: TODOS },
+  '/api/funis/salvar': { POST: ADMIN },
+  '/api/funis/deletar': { POST: ADMIN },
+  '/api/funis/metricas': { GET: TODOS },
+  '/api/funis/estagios': { GET: TODOS },
+  '/api/funis/estagios/salvar': { POST: ADMIN },
+  '/api/funis/estagios/deletar': { POST: ADMIN },
+  '/api/funis/permissoes': { GET: ADMIN, POST: ADMIN },
+  '/api/funis/motivos': { GET: TODOS },
+  '/api/funis/motivos/salvar': { POST: ADMIN },
+  '/api/funis/motivos/deletar': { POST: ADMIN },
+
+  '/api/gemini/analise': { POST: TODOS },
+  '/api/gemini/chat': { POST: TODOS },
+
+  '/api/leads': { GET: TODOS },
+  '/api/leads/salvar': { POST: TODOS },
+  '/api/leads/deletar': { POST: TODOS },
+  '/api/leads/status': { POST: TODOS },
+  '/api/leads/reabrir': { POST: TODOS },
+  '/api/leads/reatribuir': { POST: PERFIS_GESTORES_LEADS },
+  '/api/leads/responsaveis': { GET: PERFIS_GESTORES_LEADS },
+  '/api/leads/importar': { POST: PERFIS_GESTORES_LEADS },
+  '/api/leads/importar/confirmar': { POST: PERFIS_GESTORES_LEADS },
+  '/api/leads/exportar': { GET: TODOS },
+  '/api/leads/duplicados': { GET: PERFIS_GESTORES_LEADS },
+  '/api/leads/mesclar': { POST: PERFIS_GESTORES_LEADS },
+  '/api/leads/atualizar-estagio': { POST: TODOS },
+  '/api/leads/aprovacoes-estagio': { GET: PERFIS_APROVADORES_ESTAGIO },
+  '/api/leads/aprovacoes-estagio/decidir': { POST: PERFIS_APROVADORES_ESTAGIO },
+  '/api/leads/eventos': { GET: TODOS },
+  '/api/leads/eventos/ics': { GET: TODOS },
+  '/api/leads/eventos/assinatura': { GET: TODOS, POST: TODOS },
+  '/api/leads/eventos/assinatura/revogar': { POST: TODOS },
+  '/api/leads/historico': { GET: TODOS },
+  '/api/leads/historico-estagios': { GET: TODOS },
+  '/api/leads/previsao': { GET: TODOS },
+  '/api/leads/atividades': { GET: TODOS },
+  '/api/leads/atividades/criar': { POST: TODOS },
+  '/api/leads/atividades/atualizar': { POST: TODOS },
+  '/api/leads/atividades/atualizar-status': { POST: TODOS },
+  '/api/leads/atividades/importar-ics': { POST: TODOS },
+  '/api/leads/produtos': { GET: TODOS },
+  '/api/leads/produtos/adicionar': { POST: TODOS },
+  '/api/leads/produtos/atualizar': { POST: TODOS },
+  '/api/leads/produtos/remover': { POST: TODOS },
+
+  '/api/sankhya/ambiente': { GET: ADMIN },
+  '/api/sankhya/boleto/[nroTitulo]': { GET: TODOS },
+  '/api/sankhya/parceiros': { GET: TODOS },
+  '/api/sankhya/parceiros/complemento': { GET: TODOS },
+  '/api/sankhya/parceiros/salvar': { POST: TODOS },
+  '/api/sankhya/parceiros/search': { GET: TODOS },
+  '/api/sankhya/pedidos': { POST: TODOS },
+  '/api/sankhya/pedidos/listar': { GET: TODOS },
+  '/api/sankhya/produtos': { GET: TODOS },
+  '/api/sankhya/produtos/batch-info': { GET: TODOS },
+  '/api/sankhya/produtos/estoque': { GET: TODOS },
+  '/api/sankhya/produtos/preco': { GET: TODOS },
+  '/api/sankhya/produtos/search': { GET: TODOS },
+  '/api/sankhya/tipos-negociacao': { GET: TODOS, POST: TODOS },
+  '/api/sankhya/titulos-receber': { GET: TODOS },
+
+  '/api/upload/avatar': { POST: TODOS },
+
+  '/api/usuarios': { GET: ADMIN },
+  '/api/usuarios/aprovar': { POST: ADMIN },
+  '/api/usuarios/bloquear': { POST: ADMIN },
+  '/api/usuarios/bloqueios-login': { GET: ADMIN },
+  '/api/usuarios/deletar': { POST: ADMIN },
+  '/api/usuarios/desbloquear-login': { POST: ADMIN },
+  '/api/usuarios/expediente': { GET: TODOS, POST: TODOS },
+  '/api/usuarios/redefinir-2fa': { POST: ADMIN },
+  '/api/usuarios/salvar': { POST: TODOS },
+  '/api/usuarios/senha': { POST: ADMIN },
+
+  '/api/vendedores': { GET: TODOS },
+  '/api/vendedores/criar': { POST: ADMIN }
+};
+
+export function perfisPermitidos(rota: string, metodo: string): Perfil[] {
+  return PERMISSOES_ROTAS[rota]?.[metodo.toUpperCase() as MetodoHttp] || [];
+}
+
+export function ehRotaPublica(pathname: string): boolean {
+  return ROTAS_PUBLICAS.includes(pathname);
+}
+
+// Corpo padrão das negações (mesmo formato em middleware, wrappers e checagens de registro)
+export function naoAutenticado(mensagem: string = 'Não autenticado') {
+  return NextResponse.json({ error: mensagem, codigo: 'NAO_AUTENTICADO' }, { status: 401 });
+}
+
+export function acessoNegado(mensagem: string = 'Acesso negado') {
+  return NextResponse.json({ error: mensagem, codigo: 'ACESSO_NEGADO' }, { status: 403 });
+}
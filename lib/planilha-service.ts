@@ -0,0 +1,482 @@
+import { inflateRawSync, deflateRawSync } from 'zlib';
+
+// Leitura e geração de planilhas (CSV e XLSX) sem dependências externas.
+// A leitura retorna apenas texto: a conversão de tipos fica com quem consome (ex.: ./importacao-leads)
+
+export interface Planilha {
+  cabecalho: string[]
+  // Número da linha na planilha (1 = primeira linha) para o usuário localizar erros
+  linhas: { linha: number; valores: string[] }[]
+}
+
+export const EXTENSOES_PLANILHA = ['.csv', '.xlsx'];
+
+export function lerPlanilha(nomeArquivo: string, conteudo: Buffer): Planilha {
+  const nome = nomeArquivo.toLowerCase();
+
+  if (nome.endsWith('.csv')) {
+    return separarCabecalho(lerCsv(decodificarTexto(conteudo)));
+  }
+
+  if (nome.endsWith('.xlsx')) {
+    return separarCabecalho(lerXlsx(conteudo));
+  }
+
+  throw new Error('Formato não suportado. Envie um arquivo .csv ou .xlsx');
+}
+
+function separarCabecalho(tabela: string[][]): Planilha {
+  // Linhas totalmente vazias (comuns no fim de planilhas) são descartadas sem perder a numeração
+  const linhas = tabela
+    .map((valores, i) => ({ linha: i + 1, valores }))
+    .filter(({ valores }) => valores.some(celula => celula.trim() !== ''));
+  const [cabecalho, ...dados] = linhas;
+
+  return {
+    cabecalho: (cabecalho?.valores || []).map(coluna => coluna.trim()),
+    linhas: dados
+  };
+}
+
+// ========== CSV ==========
+
+// Excel em português exporta CSV em Windows-1252; UTF-8 inválido indica essa codificação
+function decodificarTexto(conteudo: Buffer): string {
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(conteudo).replace(/^\uFEFF/, '');
+  } catch {
+    return new TextDecoder('windows-1252').decode(conteudo);
+  }
+}
+
+// Separador detectado pela primeira linha: ";" (padrão do Excel pt-BR), "," ou tabulação
+function detectarSeparador(texto: string): string {
+  const primeiraLinha = texto.split(/\r?\n/, 1)[0] || '';
+  const candidatos = [';', ',', '\t'];
+  return candidatos.reduce((melhor, atual) =>
+    primeiraLinha.split(atual).length > primeiraLinha.split(melhor).length ? atual : melhor
+  );
+}
+
+function lerCsv(texto: string): string[][] {
+  const separador = detectarSeparador(texto);
+  const linhas: string[][] = [];
+  let linha: string[] = [];
+  let celula = '';
+  let entreAspas = false;
+
+  for (let i = 0; i < texto.length; i++) {
+    const caractere = texto[i];
+
+    if (entreAspas) {
+      if (caractere === '"' && texto[i + 1] === '"') {
+        celula += '"';
+        i++;
+      } else if (caractere === '"') {
+        entreAspas = false;
+      } else {
+        celula += caractere;
+      }
+      continue;
+    }
+
+    if (caractere === '"') {
+      entreAspas = true;
+    } else if (caractere === separador) {
+      linha.push(celula);
+      celula = '';
+    } else if (caractere === '\n' || caractere === '\r') {
+      if (caractere === '\r' && texto[i + 1] === '\n') i++;
+      linha.push(celula);
+      linhas.push(linha);
+      linha = [];
+      celula = '';
+    } else {
+      celula += caractere;
+    }
+  }
+
+  if (celula !== '' || linha.length > 0) {
+    linha.push(celula);
+    linhas.push(linha);
+  }
+
+  return linhas;
+}
+
+// ========== XLSX ==========
+
+// Limite de cada XML descompactado: o upload tem no máximo 5MB, mas um ZIP pequeno pode declarar
+// (ou esconder) gigabytes de dados repetidos
+const MAX_TAMANHO_ENTRADA_XLSX = 50 * 1024 * 1024;
+
+// Limites do formato (Excel): linhas e referências de célula vêm do arquivo e definem quanto
+// preenchimento vazio é alocado, então valores fora deles são recusados
+const MAX_LINHAS_XLSX = 1048576;
+const MAX_COLUNAS_XLSX = 16384;
+
+interface EntradaZip {
+  metodo: number
+  inicioDados: number
+  tamanhoCompactado: number
+  tamanhoDescompactado: number
+}
+
+// Arquivo XLSX é um ZIP com XMLs; lemos o diretório central para localizar cada entrada.
+// Nada é descompactado aqui: só as entradas que o leitor usa passam por lerEntradaZip
+function lerZip(conteudo: Buffer): Map<string, EntradaZip> {
+  const entradas = new Map<string, EntradaZip>();
+
+  // Fim do diretório central: assinatura 0x06054b50 nos últimos bytes (após comentário opcional)
+  let fim = -1;
+  for (let i = conteudo.length - 22; i >= Math.max(0, conteudo.length - 65557); i--) {
+    if (conteudo.readUInt32LE(i) === 0x06054b50) {
+      fim = i;
+      break;
+    }
+  }
+  if (fim < 0) {
+    throw new Error('Arquivo XLSX inválido ou corrompido');
+  }
+
+  const totalEntradas = conteudo.readUInt16LE(fim + 10);
+  let posicao = conteudo.readUInt32LE(fim + 16);
+
+  for (let i = 0; i < totalEntradas; i++) {
+    if (conteudo.readUInt32LE(posicao) !== 0x02014b50) break;
+
+    const metodo = conteudo.readUInt16LE(posicao + 10);
+    const tamanhoCompactado = conteudo.readUInt32LE(posicao + 20);
+    const tamanhoDescompactado = conteudo.readUInt32LE(posicao + 24);
+    const tamanhoNome = conteudo.readUInt16LE(posicao + 28);
+    const tamanhoExtra = conteudo.readUInt16LE(posicao + 30);
+    const tamanhoComentario = conteudo.readUInt16LE(posicao + 32);
+    const inicioLocal = conteudo.readUInt32LE(posicao + 42);
+    const nome = conteudo.toString('utf8', posicao + 46, posicao + 46 + tamanhoNome);
+
+    // Cabeçalho local tem nome/extra próprios antes dos dados
+    const inicioDados = inicioLocal + 30 + conteudo.readUInt16LE(inicioLocal + 26) + conteudo.readUInt16LE(inicioLocal + 28);
+    entradas.set(nome, { metodo, inicioDados, tamanhoCompactado, tamanhoDescompactado });
+
+    posicao += 46 + tamanhoNome + tamanhoExtra + tamanhoComentario;
+  }
+
+  return entradas;
+}
+
+// Tamanho declarado acima do limite é recusado antes de descompactar; maxOutputLength protege
+// contra entradas que declaram um tamanho menor que o real
+function lerEntradaZip(conteudo: Buffer, entradas: Map<string, EntradaZip>, nome: string): string | undefined {
+  const entrada = entradas.get(nome);
+  if (!entrada) return undefined;
+
+  if (entrada.tamanhoDescompactado > MAX_TAMANHO_ENTRADA_XLSX) {
+    throw new Error('Arquivo XLSX muito grande depois de descompactado');
+  }
+
+  const dados = conteudo.subarray(entrada.inicioDados, entrada.inicioDados + entrada.tamanhoCompactado);
+  if (entrada.metodo === 0) {
+    return dados.toString('utf8');
+  }
+  if (entrada.metodo !== 8) {
+    throw new Error('Arquivo XLSX com compactação não suportada');
+  }
+
+  try {
+    return inflateRawSync(dados, { maxOutputLength: MAX_TAMANHO_ENTRADA_XLSX }).toString('utf8');
+  } catch (erro: any) {
+    if (erro?.code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error('Arquivo XLSX muito grande depois de descompactado');
+    }
+    throw new Error('Arquivo XLSX inválido ou corrompido');
+  }
+}
+
+function decodificarXml(texto: string): string {
+  return texto
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+// Concatena os trechos <t> (texto com formatação rica vem dividido em vários <r><t>)
+function textoDoNo(xml: string): string {
+  const semFonetica = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  const trechos = semFonetica.match(/<t\b[^>]*>[\s\S]*?<\/t>/g) || [];
+  return trechos.map(trecho => decodificarXml(trecho.replace(/^<t\b[^>]*>|<\/t>$/g, ''))).join('');
+}
+
+// Índice da coluna a partir da referência da célula ("C12" -> 2)
+function indiceColuna(referencia: string): number {
+  const letras = referencia.replace(/[^A-Z]/gi, '').toUpperCase();
+  let indice = 0;
+  for (const letra of letras) {
+    indice = indice * 26 + (letra.charCodeAt(0) - 64);
+  }
+  return indice - 1;
+}
+
+// Caminho da primeira aba do workbook (ordem das abas, não ordem dos arquivos no ZIP)
+function caminhoPrimeiraAba(conteudo: Buffer, entradas: Map<string, EntradaZip>): string | null {
+  const workbook = lerEntradaZip(conteudo, entradas, 'xl/workbook.xml');
+  const relacoes = lerEntradaZip(conteudo, entradas, 'xl/_rels/workbook.xml.rels');
+
+  const idRelacao = workbook?.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1];
+  if (idRelacao && relacoes) {
+    // Id vem do arquivo enviado: comparado como texto, nunca interpolado em expressão regular
+    const relacao = (relacoes.match(/<Relationship\b[^>]*>/g) || [])
+      .find(tag => tag.match(/\bId="([^"]+)"/)?.[1] === idRelacao);
+    const destino = relacao?.match(/\bTarget="([^"]+)"/)?.[1];
+    if (destino) {
+      return destino.startsWith('/') ? destino.slice(1) : `xl/${destino.replace(/^\.\//, '')}`;
+    }
+  }
+
+  const abas = Array.from(entradas.keys()).filter(nome => /^xl\/worksheets\/[^/]+\.xml$/.test(nome)).sort();
+  return abas[0] || null;
+}
+
+function lerXlsx(conteudo: Buffer): string[][] {
+  const entradas = lerZip(conteudo);
+  const caminhoAba = caminhoPrimeiraAba(conteudo, entradas);
+  const aba = caminhoAba ? lerEntradaZip(conteudo, entradas, caminhoAba) : undefined;
+
+  if (!aba) {
+    throw new Error('Nenhuma aba encontrada no arquivo XLSX');
+  }
+
+  const textosCompartilhados = (lerEntradaZip(conteudo, entradas, 'xl/sharedStrings.xml')?.match(/<si\b[\s\S]*?<\/si>/g) || [])
+    .map(textoDoNo);
+
+  const linhas: string[][] = [];
+  const xmlLinhas = aba.match(/<row\b[^>]*?(?:\/>|>[\s\S]*?<\/row>)/g) || [];
+
+  for (const xmlLinha of xmlLinhas) {
+    // Linhas vazias entre dados são omitidas no XML; o atributo r mantém a numeração
+    const numero = Number(xmlLinha.match(/^<row\b[^>]*\br="(\d+)"/)?.[1] || linhas.length + 1);
+    if (numero > MAX_LINHAS_XLSX) {
+      throw new Error(`Arquivo XLSX inválido: linha ${numero} além do limite de ${MAX_LINHAS_XLSX}`);
+    }
+    while (linhas.length < numero - 1) linhas.push([]);
+
+    const linha: string[] = [];
+    const celulas = xmlLinha.match(/<c\b[^>]*?(?:\/>|>[\s\S]*?<\/c>)/g) || [];
+
+    for (const celula of celulas) {
+      const atributos = celula.match(/^<c\b([^>]*?)\/?>/)?.[1] || '';
+      const referencia = atributos.match(/\br="([^"]+)"/)?.[1];
+      const tipo = atributos.match(/\bt="([^"]+)"/)?.[1];
+      const valor = celula.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+
+      let texto = '';
+      if (tipo === 's' && valor !== undefined) {
+        texto = textosCompartilhados[Number(valor)] ?? '';
+      } else if (tipo === 'inlineStr') {
+        texto = textoDoNo(celula.match(/<is>([\s\S]*?)<\/is>/)?.[1] || '');
+      } else if (valor !== undefined) {
+        texto = decodificarXml(valor);
+      }
+
+      const indice = referencia ? indiceColuna(referencia) : linha.length;
+      if (indice >= MAX_COLUNAS_XLSX) {
+        throw new Error(`Arquivo XLSX inválido: coluna além do limite de ${MAX_COLUNAS_XLSX}`);
+      }
+      while (linha.length < indice) linha.push('');
+      linha[indice] = texto;
+    }
+
+    linhas.push(linha);
+  }
+
+  return linhas;
+}
+
+// ========== Geração ==========
+
+// Células numéricas viram números no XLSX (somáveis no Excel); no CSV saem no formato pt-BR
+export type CelulaPlanilha = string | number | null | undefined;
+
+// CSV com ";" e BOM para abrir direto no Excel em português.
+// Texto que começa com =, +, -, @, tab ou CR seria executado como fórmula pelo Excel: recebe um ' na frente
+export function gerarCsv(cabecalho: string[], linhas: CelulaPlanilha[][]): Buffer {
+  const escapar = (valor: CelulaPlanilha) => {
+    const texto = typeof valor === 'number'
+      ? String(valor).replace('.', ',')
+      : String(valor ?? '').replace(/^[=+\-@\t\r]/, "'$&");
+    return /[";\n\r]/.test(texto) ? `"${texto.replace(/"/g, '""')}"` : texto;
+  };
+
+  const conteudo = [cabecalho, ...linhas].map(linha => linha.map(escapar).join(';')).join('\r\n');
+  return Buffer.from('\uFEFF' + conteudo, 'utf8');
+}
+
+function escaparXml(texto: string): string {
+  return texto
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Caracteres de controle são inválidos em XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '');
+}
+
+function referenciaColuna(indice: number): string {
+  let referencia = '';
+  for (let n = indice + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    referencia = String.fromCharCode(65 + ((n - 1) % 26)) + referencia;
+  }
+  return referencia;
+}
+
+const TABELA_CRC32 = (() => {
+  const tabela = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    tabela[n] = c >>> 0;
+  }
+  return tabela;
+})();
+
+function crc32(dados: Buffer): number {
+  let crc = 0xffffffff;
+  for (const byte of dados) crc = TABELA_CRC32[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function gerarZip(arquivos: { nome: string; conteudo: string }[]): Buffer {
+  const locais: Buffer[] = [];
+  const central: Buffer[] = [];
+  let deslocamento = 0;
+
+  for (const arquivo of arquivos) {
+    const nome = Buffer.from(arquivo.nome, 'utf8');
+    const dados = Buffer.from(arquivo.conteudo, 'utf8');
+    const compactado = deflateRawSync(dados);
+    const crc = crc32(dados);
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(0x0800, 6); // nomes em UTF-8
+    local.writeUInt16LE(8, 8); // deflate
+    local.writeUInt32LE(crc, 14);
+    local.writeUInt32LE(compactado.length, 18);
+    local.writeUInt32LE(dados.length, 22);
+    local.writeUInt16LE(nome.length, 26);
+
+    const entrada = Buffer.alloc(46);
+    entrada.writeUInt32LE(0x02014b50, 0);
+    entrada.writeUInt16LE(20, 4);
+    entrada.writeUInt16LE(20, 6);
+    entrada.writeUInt16LE(0x0800, 8);
+    entrada.writeUInt16LE(8, 10);
+    entrada.writeUInt32LE(crc, 16);
+    entrada.writeUInt32LE(compactado.length, 20);
+    entrada.writeUInt32LE(dados.length, 24);
+    entrada.writeUInt16LE(nome.length, 28);
+    entrada.writeUInt32LE(deslocamento, 42);
+
+    locais.push(local, nome, compactado);
+    central.push(entrada, nome);
+    deslocamento += local.length + nome.length + compactado.length;
+  }
+
+  const diretorio = Buffer.concat(central);
+  const fim = Buffer.alloc(22);
+  fim.writeUInt32LE(0x06054b50, 0);
+  fim.writeUInt16LE(arquivos.length, 8);
+  fim.writeUInt16LE(arquivos.length, 10);
+  fim.writeUInt32LE(diretorio.length, 12);
+  fim.writeUInt32LE(deslocamento, 16);
+
+  return Buffer.concat([...locais, diretorio, fim]);
+}
+
+// XLSX mínimo de uma aba: cabeçalho em negrito, textos inline e números como números
+export function gerarXlsx(cabecalho: string[], linhas: CelulaPlanilha[][], nomeAba: string = 'Planilha'): Buffer {
+  const celula = (valor: CelulaPlanilha, referencia: string, estilo: number) => {
+    if (typeof valor === 'number' && Number.isFinite(valor)) {
+      return `<c r="${referencia}" s="${estilo}"><v>${valor}</v></c>`;
+    }
+    const texto = String(valor ?? '');
+    return texto
+      ? `<c r="${referencia}" t="inlineStr" s="${estilo}"><is><t xml:space="preserve">${escaparXml(texto)}</t></is></c>`
+      : '';
+  };
+
+  const linhasXml = [cabecalho, ...linhas].map((linha, i) => {
+    const estilo = i === 0 ? 1 : 0;
+    const celulas = linha.map((valor, j) => celula(valor, `${referenciaColuna(j)}${i + 1}`, estilo)).join('');
+    return `<row r="${i + 1}">${celulas}</row>`;
+  }).join('');
+
+  // Largura das colunas pelo maior conteúdo (limitada), como o "autoajuste" do Excel
+  const larguras = cabecalho.map((titulo, j) => Math.min(60, Math.max(
+    titulo.length,
+    ...linhas.slice(0, 500).map(linha => String(linha[j] ?? '').length)
+  ) + 2));
+  const colunasXml = larguras.map((largura, j) => `<col min="${j + 1}" max="${j + 1}" width="${largura}" customWidth="1"/>`).join('');
+
+  const aba = escaparXml(nomeAba.replace(/[\\/?*\[\]:]/g, ' ').slice(0, 31));
+
+  return gerarZip([
+    {
+      nome: '[Content_Types].xml',
+      conteudo: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+        + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+        + '<Default Extension="xml" ContentType="application/xml"/>'
+        + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+        + '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>'
+        + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+        + '</Types>'
+    },
+    {
+      nome: '_rels/.rels',
+      conteudo: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+        + '</Relationships>'
+    },
+    {
+      nome: 'xl/workbook.xml',
+      conteudo: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+        + `<sheets><sheet name="${aba}" sheetId="1" r:id="rId1"/></sheets>`
+        + '</workbook>'
+    },
+    {
+      nome: 'xl/_rels/workbook.xml.rels',
+      conteudo: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+        + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>'
+        + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>'
+        + '</Relationships>'
+    },
+    {
+      nome: 'xl/styles.xml',
+      conteudo: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+        + '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>'
+        + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+        + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+        + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+        + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>'
+        + '</styleSheet>'
+    },
+    {
+      nome: 'xl/worksheets/sheet1.xml',
+      conteudo: '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>'
+        + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+        + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+        + `<cols>${colunasXml}</cols>`
+        + `<sheetData>${linhasXml}</sheetData>`
+        + '</worksheet>'
+    }
+  ]);
+}
@@ -0,0 +1,222 @@
+import { consultarEstagiosFunil, type EstagioFunil, type Funil } from './funis-service';
+import { lerDataHoraSankhya } from './historico-estagios-service';
+import { probabilidadeDoLead, categoriaPrevisao, type CategoriaPrevisao } from './probabilidade-estagio';
+import type { Lead } from './leads-service';
+
+// Previsão de receita dos leads em andamento pelo mês previsto de fechamento (DATA_VENCIMENTO),
+// agrupada por mês, vendedor e funil. O valor ponderado aplica a probabilidade do lead/estágio
+// e cada lead entra em uma categoria (commit, melhor cenário, pipeline) pela probabilidade.
+
+export interface FiltroPrevisao {
+  mesInicio: string // YYYY-MM
+  mesFim: string // YYYY-MM
+}
+
+export interface TotaisPrevisao {
+  quantidade: number
+  valor: number
+  valorPonderado: number
+}
+
+export interface LinhaPrevisao {
+  chave: string
+  rotulo: string
+  categorias: Record<CategoriaPrevisao, TotaisPrevisao>
+  total: TotaisPrevisao
+  // Valor dos leads ganhos no período (no mês, para as linhas por mês)
+  realizado: number
+}
+
+export interface LeadPrevisao {
+  CODLEAD: string
+  NOME: string
+  VALOR: number
+  CODUSUARIO?: number
+  CODFUNIL: string
+  mes: string
+  probabilidade: number
+  categoria: CategoriaPrevisao
+  valorPonderado: number
+}
+
+export interface PrevisaoVendas {
+  filtro: FiltroPrevisao
+  meses: LinhaPrevisao[]
+  vendedores: LinhaPrevisao[]
+  funis: LinhaPrevisao[]
+  totais: LinhaPrevisao
+  // Leads em andamento com fechamento previsto antes do período ou sem data
+  atrasados: TotaisPrevisao
+  semData: TotaisPrevisao
+  leads: LeadPrevisao[]
+}
+
+interface NomesPrevisao {
+  usuarios: Map<number, string>
+  funis: Map<string, string>
+}
+
+const MESES = ['Jan', 'Fev', 'Mar', 'Abr', 'Mai', 'Jun', 'Jul', 'Ago', 'Set', 'Out', 'Nov', 'Dez'];
+
+const totaisVazios = (): TotaisPrevisao => ({ quantidade: 0, valor: 0, valorPonderado: 0 });
+
+function novaLinha(chave: string, rotulo: string): LinhaPrevisao {
+  return {
+    chave,
+    rotulo,
+    categorias: { COMMIT: totaisVazios(), MELHOR_CENARIO: totaisVazios(), PIPELINE: totaisVazios() },
+    total: totaisVazios(),
+    realizado: 0
+  };
+}
+
+function somar(totais: TotaisPrevisao, valor: number, valorPonderado: number) {
+  totais.quantidade++;
+  totais.valor += valor;
+  totais.valorPonderado = Math.round((totais.valorPonderado + valorPonderado) * 100) / 100;
+}
+
+function adicionar(linha: LinhaPrevisao, lead: LeadPrevisao) {
+  somar(linha.categorias[lead.categoria], lead.VALOR, lead.valorPonderado);
+  somar(linha.total, lead.VALOR, lead.valorPonderado);
+}
+
+function mesDaData(data: Date | null): string | null {
+  return data ? `${data.getFullYear()}-${String(data.getMonth() + 1).padStart(2, '0')}` : null;
+}
+
+// Meses do intervalo, inclusive (YYYY-MM)
+export function mesesDoPeriodo(filtro: FiltroPrevisao): string[] {
+  const [anoInicio, mesInicio] = filtro.mesInicio.split('-').map(Number);
+  const [anoFim, mesFim] = filtro.mesFim.split('-').map(Number);
+  const meses: string[] = [];
+
+  for (let data = new Date(anoInicio, mesInicio - 1, 1); data <= new Date(anoFim, mesFim - 1, 1); data.setMonth(data.getMonth() + 1)) {
+    meses.push(mesDaData(data)!);
+  }
+  return meses;
+}
+
+export function rotuloMes(mes: string): string {
+  const [ano, numero] = mes.split('-');
+  return `${MESES[Number(numero) - 1]}/${ano}`;
+}
+
+export function calcularPrevisao(
+  leads: Lead[],
+  estagiosPorFunil: Map<string, EstagioFunil[]>,
+  nomes: NomesPrevisao,
+  filtro: FiltroPrevisao
+): PrevisaoVendas {
+  const meses = mesesDoPeriodo(filtro);
+  const porMes = new Map(meses.map(mes => [mes, novaLinha(mes, rotuloMes(mes))]));
+  const porVendedor = new Map<string, LinhaPrevisao>();
+  const porFunil = new Map<string, LinhaPrevisao>();
+  const totais = novaLinha('TOTAL', 'Total');
+  const atrasados = totaisVazios();
+  const semData = totaisVazios();
+  const previstos: LeadPrevisao[] = [];
+
+  const linhaVendedor = (codUsuario?: number) => {
+    const chave = String(codUsuario ?? '');
+    if (!porVendedor.has(chave)) {
+      porVendedor.set(chave, novaLinha(chave, (codUsuario && nomes.usuarios.get(Number(codUsuario))) || 'Sem responsável'));
+    }
+    return porVendedor.get(chave)!;
+  };
+
+  const linhaFunil = (codFunil: string) => {
+    if (!porFunil.has(codFunil)) {
+      porFunil.set(codFunil, novaLinha(codFunil, nomes.funis.get(codFunil) || codFunil));
+    }
+    return porFunil.get(codFunil)!;
+  };
+
+  for (const lead of leads) {
+    const valor = Number(lead.VALOR) || 0;
+    const codFunil = String(lead.CODFUNIL);
+
+    // Realizado: ganhos com conclusão dentro do período
+    if (lead.STATUS_LEAD === 'GANHO') {
+      const linhaMes = porMes.get(mesDaData(lerDataHoraSankhya(lead.DATA_CONCLUSAO)) || '');
+      if (linhaMes) {
+        linhaMes.realizado += valor;
+        linhaVendedor(lead.CODUSUARIO).realizado += valor;
+        linhaFunil(codFunil).realizado += valor;
+        totais.realizado += valor;
+      }
+      continue;
+    }
+
+    if (lead.STATUS_LEAD === 'PERDIDO') continue;
+
+    const probabilidade = probabilidadeDoLead(lead, estagiosPorFunil.get(codFunil) || []);
+    const valorPonderado = Math.round(valor * probabilidade) / 100;
+    const mes = mesDaData(lerDataHoraSankhya(lead.DATA_VENCIMENTO));
+
+    if (!mes) {
+      somar(semData, valor, valorPonderado);
+      continue;
+    }
+
+    if (mes < filtro.mesInicio) {
+      somar(atrasados, valor, valorPonderado);
+      continue;
+    }
+
+    const linhaMes = porMes.get(mes);
+    if (!linhaMes) continue;
+
+    const previsto: LeadPrevisao = {
+      CODLEAD: lead.CODLEAD,
+      NOME: lead.NOME,
+      VALOR: valor,
+      CODUSUARIO: lead.CODUSUARIO,
+      CODFUNIL: codFunil,
+      mes,
+      probabilidade,
+      categoria: categoriaPrevisao(probabilidade),
+      valorPonderado
+    };
+
+    previstos.push(previsto);
+    adicionar(linhaMes, previsto);
+    adicionar(linhaVendedor(lead.CODUSUARIO), previsto);
+    adicionar(linhaFunil(codFunil), previsto);
+    adicionar(totais, previsto);
+  }
+
+  const porValorPonderado = (a: LinhaPrevisao, b: LinhaPrevisao) => b.total.valorPonderado - a.total.valorPonderado;
+
+  return {
+    filtro,
+    meses: Array.from(porMes.values()),
+    vendedores: Array.from(porVendedor.values()).sort(porValorPonderado),
+    funis: Array.from(porFunil.values()).sort(porValorPonderado),
+    totais,
+    atrasados,
+    semData,
+    leads: previstos.sort((a, b) => a.mes.localeCompare(b.mes) || b.valorPonderado - a.valorPonderado)
+  };
+}
+
+// leads: já restritos ao escopo do usuário e aos filtros de funil/vendedor
+export async function buscarPrevisao(
+  leads: Lead[],
+  funis: Funil[],
+  usuarios: { id: number; name: string }[],
+  filtro: FiltroPrevisao
+): Promise<PrevisaoVendas> {
+  const codFunis = Array.from(new Set(leads.map(l => String(l.CODFUNIL)).filter(Boolean)));
+  const estagios = await Promise.all(codFunis.map(cod => consultarEstagiosFunil(cod)));
+
+  return calcularPrevisao(
+    leads,
+    new Map(codFunis.map((cod, i) => [cod, estagios[i]])),
+    {
+      usuarios: new Map(usuarios.map(u => [u.id, u.name])),
+      funis: new Map(funis.map(f => [String(f.CODFUNIL), f.NOME]))
+    },
+    filtro
+  );
+}
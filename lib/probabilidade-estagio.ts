@@ -0,0 +1,48 @@
+import type { EstagioFunil } from './funis-service';
+import type { Lead } from './leads-service';
+
+// Probabilidade de ganho usada na previsão de vendas e no pipeline ponderado.
+// Ordem de precedência: valor informado no lead, valor configurado no estágio e,
+// para estágios sem configuração, a posição do estágio no funil (último = 100%).
+
+export type CategoriaPrevisao = 'COMMIT' | 'MELHOR_CENARIO' | 'PIPELINE';
+
+// Faixas mínimas de probabilidade de cada categoria
+export const LIMITE_COMMIT = 80;
+export const LIMITE_MELHOR_CENARIO = 50;
+
+export const ROTULOS_CATEGORIAS: Record<CategoriaPrevisao, string> = {
+  COMMIT: 'Commit',
+  MELHOR_CENARIO: 'Melhor cenário',
+  PIPELINE: 'Pipeline'
+};
+
+function percentualValido(valor: unknown): number | null {
+  if (valor === undefined || valor === null || valor === '') return null;
+  const numero = Number(valor);
+  return Number.isFinite(numero) ? Math.min(100, Math.max(0, Math.round(numero))) : null;
+}
+
+export function probabilidadeDoEstagio(estagio: Partial<EstagioFunil> | undefined, estagios: Partial<EstagioFunil>[]): number {
+  if (!estagio) return 0;
+
+  const configurada = percentualValido(estagio.PROBABILIDADE);
+  if (configurada !== null) return configurada;
+
+  const ordenados = [...estagios].sort((a, b) => Number(a.ORDEM) - Number(b.ORDEM));
+  const posicao = ordenados.findIndex(e => String(e.CODESTAGIO) === String(estagio.CODESTAGIO));
+  return posicao < 0 ? 0 : Math.round(((posicao + 1) / ordenados.length) * 100);
+}
+
+export function probabilidadeDoLead(lead: Partial<Lead>, estagios: Partial<EstagioFunil>[]): number {
+  const informada = percentualValido(lead.PROBABILIDADE);
+  if (informada !== null) return informada;
+
+  return probabilidadeDoEstagio(estagios.find(e => String(e.CODESTAGIO) === String(lead.CODESTAGIO)), estagios);
+}
+
+export function categoriaPrevisao(probabilidade: number): CategoriaPrevisao {
+  if (probabilidade >= LIMITE_COMMIT) return 'COMMIT';
+  if (probabilidade >= LIMITE_MELHOR_CENARIO) return 'MELHOR_CENARIO';
+  return 'PIPELINE';
+}
@@ -1,6 +1,7 @@
-import axios from 'axios';
 import { cacheService } from './cache-service'; // Assuming this is for in-memory cache if needed
 import { redisCacheService } from './redis-cache-service'; // Assuming this is your Redis cache service
+import { fazerRequisicaoAutenticada, loadRecords, urlApi } from './sankhya-gateway';
+import { montarCriteria, eq, inteiro, like, type Condicao } from './sankhya-criteria';
 
 // Cache de requisições em andamento para evitar duplicatas
 const pendingRequests = new Map<string, Promise<any>>();
@@ -46,122 +47,6 @@ export interface Estoque {
   _id: string
 }
 
-const ENDPOINT_LOGIN = "https://api.sandbox.sankhya.com.br/login";
-const URL_CONSULTA_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=CRUDServiceProvider.loadRecords&outputType=json";
-
-const LOGIN_HEADERS = {
-  'token': process.env.SANKHYA_TOKEN || "",
-  'appkey': process.env.SANKHYA_APPKEY || "",
-  'username': process.env.SANKHYA_USERNAME || "",
-  'password': process.env.SANKHYA_PASSWORD || ""
-};
-
-let cachedToken: string | null = null;
-
-// Obter Token
-async function obterToken(retryCount = 0, silent = false): Promise<string> {
-  if (cachedToken) {
-    return cachedToken;
-  }
-
-  const MAX_RETRIES = 3;
-  const RETRY_DELAY = 1000;
-
-  try {
-    const resposta = await axios.post(ENDPOINT_LOGIN, {}, {
-      headers: LOGIN_HEADERS,
-      timeout: 10000
-    });
-
-    const token = resposta.data.bearerToken || resposta.data.token;
-
-    if (!token) {
-      throw new Error("Resposta de login do Sankhya não continha o token esperado.");
-    }
-
-    cachedToken = token;
-    return token;
-
-  } catch (erro: any) {
-    if (erro.response?.status === 500 && retryCount < MAX_RETRIES) {
-      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * (retryCount + 1)));
-      return obterToken(retryCount + 1, silent);
-    }
-
-    cachedToken = null;
-
-    if (erro.response?.status === 500) {
-      throw new Error("Serviço Sankhya temporariamente indisponível. Tente novamente em instantes.");
-    }
-
-    throw new Error(`Falha na autenticação Sankhya: ${erro.response?.data?.error || erro.message}`);
-  }
-}
-
-// Requisição Autenticada Genérica
-async function fazerRequisicaoAutenticada(fullUrl: string, method = 'POST', data = {}, retryCount = 0) {
-  const MAX_RETRIES = 2;
-  const RETRY_DELAY = 1000;
-
-  // Utiliza o dedupedRequest para evitar requisições duplicadas
-  const requestKey = `${method}:${fullUrl}:${JSON.stringify(data)}`;
-  return dedupedRequest(requestKey, async () => {
-    try {
-      const token = await obterToken();
-
-      const config = {
-        method: method.toLowerCase(),
-        url: fullUrl,
-        data: data,
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        timeout: 15000
-      };
-
-      const resposta = await axios(config);
-      return resposta.data;
-
-    } catch (erro: any) {
-      if (erro.response && (erro.response.status === 401 || erro.response.status === 403)) {
-        cachedToken = null;
-
-        if (retryCount < 1) {
-          console.log("🔄 Token expirado, obtendo novo token...");
-          await new Promise(resolve => setTimeout(resolve, 500));
-          return fazerRequisicaoAutenticada(fullUrl, method, data, retryCount + 1);
-        }
-
-        throw new Error("Sessão expirada. Tente novamente.");
-      }
-
-      if ((erro.code === 'ECONNABORTED' || erro.code === 'ENOTFOUND' || erro.response?.status >= 500) && retryCount < MAX_RETRIES) {
-        console.log(`🔄 Tentando novamente requisição (${retryCount + 1}/${MAX_RETRIES})...`);
-        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * (retryCount + 1)));
-        return fazerRequisicaoAutenticada(fullUrl, method, data, retryCount + 1);
-      }
-
-      const errorDetails = erro.response?.data || erro.message;
-      console.error("❌ Erro na requisição Sankhya:", {
-        url: fullUrl,
-        method,
-        error: errorDetails
-      });
-
-      if (erro.code === 'ECONNABORTED') {
-        throw new Error("Tempo de resposta excedido. Tente novamente.");
-      }
-
-      if (erro.response?.status >= 500) {
-        throw new Error("Serviço temporariamente indisponível. Tente novamente.");
-      }
-
-      throw new Error(erro.response?.data?.statusMessage || erro.message || "Erro na comunicação com o servidor");
-    }
-  });
-}
-
 // Mapeamento genérico de entidades
 function mapearEntidades(entities: any) {
   const fieldNames = entities.metadata.fields.field.map((f: any) => f.name);
@@ -195,29 +80,23 @@ export async function buscarPrecoProduto(codProd: string, codTabPreco: number =
     return cached;
   }
 
-  const URL_PRECOS = `https://api.sandbox.sankhya.com.br/v1/precos/produto/${codProd}/tabela/${codTabPreco}?pagina=1`;
-  const MAX_RETRIES = 1; // Definido como 1 para evitar retentativas excessivas em busca de preço
+  const URL_PRECOS = urlApi(`/v1/precos/produto/${codProd}/tabela/${codTabPreco}?pagina=1`);
 
   // Utiliza o dedupedRequest para evitar requisições duplicadas para o mesmo preço
   const requestKey = `preco:${URL_PRECOS}`;
   return dedupedRequest(requestKey, async () => {
     try {
-      // O token é obtido dentro da função dedupedRequest para garantir que seja o mais atual possível
-      const token = await obterToken();
-
-      const resposta = await axios.get(URL_PRECOS, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json'
-        },
-        timeout: 5000
+      // Token, renovação e retentativas ficam a cargo do gateway
+      const resposta = await fazerRequisicaoAutenticada<any>(URL_PRECOS, 'GET', undefined, {
+        timeout: 5000,
+        silent
       });
 
       // Extrair o preço da resposta
       let preco = 0;
 
-      if (resposta.data && resposta.data.produtos && Array.isArray(resposta.data.produtos) && resposta.data.produtos.length > 0) {
-        const produto = resposta.data.produtos[0];
+      if (resposta && resposta.produtos && Array.isArray(resposta.produtos) && resposta.produtos.length > 0) {
+        const produto = resposta.produtos[0];
         preco = parseFloat(produto.valor) || 0;
       }
 
@@ -229,21 +108,6 @@ export async function buscarPrecoProduto(codProd: string, codTabPreco: number =
       return preco;
 
     } catch (erro: any) {
-      // Se token expirou, limpar cache e tentar novamente
-      if (erro.response && (erro.response.status === 401 || erro.response.status === 403)) {
-        cachedToken = null;
-        // Não usar dedupedRequest na retentativa para não criar um loop infinito se o erro for constante
-        await new Promise(resolve => setTimeout(resolve, 500));
-        return buscarPrecoProduto(codProd, codTabPreco, silent); // Chamada direta para retentar
-      }
-
-      // Retry para erros temporários
-      if ((erro.code === 'ECONNABORTED' || erro.response?.status >= 500) && retryCount < MAX_RETRIES) {
-        await new Promise(resolve => setTimeout(resolve, 500));
-        // Não usar dedupedRequest na retentativa
-        return buscarPrecoProduto(codProd, codTabPreco, silent); // Chamada direta para retentar
-      }
-
       console.error(`❌ Erro ao buscar preço para produto ${codProd}:`, erro.message || erro);
       return 0; // Retorna 0 em caso de erro após retentativas
     }
@@ -253,23 +117,22 @@ export async function buscarPrecoProduto(codProd: string, codTabPreco: number =
 // Consultar Produtos com Paginação
 export async function consultarProdutos(page: number = 1, pageSize: number = 50, searchName: string = '', searchCode: string = '') {
   // Construir os filtros dinamicamente
-  const filters: string[] = [];
+  const filters: Condicao[] = [];
 
   // Filtrar por código do produto
   if (searchCode.trim() !== '') {
-    const code = searchCode.trim();
-    filters.push(`CODPROD = '${code}'`);
+    const code = inteiro(searchCode);
+    if (code === null) {
+      return { produtos: [], total: 0, page, pageSize, totalPages: 0 };
+    }
+    filters.push(eq('CODPROD', code));
   }
 
   // Filtrar por descrição do produto
   if (searchName.trim() !== '') {
-    const name = searchName.trim().toUpperCase();
-    filters.push(`UPPER(DESCRPROD) LIKE '%${name}%'`);
+    filters.push(like('DESCRPROD', searchName.trim()));
   }
 
-  // Criar a expressão completa de critério
-  const criteriaExpression = filters.length > 0 ? filters.join(' AND ') : '1=1';
-
   // Montar o payload para a requisição
   const dataSet: any = {
     "rootEntity": "Produto",
@@ -280,17 +143,10 @@ export async function consultarProdutos(page: number = 1, pageSize: number = 50,
       "fieldset": {
         "list": "CODPROD, DESCRPROD, ATIVO, LOCAL, MARCA, CARACTERISTICAS, UNIDADE, VLRCOMERC"
       }
-    }
+    },
+    "criteria": montarCriteria(...filters)
   };
 
-  if (criteriaExpression !== '') {
-    dataSet.criteria = {
-      "expression": {
-        "$": criteriaExpression
-      }
-    };
-  }
-
   const PRODUTOS_PAYLOAD = {
     "requestBody": {
       "dataSet": dataSet
@@ -306,14 +162,10 @@ export async function consultarProdutos(page: number = 1, pageSize: number = 50,
   }
 
   // Utiliza o dedupedRequest para evitar requisições duplicadas para a mesma consulta de produtos
-  const requestKey = `produtos:${URL_CONSULTA_SERVICO}:${JSON.stringify(PRODUTOS_PAYLOAD)}`;
+  const requestKey = `produtos:loadRecords:${JSON.stringify(PRODUTOS_PAYLOAD)}`;
   return dedupedRequest(requestKey, async () => {
     try {
-      const respostaCompleta = await fazerRequisicaoAutenticada(
-        URL_CONSULTA_SERVICO,
-        'POST',
-        PRODUTOS_PAYLOAD
-      );
+      const respostaCompleta = await loadRecords(PRODUTOS_PAYLOAD);
 
       // Verificar se a resposta tem a estrutura esperada
       if (!respostaCompleta?.responseBody?.entities) {
@@ -395,12 +247,10 @@ export async function consultarEstoqueProduto(codProd: string, searchLocal: stri
 
   if (!silent) console.log(`🔍 Buscando estoque do produto ${codProd}...`);
 
-  let criteriaExpression = `CODPROD = ${codProd}`;
-
-  if (searchLocal.trim() !== '') {
-    const local = searchLocal.trim();
-    criteriaExpression += ` AND CODLOCAL LIKE '%${local}%'`;
-  }
+  const criteria = montarCriteria(
+    eq('CODPROD', Number(codProd)),
+    searchLocal.trim() !== '' && like('CODLOCAL', searchLocal.trim(), 'contem', false)
+  );
 
   const ESTOQUE_PAYLOAD = {
     "requestBody": {
@@ -413,24 +263,16 @@ export async function consultarEstoqueProduto(codProd: string, searchLocal: stri
             "list": "ESTOQUE, CODPROD, ATIVO, CONTROLE, CODLOCAL"
           }
         },
-        "criteria": {
-          "expression": {
-            "$": criteriaExpression
-          }
-        }
+        "criteria": criteria
       }
     }
   };
 
   // Utiliza o dedupedRequest para evitar requisições duplicadas para o mesmo estoque
-  const requestKey = `estoque:${URL_CONSULTA_SERVICO}:${JSON.stringify(ESTOQUE_PAYLOAD)}`;
+  const requestKey = `estoque:loadRecords:${JSON.stringify(ESTOQUE_PAYLOAD)}`;
   return dedupedRequest(requestKey, async () => {
     try {
-      const respostaCompleta = await fazerRequisicaoAutenticada(
-        URL_CONSULTA_SERVICO,
-        'POST',
-        ESTOQUE_PAYLOAD
-      );
+      const respostaCompleta = await loadRecords(ESTOQUE_PAYLOAD);
 
       // Verificar se a resposta tem a estrutura esperada
       if (!respostaCompleta?.responseBody?.entities) {
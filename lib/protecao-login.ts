@@ -0,0 +1,207 @@
+import { NextResponse } from 'next/server';
+import { authLimiter, authIpLimiter } from './rate-limiter';
+import { redisCacheService } from './redis-cache-service';
+import { datasetSave, formatarDataHoraParaSankhya } from './sankhya-gateway';
+
+// Proteção contra força bruta no login, no cadastro, na recuperação e na troca de senha:
+//  - limite de requisições por IP e por email (rate-limiter, em memória do processo)
+//  - bloqueio progressivo por email após falhas seguidas (cache compartilhado)
+//  - registro das tentativas com falha em AD_TENTATIVASLOGIN
+
+export type EscopoLimite = 'login' | 'cadastro' | 'recuperacao' | 'trocaSenha';
+
+export type MotivoFalhaLogin =
+  | 'SENHA_INVALIDA'
+  | 'USUARIO_INEXISTENTE'
+  | 'USUARIO_INATIVO'
+  | 'CONTA_BLOQUEADA'
+  | 'CODIGO_2FA_INVALIDO';
+
+interface EstadoLogin {
+  email: string
+  falhas: number
+  bloqueios: number
+  bloqueadoAte: number | null
+  ultimaFalha: number
+}
+
+export interface BloqueioLogin {
+  email: string
+  falhas: number
+  bloqueadoAte: number
+}
+
+const FALHAS_POR_BLOQUEIO = 5;
+const BLOQUEIO_INICIAL = 5 * 60 * 1000;        // 5 minutos, dobrando a cada novo bloqueio
+const BLOQUEIO_MAXIMO = 24 * 60 * 60 * 1000;   // 24 horas
+const RETENCAO_ESTADO = 24 * 60 * 60 * 1000;   // falhas são esquecidas 24h após a última
+
+const normalizarEmail = (email: string) => String(email || '').trim().toLowerCase();
+const chaveEstado = (email: string) => `login:falhas:${normalizarEmail(email)}`;
+const CHAVE_BLOQUEIOS = 'login:bloqueios';
+
+// Proxies à frente da aplicação que acrescentam o IP de quem os chamou ao X-Forwarded-For (Replit: 1)
+const PROXIES_CONFIAVEIS = Math.max(0, parseInt(process.env.PROXIES_CONFIAVEIS || '1', 10) || 0);
+
+// Os primeiros valores do X-Forwarded-For vêm do cliente e podem ser forjados a cada tentativa;
+// vale o endereço acrescentado pelo proxy confiável mais externo, contado a partir da direita
+export function obterIp(request: Request): string {
+  const encaminhado = request.headers.get('x-forwarded-for');
+  if (encaminhado && PROXIES_CONFIAVEIS > 0) {
+    const saltos = encaminhado.split(',').map(ip => ip.trim()).filter(Boolean);
+    if (saltos.length > 0) {
+      return saltos[Math.max(0, saltos.length - PROXIES_CONFIAVEIS)];
+    }
+  }
+  return request.headers.get('x-real-ip') || 'desconhecido';
+}
+
+// Retorna o tempo de espera em ms, ou 0 quando a requisição pode seguir
+export function verificarLimiteIp(escopo: EscopoLimite, ip: string): number {
+  const { allowed, retryAfterMs } = authIpLimiter.check(`${escopo}:ip:${ip}`);
+  return allowed ? 0 : retryAfterMs;
+}
+
+export function verificarLimiteEmail(escopo: EscopoLimite, email: string): number {
+  const { allowed, retryAfterMs } = authLimiter.check(`${escopo}:email:${normalizarEmail(email)}`);
+  return allowed ? 0 : retryAfterMs;
+}
+
+export function limiteExcedido(retryAfterMs: number) {
+  const segundos = Math.max(1, Math.ceil(retryAfterMs / 1000));
+  return NextResponse.json(
+    {
+      error: 'Muitas tentativas. Tente novamente em alguns minutos.',
+      codigo: 'LIMITE_EXCEDIDO'
+    },
+    { status: 429, headers: { 'Retry-After': String(segundos) } }
+  );
+}
+
+export function contaBloqueada(bloqueadoAte: number) {
+  const segundos = Math.max(1, Math.ceil((bloqueadoAte - Date.now()) / 1000));
+  const minutos = Math.ceil(segundos / 60);
+  return NextResponse.json(
+    {
+      error: `Conta bloqueada temporariamente após várias tentativas sem sucesso. Tente novamente em ${minutos} minuto(s) ou fale com um administrador.`,
+      codigo: 'CONTA_BLOQUEADA',
+      bloqueadoAte
+    },
+    { status: 429, headers: { 'Retry-After': String(segundos) } }
+  );
+}
+
+// Momento até o qual o email está bloqueado, ou null
+export async function verificarBloqueio(email: string): Promise<number | null> {
+  const estado = await redisCacheService.get<EstadoLogin>(chaveEstado(email));
+  if (!estado?.bloqueadoAte || estado.bloqueadoAte <= Date.now()) {
+    return null;
+  }
+  return estado.bloqueadoAte;
+}
+
+// Conta a falha e aplica bloqueio a cada FALHAS_POR_BLOQUEIO falhas seguidas.
+// Retorna o fim do bloqueio quando esta falha bloqueou a conta.
+export async function registrarFalhaLogin(dados: {
+  email: string
+  ip: string
+  motivo: MotivoFalhaLogin
+  codUsuario?: number
+}): Promise<number | null> {
+  const email = normalizarEmail(dados.email);
+  const agora = Date.now();
+
+  registrarTentativa({ ...dados, email });
+
+  // Tentativa durante um bloqueio ativo não prolonga o bloqueio
+  if (dados.motivo === 'CONTA_BLOQUEADA') {
+    return null;
+  }
+
+  const anterior = await redisCacheService.get<EstadoLogin>(chaveEstado(email));
+  const estado: EstadoLogin = anterior || { email, falhas: 0, bloqueios: 0, bloqueadoAte: null, ultimaFalha: agora };
+
+  estado.falhas += 1;
+  estado.ultimaFalha = agora;
+
+  let bloqueioAplicado: number | null = null;
+  if (estado.falhas % FALHAS_POR_BLOQUEIO === 0) {
+    const duracao = Math.min(BLOQUEIO_INICIAL * 2 ** estado.bloqueios, BLOQUEIO_MAXIMO);
+    estado.bloqueios += 1;
+    estado.bloqueadoAte = agora + duracao;
+    bloqueioAplicado = estado.bloqueadoAte;
+
+    await indexarBloqueio(email);
+    console.warn('🔒 Login bloqueado temporariamente:', { email, falhas: estado.falhas, minutos: duracao / 60000 });
+  }
+
+  await redisCacheService.set(chaveEstado(email), estado, Math.max(RETENCAO_ESTADO, (estado.bloqueadoAte || 0) - agora));
+  return bloqueioAplicado;
+}
+
+export async function registrarSucessoLogin(email: string) {
+  await redisCacheService.delete(chaveEstado(email));
+  authLimiter.reset(`login:email:${normalizarEmail(email)}`);
+}
+
+// Desbloqueio manual pelo administrador (zera falhas e limite por email)
+export async function desbloquearLogin(email: string) {
+  const normalizado = normalizarEmail(email);
+  await redisCacheService.delete(chaveEstado(normalizado));
+  authLimiter.reset(`login:email:${normalizado}`);
+
+  const emails = await redisCacheService.get<string[]>(CHAVE_BLOQUEIOS) || [];
+  await redisCacheService.set(CHAVE_BLOQUEIOS, emails.filter(e => e !== normalizado), BLOQUEIO_MAXIMO);
+
+  console.log('🔓 Login desbloqueado:', normalizado);
+}
+
+export async function listarBloqueiosLogin(): Promise<BloqueioLogin[]> {
+  const emails = await redisCacheService.get<string[]>(CHAVE_BLOQUEIOS) || [];
+  const agora = Date.now();
+  const ativos: BloqueioLogin[] = [];
+
+  for (const email of emails) {
+    const estado = await redisCacheService.get<EstadoLogin>(chaveEstado(email));
+    if (estado?.bloqueadoAte && estado.bloqueadoAte > agora) {
+      ativos.push({ email, falhas: estado.falhas, bloqueadoAte: estado.bloqueadoAte });
+    }
+  }
+
+  // Remove do índice os bloqueios que já expiraram
+  if (ativos.length !== emails.length) {
+    await redisCacheService.set(CHAVE_BLOQUEIOS, ativos.map(b => b.email), BLOQUEIO_MAXIMO);
+  }
+
+  return ativos;
+}
+
+async function indexarBloqueio(email: string) {
+  const emails = await redisCacheService.get<string[]>(CHAVE_BLOQUEIOS) || [];
+  if (!emails.includes(email)) {
+    await redisCacheService.set(CHAVE_BLOQUEIOS, [...emails, email], BLOQUEIO_MAXIMO);
+  }
+}
+
+// Gravação sem aguardar: a resposta do login não depende do registro de auditoria
+function registrarTentativa(dados: { email: string; ip: string; motivo: MotivoFalhaLogin; codUsuario?: number }) {
+  datasetSave({
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_TENTATIVASLOGIN",
+      "standAlone": false,
+      "fields": ["EMAIL", "IP", "DTTENTATIVA", "MOTIVO", "CODUSUARIO"],
+      "records": [{
+        "values": {
+          "0": dados.email.slice(0, 200),
+          "1": dados.ip.slice(0, 60),
+          "2": formatarDataHoraParaSankhya(new Date()),
+          "3": dados.motivo,
+          "4": dados.codUsuario ? String(dados.codUsuario) : null
+        }
+      }]
+    }
+  }).catch((erro) => {
+    console.error('❌ Erro ao registrar tentativa de login:', erro);
+  });
+}
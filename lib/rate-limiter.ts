@@ -12,7 +12,7 @@ class RateLimiter {
     setInterval(() => this.cleanup(), 60000);
   }
 
-  check(identifier: string): { allowed: boolean; remaining: number } {
+  check(identifier: string): { allowed: boolean; remaining: number; retryAfterMs: number } {
     const now = Date.now();
     const windowStart = now - this.windowMs;
     
@@ -29,8 +29,11 @@ class RateLimiter {
       requests.push(now);
       this.requests.set(identifier, requests);
     }
+
+    // Tempo até a requisição mais antiga sair da janela
+    const retryAfterMs = allowed ? 0 : Math.max(0, requests[0] + this.windowMs - now);
     
-    return { allowed, remaining };
+    return { allowed, remaining, retryAfterMs };
   }
 
   private cleanup() {
@@ -56,4 +59,5 @@ class RateLimiter {
 // Limitadores específicos
 export const apiLimiter = new RateLimiter(60000, 100); // 100 req/min
 export const authLimiter = new RateLimiter(300000, 5);  // 5 req/5min
+export const authIpLimiter = new RateLimiter(300000, 30); // 30 req/5min por IP (vários usuários atrás do mesmo NAT)
 export const searchLimiter = new RateLimiter(10000, 20); // 20 req/10s
@@ -0,0 +1,232 @@
+import type { EventoAuditoria } from './auditoria-service';
+import {
+  atualizarCamposAtividade,
+  consultarOcorrenciasAlteradas,
+  converterDataSankhyaParaISO,
+  criarAtividade,
+  type LeadAtividade
+} from './lead-atividades-service';
+import {
+  chaveData,
+  contarOcorrenciasAntes,
+  dataDeChave,
+  dataHoraLocal,
+  gerarOcorrencias,
+  inicioDaOcorrencia,
+  lerRegra,
+  normalizarRegra,
+  somarDias,
+  type EscopoRecorrencia,
+  type RegraRecorrencia
+} from './recorrencia';
+
+// Etapas de servidor das atividades recorrentes: expansão da série na janela consultada
+// e alterações feitas a partir de uma ocorrência (somente esta, esta e as seguintes, todas)
+
+export type AtividadeExpandida = LeadAtividade & {
+  // Dia original da ocorrência (YYYY-MM-DD); vazio em atividades avulsas
+  DATA_OCORRENCIA?: string
+  // Regra da série, também nas ocorrências alteradas individualmente
+  REGRA?: RegraRecorrencia
+}
+
+export interface AlteracaoOcorrencia {
+  DESCRICAO?: string
+  TIPO?: LeadAtividade['TIPO']
+  COR?: string
+  DATA_INICIO?: string
+  DATA_FIM?: string
+  STATUS?: LeadAtividade['STATUS']
+  ATIVO?: 'S' | 'N'
+  // Nova regra; vale para "esta e as seguintes" e "todas"
+  RECORRENCIA?: RegraRecorrencia
+}
+
+function duracaoDaAtividade(atividade: LeadAtividade): number {
+  if (!atividade.DATA_FIM) return 0;
+  return Math.max(0, new Date(atividade.DATA_FIM).getTime() - new Date(atividade.DATA_INICIO).getTime());
+}
+
+// Substitui cada série pelas suas ocorrências na janela; atividades avulsas seguem como estão.
+// Espera datas em ISO, como devolvidas por consultarAtividades.
+export function expandirAtividades(atividades: LeadAtividade[], janelaInicio: Date, janelaFim: Date): AtividadeExpandida[] {
+  const regras = new Map<string, RegraRecorrencia>();
+  atividades.forEach(atividade => {
+    const regra = lerRegra(atividade.RECORRENCIA);
+    if (regra) regras.set(String(atividade.CODATIVIDADE), regra);
+  });
+
+  const expandidas: AtividadeExpandida[] = [];
+
+  for (const atividade of atividades) {
+    const regra = regras.get(String(atividade.CODATIVIDADE));
+
+    if (!regra) {
+      const regraDaSerie = atividade.CODATIVIDADE_PAI ? regras.get(String(atividade.CODATIVIDADE_PAI)) : undefined;
+      expandidas.push(regraDaSerie ? { ...atividade, REGRA: regraDaSerie } : atividade);
+      continue;
+    }
+
+    const inicioSerie = new Date(atividade.DATA_INICIO || atividade.DATA_HORA);
+    const duracao = duracaoDaAtividade(atividade);
+
+    for (const inicio of gerarOcorrencias(regra, inicioSerie, janelaInicio, janelaFim)) {
+      expandidas.push({
+        ...atividade,
+        DATA_INICIO: dataHoraLocal(inicio),
+        DATA_FIM: dataHoraLocal(new Date(inicio.getTime() + duracao)),
+        // O status é de cada ocorrência; a série não guarda conclusão
+        STATUS: undefined,
+        DATA_OCORRENCIA: chaveData(inicio),
+        REGRA: regra
+      });
+    }
+  }
+
+  return expandidas;
+}
+
+async function inativarOcorrenciasAlteradas(codSerie: string, aPartirDe?: string): Promise<number> {
+  const alteradas = (await consultarOcorrenciasAlteradas(codSerie))
+    .filter(a => a.ATIVO !== 'N' && (!aPartirDe || String(a.DATA_OCORRENCIA || '') >= aPartirDe));
+
+  for (const alterada of alteradas) {
+    await atualizarCamposAtividade(String(alterada.CODATIVIDADE), { ATIVO: 'N' });
+  }
+  return alteradas.length;
+}
+
+// `serie` vem de consultarAtividade (datas no formato do Sankhya) e `dataOcorrencia` já foi
+// validada com ehOcorrencia. Ocorrências alteradas individualmente mantêm seus valores em "todas".
+export async function alterarOcorrencias(
+  serie: LeadAtividade,
+  dataOcorrencia: string,
+  escopo: EscopoRecorrencia,
+  alteracao: AlteracaoOcorrencia,
+  auditar: (evento: EventoAuditoria) => Promise<void>
+): Promise<void> {
+  const codSerie = String(serie.CODATIVIDADE);
+  const regra = lerRegra(serie.RECORRENCIA) as RegraRecorrencia;
+  const inicioSerie = new Date(converterDataSankhyaParaISO(serie.DATA_INICIO));
+  const fimSerie = serie.DATA_FIM ? new Date(converterDataSankhyaParaISO(serie.DATA_FIM)) : inicioSerie;
+  const duracao = Math.max(0, fimSerie.getTime() - inicioSerie.getTime());
+  const inicioOcorrencia = inicioDaOcorrencia(inicioSerie, dataOcorrencia);
+  const excecoes = regra.excecoes || [];
+
+  const salvarSerie = async (campos: Record<string, string>) => {
+    await atualizarCamposAtividade(codSerie, campos);
+    await auditar({
+      acao: 'ATUALIZAR',
+      entidade: 'ATIVIDADE',
+      chave: codSerie,
+      codLead: serie.CODLEAD || null,
+      antes: Object.fromEntries(Object.keys(campos).map(campo => [campo, (serie as any)[campo] ?? null])),
+      depois: campos
+    });
+  };
+
+  const criar = async (atividade: Partial<LeadAtividade>) => {
+    const criada = await criarAtividade({
+      CODLEAD: serie.CODLEAD,
+      TIPO: alteracao.TIPO || serie.TIPO,
+      DESCRICAO: alteracao.DESCRICAO ?? serie.DESCRICAO,
+      COR: alteracao.COR ?? serie.COR,
+      CODUSUARIO: serie.CODUSUARIO,
+      DADOS_COMPLEMENTARES: serie.DADOS_COMPLEMENTARES,
+      ...atividade
+    });
+    await auditar({
+      acao: 'CRIAR',
+      entidade: 'ATIVIDADE',
+      chave: criada?.CODATIVIDADE || '',
+      codLead: serie.CODLEAD || null,
+      depois: criada
+    });
+  };
+
+  // "Esta e as seguintes" a partir da primeira ocorrência equivale a "todas"
+  const anteriores = escopo === 'SEGUINTES' ? contarOcorrenciasAntes(regra, inicioSerie, dataOcorrencia) : 0;
+  const abrangencia: EscopoRecorrencia = escopo === 'SEGUINTES' && anteriores === 0 ? 'TODAS' : escopo;
+
+  if (abrangencia === 'OCORRENCIA') {
+    // A ocorrência alterada vira linha própria; excluída, só entra nas exceções
+    if (alteracao.ATIVO !== 'N') {
+      const inicio = alteracao.DATA_INICIO || dataHoraLocal(inicioOcorrencia);
+      await criar({
+        DATA_INICIO: inicio,
+        DATA_FIM: alteracao.DATA_FIM || dataHoraLocal(new Date(new Date(inicio).getTime() + duracao)),
+        STATUS: alteracao.STATUS,
+        CODATIVIDADE_PAI: codSerie,
+        DATA_OCORRENCIA: dataOcorrencia
+      });
+    }
+    await salvarSerie({
+      RECORRENCIA: JSON.stringify({ ...regra, excecoes: Array.from(new Set([...excecoes, dataOcorrencia])).sort() })
+    });
+    console.log(`🔁 Ocorrência ${dataOcorrencia} da série ${codSerie} ${alteracao.ATIVO === 'N' ? 'excluída' : 'alterada'}`);
+    return;
+  }
+
+  if (abrangencia === 'SEGUINTES') {
+    // Encerra a série no dia anterior; as seguintes passam para uma nova série
+    const encerrada: RegraRecorrencia = {
+      ...regra,
+      ate: chaveData(somarDias(dataDeChave(dataOcorrencia), -1)),
+      quantidade: null,
+      excecoes: excecoes.filter(e => e < dataOcorrencia)
+    };
+    await salvarSerie({ RECORRENCIA: JSON.stringify(normalizarRegra(encerrada)) });
+
+    if (alteracao.ATIVO === 'N') {
+      await inativarOcorrenciasAlteradas(codSerie, dataOcorrencia);
+      console.log(`🔁 Série ${codSerie} encerrada antes de ${dataOcorrencia}`);
+      return;
+    }
+
+    const continuacao: RegraRecorrencia = {
+      ...(alteracao.RECORRENCIA || {
+        ...regra,
+        quantidade: regra.quantidade ? Math.max(1, regra.quantidade - anteriores) : null
+      }),
+      excecoes: excecoes.filter(e => e >= dataOcorrencia)
+    };
+    const inicio = alteracao.DATA_INICIO || dataHoraLocal(inicioOcorrencia);
+    await criar({
+      DATA_INICIO: inicio,
+      DATA_FIM: alteracao.DATA_FIM || dataHoraLocal(new Date(new Date(inicio).getTime() + duracao)),
+      RECORRENCIA: JSON.stringify(normalizarRegra(continuacao))
+    });
+    console.log(`🔁 Série ${codSerie} dividida em ${dataOcorrencia}`);
+    return;
+  }
+
+  if (alteracao.ATIVO === 'N') {
+    await salvarSerie({ ATIVO: 'N' });
+    await inativarOcorrenciasAlteradas(codSerie);
+    console.log(`🔁 Série ${codSerie} inativada`);
+    return;
+  }
+
+  const campos: Record<string, string> = {};
+  if (alteracao.DESCRICAO !== undefined) campos.DESCRICAO = alteracao.DESCRICAO;
+  if (alteracao.TIPO !== undefined) campos.TIPO = alteracao.TIPO;
+  if (alteracao.COR !== undefined) campos.COR = alteracao.COR;
+
+  // O deslocamento aplicado à ocorrência move a série inteira
+  if (alteracao.DATA_INICIO) {
+    const novoInicio = new Date(alteracao.DATA_INICIO);
+    const novaDuracao = alteracao.DATA_FIM
+      ? Math.max(0, new Date(alteracao.DATA_FIM).getTime() - novoInicio.getTime())
+      : duracao;
+    const inicio = new Date(inicioSerie.getTime() + novoInicio.getTime() - inicioOcorrencia.getTime());
+    campos.DATA_INICIO = dataHoraLocal(inicio);
+    campos.DATA_FIM = dataHoraLocal(new Date(inicio.getTime() + novaDuracao));
+  }
+
+  if (alteracao.RECORRENCIA) {
+    campos.RECORRENCIA = JSON.stringify(normalizarRegra({ ...alteracao.RECORRENCIA, excecoes }));
+  }
+
+  await salvarSerie(campos);
+  console.log(`🔁 Série ${codSerie} atualizada`);
+}
@@ -0,0 +1,233 @@
+// Recorrência de atividades (sem dependências de servidor, usada também no cliente).
+// A série é uma única linha em AD_ADLEADSATIVIDADES com a regra em RECORRENCIA (JSON);
+// as ocorrências são calculadas para a janela consultada. Uma ocorrência só vira linha própria
+// quando alterada individualmente (CODATIVIDADE_PAI + DATA_OCORRENCIA), e sua data entra em `excecoes`.
+
+export type FrequenciaRecorrencia = 'DIARIA' | 'SEMANAL' | 'MENSAL';
+
+// Abrangência de uma alteração feita a partir de uma ocorrência
+export type EscopoRecorrencia = 'OCORRENCIA' | 'SEGUINTES' | 'TODAS';
+
+export const FREQUENCIAS: FrequenciaRecorrencia[] = ['DIARIA', 'SEMANAL', 'MENSAL'];
+export const ESCOPOS_RECORRENCIA: EscopoRecorrencia[] = ['OCORRENCIA', 'SEGUINTES', 'TODAS'];
+
+export const ROTULOS_FREQUENCIA: Record<FrequenciaRecorrencia, string> = {
+  DIARIA: 'Diária',
+  SEMANAL: 'Semanal',
+  MENSAL: 'Mensal'
+};
+
+export const ROTULOS_ESCOPO: Record<EscopoRecorrencia, string> = {
+  OCORRENCIA: 'Somente esta',
+  SEGUINTES: 'Esta e as seguintes',
+  TODAS: 'Todas da série'
+};
+
+export const DIAS_SEMANA_ABREVIADOS = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
+// Quantidade máxima de ocorrências de uma série limitada por contagem e de uma consulta
+export const MAX_OCORRENCIAS = 500;
+
+// Passos percorridos a partir do início da série (5000 dias, semanas ou meses)
+const LIMITE_PASSOS = 5000;
+
+export interface RegraRecorrencia {
+  frequencia: FrequenciaRecorrencia
+  // A cada N dias, semanas ou meses
+  intervalo: number
+  // 0 = domingo; só na semanal. Vazio repete no dia da semana do início
+  diasSemana?: number[]
+  // Último dia da série (YYYY-MM-DD, inclusive)
+  ate?: string | null
+  // Total de ocorrências da série, incluindo as excluídas
+  quantidade?: number | null
+  // Datas (YYYY-MM-DD) removidas ou substituídas por uma linha própria
+  excecoes?: string[]
+}
+
+const CHAVE_DATA = /^\d{4}-\d{2}-\d{2}$/;
+
+export function chaveData(data: Date): string {
+  const ano = data.getFullYear();
+  const mes = String(data.getMonth() + 1).padStart(2, '0');
+  const dia = String(data.getDate()).padStart(2, '0');
+  return `${ano}-${mes}-${dia}`;
+}
+
+// Meia-noite local do dia informado
+export function dataDeChave(chave: string): Date {
+  const [ano, mes, dia] = chave.split('-').map(Number);
+  return new Date(ano, mes - 1, dia);
+}
+
+// Data e hora local sem fuso (YYYY-MM-DDTHH:mm:ss), no mesmo formato das atividades
+export function dataHoraLocal(data: Date): string {
+  const hora = String(data.getHours()).padStart(2, '0');
+  const min = String(data.getMinutes()).padStart(2, '0');
+  const seg = String(data.getSeconds()).padStart(2, '0');
+  return `${chaveData(data)}T${hora}:${min}:${seg}`;
+}
+
+export function somarDias(data: Date, dias: number): Date {
+  return new Date(data.getFullYear(), data.getMonth(), data.getDate() + dias,
+    data.getHours(), data.getMinutes(), data.getSeconds());
+}
+
+// Mesmo horário de `inicio` no dia `chave`
+export function inicioDaOcorrencia(inicio: Date, chave: string): Date {
+  const dia = dataDeChave(chave);
+  return new Date(dia.getFullYear(), dia.getMonth(), dia.getDate(),
+    inicio.getHours(), inicio.getMinutes(), inicio.getSeconds());
+}
+
+function candidatasDoPasso(regra: RegraRecorrencia, inicio: Date, passo: number, intervalo: number): Date[] {
+  if (regra.frequencia === 'DIARIA') {
+    return [somarDias(inicio, passo * intervalo)];
+  }
+
+  if (regra.frequencia === 'SEMANAL') {
+    const dias = regra.diasSemana && regra.diasSemana.length > 0 ? regra.diasSemana : [inicio.getDay()];
+    const domingo = somarDias(inicio, -inicio.getDay() + passo * 7 * intervalo);
+    return Array.from(new Set(dias)).sort((a, b) => a - b).map(dia => somarDias(domingo, dia));
+  }
+
+  // Mensal: dias 29 a 31 caem no último dia dos meses mais curtos
+  const mes = inicio.getMonth() + passo * intervalo;
+  const ultimoDia = new Date(inicio.getFullYear(), mes + 1, 0).getDate();
+  return [new Date(inicio.getFullYear(), mes, Math.min(inicio.getDate(), ultimoDia),
+    inicio.getHours(), inicio.getMinutes(), inicio.getSeconds())];
+}
+
+// Todas as ocorrências da série em ordem, sem descontar as exceções
+function* percorrerSerie(regra: RegraRecorrencia, inicio: Date): Generator<Date> {
+  const intervalo = Math.max(1, Math.floor(Number(regra.intervalo) || 1));
+  const limite = regra.ate ? somarDias(dataDeChave(regra.ate), 1) : null;
+  let emitidas = 0;
+
+  for (let passo = 0; passo < LIMITE_PASSOS; passo++) {
+    for (const data of candidatasDoPasso(regra, inicio, passo, intervalo)) {
+      if (data < inicio) continue;
+      if (limite && data >= limite) return;
+      if (regra.quantidade && emitidas >= regra.quantidade) return;
+      emitidas++;
+      yield data;
+    }
+  }
+}
+
+// Início de cada ocorrência dentro da janela (dias inteiros, inclusive), já sem as exceções
+export function gerarOcorrencias(regra: RegraRecorrencia, inicio: Date, janelaInicio: Date, janelaFim: Date): Date[] {
+  const de = dataDeChave(chaveData(janelaInicio));
+  const ate = somarDias(dataDeChave(chaveData(janelaFim)), 1);
+  const excecoes = new Set(regra.excecoes || []);
+  const ocorrencias: Date[] = [];
+
+  for (const data of percorrerSerie(regra, inicio)) {
+    if (data >= ate || ocorrencias.length >= MAX_OCORRENCIAS) break;
+    if (data >= de && !excecoes.has(chaveData(data))) ocorrencias.push(data);
+  }
+
+  return ocorrencias;
+}
+
+// Verdadeiro se a série tem ocorrência no dia (exceções incluídas)
+export function ehOcorrencia(regra: RegraRecorrencia, inicio: Date, chave: string): boolean {
+  if (!CHAVE_DATA.test(chave)) return false;
+  const dia = dataDeChave(chave);
+  return gerarOcorrencias({ ...regra, excecoes: [] }, inicio, dia, dia).length > 0;
+}
+
+// Ocorrências da série anteriores ao dia (exceções incluídas); usada ao dividir séries por contagem
+export function contarOcorrenciasAntes(regra: RegraRecorrencia, inicio: Date, chave: string): number {
+  const limite = dataDeChave(chave);
+  let total = 0;
+  for (const data of percorrerSerie(regra, inicio)) {
+    if (data >= limite) break;
+    total++;
+  }
+  return total;
+}
+
+export function validarRegra(regra: any): string | null {
+  if (!regra || typeof regra !== 'object') return 'Regra de recorrência inválida';
+  if (!FREQUENCIAS.includes(regra.frequencia)) return 'Frequência de recorrência inválida';
+
+  const intervalo = Number(regra.intervalo ?? 1);
+  if (!Number.isInteger(intervalo) || intervalo < 1 || intervalo > 99) {
+    return 'O intervalo da recorrência deve ser um número entre 1 e 99';
+  }
+
+  if (regra.diasSemana !== undefined && regra.diasSemana !== null) {
+    if (!Array.isArray(regra.diasSemana) || regra.diasSemana.some((d: any) => !Number.isInteger(d) || d < 0 || d > 6)) {
+      return 'Dias da semana inválidos';
+    }
+  }
+
+  if (regra.ate !== undefined && regra.ate !== null && (typeof regra.ate !== 'string' || !CHAVE_DATA.test(regra.ate))) {
+    return 'Data final da recorrência inválida';
+  }
+
+  if (regra.quantidade !== undefined && regra.quantidade !== null && regra.quantidade !== '') {
+    const quantidade = Number(regra.quantidade);
+    if (!Number.isInteger(quantidade) || quantidade < 1 || quantidade > MAX_OCORRENCIAS) {
+      return `A quantidade de ocorrências deve estar entre 1 e ${MAX_OCORRENCIAS}`;
+    }
+  }
+
+  return null;
+}
+
+// Mantém apenas os campos da regra; supõe que ela já passou por validarRegra
+export function normalizarRegra(regra: any): RegraRecorrencia {
+  const normalizada: RegraRecorrencia = {
+    frequencia: regra.frequencia,
+    intervalo: Number(regra.intervalo ?? 1)
+  };
+
+  if (regra.frequencia === 'SEMANAL' && Array.isArray(regra.diasSemana) && regra.diasSemana.length > 0) {
+    normalizada.diasSemana = Array.from(new Set<number>(regra.diasSemana)).sort((a, b) => a - b);
+  }
+  if (regra.ate) normalizada.ate = regra.ate;
+  if (regra.quantidade) normalizada.quantidade = Number(regra.quantidade);
+  if (Array.isArray(regra.excecoes) && regra.excecoes.length > 0) {
+    normalizada.excecoes = regra.excecoes.filter((e: any) => typeof e === 'string' && CHAVE_DATA.test(e));
+  }
+
+  return normalizada;
+}
+
+// Lê a coluna RECORRENCIA; null para atividades avulsas ou conteúdo inválido
+export function lerRegra(texto?: string | null): RegraRecorrencia | null {
+  if (!texto) return null;
+  try {
+    const regra = JSON.parse(texto);
+    return validarRegra(regra) ? null : normalizarRegra(regra);
+  } catch {
+    return null;
+  }
+}
+
+export function descreverRegra(regra: RegraRecorrencia): string {
+  const intervalo = Math.max(1, Number(regra.intervalo) || 1);
+  const unidades: Record<FrequenciaRecorrencia, [string, string]> = {
+    DIARIA: ['Diariamente', 'dias'],
+    SEMANAL: ['Semanalmente', 'semanas'],
+    MENSAL: ['Mensalmente', 'meses']
+  };
+  const [adverbio, plural] = unidades[regra.frequencia];
+
+  let texto = intervalo === 1 ? adverbio : `A cada ${intervalo} ${plural}`;
+
+  if (regra.frequencia === 'SEMANAL' && regra.diasSemana && regra.diasSemana.length > 0) {
+    texto += ` (${regra.diasSemana.map(d => DIAS_SEMANA_ABREVIADOS[d]).join(', ')})`;
+  }
+  if (regra.ate) {
+    const [ano, mes, dia] = regra.ate.split('-');
+    texto += `, até ${dia}/${mes}/${ano}`;
+  }
+  if (regra.quantidade) {
+    texto += `, ${regra.quantidade} ${regra.quantidade === 1 ? 'vez' : 'vezes'}`;
+  }
+
+  return texto;
+}
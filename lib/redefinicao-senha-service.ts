@@ -0,0 +1,198 @@
+import crypto from 'crypto';
+import { loadRecords, datasetSave, mapearEntidades, formatarDataHoraParaSankhya } from './sankhya-gateway';
+import { montarCriteria, eq } from './sankhya-criteria';
+import { usersService } from './users-service';
+import { cryptoService, validarNovaSenha } from './crypto-service';
+import { enviarEmail } from './email-service';
+import { encerrarSessoesUsuario } from './session-service';
+
+// Troca de senha pelo próprio usuário e recuperação por email.
+// Tokens de redefinição ficam em AD_REDEFSENHA apenas como hash SHA-256, valem 1 hora e são de uso único.
+
+interface RedefinicaoSenha {
+  CODREDEF: string
+  CODUSUARIO: string
+  TOKENHASH: string
+  DTEXPIRACAO: string
+  USADO: string
+}
+
+const VALIDADE_TOKEN = 60 * 60 * 1000; // 1 hora
+
+// Tokens sendo consumidos neste processo (evita uso duplo em requisições simultâneas)
+const tokensEmUso = new Set<string>();
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const converterDataHoraSankhya = (valor: string): Date | null => {
+  const match = /^(\d{2})\/(\d{2})\/(\d{4})(?: (\d{2}):(\d{2})(?::(\d{2}))?)?/.exec(valor || '');
+  if (!match) return null;
+
+  const [, dia, mes, ano, hora = '0', min = '0', seg = '0'] = match;
+  return new Date(Number(ano), Number(mes) - 1, Number(dia), Number(hora), Number(min), Number(seg));
+};
+
+async function consultarRedefinicoes(...condicoes: Parameters<typeof montarCriteria>): Promise<RedefinicaoSenha[]> {
+  const PAYLOAD = {
+    "requestBody": {
+      "dataSet": {
+        "rootEntity": "AD_REDEFSENHA",
+        "includePresentationFields": "N",
+        "offsetPage": "0",
+        "entity": {
+          "fieldset": {
+            "list": "CODREDEF, CODUSUARIO, TOKENHASH, DTEXPIRACAO, USADO"
+          }
+        },
+        "criteria": montarCriteria(...condicoes)
+      }
+    }
+  };
+
+  const resposta = await loadRecords(PAYLOAD);
+  return mapearEntidades(resposta?.responseBody?.entities, 'CODREDEF') as RedefinicaoSenha[];
+}
+
+async function marcarComoUsado(codRedef: string) {
+  await datasetSave({
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_REDEFSENHA",
+      "standAlone": false,
+      "fields": ["USADO", "DTUSO"],
+      "records": [{
+        "pk": { "CODREDEF": String(codRedef) },
+        "values": {
+          "0": "S",
+          "1": formatarDataHoraParaSankhya(new Date())
+        }
+      }]
+    }
+  });
+}
+
+// Sempre conclui sem indicar se o email existe, para não permitir enumeração de contas
+export async function solicitarRedefinicaoSenha(email: string, urlBase: string): Promise<void> {
+  const usuarios = await usersService.getByEmail(String(email || '').trim());
+  const usuario = usuarios.find(u => u.status === 'ativo');
+
+  if (!usuario) {
+    console.log('ℹ️ Redefinição de senha solicitada para email sem usuário ativo');
+    return;
+  }
+
+  // Um novo pedido invalida os links enviados anteriormente
+  const pendentes = await consultarRedefinicoes(eq('CODUSUARIO', usuario.id), eq('USADO', 'N'));
+  for (const pendente of pendentes) {
+    await marcarComoUsado(pendente.CODREDEF);
+  }
+
+  const token = crypto.randomBytes(32).toString('base64url');
+  const agora = new Date();
+
+  await datasetSave({
+    "serviceName": "DatasetSP.save",
+    "requestBody": {
+      "entityName": "AD_REDEFSENHA",
+      "standAlone": false,
+      "fields": ["CODUSUARIO", "TOKENHASH", "DTCRIACAO", "DTEXPIRACAO", "USADO"],
+      "records": [{
+        "values": {
+          "0": String(usuario.id),
+          "1": hashToken(token),
+          "2": formatarDataHoraParaSankhya(agora),
+          "3": formatarDataHoraParaSankhya(new Date(agora.getTime() + VALIDADE_TOKEN)),
+          "4": "N"
+        }
+      }]
+    }
+  });
+
+  const link = `${urlBase.replace(/\/$/, '')}/redefinir-senha?token=${encodeURIComponent(token)}`;
+
+  await enviarEmail({
+    para: usuario.email,
+    assunto: 'Redefinição de senha',
+    texto: [
+      `Olá, ${usuario.name}.`,
+      '',
+      'Recebemos um pedido para redefinir a sua senha. Para criar uma nova senha, acesse o link abaixo:',
+      link,
+      '',
+      'O link vale por 1 hora e pode ser usado uma única vez. Se você não fez este pedido, ignore este email.'
+    ].join('\n')
+  });
+
+  console.log('✅ Link de redefinição de senha enviado para o usuário:', usuario.id);
+}
+
+// Retorna a mensagem de erro, ou null quando a senha foi redefinida
+export async function redefinirSenhaComToken(token: string, novaSenha: string): Promise<string | null> {
+  const erroSenha = validarNovaSenha(novaSenha);
+  if (erroSenha) return erroSenha;
+
+  if (!token) return 'Link de redefinição inválido ou expirado';
+
+  const hash = hashToken(String(token));
+  if (tokensEmUso.has(hash)) return 'Link de redefinição inválido ou expirado';
+  tokensEmUso.add(hash);
+
+  try {
+    const [redefinicao] = await consultarRedefinicoes(eq('TOKENHASH', hash), eq('USADO', 'N'));
+    const expiracao = redefinicao ? converterDataHoraSankhya(redefinicao.DTEXPIRACAO) : null;
+
+    if (!redefinicao || !expiracao || expiracao.getTime() < Date.now()) {
+      return 'Link de redefinição inválido ou expirado';
+    }
+
+    // Consome o token antes de trocar a senha: em caso de falha, o usuário solicita outro link
+    await marcarComoUsado(redefinicao.CODREDEF);
+
+    const codUsuario = Number(redefinicao.CODUSUARIO);
+    const usuario = await usersService.getById(codUsuario);
+    if (!usuario || usuario.status !== 'ativo') {
+      return 'Link de redefinição inválido ou expirado';
+    }
+
+    await usersService.update(codUsuario, { password: await cryptoService.hashPassword(novaSenha) });
+    await encerrarSessoesUsuario(codUsuario);
+
+    console.log('✅ Senha redefinida por link de recuperação:', codUsuario);
+    return null;
+  } finally {
+    tokensEmUso.delete(hash);
+  }
+}
+
+// Devolvido quando a senha atual não confere; a rota conta a falha no bloqueio progressivo do login
+export const ERRO_SENHA_ATUAL = 'Senha atual incorreta';
+
+// Troca feita pelo usuário autenticado; mantém apenas a sessão atual (manterToken)
+export async function trocarSenha(
+  codUsuario: number,
+  senhaAtual: string,
+  novaSenha: string,
+  manterToken?: string
+): Promise<string | null> {
+  const usuario = await usersService.getById(codUsuario);
+  if (!usuario || !usuario.password) {
+    return 'Usuário não encontrado';
+  }
+
+  if (!senhaAtual || !(await cryptoService.comparePassword(senhaAtual, usuario.password))) {
+    return ERRO_SENHA_ATUAL;
+  }
+
+  const erroSenha = validarNovaSenha(novaSenha);
+  if (erroSenha) return erroSenha;
+
+  if (senhaAtual === novaSenha) {
+    return 'A nova senha deve ser diferente da atual';
+  }
+
+  await usersService.update(codUsuario, { password: await cryptoService.hashPassword(novaSenha) });
+  await encerrarSessoesUsuario(codUsuario, manterToken);
+
+  console.log('✅ Senha alterada pelo próprio usuário:', codUsuario);
+  return null;
+}
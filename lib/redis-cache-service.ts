@@ -1,3 +1,5 @@
+import { PREFIXO_SESSAO } from './session-store';
+
 
 interface CacheEntry<T> {
   data: T;
@@ -248,12 +250,16 @@ class RedisCacheService {
     }
   }
 
+  // Sessões (PREFIXO_SESSAO) dividem o mesmo Redis e não são cache: limpar o cache não desloga ninguém
   async clear(): Promise<void> {
     this.memoryCache.clear();
     
     if (this.useRedis && this.redisClient) {
       try {
-        await this.redisClient.flushDb();
+        const keys = (await this.redisClient.keys('*') as string[]).filter(key => !key.startsWith(PREFIXO_SESSAO));
+        if (keys.length > 0) {
+          await this.redisClient.del(keys);
+        }
         console.log('🗑️ Cache Redis limpo completamente');
       } catch (error) {
         console.error('❌ Erro ao limpar Redis:', error);
@@ -292,7 +298,7 @@ class RedisCacheService {
     // Limpar do Redis
     if (this.useRedis && this.redisClient) {
       try {
-        const keys = await this.redisClient.keys(`*${pattern}*`);
+        const keys = (await this.redisClient.keys(`*${pattern}*`) as string[]).filter(key => !key.startsWith(PREFIXO_SESSAO));
         if (keys.length > 0) {
           await this.redisClient.del(keys);
           count += keys.length;
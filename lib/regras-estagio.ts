@@ -0,0 +1,76 @@
+import type { EstagioFunil } from './funis-service';
+import type { Lead } from './leads-service';
+
+// Regras de mudança de estágio configuradas por estágio do funil.
+// Sem dependências de servidor: a API aplica as regras e a configuração de estágios usa as mesmas listas.
+//  - ESTAGIOS_PERMITIDOS: códigos dos estágios que podem vir a seguir (vazio = qualquer um)
+//  - CAMPOS_OBRIGATORIOS: campos do lead exigidos para entrar no estágio (PRODUTOS = ao menos um produto vinculado)
+//  - EXIGE_APROVACAO: 'S' quando a entrada no estágio depende de aprovação do gerente
+
+export const CAMPOS_EXIGIVEIS = [
+  { campo: 'CODPARC', rotulo: 'Cliente' },
+  { campo: 'VALOR', rotulo: 'Valor' },
+  { campo: 'DATA_VENCIMENTO', rotulo: 'Previsão de fechamento' },
+  { campo: 'DESCRICAO', rotulo: 'Descrição' },
+  { campo: 'PRODUTOS', rotulo: 'Produtos vinculados' }
+] as const;
+
+export type CampoExigivel = typeof CAMPOS_EXIGIVEIS[number]['campo'];
+
+// Listas são gravadas como códigos separados por vírgula
+export function lerLista(valor?: string | null): string[] {
+  return String(valor || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+export function montarLista(valores: string[]): string {
+  return Array.from(new Set(valores.map(v => String(v).trim()).filter(Boolean))).join(',');
+}
+
+export function exigeAprovacao(estagio?: Partial<EstagioFunil> | null): boolean {
+  return estagio?.EXIGE_APROVACAO === 'S';
+}
+
+function campoPreenchido(lead: Partial<Lead>, campo: CampoExigivel, qtdProdutos: number): boolean {
+  switch (campo) {
+    case 'PRODUTOS':
+      return qtdProdutos > 0;
+    case 'VALOR':
+      return Number(lead.VALOR) > 0;
+    default:
+      return String(lead[campo] ?? '').trim() !== '';
+  }
+}
+
+// Campos exigidos pelo estágio que o lead ainda não tem
+export function camposPendentes(destino: Partial<EstagioFunil>, lead: Partial<Lead>, qtdProdutos: number): string[] {
+  return CAMPOS_EXIGIVEIS
+    .filter(({ campo }) => lerLista(destino.CAMPOS_OBRIGATORIOS).includes(campo))
+    .filter(({ campo }) => !campoPreenchido(lead, campo, qtdProdutos))
+    .map(({ rotulo }) => rotulo);
+}
+
+// Retorna a mensagem de bloqueio ou null quando o lead pode entrar no estágio de destino.
+// Sem origem (criação do lead) só os campos obrigatórios são verificados.
+export function validarTransicao(
+  origem: Partial<EstagioFunil> | null | undefined,
+  destino: Partial<EstagioFunil>,
+  lead: Partial<Lead>,
+  qtdProdutos: number
+): string | null {
+  if (origem) {
+    const permitidos = lerLista(origem.ESTAGIOS_PERMITIDOS);
+    if (permitidos.length > 0 && !permitidos.includes(String(destino.CODESTAGIO))) {
+      return `O estágio "${origem.NOME}" não pode avançar para "${destino.NOME}"`;
+    }
+  }
+
+  const pendentes = camposPendentes(destino, lead, qtdProdutos);
+  if (pendentes.length > 0) {
+    return `Para entrar em "${destino.NOME}" preencha: ${pendentes.join(', ')}`;
+  }
+
+  return null;
+}
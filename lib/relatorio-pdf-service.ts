@@ -0,0 +1,214 @@
+// Geração de relatórios PDF tabulares sem dependências externas (ex.: relatório do pipeline).
+// Página A4 em paisagem, fontes padrão do PDF (Helvetica) com codificação WinAnsi para acentos.
+
+export interface ColunaPdf {
+  titulo: string
+  largura: number // proporção relativa entre as colunas
+  alinhamento?: 'esquerda' | 'direita'
+}
+
+export interface TabelaPdf {
+  titulo?: string
+  colunas: ColunaPdf[]
+  linhas: string[][]
+  totais?: string[] // linha final em negrito
+}
+
+export interface DocumentoPdf {
+  titulo: string
+  subtitulo?: string
+  indicadores?: { rotulo: string; valor: string }[]
+  tabelas: TabelaPdf[]
+}
+
+const LARGURA_PAGINA = 842;
+const ALTURA_PAGINA = 595;
+const MARGEM = 36;
+const ALTURA_LINHA = 16;
+const TAMANHO_FONTE = 8;
+
+// Largura média de caractere da Helvetica (em unidades da fonte); suficiente para truncar textos
+const LARGURA_MEDIA_CARACTERE = 0.52;
+
+// Texto para string literal PDF em WinAnsi: escapa delimitadores e troca o que não existe na codificação
+function textoPdf(texto: string): string {
+  const convertido = texto
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201C\u201D]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/\u2026/g, '...')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+  return convertido.replace(/[\\()]/g, caractere => `\\${caractere}`);
+}
+
+function truncar(texto: string, largura: number, tamanhoFonte: number): string {
+  const maximo = Math.floor(largura / (tamanhoFonte * LARGURA_MEDIA_CARACTERE));
+  return texto.length > maximo ? `${texto.slice(0, Math.max(0, maximo - 3))}...` : texto;
+}
+
+function larguraTexto(texto: string, tamanhoFonte: number): number {
+  return texto.length * tamanhoFonte * LARGURA_MEDIA_CARACTERE;
+}
+
+class Paginador {
+  paginas: string[][] = [];
+  private atual: string[] = [];
+  y = 0;
+
+  constructor() {
+    this.novaPagina();
+  }
+
+  novaPagina() {
+    this.atual = [];
+    this.paginas.push(this.atual);
+    this.y = ALTURA_PAGINA - MARGEM;
+  }
+
+  // Garante espaço para a próxima linha; retorna true quando abriu página nova
+  reservar(altura: number): boolean {
+    if (this.y - altura < MARGEM + 20) {
+      this.novaPagina();
+      return true;
+    }
+    return false;
+  }
+
+  texto(x: number, y: number, texto: string, opcoes: { negrito?: boolean; tamanho?: number; cor?: string } = {}) {
+    const fonte = opcoes.negrito ? 'F2' : 'F1';
+    this.atual.push(`BT ${opcoes.cor || '0 0 0'} rg /${fonte} ${opcoes.tamanho || TAMANHO_FONTE} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${textoPdf(texto)}) Tj ET`);
+  }
+
+  retangulo(x: number, y: number, largura: number, altura: number, cor: string) {
+    this.atual.push(`${cor} rg ${x.toFixed(2)} ${y.toFixed(2)} ${largura.toFixed(2)} ${altura.toFixed(2)} re f`);
+  }
+}
+
+function desenharLinhaTabela(
+  paginador: Paginador,
+  colunas: ColunaPdf[],
+  larguras: number[],
+  valores: string[],
+  estilo: { negrito?: boolean; fundo?: string; cor?: string }
+) {
+  const base = paginador.y - ALTURA_LINHA;
+  if (estilo.fundo) {
+    paginador.retangulo(MARGEM, base, LARGURA_PAGINA - 2 * MARGEM, ALTURA_LINHA, estilo.fundo);
+  }
+
+  let x = MARGEM;
+  colunas.forEach((coluna, i) => {
+    const texto = truncar(valores[i] ?? '', larguras[i] - 8, TAMANHO_FONTE);
+    const posicao = coluna.alinhamento === 'direita'
+      ? x + larguras[i] - 4 - larguraTexto(texto, TAMANHO_FONTE)
+      : x + 4;
+    paginador.texto(posicao, base + 5, texto, { negrito: estilo.negrito, cor: estilo.cor });
+    x += larguras[i];
+  });
+
+  paginador.y = base;
+}
+
+function desenharTabela(paginador: Paginador, tabela: TabelaPdf) {
+  const larguraUtil = LARGURA_PAGINA - 2 * MARGEM;
+  const somaProporcoes = tabela.colunas.reduce((soma, c) => soma + c.largura, 0);
+  const larguras = tabela.colunas.map(c => (c.largura / somaProporcoes) * larguraUtil);
+
+  const cabecalho = () => desenharLinhaTabela(
+    paginador, tabela.colunas, larguras, tabela.colunas.map(c => c.titulo),
+    { negrito: true, fundo: '0.20 0.29 0.45', cor: '1 1 1' }
+  );
+
+  paginador.reservar(ALTURA_LINHA * 3 + 18);
+  if (tabela.titulo) {
+    paginador.texto(MARGEM, paginador.y - 12, tabela.titulo, { negrito: true, tamanho: 11 });
+    paginador.y -= 20;
+  }
+  cabecalho();
+
+  if (tabela.linhas.length === 0) {
+    desenharLinhaTabela(paginador, tabela.colunas, larguras, ['Nenhum registro'], { cor: '0.4 0.4 0.4' });
+  }
+
+  tabela.linhas.forEach((linha, i) => {
+    // Cabeçalho da tabela repetido em cada página
+    if (paginador.reservar(ALTURA_LINHA)) cabecalho();
+    desenharLinhaTabela(paginador, tabela.colunas, larguras, linha, { fundo: i % 2 === 1 ? '0.95 0.95 0.95' : undefined });
+  });
+
+  if (tabela.totais) {
+    if (paginador.reservar(ALTURA_LINHA)) cabecalho();
+    desenharLinhaTabela(paginador, tabela.colunas, larguras, tabela.totais, { negrito: true, fundo: '0.88 0.90 0.94' });
+  }
+
+  paginador.y -= 18;
+}
+
+export function gerarPdf(documento: DocumentoPdf): Buffer {
+  const paginador = new Paginador();
+
+  paginador.texto(MARGEM, paginador.y - 16, documento.titulo, { negrito: true, tamanho: 16 });
+  paginador.y -= 24;
+  if (documento.subtitulo) {
+    paginador.texto(MARGEM, paginador.y - 10, documento.subtitulo, { tamanho: 9, cor: '0.35 0.35 0.35' });
+    paginador.y -= 18;
+  }
+
+  // Indicadores em blocos lado a lado
+  if (documento.indicadores?.length) {
+    const largura = (LARGURA_PAGINA - 2 * MARGEM) / documento.indicadores.length;
+    documento.indicadores.forEach((indicador, i) => {
+      const x = MARGEM + i * largura;
+      paginador.retangulo(x + 2, paginador.y - 40, largura - 4, 36, '0.93 0.95 0.98');
+      paginador.texto(x + 10, paginador.y - 16, indicador.rotulo, { tamanho: 8, cor: '0.35 0.35 0.35' });
+      paginador.texto(x + 10, paginador.y - 32, indicador.valor, { negrito: true, tamanho: 12 });
+    });
+    paginador.y -= 56;
+  }
+
+  for (const tabela of documento.tabelas) {
+    desenharTabela(paginador, tabela);
+  }
+
+  // Rodapé com a numeração das páginas (total conhecido só após a paginação)
+  const total = paginador.paginas.length;
+  const conteudos = paginador.paginas.map((comandos, i) => {
+    const rodape = `Página ${i + 1} de ${total}`;
+    return [
+      ...comandos,
+      `BT 0.45 0.45 0.45 rg /F1 7 Tf ${(LARGURA_PAGINA - MARGEM - larguraTexto(rodape, 7)).toFixed(2)} ${(MARGEM - 14).toFixed(2)} Td (${textoPdf(rodape)}) Tj ET`
+    ].join('\n');
+  });
+
+  // Objetos: 1 catálogo, 2 árvore de páginas, 3-4 fontes, depois (página, conteúdo) para cada página
+  const objetos: string[] = [];
+  const idsPaginas = conteudos.map((_, i) => 5 + i * 2);
+
+  objetos.push('<< /Type /Catalog /Pages 2 0 R >>');
+  objetos.push(`<< /Type /Pages /Kids [${idsPaginas.map(id => `${id} 0 R`).join(' ')}] /Count ${total} >>`);
+  objetos.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  objetos.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+
+  conteudos.forEach((conteudo, i) => {
+    objetos.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${LARGURA_PAGINA} ${ALTURA_PAGINA}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${idsPaginas[i] + 1} 0 R >>`
+    );
+    objetos.push(`<< /Length ${Buffer.byteLength(conteudo, 'latin1')} >>\nstream\n${conteudo}\nendstream`);
+  });
+
+  // Conteúdo montado em latin1 (WinAnsi): offsets do xref em bytes
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objetos.forEach((objeto, i) => {
+    offsets.push(Buffer.byteLength(pdf, 'latin1'));
+    pdf += `${i + 1} 0 obj\n${objeto}\nendobj\n`;
+  });
+
+  const inicioXref = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objetos.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objetos.length + 1} /Root 1 0 R >>\nstartxref\n${inicioXref}\n%%EOF`;
+
+  return Buffer.from(pdf, 'latin1');
+}
@@ -1,195 +1,6 @@
-import axios from 'axios';
 import { redisCacheService } from './redis-cache-service';
-
-// Configuração da API
-const ENDPOINT_LOGIN = "https://api.sandbox.sankhya.com.br/login";
-const URL_CONSULTA_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=CRUDServiceProvider.loadRecords&outputType=json";
-const URL_SAVE_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=CRUDServiceProvider.saveRecord&outputType=json";
-
-const LOGIN_HEADERS = {
-  'token': process.env.SANKHYA_TOKEN || "",
-  'appkey': process.env.SANKHYA_APPKEY || "",
-  'username': process.env.SANKHYA_USERNAME || "",
-  'password': process.env.SANKHYA_PASSWORD || ""
-};
-
-// Pool de conexões HTTP otimizado
-const http = require('http');
-const https = require('https');
-
-const httpAgent = new http.Agent({
-  keepAlive: true,
-  keepAliveMsecs: 30000,
-  maxSockets: 50,
-  maxFreeSockets: 10,
-  timeout: 30000
-});
-
-const httpsAgent = new https.Agent({
-  keepAlive: true,
-  keepAliveMsecs: 30000,
-  maxSockets: 50,
-  maxFreeSockets: 10,
-  timeout: 30000,
-  rejectUnauthorized: true
-});
-
-// Instância axios otimizada
-const axiosInstance = axios.create({
-  httpAgent,
-  httpsAgent,
-  timeout: 20000,
-  maxContentLength: 50 * 1024 * 1024, // 50MB
-  maxBodyLength: 50 * 1024 * 1024
-});
-
-let cachedToken: string | null = null;
-let tokenPromise: Promise<string> | null = null;
-
-// Obter Token com debouncing para evitar múltiplas requisições simultâneas
-async function obterToken(retryCount = 0): Promise<string> {
-  // Se já tem token em cache, retornar imediatamente
-  if (cachedToken) {
-    return cachedToken;
-  }
-
-  // Se já está buscando token, aguardar a requisição em andamento
-  if (tokenPromise) {
-    return tokenPromise;
-  }
-
-  const MAX_RETRIES = 3;
-  const RETRY_DELAY = 1000;
-
-  // Criar promise para evitar requisições duplicadas
-  tokenPromise = (async () => {
-    try {
-      console.log("🔐 Solicitando novo token de autenticação...");
-      const resposta = await axiosInstance.post(ENDPOINT_LOGIN, {}, {
-        headers: LOGIN_HEADERS,
-        timeout: 10000
-      });
-
-    console.log("📥 Resposta de login recebida:", {
-      status: resposta.status,
-      hasToken: !!(resposta.data.bearerToken || resposta.data.token)
-    });
-
-    const token = resposta.data.bearerToken || resposta.data.token;
-
-    if (!token) {
-      console.error("❌ Token não encontrado na resposta:", resposta.data);
-      throw new Error("Resposta de login do Sankhya não continha o token esperado.");
-    }
-
-    cachedToken = token;
-      console.log("✅ Token obtido e armazenado em cache");
-
-      // Salvar token no cache Redis também
-      await redisCacheService.set('sankhya:token', token, 50 * 60 * 1000); // 50 minutos
-
-      return token;
-
-    } catch (erro: any) {
-      // Se for erro 500 e ainda temos retries disponíveis
-      if (erro.response?.status === 500 && retryCount < MAX_RETRIES) {
-        console.log(`🔄 Tentando novamente autenticação (${retryCount + 1}/${MAX_RETRIES})...`);
-        await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * (retryCount + 1)));
-        tokenPromise = null; // Resetar promise
-        return obterToken(retryCount + 1);
-      }
-
-      const errorDetails = erro.response ? {
-        status: erro.response.status,
-        data: erro.response.data,
-        headers: erro.response.headers
-      } : {
-        message: erro.message,
-        code: erro.code
-      };
-
-      console.error("❌ Erro no Login Sankhya:", JSON.stringify(errorDetails, null, 2));
-
-      // Limpar cache em caso de erro
-      cachedToken = null;
-      tokenPromise = null;
-
-      // Mensagem de erro mais amigável
-      if (erro.response?.status === 500) {
-        throw new Error("Serviço Sankhya temporariamente indisponível. Tente novamente em instantes.");
-      }
-
-      throw new Error(`Falha na autenticação Sankhya: ${erro.response?.data?.error || erro.message}`);
-    } finally {
-      tokenPromise = null;
-    }
-  })();
-
-  return tokenPromise;
-}
-
-// Requisição Autenticada Genérica
-async function fazerRequisicaoAutenticada(fullUrl: string, method = 'POST', data = {}, retryCount = 0) {
-  const MAX_RETRIES = 2;
-  const RETRY_DELAY = 1000;
-
-  try {
-    const token = await obterToken();
-
-    const config = {
-      method: method.toLowerCase(),
-      url: fullUrl,
-      data: data,
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      },
-      timeout: 15000
-    };
-
-    const resposta = await axiosInstance(config);
-    return resposta.data;
-
-  } catch (erro: any) {
-    // Se token expirou, limpar cache e tentar novamente
-    if (erro.response && (erro.response.status === 401 || erro.response.status === 403)) {
-      cachedToken = null;
-
-      if (retryCount < 1) {
-        console.log("🔄 Token expirado, obtendo novo token...");
-        await new Promise(resolve => setTimeout(resolve, 500));
-        return fazerRequisicaoAutenticada(fullUrl, method, data, retryCount + 1);
-      }
-
-      throw new Error("Sessão expirada. Tente novamente.");
-    }
-
-    // Retry para erros de rede ou timeout
-    if ((erro.code === 'ECONNABORTED' || erro.code === 'ENOTFOUND' || erro.response?.status >= 500) && retryCount < MAX_RETRIES) {
-      console.log(`🔄 Tentando novamente requisição (${retryCount + 1}/${MAX_RETRIES})...`);
-      await new Promise(resolve => setTimeout(resolve, RETRY_DELAY * (retryCount + 1)));
-      return fazerRequisicaoAutenticada(fullUrl, method, data, retryCount + 1);
-    }
-
-    const errorDetails = erro.response?.data || erro.message;
-    console.error("❌ Erro na requisição Sankhya:", {
-      url: fullUrl,
-      method,
-      error: errorDetails
-    });
-
-    // Mensagem de erro mais amigável
-    if (erro.code === 'ECONNABORTED') {
-      throw new Error("Tempo de resposta excedido. Tente novamente.");
-    }
-
-    if (erro.response?.status >= 500) {
-      throw new Error("Serviço temporariamente indisponível. Tente novamente.");
-    }
-
-    throw new Error(erro.response?.data?.statusMessage || erro.message || "Erro na comunicação com o servidor");
-  }
-}
+import { loadRecords, datasetSave } from './sankhya-gateway';
+import { montarCriteria, eq, inList, inteiro, isNotNull, like, type Condicao } from './sankhya-criteria';
 
 // Mapeamento de Parceiros
 function mapearParceiros(entities: any) {
@@ -227,42 +38,43 @@ export async function consultarParceiros(page: number = 1, pageSize: number = 50
   }
 
   // Construir critério de busca
-  const filters: string[] = [];
+  const filters: (Condicao | null)[] = [];
 
   // SEMPRE filtrar apenas CLIENTES (CLIENTE = 'S')
-  filters.push(`CLIENTE = 'S'`);
+  filters.push(eq('CLIENTE', 'S'));
 
   // Filtro por código do parceiro
   if (searchCode.trim() !== '') {
-    const code = searchCode.trim();
-    filters.push(`CODPARC = ${code}`);
+    const code = inteiro(searchCode);
+    if (code === null) {
+      return { parceiros: [], total: 0, page, pageSize, totalPages: 0 };
+    }
+    filters.push(eq('CODPARC', code));
   }
 
   // Filtro por nome do parceiro
   if (searchName.trim() !== '') {
-    const name = searchName.trim().toUpperCase();
-    filters.push(`NOMEPARC LIKE '%${name}%'`);
+    filters.push(like('NOMEPARC', searchName.trim()));
   }
 
   // Filtro por vendedor ou equipe do gerente
   if (codVendedoresEquipe && codVendedoresEquipe.length > 0) {
     // Se é gerente com equipe, buscar clientes APENAS dos vendedores da equipe
-    const vendedoresList = codVendedoresEquipe.join(',');
-    console.log('🔍 Aplicando filtro de equipe do gerente:', vendedoresList);
-    filters.push(`CODVEND IN (${vendedoresList})`);
+    console.log('🔍 Aplicando filtro de equipe do gerente:', codVendedoresEquipe.join(','));
+    filters.push(inList('CODVEND', codVendedoresEquipe));
     // Garantir que CODVEND não seja nulo
-    filters.push(`CODVEND IS NOT NULL`);
+    filters.push(isNotNull('CODVEND'));
   } else if (codVendedor) {
     // Se é vendedor, buscar APENAS clientes com esse vendedor preferencial
     console.log('🔍 Aplicando filtro de vendedor único:', codVendedor);
-    filters.push(`CODVEND = ${codVendedor}`);
-    filters.push(`CODVEND IS NOT NULL`);
+    filters.push(eq('CODVEND', codVendedor));
+    filters.push(isNotNull('CODVEND'));
   } else {
     console.log('⚠️ Nenhum filtro de vendedor aplicado - buscando todos');
   }
 
   // Junta todos os filtros com AND
-  const criteriaExpression = filters.join(' AND ');
+  const criteria = montarCriteria(...filters);
 
   // Monta o payload base
   const dataSet: any = {
@@ -275,11 +87,7 @@ export async function consultarParceiros(page: number = 1, pageSize: number = 50
         "list": "CODPARC, NOMEPARC, CGC_CPF, CODCID, ATIVO, TIPPESSOA, RAZAOSOCIAL, IDENTINSCESTAD, CEP, CODEND, NUMEND, COMPLEMENTO, CODBAI, LATITUDE, LONGITUDE, CLIENTE, CODVEND"
       }
     },
-    "criteria": {
-      "expression": {
-        "$": criteriaExpression
-      }
-    }
+    "criteria": criteria
   };
 
   const PARCEIROS_PAYLOAD = {
@@ -294,14 +102,10 @@ export async function consultarParceiros(page: number = 1, pageSize: number = 50
       pageSize,
       searchName,
       searchCode,
-      criteriaExpression
+      criteria
     });
 
-    const respostaCompleta = await fazerRequisicaoAutenticada(
-      URL_CONSULTA_SERVICO,
-      'POST',
-      PARCEIROS_PAYLOAD
-    );
+    const respostaCompleta = await loadRecords(PARCEIROS_PAYLOAD);
 
     console.log("📦 Resposta da consulta recebida:", {
       hasEntities: !!respostaCompleta.responseBody?.entities,
@@ -315,7 +119,7 @@ export async function consultarParceiros(page: number = 1, pageSize: number = 50
       console.log("ℹ️ Nenhum parceiro encontrado:", {
         total: entities?.total || 0,
         hasMoreResult: entities?.hasMoreResult,
-        criteriaExpression
+        criteria
       });
 
       return {
@@ -349,6 +153,77 @@ export async function consultarParceiros(page: number = 1, pageSize: number = 50
   }
 }
 
+// Consultar Parceiros por uma lista de códigos ou CPF/CNPJ, em blocos para não estourar o IN
+async function consultarParceirosEmBlocos(campo: 'CODPARC' | 'CGC_CPF', valores: (string | number)[]): Promise<{ CODPARC: string; NOMEPARC: string; CGC_CPF: string }[]> {
+  const unicos = Array.from(new Set(valores.map(String).filter(Boolean)));
+  const parceiros: { CODPARC: string; NOMEPARC: string; CGC_CPF: string }[] = [];
+
+  for (let i = 0; i < unicos.length; i += 200) {
+    const bloco = unicos.slice(i, i + 200);
+    const PAYLOAD = {
+      "requestBody": {
+        "dataSet": {
+          "rootEntity": "Parceiro",
+          "includePresentationFields": "N",
+          "offsetPage": null,
+          "disableRowsLimit": true,
+          "entity": {
+            "fieldset": {
+              "list": "CODPARC, NOMEPARC, CGC_CPF"
+            }
+          },
+          "criteria": montarCriteria(inList(campo, campo === 'CODPARC' ? bloco.map(Number) : bloco))
+        }
+      }
+    };
+
+    const resposta = await loadRecords(PAYLOAD);
+    const entities = resposta.responseBody?.entities;
+
+    if (entities?.entity) {
+      parceiros.push(...mapearParceiros(entities));
+    }
+  }
+
+  return parceiros;
+}
+
+// CPF/CNPJ gravado somente com dígitos
+export async function consultarParceirosPorDocumento(documentos: string[]) {
+  return consultarParceirosEmBlocos('CGC_CPF', documentos.map(d => String(d).replace(/\D/g, '')));
+}
+
+export async function consultarParceirosPorCodigo(codigos: (string | number)[]) {
+  return consultarParceirosEmBlocos('CODPARC', codigos);
+}
+
+// Candidatos para a checagem de nome semelhante (ver ./duplicidade): parceiros cujo nome
+// contém o termo mais longo do nome informado; a comparação fina é feita em memória
+export async function consultarParceirosSemelhantes(termo: string): Promise<{ CODPARC: string; NOMEPARC: string; CGC_CPF: string }[]> {
+  if (termo.trim().length < 3) return [];
+
+  const PAYLOAD = {
+    "requestBody": {
+      "dataSet": {
+        "rootEntity": "Parceiro",
+        "includePresentationFields": "N",
+        "offsetPage": "0",
+        "entity": {
+          "fieldset": {
+            "list": "CODPARC, NOMEPARC, CGC_CPF"
+          }
+        },
+        "criteria": montarCriteria(like('NOMEPARC', termo.trim()))
+      }
+    }
+  };
+
+  const resposta = await loadRecords(PAYLOAD);
+  const entities = resposta.responseBody?.entities;
+
+  return entities?.entity ? mapearParceiros(entities) : [];
+}
+
 // Consultar Tipos de Operação
 export async function consultarTiposOperacao() {
   const cacheKey = 'tipos:operacao:all';
@@ -388,11 +263,7 @@ export async function consultarTiposOperacao() {
   try {
     console.log("🔍 Buscando tipos de operação...");
 
-    const respostaCompleta = await fazerRequisicaoAutenticada(
-      URL_CONSULTA_SERVICO,
-      'POST',
-      PAYLOAD
-    );
+    const respostaCompleta = await loadRecords(PAYLOAD);
 
     const entities = respostaCompleta.responseBody.entities;
 
@@ -468,11 +339,7 @@ export async function consultarTiposNegociacao() {
   try {
     console.log("🔍 Buscando tipos de negociação...");
 
-    const respostaCompleta = await fazerRequisicaoAutenticada(
-      URL_CONSULTA_SERVICO,
-      'POST',
-      PAYLOAD
-    );
+    const respostaCompleta = await loadRecords(PAYLOAD);
 
     const entities = respostaCompleta.responseBody.entities;
 
@@ -531,11 +398,7 @@ export async function consultarComplementoParceiro(codParc: string) {
             "list": "CODPARC, SUGTIPNEGSAID"
           }
         },
-        "criteria": {
-          "expression": {
-            "$": `CODPARC = ${codParc}`
-          }
-        }
+        "criteria": montarCriteria(eq('CODPARC', Number(codParc)))
       }
     }
   };
@@ -543,11 +406,7 @@ export async function consultarComplementoParceiro(codParc: string) {
   try {
     console.log(`🔍 Buscando complemento do parceiro ${codParc}...`);
 
-    const respostaCompleta = await fazerRequisicaoAutenticada(
-      URL_CONSULTA_SERVICO,
-      'POST',
-      PAYLOAD
-    );
+    const respostaCompleta = await loadRecords(PAYLOAD);
 
     const entities = respostaCompleta.responseBody.entities;
 
@@ -602,7 +461,6 @@ export async function salvarParceiro(parceiro: {
 }) {
   // Se tem CODPARC, é atualização (usa DatasetSP.save com pk)
   if (parceiro.CODPARC) {
-    const URL_UPDATE_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=DatasetSP.save&outputType=json";
 
     const UPDATE_PAYLOAD = {
       "serviceName": "DatasetSP.save",
@@ -664,11 +522,7 @@ export async function salvarParceiro(parceiro: {
         tipo: parceiro.TIPPESSOA
       });
 
-      const resposta = await fazerRequisicaoAutenticada(
-        URL_UPDATE_SERVICO,
-        'POST',
-        UPDATE_PAYLOAD
-      );
+      const resposta = await datasetSave(UPDATE_PAYLOAD);
 
       console.log("✅ Parceiro atualizado com sucesso:", resposta);
 
@@ -692,7 +546,6 @@ export async function salvarParceiro(parceiro: {
   }
 
   // Se não tem CODPARC, é criação (usa DatasetSP.save)
-  const URL_CREATE_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=DatasetSP.save&outputType=json";
 
   const CREATE_PAYLOAD = {
     "serviceName": "DatasetSP.save",
@@ -750,11 +603,7 @@ export async function salvarParceiro(parceiro: {
       tipo: parceiro.TIPPESSOA
     });
 
-    const resposta = await fazerRequisicaoAutenticada(
-      URL_CREATE_SERVICO,
-      'POST',
-      CREATE_PAYLOAD
-    );
+    const resposta = await datasetSave(CREATE_PAYLOAD);
 
     console.log("✅ Parceiro criado com sucesso:", resposta);
 
@@ -791,11 +640,7 @@ export async function consultarTipVendaPorModelo(codTipOper: string) {
             "list": "NUNOTA, CODTIPOPER, CODTIPVENDA"
           }
         },
-        "criteria": {
-          "expression": {
-            "$": `TIPMOV = 'Z' AND CODTIPOPER = ${codTipOper}`
-          }
-        },
+        "criteria": montarCriteria(eq('TIPMOV', 'Z'), eq('CODTIPOPER', Number(codTipOper))),
         "orderBy": {
           "expression": {
             "$": "NUNOTA DESC"
@@ -808,11 +653,7 @@ export async function consultarTipVendaPorModelo(codTipOper: string) {
   try {
     console.log(`🔍 Buscando CODTIPVENDA e NUNOTA para modelo ${codTipOper} com TIPMOV = 'Z'...`);
 
-    const respostaCompleta = await fazerRequisicaoAutenticada(
-      URL_CONSULTA_SERVICO,
-      'POST',
-      PAYLOAD
-    );
+    const respostaCompleta = await loadRecords(PAYLOAD);
 
     const entities = respostaCompleta.responseBody.entities;
 
@@ -856,11 +697,7 @@ export async function consultarDadosModeloNota(nunota: string) {
             "list": "NUNOTA, CODTIPOPER, CODTIPVENDA"
           }
         },
-        "criteria": {
-          "expression": {
-            "$": `NUNOTA = ${nunota}`
-          }
-        }
+        "criteria": montarCriteria(eq('NUNOTA', Number(nunota)))
       }
     }
   };
@@ -868,11 +705,7 @@ export async function consultarDadosModeloNota(nunota: string) {
   try {
     console.log(`🔍 Buscando dados do modelo NUNOTA ${nunota}...`);
 
-    const respostaCompleta = await fazerRequisicaoAutenticada(
-      URL_CONSULTA_SERVICO,
-      'POST',
-      PAYLOAD
-    );
+    const respostaCompleta = await loadRecords(PAYLOAD);
 
     const entities = respostaCompleta.responseBody.entities;
 
@@ -0,0 +1,131 @@
+// Configuração do ambiente Sankhya (sandbox x produção) lida das variáveis de ambiente
+export type AmbienteSankhya = 'sandbox' | 'producao';
+
+export interface SankhyaConfig {
+  ambiente: AmbienteSankhya
+  baseUrl: string
+  gatewayPath: string
+  credenciais: {
+    token: string
+    appkey: string
+    username: string
+    password: string
+  }
+}
+
+export interface ResumoAmbienteSankhya {
+  ambiente: AmbienteSankhya
+  baseUrl: string
+  gatewayPath: string
+  username: string
+  appkey: string
+  urlPersonalizada: boolean
+}
+
+const URLS_POR_AMBIENTE: Record<AmbienteSankhya, string> = {
+  sandbox: "https://api.sandbox.sankhya.com.br",
+  producao: "https://api.sankhya.com.br"
+};
+
+const GATEWAY_PATH_PADRAO = "/gateway/v1/mge/service.sbr";
+
+const VARIAVEIS_OBRIGATORIAS = [
+  'SANKHYA_TOKEN',
+  'SANKHYA_APPKEY',
+  'SANKHYA_USERNAME',
+  'SANKHYA_PASSWORD'
+] as const;
+
+let configCache: SankhyaConfig | null = null;
+
+function lerAmbiente(env: NodeJS.ProcessEnv): AmbienteSankhya {
+  const valor = (env.SANKHYA_AMBIENTE || 'sandbox').trim().toLowerCase();
+
+  if (valor === 'producao' || valor === 'produção' || valor === 'production') {
+    return 'producao';
+  }
+
+  if (valor === 'sandbox') {
+    return 'sandbox';
+  }
+
+  throw new Error(`SANKHYA_AMBIENTE inválido: "${env.SANKHYA_AMBIENTE}". Use "sandbox" ou "producao".`);
+}
+
+function normalizarUrl(url: string, variavel: string): string {
+  const semBarra = url.trim().replace(/\/+$/, '');
+
+  try {
+    const parsed = new URL(semBarra);
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+      throw new Error();
+    }
+  } catch {
+    throw new Error(`${variavel} inválida: "${url}". Informe uma URL completa, ex.: https://api.sankhya.com.br`);
+  }
+
+  return semBarra;
+}
+
+// Resolve apenas a URL base, sem exigir credenciais (usado em páginas e preconnect)
+export function resolverUrlBaseSankhya(env: NodeJS.ProcessEnv = process.env): string {
+  const ambiente = lerAmbiente(env);
+  return env.SANKHYA_BASE_URL
+    ? normalizarUrl(env.SANKHYA_BASE_URL, 'SANKHYA_BASE_URL')
+    : URLS_POR_AMBIENTE[ambiente];
+}
+
+// Monta e valida a configuração; lança erro listando todas as variáveis ausentes
+export function carregarConfigSankhya(env: NodeJS.ProcessEnv = process.env): SankhyaConfig {
+  const ausentes = VARIAVEIS_OBRIGATORIAS.filter(nome => !env[nome] || !env[nome]!.trim());
+
+  if (ausentes.length > 0) {
+    throw new Error(`Configuração Sankhya incompleta. Variáveis ausentes: ${ausentes.join(', ')}`);
+  }
+
+  const gatewayPath = (env.SANKHYA_GATEWAY_PATH || GATEWAY_PATH_PADRAO).trim();
+
+  return {
+    ambiente: lerAmbiente(env),
+    baseUrl: resolverUrlBaseSankhya(env),
+    gatewayPath: gatewayPath.startsWith('/') ? gatewayPath : `/${gatewayPath}`,
+    credenciais: {
+      token: env.SANKHYA_TOKEN!,
+      appkey: env.SANKHYA_APPKEY!,
+      username: env.SANKHYA_USERNAME!,
+      password: env.SANKHYA_PASSWORD!
+    }
+  };
+}
+
+export function obterConfigSankhya(): SankhyaConfig {
+  if (!configCache) {
+    configCache = carregarConfigSankhya();
+  }
+  return configCache;
+}
+
+// Checagem de inicialização: registra o ambiente ativo ou interrompe o servidor
+export function validarConfigSankhya(): SankhyaConfig {
+  const config = carregarConfigSankhya();
+  configCache = config;
+  console.log(`✅ Sankhya configurado para o ambiente "${config.ambiente}" (${config.baseUrl})`);
+  return config;
+}
+
+function mascarar(valor: string): string {
+  if (valor.length <= 4) return '****';
+  return `${valor.slice(0, 2)}${'*'.repeat(Math.max(valor.length - 4, 4))}${valor.slice(-2)}`;
+}
+
+// Dados seguros para exibição na tela de administração (sem senha e token)
+export function resumirAmbienteSankhya(config: SankhyaConfig = obterConfigSankhya()): ResumoAmbienteSankhya {
+  return {
+    ambiente: config.ambiente,
+    baseUrl: config.baseUrl,
+    gatewayPath: config.gatewayPath,
+    username: config.credenciais.username,
+    appkey: mascarar(config.credenciais.appkey),
+    urlPersonalizada: !!process.env.SANKHYA_BASE_URL
+  };
+}
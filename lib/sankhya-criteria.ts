@@ -0,0 +1,194 @@
+// Construtor de critérios (criteria.expression + parameter) para o loadRecords do Sankhya.
+// Valores nunca são concatenados na expressão: viram parâmetros "?" tipados.
+
+// Tipos aceitos pelo gateway: S = texto, I = inteiro, F = decimal, D = data (DD/MM/YYYY)
+export type TipoParametro = 'S' | 'I' | 'F' | 'D';
+
+export interface ParametroCriteria {
+  $: string
+  type: TipoParametro
+}
+
+export interface CriteriaSankhya {
+  expression: { $: string }
+  parameter?: ParametroCriteria[]
+}
+
+export interface Condicao {
+  expressao: string
+  parametros: ParametroCriteria[]
+}
+
+export type ValorCriteria = string | number | Date;
+
+// Condições opcionais podem ser passadas como false/null/undefined e são ignoradas
+type CondicaoOpcional = Condicao | null | undefined | false;
+
+const CAMPO_VALIDO = /^[A-Za-z_][A-Za-z0-9_]*(\.[A-Za-z_][A-Za-z0-9_]*)?$/;
+
+function validarCampo(campo: string): string {
+  if (!CAMPO_VALIDO.test(campo)) {
+    throw new Error(`Campo inválido no critério: "${campo}"`);
+  }
+  return campo;
+}
+
+function formatarData(data: Date): string {
+  const dia = String(data.getDate()).padStart(2, '0');
+  const mes = String(data.getMonth() + 1).padStart(2, '0');
+  return `${dia}/${mes}/${data.getFullYear()}`;
+}
+
+// Aceita Date, YYYY-MM-DD (inputs HTML) ou DD/MM/YYYY (formato Sankhya)
+function normalizarData(valor: string | Date): string {
+  if (valor instanceof Date) {
+    if (isNaN(valor.getTime())) throw new Error('Data inválida no critério');
+    return formatarData(valor);
+  }
+
+  const texto = valor.trim();
+  const iso = texto.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return `${iso[3]}/${iso[2]}/${iso[1]}`;
+  }
+
+  if (/^\d{2}\/\d{2}\/\d{4}$/.test(texto)) {
+    return texto;
+  }
+
+  throw new Error(`Data inválida no critério: "${valor}"`);
+}
+
+function parametro(valor: ValorCriteria): ParametroCriteria {
+  if (valor instanceof Date) {
+    return { $: normalizarData(valor), type: 'D' };
+  }
+
+  if (typeof valor === 'number') {
+    if (!Number.isFinite(valor)) {
+      throw new Error(`Valor numérico inválido no critério: ${valor}`);
+    }
+    return { $: String(valor), type: Number.isInteger(valor) ? 'I' : 'F' };
+  }
+
+  return { $: String(valor), type: 'S' };
+}
+
+function comparar(campo: string, operador: string, valor: ValorCriteria): Condicao {
+  return {
+    expressao: `${validarCampo(campo)} ${operador} ?`,
+    parametros: [parametro(valor)]
+  };
+}
+
+export const eq = (campo: string, valor: ValorCriteria) => comparar(campo, '=', valor);
+export const neq = (campo: string, valor: ValorCriteria) => comparar(campo, '<>', valor);
+export const gt = (campo: string, valor: ValorCriteria) => comparar(campo, '>', valor);
+export const gte = (campo: string, valor: ValorCriteria) => comparar(campo, '>=', valor);
+export const lt = (campo: string, valor: ValorCriteria) => comparar(campo, '<', valor);
+export const lte = (campo: string, valor: ValorCriteria) => comparar(campo, '<=', valor);
+
+export function isNull(campo: string): Condicao {
+  return { expressao: `${validarCampo(campo)} IS NULL`, parametros: [] };
+}
+
+export function isNotNull(campo: string): Condicao {
+  return { expressao: `${validarCampo(campo)} IS NOT NULL`, parametros: [] };
+}
+
+// Comparação sem diferenciar maiúsculas: UPPER(CAMPO) = ?
+export function eqIgnorandoCaixa(campo: string, valor: string): Condicao {
+  return {
+    expressao: `UPPER(${validarCampo(campo)}) = ?`,
+    parametros: [parametro(valor.toUpperCase())]
+  };
+}
+
+export function inList(campo: string, valores: ValorCriteria[]): Condicao {
+  // IN () é inválido em SQL; lista vazia não deve casar com nenhum registro
+  if (valores.length === 0) {
+    return { expressao: '1 = 0', parametros: [] };
+  }
+
+  return {
+    expressao: `${validarCampo(campo)} IN (${valores.map(() => '?').join(', ')})`,
+    parametros: valores.map(parametro)
+  };
+}
+
+// Intervalo de datas; qualquer limite ausente é ignorado
+export function entreDatas(campo: string, inicio?: string | Date | null, fim?: string | Date | null): Condicao | null {
+  return and(
+    inicio ? { expressao: `${validarCampo(campo)} >= ?`, parametros: [{ $: normalizarData(inicio), type: 'D' }] } : null,
+    fim ? { expressao: `${validarCampo(campo)} <= ?`, parametros: [{ $: normalizarData(fim), type: 'D' }] } : null
+  );
+}
+
+export type ModoLike = 'contem' | 'comeca' | 'termina';
+
+// LIKE com curingas do usuário (% e _) escapados; ignora maiúsculas por padrão
+export function like(
+  campo: string,
+  termo: string,
+  modo: ModoLike = 'contem',
+  ignorarCaixa: boolean = true
+): Condicao {
+  const escapado = termo.replace(/[\\%_]/g, c => `\\${c}`);
+  const valor = ignorarCaixa ? escapado.toUpperCase() : escapado;
+  const padrao = modo === 'comeca' ? `${valor}%` : modo === 'termina' ? `%${valor}` : `%${valor}%`;
+  const alvo = ignorarCaixa ? `UPPER(${validarCampo(campo)})` : validarCampo(campo);
+
+  return {
+    expressao: `${alvo} LIKE ? ESCAPE '\\'`,
+    parametros: [{ $: padrao, type: 'S' }]
+  };
+}
+
+function agrupar(operador: 'AND' | 'OR', condicoes: CondicaoOpcional[]): Condicao | null {
+  const validas = condicoes.filter((c): c is Condicao => !!c);
+
+  if (validas.length === 0) return null;
+  if (validas.length === 1) return validas[0];
+
+  return {
+    expressao: validas.map(c => `(${c.expressao})`).join(` ${operador} `),
+    parametros: validas.flatMap(c => c.parametros)
+  };
+}
+
+export function and(...condicoes: CondicaoOpcional[]): Condicao | null {
+  return agrupar('AND', condicoes);
+}
+
+export function or(...condicoes: CondicaoOpcional[]): Condicao | null {
+  return agrupar('OR', condicoes);
+}
+
+// Trecho de SQL fixo escrito no código (ex.: subconsultas), com "?" para cada valor
+export function expressao(sql: string, ...valores: ValorCriteria[]): Condicao {
+  const marcadores = (sql.match(/\?/g) || []).length;
+  if (marcadores !== valores.length) {
+    throw new Error(`Expressão "${sql}" espera ${marcadores} parâmetro(s), recebeu ${valores.length}`);
+  }
+  return { expressao: sql, parametros: valores.map(parametro) };
+}
+
+// Converte a condição no bloco "criteria" do dataSet
+export function montarCriteria(...condicoes: CondicaoOpcional[]): CriteriaSankhya {
+  const condicao = and(...condicoes);
+
+  if (!condicao) {
+    return { expression: { $: '1 = 1' } };
+  }
+
+  return condicao.parametros.length > 0
+    ? { expression: { $: condicao.expressao }, parameter: condicao.parametros }
+    : { expression: { $: condicao.expressao } };
+}
+
+// Converte texto de requisição em inteiro; retorna null quando não é um número válido
+export function inteiro(valor: string | number | null | undefined): number | null {
+  if (valor === null || valor === undefined || valor === '') return null;
+  const numero = typeof valor === 'number' ? valor : Number(String(valor).trim());
+  return Number.isInteger(numero) ? numero : null;
+}
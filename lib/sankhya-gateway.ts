@@ -0,0 +1,361 @@
+import axios from 'axios';
+import { redisCacheService } from './redis-cache-service';
+import { obterConfigSankhya } from './sankhya-config';
+
+// Cliente único do gateway Sankhya: token, retry/backoff e helpers de serviço
+// URLs e credenciais vêm de ./sankhya-config (SANKHYA_AMBIENTE, SANKHYA_BASE_URL, ...)
+
+// Política de retry única para todos os serviços
+const RETRY_POLICY = {
+  maxTentativasLogin: 3,
+  maxTentativasRequisicao: 2,
+  atrasoBase: 1000,   // 1s, dobrando a cada tentativa
+  atrasoMaximo: 5000  // teto do backoff
+};
+
+const TOKEN_DURATION = 55 * 60 * 1000; // 55 minutos em ms
+
+// Pool de conexões HTTP otimizado
+const http = require('http');
+const https = require('https');
+
+const httpAgent = new http.Agent({
+  keepAlive: true,
+  keepAliveMsecs: 30000,
+  maxSockets: 50,
+  maxFreeSockets: 10,
+  timeout: 30000
+});
+
+const httpsAgent = new https.Agent({
+  keepAlive: true,
+  keepAliveMsecs: 30000,
+  maxSockets: 50,
+  maxFreeSockets: 10,
+  timeout: 30000,
+  rejectUnauthorized: true
+});
+
+const axiosInstance = axios.create({
+  httpAgent,
+  httpsAgent,
+  timeout: 20000,
+  maxContentLength: 50 * 1024 * 1024, // 50MB
+  maxBodyLength: 50 * 1024 * 1024
+});
+
+export interface SankhyaResposta {
+  status?: string
+  statusMessage?: string
+  responseBody?: any
+  [key: string]: any
+}
+
+export interface LoadRecordsPayload {
+  serviceName?: string
+  requestBody: {
+    dataSet: {
+      rootEntity: string
+      includePresentationFields?: string
+      offsetPage?: string | null
+      limit?: string
+      disableRowsLimit?: boolean
+      entity: any
+      criteria?: any
+      orderBy?: any
+      [key: string]: any
+    }
+  }
+}
+
+export interface SaveRecordPayload {
+  serviceName?: string
+  requestBody: {
+    dataSet: {
+      rootEntity: string
+      includePresentationFields?: string
+      dataRow: any
+      entity?: any
+      [key: string]: any
+    }
+  }
+}
+
+export interface DatasetSavePayload {
+  serviceName?: string
+  requestBody: {
+    entityName: string
+    standAlone?: boolean
+    fields: string[]
+    records: Array<{
+      pk?: Record<string, string>
+      values: Record<string, any>
+    }>
+  }
+}
+
+export interface OpcoesRequisicao {
+  timeout?: number
+  silent?: boolean
+  // Leitura que pode ser repetida após timeout/5xx; padrão: apenas GET.
+  // Gravações só são repetidas quando a falha ocorreu antes do envio (ver ERROS_ANTES_DO_ENVIO)
+  idempotente?: boolean
+}
+
+export function urlServico(serviceName: string): string {
+  const { baseUrl, gatewayPath } = obterConfigSankhya();
+  return `${baseUrl}${gatewayPath}?serviceName=${serviceName}&outputType=json`;
+}
+
+// URLs das APIs REST (/v1/...) que não passam pelo service.sbr
+export function urlApi(path: string): string {
+  return `${obterConfigSankhya().baseUrl}${path.startsWith('/') ? path : `/${path}`}`;
+}
+
+let cachedToken: string | null = null;
+let tokenExpiration: number | null = null;
+let tokenPromise: Promise<string> | null = null;
+
+// Token separado por ambiente para não reaproveitar token de sandbox em produção
+const chaveTokenCache = () => `sankhya:token:${obterConfigSankhya().ambiente}`;
+
+const aguardar = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function atrasoBackoff(tentativa: number): number {
+  return Math.min(RETRY_POLICY.atrasoBase * Math.pow(2, tentativa), RETRY_POLICY.atrasoMaximo);
+}
+
+// Falhas de conexão em que a requisição não chegou ao servidor: seguras para repetir até em gravações
+const ERROS_ANTES_DO_ENVIO = ['ENOTFOUND', 'ECONNREFUSED', 'EAI_AGAIN'];
+
+function erroTransitorio(erro: any): boolean {
+  return ERROS_ANTES_DO_ENVIO.includes(erro.code) ||
+    ['ECONNABORTED', 'ECONNRESET', 'ETIMEDOUT'].includes(erro.code) ||
+    erro.response?.status >= 500;
+}
+
+// Timeout ou 5xx numa gravação pode ter sido aplicado pelo Sankhya; repetir criaria registros duplicados
+function podeRepetir(erro: any, idempotente: boolean): boolean {
+  return idempotente ? erroTransitorio(erro) : ERROS_ANTES_DO_ENVIO.includes(erro.code);
+}
+
+export function invalidarToken() {
+  cachedToken = null;
+  tokenExpiration = null;
+  redisCacheService.delete(chaveTokenCache()).catch(() => {});
+}
+
+async function solicitarToken(silent: boolean): Promise<string> {
+  for (let tentativa = 0; ; tentativa++) {
+    try {
+      if (!silent) console.log("🔐 Solicitando novo token de autenticação...");
+
+      const { baseUrl, credenciais } = obterConfigSankhya();
+      const resposta = await axiosInstance.post(`${baseUrl}/login`, {}, {
+        headers: {
+          'token': credenciais.token,
+          'appkey': credenciais.appkey,
+          'username': credenciais.username,
+          'password': credenciais.password
+        },
+        timeout: 10000
+      });
+
+      const token = resposta.data.bearerToken || resposta.data.token;
+
+      if (!token) {
+        console.error("❌ Token não encontrado na resposta:", resposta.data);
+        throw new Error("Resposta de login do Sankhya não continha o token esperado.");
+      }
+
+      return token;
+    } catch (erro: any) {
+      if (erroTransitorio(erro) && tentativa < RETRY_POLICY.maxTentativasLogin) {
+        const espera = atrasoBackoff(tentativa);
+        if (!silent) console.log(`🔄 Tentando novamente autenticação (${tentativa + 1}/${RETRY_POLICY.maxTentativasLogin}) em ${espera}ms...`);
+        await aguardar(espera);
+        continue;
+      }
+
+      console.error("❌ Erro no Login Sankhya:", erro.response ? {
+        status: erro.response.status,
+        data: erro.response.data
+      } : {
+        message: erro.message,
+        code: erro.code
+      });
+
+      if (erro.response?.status >= 500) {
+        throw new Error("Serviço Sankhya temporariamente indisponível. Tente novamente em instantes.");
+      }
+
+      throw new Error(`Falha na autenticação Sankhya: ${erro.response?.data?.error || erro.message}`);
+    }
+  }
+}
+
+// Obter Token compartilhado por todos os serviços, com debouncing de requisições simultâneas
+export async function obterToken(silent = false): Promise<string> {
+  if (cachedToken && tokenExpiration && Date.now() < tokenExpiration) {
+    return cachedToken;
+  }
+
+  if (tokenPromise) {
+    return tokenPromise;
+  }
+
+  tokenPromise = (async () => {
+    try {
+      // Outra instância pode já ter obtido um token válido
+      const tokenRedis = await redisCacheService.get<string>(chaveTokenCache());
+      const token = tokenRedis || await solicitarToken(silent);
+
+      cachedToken = token;
+      tokenExpiration = Date.now() + TOKEN_DURATION;
+
+      if (!tokenRedis) {
+        await redisCacheService.set(chaveTokenCache(), token, TOKEN_DURATION);
+        if (!silent) console.log("✅ Token obtido e armazenado em cache");
+      }
+
+      return token;
+    } catch (erro) {
+      cachedToken = null;
+      tokenExpiration = null;
+      throw erro;
+    } finally {
+      tokenPromise = null;
+    }
+  })();
+
+  return tokenPromise;
+}
+
+// Requisição Autenticada Genérica
+export async function fazerRequisicaoAutenticada<T = SankhyaResposta>(
+  fullUrl: string,
+  method = 'POST',
+  data: any = {},
+  opcoes: OpcoesRequisicao = {}
+): Promise<T> {
+  let tokenRenovado = false;
+  const idempotente = opcoes.idempotente ?? method.toUpperCase() === 'GET';
+
+  for (let tentativa = 0; ; tentativa++) {
+    try {
+      const token = await obterToken(opcoes.silent);
+
+      const resposta = await axiosInstance({
+        method: method.toLowerCase(),
+        url: fullUrl,
+        data: method.toUpperCase() === 'GET' ? undefined : data,
+        headers: {
+          'Authorization': `Bearer ${token}`,
+          'Content-Type': 'application/json'
+        },
+        timeout: opcoes.timeout ?? 15000
+      });
+
+      // Credenciais ou URL incorretas fazem o gateway devolver uma página HTML
+      if (typeof resposta.data === 'string' && resposta.data.trim().startsWith('<!DOCTYPE')) {
+        console.error("❌ API retornou HTML ao invés de JSON:", resposta.data.substring(0, 200));
+        throw new Error("A API retornou uma página HTML. Verifique as credenciais e a URL.");
+      }
+
+      return resposta.data;
+    } catch (erro: any) {
+      // Token expirado: renovar uma única vez e repetir
+      if (erro.response && (erro.response.status === 401 || erro.response.status === 403)) {
+        invalidarToken();
+
+        if (!tokenRenovado) {
+          tokenRenovado = true;
+          if (!opcoes.silent) console.log("🔄 Token expirado, obtendo novo token...");
+          continue;
+        }
+
+        throw new Error("Sessão expirada. Tente novamente.");
+      }
+
+      if (podeRepetir(erro, idempotente) && tentativa < RETRY_POLICY.maxTentativasRequisicao) {
+        const espera = atrasoBackoff(tentativa);
+        if (!opcoes.silent) console.log(`🔄 Tentando novamente requisição (${tentativa + 1}/${RETRY_POLICY.maxTentativasRequisicao}) em ${espera}ms...`);
+        await aguardar(espera);
+        continue;
+      }
+
+      if (!opcoes.silent) {
+        console.error("❌ Erro na requisição Sankhya:", {
+          url: fullUrl,
+          method,
+          error: erro.response?.data || erro.message
+        });
+      }
+
+      if (erro.code === 'ECONNABORTED') {
+        throw new Error("Tempo de resposta excedido. Tente novamente.");
+      }
+
+      if (erro.response?.status >= 500) {
+        throw new Error("Serviço temporariamente indisponível. Tente novamente.");
+      }
+
+      throw new Error(erro.response?.data?.statusMessage || erro.message || "Erro na comunicação com o servidor");
+    }
+  }
+}
+
+// CRUDServiceProvider.loadRecords
+export async function loadRecords(payload: LoadRecordsPayload, opcoes?: OpcoesRequisicao): Promise<SankhyaResposta> {
+  return fazerRequisicaoAutenticada(urlServico('CRUDServiceProvider.loadRecords'), 'POST', payload, { idempotente: true, ...opcoes });
+}
+
+// CRUDServiceProvider.saveRecord
+export async function saveRecord(payload: SaveRecordPayload, opcoes?: OpcoesRequisicao): Promise<SankhyaResposta> {
+  return fazerRequisicaoAutenticada(urlServico('CRUDServiceProvider.saveRecord'), 'POST', payload, opcoes);
+}
+
+// DatasetSP.save
+export async function datasetSave(payload: DatasetSavePayload, opcoes?: OpcoesRequisicao): Promise<SankhyaResposta> {
+  return fazerRequisicaoAutenticada(urlServico('DatasetSP.save'), 'POST', payload, opcoes);
+}
+
+// Data e hora no formato gravado pelo DatasetSP.save (DD/MM/YYYY HH:mm:ss, horário local)
+export function formatarDataHoraParaSankhya(data: Date): string {
+  const dia = String(data.getDate()).padStart(2, '0');
+  const mes = String(data.getMonth() + 1).padStart(2, '0');
+  const ano = data.getFullYear();
+  const hora = String(data.getHours()).padStart(2, '0');
+  const min = String(data.getMinutes()).padStart(2, '0');
+  const seg = String(data.getSeconds()).padStart(2, '0');
+  return `${dia}/${mes}/${ano} ${hora}:${min}:${seg}`;
+}
+
+// Converte entities do loadRecords (f0, f1, ...) em objetos com os nomes dos campos
+export function mapearEntidades(entities: any, primaryKey?: string): any[] {
+  if (!entities || !entities.entity) {
+    return [];
+  }
+
+  const fieldNames = entities.metadata.fields.field.map((f: any) => f.name);
+  const entityArray = Array.isArray(entities.entity) ? entities.entity : [entities.entity];
+
+  return entityArray.map((rawEntity: any) => {
+    const cleanObject: any = {};
+
+    if (primaryKey && rawEntity.$) {
+      cleanObject[primaryKey] = rawEntity.$[primaryKey] || "";
+    }
+
+    for (let i = 0; i < fieldNames.length; i++) {
+      const fieldKey = `f${i}`;
+      const fieldName = fieldNames[i];
+
+      if (rawEntity[fieldKey]) {
+        cleanObject[fieldName] = rawEntity[fieldKey].$;
+      }
+    }
+
+    return cleanObject;
+  });
+}
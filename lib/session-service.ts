@@ -0,0 +1,242 @@
+import crypto from 'crypto';
+import { cookies } from 'next/headers';
+import type { NextResponse } from 'next/server';
+import { armazenamentoSessoes, PREFIXO_SESSAO } from './session-store';
+import { usersService } from './users-service';
+import type { User } from './types';
+
+// Sessões assinadas e armazenadas no servidor.
+// O cookie guarda apenas "<id>.<assinatura HMAC>"; os dados do usuário ficam em ./session-store (Redis/memória).
+
+export type SessionUser = Omit<User, 'password'>;
+
+interface Sessao {
+  id: string
+  user: SessionUser
+  criadaEm: number
+  expiraEm: number
+  rotacionadaEm: number
+}
+
+export const SESSION_COOKIE = 'sessao';
+
+const SESSAO_DURACAO = 7 * 24 * 60 * 60 * 1000; // 7 dias
+const ROTACAO_INTERVALO = 15 * 60 * 1000;       // novo id a cada 15 minutos de uso
+const ROTACAO_TOLERANCIA = 30 * 1000;           // id antigo ainda vale para requisições em andamento
+
+const chaveSessao = (id: string) => `${PREFIXO_SESSAO}${id}`;
+const chaveSessoesUsuario = (userId: number) => `${PREFIXO_SESSAO}usuario:${userId}`;
+
+let segredoTemporario: string | null = null;
+
+function obterSegredo(): string {
+  const segredo = process.env.SESSION_SECRET?.trim();
+  if (segredo) return segredo;
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('SESSION_SECRET não configurado');
+  }
+
+  // Desenvolvimento: segredo aleatório por processo (sessões não sobrevivem a reinícios)
+  if (!segredoTemporario) {
+    segredoTemporario = crypto.randomBytes(32).toString('hex');
+    console.warn('⚠️ SESSION_SECRET ausente, usando segredo temporário de desenvolvimento');
+  }
+  return segredoTemporario;
+}
+
+// Checagem de inicialização chamada em instrumentation.ts
+export function validarConfigSessao() {
+  obterSegredo();
+}
+
+function assinar(id: string): string {
+  return crypto.createHmac('sha256', obterSegredo()).update(id).digest('base64url');
+}
+
+function montarToken(id: string): string {
+  return `${id}.${assinar(id)}`;
+}
+
+// Retorna o id da sessão somente se a assinatura conferir
+function lerToken(token: string | undefined): string | null {
+  if (!token) return null;
+
+  const [id, assinatura] = token.split('.');
+  if (!id || !assinatura) return null;
+
+  const esperada = Buffer.from(assinar(id));
+  const recebida = Buffer.from(assinatura);
+
+  if (esperada.length !== recebida.length || !crypto.timingSafeEqual(esperada, recebida)) {
+    return null;
+  }
+
+  return id;
+}
+
+function semSenha(user: User | SessionUser): SessionUser {
+  const { password: _, ...dados } = user as User;
+  return dados;
+}
+
+async function salvarSessao(sessao: Sessao, ttl: number = sessao.expiraEm - Date.now()) {
+  await armazenamentoSessoes.set(chaveSessao(sessao.id), sessao, ttl);
+}
+
+async function registrarSessaoUsuario(userId: number, id: string) {
+  const ids = await armazenamentoSessoes.get<string[]>(chaveSessoesUsuario(userId)) || [];
+  await armazenamentoSessoes.set(chaveSessoesUsuario(userId), [...ids.filter(i => i !== id), id], SESSAO_DURACAO);
+}
+
+async function removerSessaoUsuario(userId: number, id: string) {
+  const ids = await armazenamentoSessoes.get<string[]>(chaveSessoesUsuario(userId)) || [];
+  await armazenamentoSessoes.set(chaveSessoesUsuario(userId), ids.filter(i => i !== id), SESSAO_DURACAO);
+}
+
+export async function criarSessao(user: User | SessionUser): Promise<{ token: string; expiraEm: number }> {
+  const agora = Date.now();
+  const sessao: Sessao = {
+    id: crypto.randomBytes(32).toString('base64url'),
+    user: semSenha(user),
+    criadaEm: agora,
+    expiraEm: agora + SESSAO_DURACAO,
+    rotacionadaEm: agora
+  };
+
+  await salvarSessao(sessao);
+  await registrarSessaoUsuario(sessao.user.id, sessao.id);
+
+  return { token: montarToken(sessao.id), expiraEm: sessao.expiraEm };
+}
+
+export function aplicarCookieSessao(response: NextResponse, token: string, expiraEm: number) {
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    expires: new Date(expiraEm),
+    path: '/'
+  });
+  // Remove o cookie legado com o JSON do usuário
+  response.cookies.set('user', '', { path: '/', maxAge: 0 });
+}
+
+export function limparCookieSessao(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, '', { httpOnly: true, path: '/', maxAge: 0 });
+  response.cookies.set('user', '', { path: '/', maxAge: 0 });
+}
+
+async function carregarSessao(token: string | undefined): Promise<Sessao | null> {
+  const id = lerToken(token);
+  if (!id) return null;
+
+  try {
+    const sessao = await armazenamentoSessoes.get<Sessao>(chaveSessao(id));
+    if (!sessao || sessao.expiraEm <= Date.now()) {
+      return null;
+    }
+    return sessao;
+  } catch (erro) {
+    // Sem acesso ao armazenamento não há como saber se a sessão foi encerrada: trata como inválida
+    console.error('❌ Erro ao carregar sessão:', erro);
+    return null;
+  }
+}
+
+// Troca o id da sessão mantendo os dados; o id antigo expira após a tolerância
+async function rotacionarSessao(sessao: Sessao): Promise<Sessao> {
+  const nova: Sessao = {
+    ...sessao,
+    id: crypto.randomBytes(32).toString('base64url'),
+    rotacionadaEm: Date.now()
+  };
+
+  await salvarSessao(nova);
+  await registrarSessaoUsuario(nova.user.id, nova.id);
+  await salvarSessao(sessao, ROTACAO_TOLERANCIA);
+  await removerSessaoUsuario(sessao.user.id, sessao.id);
+
+  return nova;
+}
+
+// Usuário autenticado da requisição atual (uso em rotas de API)
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const cookieStore = cookies();
+  let sessao = await carregarSessao(cookieStore.get(SESSION_COOKIE)?.value);
+
+  if (!sessao) return null;
+
+  if (Date.now() - sessao.rotacionadaEm > ROTACAO_INTERVALO) {
+    // Antes de estender a sessão, confirma que o usuário continua ativo (bloqueio/exclusão fora do fluxo normal)
+    let status: string | null;
+    try {
+      status = await usersService.getStatus(sessao.user.id);
+    } catch (erro) {
+      // Falha no Sankhya não derruba a sessão; a checagem e a rotação ficam para a próxima requisição
+      console.warn('⚠️ Não foi possível confirmar o status do usuário da sessão:', erro);
+      return sessao.user;
+    }
+
+    if (status !== 'ativo') {
+      await encerrarSessoesUsuario(sessao.user.id);
+      return null;
+    }
+
+    try {
+      sessao = await rotacionarSessao(sessao);
+      cookieStore.set(SESSION_COOKIE, montarToken(sessao.id), {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        sameSite: 'lax',
+        expires: new Date(sessao.expiraEm),
+        path: '/'
+      });
+    } catch (erro) {
+      // Fora de rotas de API o cookie não pode ser alterado; segue com a sessão atual
+      console.warn('⚠️ Não foi possível rotacionar a sessão:', erro);
+    }
+  }
+
+  return sessao.user;
+}
+
+export async function encerrarSessao(token: string | undefined) {
+  const sessao = await carregarSessao(token);
+  if (!sessao) return;
+
+  await armazenamentoSessoes.delete(chaveSessao(sessao.id));
+  await removerSessaoUsuario(sessao.user.id, sessao.id);
+}
+
+// Invalida todas as sessões de um usuário (troca de senha, bloqueio, exclusão).
+// Com manterToken, a sessão desse token é preservada (ex.: usuário trocando a própria senha).
+export async function encerrarSessoesUsuario(userId: number, manterToken?: string) {
+  const ids = await armazenamentoSessoes.get<string[]>(chaveSessoesUsuario(userId)) || [];
+  const manter = manterToken ? await carregarSessao(manterToken) : null;
+  const idManter = manter && manter.user.id === userId ? manter.id : null;
+
+  for (const id of ids) {
+    if (id !== idManter) {
+      await armazenamentoSessoes.delete(chaveSessao(id));
+    }
+  }
+
+  if (idManter) {
+    await armazenamentoSessoes.set(chaveSessoesUsuario(userId), [idManter], SESSAO_DURACAO);
+  } else {
+    await armazenamentoSessoes.delete(chaveSessoesUsuario(userId));
+  }
+}
+
+// Atualiza os dados do usuário em todas as sessões abertas (ex.: edição de perfil)
+export async function atualizarUsuarioSessoes(user: User | SessionUser) {
+  const ids = await armazenamentoSessoes.get<string[]>(chaveSessoesUsuario(user.id)) || [];
+
+  for (const id of ids) {
+    const sessao = await armazenamentoSessoes.get<Sessao>(chaveSessao(id));
+    if (sessao && sessao.expiraEm > Date.now()) {
+      await salvarSessao({ ...sessao, user: semSenha(user) });
+    }
+  }
+}
@@ -0,0 +1,80 @@
+// Armazenamento das sessões, separado do cache de dados (redis-cache-service).
+// Com Redis configurado ele é a fonte da verdade: toda leitura vai ao Redis e toda gravação é aguardada,
+// para que logout, bloqueio e troca de senha valham em todas as instâncias na mesma hora.
+// Sem Redis (desenvolvimento, instância única) as sessões ficam num Map em memória.
+// As chaves começam com PREFIXO_SESSAO, que a limpeza do cache preserva.
+
+export const PREFIXO_SESSAO = 'sessao:';
+
+const memoria = new Map<string, { valor: string; expiraEm: number }>();
+let clientePromise: Promise<any> | null = null;
+
+const redisConfigurado = () => !!(process.env.REPLIT_DEPLOYMENT && process.env.REDIS_URL);
+
+async function obterCliente(): Promise<any | null> {
+  if (!redisConfigurado()) return null;
+
+  if (!clientePromise) {
+    clientePromise = (async () => {
+      const { createClient } = await import('redis');
+      const cliente = createClient({
+        url: process.env.REDIS_URL,
+        socket: {
+          connectTimeout: 5000,
+          reconnectStrategy: (tentativas: number) => Math.min(tentativas * 100, 2000)
+        }
+      });
+      cliente.on('error', (erro: any) => console.warn('⚠️ Redis (sessões):', erro.message));
+      await cliente.connect();
+      return cliente;
+    })().catch(erro => {
+      // Próxima operação tenta conectar de novo; até lá as sessões falham fechadas
+      clientePromise = null;
+      throw erro;
+    });
+  }
+
+  return clientePromise;
+}
+
+export const armazenamentoSessoes = {
+  async get<T>(chave: string): Promise<T | null> {
+    const cliente = await obterCliente();
+
+    if (cliente) {
+      const valor = await cliente.get(chave);
+      return valor ? JSON.parse(valor) as T : null;
+    }
+
+    const entrada = memoria.get(chave);
+    if (!entrada) return null;
+    if (entrada.expiraEm <= Date.now()) {
+      memoria.delete(chave);
+      return null;
+    }
+    return JSON.parse(entrada.valor) as T;
+  },
+
+  async set<T>(chave: string, valor: T, ttl: number): Promise<void> {
+    const ttlMs = Math.max(1, Math.ceil(ttl));
+    const cliente = await obterCliente();
+
+    if (cliente) {
+      await cliente.pSetEx(chave, ttlMs, JSON.stringify(valor));
+      return;
+    }
+
+    memoria.set(chave, { valor: JSON.stringify(valor), expiraEm: Date.now() + ttlMs });
+  },
+
+  async delete(chave: string): Promise<void> {
+    const cliente = await obterCliente();
+
+    if (cliente) {
+      await cliente.del(chave);
+      return;
+    }
+
+    memoria.delete(chave);
+  }
+};
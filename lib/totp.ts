@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+
+// TOTP (RFC 6238) com HMAC-SHA1, 6 dígitos e passo de 30 segundos,
+// compatível com Google Authenticator, Microsoft Authenticator, Authy etc.
+
+const ALFABETO_BASE32 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const DIGITOS = 6;
+const PASSO_SEGUNDOS = 30;
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let valor = 0;
+  let saida = '';
+
+  for (const byte of buffer) {
+    valor = (valor << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      saida += ALFABETO_BASE32[(valor >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    saida += ALFABETO_BASE32[(valor << (5 - bits)) & 31];
+  }
+
+  return saida;
+}
+
+function base32Decode(texto: string): Buffer {
+  const limpo = texto.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let valor = 0;
+
+  for (const caractere of limpo) {
+    const indice = ALFABETO_BASE32.indexOf(caractere);
+    if (indice === -1) {
+      throw new Error('Segredo TOTP inválido');
+    }
+    valor = (valor << 5) | indice;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((valor >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+export function gerarSegredoTotp(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function passoAtual(agora: number = Date.now()): number {
+  return Math.floor(agora / 1000 / PASSO_SEGUNDOS);
+}
+
+export function gerarCodigoTotp(segredo: string, passo: number = passoAtual()): string {
+  const contador = Buffer.alloc(8);
+  contador.writeBigUInt64BE(BigInt(passo));
+
+  const hmac = crypto.createHmac('sha1', base32Decode(segredo)).update(contador).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binario =
+    ((hmac[offset] & 0x7f) << 24) |
+    (hmac[offset + 1] << 16) |
+    (hmac[offset + 2] << 8) |
+    hmac[offset + 3];
+
+  return String(binario % 10 ** DIGITOS).padStart(DIGITOS, '0');
+}
+
+// Aceita o passo atual e os vizinhos (tolerância de relógio).
+// Retorna o passo que conferiu, para impedir o reuso do mesmo código, ou null.
+export function verificarCodigoTotp(segredo: string, codigo: string, janela: number = 1): number | null {
+  const normalizado = String(codigo || '').replace(/\s/g, '');
+  if (!/^\d{6}$/.test(normalizado)) return null;
+
+  const atual = passoAtual();
+  for (let desvio = -janela; desvio <= janela; desvio++) {
+    const esperado = Buffer.from(gerarCodigoTotp(segredo, atual + desvio));
+    if (crypto.timingSafeEqual(esperado, Buffer.from(normalizado))) {
+      return atual + desvio;
+    }
+  }
+
+  return null;
+}
+
+export function montarUriTotp(segredo: string, conta: string, emissor: string): string {
+  const rotulo = encodeURIComponent(`${emissor}:${conta}`);
+  const parametros = new URLSearchParams({
+    secret: segredo,
+    issuer: emissor,
+    algorithm: 'SHA1',
+    digits: String(DIGITOS),
+    period: String(PASSO_SEGUNDOS)
+  });
+  return `otpauth://totp/${rotulo}?${parametros.toString()}`;
+}
@@ -1,92 +1,10 @@
-import axios from 'axios';
 import { cryptoService } from './crypto-service';
 import type { User } from './types';
+import { loadRecords, datasetSave } from './sankhya-gateway';
+import { montarCriteria, eq, eqIgnorandoCaixa, like, neq, or } from './sankhya-criteria';
 
 export type { User };
 
-const ENDPOINT_LOGIN = "https://api.sandbox.sankhya.com.br/login";
-const URL_CONSULTA_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=CRUDServiceProvider.loadRecords&outputType=json";
-const URL_SAVE_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=DatasetSP.save&outputType=json";
-
-const LOGIN_HEADERS = {
-  'token': process.env.SANKHYA_TOKEN || "",
-  'appkey': process.env.SANKHYA_APPKEY || "",
-  'username': process.env.SANKHYA_USERNAME || "",
-  'password': process.env.SANKHYA_PASSWORD || ""
-};
-
-let cachedToken: string | null = null;
-
-async function obterToken(): Promise<string> {
-  if (cachedToken) {
-    return cachedToken;
-  }
-
-  try {
-    const resposta = await axios.post(ENDPOINT_LOGIN, {}, {
-      headers: LOGIN_HEADERS,
-      timeout: 10000
-    });
-
-    const token = resposta.data.bearerToken || resposta.data.token;
-
-    if (!token) {
-      throw new Error("Token não encontrado na resposta de login.");
-    }
-
-    cachedToken = token;
-    return token;
-
-  } catch (erro: any) {
-    cachedToken = null;
-    throw new Error(`Falha na autenticação Sankhya: ${erro.message}`);
-  }
-}
-
-async function fazerRequisicaoAutenticada(fullUrl: string, method = 'POST', data = {}) {
-  const token = await obterToken();
-
-  try {
-    const config = {
-      method: method.toLowerCase(),
-      url: fullUrl,
-      data: data,
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      },
-      timeout: 15000,
-      validateStatus: (status: number) => status < 500 // Aceitar responses com status < 500
-    };
-
-    console.log("🔄 Fazendo requisição:", { url: fullUrl, method, dataKeys: Object.keys(data) });
-    const resposta = await axios(config);
-    
-    // Verificar se a resposta é HTML ao invés de JSON
-    if (typeof resposta.data === 'string' && resposta.data.trim().startsWith('<!DOCTYPE')) {
-      console.error("❌ API retornou HTML ao invés de JSON:", resposta.data.substring(0, 200));
-      throw new Error("A API retornou uma página HTML. Verifique as credenciais e a URL.");
-    }
-
-    return resposta.data;
-
-  } catch (erro: any) {
-    if (erro.response && (erro.response.status === 401 || erro.response.status === 403)) {
-      cachedToken = null;
-      throw new Error("Sessão expirada. Tente novamente.");
-    }
-
-    console.error("❌ Erro detalhado na requisição:", {
-      status: erro.response?.status,
-      statusText: erro.response?.statusText,
-      data: typeof erro.response?.data === 'string' ? erro.response?.data.substring(0, 200) : erro.response?.data,
-      message: erro.message
-    });
-
-    throw new Error(`Falha na comunicação com a API Sankhya: ${erro.response?.data?.statusMessage || erro.message}`);
-  }
-}
-
 function mapearUsuarios(entities: any): User[] {
   if (!entities || !entities.entity) {
     return [];
@@ -139,15 +57,8 @@ export const usersService = {
     };
 
     try {
-      console.log("📤 Enviando requisição para buscar usuários:", JSON.stringify(USUARIOS_PAYLOAD, null, 2));
-
-      const respostaCompleta = await fazerRequisicaoAutenticada(
-        URL_CONSULTA_SERVICO,
-        'POST',
-        USUARIOS_PAYLOAD
-      );
-
-      console.log("📥 Resposta completa recebida:", JSON.stringify(respostaCompleta, null, 2));
+      // Resposta e usuários mapeados não vão para o log: trazem o hash da senha (SENHA)
+      const respostaCompleta = await loadRecords(USUARIOS_PAYLOAD);
 
       const entities = respostaCompleta.responseBody?.entities;
 
@@ -157,7 +68,7 @@ export const usersService = {
       }
 
       const usuarios = mapearUsuarios(entities);
-      console.log("✅ Usuários mapeados:", usuarios);
+      console.log("✅ Usuários mapeados:", usuarios.length);
       return usuarios;
     } catch (erro: any) {
       console.error("❌ Erro ao buscar usuários:", erro);
@@ -170,6 +81,54 @@ export const usersService = {
     }
   },
 
+  // Status atual do usuário (null quando não existe); erros são propagados para não confundir
+  // falha de comunicação com usuário removido
+  async getStatus(id: number): Promise<string | null> {
+    const USUARIOS_PAYLOAD = {
+      "requestBody": {
+        "dataSet": {
+          "rootEntity": "AD_USUARIOSVENDAS",
+          "includePresentationFields": "N",
+          "offsetPage": "0",
+          "limit": "1",
+          "entity": {
+            "fieldset": {
+              "list": "CODUSUARIO, STATUS"
+            }
+          },
+          "criteria": montarCriteria(eq('CODUSUARIO', Number(id)))
+        }
+      }
+    };
+
+    const respostaCompleta = await loadRecords(USUARIOS_PAYLOAD);
+    return mapearUsuarios(respostaCompleta.responseBody?.entities)[0]?.status ?? null;
+  },
+
+  // Consulta enxuta (sem senha e sem logs) para rotinas periódicas como o agendador de notificações
+  async getActiveSummary(): Promise<Pick<User, 'id' | 'name' | 'email' | 'status'>[]> {
+    const USUARIOS_PAYLOAD = {
+      "requestBody": {
+        "dataSet": {
+          "rootEntity": "AD_USUARIOSVENDAS",
+          "includePresentationFields": "N",
+          "offsetPage": "0",
+          "limit": "1000",
+          "entity": {
+            "fieldset": {
+              "list": "CODUSUARIO, NOME, EMAIL, STATUS"
+            }
+          },
+          "criteria": montarCriteria(eq('STATUS', 'ativo'))
+        }
+      }
+    };
+
+    const respostaCompleta = await loadRecords(USUARIOS_PAYLOAD);
+    return mapearUsuarios(respostaCompleta.responseBody?.entities)
+      .map(({ id, name, email, status }) => ({ id, name, email, status }));
+  },
+
   async getPending(): Promise<User[]> {
     const USUARIOS_PAYLOAD = {
       "requestBody": {
@@ -183,21 +142,13 @@ export const usersService = {
               "list": "CODUSUARIO, NOME, EMAIL, FUNCAO, STATUS, AVATAR, CODVEND, SENHA"
             }
           },
-          "criteria": {
-            "expression": {
-              "$": "STATUS = 'pendente'"
-            }
-          }
+          "criteria": montarCriteria(eq('STATUS', 'pendente'))
         }
       }
     };
 
     try {
-      const respostaCompleta = await fazerRequisicaoAutenticada(
-        URL_CONSULTA_SERVICO,
-        'POST',
-        USUARIOS_PAYLOAD
-      );
+      const respostaCompleta = await loadRecords(USUARIOS_PAYLOAD);
 
       const entities = respostaCompleta.responseBody?.entities;
 
@@ -225,21 +176,13 @@ export const usersService = {
               "list": "CODUSUARIO, NOME, EMAIL, FUNCAO, STATUS, AVATAR, CODVEND, SENHA"
             }
           },
-          "criteria": {
-            "expression": {
-              "$": `CODUSUARIO = ${id}`
-            }
-          }
+          "criteria": montarCriteria(eq('CODUSUARIO', Number(id)))
         }
       }
     };
 
     try {
-      const respostaCompleta = await fazerRequisicaoAutenticada(
-        URL_CONSULTA_SERVICO,
-        'POST',
-        USUARIOS_PAYLOAD
-      );
+      const respostaCompleta = await loadRecords(USUARIOS_PAYLOAD);
 
       const entities = respostaCompleta.responseBody?.entities;
 
@@ -282,7 +225,7 @@ export const usersService = {
     };
 
     try {
-      await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', CREATE_PAYLOAD);
+      await datasetSave(CREATE_PAYLOAD);
 
       console.log('✅ Usuário criado com sucesso');
 
@@ -337,8 +280,8 @@ export const usersService = {
     };
 
     try {
-      const response = await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', CREATE_PAYLOAD);
-      console.log("✅ Usuário criado na API:", response);
+      await datasetSave(CREATE_PAYLOAD);
+      console.log("✅ Usuário criado na API");
 
       // Aguardar um momento para o banco indexar
       await new Promise(resolve => setTimeout(resolve, 500));
@@ -347,7 +290,7 @@ export const usersService = {
       for (let i = 0; i < 3; i++) {
         const newUsers = await this.search(userData.email);
         if (newUsers.length > 0) {
-          console.log("✅ Usuário encontrado após criação:", newUsers[0]);
+          console.log("✅ Usuário encontrado após criação:", newUsers[0].id);
           return newUsers[0];
         }
         // Aguardar antes de tentar novamente
@@ -380,7 +323,7 @@ export const usersService = {
       throw new Error("Usuário não encontrado");
     }
 
-    console.log("🔄 Atualizando usuário:", { id, userData, currentUser });
+    console.log("🔄 Atualizando usuário:", { id, campos: Object.keys(userData) });
 
     // Mesclar dados atuais com as alterações
     const mergedData = {
@@ -395,8 +338,6 @@ export const usersService = {
     // Garantir que avatar seja uma string vazia se não fornecido ou nulo
     const avatarUrl = (mergedData.avatar && mergedData.avatar.trim() !== '') ? mergedData.avatar : '';
 
-    console.log("📝 Dados mesclados para atualização:", { mergedData, avatarUrl });
-
     // Se há nova senha para atualizar, incluir no payload
     const fields = ["CODUSUARIO", "NOME", "EMAIL", "FUNCAO", "STATUS", "AVATAR", "CODVEND"];
     const values: any = {
@@ -434,14 +375,13 @@ export const usersService = {
     };
 
     try {
-      console.log("📤 Enviando atualização:", UPDATE_PAYLOAD);
-      await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', UPDATE_PAYLOAD);
+      await datasetSave(UPDATE_PAYLOAD);
 
       // Aguardar um momento para o banco atualizar
       await new Promise(resolve => setTimeout(resolve, 300));
 
       const updatedUser = await this.getById(id);
-      console.log("✅ Usuário atualizado:", updatedUser);
+      console.log("✅ Usuário atualizado:", id);
       return updatedUser || null;
     } catch (erro: any) {
       console.error("❌ Erro ao atualizar usuário:", erro);
@@ -476,7 +416,7 @@ export const usersService = {
     };
 
     try {
-      await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', UPDATE_PAYLOAD);
+      await datasetSave(UPDATE_PAYLOAD);
       return true;
     } catch (erro) {
       return false;
@@ -496,21 +436,15 @@ export const usersService = {
               "list": "CODUSUARIO, NOME, EMAIL, FUNCAO, STATUS, AVATAR, CODVEND, SENHA"
             }
           },
-          "criteria": {
-            "expression": {
-              "$": `NOME LIKE '%${term.toUpperCase()}%' OR EMAIL LIKE '%${term.toUpperCase()}%' OR FUNCAO LIKE '%${term.toUpperCase()}%'`
-            }
-          }
+          "criteria": montarCriteria(
+            or(like('NOME', term), like('EMAIL', term), like('FUNCAO', term))
+          )
         }
       }
     };
 
     try {
-      const respostaCompleta = await fazerRequisicaoAutenticada(
-        URL_CONSULTA_SERVICO,
-        'POST',
-        USUARIOS_PAYLOAD
-      );
+      const respostaCompleta = await loadRecords(USUARIOS_PAYLOAD);
 
       const entities = respostaCompleta.responseBody?.entities;
 
@@ -538,26 +472,16 @@ export const usersService = {
               "list": "CODUSUARIO, NOME, EMAIL, FUNCAO, STATUS, AVATAR, CODVEND, SENHA"
             }
           },
-          "criteria": {
-            "expression": {
-              "$": `UPPER(EMAIL) = '${email.toUpperCase()}'`
-            }
-          }
+          "criteria": montarCriteria(eqIgnorandoCaixa('EMAIL', email))
         }
       }
     };
 
     try {
       console.log("🔍 Buscando usuário por email:", email);
-      console.log("📤 Payload:", JSON.stringify(USUARIOS_PAYLOAD, null, 2));
-      
-      const respostaCompleta = await fazerRequisicaoAutenticada(
-        URL_CONSULTA_SERVICO,
-        'POST',
-        USUARIOS_PAYLOAD
-      );
 
-      console.log("📥 Resposta completa:", JSON.stringify(respostaCompleta, null, 2));
+      // A resposta traz o hash da senha (SENHA) e não vai para o log
+      const respostaCompleta = await loadRecords(USUARIOS_PAYLOAD);
 
       const entities = respostaCompleta.responseBody?.entities;
 
@@ -578,5 +502,56 @@ export const usersService = {
       });
       return [];
     }
+  },
+
+  // Comparação exata (sem LIKE) do email com outros usuários; erros são propagados para
+  // não liberar um email duplicado quando o gateway falha
+  async isEmailTaken(email: string, ignorarId?: number): Promise<boolean> {
+    const USUARIOS_PAYLOAD = {
+      "requestBody": {
+        "dataSet": {
+          "rootEntity": "AD_USUARIOSVENDAS",
+          "includePresentationFields": "N",
+          "offsetPage": "0",
+          "limit": "1",
+          "entity": {
+            "fieldset": {
+              "list": "CODUSUARIO"
+            }
+          },
+          "criteria": montarCriteria(
+            eqIgnorandoCaixa('EMAIL', email.trim()),
+            ignorarId !== undefined && neq('CODUSUARIO', Number(ignorarId))
+          )
+        }
+      }
+    };
+
+    const respostaCompleta = await loadRecords(USUARIOS_PAYLOAD);
+    return !!respostaCompleta.responseBody?.entities?.entity;
+  },
+
+  // Usado pelo bootstrap do primeiro administrador: erros são propagados para não
+  // confundir falha de comunicação com "nenhum administrador cadastrado"
+  async hasActiveAdmin(): Promise<boolean> {
+    const USUARIOS_PAYLOAD = {
+      "requestBody": {
+        "dataSet": {
+          "rootEntity": "AD_USUARIOSVENDAS",
+          "includePresentationFields": "N",
+          "offsetPage": "0",
+          "limit": "1",
+          "entity": {
+            "fieldset": {
+              "list": "CODUSUARIO"
+            }
+          },
+          "criteria": montarCriteria(eq('FUNCAO', 'Administrador'), eq('STATUS', 'ativo'))
+        }
+      }
+    };
+
+    const respostaCompleta = await loadRecords(USUARIOS_PAYLOAD);
+    return !!respostaCompleta.responseBody?.entities?.entity;
   }
 };
\ No newline at end of file
@@ -1,73 +1,6 @@
-import axios from 'axios';
 import { redisCacheService } from './redis-cache-service';
-
-const URL_CONSULTA_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=CRUDServiceProvider.loadRecords&outputType=json";
-const URL_SAVE_SERVICO = "https://api.sandbox.sankhya.com.br/gateway/v1/mge/service.sbr?serviceName=DatasetSP.save&outputType=json";
-
-const SANKHYA_BASE_URL = "https://api.sandbox.sankhya.com.br"; // Adicionado para o novo fetch
-
-const LOGIN_HEADERS = {
-  'token': process.env.SANKHYA_TOKEN || "",
-  'appkey': process.env.SANKHYA_APPKEY || "",
-  'username': process.env.SANKHYA_USERNAME || "",
-  'password': process.env.SANKHYA_PASSWORD || ""
-};
-
-let cachedToken: string | null = null;
-
-// A instância do serviço de cache agora é importada e usada diretamente
-// const redisCacheService = new RedisCacheService(); // Instanciação do serviço de cache
-
-async function obterToken(): Promise<string> {
-  if (cachedToken) {
-    return cachedToken;
-  }
-
-  try {
-    const resposta = await axios.post(
-      "https://api.sandbox.sankhya.com.br/login",
-      {},
-      { headers: LOGIN_HEADERS, timeout: 10000 }
-    );
-
-    const token = resposta.data.bearerToken || resposta.data.token;
-    if (!token) {
-      throw new Error("Token não encontrado na resposta de login.");
-    }
-
-    cachedToken = token;
-    return token;
-  } catch (erro: any) {
-    cachedToken = null;
-    throw new Error(`Falha na autenticação Sankhya: ${erro.message}`);
-  }
-}
-
-async function fazerRequisicaoAutenticada(fullUrl: string, method = 'POST', data = {}) {
-  const token = await obterToken();
-
-  try {
-    const config = {
-      method: method.toLowerCase(),
-      url: fullUrl,
-      data: data,
-      headers: {
-        'Authorization': `Bearer ${token}`,
-        'Content-Type': 'application/json'
-      },
-      timeout: 15000
-    };
-
-    const resposta = await axios(config);
-    return resposta.data;
-  } catch (erro: any) {
-    if (erro.response && (erro.response.status === 401 || erro.response.status === 403)) {
-      cachedToken = null;
-      throw new Error("Sessão expirada. Tente novamente.");
-    }
-    throw new Error(`Falha na comunicação com a API Sankhya: ${erro.response?.data?.statusMessage || erro.message}`);
-  }
-}
+import { loadRecords, datasetSave } from './sankhya-gateway';
+import { montarCriteria, eq } from './sankhya-criteria';
 
 function mapearEntidades(entities: any): any[] {
   if (!entities || !entities.entity) {
@@ -114,17 +47,13 @@ export async function consultarGerentes(): Promise<any[]> {
             "list": "APELIDO,TIPVEND,ATIVO"
           }
         },
-        "criteria": {
-          "expression": {
-            "$": "TIPVEND = 'G' AND ATIVO = 'S'"
-          }
-        }
+        "criteria": montarCriteria(eq('TIPVEND', 'G'), eq('ATIVO', 'S'))
       }
     }
   };
 
   try {
-    const resposta = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, 'POST', PAYLOAD);
+    const resposta = await loadRecords(PAYLOAD);
 
     console.log("📊 Resposta completa da API (gerentes):", JSON.stringify(resposta, null, 2));
 
@@ -144,11 +73,11 @@ export async function consultarGerentes(): Promise<any[]> {
 
 // CONSULTAR VENDEDORES (opcionalmente por gerente)
 export async function consultarVendedores(codGerente?: number): Promise<any[]> {
-  let criteriaExpression = "TIPVEND = 'V' AND ATIVO = 'S'";
-
-  if (codGerente) {
-    criteriaExpression += ` AND CODGER = ${codGerente}`;
-  }
+  const criteria = montarCriteria(
+    eq('TIPVEND', 'V'),
+    eq('ATIVO', 'S'),
+    !!codGerente && eq('CODGER', Number(codGerente))
+  );
 
   const PAYLOAD = {
     "requestBody": {
@@ -161,17 +90,13 @@ export async function consultarVendedores(codGerente?: number): Promise<any[]> {
             "list": "APELIDO,TIPVEND,ATIVO,CODGER"
           }
         },
-        "criteria": {
-          "expression": {
-            "$": criteriaExpression
-          }
-        }
+        "criteria": criteria
       }
     }
   };
 
   try {
-    const resposta = await fazerRequisicaoAutenticada(URL_CONSULTA_SERVICO, 'POST', PAYLOAD);
+    const resposta = await loadRecords(PAYLOAD);
 
     console.log("📊 Resposta completa da API (vendedores):", JSON.stringify(resposta, null, 2));
 
@@ -209,7 +134,7 @@ export async function criarGerente(apelido: string, empresa: number = 1): Promis
   };
 
   try {
-    const resposta = await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', PAYLOAD);
+    const resposta = await datasetSave(PAYLOAD);
 
     // Buscar o gerente recém-criado
     await new Promise(resolve => setTimeout(resolve, 500));
@@ -281,7 +206,7 @@ export async function criarVendedor(dados: { nome: string; email?: string; empre
 
     console.log("📤 Payload para criar vendedor/gerente:", JSON.stringify(PAYLOAD, null, 2));
 
-    const resposta = await fazerRequisicaoAutenticada(URL_SAVE_SERVICO, 'POST', PAYLOAD);
+    const resposta = await datasetSave(PAYLOAD);
 
     console.log("📥 Resposta completa da API:", JSON.stringify(resposta, null, 2));
 
@@ -1,8 +1,18 @@
 
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
+import { ehRotaPublica, naoAutenticado } from '@/lib/permissoes'
 
 export function middleware(request: NextRequest) {
+  // Rotas de API protegidas exigem o cookie de sessão; perfil e assinatura são validados em comPermissao
+  if (
+    request.nextUrl.pathname.startsWith('/api/') &&
+    !ehRotaPublica(request.nextUrl.pathname) &&
+    !request.cookies.has('sessao')
+  ) {
+    return naoAutenticado()
+  }
+
   const response = NextResponse.next()
   
   // Não cachear rotas de autenticação e escrita
@@ -17,17 +27,15 @@ export function middleware(request: NextRequest) {
     return response
   }
   
-  // Headers de cache otimizados por tipo de rota (mais agressivos)
+  // Headers de cache otimizados por tipo de rota (mais agressivos).
+  // Parceiros e pedidos são filtrados pelo usuário da sessão, e as demais rotas Sankhya (títulos, boletos)
+  // trazem dados de clientes: nenhum cache compartilhado pode guardá-las.
   if (request.nextUrl.pathname.startsWith('/api/sankhya/produtos')) {
     response.headers.set('Cache-Control', 'public, s-maxage=1800, stale-while-revalidate=3600')
-  } else if (request.nextUrl.pathname.startsWith('/api/sankhya/parceiros')) {
-    response.headers.set('Cache-Control', 'public, s-maxage=1200, stale-while-revalidate=2400')
-  } else if (request.nextUrl.pathname.startsWith('/api/sankhya/pedidos')) {
-    response.headers.set('Cache-Control', 'public, s-maxage=300, stale-while-revalidate=900')
   } else if (request.nextUrl.pathname.includes('/tipos-')) {
     response.headers.set('Cache-Control', 'public, s-maxage=7200, stale-while-revalidate=14400')
   } else if (request.nextUrl.pathname.startsWith('/api/sankhya')) {
-    response.headers.set('Cache-Control', 'public, s-maxage=600, stale-while-revalidate=1800')
+    response.headers.set('Cache-Control', 'private, no-store')
   }
   
   // Compressão de respostas
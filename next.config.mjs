@@ -23,6 +23,8 @@ const nextConfig = {
     workerThreads: true,
     // Otimizações adicionais
     serverMinification: true,
+    // Validação das variáveis SANKHYA_* na inicialização (instrumentation.ts)
+    instrumentationHook: true,
   },
   // Cache agressivo
   cacheMaxMemorySize: 100 * 1024 * 1024, // 100MB